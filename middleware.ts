@@ -31,6 +31,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // API tokens are verified against the database by getRequestContext in the route handler.
+  if (isProtectedApiPath(pathname) && /^Bearer\s+\S/i.test(request.headers.get("authorization") ?? "")) {
+    return NextResponse.next();
+  }
+
   const token = await getToken({
     req: request,
     secret: process.env.NEXTAUTH_SECRET
@@ -0,0 +1,2 @@
+ALTER TABLE "DocumentChunk" ADD COLUMN "pageNumber" INTEGER;
+ALTER TABLE "DocumentChunk" ADD COLUMN "sectionNumber" INTEGER;
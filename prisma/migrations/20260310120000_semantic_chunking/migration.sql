@@ -0,0 +1,6 @@
+CREATE TYPE "ChunkingStrategy" AS ENUM ('FIXED_WINDOW', 'SEMANTIC');
+
+ALTER TABLE "Document" ADD COLUMN "chunkingStrategy" "ChunkingStrategy" NOT NULL DEFAULT 'FIXED_WINDOW';
+ALTER TABLE "Document" ADD COLUMN "sourceSegments" JSONB;
+
+ALTER TABLE "DocumentChunk" ADD COLUMN "headingPath" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
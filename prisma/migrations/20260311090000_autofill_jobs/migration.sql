@@ -0,0 +1,66 @@
+CREATE TYPE "AutofillJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELED');
+CREATE TYPE "AutofillJobItemStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+CREATE TABLE "AutofillJob" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "questionnaireId" TEXT NOT NULL,
+  "status" "AutofillJobStatus" NOT NULL DEFAULT 'QUEUED',
+  "totalCount" INTEGER NOT NULL DEFAULT 0,
+  "processedCount" INTEGER NOT NULL DEFAULT 0,
+  "failedCount" INTEGER NOT NULL DEFAULT 0,
+  "retryCount" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "createdByUserId" TEXT,
+  "cancelRequestedAt" TIMESTAMP(3),
+  "leaseExpiresAt" TIMESTAMP(3),
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "AutofillJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "AutofillJobItem" (
+  "id" TEXT NOT NULL,
+  "jobId" TEXT NOT NULL,
+  "questionId" TEXT NOT NULL,
+  "rowIndex" INTEGER NOT NULL,
+  "status" "AutofillJobItemStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "reusedFromApprovedAnswerId" TEXT,
+  "reuseMatchType" TEXT,
+  "completedAt" TIMESTAMP(3),
+
+  CONSTRAINT "AutofillJobItem_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AutofillJob_questionnaireId_createdAt_idx"
+ON "AutofillJob"("questionnaireId", "createdAt");
+
+CREATE INDEX "AutofillJob_status_createdAt_idx"
+ON "AutofillJob"("status", "createdAt");
+
+CREATE UNIQUE INDEX "AutofillJobItem_jobId_questionId_key"
+ON "AutofillJobItem"("jobId", "questionId");
+
+CREATE INDEX "AutofillJobItem_jobId_status_rowIndex_idx"
+ON "AutofillJobItem"("jobId", "status", "rowIndex");
+
+ALTER TABLE "AutofillJob"
+ADD CONSTRAINT "AutofillJob_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "AutofillJob"
+ADD CONSTRAINT "AutofillJob_questionnaireId_fkey"
+FOREIGN KEY ("questionnaireId") REFERENCES "Questionnaire"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "AutofillJobItem"
+ADD CONSTRAINT "AutofillJobItem_jobId_fkey"
+FOREIGN KEY ("jobId") REFERENCES "AutofillJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "AutofillJobItem"
+ADD CONSTRAINT "AutofillJobItem_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
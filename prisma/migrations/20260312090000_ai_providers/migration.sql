@@ -0,0 +1,32 @@
+CREATE TYPE "AiProviderKind" AS ENUM ('OPENAI', 'AZURE_OPENAI', 'OPENAI_COMPATIBLE', 'LOCAL');
+
+ALTER TABLE "Organization"
+ADD COLUMN "aiProvider" "AiProviderKind",
+ADD COLUMN "aiProviderConfig" JSONB;
+
+-- Providers produce vectors of different sizes, so the columns no longer pin a dimension.
+DROP INDEX IF EXISTS "DocumentChunk_embedding_cosine_idx";
+
+ALTER TABLE "DocumentChunk"
+ALTER COLUMN "embedding" TYPE vector,
+ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "embeddingDimensions" INTEGER;
+
+UPDATE "DocumentChunk"
+SET "embeddingModel" = 'openai:text-embedding-3-small',
+    "embeddingDimensions" = 1536
+WHERE "embedding" IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "DocumentChunk_embedding_1536_cosine_idx"
+ON "DocumentChunk"
+USING ivfflat (("embedding"::vector(1536)) vector_cosine_ops)
+WITH (lists = 100)
+WHERE "embeddingDimensions" = 1536;
+
+ALTER TABLE "ApprovedAnswer"
+ALTER COLUMN "questionEmbedding" TYPE vector,
+ADD COLUMN "questionEmbeddingModel" TEXT;
+
+UPDATE "ApprovedAnswer"
+SET "questionEmbeddingModel" = 'openai:text-embedding-3-small'
+WHERE "questionEmbedding" IS NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DocumentChunk"
+  ADD COLUMN "contentTsv" tsvector GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- CreateIndex
+CREATE INDEX "DocumentChunk_contentTsv_idx" ON "DocumentChunk" USING GIN ("contentTsv");
@@ -0,0 +1,22 @@
+CREATE TYPE "QuestionnaireSourceFormat" AS ENUM ('CSV', 'XLSX');
+
+ALTER TABLE "Questionnaire"
+ADD COLUMN "sourceFormat" "QuestionnaireSourceFormat" NOT NULL DEFAULT 'CSV',
+ADD COLUMN "sourceSheetName" TEXT,
+ADD COLUMN "sourceHeaderRow" INTEGER;
+
+ALTER TABLE "Question"
+ADD COLUMN "sourceRowNumber" INTEGER;
+
+CREATE TABLE "QuestionnaireSourceFile" (
+  "questionnaireId" TEXT NOT NULL,
+  "fileName" TEXT NOT NULL,
+  "content" BYTEA NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "QuestionnaireSourceFile_pkey" PRIMARY KEY ("questionnaireId")
+);
+
+ALTER TABLE "QuestionnaireSourceFile"
+ADD CONSTRAINT "QuestionnaireSourceFile_questionnaireId_fkey"
+FOREIGN KEY ("questionnaireId") REFERENCES "Questionnaire"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+ALTER TABLE "Questionnaire"
+ADD COLUMN "answerColumn" TEXT,
+ADD COLUMN "yesNoColumn" TEXT,
+ADD COLUMN "citationsColumn" TEXT;
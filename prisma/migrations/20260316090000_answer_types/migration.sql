@@ -0,0 +1,7 @@
+CREATE TYPE "AnswerType" AS ENUM ('BOOLEAN', 'ENUM', 'DATE', 'NUMBER', 'FREE_TEXT');
+
+ALTER TABLE "Question"
+ADD COLUMN "answerType" "AnswerType" NOT NULL DEFAULT 'FREE_TEXT',
+ADD COLUMN "answerOptions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "shortAnswer" TEXT,
+ADD COLUMN "answerExplanation" TEXT;
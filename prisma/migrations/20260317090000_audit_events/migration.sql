@@ -0,0 +1,44 @@
+CREATE TYPE "AuditTargetType" AS ENUM ('DOCUMENT', 'MEMBER', 'INVITE', 'ORGANIZATION', 'QUESTIONNAIRE', 'QUESTION', 'APPROVED_ANSWER');
+
+CREATE TABLE "AuditEvent" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "actorUserId" TEXT,
+  "actorEmail" TEXT,
+  "action" TEXT NOT NULL,
+  "targetType" "AuditTargetType" NOT NULL,
+  "targetId" TEXT,
+  "targetLabel" TEXT,
+  "summary" TEXT NOT NULL,
+  "before" JSONB,
+  "after" JSONB,
+  "ipAddress" TEXT,
+  "userAgent" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AuditEvent_organizationId_createdAt_idx"
+ON "AuditEvent"("organizationId", "createdAt");
+
+CREATE INDEX "AuditEvent_organizationId_action_createdAt_idx"
+ON "AuditEvent"("organizationId", "action", "createdAt");
+
+CREATE INDEX "AuditEvent_organizationId_actorUserId_createdAt_idx"
+ON "AuditEvent"("organizationId", "actorUserId", "createdAt");
+
+ALTER TABLE "AuditEvent"
+ADD CONSTRAINT "AuditEvent_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Audit entries are append-only: rows can be inserted, and only removed together with their organization.
+CREATE FUNCTION "AuditEvent_reject_update"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_append_only"
+BEFORE UPDATE ON "AuditEvent"
+FOR EACH ROW EXECUTE FUNCTION "AuditEvent_reject_update"();
@@ -0,0 +1,45 @@
+ALTER TABLE "Document"
+ADD COLUMN "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE "DocumentVersion" (
+  "id" TEXT NOT NULL,
+  "documentId" TEXT NOT NULL,
+  "versionNumber" INTEGER NOT NULL,
+  "originalName" TEXT NOT NULL,
+  "mimeType" TEXT NOT NULL,
+  "chunkingStrategy" "ChunkingStrategy" NOT NULL,
+  "chunkCount" INTEGER NOT NULL,
+  "reusedChunkCount" INTEGER NOT NULL DEFAULT 0,
+  "addedChunkCount" INTEGER NOT NULL DEFAULT 0,
+  "removedChunkCount" INTEGER NOT NULL DEFAULT 0,
+  "affectedApprovedAnswerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "unaffectedApprovedAnswerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "DocumentVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DocumentVersion_documentId_versionNumber_key"
+ON "DocumentVersion"("documentId", "versionNumber");
+
+ALTER TABLE "DocumentVersion"
+ADD CONSTRAINT "DocumentVersion_documentId_fkey"
+FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing documents start their lineage at version 1.
+INSERT INTO "DocumentVersion" ("id", "documentId", "versionNumber", "originalName", "mimeType", "chunkingStrategy", "chunkCount", "addedChunkCount", "createdAt")
+SELECT
+  'v1_' || d."id",
+  d."id",
+  1,
+  d."originalName",
+  d."mimeType",
+  d."chunkingStrategy",
+  chunk_counts."count",
+  chunk_counts."count",
+  d."createdAt"
+FROM "Document" d
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS "count" FROM "DocumentChunk" dc WHERE dc."documentId" = d."id"
+) chunk_counts;
@@ -0,0 +1,64 @@
+ALTER TABLE "ApprovedAnswer" DROP CONSTRAINT "ApprovedAnswer_questionId_fkey";
+
+ALTER TABLE "ApprovedAnswer"
+ALTER COLUMN "questionId" DROP NOT NULL,
+ADD COLUMN "questionText" TEXT NOT NULL DEFAULT '';
+
+UPDATE "ApprovedAnswer" aa
+SET "questionText" = q."text"
+FROM "Question" q
+WHERE q."id" = aa."questionId";
+
+ALTER TABLE "ApprovedAnswer"
+ADD CONSTRAINT "ApprovedAnswer_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "ApprovedAnswerAlias" (
+  "id" TEXT NOT NULL,
+  "approvedAnswerId" TEXT NOT NULL,
+  "questionText" TEXT NOT NULL,
+  "normalizedQuestionText" TEXT NOT NULL,
+  "questionTextHash" TEXT NOT NULL,
+  "questionEmbedding" vector,
+  "questionEmbeddingModel" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ApprovedAnswerAlias_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ApprovedAnswerAlias_approvedAnswerId_questionTextHash_key"
+ON "ApprovedAnswerAlias"("approvedAnswerId", "questionTextHash");
+
+CREATE INDEX "ApprovedAnswerAlias_questionTextHash_idx"
+ON "ApprovedAnswerAlias"("questionTextHash");
+
+ALTER TABLE "ApprovedAnswerAlias"
+ADD CONSTRAINT "ApprovedAnswerAlias_approvedAnswerId_fkey"
+FOREIGN KEY ("approvedAnswerId") REFERENCES "ApprovedAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "ApprovedAnswerReuse" (
+  "approvedAnswerId" TEXT NOT NULL,
+  "questionId" TEXT NOT NULL,
+  "matchType" "ReuseMatchType" NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ApprovedAnswerReuse_pkey" PRIMARY KEY ("approvedAnswerId", "questionId")
+);
+
+CREATE INDEX "ApprovedAnswerReuse_questionId_idx"
+ON "ApprovedAnswerReuse"("questionId");
+
+ALTER TABLE "ApprovedAnswerReuse"
+ADD CONSTRAINT "ApprovedAnswerReuse_approvedAnswerId_fkey"
+FOREIGN KEY ("approvedAnswerId") REFERENCES "ApprovedAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovedAnswerReuse"
+ADD CONSTRAINT "ApprovedAnswerReuse_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Link rows that were already filled from an approved answer.
+INSERT INTO "ApprovedAnswerReuse" ("approvedAnswerId", "questionId", "matchType", "createdAt")
+SELECT q."reusedFromApprovedAnswerId", q."id", COALESCE(q."reuseMatchType", 'EXACT'), COALESCE(q."reusedAt", q."updatedAt")
+FROM "Question" q
+JOIN "ApprovedAnswer" aa ON aa."id" = q."reusedFromApprovedAnswerId"
+ON CONFLICT DO NOTHING;
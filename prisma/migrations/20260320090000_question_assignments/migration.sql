@@ -0,0 +1,12 @@
+ALTER TABLE "Questionnaire"
+ADD COLUMN "dueAt" TIMESTAMP(3);
+
+ALTER TABLE "Question"
+ADD COLUMN "assigneeUserId" TEXT;
+
+CREATE INDEX "Question_assigneeUserId_idx"
+ON "Question"("assigneeUserId");
+
+ALTER TABLE "Question"
+ADD CONSTRAINT "Question_assigneeUserId_fkey"
+FOREIGN KEY ("assigneeUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
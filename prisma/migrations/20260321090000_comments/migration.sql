@@ -0,0 +1,49 @@
+ALTER TYPE "QuestionHistoryEventType" ADD VALUE 'COMMENTED';
+ALTER TYPE "QuestionHistoryEventType" ADD VALUE 'COMMENT_RESOLVED';
+ALTER TYPE "QuestionHistoryEventType" ADD VALUE 'COMMENT_REOPENED';
+
+ALTER TABLE "QuestionHistoryEvent"
+ADD COLUMN "commentId" TEXT;
+
+CREATE TABLE "Comment" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "questionId" TEXT,
+  "approvedAnswerId" TEXT,
+  "parentId" TEXT,
+  "authorUserId" TEXT,
+  "authorEmail" TEXT,
+  "body" TEXT NOT NULL,
+  "mentionedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "resolvedAt" TIMESTAMP(3),
+  "resolvedByEmail" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "Comment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "Comment_questionId_createdAt_idx"
+ON "Comment"("questionId", "createdAt");
+
+CREATE INDEX "Comment_approvedAnswerId_createdAt_idx"
+ON "Comment"("approvedAnswerId", "createdAt");
+
+CREATE INDEX "Comment_parentId_createdAt_idx"
+ON "Comment"("parentId", "createdAt");
+
+ALTER TABLE "Comment"
+ADD CONSTRAINT "Comment_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Comment"
+ADD CONSTRAINT "Comment_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Comment"
+ADD CONSTRAINT "Comment_approvedAnswerId_fkey"
+FOREIGN KEY ("approvedAnswerId") REFERENCES "ApprovedAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Comment"
+ADD CONSTRAINT "Comment_parentId_fkey"
+FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
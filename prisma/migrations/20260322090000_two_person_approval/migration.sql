@@ -0,0 +1,40 @@
+ALTER TYPE "QuestionHistoryEventType" ADD VALUE 'SIGNED_OFF';
+
+ALTER TABLE "Organization"
+ADD COLUMN "requireTwoPersonApproval" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "ApprovedAnswer"
+ADD COLUMN "approvedByUserId" TEXT,
+ADD COLUMN "approvedAt" TIMESTAMP(3),
+ADD COLUMN "secondApprovedBy" TEXT,
+ADD COLUMN "secondApprovedByUserId" TEXT,
+ADD COLUMN "secondApprovedAt" TIMESTAMP(3);
+
+ALTER TABLE "QuestionHistoryEvent"
+ADD COLUMN "actorUserId" TEXT,
+ADD COLUMN "actorEmail" TEXT;
+
+CREATE TABLE "PendingApproval" (
+  "questionId" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "answerText" TEXT NOT NULL,
+  "citationChunkIds" TEXT[],
+  "source" "ApprovedAnswerSource" NOT NULL,
+  "note" TEXT,
+  "signedByUserId" TEXT NOT NULL,
+  "signedByEmail" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "PendingApproval_pkey" PRIMARY KEY ("questionId")
+);
+
+CREATE INDEX "PendingApproval_organizationId_idx"
+ON "PendingApproval"("organizationId");
+
+ALTER TABLE "PendingApproval"
+ADD CONSTRAINT "PendingApproval_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PendingApproval"
+ADD CONSTRAINT "PendingApproval_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+ALTER TYPE "AuditTargetType" ADD VALUE 'WEBHOOK';
+
+CREATE TABLE "WebhookEndpoint" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "url" TEXT NOT NULL,
+  "description" TEXT,
+  "secret" TEXT NOT NULL,
+  "eventTypes" TEXT[],
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "WebhookEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "WebhookDelivery" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "endpointId" TEXT NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "eventType" TEXT NOT NULL,
+  "payload" JSONB NOT NULL,
+  "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "nextAttemptAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+  "lastAttemptAt" TIMESTAMP(3),
+  "lastStatusCode" INTEGER,
+  "lastError" TEXT,
+  "deliveredAt" TIMESTAMP(3),
+  "redeliveryOfId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "WebhookEndpoint_organizationId_idx"
+ON "WebhookEndpoint"("organizationId");
+
+CREATE INDEX "WebhookDelivery_endpointId_createdAt_idx"
+ON "WebhookDelivery"("endpointId", "createdAt");
+
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx"
+ON "WebhookDelivery"("status", "nextAttemptAt");
+
+ALTER TABLE "WebhookEndpoint"
+ADD CONSTRAINT "WebhookEndpoint_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "WebhookDelivery"
+ADD CONSTRAINT "WebhookDelivery_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "WebhookDelivery"
+ADD CONSTRAINT "WebhookDelivery_endpointId_fkey"
+FOREIGN KEY ("endpointId") REFERENCES "WebhookEndpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
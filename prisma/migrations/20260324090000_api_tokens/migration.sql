@@ -0,0 +1,35 @@
+CREATE TYPE "ApiTokenKind" AS ENUM ('PERSONAL', 'SERVICE');
+
+ALTER TYPE "AuditTargetType" ADD VALUE 'API_TOKEN';
+
+CREATE TABLE "ApiToken" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "kind" "ApiTokenKind" NOT NULL,
+  "name" TEXT NOT NULL,
+  "tokenPrefix" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "maxRole" "MembershipRole" NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "lastUsedAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "revokedByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ApiToken_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ApiToken_tokenHash_key"
+ON "ApiToken"("tokenHash");
+
+CREATE INDEX "ApiToken_organizationId_createdAt_idx"
+ON "ApiToken"("organizationId", "createdAt");
+
+ALTER TABLE "ApiToken"
+ADD CONSTRAINT "ApiToken_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApiToken"
+ADD CONSTRAINT "ApiToken_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+ALTER TABLE "OrganizationInvite"
+ADD COLUMN "revokedAt" TIMESTAMP(3),
+ADD COLUMN "revokedByUserId" TEXT,
+ADD COLUMN "lastSentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE "OrganizationInvite" SET "lastSentAt" = "createdAt";
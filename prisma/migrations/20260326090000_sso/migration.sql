@@ -0,0 +1,52 @@
+CREATE TYPE "SsoProtocol" AS ENUM ('OIDC', 'SAML');
+
+ALTER TYPE "AuditTargetType" ADD VALUE 'SSO';
+
+CREATE TABLE "SsoConnection" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "protocol" "SsoProtocol" NOT NULL,
+  "issuer" TEXT NOT NULL,
+  "clientId" TEXT NOT NULL,
+  "clientSecret" TEXT NOT NULL,
+  "enabled" BOOLEAN NOT NULL DEFAULT false,
+  "defaultRole" "InviteRole" NOT NULL DEFAULT 'VIEWER',
+  "disableMagicLink" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "SsoConnection_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SsoConnection_organizationId_key"
+ON "SsoConnection"("organizationId");
+
+ALTER TABLE "SsoConnection"
+ADD CONSTRAINT "SsoConnection_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "OrganizationDomain" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "domain" TEXT NOT NULL,
+  "verificationToken" TEXT NOT NULL,
+  "verifiedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "OrganizationDomain_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OrganizationDomain_organizationId_domain_key"
+ON "OrganizationDomain"("organizationId", "domain");
+
+CREATE INDEX "OrganizationDomain_domain_idx"
+ON "OrganizationDomain"("domain");
+
+-- A domain can be verified by at most one organization.
+CREATE UNIQUE INDEX "OrganizationDomain_verified_domain_key"
+ON "OrganizationDomain"("domain")
+WHERE "verifiedAt" IS NOT NULL;
+
+ALTER TABLE "OrganizationDomain"
+ADD CONSTRAINT "OrganizationDomain_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
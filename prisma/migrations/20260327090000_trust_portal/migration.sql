@@ -0,0 +1,125 @@
+CREATE TYPE "TrustPortalAccessMode" AS ENUM ('PUBLIC', 'NDA_GATED');
+
+CREATE TYPE "TrustAccessRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+CREATE TYPE "TrustPortalEventType" AS ENUM ('VIEWED_PORTAL', 'DOWNLOADED_DOCUMENT');
+
+ALTER TYPE "AuditTargetType" ADD VALUE 'TRUST_PORTAL';
+
+CREATE TABLE "TrustPortal" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "slug" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "description" TEXT,
+  "published" BOOLEAN NOT NULL DEFAULT false,
+  "accessMode" "TrustPortalAccessMode" NOT NULL DEFAULT 'NDA_GATED',
+  "ndaText" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "TrustPortal_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TrustPortal_organizationId_key"
+ON "TrustPortal"("organizationId");
+
+CREATE UNIQUE INDEX "TrustPortal_slug_key"
+ON "TrustPortal"("slug");
+
+ALTER TABLE "TrustPortal"
+ADD CONSTRAINT "TrustPortal_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "TrustPortalAnswer" (
+  "id" TEXT NOT NULL,
+  "portalId" TEXT NOT NULL,
+  "approvedAnswerId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "TrustPortalAnswer_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TrustPortalAnswer_portalId_approvedAnswerId_key"
+ON "TrustPortalAnswer"("portalId", "approvedAnswerId");
+
+ALTER TABLE "TrustPortalAnswer"
+ADD CONSTRAINT "TrustPortalAnswer_portalId_fkey"
+FOREIGN KEY ("portalId") REFERENCES "TrustPortal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "TrustPortalAnswer"
+ADD CONSTRAINT "TrustPortalAnswer_approvedAnswerId_fkey"
+FOREIGN KEY ("approvedAnswerId") REFERENCES "ApprovedAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "TrustPortalDocument" (
+  "id" TEXT NOT NULL,
+  "portalId" TEXT NOT NULL,
+  "documentId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "TrustPortalDocument_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TrustPortalDocument_portalId_documentId_key"
+ON "TrustPortalDocument"("portalId", "documentId");
+
+ALTER TABLE "TrustPortalDocument"
+ADD CONSTRAINT "TrustPortalDocument_portalId_fkey"
+FOREIGN KEY ("portalId") REFERENCES "TrustPortal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "TrustPortalDocument"
+ADD CONSTRAINT "TrustPortalDocument_documentId_fkey"
+FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "TrustAccessRequest" (
+  "id" TEXT NOT NULL,
+  "portalId" TEXT NOT NULL,
+  "email" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "company" TEXT,
+  "reason" TEXT,
+  "ndaAcceptedAt" TIMESTAMP(3),
+  "status" "TrustAccessRequestStatus" NOT NULL DEFAULT 'PENDING',
+  "accessTokenHash" TEXT,
+  "accessExpiresAt" TIMESTAMP(3),
+  "reviewedByUserId" TEXT,
+  "reviewedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "TrustAccessRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TrustAccessRequest_accessTokenHash_key"
+ON "TrustAccessRequest"("accessTokenHash");
+
+CREATE INDEX "TrustAccessRequest_portalId_status_createdAt_idx"
+ON "TrustAccessRequest"("portalId", "status", "createdAt");
+
+ALTER TABLE "TrustAccessRequest"
+ADD CONSTRAINT "TrustAccessRequest_portalId_fkey"
+FOREIGN KEY ("portalId") REFERENCES "TrustPortal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "TrustPortalEvent" (
+  "id" TEXT NOT NULL,
+  "portalId" TEXT NOT NULL,
+  "type" "TrustPortalEventType" NOT NULL,
+  "documentId" TEXT,
+  "accessRequestId" TEXT,
+  "viewerEmail" TEXT,
+  "ipAddress" TEXT,
+  "userAgent" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "TrustPortalEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "TrustPortalEvent_portalId_createdAt_idx"
+ON "TrustPortalEvent"("portalId", "createdAt");
+
+ALTER TABLE "TrustPortalEvent"
+ADD CONSTRAINT "TrustPortalEvent_portalId_fkey"
+FOREIGN KEY ("portalId") REFERENCES "TrustPortal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "TrustPortalEvent"
+ADD CONSTRAINT "TrustPortalEvent_accessRequestId_fkey"
+FOREIGN KEY ("accessRequestId") REFERENCES "TrustAccessRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+CREATE TYPE "DocumentClassification" AS ENUM ('PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED');
+
+ALTER TABLE "Document"
+ADD COLUMN "ownerUserId" TEXT,
+ADD COLUMN "effectiveDate" TIMESTAMP(3),
+ADD COLUMN "reviewByDate" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "classification" "DocumentClassification",
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX "Document_ownerUserId_idx"
+ON "Document"("ownerUserId");
+
+ALTER TABLE "Document"
+ADD CONSTRAINT "Document_ownerUserId_fkey"
+FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+ALTER TYPE "AuditTargetType" ADD VALUE 'EVIDENCE_COLLECTION';
+
+CREATE TABLE "EvidenceCollection" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "EvidenceCollection_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EvidenceCollection_organizationId_name_key"
+ON "EvidenceCollection"("organizationId", "name");
+
+ALTER TABLE "EvidenceCollection"
+ADD CONSTRAINT "EvidenceCollection_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "EvidenceCollectionDocument" (
+  "id" TEXT NOT NULL,
+  "collectionId" TEXT NOT NULL,
+  "documentId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "EvidenceCollectionDocument_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EvidenceCollectionDocument_collectionId_documentId_key"
+ON "EvidenceCollectionDocument"("collectionId", "documentId");
+
+CREATE INDEX "EvidenceCollectionDocument_documentId_idx"
+ON "EvidenceCollectionDocument"("documentId");
+
+ALTER TABLE "EvidenceCollectionDocument"
+ADD CONSTRAINT "EvidenceCollectionDocument_collectionId_fkey"
+FOREIGN KEY ("collectionId") REFERENCES "EvidenceCollection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "EvidenceCollectionDocument"
+ADD CONSTRAINT "EvidenceCollectionDocument_documentId_fkey"
+FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Questionnaire" ADD COLUMN "evidenceCollectionId" TEXT;
+
+ALTER TABLE "Questionnaire"
+ADD CONSTRAINT "Questionnaire_evidenceCollectionId_fkey"
+FOREIGN KEY ("evidenceCollectionId") REFERENCES "EvidenceCollection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovedAnswer" ADD COLUMN "evidenceCollectionId" TEXT;
+
+ALTER TABLE "ApprovedAnswer"
+ADD CONSTRAINT "ApprovedAnswer_evidenceCollectionId_fkey"
+FOREIGN KEY ("evidenceCollectionId") REFERENCES "EvidenceCollection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+CREATE TYPE "DocumentShareability" AS ENUM ('PUBLIC', 'NDA', 'INTERNAL_ONLY');
+
+ALTER TABLE "Document"
+ADD COLUMN "shareability" "DocumentShareability" NOT NULL DEFAULT 'NDA';
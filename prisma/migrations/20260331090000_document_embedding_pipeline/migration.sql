@@ -0,0 +1,9 @@
+ALTER TYPE "DocumentStatus" ADD VALUE 'READY' AFTER 'CHUNKED';
+
+ALTER TABLE "Document"
+ADD COLUMN "embeddingAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "embeddingNextAttemptAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "embeddingError" TEXT;
+
+CREATE INDEX "Document_status_embeddingNextAttemptAt_idx"
+ON "Document"("status", "embeddingNextAttemptAt");
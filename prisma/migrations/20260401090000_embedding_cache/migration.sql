@@ -0,0 +1,19 @@
+CREATE TABLE "EmbeddingCacheEntry" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "fingerprint" TEXT NOT NULL,
+  "embeddingModel" TEXT NOT NULL,
+  "embedding" vector NOT NULL,
+  "embeddingDimensions" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "EmbeddingCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmbeddingCacheEntry_lookup_key"
+ON "EmbeddingCacheEntry"("organizationId", "embeddingModel", "fingerprint");
+
+ALTER TABLE "EmbeddingCacheEntry"
+ADD CONSTRAINT "EmbeddingCacheEntry_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
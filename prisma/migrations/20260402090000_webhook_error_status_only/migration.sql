@@ -0,0 +1,5 @@
+-- Drop receiver response excerpts stored by earlier deliveries; only the status code is kept.
+UPDATE "WebhookDelivery"
+SET "lastError" = 'Endpoint responded with HTTP ' || "lastStatusCode" || '.'
+WHERE "lastStatusCode" IS NOT NULL
+  AND "lastError" LIKE 'Endpoint responded with HTTP %: %';
@@ -0,0 +1 @@
+ALTER TABLE "AutofillJob" ADD COLUMN "debug" BOOLEAN NOT NULL DEFAULT false;
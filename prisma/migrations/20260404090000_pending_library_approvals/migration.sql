@@ -0,0 +1,31 @@
+CREATE TABLE "PendingLibraryApproval" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "approvedAnswerId" TEXT,
+  "questionText" TEXT NOT NULL,
+  "questionTextHash" TEXT NOT NULL,
+  "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "answerText" TEXT NOT NULL,
+  "citationChunkIds" TEXT[],
+  "note" TEXT,
+  "evidenceCollectionId" TEXT,
+  "signedByUserId" TEXT NOT NULL,
+  "signedByEmail" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "PendingLibraryApproval_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PendingLibraryApproval_approvedAnswerId_key"
+ON "PendingLibraryApproval"("approvedAnswerId");
+
+CREATE INDEX "PendingLibraryApproval_organizationId_questionTextHash_idx"
+ON "PendingLibraryApproval"("organizationId", "questionTextHash");
+
+ALTER TABLE "PendingLibraryApproval"
+ADD CONSTRAINT "PendingLibraryApproval_organizationId_fkey"
+FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PendingLibraryApproval"
+ADD CONSTRAINT "PendingLibraryApproval_approvedAnswerId_fkey"
+FOREIGN KEY ("approvedAnswerId") REFERENCES "ApprovedAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+UPDATE "Question" SET "answerOptions" = ARRAY[]::TEXT[] WHERE "answerOptions" IS NULL;
+
+ALTER TABLE "Question"
+ALTER COLUMN "answerOptions" SET NOT NULL;
@@ -0,0 +1,20 @@
+-- Keep the newest active job per questionnaire before enforcing one at a time.
+UPDATE "AutofillJob" AS job
+SET
+  "status" = 'CANCELED',
+  "leaseExpiresAt" = NULL,
+  "finishedAt" = CURRENT_TIMESTAMP
+WHERE job."status" IN ('QUEUED', 'RUNNING')
+  AND EXISTS (
+    SELECT 1
+    FROM "AutofillJob" AS newer
+    WHERE newer."questionnaireId" = job."questionnaireId"
+      AND newer."status" IN ('QUEUED', 'RUNNING')
+      AND (newer."createdAt", newer."id") > (job."createdAt", job."id")
+  );
+
+CREATE UNIQUE INDEX "AutofillJob_questionnaireId_active_key"
+  ON "AutofillJob"("questionnaireId")
+  WHERE "status" IN ('QUEUED', 'RUNNING');
+
+ALTER TABLE "AutofillJob" ADD COLUMN "leaseToken" TEXT;
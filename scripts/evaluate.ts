@@ -0,0 +1,76 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { prisma } from "../src/lib/prisma";
+import { parseGoldenSet } from "../src/server/evaluation/goldenSet";
+import {
+  diffEvaluationRuns,
+  formatEvaluationDiff,
+  formatEvaluationReport,
+  type EvaluationRun
+} from "../src/server/evaluation/metrics";
+import { runEvaluation } from "../src/server/evaluation/runEvaluation";
+
+const USAGE = [
+  "Usage:",
+  "  npm run eval -- run <golden-set.json> [--out <run.json>]",
+  "  npm run eval -- diff <baseline-run.json> <candidate-run.json>"
+].join("\n");
+
+function readJson(filePath: string): unknown {
+  return JSON.parse(readFileSync(path.resolve(process.cwd(), filePath), "utf8"));
+}
+
+function readOption(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] ?? null : null;
+}
+
+async function runCommand(args: string[]) {
+  const goldenSetPath = args[0];
+  if (!goldenSetPath) {
+    throw new Error(USAGE);
+  }
+
+  const resolvedPath = path.resolve(process.cwd(), goldenSetPath);
+  const goldenSet = parseGoldenSet(readJson(resolvedPath));
+  const run = await runEvaluation({ goldenSet, corpusDir: path.dirname(resolvedPath) });
+  console.log(formatEvaluationReport(run));
+
+  const outPath = readOption(args, "--out");
+  if (outPath) {
+    writeFileSync(path.resolve(process.cwd(), outPath), `${JSON.stringify(run, null, 2)}\n`);
+    console.log(`\nWrote ${outPath}`);
+  }
+}
+
+function diffCommand(args: string[]) {
+  const [baselinePath, candidatePath] = args;
+  if (!baselinePath || !candidatePath) {
+    throw new Error(USAGE);
+  }
+
+  const diff = diffEvaluationRuns(readJson(baselinePath) as EvaluationRun, readJson(candidatePath) as EvaluationRun);
+  console.log(formatEvaluationDiff(diff));
+  // Fail CI when a change breaks a case the baseline got right.
+  if (diff.regressions.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === "run") {
+    await runCommand(args);
+  } else if (command === "diff") {
+    diffCommand(args);
+  } else {
+    throw new Error(USAGE);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
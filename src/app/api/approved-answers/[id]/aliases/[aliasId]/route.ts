@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+    aliasId: string;
+  };
+};
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.EDIT_APPROVED_ANSWERS);
+
+    const alias = await prisma.approvedAnswerAlias.findFirst({
+      where: {
+        id: context.params.aliasId.trim(),
+        approvedAnswerId: context.params.id.trim(),
+        approvedAnswer: {
+          organizationId: ctx.orgId
+        }
+      },
+      select: {
+        id: true,
+        approvedAnswerId: true,
+        questionText: true
+      }
+    });
+
+    if (!alias) {
+      throw new ApiRouteError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Alias not found."
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.approvedAnswerAlias.delete({
+        where: {
+          id: alias.id
+        }
+      });
+
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.EDIT_APPROVED_ANSWERS,
+        targetType: "APPROVED_ANSWER",
+        targetId: alias.approvedAnswerId,
+        summary: "Removed a question alias.",
+        before: {
+          aliasId: alias.id,
+          questionText: truncateAuditText(alias.questionText)
+        }
+      });
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to remove approved answer alias", error);
+    return toApiErrorResponse(error, "Failed to remove approved answer alias.");
+  }
+}
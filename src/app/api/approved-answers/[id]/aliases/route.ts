@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import {
+  embedQuestionPhrasing,
+  MAX_ALIASES_PER_ANSWER,
+  writeApprovedAnswerAlias
+} from "@/server/approvedAnswers/libraryAnswers";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+type CreateAliasBody = {
+  questionText?: unknown;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.EDIT_APPROVED_ANSWERS);
+    const approvedAnswerId = context.params.id.trim();
+    const payload = (await request.json().catch(() => null)) as CreateAliasBody | null;
+    const questionText = typeof payload?.questionText === "string" ? payload.questionText.trim() : "";
+
+    if (!approvedAnswerId || !questionText) {
+      throw new ApiRouteError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Approved answer ID and questionText are required."
+      });
+    }
+
+    const approvedAnswer = await prisma.approvedAnswer.findFirst({
+      where: {
+        id: approvedAnswerId,
+        organizationId: ctx.orgId
+      },
+      select: {
+        id: true,
+        questionText: true,
+        questionTextHash: true,
+        _count: {
+          select: { aliases: true }
+        }
+      }
+    });
+
+    if (!approvedAnswer) {
+      throw new ApiRouteError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Approved answer not found."
+      });
+    }
+
+    const phrasing = await embedQuestionPhrasing(ctx.orgId, questionText);
+    if (phrasing.questionTextHash === approvedAnswer.questionTextHash) {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: "This phrasing is already the answer's primary question."
+      });
+    }
+
+    if (approvedAnswer._count.aliases >= MAX_ALIASES_PER_ANSWER) {
+      throw new ApiRouteError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: `An approved answer can have at most ${MAX_ALIASES_PER_ANSWER} aliases.`
+      });
+    }
+
+    const alias = await prisma.$transaction(async (tx) => {
+      const written = await writeApprovedAnswerAlias({
+        db: tx,
+        approvedAnswerId: approvedAnswer.id,
+        phrasing
+      });
+
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.EDIT_APPROVED_ANSWERS,
+        targetType: "APPROVED_ANSWER",
+        targetId: approvedAnswer.id,
+        targetLabel: truncateAuditText(approvedAnswer.questionText),
+        summary: "Added a question alias.",
+        after: {
+          aliasId: written.id,
+          questionText: truncateAuditText(written.questionText)
+        }
+      });
+
+      return written;
+    });
+
+    return NextResponse.json({ alias }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add approved answer alias", error);
+    return toApiErrorResponse(error, "Failed to add approved answer alias.");
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { jsonError } from "@/lib/apiResponse";
 import { ApiRouteError, assertChunkOwnership, normalizeCitationChunkIds } from "@/lib/approvalValidation";
 import { toApiErrorResponse } from "@/lib/apiResponse";
+import { withChunkLocation } from "@/lib/citations";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
 import { createEmbedding } from "@/lib/openai";
 import { prisma } from "@/lib/prisma";
 import { buildQuestionTextMetadata } from "@/lib/questionText";
@@ -11,10 +13,17 @@ import {
   normalizeApprovalAnswerAndCitations,
   syncApprovedAnswerEvidenceSnapshots
 } from "@/server/approvedAnswers/evidenceSnapshots";
+import {
+  clearPendingLibraryApproval,
+  resolveApprovalSignOff,
+  resolveLibraryApprovalSignOff
+} from "@/server/approvedAnswers/approvalSignOff";
 import { getApprovedAnswerLibraryDetail } from "@/server/approvedAnswers/getApprovedAnswerLibraryDetail";
 import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
 import { recordQuestionHistoryEvent } from "@/server/questionHistory/recordQuestionHistoryEvent";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
 
 type RouteContext = {
   params: {
@@ -23,16 +32,17 @@ type RouteContext = {
 };
 
 type UpdateApprovedAnswerBody = {
+  questionText?: unknown;
   answerText?: unknown;
   citationChunkIds?: unknown;
   note?: unknown;
-  approvedBy?: unknown;
 };
 
 type ApprovedAnswerCitation = {
   chunkId: string;
   docName: string;
   quotedSnippet: string;
+  location?: string;
 };
 
 export async function GET(_request: Request, context: RouteContext) {
@@ -117,6 +127,8 @@ export async function GET(_request: Request, context: RouteContext) {
           select: {
             id: true,
             content: true,
+            pageNumber: true,
+            sectionNumber: true,
             document: {
               select: {
                 name: true
@@ -132,7 +144,8 @@ export async function GET(_request: Request, context: RouteContext) {
         {
           chunkId: chunk.id,
           docName: chunk.document.name,
-          quotedSnippet: chunk.content
+          quotedSnippet: chunk.content,
+          ...withChunkLocation(chunk)
         }
       ])
     );
@@ -172,12 +185,14 @@ export async function PATCH(request: Request, context: RouteContext) {
       select: {
         id: true,
         questionId: true,
+        questionText: true,
         answerText: true,
         citationChunkIds: true,
         note: true,
-        approvedBy: true,
+        evidenceCollectionId: true,
         question: {
           select: {
+            id: true,
             text: true,
             questionnaireId: true
           }
@@ -194,6 +209,12 @@ export async function PATCH(request: Request, context: RouteContext) {
     }
 
     const payload = (await request.json().catch(() => null)) as UpdateApprovedAnswerBody | null;
+    // Answers approved from a questionnaire row keep that row's wording; library entries can be reworded.
+    const questionText =
+      existing.question?.text ??
+      (typeof payload?.questionText === "string" && payload.questionText.trim()
+        ? payload.questionText.trim()
+        : existing.questionText);
     const answerTextCandidate =
       typeof payload?.answerText === "string" ? payload.answerText.trim() : existing.answerText;
     const citationChunkIdsCandidate =
@@ -201,8 +222,6 @@ export async function PATCH(request: Request, context: RouteContext) {
         ? normalizeCitationChunkIds(payload.citationChunkIds)
         : existing.citationChunkIds;
     const note = typeof payload?.note === "string" ? payload.note.trim() || null : existing.note;
-    const approvedBy =
-      typeof payload?.approvedBy === "string" ? payload.approvedBy.trim() || "system" : (existing.approvedBy ?? "system");
 
     const normalizedApproval = normalizeApprovalAnswerAndCitations({
       answerText: answerTextCandidate,
@@ -215,8 +234,42 @@ export async function PATCH(request: Request, context: RouteContext) {
         chunkIds: normalizedApproval.citationChunkIds
       });
     }
-    const questionMetadata = buildQuestionTextMetadata(existing.question.text);
-    const questionEmbedding = await createEmbedding(existing.question.text);
+
+    // Editing re-approves the answer, so it goes through the same sign-off policy as approving it:
+    // the row's for row-backed answers, the library's for entries authored in the library.
+    const questionMetadata = buildQuestionTextMetadata(questionText);
+    const signOff = existing.question
+      ? await resolveApprovalSignOff({
+          ctx,
+          request,
+          question: existing.question,
+          content: {
+            answerText: normalizedApproval.answerText,
+            citationChunkIds: normalizedApproval.citationChunkIds,
+            source: "MANUAL_EDIT",
+            note
+          }
+        })
+      : await resolveLibraryApprovalSignOff({
+          ctx,
+          request,
+          approvedAnswerId: existing.id,
+          content: {
+            questionText,
+            questionTextHash: questionMetadata.questionTextHash,
+            aliases: [],
+            answerText: normalizedApproval.answerText,
+            citationChunkIds: normalizedApproval.citationChunkIds,
+            note,
+            evidenceCollectionId: existing.evidenceCollectionId
+          }
+        });
+    if (signOff.status === "PENDING") {
+      return NextResponse.json({ pendingSignOff: signOff.pendingSignOff }, { status: 202 });
+    }
+
+    const aiProvider = await getAiProviderForOrganization(ctx.orgId);
+    const questionEmbedding = await createEmbedding(questionText, aiProvider);
 
     const approvedAnswer = await prisma.$transaction(async (tx) => {
       const updated = await tx.approvedAnswer.update({
@@ -224,13 +277,15 @@ export async function PATCH(request: Request, context: RouteContext) {
           id: existing.id
         },
         data: {
+          questionText,
           normalizedQuestionText: questionMetadata.normalizedQuestionText,
           questionTextHash: questionMetadata.questionTextHash,
+          questionEmbeddingModel: aiProvider.embeddingModel,
           answerText: normalizedApproval.answerText,
           citationChunkIds: normalizedApproval.citationChunkIds,
           source: "MANUAL_EDIT",
           note,
-          approvedBy
+          ...signOff.signerData
         }
       });
 
@@ -238,7 +293,7 @@ export async function PATCH(request: Request, context: RouteContext) {
         `
           UPDATE "ApprovedAnswer"
           SET
-            "questionEmbedding" = $1::vector(1536),
+            "questionEmbedding" = $1::vector,
             "normalizedQuestionText" = $2,
             "questionTextHash" = $3
           WHERE "id" = $4
@@ -256,26 +311,63 @@ export async function PATCH(request: Request, context: RouteContext) {
         citationChunkIds: normalizedApproval.citationChunkIds
       });
 
-      await tx.question.update({
-        where: {
-          id: existing.questionId
-        },
-        data: {
-          reviewStatus: "APPROVED"
-        }
-      });
+      if (existing.questionId && existing.question) {
+        await tx.question.update({
+          where: {
+            id: existing.questionId
+          },
+          data: {
+            reviewStatus: "APPROVED"
+          }
+        });
+        await tx.pendingApproval.deleteMany({
+          where: { questionId: existing.questionId }
+        });
 
-      await recordQuestionHistoryEvent({
+        await recordQuestionHistoryEvent({
+          db: tx,
+          organizationId: ctx.orgId,
+          questionnaireId: existing.question.questionnaireId,
+          questionId: existing.questionId,
+          type: "APPROVED",
+          approvedAnswerId: updated.id,
+          actor: signOff.actor
+        });
+      } else {
+        await clearPendingLibraryApproval({
+          db: tx,
+          organizationId: ctx.orgId,
+          approvedAnswerId: existing.id,
+          questionTextHash: questionMetadata.questionTextHash
+        });
+      }
+
+      await recordAuditEvent({
         db: tx,
-        organizationId: ctx.orgId,
-        questionnaireId: existing.question.questionnaireId,
-        questionId: existing.questionId,
-        type: "APPROVED",
-        approvedAnswerId: updated.id
+        ctx,
+        request,
+        action: RbacAction.EDIT_APPROVED_ANSWERS,
+        targetType: "APPROVED_ANSWER",
+        targetId: updated.id,
+        targetLabel: truncateAuditText(questionText),
+        summary: "Edited approved answer.",
+        before: {
+          questionText: truncateAuditText(existing.questionText),
+          answerText: truncateAuditText(existing.answerText),
+          citationChunkIds: existing.citationChunkIds,
+          note: truncateAuditText(existing.note)
+        },
+        after: {
+          questionText: truncateAuditText(updated.questionText),
+          answerText: truncateAuditText(updated.answerText),
+          citationChunkIds: updated.citationChunkIds,
+          note: truncateAuditText(updated.note)
+        }
       });
 
       return updated;
     });
+    startWebhookDeliveriesInBackground(ctx.orgId);
 
     return NextResponse.json({
       approvedAnswer
@@ -285,9 +377,9 @@ export async function PATCH(request: Request, context: RouteContext) {
   }
 }
 
-export async function DELETE(_request: Request, context: RouteContext) {
+export async function DELETE(request: Request, context: RouteContext) {
   try {
-    const ctx = await getRequestContext(_request);
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.APPROVE_ANSWERS);
     const approvedAnswerId = context.params.id.trim();
 
@@ -306,7 +398,10 @@ export async function DELETE(_request: Request, context: RouteContext) {
       },
       select: {
         id: true,
-        questionId: true
+        questionId: true,
+        questionText: true,
+        answerText: true,
+        citationChunkIds: true
       }
     });
 
@@ -318,21 +413,40 @@ export async function DELETE(_request: Request, context: RouteContext) {
       });
     }
 
-    await prisma.$transaction([
-      prisma.approvedAnswer.delete({
+    await prisma.$transaction(async (tx) => {
+      await tx.approvedAnswer.delete({
         where: {
           id: existing.id
         }
-      }),
-      prisma.question.update({
-        where: {
-          id: existing.questionId
-        },
-        data: {
-          reviewStatus: "DRAFT"
+      });
+      if (existing.questionId) {
+        await tx.question.update({
+          where: {
+            id: existing.questionId
+          },
+          data: {
+            reviewStatus: "DRAFT"
+          }
+        });
+      }
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.APPROVE_ANSWERS,
+        targetType: "APPROVED_ANSWER",
+        targetId: existing.id,
+        targetLabel: truncateAuditText(existing.questionText),
+        summary: existing.questionId
+          ? "Removed approved answer; the question is back in draft."
+          : "Removed library answer.",
+        before: {
+          questionId: existing.questionId,
+          answerText: truncateAuditText(existing.answerText),
+          citationChunkIds: existing.citationChunkIds
         }
-      })
-    ]);
+      });
+    });
 
     return NextResponse.json({
       ok: true
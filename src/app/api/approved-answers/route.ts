@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
 import { createEmbedding } from "@/lib/openai";
 import { buildQuestionTextMetadata } from "@/lib/questionText";
 import { embeddingToVectorLiteral } from "@/lib/retrieval";
@@ -10,22 +11,38 @@ import {
   normalizeCitationChunkIds
 } from "@/lib/approvalValidation";
 import { prisma } from "@/lib/prisma";
-import { getRequestContext } from "@/lib/requestContext";
+import { getRequestContext, type RequestContext } from "@/lib/requestContext";
+import {
+  clearPendingLibraryApproval,
+  resolveApprovalSignOff,
+  resolveLibraryApprovalSignOff
+} from "@/server/approvedAnswers/approvalSignOff";
 import {
   normalizeApprovalAnswerAndCitations,
   syncApprovedAnswerEvidenceSnapshots
 } from "@/server/approvedAnswers/evidenceSnapshots";
+import {
+  embedQuestionPhrasing,
+  parseAliasTexts,
+  writeApprovedAnswerAlias,
+  type QuestionPhrasing
+} from "@/server/approvedAnswers/libraryAnswers";
 import { listApprovedAnswersForOrg, type ApprovedAnswersLibraryFreshness } from "@/server/approvedAnswers/listApprovedAnswers";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { resolveEvidenceCollectionId } from "@/server/evidenceCollections/evidenceCollections";
 import { recordQuestionHistoryEvent } from "@/server/questionHistory/recordQuestionHistoryEvent";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
 
 type CreateApprovedAnswerBody = {
   questionId?: unknown;
+  questionText?: unknown;
+  aliases?: unknown;
   answerText?: unknown;
   citationChunkIds?: unknown;
   source?: unknown;
-  approvedBy?: unknown;
   note?: unknown;
+  evidenceCollectionId?: unknown;
 };
 
 function parseFreshness(value: string | null): ApprovedAnswersLibraryFreshness {
@@ -73,21 +90,143 @@ export async function GET(request: Request) {
   }
 }
 
+function readNote(payload: CreateApprovedAnswerBody | null): string | null {
+  return typeof payload?.note === "string" ? payload.note.trim() || null : null;
+}
+
+/** Canonical library entry authored directly on the library page, not tied to a questionnaire row. */
+async function createLibraryAnswer(request: Request, ctx: RequestContext, payload: CreateApprovedAnswerBody | null) {
+  const questionText = typeof payload?.questionText === "string" ? payload.questionText.trim() : "";
+  const aliasTexts = parseAliasTexts(payload?.aliases);
+  const normalizedApproval = normalizeApprovalAnswerAndCitations({
+    answerText: typeof payload?.answerText === "string" ? payload.answerText : "",
+    citationChunkIds: normalizeCitationChunkIds(payload?.citationChunkIds)
+  });
+
+  if (normalizedApproval.citationChunkIds.length > 0) {
+    await assertChunkOwnership({
+      organizationId: ctx.orgId,
+      chunkIds: normalizedApproval.citationChunkIds
+    });
+  }
+
+  const evidenceCollectionId =
+    (await resolveEvidenceCollectionId({ orgId: ctx.orgId, value: payload?.evidenceCollectionId })) ?? null;
+  const note = readNote(payload);
+  const primary = await embedQuestionPhrasing(ctx.orgId, questionText);
+  const signOff = await resolveLibraryApprovalSignOff({
+    ctx,
+    request,
+    approvedAnswerId: null,
+    content: {
+      questionText: primary.questionText,
+      questionTextHash: primary.questionTextHash,
+      aliases: aliasTexts,
+      answerText: normalizedApproval.answerText,
+      citationChunkIds: normalizedApproval.citationChunkIds,
+      note,
+      evidenceCollectionId
+    }
+  });
+  if (signOff.status === "PENDING") {
+    return NextResponse.json({ pendingSignOff: signOff.pendingSignOff }, { status: 202 });
+  }
+
+  const aliases: QuestionPhrasing[] = [];
+  for (const aliasText of aliasTexts) {
+    const alias = await embedQuestionPhrasing(ctx.orgId, aliasText);
+    if (alias.questionTextHash !== primary.questionTextHash) {
+      aliases.push(alias);
+    }
+  }
+
+  const approvedAnswer = await prisma.$transaction(async (tx) => {
+    const created = await tx.approvedAnswer.create({
+      data: {
+        organizationId: ctx.orgId,
+        questionText: primary.questionText,
+        normalizedQuestionText: primary.normalizedQuestionText,
+        questionTextHash: primary.questionTextHash,
+        questionEmbeddingModel: primary.embeddingModel,
+        answerText: normalizedApproval.answerText,
+        citationChunkIds: normalizedApproval.citationChunkIds,
+        source: "MANUAL_EDIT",
+        ...signOff.signerData,
+        note,
+        evidenceCollectionId
+      }
+    });
+
+    await tx.$executeRawUnsafe(
+      `
+        UPDATE "ApprovedAnswer"
+        SET "questionEmbedding" = $1::vector
+        WHERE "id" = $2
+      `,
+      embeddingToVectorLiteral(primary.embedding),
+      created.id
+    );
+
+    for (const alias of aliases) {
+      await writeApprovedAnswerAlias({ db: tx, approvedAnswerId: created.id, phrasing: alias });
+    }
+
+    await syncApprovedAnswerEvidenceSnapshots({
+      db: tx,
+      organizationId: ctx.orgId,
+      approvedAnswerId: created.id,
+      citationChunkIds: normalizedApproval.citationChunkIds
+    });
+    await clearPendingLibraryApproval({
+      db: tx,
+      organizationId: ctx.orgId,
+      approvedAnswerId: null,
+      questionTextHash: primary.questionTextHash
+    });
+
+    await recordAuditEvent({
+      db: tx,
+      ctx,
+      request,
+      action: RbacAction.APPROVE_ANSWERS,
+      targetType: "APPROVED_ANSWER",
+      targetId: created.id,
+      targetLabel: truncateAuditText(primary.questionText),
+      summary: "Added a library answer.",
+      after: {
+        answerText: truncateAuditText(created.answerText),
+        citationChunkIds: created.citationChunkIds,
+        aliases: aliases.map((alias) => alias.questionText),
+        evidenceCollectionId
+      }
+    });
+
+    return created;
+  });
+
+  return NextResponse.json({ approvedAnswer }, { status: 201 });
+}
+
 export async function POST(request: Request) {
   try {
     const payload = (await request.json().catch(() => null)) as CreateApprovedAnswerBody | null;
     const questionId = typeof payload?.questionId === "string" ? payload.questionId.trim() : "";
+    const hasQuestionText = typeof payload?.questionText === "string" && payload.questionText.trim().length > 0;
 
-    if (!questionId) {
+    if (!questionId && !hasQuestionText) {
       throw new ApiRouteError({
         status: 400,
         code: "VALIDATION_ERROR",
-        message: "questionId is required."
+        message: "questionId or questionText is required."
       });
     }
 
     const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.APPROVE_ANSWERS);
+    if (!questionId) {
+      return await createLibraryAnswer(request, ctx, payload);
+    }
+
     const question = await prisma.question.findFirst({
       where: {
         id: questionId,
@@ -100,7 +239,12 @@ export async function POST(request: Request) {
         questionnaireId: true,
         text: true,
         answer: true,
-        citations: true
+        citations: true,
+        questionnaire: {
+          select: {
+            evidenceCollectionId: true
+          }
+        }
       }
     });
 
@@ -135,10 +279,25 @@ export async function POST(request: Request) {
       payload?.source === "MANUAL_EDIT" || payload?.source === "GENERATED"
         ? payload.source
         : "GENERATED";
-    const approvedBy = typeof payload?.approvedBy === "string" ? payload.approvedBy.trim() || "system" : "system";
-    const note = typeof payload?.note === "string" ? payload.note.trim() || null : null;
+    const note = readNote(payload);
+    const signOff = await resolveApprovalSignOff({
+      ctx,
+      request,
+      question,
+      content: {
+        answerText: normalizedApproval.answerText,
+        citationChunkIds: normalizedApproval.citationChunkIds,
+        source,
+        note
+      }
+    });
+    if (signOff.status === "PENDING") {
+      return NextResponse.json({ pendingSignOff: signOff.pendingSignOff }, { status: 202 });
+    }
+
     const questionMetadata = buildQuestionTextMetadata(question.text);
-    const questionEmbedding = await createEmbedding(question.text);
+    const aiProvider = await getAiProviderForOrganization(ctx.orgId);
+    const questionEmbedding = await createEmbedding(question.text, aiProvider);
 
     const approvedAnswer = await prisma.$transaction(async (tx) => {
       const upserted = await tx.approvedAnswer.upsert({
@@ -148,22 +307,28 @@ export async function POST(request: Request) {
         create: {
           organizationId: ctx.orgId,
           questionId: question.id,
+          questionText: question.text,
           normalizedQuestionText: questionMetadata.normalizedQuestionText,
           questionTextHash: questionMetadata.questionTextHash,
+          questionEmbeddingModel: aiProvider.embeddingModel,
           answerText: normalizedApproval.answerText,
           citationChunkIds: normalizedApproval.citationChunkIds,
           source,
-          approvedBy,
-          note
+          ...signOff.signerData,
+          note,
+          evidenceCollectionId: question.questionnaire.evidenceCollectionId
         },
         update: {
+          questionText: question.text,
           normalizedQuestionText: questionMetadata.normalizedQuestionText,
           questionTextHash: questionMetadata.questionTextHash,
+          questionEmbeddingModel: aiProvider.embeddingModel,
           answerText: normalizedApproval.answerText,
           citationChunkIds: normalizedApproval.citationChunkIds,
           source,
-          approvedBy,
-          note
+          ...signOff.signerData,
+          note,
+          evidenceCollectionId: question.questionnaire.evidenceCollectionId
         }
       });
 
@@ -171,7 +336,7 @@ export async function POST(request: Request) {
         `
           UPDATE "ApprovedAnswer"
           SET
-            "questionEmbedding" = $1::vector(1536),
+            "questionEmbedding" = $1::vector,
             "normalizedQuestionText" = $2,
             "questionTextHash" = $3
           WHERE "id" = $4
@@ -197,6 +362,9 @@ export async function POST(request: Request) {
           reviewStatus: "APPROVED"
         }
       });
+      await tx.pendingApproval.deleteMany({
+        where: { questionId: question.id }
+      });
 
       await recordQuestionHistoryEvent({
         db: tx,
@@ -204,11 +372,33 @@ export async function POST(request: Request) {
         questionnaireId: question.questionnaireId,
         questionId: question.id,
         type: "APPROVED",
-        approvedAnswerId: upserted.id
+        approvedAnswerId: upserted.id,
+        actor: signOff.actor
+      });
+
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.APPROVE_ANSWERS,
+        targetType: "APPROVED_ANSWER",
+        targetId: upserted.id,
+        targetLabel: truncateAuditText(question.text),
+        summary: upserted.secondApprovedByUserId ? "Approved answer with a second sign-off." : "Approved answer.",
+        after: {
+          questionId: question.id,
+          answerText: truncateAuditText(upserted.answerText),
+          citationChunkIds: upserted.citationChunkIds,
+          source: upserted.source,
+          approvedByUserId: upserted.approvedByUserId,
+          secondApprovedByUserId: upserted.secondApprovedByUserId,
+          evidenceCollectionId: upserted.evidenceCollectionId
+        }
       });
 
       return upserted;
     });
+    startWebhookDeliveriesInBackground(ctx.orgId);
 
     return NextResponse.json({
       approvedAnswer
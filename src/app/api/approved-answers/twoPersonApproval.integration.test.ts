@@ -0,0 +1,344 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PATCH as updateApprovedAnswerRoute } from "@/app/api/approved-answers/[id]/route";
+import { POST as createApprovedAnswerRoute } from "@/app/api/approved-answers/route";
+import { GET as approvalHistoryRoute } from "@/app/api/questionnaires/[id]/items/[itemId]/approval-history/route";
+import { GET as approvalTraceRoute } from "@/app/api/questionnaires/[id]/items/[itemId]/approval-trace/route";
+import { prisma } from "@/lib/prisma";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+vi.mock("@/lib/openai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/openai")>()),
+  createEmbedding: vi.fn(async () => new Array(1536).fill(0.01))
+}));
+
+const TEST_ORG_PREFIX = "vitest-two-person-approval-";
+const TEST_EMAIL_DOMAIN = "two-person-approval.vitest.local";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.questionHistoryEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.auditEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.approvedAnswerEvidence.deleteMany({
+    where: { approvedAnswer: { organizationId: { in: organizationIds } } }
+  });
+  await prisma.approvedAnswer.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.pendingApproval.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.pendingLibraryApproval.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.question.deleteMany({ where: { questionnaire: { organizationId: { in: organizationIds } } } });
+  await prisma.questionnaire.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.documentChunk.deleteMany({ where: { document: { organizationId: { in: organizationIds } } } });
+  await prisma.document.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.membership.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+  await prisma.user.deleteMany({ where: { email: { endsWith: `@${TEST_EMAIL_DOMAIN}` } } });
+}
+
+async function seedTwoPersonOrganization() {
+  const suffix = randomUUID();
+  const organization = await prisma.organization.create({
+    data: {
+      name: `${TEST_ORG_PREFIX}${suffix}`,
+      requireTwoPersonApproval: true
+    }
+  });
+  const [first, second] = await Promise.all(
+    ["first", "second"].map((label) =>
+      prisma.user.create({
+        data: {
+          email: `${label}-${suffix}@${TEST_EMAIL_DOMAIN}`,
+          memberships: {
+            create: {
+              organizationId: organization.id,
+              role: MembershipRole.REVIEWER
+            }
+          }
+        }
+      })
+    )
+  );
+  const chunkText = "Backups are encrypted with AES-256.";
+  const document = await prisma.document.create({
+    data: {
+      organizationId: organization.id,
+      name: `two-person-doc-${suffix}`,
+      originalName: `two-person-doc-${suffix}.txt`,
+      mimeType: "text/plain",
+      status: "CHUNKED",
+      chunks: {
+        create: {
+          chunkIndex: 0,
+          content: chunkText,
+          evidenceFingerprint: computeEvidenceFingerprint(chunkText)
+        }
+      }
+    },
+    select: {
+      chunks: { select: { id: true } }
+    }
+  });
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId: organization.id,
+      name: `two-person-q-${suffix}`,
+      questions: {
+        create: {
+          rowIndex: 0,
+          sourceRow: { Question: "Do you encrypt backups?" },
+          text: "Do you encrypt backups?",
+          citations: []
+        }
+      }
+    },
+    select: {
+      id: true,
+      questions: { select: { id: true } }
+    }
+  });
+
+  return {
+    organization,
+    first,
+    second,
+    chunkId: document.chunks[0].id,
+    chunkText,
+    params: {
+      id: questionnaire.id,
+      itemId: questionnaire.questions[0].id
+    }
+  };
+}
+
+function actAs(user: { id: string }, organizationId: string) {
+  getRequestContextMock.mockResolvedValue({
+    userId: user.id,
+    orgId: organizationId,
+    role: MembershipRole.REVIEWER
+  });
+}
+
+function approve(body: Record<string, unknown>) {
+  return createApprovedAnswerRoute(
+    new Request("http://localhost/api/approved-answers", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body)
+    })
+  );
+}
+
+describe.sequential("two-person approval", () => {
+  beforeEach(() => {
+    getRequestContextMock.mockReset();
+  });
+
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("requires a second, different reviewer and records both signers", async () => {
+    const seeded = await seedTwoPersonOrganization();
+    const approval = {
+      questionId: seeded.params.itemId,
+      answerText: seeded.chunkText,
+      citationChunkIds: [seeded.chunkId],
+      approvedBy: "someone-else@example.com"
+    };
+
+    actAs(seeded.first, seeded.organization.id);
+    const firstResponse = await approve(approval);
+    const firstPayload = (await firstResponse.json()) as { pendingSignOff?: { email?: string } };
+    expect(firstResponse.status).toBe(202);
+    expect(firstPayload.pendingSignOff?.email).toBe(seeded.first.email);
+    expect(await prisma.approvedAnswer.count({ where: { questionId: seeded.params.itemId } })).toBe(0);
+
+    const repeatResponse = await approve(approval);
+    expect(repeatResponse.status).toBe(409);
+
+    actAs(seeded.second, seeded.organization.id);
+    const secondResponse = await approve(approval);
+    expect(secondResponse.status).toBe(200);
+
+    const question = await prisma.question.findUniqueOrThrow({
+      where: { id: seeded.params.itemId },
+      select: {
+        reviewStatus: true,
+        pendingApproval: { select: { questionId: true } },
+        approvedAnswer: { select: { approvedBy: true, secondApprovedBy: true } }
+      }
+    });
+    expect(question.reviewStatus).toBe("APPROVED");
+    expect(question.pendingApproval).toBeNull();
+    expect(question.approvedAnswer).toEqual({
+      approvedBy: seeded.first.email,
+      secondApprovedBy: seeded.second.email
+    });
+
+    const traceResponse = await approvalTraceRoute(new Request("http://localhost/api/questionnaires/item/approval-trace"), {
+      params: seeded.params
+    });
+    const tracePayload = (await traceResponse.json()) as {
+      pendingSignOff?: unknown;
+      trace?: { signers?: Array<{ email?: string }> };
+    };
+    expect(tracePayload.pendingSignOff).toBeNull();
+    expect(tracePayload.trace?.signers?.map((signer) => signer.email)).toEqual([
+      seeded.first.email,
+      seeded.second.email
+    ]);
+
+    const historyResponse = await approvalHistoryRoute(
+      new Request("http://localhost/api/questionnaires/item/approval-history"),
+      { params: seeded.params }
+    );
+    const historyPayload = (await historyResponse.json()) as {
+      history?: Array<{ type?: string; actorEmail?: string }>;
+    };
+    expect(historyPayload.history).toEqual([
+      expect.objectContaining({ type: "SIGNED_OFF", actorEmail: seeded.first.email }),
+      expect.objectContaining({ type: "APPROVED", actorEmail: seeded.second.email })
+    ]);
+  }, 15000);
+
+  it("restarts the sign-off when the second reviewer approves different content", async () => {
+    const seeded = await seedTwoPersonOrganization();
+
+    actAs(seeded.first, seeded.organization.id);
+    const firstResponse = await approve({
+      questionId: seeded.params.itemId,
+      answerText: seeded.chunkText,
+      citationChunkIds: [seeded.chunkId]
+    });
+    expect(firstResponse.status).toBe(202);
+
+    actAs(seeded.second, seeded.organization.id);
+    const secondResponse = await approve({
+      questionId: seeded.params.itemId,
+      answerText: "Backups are encrypted at rest.",
+      citationChunkIds: [seeded.chunkId]
+    });
+    expect(secondResponse.status).toBe(202);
+
+    const pending = await prisma.pendingApproval.findUniqueOrThrow({
+      where: { questionId: seeded.params.itemId }
+    });
+    expect(pending.signedByUserId).toBe(seeded.second.id);
+    expect(pending.answerText).toBe("Backups are encrypted at rest.");
+    expect(await prisma.approvedAnswer.count({ where: { questionId: seeded.params.itemId } })).toBe(0);
+  });
+
+  it("holds library answers and library edits until a second reviewer approves them", async () => {
+    const seeded = await seedTwoPersonOrganization();
+    const libraryAnswer = {
+      questionText: "Are backups encrypted?",
+      aliases: ["Do you encrypt backup data?"],
+      answerText: seeded.chunkText,
+      citationChunkIds: [seeded.chunkId]
+    };
+
+    actAs(seeded.first, seeded.organization.id);
+    const firstResponse = await approve(libraryAnswer);
+    expect(firstResponse.status).toBe(202);
+    expect(await prisma.approvedAnswer.count({ where: { organizationId: seeded.organization.id } })).toBe(0);
+    expect((await approve(libraryAnswer)).status).toBe(409);
+
+    actAs(seeded.second, seeded.organization.id);
+    const secondResponse = await approve(libraryAnswer);
+    const secondPayload = (await secondResponse.json()) as { approvedAnswer?: { id: string } };
+    expect(secondResponse.status).toBe(201);
+
+    const approvedAnswerId = secondPayload.approvedAnswer?.id as string;
+    const created = await prisma.approvedAnswer.findUniqueOrThrow({
+      where: { id: approvedAnswerId },
+      select: { approvedBy: true, secondApprovedBy: true }
+    });
+    expect(created).toEqual({ approvedBy: seeded.first.email, secondApprovedBy: seeded.second.email });
+    expect(await prisma.pendingLibraryApproval.count({ where: { organizationId: seeded.organization.id } })).toBe(0);
+
+    const edit = (answerText: string) =>
+      updateApprovedAnswerRoute(
+        new Request(`http://localhost/api/approved-answers/${approvedAnswerId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ answerText })
+        }),
+        { params: { id: approvedAnswerId } }
+      );
+
+    const firstEdit = await edit("Backups are encrypted at rest.");
+    expect(firstEdit.status).toBe(202);
+    expect(
+      await prisma.approvedAnswer.findUniqueOrThrow({ where: { id: approvedAnswerId }, select: { answerText: true } })
+    ).toEqual({ answerText: seeded.chunkText });
+
+    actAs(seeded.first, seeded.organization.id);
+    const secondEdit = await edit("Backups are encrypted at rest.");
+    expect(secondEdit.status).toBe(200);
+    expect(
+      await prisma.approvedAnswer.findUniqueOrThrow({
+        where: { id: approvedAnswerId },
+        select: { answerText: true, approvedBy: true, secondApprovedBy: true }
+      })
+    ).toEqual({
+      answerText: "Backups are encrypted at rest.",
+      approvedBy: seeded.second.email,
+      secondApprovedBy: seeded.first.email
+    });
+    expect(await prisma.pendingLibraryApproval.count({ where: { organizationId: seeded.organization.id } })).toBe(0);
+  }, 15000);
+
+  it("restarts a library sign-off when the second reviewer changes the aliases or note", async () => {
+    const seeded = await seedTwoPersonOrganization();
+    const libraryAnswer = {
+      questionText: "Are backups encrypted?",
+      aliases: ["Do you encrypt backup data?"],
+      answerText: seeded.chunkText,
+      citationChunkIds: [seeded.chunkId]
+    };
+
+    actAs(seeded.first, seeded.organization.id);
+    expect((await approve(libraryAnswer)).status).toBe(202);
+
+    actAs(seeded.second, seeded.organization.id);
+    expect((await approve({ ...libraryAnswer, aliases: ["Is backup data encrypted?"] })).status).toBe(202);
+    expect((await approve({ ...libraryAnswer, aliases: ["Is backup data encrypted?"], note: "Per policy." })).status).toBe(
+      202
+    );
+
+    expect(await prisma.approvedAnswer.count({ where: { organizationId: seeded.organization.id } })).toBe(0);
+    const pending = await prisma.pendingLibraryApproval.findFirstOrThrow({
+      where: { organizationId: seeded.organization.id }
+    });
+    expect(pending).toMatchObject({
+      signedByUserId: seeded.second.id,
+      aliases: ["Is backup data encrypted?"],
+      note: "Per policy."
+    });
+  });
+});
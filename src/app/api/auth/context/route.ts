@@ -5,9 +5,9 @@ import { getRequestContext, RequestContextError } from "@/lib/requestContext";
 
 export const runtime = "nodejs";
 
-export async function GET() {
+export async function GET(request?: Request) {
   try {
-    const requestContext = await getRequestContext();
+    const requestContext = await getRequestContext(request);
     const [organization, memberships] = await Promise.all([
       prisma.organization.findUnique({
         where: {
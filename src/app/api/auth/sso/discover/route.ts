@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { findSsoLoginRoute } from "@/server/sso/ssoConnections";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as { email?: unknown } | null;
+    const email = typeof payload?.email === "string" ? payload.email : null;
+    const route = await findSsoLoginRoute(email);
+
+    return NextResponse.json({
+      providerId: route?.providerId ?? null,
+      magicLinkAllowed: !route?.disableMagicLink
+    });
+  } catch (error) {
+    console.error("Failed to look up SSO for email", error);
+    return toApiErrorResponse(error, "Failed to look up SSO for email.");
+  }
+}
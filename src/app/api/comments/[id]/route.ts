@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { setCommentThreadResolved } from "@/server/comments/comments";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+type UpdateCommentBody = {
+  resolved?: unknown;
+};
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.COMMENT);
+    const payload = (await request.json().catch(() => null)) as UpdateCommentBody | null;
+    if (typeof payload?.resolved !== "boolean") {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "resolved must be a boolean."
+      });
+    }
+
+    const result = await setCommentThreadResolved({
+      ctx,
+      commentId: context.params.id.trim(),
+      resolved: payload.resolved
+    });
+
+    if (result.changed) {
+      await recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.COMMENT,
+        targetType: result.target.auditTargetType,
+        targetId: result.target.auditTargetId,
+        targetLabel: truncateAuditText(result.target.label),
+        summary: payload.resolved ? "Resolved a comment thread." : "Reopened a comment thread.",
+        before: { commentId: result.thread.id, resolved: !payload.resolved },
+        after: { commentId: result.thread.id, resolved: payload.resolved }
+      });
+    }
+
+    return NextResponse.json({ thread: result.thread });
+  } catch (error) {
+    console.error("Failed to update comment", error);
+    return toApiErrorResponse(error, "Failed to update comment.");
+  }
+}
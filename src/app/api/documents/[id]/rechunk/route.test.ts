@@ -0,0 +1,280 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { POST as rechunkRoute } from "@/app/api/documents/[id]/rechunk/route";
+import { chunkSegments } from "@/lib/chunker";
+import type { ExtractedSegment } from "@/lib/extractText";
+import { buildQuestionTextMetadata } from "@/lib/questionText";
+import { syncApprovedAnswerEvidenceSnapshots } from "@/server/approvedAnswers/evidenceSnapshots";
+import { getApprovedAnswerStalenessDetails } from "@/server/approvedAnswers/staleness";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
+const TEST_ORG_PREFIX = "vitest-document-rechunk-route-";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+
+  if (organizations.length === 0) {
+    return;
+  }
+
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.approvedAnswer.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.questionnaire.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.documentChunk.deleteMany({
+    where: {
+      document: {
+        organizationId: {
+          in: organizationIds
+        }
+      }
+    }
+  });
+
+  await prisma.document.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.organization.deleteMany({
+    where: {
+      id: {
+        in: organizationIds
+      }
+    }
+  });
+}
+
+async function seedDocument(params: { organizationId: string; sourceSegments: ExtractedSegment[] | null }) {
+  const segments = params.sourceSegments ?? [{ text: "Legacy evidence text.", pageNumber: null, sectionNumber: null }];
+  const document = await prisma.document.create({
+    data: {
+      organizationId: params.organizationId,
+      name: `rechunk-${randomUUID()}`,
+      originalName: `rechunk-${randomUUID()}.md`,
+      mimeType: "text/markdown",
+      status: "CHUNKED",
+      ...(params.sourceSegments ? { sourceSegments: params.sourceSegments } : {})
+    }
+  });
+
+  await prisma.documentChunk.createMany({
+    data: chunkSegments(segments).map((chunk) => ({
+      documentId: document.id,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      evidenceFingerprint: computeEvidenceFingerprint(chunk.content)
+    }))
+  });
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { documentId: document.id },
+    orderBy: { chunkIndex: "asc" }
+  });
+
+  return { documentId: document.id, chunkIds: chunks.map((chunk) => chunk.id) };
+}
+
+async function seedApprovalCitingChunk(params: { organizationId: string; chunkId: string }) {
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId: params.organizationId,
+      name: `rechunk-q-${randomUUID()}`
+    }
+  });
+  const questionText = "How is data encrypted at rest?";
+  const question = await prisma.question.create({
+    data: {
+      questionnaireId: questionnaire.id,
+      rowIndex: 0,
+      sourceRow: { Question: questionText },
+      text: questionText,
+      citations: []
+    }
+  });
+  const metadata = buildQuestionTextMetadata(questionText);
+  const approvedAnswer = await prisma.approvedAnswer.create({
+    data: {
+      organizationId: params.organizationId,
+      questionId: question.id,
+      normalizedQuestionText: metadata.normalizedQuestionText,
+      questionTextHash: metadata.questionTextHash,
+      answerText: "Data at rest uses AES-256.",
+      citationChunkIds: [params.chunkId],
+      source: "GENERATED"
+    }
+  });
+
+  await syncApprovedAnswerEvidenceSnapshots({
+    db: prisma,
+    organizationId: params.organizationId,
+    approvedAnswerId: approvedAnswer.id,
+    citationChunkIds: [params.chunkId]
+  });
+
+  return approvedAnswer.id;
+}
+
+function postRechunk(documentId: string, body: unknown) {
+  return rechunkRoute(
+    new Request(`http://localhost/api/documents/${documentId}/rechunk`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    }),
+    { params: { id: documentId } }
+  );
+}
+
+describe.sequential("POST /api/documents/[id]/rechunk", () => {
+  let organizationId = "";
+
+  beforeEach(async () => {
+    getRequestContextMock.mockReset();
+    const organization = await prisma.organization.create({
+      data: {
+        name: `${TEST_ORG_PREFIX}${randomUUID()}`
+      }
+    });
+    organizationId = organization.id;
+    getRequestContextMock.mockResolvedValue({
+      userId: `rechunk-user-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.ADMIN
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("rebuilds chunks with heading paths and marks approvals citing changed chunks stale", async () => {
+    const seeded = await seedDocument({
+      organizationId,
+      sourceSegments: [
+        {
+          text: "# Security\n## Encryption\nData at rest uses AES-256.\n\n## Access\nMFA is required for admins.",
+          pageNumber: null,
+          sectionNumber: 1
+        }
+      ]
+    });
+    const approvedAnswerId = await seedApprovalCitingChunk({ organizationId, chunkId: seeded.chunkIds[0] });
+
+    const response = await postRechunk(seeded.documentId, { chunkingStrategy: "SEMANTIC" });
+    const payload = (await response.json()) as {
+      document?: { chunkingStrategy: string; chunkCount: number; reusedChunkCount: number };
+    };
+
+    expect(response.status).toBe(200);
+    expect(payload.document).toMatchObject({ chunkingStrategy: "SEMANTIC", chunkCount: 2, reusedChunkCount: 0 });
+
+    const chunks = await prisma.documentChunk.findMany({
+      where: { documentId: seeded.documentId },
+      orderBy: { chunkIndex: "asc" }
+    });
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      ["Security", "Encryption"],
+      ["Security", "Access"]
+    ]);
+    expect(chunks.map((chunk) => chunk.sectionNumber)).toEqual([1, 1]);
+    expect(chunks.every((chunk) => chunk.evidenceFingerprint === computeEvidenceFingerprint(chunk.content))).toBe(true);
+
+    const staleness = await getApprovedAnswerStalenessDetails(approvedAnswerId, { orgId: organizationId });
+    expect(staleness.isStale).toBe(true);
+  });
+
+  it("keeps unchanged chunks so their approvals stay fresh", async () => {
+    const seeded = await seedDocument({
+      organizationId,
+      sourceSegments: [{ text: "Data at rest uses AES-256.", pageNumber: 1, sectionNumber: null }]
+    });
+    const approvedAnswerId = await seedApprovalCitingChunk({ organizationId, chunkId: seeded.chunkIds[0] });
+
+    const response = await postRechunk(seeded.documentId, { chunkingStrategy: "SEMANTIC" });
+    const payload = (await response.json()) as { document?: { reusedChunkCount: number } };
+
+    expect(response.status).toBe(200);
+    expect(payload.document?.reusedChunkCount).toBe(1);
+
+    const chunks = await prisma.documentChunk.findMany({ where: { documentId: seeded.documentId } });
+    expect(chunks.map((chunk) => chunk.id)).toEqual(seeded.chunkIds);
+
+    const staleness = await getApprovedAnswerStalenessDetails(approvedAnswerId, { orgId: organizationId });
+    expect(staleness.isStale).toBe(false);
+  });
+
+  it("rejects documents uploaded before source text was retained", async () => {
+    const seeded = await seedDocument({ organizationId, sourceSegments: null });
+
+    const response = await postRechunk(seeded.documentId, { chunkingStrategy: "SEMANTIC" });
+    const payload = (await response.json()) as { error?: { code?: string } };
+
+    expect(response.status).toBe(409);
+    expect(payload.error?.code).toBe("CONFLICT");
+  });
+
+  it("validates the chunking strategy and requires upload permission", async () => {
+    const seeded = await seedDocument({ organizationId, sourceSegments: null });
+
+    const invalid = await postRechunk(seeded.documentId, { chunkingStrategy: "PARAGRAPHS" });
+    expect(invalid.status).toBe(400);
+
+    getRequestContextMock.mockResolvedValue({
+      userId: `rechunk-viewer-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.VIEWER
+    });
+
+    const forbidden = await postRechunk(seeded.documentId, { chunkingStrategy: "SEMANTIC" });
+    expect(forbidden.status).toBe(403);
+  });
+});
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { isChunkingStrategy } from "@/lib/chunker";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { startDocumentEmbeddingInBackground } from "@/server/documents/documentEmbedding";
+import { rechunkDocument } from "@/server/documents/rechunkDocument";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+type RechunkBody = {
+  chunkingStrategy?: unknown;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.UPLOAD_DOCUMENTS);
+    const documentId = context.params.id.trim();
+    if (!documentId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Document ID is required."
+      });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as RechunkBody;
+    if (!isChunkingStrategy(body.chunkingStrategy)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "chunkingStrategy must be FIXED_WINDOW or SEMANTIC."
+      });
+    }
+
+    const result = await rechunkDocument({
+      orgId: ctx.orgId,
+      documentId,
+      chunkingStrategy: body.chunkingStrategy
+    });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.UPLOAD_DOCUMENTS,
+      targetType: "DOCUMENT",
+      targetId: result.documentId,
+      summary: `Rechunked document with the ${result.chunkingStrategy} strategy.`,
+      after: {
+        chunkingStrategy: result.chunkingStrategy,
+        chunkCount: result.chunkCount,
+        removedChunkCount: result.removedChunkCount
+      }
+    });
+
+    startWebhookDeliveriesInBackground(ctx.orgId);
+    startDocumentEmbeddingInBackground(ctx.orgId);
+
+    return NextResponse.json({
+      document: {
+        id: result.documentId,
+        chunkingStrategy: result.chunkingStrategy,
+        status: "CHUNKED",
+        chunkCount: result.chunkCount,
+        reusedChunkCount: result.reusedChunkCount,
+        removedChunkCount: result.removedChunkCount
+      }
+    });
+  } catch (error) {
+    console.error("Failed to rechunk document", error);
+    return toApiErrorResponse(error, "Failed to rechunk document.");
+  }
+}
@@ -2,7 +2,15 @@ import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import {
+  documentMetadataSelect,
+  toDocumentMetadataRow,
+  updateDocumentMetadata
+} from "@/server/documents/documentMetadata";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+import { enqueueApprovedAnswerStaleEvents } from "@/server/webhooks/webhookEvents";
 
 type RouteContext = {
   params: {
@@ -10,9 +18,9 @@ type RouteContext = {
   };
 };
 
-export async function GET(_request: Request, context: RouteContext) {
+export async function GET(request: Request, context: RouteContext) {
   try {
-    const ctx = await getRequestContext();
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.VIEW_DOCUMENTS);
     const documentId = context.params.id.trim();
     if (!documentId) {
@@ -34,7 +42,9 @@ export async function GET(_request: Request, context: RouteContext) {
         originalName: true,
         mimeType: true,
         status: true,
+        chunkingStrategy: true,
         updatedAt: true,
+        ...documentMetadataSelect,
         chunks: {
           orderBy: { chunkIndex: "asc" },
           select: {
@@ -62,7 +72,9 @@ export async function GET(_request: Request, context: RouteContext) {
         originalName: document.originalName,
         mimeType: document.mimeType,
         status: document.status,
+        chunkingStrategy: document.chunkingStrategy,
         updatedAt: document.updatedAt,
+        ...toDocumentMetadataRow(document),
         chunkCount: document.chunks.length,
         fullText
       }
@@ -73,9 +85,44 @@ export async function GET(_request: Request, context: RouteContext) {
   }
 }
 
-export async function DELETE(_request: Request, context: RouteContext) {
+export async function PATCH(request: Request, context: RouteContext) {
   try {
-    const ctx = await getRequestContext();
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.UPLOAD_DOCUMENTS);
+    const documentId = context.params.id.trim();
+    if (!documentId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Document ID is required."
+      });
+    }
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const updated = await updateDocumentMetadata({ orgId: ctx.orgId, documentId, body });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.UPLOAD_DOCUMENTS,
+      targetType: "DOCUMENT",
+      targetId: documentId,
+      targetLabel: updated.name,
+      summary: `Updated metadata for document "${updated.name}".`,
+      before: updated.before,
+      after: updated.after
+    });
+
+    return NextResponse.json({ document: { id: documentId, ...updated.after } });
+  } catch (error) {
+    console.error("Failed to update document metadata", error);
+    return toApiErrorResponse(error, "Failed to update document metadata.");
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.DELETE_DOCUMENTS);
     const documentId = context.params.id.trim();
     if (!documentId) {
@@ -92,7 +139,10 @@ export async function DELETE(_request: Request, context: RouteContext) {
         organizationId: ctx.orgId
       },
       select: {
-        id: true
+        id: true,
+        name: true,
+        originalName: true,
+        status: true
       }
     });
 
@@ -104,14 +154,40 @@ export async function DELETE(_request: Request, context: RouteContext) {
       });
     }
 
-    await prisma.$transaction([
-      prisma.documentChunk.deleteMany({
+    await prisma.$transaction(async (tx) => {
+      const chunks = await tx.documentChunk.findMany({
+        where: { documentId: document.id },
+        select: { id: true }
+      });
+      await enqueueApprovedAnswerStaleEvents({
+        db: tx,
+        organizationId: ctx.orgId,
+        document: { id: document.id, name: document.name },
+        chunkIds: chunks.map((chunk) => chunk.id),
+        cause: "DOCUMENT_DELETED"
+      });
+      await tx.documentChunk.deleteMany({
         where: { documentId: document.id }
-      }),
-      prisma.document.delete({
+      });
+      await tx.document.delete({
         where: { id: document.id }
-      })
-    ]);
+      });
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.DELETE_DOCUMENTS,
+        targetType: "DOCUMENT",
+        targetId: document.id,
+        targetLabel: document.name,
+        summary: `Deleted document "${document.name}".`,
+        before: {
+          originalName: document.originalName,
+          status: document.status
+        }
+      });
+    });
+    startWebhookDeliveriesInBackground(ctx.orgId);
 
     return NextResponse.json({ ok: true });
   } catch (error) {
@@ -0,0 +1,277 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { GET as listVersionsRoute, POST as uploadVersionRoute } from "@/app/api/documents/[id]/versions/route";
+import { chunkSegments } from "@/lib/chunker";
+import type { ExtractedSegment } from "@/lib/extractText";
+import { buildQuestionTextMetadata } from "@/lib/questionText";
+import { syncApprovedAnswerEvidenceSnapshots } from "@/server/approvedAnswers/evidenceSnapshots";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
+const TEST_ORG_PREFIX = "vitest-document-versions-route-";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+
+  if (organizations.length === 0) {
+    return;
+  }
+
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.approvedAnswer.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.questionnaire.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.documentChunk.deleteMany({
+    where: {
+      document: {
+        organizationId: {
+          in: organizationIds
+        }
+      }
+    }
+  });
+
+  await prisma.document.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.organization.deleteMany({
+    where: {
+      id: {
+        in: organizationIds
+      }
+    }
+  });
+}
+
+async function seedDocument(params: { organizationId: string; sourceSegments: ExtractedSegment[] | null }) {
+  const segments = params.sourceSegments ?? [{ text: "Legacy evidence text.", pageNumber: null, sectionNumber: null }];
+  const document = await prisma.document.create({
+    data: {
+      organizationId: params.organizationId,
+      name: `version-${randomUUID()}`,
+      originalName: `version-${randomUUID()}.md`,
+      mimeType: "text/markdown",
+      status: "CHUNKED",
+      chunkingStrategy: "SEMANTIC",
+      ...(params.sourceSegments ? { sourceSegments: params.sourceSegments } : {})
+    }
+  });
+
+  await prisma.documentChunk.createMany({
+    data: chunkSegments(segments, { strategy: "SEMANTIC" }).map((chunk) => ({
+      documentId: document.id,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      evidenceFingerprint: computeEvidenceFingerprint(chunk.content)
+    }))
+  });
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { documentId: document.id },
+    orderBy: { chunkIndex: "asc" }
+  });
+
+  return { documentId: document.id, chunkIds: chunks.map((chunk) => chunk.id) };
+}
+
+async function seedApprovalCitingChunk(params: { organizationId: string; chunkId: string }) {
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId: params.organizationId,
+      name: `version-q-${randomUUID()}`
+    }
+  });
+  const questionText = "How is data encrypted at rest?";
+  const question = await prisma.question.create({
+    data: {
+      questionnaireId: questionnaire.id,
+      rowIndex: 0,
+      sourceRow: { Question: questionText },
+      text: questionText,
+      citations: []
+    }
+  });
+  const metadata = buildQuestionTextMetadata(questionText);
+  const approvedAnswer = await prisma.approvedAnswer.create({
+    data: {
+      organizationId: params.organizationId,
+      questionId: question.id,
+      normalizedQuestionText: metadata.normalizedQuestionText,
+      questionTextHash: metadata.questionTextHash,
+      answerText: "Data at rest uses AES-256.",
+      citationChunkIds: [params.chunkId],
+      source: "GENERATED"
+    }
+  });
+
+  await syncApprovedAnswerEvidenceSnapshots({
+    db: prisma,
+    organizationId: params.organizationId,
+    approvedAnswerId: approvedAnswer.id,
+    citationChunkIds: [params.chunkId]
+  });
+
+  return approvedAnswer.id;
+}
+
+function postVersion(documentId: string, file: File) {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  return uploadVersionRoute(
+    new Request(`http://localhost/api/documents/${documentId}/versions`, {
+      method: "POST",
+      body: formData
+    }),
+    { params: { id: documentId } }
+  );
+}
+
+describe.sequential("/api/documents/[id]/versions", () => {
+  let organizationId = "";
+
+  beforeEach(async () => {
+    getRequestContextMock.mockReset();
+    const organization = await prisma.organization.create({
+      data: {
+        name: `${TEST_ORG_PREFIX}${randomUUID()}`
+      }
+    });
+    organizationId = organization.id;
+    getRequestContextMock.mockResolvedValue({
+      userId: `version-user-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.ADMIN
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("keeps unchanged chunks and reports which approvals cite changed passages", async () => {
+    const seeded = await seedDocument({
+      organizationId,
+      sourceSegments: [
+        {
+          text: "# Security\n## Encryption\nData at rest uses AES-256.\n\n## Access\nMFA is required for admins.",
+          pageNumber: null,
+          sectionNumber: null
+        }
+      ]
+    });
+    expect(seeded.chunkIds).toHaveLength(2);
+    const untouchedApprovalId = await seedApprovalCitingChunk({ organizationId, chunkId: seeded.chunkIds[0] });
+    const affectedApprovalId = await seedApprovalCitingChunk({ organizationId, chunkId: seeded.chunkIds[1] });
+
+    const response = await postVersion(
+      seeded.documentId,
+      new File(
+        ["# Security\n## Encryption\nData at rest uses AES-256.\n\n## Access\nMFA is required for all employees."],
+        "policy-v2.md",
+        { type: "text/markdown" }
+      )
+    );
+    const payload = (await response.json()) as {
+      version?: {
+        versionNumber: number;
+        reusedChunkCount: number;
+        removedChunkCount: number;
+        affectedApprovedAnswers: Array<{ approvedAnswerId: string; changedChunkIds: string[] }>;
+        unaffectedApprovedAnswers: Array<{ approvedAnswerId: string }>;
+      };
+    };
+
+    expect(response.status).toBe(201);
+    expect(payload.version).toMatchObject({ versionNumber: 2, reusedChunkCount: 1, removedChunkCount: 1 });
+    expect(payload.version?.affectedApprovedAnswers).toEqual([
+      expect.objectContaining({ approvedAnswerId: affectedApprovalId, changedChunkIds: [seeded.chunkIds[1]] })
+    ]);
+    expect(payload.version?.unaffectedApprovedAnswers.map((impact) => impact.approvedAnswerId)).toEqual([
+      untouchedApprovalId
+    ]);
+
+    const chunks = await prisma.documentChunk.findMany({ where: { documentId: seeded.documentId } });
+    expect(chunks.map((chunk) => chunk.id)).toContain(seeded.chunkIds[0]);
+    expect(chunks.map((chunk) => chunk.id)).not.toContain(seeded.chunkIds[1]);
+
+    const document = await prisma.document.findUniqueOrThrow({ where: { id: seeded.documentId } });
+    expect(document).toMatchObject({ originalName: "policy-v2.md", currentVersion: 2 });
+
+    const listResponse = await listVersionsRoute(
+      new Request(`http://localhost/api/documents/${seeded.documentId}/versions`),
+      { params: { id: seeded.documentId } }
+    );
+    const listPayload = (await listResponse.json()) as {
+      versions?: Array<{ versionNumber: number; affectedApprovedAnswerIds: string[] }>;
+    };
+    expect(listResponse.status).toBe(200);
+    expect(listPayload.versions).toEqual([
+      expect.objectContaining({ versionNumber: 2, affectedApprovedAnswerIds: [affectedApprovalId] })
+    ]);
+  });
+
+  it("requires upload permission and an existing document in the caller's organization", async () => {
+    const missing = await postVersion("missing-document", new File(["text"], "policy.txt", { type: "text/plain" }));
+    expect(missing.status).toBe(404);
+
+    const seeded = await seedDocument({ organizationId, sourceSegments: null });
+    getRequestContextMock.mockResolvedValue({
+      userId: `version-viewer-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.VIEWER
+    });
+
+    const forbidden = await postVersion(seeded.documentId, new File(["text"], "policy.txt", { type: "text/plain" }));
+    expect(forbidden.status).toBe(403);
+  });
+});
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { isChunkingStrategy } from "@/lib/chunker";
+import { extractSegments, inferMimeType, isSupportedEvidenceFile } from "@/lib/extractText";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { startDocumentEmbeddingInBackground } from "@/server/documents/documentEmbedding";
+import { listDocumentVersions, uploadDocumentVersion } from "@/server/documents/uploadDocumentVersion";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_DOCUMENTS);
+    const documentId = context.params.id.trim();
+    if (!documentId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Document ID is required."
+      });
+    }
+
+    const versions = await listDocumentVersions({ orgId: ctx.orgId, documentId });
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error("Failed to load document versions", error);
+    return toApiErrorResponse(error, "Failed to load document versions.");
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.UPLOAD_DOCUMENTS);
+    const documentId = context.params.id.trim();
+    if (!documentId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Document ID is required."
+      });
+    }
+
+    const formData = await request.formData();
+    const fileEntry = formData.get("file");
+    if (!(fileEntry instanceof File)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "file is required."
+      });
+    }
+
+    if (!isSupportedEvidenceFile(fileEntry)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Only .txt, .md, .pdf, and .docx files are supported."
+      });
+    }
+
+    const chunkingStrategyEntry = formData.get("chunkingStrategy");
+    if (chunkingStrategyEntry !== null && !isChunkingStrategy(chunkingStrategyEntry)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "chunkingStrategy must be FIXED_WINDOW or SEMANTIC."
+      });
+    }
+
+    const segments = await extractSegments(fileEntry);
+    if (segments.length === 0) {
+      return jsonError({
+        status: 422,
+        code: "VALIDATION_ERROR",
+        message: "Uploaded file is empty after text extraction."
+      });
+    }
+
+    const result = await uploadDocumentVersion({
+      orgId: ctx.orgId,
+      userId: ctx.userId,
+      documentId,
+      originalName: fileEntry.name,
+      mimeType: inferMimeType(fileEntry),
+      segments,
+      chunkingStrategy: chunkingStrategyEntry ?? undefined
+    });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.UPLOAD_DOCUMENTS,
+      targetType: "DOCUMENT",
+      targetId: result.documentId,
+      targetLabel: fileEntry.name,
+      summary: `Uploaded version ${result.versionNumber} of document "${fileEntry.name}".`,
+      after: {
+        versionNumber: result.versionNumber,
+        chunkCount: result.chunkCount,
+        reusedChunkCount: result.reusedChunkCount,
+        removedChunkCount: result.removedChunkCount,
+        affectedApprovedAnswerIds: result.affectedApprovedAnswers.map((impact) => impact.approvedAnswerId)
+      }
+    });
+
+    startWebhookDeliveriesInBackground(ctx.orgId);
+    startDocumentEmbeddingInBackground(ctx.orgId);
+
+    return NextResponse.json({ version: result }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to upload document version", error);
+    return toApiErrorResponse(error, "Failed to upload document version.");
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import {
+  deleteEvidenceCollection,
+  getEvidenceCollectionOrThrow,
+  parseEvidenceCollectionInput,
+  saveEvidenceCollection
+} from "@/server/evidenceCollections/evidenceCollections";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_EVIDENCE_COLLECTIONS);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const existing = await getEvidenceCollectionOrThrow({ orgId: ctx.orgId, collectionId: context.params.id });
+    const previousDocuments = await prisma.evidenceCollectionDocument.findMany({
+      where: { collectionId: existing.id },
+      select: { documentId: true }
+    });
+    const input = parseEvidenceCollectionInput(body, existing);
+    const collection = await saveEvidenceCollection({ orgId: ctx.orgId, collectionId: existing.id, input });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_EVIDENCE_COLLECTIONS,
+      targetType: "EVIDENCE_COLLECTION",
+      targetId: collection.id,
+      targetLabel: collection.name,
+      summary: `Updated evidence collection "${collection.name}".`,
+      before: {
+        name: existing.name,
+        documentIds: previousDocuments.map((entry) => entry.documentId)
+      },
+      after: {
+        name: collection.name,
+        documentIds: collection.documentIds
+      }
+    });
+
+    return NextResponse.json({ collection });
+  } catch (error) {
+    console.error("Failed to update evidence collection", error);
+    return toApiErrorResponse(error, "Failed to update evidence collection.");
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_EVIDENCE_COLLECTIONS);
+
+    const collection = await deleteEvidenceCollection({ orgId: ctx.orgId, collectionId: context.params.id });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_EVIDENCE_COLLECTIONS,
+      targetType: "EVIDENCE_COLLECTION",
+      targetId: collection.id,
+      targetLabel: collection.name,
+      summary: `Deleted evidence collection "${collection.name}".`,
+      before: {
+        name: collection.name
+      }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete evidence collection", error);
+    return toApiErrorResponse(error, "Failed to delete evidence collection.");
+  }
+}
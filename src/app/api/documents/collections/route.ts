@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import {
+  listEvidenceCollections,
+  parseEvidenceCollectionInput,
+  saveEvidenceCollection
+} from "@/server/evidenceCollections/evidenceCollections";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_DOCUMENTS);
+
+    return NextResponse.json({ collections: await listEvidenceCollections(ctx.orgId) });
+  } catch (error) {
+    console.error("Failed to list evidence collections", error);
+    return toApiErrorResponse(error, "Failed to list evidence collections.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_EVIDENCE_COLLECTIONS);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const input = parseEvidenceCollectionInput(body, null);
+    const collection = await saveEvidenceCollection({ orgId: ctx.orgId, input });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_EVIDENCE_COLLECTIONS,
+      targetType: "EVIDENCE_COLLECTION",
+      targetId: collection.id,
+      targetLabel: collection.name,
+      summary: `Created evidence collection "${collection.name}".`,
+      after: {
+        name: collection.name,
+        documentIds: collection.documentIds
+      }
+    });
+
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create evidence collection", error);
+    return toApiErrorResponse(error, "Failed to create evidence collection.");
+  }
+}
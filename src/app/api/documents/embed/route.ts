@@ -1,52 +1,43 @@
 import { NextResponse } from "next/server";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
 import { toApiErrorResponse } from "@/lib/apiResponse";
-import { createEmbedding } from "@/lib/openai";
-import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
-import { embeddingToVectorLiteral } from "@/lib/retrieval";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { embedPendingChunks, markEmbeddedDocumentsReady } from "@/server/documents/documentEmbedding";
+import { embeddingCacheHitRate } from "@/server/embeddingCache";
 import { assertCan, RbacAction } from "@/server/rbac";
 
-type ChunkRow = {
-  id: string;
-  content: string;
-};
-
-export async function POST() {
+export async function POST(request: Request) {
   try {
-    const ctx = await getRequestContext();
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.EMBED_DOCUMENTS);
+    const aiProvider = await getAiProviderForOrganization(ctx.orgId);
 
-    const chunks = await prisma.$queryRawUnsafe<ChunkRow[]>(
-      `
-        SELECT dc."id", dc."content"
-        FROM "DocumentChunk" dc
-        JOIN "Document" d ON d."id" = dc."documentId"
-        WHERE d."organizationId" = $1
-          AND dc."embedding" IS NULL
-        ORDER BY dc."createdAt" ASC, dc."id" ASC
-      `,
-      ctx.orgId
-    );
+    // Chunks embedded by a previously selected provider are re-embedded with the current one.
+    const { embeddedCount, cacheHitCount } = await embedPendingChunks({ organizationId: ctx.orgId, aiProvider });
+    await markEmbeddedDocumentsReady({ organizationId: ctx.orgId, embeddingModel: aiProvider.embeddingModel });
 
-    if (chunks.length === 0) {
+    if (embeddedCount === 0) {
       return NextResponse.json({ embeddedCount: 0, message: "No chunks pending embedding" });
     }
 
-    let embeddedCount = 0;
-
-    for (const chunk of chunks) {
-      const embedding = await createEmbedding(chunk.content);
-
-      await prisma.$executeRawUnsafe(
-        `UPDATE "DocumentChunk" SET "embedding" = $1::vector(1536) WHERE "id" = $2`,
-        embeddingToVectorLiteral(embedding),
-        chunk.id
-      );
-
-      embeddedCount += 1;
-    }
-
-    return NextResponse.json({ embeddedCount });
+    const cacheHitRate = embeddingCacheHitRate(cacheHitCount, embeddedCount);
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.EMBED_DOCUMENTS,
+      targetType: "ORGANIZATION",
+      targetId: ctx.orgId,
+      summary: `Embedded ${embeddedCount} document chunk${embeddedCount === 1 ? "" : "s"} (${cacheHitCount} from cache).`,
+      after: {
+        embeddedCount,
+        cacheHitCount,
+        cacheHitRate,
+        embeddingModel: aiProvider.embeddingModel
+      }
+    });
+
+    return NextResponse.json({ embeddedCount, cacheHitCount, cacheHitRate });
   } catch (error) {
     console.error("Failed to embed document chunks", error);
     return toApiErrorResponse(error, "Failed to embed document chunks.");
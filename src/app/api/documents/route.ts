@@ -1,23 +1,50 @@
 import { NextResponse } from "next/server";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
 import { toApiErrorResponse } from "@/lib/apiResponse";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { documentMetadataSelect, toDocumentMetadataRow } from "@/server/documents/documentMetadata";
 import { assertCan, RbacAction } from "@/server/rbac";
 
-export async function GET() {
+export async function GET(request?: Request) {
   try {
-    const ctx = await getRequestContext();
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.VIEW_DOCUMENTS);
 
     const documents = await prisma.document.findMany({
       where: { organizationId: ctx.orgId },
       orderBy: [{ updatedAt: "desc" }, { createdAt: "desc" }],
-      include: {
+      select: {
+        id: true,
+        name: true,
+        originalName: true,
+        mimeType: true,
+        status: true,
+        errorMessage: true,
+        chunkingStrategy: true,
+        currentVersion: true,
+        embeddingError: true,
+        embeddingNextAttemptAt: true,
+        createdAt: true,
+        updatedAt: true,
+        ...documentMetadataSelect,
         _count: {
           select: { chunks: true }
         }
       }
     });
+    const aiProvider = await getAiProviderForOrganization(ctx.orgId);
+    const embeddedChunkCounts = await prisma.documentChunk.groupBy({
+      by: ["documentId"],
+      where: {
+        document: { organizationId: ctx.orgId },
+        embeddingModel: aiProvider.embeddingModel
+      },
+      _count: { _all: true }
+    });
+    const embeddedChunkCountByDocumentId = new Map(
+      embeddedChunkCounts.map((row) => [row.documentId, row._count._all])
+    );
 
     return NextResponse.json({
       documents: documents.map((document) => ({
@@ -28,9 +55,15 @@ export async function GET() {
         mimeType: document.mimeType,
         status: document.status,
         errorMessage: document.errorMessage,
+        chunkingStrategy: document.chunkingStrategy,
+        currentVersion: document.currentVersion,
         createdAt: document.createdAt,
         updatedAt: document.updatedAt,
-        chunkCount: document._count.chunks
+        ...toDocumentMetadataRow(document),
+        chunkCount: document._count.chunks,
+        embeddedChunkCount: embeddedChunkCountByDocumentId.get(document.id) ?? 0,
+        embeddingError: document.embeddingError,
+        embeddingNextAttemptAt: document.embeddingNextAttemptAt
       }))
     });
   } catch (error) {
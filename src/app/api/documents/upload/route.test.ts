@@ -24,7 +24,8 @@ const { createEmbeddingMock, getRequestContextMock, MockRequestContextError } =
 });
 
 vi.mock("@/lib/openai", () => ({
-  createEmbedding: createEmbeddingMock
+  createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input)))
 }));
 
 vi.mock("@/lib/requestContext", () => ({
@@ -32,6 +33,15 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    // Tests embed through the manual route, so the background drain must not race it.
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 import { POST as embedRoute } from "../embed/route";
 import { POST as uploadRoute } from "./route";
 
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { toApiErrorResponse } from "@/lib/apiResponse";
-import { chunkText } from "@/lib/chunker";
-import { extractText, inferMimeType, isSupportedTextFile } from "@/lib/extractText";
+import { chunkSegments, isChunkingStrategy } from "@/lib/chunker";
+import { extractSegments, inferMimeType, isSupportedEvidenceFile } from "@/lib/extractText";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { queuedForEmbedding, startDocumentEmbeddingInBackground } from "@/server/documents/documentEmbedding";
 import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
 import { assertCan, RbacAction } from "@/server/rbac";
 
@@ -71,11 +73,16 @@ export async function POST(request: Request) {
       return jsonError("file is required", 400, "UPLOAD_FILE_REQUIRED");
     }
 
-    if (!isSupportedTextFile(fileEntry)) {
-      return jsonError("Only .txt, .md, and .pdf files are supported", 400, "UPLOAD_UNSUPPORTED_TYPE");
+    if (!isSupportedEvidenceFile(fileEntry)) {
+      return jsonError("Only .txt, .md, .pdf, and .docx files are supported", 400, "UPLOAD_UNSUPPORTED_TYPE");
     }
 
-    const ctx = await getRequestContext();
+    const chunkingStrategyEntry = formData.get("chunkingStrategy") ?? "FIXED_WINDOW";
+    if (!isChunkingStrategy(chunkingStrategyEntry)) {
+      return jsonError("chunkingStrategy must be FIXED_WINDOW or SEMANTIC", 400, "UPLOAD_INVALID_CHUNKING_STRATEGY");
+    }
+
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.UPLOAD_DOCUMENTS);
     const document = await prisma.document.create({
       data: {
@@ -84,14 +91,28 @@ export async function POST(request: Request) {
         originalName: fileEntry.name,
         mimeType: inferMimeType(fileEntry),
         status: "UPLOADED",
-        errorMessage: null
+        errorMessage: null,
+        chunkingStrategy: chunkingStrategyEntry
       }
     });
     createdDocumentId = document.id;
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.UPLOAD_DOCUMENTS,
+      targetType: "DOCUMENT",
+      targetId: document.id,
+      targetLabel: document.name,
+      summary: `Uploaded document "${document.originalName}".`,
+      after: {
+        mimeType: document.mimeType,
+        chunkingStrategy: document.chunkingStrategy
+      }
+    });
 
-    const text = await extractText(fileEntry);
+    const segments = await extractSegments(fileEntry);
 
-    if (!text.trim()) {
+    if (segments.length === 0) {
       await setDocumentError(document.id, "Uploaded file is empty after text extraction");
 
       return NextResponse.json(
@@ -103,7 +124,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const chunks = chunkText(text);
+    const chunks = chunkSegments(segments, { strategy: chunkingStrategyEntry });
     if (chunks.length === 0) {
       await setDocumentError(document.id, "No chunks generated from extracted text");
 
@@ -122,15 +143,32 @@ export async function POST(request: Request) {
           documentId: document.id,
           chunkIndex: chunk.chunkIndex,
           content: chunk.content,
+          pageNumber: chunk.pageNumber,
+          sectionNumber: chunk.sectionNumber,
+          headingPath: chunk.headingPath,
           evidenceFingerprint: computeEvidenceFingerprint(chunk.content)
         }))
       }),
       prisma.document.update({
         where: { id: document.id },
-        data: { status: "CHUNKED", errorMessage: null }
+        data: { ...queuedForEmbedding(), errorMessage: null, sourceSegments: segments }
+      }),
+      prisma.documentVersion.create({
+        data: {
+          documentId: document.id,
+          versionNumber: 1,
+          originalName: document.originalName,
+          mimeType: document.mimeType,
+          chunkingStrategy: chunkingStrategyEntry,
+          chunkCount: chunks.length,
+          addedChunkCount: chunks.length,
+          createdByUserId: ctx.userId
+        }
       })
     ]);
 
+    startDocumentEmbeddingInBackground(ctx.orgId);
+
     return NextResponse.json(
       {
         document: {
@@ -138,6 +176,7 @@ export async function POST(request: Request) {
           name: document.name,
           originalName: document.originalName,
           status: "CHUNKED",
+          chunkingStrategy: chunkingStrategyEntry,
           chunkCount: chunks.length
         }
       },
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { runPendingAutofillJobs } from "@/server/autofillJobs/runPendingAutofillJobs";
+import { authorizeWorkerRequest } from "@/server/workerAuth";
+
+// Called by a scheduler (cron, queue consumer) rather than a signed-in user, so it sits outside the
+// session middleware and is guarded by a shared secret instead.
+export async function POST(request: Request) {
+  try {
+    const unauthorized = authorizeWorkerRequest(request, "AUTOFILL_WORKER_SECRET");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const result = await runPendingAutofillJobs();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to run autofill jobs", error);
+    return toApiErrorResponse(error, "Failed to run autofill jobs.");
+  }
+}
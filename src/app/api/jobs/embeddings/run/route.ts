@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { runPendingDocumentEmbeddings } from "@/server/documents/documentEmbedding";
+import { authorizeWorkerRequest } from "@/server/workerAuth";
+
+// Uploads start embedding right away; a scheduler calls this to resume documents whose run was
+// interrupted and to retry failed ones once their backoff has elapsed.
+export async function POST(request: Request) {
+  try {
+    const unauthorized = authorizeWorkerRequest(request, "EMBEDDING_WORKER_SECRET");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const result = await runPendingDocumentEmbeddings();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to run document embeddings", error);
+    return toApiErrorResponse(error, "Failed to run document embeddings.");
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { runPendingWebhookDeliveries } from "@/server/webhooks/deliverWebhooks";
+import { authorizeWorkerRequest } from "@/server/workerAuth";
+
+// Like the autofill worker, this is called by a scheduler and guarded by a shared secret. Requests
+// that raise events drain their own deliveries right away; this picks up retries that come due.
+export async function POST(request: Request) {
+  try {
+    const unauthorized = authorizeWorkerRequest(request, "WEBHOOK_WORKER_SECRET");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const result = await runPendingWebhookDeliveries();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to run webhook deliveries", error);
+    return toApiErrorResponse(error, "Failed to run webhook deliveries.");
+  }
+}
@@ -0,0 +1,121 @@
+import { Prisma, type AiProviderKind } from "@prisma/client";
+import { NextResponse } from "next/server";
+import {
+  AI_PROVIDER_KINDS,
+  createAiProvider,
+  getDefaultAiProviderKind,
+  isAiProviderKind,
+  parseAiProviderConfig,
+  type AiProviderConfig
+} from "@/lib/aiProvider";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type UpdateAiProviderBody = {
+  kind?: unknown;
+  config?: unknown;
+};
+
+function toAiProviderPayload(kind: AiProviderKind | null, config: AiProviderConfig) {
+  const provider = createAiProvider(kind ?? getDefaultAiProviderKind(), config);
+
+  return {
+    kind: provider.kind,
+    isDefault: kind === null,
+    config,
+    chatModel: provider.chatModel,
+    embeddingModel: provider.embeddingModel,
+    availableKinds: AI_PROVIDER_KINDS
+  };
+}
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_AI_PROVIDER);
+
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: ctx.orgId },
+      select: { aiProvider: true, aiProviderConfig: true }
+    });
+
+    return NextResponse.json({
+      aiProvider: toAiProviderPayload(organization.aiProvider, parseAiProviderConfig(organization.aiProviderConfig))
+    });
+  } catch (error) {
+    console.error("Failed to load AI provider settings", error);
+    return toApiErrorResponse(error, "Failed to load AI provider settings.");
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.UPDATE_AI_PROVIDER);
+
+    const payload = (await request.json().catch(() => null)) as UpdateAiProviderBody | null;
+    const nextKind = payload?.kind ?? null;
+    if (nextKind !== null && !isAiProviderKind(nextKind)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: `kind must be null or one of ${AI_PROVIDER_KINDS.join(", ")}.`
+      });
+    }
+
+    // Provider requests carry the deployment's API keys, so organizations cannot redirect them.
+    const rawConfig = payload?.config;
+    if (rawConfig && typeof rawConfig === "object" && "baseUrl" in rawConfig) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "config.baseUrl is not supported; provider endpoints are set in the server environment."
+      });
+    }
+
+    const nextConfig = nextKind === null ? {} : parseAiProviderConfig(rawConfig);
+
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: ctx.orgId },
+      select: { aiProvider: true, aiProviderConfig: true }
+    });
+    const previous = toAiProviderPayload(
+      organization.aiProvider,
+      parseAiProviderConfig(organization.aiProviderConfig)
+    );
+
+    const next = toAiProviderPayload(nextKind, nextConfig);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.organization.update({
+        where: { id: ctx.orgId },
+        data: {
+          aiProvider: nextKind,
+          aiProviderConfig: nextKind === null ? Prisma.DbNull : (nextConfig as Prisma.InputJsonObject)
+        }
+      });
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.UPDATE_AI_PROVIDER,
+        targetType: "ORGANIZATION",
+        targetId: ctx.orgId,
+        summary: `Changed AI provider from ${previous.kind} to ${next.kind}.`,
+        before: { kind: previous.kind, chatModel: previous.chatModel, embeddingModel: previous.embeddingModel },
+        after: { kind: next.kind, chatModel: next.chatModel, embeddingModel: next.embeddingModel }
+      });
+    });
+
+    return NextResponse.json({
+      aiProvider: next,
+      reembedRequired: next.embeddingModel !== previous.embeddingModel
+    });
+  } catch (error) {
+    console.error("Failed to update AI provider settings", error);
+    return toApiErrorResponse(error, "Failed to update AI provider settings.");
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { assertSessionAuthenticated, revokeApiToken } from "@/server/apiTokens/apiTokens";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.CREATE_API_TOKENS);
+    assertSessionAuthenticated(ctx);
+
+    const revoked = await revokeApiToken({ ctx, tokenId: context.params.id });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: revoked.ownerUserId === ctx.userId ? RbacAction.CREATE_API_TOKENS : RbacAction.MANAGE_API_TOKENS,
+      targetType: "API_TOKEN",
+      targetId: revoked.id,
+      targetLabel: revoked.name,
+      summary: `Revoked API token ${revoked.name}.`,
+      before: {
+        kind: revoked.kind,
+        tokenPrefix: revoked.tokenPrefix,
+        ownerEmail: revoked.ownerEmail
+      }
+    });
+
+    return NextResponse.json({ apiToken: revoked });
+  } catch (error) {
+    console.error("Failed to revoke API token", error);
+    return toApiErrorResponse(error, "Failed to revoke API token.");
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import {
+  assertSessionAuthenticated,
+  createApiToken,
+  listApiTokens,
+  parseCreateApiTokenInput
+} from "@/server/apiTokens/apiTokens";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.CREATE_API_TOKENS);
+    assertSessionAuthenticated(ctx);
+
+    return NextResponse.json({
+      tokens: await listApiTokens(ctx)
+    });
+  } catch (error) {
+    console.error("Failed to load API tokens", error);
+    return toApiErrorResponse(error, "Failed to load API tokens.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.CREATE_API_TOKENS);
+    assertSessionAuthenticated(ctx);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const input = parseCreateApiTokenInput(body, ctx);
+    const created = await createApiToken({ ctx, ...input });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: input.kind === "SERVICE" ? RbacAction.MANAGE_API_TOKENS : RbacAction.CREATE_API_TOKENS,
+      targetType: "API_TOKEN",
+      targetId: created.apiToken.id,
+      targetLabel: created.apiToken.name,
+      summary: `Created ${input.kind === "SERVICE" ? "service" : "personal"} API token ${created.apiToken.name}.`,
+      after: {
+        kind: created.apiToken.kind,
+        tokenPrefix: created.apiToken.tokenPrefix,
+        maxRole: created.apiToken.maxRole,
+        expiresAt: created.apiToken.expiresAt
+      }
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create API token", error);
+    return toApiErrorResponse(error, "Failed to create API token.");
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { getApprovalPolicy } from "@/server/approvedAnswers/approvalSignOff";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type UpdateApprovalPolicyBody = {
+  requireTwoPersonApproval?: unknown;
+};
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
+
+    return NextResponse.json({
+      approvalPolicy: await getApprovalPolicy(ctx.orgId)
+    });
+  } catch (error) {
+    console.error("Failed to load approval policy", error);
+    return toApiErrorResponse(error, "Failed to load approval policy.");
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.UPDATE_APPROVAL_POLICY);
+
+    const payload = (await request.json().catch(() => null)) as UpdateApprovalPolicyBody | null;
+    if (typeof payload?.requireTwoPersonApproval !== "boolean") {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "requireTwoPersonApproval must be a boolean."
+      });
+    }
+
+    const requireTwoPersonApproval = payload.requireTwoPersonApproval;
+    const previous = await getApprovalPolicy(ctx.orgId);
+    if (previous.requireTwoPersonApproval !== requireTwoPersonApproval) {
+      await prisma.$transaction(async (tx) => {
+        await tx.organization.update({
+          where: { id: ctx.orgId },
+          data: { requireTwoPersonApproval }
+        });
+        // Pending first sign-offs only mean something under the policy.
+        if (!requireTwoPersonApproval) {
+          await tx.pendingApproval.deleteMany({
+            where: { organizationId: ctx.orgId }
+          });
+          await tx.pendingLibraryApproval.deleteMany({
+            where: { organizationId: ctx.orgId }
+          });
+        }
+        await recordAuditEvent({
+          db: tx,
+          ctx,
+          request,
+          action: RbacAction.UPDATE_APPROVAL_POLICY,
+          targetType: "ORGANIZATION",
+          targetId: ctx.orgId,
+          summary: requireTwoPersonApproval ? "Turned on two-person approval." : "Turned off two-person approval.",
+          before: { requireTwoPersonApproval: previous.requireTwoPersonApproval },
+          after: { requireTwoPersonApproval }
+        });
+      });
+    }
+
+    return NextResponse.json({
+      approvalPolicy: { requireTwoPersonApproval }
+    });
+  } catch (error) {
+    console.error("Failed to update approval policy", error);
+    return toApiErrorResponse(error, "Failed to update approval policy.");
+  }
+}
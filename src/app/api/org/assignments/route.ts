@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { reassignOpenQuestions } from "@/server/questionnaires/questionAssignments";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type ReassignBody = {
+  fromUserId?: unknown;
+  toUserId?: unknown;
+  questionnaireId?: unknown;
+};
+
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.ASSIGN_REVIEWERS);
+    const payload = (await request.json().catch(() => null)) as ReassignBody | null;
+    const fromUserId = typeof payload?.fromUserId === "string" ? payload.fromUserId.trim() : "";
+    const toUserId = typeof payload?.toUserId === "string" && payload.toUserId.trim() ? payload.toUserId.trim() : null;
+    if (!fromUserId || (payload?.toUserId !== null && !toUserId)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "fromUserId and toUserId (a user ID or null) are required."
+      });
+    }
+
+    const questionnaireId =
+      typeof payload?.questionnaireId === "string" && payload.questionnaireId.trim() ? payload.questionnaireId.trim() : null;
+    const result = await reassignOpenQuestions({
+      orgId: ctx.orgId,
+      fromUserId,
+      toUserId,
+      questionnaireId
+    });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.ASSIGN_REVIEWERS,
+      targetType: "MEMBER",
+      targetId: fromUserId,
+      summary: result.toEmail
+        ? `Reassigned ${result.reassignedCount} open question${result.reassignedCount === 1 ? "" : "s"} to ${result.toEmail}.`
+        : `Unassigned ${result.reassignedCount} open question${result.reassignedCount === 1 ? "" : "s"}.`,
+      after: {
+        fromUserId,
+        toUserId,
+        questionnaireId,
+        reassignedCount: result.reassignedCount
+      }
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to reassign questions", error);
+    return toApiErrorResponse(error, "Failed to reassign questions.");
+  }
+}
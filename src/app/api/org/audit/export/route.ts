@@ -0,0 +1,31 @@
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import {
+  buildAuditEventsCsv,
+  listAuditEventsForOrg,
+  MAX_AUDIT_EXPORT_ROWS,
+  parseAuditEventFilters
+} from "@/server/audit/listAuditEvents";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_AUDIT_LOG);
+
+    const filters = parseAuditEventFilters(new URL(request.url).searchParams);
+    const { events } = await listAuditEventsForOrg(ctx, { filters, limit: MAX_AUDIT_EXPORT_ROWS });
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return new Response(buildAuditEventsCsv(events), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${stamp}.csv"`
+      }
+    });
+  } catch (error) {
+    console.error("Failed to export audit events", error);
+    return toApiErrorResponse(error, "Failed to export audit events.");
+  }
+}
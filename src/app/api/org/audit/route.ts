@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import {
+  listAuditActorsForOrg,
+  listAuditEventsForOrg,
+  parseAuditEventFilters
+} from "@/server/audit/listAuditEvents";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+function parseLimit(value: string | null): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return 50;
+  }
+
+  return Math.min(parsed, 200);
+}
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_AUDIT_LOG);
+
+    const requestUrl = new URL(request.url);
+    const filters = parseAuditEventFilters(requestUrl.searchParams);
+    const [page, actors] = await Promise.all([
+      listAuditEventsForOrg(ctx, {
+        filters,
+        cursor: requestUrl.searchParams.get("cursor")?.trim() || null,
+        limit: parseLimit(requestUrl.searchParams.get("limit"))
+      }),
+      listAuditActorsForOrg(ctx)
+    ]);
+
+    return NextResponse.json({ ...page, actors });
+  } catch (error) {
+    console.error("Failed to list audit events", error);
+    return toApiErrorResponse(error, "Failed to list audit events.");
+  }
+}
@@ -1,7 +1,10 @@
 import { InviteRole, MembershipRole } from "@prisma/client";
 import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as auditExportRoute } from "@/app/api/org/audit/export/route";
+import { GET as auditRoute } from "@/app/api/org/audit/route";
 import { POST as acceptInviteRoute } from "@/app/api/org/invites/accept/route";
 import { POST as createInviteRoute } from "@/app/api/org/invites/route";
+import { PATCH as updateMemberRoute } from "@/app/api/org/members/[userId]/route";
 import { GET as membersRoute } from "@/app/api/org/members/route";
 import { prisma } from "@/lib/prisma";
 
@@ -134,6 +137,7 @@ describe.sequential("org invites + members management", () => {
   });
 
   afterEach(async () => {
+    vi.unstubAllEnvs();
     if (!seeded) {
       return;
     }
@@ -466,4 +470,89 @@ describe.sequential("org invites + members management", () => {
     expect(viewerInvitePayload.error?.code).toBe("FORBIDDEN_ROLE");
     expect(viewerInvitePayload.error?.requiredRole).toBe("ADMIN");
   });
+
+  it("records invites and role changes in the audit log for admins only", async () => {
+    if (!seeded) {
+      throw new Error("Missing seeded state.");
+    }
+
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+
+    const createResponse = await createInviteRoute(
+      new Request("http://localhost/api/org/invites", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Forwarded-For": "203.0.113.7, 10.0.0.1",
+          "User-Agent": "vitest-agent"
+        },
+        body: JSON.stringify({
+          email: seeded.outsiderEmail,
+          role: "VIEWER"
+        })
+      })
+    );
+    expect(createResponse.status).toBe(200);
+
+    const updateResponse = await updateMemberRoute(
+      new Request(`http://localhost/api/org/members/${seeded.viewerUserId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ role: "REVIEWER" })
+      }),
+      { params: { userId: seeded.viewerUserId } }
+    );
+    expect(updateResponse.status).toBe(200);
+
+    const auditResponse = await auditRoute(new Request("http://localhost/api/org/audit"));
+    expect(auditResponse.status).toBe(200);
+    const auditPayload = (await auditResponse.json()) as {
+      events: Array<{
+        action: string;
+        actorEmail: string | null;
+        targetType: string;
+        before: unknown;
+        after: unknown;
+        ipAddress: string | null;
+        userAgent: string | null;
+      }>;
+      actors: Array<{ userId: string }>;
+    };
+
+    expect(auditPayload.events.map((event) => event.action)).toEqual(["UPDATE_MEMBER_ROLE", "INVITE_MEMBERS"]);
+    expect(auditPayload.events[0]).toMatchObject({
+      actorEmail: seeded.ownerEmail,
+      targetType: "MEMBER",
+      before: { role: "VIEWER" },
+      after: { role: "REVIEWER" }
+    });
+    expect(auditPayload.events[1]).toMatchObject({
+      targetType: "INVITE",
+      ipAddress: "203.0.113.7",
+      userAgent: "vitest-agent"
+    });
+    expect(auditPayload.actors).toEqual([{ userId: seeded.ownerUserId, email: seeded.ownerEmail }]);
+
+    const filteredResponse = await auditRoute(new Request("http://localhost/api/org/audit?action=INVITE_MEMBERS"));
+    const filteredPayload = (await filteredResponse.json()) as { events: Array<{ action: string }> };
+    expect(filteredPayload.events.map((event) => event.action)).toEqual(["INVITE_MEMBERS"]);
+
+    const exportResponse = await auditExportRoute(new Request("http://localhost/api/org/audit/export"));
+    expect(exportResponse.status).toBe(200);
+    expect(exportResponse.headers.get("Content-Type")).toContain("text/csv");
+    const csv = await exportResponse.text();
+    expect(csv.split("\n")).toHaveLength(3);
+    expect(csv).toContain('"UPDATE_MEMBER_ROLE"');
+
+    await switchContext({
+      userId: seeded.viewerUserId,
+      orgId: seeded.orgAId,
+      role: MembershipRole.REVIEWER
+    });
+
+    const reviewerResponse = await auditRoute(new Request("http://localhost/api/org/audit"));
+    expect(reviewerResponse.status).toBe(403);
+  });
 });
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { buildInviteUrl, shouldIncludeInviteUrl } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { EmailDeliveryError, sendInviteEmail } from "@/server/email";
+import { reissueInvite } from "@/server/members/memberAdministration";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.INVITE_MEMBERS);
+
+    const invite = await reissueInvite({ ctx, request, inviteId: context.params.id });
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: ctx.orgId },
+      select: { name: true }
+    });
+
+    const inviteUrl = buildInviteUrl(invite.token);
+    const body = {
+      inviteId: invite.id,
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      ...(shouldIncludeInviteUrl(ctx.role) ? { inviteUrl } : {})
+    };
+
+    try {
+      await sendInviteEmail(invite.email, inviteUrl, organization.name, invite.role);
+    } catch (error) {
+      if (error instanceof EmailDeliveryError) {
+        return NextResponse.json(
+          {
+            ...body,
+            error: {
+              code: error.code,
+              message: error.message
+            }
+          },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Failed to resend organization invite", error);
+    return toApiErrorResponse(error, "Failed to resend organization invite.");
+  }
+}
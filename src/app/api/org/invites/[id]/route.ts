@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { revokeInvite } from "@/server/members/memberAdministration";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.INVITE_MEMBERS);
+
+    const revoked = await revokeInvite({ ctx, request, inviteId: context.params.id });
+    return NextResponse.json({ invite: revoked });
+  } catch (error) {
+    console.error("Failed to revoke organization invite", error);
+    return toApiErrorResponse(error, "Failed to revoke organization invite.");
+  }
+}
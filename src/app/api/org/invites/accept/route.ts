@@ -3,6 +3,8 @@ import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
 import { inviteRoleToMembershipRole } from "@/lib/orgInvites";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { RbacAction } from "@/server/rbac";
 
 type AcceptInviteBody = {
   token?: unknown;
@@ -59,15 +61,16 @@ export async function POST(request: Request) {
         email: true,
         role: true,
         expiresAt: true,
-        usedAt: true
+        usedAt: true,
+        revokedAt: true
       }
     });
 
-    if (!invite || invite.usedAt || invite.expiresAt <= new Date()) {
+    if (!invite || invite.usedAt || invite.revokedAt || invite.expiresAt <= new Date()) {
       return jsonError({
         status: 400,
         code: "VALIDATION_ERROR",
-        message: "Invite is invalid, expired, or already used."
+        message: "Invite is invalid, expired, revoked, or already used."
       });
     }
 
@@ -109,6 +112,7 @@ export async function POST(request: Request) {
         where: {
           id: invite.id,
           usedAt: null,
+          revokedAt: null,
           expiresAt: {
             gt: new Date()
           }
@@ -131,6 +135,20 @@ export async function POST(request: Request) {
         }
       });
 
+      await recordAuditEvent({
+        db: tx,
+        ctx: { userId: ctx.userId, orgId: invite.organizationId },
+        request,
+        action: RbacAction.INVITE_MEMBERS,
+        targetType: "INVITE",
+        targetId: invite.id,
+        targetLabel: invite.email,
+        summary: existingMembership
+          ? `${invite.email} accepted an invite and kept their existing ${finalRole} role.`
+          : `${invite.email} accepted an invite and joined as ${finalRole}.`,
+        after: { role: finalRole }
+      });
+
       return {
         orgId: invite.organizationId,
         role: finalRole
@@ -143,7 +161,7 @@ export async function POST(request: Request) {
       return jsonError({
         status: 409,
         code: "CONFLICT",
-        message: "Invite is invalid, expired, or already used."
+        message: "Invite is invalid, expired, revoked, or already used."
       });
     }
 
@@ -5,10 +5,13 @@ import {
   createInviteToken,
   getInviteExpiryDate,
   normalizeInviteEmail,
-  parseInviteRole
+  parseInviteRole,
+  shouldIncludeInviteUrl
 } from "@/lib/orgInvites";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { listPendingInvites } from "@/server/members/memberAdministration";
 import { assertCan, RbacAction } from "@/server/rbac";
 import { EmailDeliveryError, sendInviteEmail } from "@/server/email";
 
@@ -19,20 +22,18 @@ type CreateInviteBody = {
 
 export const runtime = "nodejs";
 
-function isTruthyEnvFlag(value: string | undefined): boolean {
-  const normalized = value?.trim().toLowerCase();
-  return normalized === "true" || normalized === "1" || normalized === "yes" || normalized === "on";
-}
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.INVITE_MEMBERS);
 
-function shouldIncludeInviteUrl(role: string): boolean {
-  if (process.env.NODE_ENV !== "production" || isTruthyEnvFlag(process.env.DEV_MODE)) {
-    return true;
+    return NextResponse.json({
+      invites: await listPendingInvites(ctx.orgId)
+    });
+  } catch (error) {
+    console.error("Failed to list organization invites", error);
+    return toApiErrorResponse(error, "Failed to list organization invites.");
   }
-
-  return (
-    isTruthyEnvFlag(process.env.ALLOW_INVITE_LINK_COPY) &&
-    (role === "OWNER" || role === "ADMIN")
-  );
 }
 
 export async function POST(request: Request) {
@@ -97,6 +98,21 @@ export async function POST(request: Request) {
       }
     });
 
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.INVITE_MEMBERS,
+      targetType: "INVITE",
+      targetId: invite.id,
+      targetLabel: invite.email,
+      summary: `Invited ${invite.email} as ${invite.role}.`,
+      after: {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt.toISOString()
+      }
+    });
+
     const inviteUrl = buildInviteUrl(invite.token);
     const includeInviteUrl = shouldIncludeInviteUrl(ctx.role);
 
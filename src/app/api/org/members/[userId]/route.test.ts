@@ -0,0 +1,169 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE as revokeInviteRoute } from "@/app/api/org/invites/[id]/route";
+import { GET as listInvitesRoute } from "@/app/api/org/invites/route";
+import { DELETE as removeMemberRoute } from "@/app/api/org/members/[userId]/route";
+import { POST as transferOwnershipRoute } from "@/app/api/org/members/[userId]/transfer-ownership/route";
+import { prisma } from "@/lib/prisma";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/requestContext")>();
+  return {
+    ...actual,
+    getRequestContext: getRequestContextMock
+  };
+});
+
+const TEST_ORG_PREFIX = "vitest-member-offboarding-";
+const TEST_EMAIL_DOMAIN = "member-offboarding.vitest.local";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.auditEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organizationInvite.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.membership.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+  await prisma.user.deleteMany({ where: { email: { endsWith: `@${TEST_EMAIL_DOMAIN}` } } });
+}
+
+async function seedOrganization() {
+  const suffix = randomUUID();
+  const organization = await prisma.organization.create({
+    data: { name: `${TEST_ORG_PREFIX}${suffix}` }
+  });
+  const [owner, admin, reviewer] = await Promise.all(
+    [MembershipRole.OWNER, MembershipRole.ADMIN, MembershipRole.REVIEWER].map((role) =>
+      prisma.user.create({
+        data: {
+          email: `${role.toLowerCase()}-${suffix}@${TEST_EMAIL_DOMAIN}`,
+          memberships: { create: { organizationId: organization.id, role } }
+        }
+      })
+    )
+  );
+
+  return { organization, owner, admin, reviewer };
+}
+
+function actAs(userId: string, orgId: string, role: MembershipRole) {
+  getRequestContextMock.mockResolvedValue({ userId, orgId, role });
+}
+
+function removeMember(userId: string) {
+  return removeMemberRoute(new Request(`http://localhost/api/org/members/${userId}`, { method: "DELETE" }), {
+    params: { userId }
+  });
+}
+
+async function roleOf(userId: string, organizationId: string) {
+  const membership = await prisma.membership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    select: { role: true }
+  });
+  return membership?.role ?? null;
+}
+
+describe.sequential("/api/org/members/[userId] offboarding", () => {
+  beforeEach(() => {
+    getRequestContextMock.mockReset();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("removes members below the actor's role and protects the last owner", async () => {
+    const seeded = await seedOrganization();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    actAs(seeded.admin.id, seeded.organization.id, MembershipRole.ADMIN);
+    expect((await removeMember(seeded.owner.id)).status).toBe(403);
+
+    const removeResponse = await removeMember(seeded.reviewer.id);
+    expect(removeResponse.status).toBe(200);
+    expect(await roleOf(seeded.reviewer.id, seeded.organization.id)).toBeNull();
+
+    actAs(seeded.owner.id, seeded.organization.id, MembershipRole.OWNER);
+    const lastOwnerResponse = await removeMember(seeded.owner.id);
+    expect(lastOwnerResponse.status).toBe(409);
+    expect(await roleOf(seeded.owner.id, seeded.organization.id)).toBe(MembershipRole.OWNER);
+  });
+
+  it("withdraws the removed member's pending two-person sign-offs", async () => {
+    const seeded = await seedOrganization();
+    await prisma.pendingLibraryApproval.create({
+      data: {
+        organizationId: seeded.organization.id,
+        questionText: "Are backups encrypted?",
+        questionTextHash: "backups-hash",
+        answerText: "Yes.",
+        citationChunkIds: [],
+        signedByUserId: seeded.reviewer.id,
+        signedByEmail: seeded.reviewer.email
+      }
+    });
+
+    actAs(seeded.admin.id, seeded.organization.id, MembershipRole.ADMIN);
+    const response = await removeMember(seeded.reviewer.id);
+
+    expect(response.status).toBe(200);
+    expect(await prisma.pendingLibraryApproval.count({ where: { organizationId: seeded.organization.id } })).toBe(0);
+  });
+
+  it("transfers ownership and steps the previous owner down to admin", async () => {
+    const seeded = await seedOrganization();
+    actAs(seeded.owner.id, seeded.organization.id, MembershipRole.OWNER);
+
+    const response = await transferOwnershipRoute(
+      new Request(`http://localhost/api/org/members/${seeded.admin.id}/transfer-ownership`, { method: "POST" }),
+      { params: { userId: seeded.admin.id } }
+    );
+
+    expect(response.status).toBe(200);
+    expect(await roleOf(seeded.admin.id, seeded.organization.id)).toBe(MembershipRole.OWNER);
+    expect(await roleOf(seeded.owner.id, seeded.organization.id)).toBe(MembershipRole.ADMIN);
+  });
+
+  it("lists and revokes pending invites", async () => {
+    const seeded = await seedOrganization();
+    actAs(seeded.admin.id, seeded.organization.id, MembershipRole.ADMIN);
+    const invite = await prisma.organizationInvite.create({
+      data: {
+        organizationId: seeded.organization.id,
+        email: `invitee@${TEST_EMAIL_DOMAIN}`,
+        role: "VIEWER",
+        token: randomUUID(),
+        expiresAt: new Date(Date.now() - 60_000),
+        createdByUserId: seeded.admin.id
+      }
+    });
+
+    const listResponse = await listInvitesRoute(new Request("http://localhost/api/org/invites"));
+    const listPayload = (await listResponse.json()) as { invites: Array<{ id: string; expired: boolean }> };
+    expect(listPayload.invites).toEqual([expect.objectContaining({ id: invite.id, expired: true })]);
+
+    const revokeResponse = await revokeInviteRoute(
+      new Request(`http://localhost/api/org/invites/${invite.id}`, { method: "DELETE" }),
+      { params: { id: invite.id } }
+    );
+    expect(revokeResponse.status).toBe(200);
+
+    const afterResponse = await listInvitesRoute(new Request("http://localhost/api/org/invites"));
+    expect(((await afterResponse.json()) as { invites: unknown[] }).invites).toEqual([]);
+  });
+});
@@ -3,6 +3,8 @@ import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { removeOrganizationMember } from "@/server/members/memberAdministration";
 import { assertCan, RbacAction } from "@/server/rbac";
 
 type UpdateRoleBody = {
@@ -97,20 +99,37 @@ export async function PATCH(request: Request, context: RouteContext) {
       }
     }
 
-    const updated = await prisma.membership.update({
-      where: {
-        id: existingMembership.id
-      },
-      data: {
-        role: nextRole
-      },
-      include: {
-        user: {
-          select: {
-            email: true
+    const updated = await prisma.$transaction(async (tx) => {
+      const membership = await tx.membership.update({
+        where: {
+          id: existingMembership.id
+        },
+        data: {
+          role: nextRole
+        },
+        include: {
+          user: {
+            select: {
+              email: true
+            }
           }
         }
-      }
+      });
+
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.UPDATE_MEMBER_ROLE,
+        targetType: "MEMBER",
+        targetId: membership.userId,
+        targetLabel: membership.user.email,
+        summary: `Changed ${membership.user.email ?? "member"} from ${existingMembership.role} to ${membership.role}.`,
+        before: { role: existingMembership.role },
+        after: { role: membership.role }
+      });
+
+      return membership;
     });
 
     return NextResponse.json({
@@ -126,3 +145,25 @@ export async function PATCH(request: Request, context: RouteContext) {
     return toApiErrorResponse(error, "Failed to update member role.");
   }
 }
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const targetUserId = context.params.userId.trim();
+    if (!targetUserId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "userId is required."
+      });
+    }
+
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.REMOVE_MEMBERS);
+
+    const removed = await removeOrganizationMember({ ctx, request, targetUserId });
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Failed to remove member", error);
+    return toApiErrorResponse(error, "Failed to remove member.");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { transferOrganizationOwnership } from "@/server/members/memberAdministration";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    userId: string;
+  };
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const targetUserId = context.params.userId.trim();
+    if (!targetUserId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "userId is required."
+      });
+    }
+
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.TRANSFER_OWNERSHIP);
+
+    const transfer = await transferOrganizationOwnership({ ctx, request, targetUserId });
+    return NextResponse.json(transfer);
+  } catch (error) {
+    console.error("Failed to transfer ownership", error);
+    return toApiErrorResponse(error, "Failed to transfer ownership.");
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { removeOrganizationDomain } from "@/server/sso/ssoConnections";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_SSO);
+
+    const removed = await removeOrganizationDomain({ orgId: ctx.orgId, domainId: context.params.id });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_SSO,
+      targetType: "SSO",
+      targetId: removed.id,
+      targetLabel: removed.domain,
+      summary: `Removed the email domain ${removed.domain}.`,
+      before: { domain: removed.domain, verified: removed.verifiedAt !== null }
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to remove email domain", error);
+    return toApiErrorResponse(error, "Failed to remove email domain.");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { getOrganizationDomainOrThrow, verifyOrganizationDomain } from "@/server/sso/ssoConnections";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_SSO);
+
+    const existing = await getOrganizationDomainOrThrow({ orgId: ctx.orgId, domainId: context.params.id });
+    const domain = await verifyOrganizationDomain({ orgId: ctx.orgId, domainId: existing.id });
+
+    if (!existing.verifiedAt) {
+      await recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.MANAGE_SSO,
+        targetType: "SSO",
+        targetId: domain.id,
+        targetLabel: domain.domain,
+        summary: `Verified the email domain ${domain.domain}.`,
+        before: { verified: false },
+        after: { verified: true }
+      });
+    }
+
+    return NextResponse.json({ domain });
+  } catch (error) {
+    console.error("Failed to verify email domain", error);
+    return toApiErrorResponse(error, "Failed to verify email domain.");
+  }
+}
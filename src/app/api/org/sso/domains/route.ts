@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { addOrganizationDomain, parseDomain } from "@/server/sso/ssoConnections";
+
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_SSO);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const domain = await addOrganizationDomain({ orgId: ctx.orgId, domain: parseDomain(body.domain) });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_SSO,
+      targetType: "SSO",
+      targetId: domain.id,
+      targetLabel: domain.domain,
+      summary: `Claimed the email domain ${domain.domain}.`,
+      after: { domain: domain.domain, verified: false }
+    });
+
+    return NextResponse.json({ domain }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to claim email domain", error);
+    return toApiErrorResponse(error, "Failed to claim email domain.");
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { getSsoSettings, parseSsoConnectionInput, saveSsoConnection } from "@/server/sso/ssoConnections";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_SSO);
+
+    return NextResponse.json(await getSsoSettings(ctx.orgId));
+  } catch (error) {
+    console.error("Failed to load SSO settings", error);
+    return toApiErrorResponse(error, "Failed to load SSO settings.");
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_SSO);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const existing = await prisma.ssoConnection.findUnique({ where: { organizationId: ctx.orgId } });
+    const input = parseSsoConnectionInput(body, existing);
+    const saved = await saveSsoConnection({ orgId: ctx.orgId, input });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_SSO,
+      targetType: "SSO",
+      targetId: saved.connection.providerId,
+      targetLabel: saved.connection.issuer,
+      summary: input.clientSecret && saved.before
+        ? `Updated the ${input.protocol} SSO connection and its client secret.`
+        : `${saved.before ? "Updated" : "Configured"} the ${input.protocol} SSO connection.`,
+      before: saved.before
+        ? {
+            issuer: saved.before.issuer,
+            clientId: saved.before.clientId,
+            enabled: saved.before.enabled,
+            defaultRole: saved.before.defaultRole,
+            disableMagicLink: saved.before.disableMagicLink
+          }
+        : null,
+      after: {
+        issuer: saved.connection.issuer,
+        clientId: saved.connection.clientId,
+        enabled: saved.connection.enabled,
+        defaultRole: saved.connection.defaultRole,
+        disableMagicLink: saved.connection.disableMagicLink
+      }
+    });
+
+    return NextResponse.json({ connection: saved.connection });
+  } catch (error) {
+    console.error("Failed to save SSO settings", error);
+    return toApiErrorResponse(error, "Failed to save SSO settings.");
+  }
+}
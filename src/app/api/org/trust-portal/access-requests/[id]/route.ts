@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { EmailDeliveryError, sendTrustPortalAccessEmail } from "@/server/email";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { getTrustPortalOrThrow, reviewTrustAccessRequest } from "@/server/trustPortal/trustPortal";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_TRUST_PORTAL);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    if (body.decision !== "APPROVE" && body.decision !== "REJECT") {
+      throw new ApiRouteError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "decision must be APPROVE or REJECT."
+      });
+    }
+
+    const portal = await getTrustPortalOrThrow(ctx.orgId);
+    const { accessRequest, accessUrl } = await reviewTrustAccessRequest({
+      portalId: portal.id,
+      requestId: context.params.id,
+      reviewerUserId: ctx.userId,
+      decision: body.decision === "APPROVE" ? "APPROVED" : "REJECTED"
+    });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_TRUST_PORTAL,
+      targetType: "TRUST_PORTAL",
+      targetId: accessRequest.id,
+      targetLabel: accessRequest.email,
+      summary: `${accessUrl ? "Approved" : "Rejected"} trust portal access for ${accessRequest.email}.`,
+      before: { status: "PENDING" },
+      after: { status: accessRequest.status, accessExpiresAt: accessRequest.accessExpiresAt }
+    });
+
+    const responseBody = { accessRequest, accessUrl };
+    if (accessUrl && accessRequest.accessExpiresAt) {
+      try {
+        await sendTrustPortalAccessEmail(accessRequest.email, {
+          url: accessUrl,
+          portalTitle: portal.title,
+          expiresAt: new Date(accessRequest.accessExpiresAt)
+        });
+      } catch (error) {
+        if (error instanceof EmailDeliveryError) {
+          return NextResponse.json(
+            {
+              ...responseBody,
+              error: {
+                code: error.code,
+                message: error.message
+              }
+            },
+            { status: error.status }
+          );
+        }
+        throw error;
+      }
+    }
+
+    return NextResponse.json(responseBody);
+  } catch (error) {
+    console.error("Failed to review trust portal access request", error);
+    return toApiErrorResponse(error, "Failed to review trust portal access request.");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { getTrustPortalOrThrow, listTrustAccessRequests } from "@/server/trustPortal/trustPortal";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_TRUST_PORTAL);
+
+    const portal = await getTrustPortalOrThrow(ctx.orgId);
+    return NextResponse.json({ accessRequests: await listTrustAccessRequests(portal.id) });
+  } catch (error) {
+    console.error("Failed to load trust portal access requests", error);
+    return toApiErrorResponse(error, "Failed to load trust portal access requests.");
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import {
+  getTrustPortalForOrg,
+  getTrustPortalSettings,
+  parseTrustPortalInput,
+  saveTrustPortal
+} from "@/server/trustPortal/trustPortal";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_TRUST_PORTAL);
+
+    return NextResponse.json(await getTrustPortalSettings(ctx.orgId));
+  } catch (error) {
+    console.error("Failed to load trust portal settings", error);
+    return toApiErrorResponse(error, "Failed to load trust portal settings.");
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_TRUST_PORTAL);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const existing = await getTrustPortalForOrg(ctx.orgId);
+    const input = parseTrustPortalInput(body, existing);
+    const portal = await saveTrustPortal({ orgId: ctx.orgId, input });
+    const settings = await getTrustPortalSettings(ctx.orgId);
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_TRUST_PORTAL,
+      targetType: "TRUST_PORTAL",
+      targetId: portal.id,
+      targetLabel: portal.slug,
+      summary: `${existing ? "Updated" : "Created"} the trust portal (${portal.published ? "published" : "unpublished"}, ${portal.accessMode}).`,
+      before: existing
+        ? {
+            slug: existing.slug,
+            published: existing.published,
+            accessMode: existing.accessMode
+          }
+        : null,
+      after: {
+        slug: portal.slug,
+        published: portal.published,
+        accessMode: portal.accessMode,
+        answerCount: settings.answers.length,
+        documentCount: settings.documents.length
+      }
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("Failed to save trust portal settings", error);
+    return toApiErrorResponse(error, "Failed to save trust portal settings.");
+  }
+}
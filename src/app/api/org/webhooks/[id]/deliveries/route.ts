@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { listWebhookDeliveries } from "@/server/webhooks/webhookEndpoints";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const deliveries = await listWebhookDeliveries({ orgId: ctx.orgId, endpointId: context.params.id });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Failed to load webhook deliveries", error);
+    return toApiErrorResponse(error, "Failed to load webhook deliveries.");
+  }
+}
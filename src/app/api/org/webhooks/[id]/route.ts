@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { isWebhookEventType } from "@/server/webhooks/webhookEvents";
+import {
+  getWebhookEndpointOrThrow,
+  parseWebhookEndpointInput,
+  updateWebhookEndpoint
+} from "@/server/webhooks/webhookEndpoints";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    if (body.rotateSecret !== undefined && typeof body.rotateSecret !== "boolean") {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "rotateSecret must be a boolean."
+      });
+    }
+
+    const existing = await getWebhookEndpointOrThrow({ orgId: ctx.orgId, endpointId: context.params.id });
+    const before = {
+      url: existing.url,
+      description: existing.description,
+      eventTypes: existing.eventTypes.filter(isWebhookEventType),
+      enabled: existing.enabled
+    };
+    const input = parseWebhookEndpointInput(body, before);
+    const rotateSecret = body.rotateSecret === true;
+    const updated = await updateWebhookEndpoint({ endpointId: existing.id, input, rotateSecret });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_WEBHOOKS,
+      targetType: "WEBHOOK",
+      targetId: existing.id,
+      targetLabel: updated.endpoint.url,
+      summary: rotateSecret
+        ? `Rotated the signing secret for webhook endpoint ${updated.endpoint.url}.`
+        : `Updated webhook endpoint ${updated.endpoint.url}.`,
+      before: {
+        url: before.url,
+        eventTypes: before.eventTypes,
+        enabled: before.enabled
+      },
+      after: {
+        url: updated.endpoint.url,
+        eventTypes: updated.endpoint.eventTypes,
+        enabled: updated.endpoint.enabled
+      }
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Failed to update webhook endpoint", error);
+    return toApiErrorResponse(error, "Failed to update webhook endpoint.");
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const existing = await getWebhookEndpointOrThrow({ orgId: ctx.orgId, endpointId: context.params.id });
+    await prisma.$transaction(async (tx) => {
+      await tx.webhookEndpoint.delete({
+        where: { id: existing.id }
+      });
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.MANAGE_WEBHOOKS,
+        targetType: "WEBHOOK",
+        targetId: existing.id,
+        targetLabel: existing.url,
+        summary: `Removed webhook endpoint ${existing.url}.`,
+        before: {
+          url: existing.url,
+          eventTypes: existing.eventTypes,
+          enabled: existing.enabled
+        }
+      });
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete webhook endpoint", error);
+    return toApiErrorResponse(error, "Failed to delete webhook endpoint.");
+  }
+}
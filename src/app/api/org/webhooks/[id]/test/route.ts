@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { sendTestWebhook } from "@/server/webhooks/webhookEndpoints";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const delivery = await sendTestWebhook({ orgId: ctx.orgId, endpointId: context.params.id });
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_WEBHOOKS,
+      targetType: "WEBHOOK",
+      targetId: delivery.endpointId,
+      summary: "Sent a test webhook delivery.",
+      after: {
+        deliveryId: delivery.id,
+        status: delivery.status,
+        lastStatusCode: delivery.lastStatusCode
+      }
+    });
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Failed to send test webhook", error);
+    return toApiErrorResponse(error, "Failed to send test webhook.");
+  }
+}
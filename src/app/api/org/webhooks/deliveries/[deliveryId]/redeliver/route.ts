@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { redeliverWebhook } from "@/server/webhooks/webhookEndpoints";
+
+type RouteContext = {
+  params: {
+    deliveryId: string;
+  };
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const delivery = await redeliverWebhook({ orgId: ctx.orgId, deliveryId: context.params.deliveryId });
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_WEBHOOKS,
+      targetType: "WEBHOOK",
+      targetId: delivery.endpointId,
+      summary: `Redelivered webhook event ${delivery.eventType}.`,
+      after: {
+        deliveryId: delivery.id,
+        redeliveryOfId: delivery.redeliveryOfId,
+        eventId: delivery.eventId,
+        status: delivery.status,
+        lastStatusCode: delivery.lastStatusCode
+      }
+    });
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Failed to redeliver webhook", error);
+    return toApiErrorResponse(error, "Failed to redeliver webhook.");
+  }
+}
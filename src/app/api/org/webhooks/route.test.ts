@@ -0,0 +1,220 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as redeliverRoute } from "@/app/api/org/webhooks/deliveries/[deliveryId]/redeliver/route";
+import { POST as createWebhookRoute } from "@/app/api/org/webhooks/route";
+import { prisma } from "@/lib/prisma";
+import { runPendingWebhookDeliveries } from "@/server/webhooks/deliverWebhooks";
+import { enqueueWebhookEvent, WebhookEventType } from "@/server/webhooks/webhookEvents";
+import { verifyWebhookSignature } from "@/server/webhooks/webhookSignature";
+
+const { getRequestContextMock, lookupMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn(),
+  lookupMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: lookupMock
+}));
+
+const TEST_ORG_PREFIX = "vitest-webhooks-route-";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.auditEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.webhookDelivery.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.webhookEndpoint.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+}
+
+async function seedOrganization() {
+  const organization = await prisma.organization.create({
+    data: {
+      name: `${TEST_ORG_PREFIX}${randomUUID()}`
+    }
+  });
+  getRequestContextMock.mockResolvedValue({
+    userId: `webhooks-admin-${Date.now()}`,
+    orgId: organization.id,
+    role: MembershipRole.ADMIN
+  });
+
+  return organization;
+}
+
+function createWebhook(body: Record<string, unknown>) {
+  return createWebhookRoute(
+    new Request("http://localhost/api/org/webhooks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    })
+  );
+}
+
+describe.sequential("/api/org/webhooks", () => {
+  beforeEach(() => {
+    getRequestContextMock.mockReset();
+    lookupMock.mockReset();
+    lookupMock.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("creates endpoints with a one-time secret and rejects non-https urls", async () => {
+    await seedOrganization();
+
+    const insecureResponse = await createWebhook({
+      url: "http://hooks.example.com/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    expect(insecureResponse.status).toBe(400);
+
+    const unknownEventResponse = await createWebhook({
+      url: "https://hooks.example.com/securityq",
+      eventTypes: ["question.deleted"]
+    });
+    expect(unknownEventResponse.status).toBe(400);
+
+    const loopbackResponse = await createWebhook({
+      url: "https://127.0.0.1/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    expect(loopbackResponse.status).toBe(400);
+
+    lookupMock.mockResolvedValueOnce([{ address: "169.254.169.254", family: 4 }]);
+    const metadataResponse = await createWebhook({
+      url: "https://metadata.example.com/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    expect(metadataResponse.status).toBe(400);
+
+    const response = await createWebhook({
+      url: "https://hooks.example.com/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    const payload = (await response.json()) as {
+      secret?: string;
+      endpoint?: { maskedSecret?: string; eventTypes?: string[] };
+    };
+
+    expect(response.status).toBe(201);
+    expect(payload.secret).toMatch(/^whsec_/);
+    expect(payload.endpoint?.maskedSecret).toBe(`whsec_…${payload.secret?.slice(-4)}`);
+    expect(payload.endpoint?.eventTypes).toEqual([WebhookEventType.QUESTION_APPROVED]);
+  });
+
+  it("delivers only subscribed events, schedules retries and redelivers the same event", async () => {
+    const organization = await seedOrganization();
+    const createResponse = await createWebhook({
+      url: "https://hooks.example.com/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    const created = (await createResponse.json()) as { secret: string };
+
+    await enqueueWebhookEvent({
+      organizationId: organization.id,
+      type: WebhookEventType.QUESTION_APPROVED,
+      data: { questionId: "question-1" }
+    });
+    await enqueueWebhookEvent({
+      organizationId: organization.id,
+      type: WebhookEventType.AUTOFILL_COMPLETED,
+      data: { questionnaireId: "questionnaire-1" }
+    });
+
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response("unavailable", { status: 503 }))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+    await runPendingWebhookDeliveries({ organizationId: organization.id });
+
+    const [failed] = await prisma.webhookDelivery.findMany({ where: { organizationId: organization.id } });
+    expect(failed.eventType).toBe(WebhookEventType.QUESTION_APPROVED);
+    expect(failed.status).toBe("PENDING");
+    expect(failed.attempts).toBe(1);
+    expect(failed.lastStatusCode).toBe(503);
+    expect(failed.lastError).toBe("Endpoint responded with HTTP 503.");
+    expect(failed.nextAttemptAt?.getTime()).toBeGreaterThan(Date.now());
+
+    const [, init] = fetchMock.mock.calls[0];
+    const headers = init?.headers as Record<string, string>;
+    expect(
+      verifyWebhookSignature({
+        secret: created.secret,
+        id: headers["Webhook-Id"],
+        timestamp: Number(headers["Webhook-Timestamp"]),
+        body: init?.body as string,
+        signatureHeader: headers["Webhook-Signature"]
+      })
+    ).toBe(true);
+
+    const redeliverResponse = await redeliverRoute(
+      new Request(`http://localhost/api/org/webhooks/deliveries/${failed.id}/redeliver`, { method: "POST" }),
+      { params: { deliveryId: failed.id } }
+    );
+    const redelivered = (await redeliverResponse.json()) as {
+      delivery?: { status?: string; eventId?: string; redeliveryOfId?: string };
+    };
+
+    expect(redeliverResponse.status).toBe(200);
+    expect(redelivered.delivery).toMatchObject({
+      status: "SUCCEEDED",
+      eventId: failed.eventId,
+      redeliveryOfId: failed.id
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(
+      prisma.auditEvent.findFirst({
+        where: { organizationId: organization.id, summary: `Redelivered webhook event ${failed.eventType}.` }
+      })
+    ).resolves.toMatchObject({ targetType: "WEBHOOK", targetId: failed.endpointId });
+  });
+
+  it("does not send to an endpoint whose host now resolves to a private address", async () => {
+    const organization = await seedOrganization();
+    await createWebhook({
+      url: "https://hooks.example.com/securityq",
+      eventTypes: [WebhookEventType.QUESTION_APPROVED]
+    });
+    await enqueueWebhookEvent({
+      organizationId: organization.id,
+      type: WebhookEventType.QUESTION_APPROVED,
+      data: { questionId: "question-1" }
+    });
+
+    lookupMock.mockResolvedValue([{ address: "10.0.0.5", family: 4 }]);
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+
+    await runPendingWebhookDeliveries({ organizationId: organization.id });
+
+    const [delivery] = await prisma.webhookDelivery.findMany({ where: { organizationId: organization.id } });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastStatusCode).toBeNull();
+    expect(delivery.lastError).toBe("url must not point at a private or internal address.");
+  });
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { assertCan, RbacAction } from "@/server/rbac";
+import { WEBHOOK_EVENT_TYPES } from "@/server/webhooks/webhookEvents";
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  parseWebhookEndpointInput
+} from "@/server/webhooks/webhookEndpoints";
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    return NextResponse.json({
+      endpoints: await listWebhookEndpoints(ctx.orgId),
+      eventTypes: WEBHOOK_EVENT_TYPES
+    });
+  } catch (error) {
+    console.error("Failed to load webhook endpoints", error);
+    return toApiErrorResponse(error, "Failed to load webhook endpoints.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.MANAGE_WEBHOOKS);
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const input = parseWebhookEndpointInput(body);
+    const created = await createWebhookEndpoint({ orgId: ctx.orgId, userId: ctx.userId, input });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.MANAGE_WEBHOOKS,
+      targetType: "WEBHOOK",
+      targetId: created.endpoint.id,
+      targetLabel: created.endpoint.url,
+      summary: `Added webhook endpoint ${created.endpoint.url}.`,
+      after: {
+        url: created.endpoint.url,
+        eventTypes: created.endpoint.eventTypes,
+        enabled: created.endpoint.enabled
+      }
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create webhook endpoint", error);
+    return toApiErrorResponse(error, "Failed to create webhook endpoint.");
+  }
+}
@@ -4,8 +4,12 @@ import { toApiErrorResponse } from "@/lib/apiResponse";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
 import { NOT_FOUND_TEXT } from "@/shared/answerTemplates";
+import { getApprovalPolicy, TWO_PERSON_APPROVAL_REQUIRED_MESSAGE } from "@/server/approvedAnswers/approvalSignOff";
 import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+import { enqueueWebhookEvent, questionnaireWebhookRef, WebhookEventType } from "@/server/webhooks/webhookEvents";
 
 type RouteContext = {
   params: {
@@ -40,13 +44,22 @@ export async function POST(request: Request, context: RouteContext) {
 
     const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.APPROVE_ANSWERS);
+    if ((await getApprovalPolicy(ctx.orgId)).requireTwoPersonApproval) {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: TWO_PERSON_APPROVAL_REQUIRED_MESSAGE
+      });
+    }
+
     const questionnaire = await prisma.questionnaire.findFirst({
       where: {
         id: questionnaireId,
         organizationId: ctx.orgId
       },
       select: {
-        id: true
+        id: true,
+        name: true
       }
     });
 
@@ -161,8 +174,8 @@ export async function POST(request: Request, context: RouteContext) {
     }
 
     if (questionIdsToApprove.length > 0) {
-      await prisma.$transaction([
-        prisma.question.updateMany({
+      await prisma.$transaction(async (tx) => {
+        await tx.question.updateMany({
           where: {
             questionnaireId: questionnaire.id,
             id: {
@@ -172,16 +185,53 @@ export async function POST(request: Request, context: RouteContext) {
           data: {
             reviewStatus: "APPROVED"
           }
-        }),
-        prisma.questionHistoryEvent.createMany({
+        });
+        await tx.questionHistoryEvent.createMany({
           data: questionIdsToApprove.map((questionId) => ({
             organizationId: ctx.orgId,
             questionnaireId: questionnaire.id,
             questionId,
-            type: "APPROVED"
+            type: "APPROVED",
+            actorUserId: ctx.userId
           }))
-        })
-      ]);
+        });
+        const approver = await tx.user.findUnique({ where: { id: ctx.userId }, select: { email: true } });
+        const approvedQuestions = await tx.question.findMany({
+          where: { id: { in: questionIdsToApprove } },
+          orderBy: { rowIndex: "asc" },
+          select: { id: true, text: true, rowIndex: true, reusedFromApprovedAnswerId: true }
+        });
+        for (const question of approvedQuestions) {
+          await enqueueWebhookEvent({
+            db: tx,
+            organizationId: ctx.orgId,
+            type: WebhookEventType.QUESTION_APPROVED,
+            data: {
+              questionnaire: questionnaireWebhookRef(questionnaire),
+              question: { id: question.id, text: question.text, rowIndex: question.rowIndex },
+              approvedAnswerId: question.reusedFromApprovedAnswerId,
+              reapproved: false,
+              approvedBy: approver?.email ?? null
+            }
+          });
+        }
+        await recordAuditEvent({
+          db: tx,
+          ctx,
+          request,
+          action: RbacAction.APPROVE_ANSWERS,
+          targetType: "QUESTIONNAIRE",
+          targetId: questionnaire.id,
+          targetLabel: questionnaire.name,
+          summary: `Bulk-approved ${questionIdsToApprove.length} exact reused answer${
+            questionIdsToApprove.length === 1 ? "" : "s"
+          }.`,
+          after: {
+            questionIds: questionIdsToApprove
+          }
+        });
+      });
+      startWebhookDeliveriesInBackground(ctx.orgId);
     }
 
     return NextResponse.json({
@@ -0,0 +1,212 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { POST as reassignRoute } from "@/app/api/org/assignments/route";
+import { GET as getAssignmentsRoute, POST as assignRoute } from "@/app/api/questionnaires/[id]/assignments/route";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+const TEST_ORG_PREFIX = "vitest-question-assignments-route-";
+
+type Fixture = {
+  organizationId: string;
+  questionnaireId: string;
+  ownerId: string;
+  reviewerId: string;
+  viewerId: string;
+  questionIds: string[];
+};
+
+let fixture: Fixture | null = null;
+
+async function createFixture(): Promise<Fixture> {
+  const organization = await prisma.organization.create({
+    data: {
+      name: `${TEST_ORG_PREFIX}${randomUUID()}`
+    }
+  });
+  const [owner, reviewer, viewer] = await Promise.all(
+    [MembershipRole.OWNER, MembershipRole.REVIEWER, MembershipRole.VIEWER].map((role) =>
+      prisma.user.create({
+        data: {
+          email: `assignments-${role.toLowerCase()}-${randomUUID()}@example.com`,
+          memberships: {
+            create: {
+              organizationId: organization.id,
+              role
+            }
+          }
+        }
+      })
+    )
+  );
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId: organization.id,
+      name: "Vendor review",
+      questionColumn: "Question",
+      sourceHeaders: ["Category", "Question"],
+      totalCount: 3
+    }
+  });
+  const rows = [
+    { Category: "Access", Question: "Is MFA enforced?" },
+    { Category: "Access", Question: "Is SSO supported?" },
+    { Category: "Backup", Question: "Are backups encrypted?" }
+  ];
+  const questions = await Promise.all(
+    rows.map((row, rowIndex) =>
+      prisma.question.create({
+        data: {
+          questionnaireId: questionnaire.id,
+          rowIndex,
+          sourceRow: row,
+          text: row.Question,
+          citations: []
+        }
+      })
+    )
+  );
+
+  getRequestContextMock.mockResolvedValue({
+    userId: owner.id,
+    orgId: organization.id,
+    role: MembershipRole.OWNER
+  });
+
+  return {
+    organizationId: organization.id,
+    questionnaireId: questionnaire.id,
+    ownerId: owner.id,
+    reviewerId: reviewer.id,
+    viewerId: viewer.id,
+    questionIds: questions.map((question) => question.id)
+  };
+}
+
+async function cleanupFixture(current: Fixture) {
+  await prisma.question.deleteMany({ where: { questionnaireId: current.questionnaireId } });
+  await prisma.questionnaire.deleteMany({ where: { organizationId: current.organizationId } });
+  await prisma.auditEvent.deleteMany({ where: { organizationId: current.organizationId } });
+  await prisma.membership.deleteMany({ where: { organizationId: current.organizationId } });
+  await prisma.user.deleteMany({ where: { id: { in: [current.ownerId, current.reviewerId, current.viewerId] } } });
+  await prisma.organization.delete({ where: { id: current.organizationId } });
+}
+
+function postJson(url: string, body: unknown) {
+  return new Request(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+async function readAssignees(questionIds: string[]) {
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    orderBy: { rowIndex: "asc" },
+    select: { assigneeUserId: true }
+  });
+  return questions.map((question) => question.assigneeUserId);
+}
+
+describe.sequential("questionnaire assignments routes", () => {
+  beforeEach(async () => {
+    getRequestContextMock.mockReset();
+    fixture = await createFixture();
+  });
+
+  afterEach(async () => {
+    if (fixture) {
+      await cleanupFixture(fixture);
+      fixture = null;
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("lists reviewable members and repeated source columns as sections", async () => {
+    const current = fixture as Fixture;
+    const response = await getAssignmentsRoute(new Request("http://localhost/api/questionnaires/x/assignments"), {
+      params: { id: current.questionnaireId }
+    });
+
+    expect(response.status).toBe(200);
+    const payload = (await response.json()) as {
+      dueAt: string | null;
+      members: Array<{ userId: string }>;
+      sections: Array<{ column: string; values: string[] }>;
+    };
+    expect(payload.dueAt).toBeNull();
+    expect(payload.members.map((member) => member.userId).sort()).toEqual([current.ownerId, current.reviewerId].sort());
+    expect(payload.sections).toEqual([{ column: "Category", values: ["Access", "Backup"] }]);
+  });
+
+  it("assigns a section and bulk-reassigns only unapproved rows", async () => {
+    const current = fixture as Fixture;
+    const assignResponse = await assignRoute(
+      postJson("http://localhost/api/questionnaires/x/assignments", {
+        section: { column: "Category", value: "Access" },
+        assigneeUserId: current.reviewerId
+      }),
+      { params: { id: current.questionnaireId } }
+    );
+    expect(assignResponse.status).toBe(200);
+    expect(await readAssignees(current.questionIds)).toEqual([current.reviewerId, current.reviewerId, null]);
+
+    const viewerResponse = await assignRoute(
+      postJson("http://localhost/api/questionnaires/x/assignments", {
+        questionIds: [current.questionIds[2]],
+        assigneeUserId: current.viewerId
+      }),
+      { params: { id: current.questionnaireId } }
+    );
+    expect(viewerResponse.status).toBe(400);
+
+    await prisma.question.update({
+      where: { id: current.questionIds[0] },
+      data: { reviewStatus: "APPROVED" }
+    });
+
+    const reassignResponse = await reassignRoute(
+      postJson("http://localhost/api/org/assignments", {
+        fromUserId: current.reviewerId,
+        toUserId: current.ownerId
+      })
+    );
+    expect(reassignResponse.status).toBe(200);
+    await expect(reassignResponse.json()).resolves.toMatchObject({ reassignedCount: 1 });
+    expect(await readAssignees(current.questionIds)).toEqual([current.reviewerId, current.ownerId, null]);
+  });
+
+  it("rejects assignment changes from reviewers", async () => {
+    const current = fixture as Fixture;
+    getRequestContextMock.mockResolvedValue({
+      userId: current.reviewerId,
+      orgId: current.organizationId,
+      role: MembershipRole.REVIEWER
+    });
+
+    const response = await assignRoute(
+      postJson("http://localhost/api/questionnaires/x/assignments", {
+        questionIds: [current.questionIds[0]],
+        assigneeUserId: current.reviewerId
+      }),
+      { params: { id: current.questionnaireId } }
+    );
+
+    expect(response.status).toBe(403);
+    expect(await readAssignees(current.questionIds)).toEqual([null, null, null]);
+  });
+});
@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import {
+  assignQuestions,
+  getQuestionnaireAssignmentOverview,
+  type QuestionSectionSelector
+} from "@/server/questionnaires/questionAssignments";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+type AssignQuestionsBody = {
+  assigneeUserId?: unknown;
+  questionIds?: unknown;
+  section?: unknown;
+};
+
+function readAssigneeUserId(value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "assigneeUserId must be a user ID or null."
+    });
+  }
+
+  return value.trim();
+}
+
+function readTarget(payload: AssignQuestionsBody): { questionIds?: string[]; section?: QuestionSectionSelector } {
+  if (payload.section !== undefined) {
+    const section = payload.section as { column?: unknown; value?: unknown } | null;
+    if (!section || typeof section.column !== "string" || typeof section.value !== "string" || !section.value.trim()) {
+      throw new ApiRouteError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "section must include a column and a value."
+      });
+    }
+
+    return { section: { column: section.column, value: section.value.trim() } };
+  }
+
+  if (
+    !Array.isArray(payload.questionIds) ||
+    payload.questionIds.length === 0 ||
+    payload.questionIds.some((questionId) => typeof questionId !== "string")
+  ) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "questionIds or section is required."
+    });
+  }
+
+  return { questionIds: Array.from(new Set(payload.questionIds as string[])) };
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
+    const overview = await getQuestionnaireAssignmentOverview({
+      orgId: ctx.orgId,
+      questionnaireId: context.params.id.trim()
+    });
+
+    if (!overview) {
+      return jsonError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Questionnaire not found."
+      });
+    }
+
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error("Failed to load questionnaire assignments", error);
+    return toApiErrorResponse(error, "Failed to load questionnaire assignments.");
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.ASSIGN_REVIEWERS);
+    const payload = (await request.json().catch(() => null)) as AssignQuestionsBody | null;
+    if (!payload || !("assigneeUserId" in payload)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "assigneeUserId is required."
+      });
+    }
+
+    const assigneeUserId = readAssigneeUserId(payload.assigneeUserId);
+    const target = readTarget(payload);
+    const assigned = await assignQuestions({
+      orgId: ctx.orgId,
+      questionnaireId: context.params.id.trim(),
+      assigneeUserId,
+      ...target
+    });
+
+    if (!assigned) {
+      return jsonError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Questionnaire not found."
+      });
+    }
+
+    const scope = target.section
+      ? `section "${target.section.value}"`
+      : `${assigned.questionIds.length} question${assigned.questionIds.length === 1 ? "" : "s"}`;
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.ASSIGN_REVIEWERS,
+      targetType: "QUESTIONNAIRE",
+      targetId: context.params.id.trim(),
+      targetLabel: assigned.questionnaireName,
+      summary: assigned.assigneeEmail
+        ? `Assigned ${scope} to ${assigned.assigneeEmail}.`
+        : `Cleared the assignee of ${scope}.`,
+      after: {
+        assigneeUserId,
+        questionIds: assigned.questionIds
+      }
+    });
+
+    return NextResponse.json({
+      assigneeUserId,
+      questionIds: assigned.questionIds
+    });
+  } catch (error) {
+    console.error("Failed to assign questions", error);
+    return toApiErrorResponse(error, "Failed to assign questions.");
+  }
+}
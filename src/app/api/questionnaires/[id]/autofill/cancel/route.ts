@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { cancelAutofillJob } from "@/server/autofillJobs/cancelAutofillJob";
+import { toAutofillJobPayload } from "@/server/autofillJobs/getAutofillJob";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.RUN_AUTOFILL);
+    const questionnaireId = context.params.id.trim();
+    if (!questionnaireId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Questionnaire ID is required."
+      });
+    }
+
+    const job = await cancelAutofillJob({ orgId: ctx.orgId, questionnaireId });
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.RUN_AUTOFILL,
+      targetType: "QUESTIONNAIRE",
+      targetId: questionnaireId,
+      summary: "Requested cancellation of the autofill job.",
+      after: { jobId: job.id, status: job.status, processedCount: job.processedCount, totalCount: job.totalCount }
+    });
+    return NextResponse.json({ job: toAutofillJobPayload(job) });
+  } catch (error) {
+    console.error("Failed to cancel autofill job", error);
+    return toApiErrorResponse(error, "Failed to cancel autofill job.");
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { toAutofillJobPayload } from "@/server/autofillJobs/getAutofillJob";
+import { startAutofillJobInBackground } from "@/server/autofillJobs/processAutofillJob";
+import { resumeAutofillJob } from "@/server/autofillJobs/resumeAutofillJob";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+  };
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.RUN_AUTOFILL);
+    const questionnaireId = context.params.id.trim();
+    if (!questionnaireId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Questionnaire ID is required."
+      });
+    }
+
+    const job = await resumeAutofillJob({ orgId: ctx.orgId, questionnaireId });
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.RUN_AUTOFILL,
+      targetType: "QUESTIONNAIRE",
+      targetId: questionnaireId,
+      summary: "Resumed the autofill job.",
+      after: { jobId: job.id, status: job.status, processedCount: job.processedCount, totalCount: job.totalCount }
+    });
+    startAutofillJobInBackground(job.id);
+    return NextResponse.json({ job: toAutofillJobPayload(job) }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to resume autofill job", error);
+    return toApiErrorResponse(error, "Failed to resume autofill job.");
+  }
+}
@@ -0,0 +1,298 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { GET as getAutofillRoute, POST as postAutofillRoute } from "@/app/api/questionnaires/[id]/autofill/route";
+import { POST as cancelAutofillRoute } from "@/app/api/questionnaires/[id]/autofill/cancel/route";
+import { POST as resumeAutofillRoute } from "@/app/api/questionnaires/[id]/autofill/resume/route";
+import { MAX_AUTOFILL_ITEM_ATTEMPTS, processAutofillJob } from "@/server/autofillJobs/processAutofillJob";
+
+const { autofillQuestionMock, getEmbeddingAvailabilityMock, getRequestContextMock, startAutofillJobInBackgroundMock } =
+  vi.hoisted(() => ({
+    autofillQuestionMock: vi.fn(),
+    getEmbeddingAvailabilityMock: vi.fn(),
+    getRequestContextMock: vi.fn(),
+    startAutofillJobInBackgroundMock: vi.fn()
+  }));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+vi.mock("@/lib/questionnaireService", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/questionnaireService")>("@/lib/questionnaireService");
+  return {
+    ...actual,
+    autofillQuestion: autofillQuestionMock,
+    getEmbeddingAvailability: getEmbeddingAvailabilityMock
+  };
+});
+
+vi.mock("@/server/autofillJobs/processAutofillJob", async () => {
+  const actual = await vi.importActual<typeof import("@/server/autofillJobs/processAutofillJob")>(
+    "@/server/autofillJobs/processAutofillJob"
+  );
+  return {
+    ...actual,
+    startAutofillJobInBackground: startAutofillJobInBackgroundMock
+  };
+});
+
+const TEST_ORG_PREFIX = "vitest-autofill-job-route-";
+
+type JobResponse = {
+  job?: {
+    id: string;
+    status: string;
+    totalCount: number;
+    processedCount: number;
+    failedCount: number;
+    retryCount: number;
+    cancelRequested: boolean;
+  } | null;
+  error?: { code?: string };
+};
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+
+  if (organizations.length === 0) {
+    return;
+  }
+
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.questionnaire.deleteMany({
+    where: {
+      organizationId: {
+        in: organizationIds
+      }
+    }
+  });
+
+  await prisma.organization.deleteMany({
+    where: {
+      id: {
+        in: organizationIds
+      }
+    }
+  });
+}
+
+async function seedQuestionnaire(organizationId: string, questionTexts: string[]) {
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId,
+      name: `autofill-job-${randomUUID()}`
+    }
+  });
+
+  await prisma.question.createMany({
+    data: questionTexts.map((text, rowIndex) => ({
+      questionnaireId: questionnaire.id,
+      rowIndex,
+      sourceRow: { Question: text },
+      text,
+      citations: []
+    }))
+  });
+
+  return questionnaire.id;
+}
+
+function routeContext(questionnaireId: string) {
+  return { params: { id: questionnaireId } };
+}
+
+async function postAutofill(questionnaireId: string) {
+  const response = await postAutofillRoute(
+    new Request(`http://localhost/api/questionnaires/${questionnaireId}/autofill`, { method: "POST" }),
+    routeContext(questionnaireId)
+  );
+  return { status: response.status, payload: (await response.json()) as JobResponse };
+}
+
+async function postJobAction(
+  route: typeof cancelAutofillRoute | typeof resumeAutofillRoute,
+  questionnaireId: string,
+  action: "cancel" | "resume"
+) {
+  const response = await route(
+    new Request(`http://localhost/api/questionnaires/${questionnaireId}/autofill/${action}`, { method: "POST" }),
+    routeContext(questionnaireId)
+  );
+  return { status: response.status, payload: (await response.json()) as JobResponse };
+}
+
+describe.sequential("questionnaire autofill jobs", () => {
+  let organizationId = "";
+
+  beforeEach(async () => {
+    autofillQuestionMock.mockReset();
+    getEmbeddingAvailabilityMock.mockReset();
+    getRequestContextMock.mockReset();
+    startAutofillJobInBackgroundMock.mockReset();
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: `${TEST_ORG_PREFIX}${randomUUID()}`
+      }
+    });
+    organizationId = organization.id;
+    getRequestContextMock.mockResolvedValue({
+      userId: `autofill-job-user-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.ADMIN
+    });
+    getEmbeddingAvailabilityMock.mockResolvedValue({ total: 1, embedded: 1, missing: 0 });
+    autofillQuestionMock.mockResolvedValue({ debugEntry: null, reusedEntry: null });
+  });
+
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("queues one job per questionnaire and reports its progress", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1", "Q2", "Q3"]);
+
+    const queued = await postAutofill(questionnaireId);
+    expect(queued.status).toBe(202);
+    expect(queued.payload.job).toMatchObject({ status: "QUEUED", totalCount: 3, processedCount: 0 });
+    expect(startAutofillJobInBackgroundMock).toHaveBeenCalledWith(queued.payload.job?.id);
+
+    const duplicate = await postAutofill(questionnaireId);
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.payload.error?.code).toBe("CONFLICT");
+
+    await processAutofillJob({ jobId: queued.payload.job?.id as string });
+    expect(autofillQuestionMock).toHaveBeenCalledTimes(3);
+    expect(autofillQuestionMock.mock.calls.map(([params]) => params.question.text)).toEqual(["Q1", "Q2", "Q3"]);
+
+    const progressResponse = await getAutofillRoute(
+      new Request(`http://localhost/api/questionnaires/${questionnaireId}/autofill`),
+      routeContext(questionnaireId)
+    );
+    const progress = (await progressResponse.json()) as JobResponse;
+    expect(progressResponse.status).toBe(200);
+    expect(progress.job).toMatchObject({ status: "SUCCEEDED", processedCount: 3, failedCount: 0 });
+  });
+
+  it("queues only one job when two autofill requests race", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1"]);
+
+    const responses = await Promise.all([postAutofill(questionnaireId), postAutofill(questionnaireId)]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([202, 409]);
+    expect(
+      await prisma.autofillJob.count({ where: { questionnaireId, status: { in: ["QUEUED", "RUNNING"] } } })
+    ).toBe(1);
+  });
+
+  it("stops writing once another worker re-claims the job's lease", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1", "Q2"]);
+    const queued = await postAutofill(questionnaireId);
+    const jobId = queued.payload.job?.id as string;
+
+    autofillQuestionMock.mockImplementationOnce(async () => {
+      await prisma.autofillJob.update({ where: { id: jobId }, data: { leaseToken: "other-worker" } });
+      return { debugEntry: null, reusedEntry: null };
+    });
+
+    await expect(processAutofillJob({ jobId })).resolves.toBeNull();
+    expect(autofillQuestionMock).toHaveBeenCalledTimes(1);
+
+    const job = await prisma.autofillJob.findUniqueOrThrow({ where: { id: jobId } });
+    expect(job).toMatchObject({ status: "RUNNING", processedCount: 0, leaseToken: "other-worker" });
+    expect(await prisma.autofillJobItem.count({ where: { jobId, status: "PENDING" } })).toBe(2);
+  });
+
+  it("retries failing questions, then resumes only the ones that failed", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1", "Q2"]);
+    autofillQuestionMock.mockImplementation(async (params: { question: { text: string } }) => {
+      if (params.question.text === "Q2") {
+        throw new Error("Model timeout");
+      }
+      return { debugEntry: null, reusedEntry: null };
+    });
+
+    const queued = await postAutofill(questionnaireId);
+    const jobId = queued.payload.job?.id as string;
+    await processAutofillJob({ jobId });
+
+    const failedJob = await prisma.autofillJob.findUniqueOrThrow({ where: { id: jobId } });
+    expect(failedJob).toMatchObject({ status: "FAILED", processedCount: 2, failedCount: 1 });
+    const failedItem = await prisma.autofillJobItem.findFirstOrThrow({ where: { jobId, status: "FAILED" } });
+    expect(failedItem).toMatchObject({ attempts: MAX_AUTOFILL_ITEM_ATTEMPTS, lastError: "Model timeout" });
+
+    autofillQuestionMock.mockReset();
+    autofillQuestionMock.mockResolvedValue({ debugEntry: null, reusedEntry: null });
+
+    const resumed = await postJobAction(resumeAutofillRoute, questionnaireId, "resume");
+    expect(resumed.status).toBe(202);
+    expect(resumed.payload.job).toMatchObject({ status: "QUEUED", processedCount: 1, failedCount: 0, retryCount: 1 });
+    expect(startAutofillJobInBackgroundMock).toHaveBeenLastCalledWith(jobId);
+
+    await processAutofillJob({ jobId });
+    expect(autofillQuestionMock).toHaveBeenCalledTimes(1);
+    expect(autofillQuestionMock.mock.calls[0][0].question.text).toBe("Q2");
+
+    const finishedJob = await prisma.autofillJob.findUniqueOrThrow({ where: { id: jobId } });
+    expect(finishedJob).toMatchObject({ status: "SUCCEEDED", processedCount: 2, failedCount: 0 });
+  });
+
+  it("stops a running job before the next question once canceled", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1", "Q2", "Q3"]);
+    const queued = await postAutofill(questionnaireId);
+    const jobId = queued.payload.job?.id as string;
+
+    autofillQuestionMock.mockImplementationOnce(async () => {
+      const canceled = await postJobAction(cancelAutofillRoute, questionnaireId, "cancel");
+      expect(canceled.status).toBe(200);
+      expect(canceled.payload.job).toMatchObject({ status: "RUNNING", cancelRequested: true });
+      return { debugEntry: null, reusedEntry: null };
+    });
+
+    await expect(processAutofillJob({ jobId })).resolves.toBeNull();
+    expect(autofillQuestionMock).toHaveBeenCalledTimes(1);
+
+    const canceledJob = await prisma.autofillJob.findUniqueOrThrow({ where: { id: jobId } });
+    expect(canceledJob).toMatchObject({ status: "CANCELED", processedCount: 1 });
+
+    const resumed = await postJobAction(resumeAutofillRoute, questionnaireId, "resume");
+    expect(resumed.payload.job).toMatchObject({ status: "QUEUED", processedCount: 1, cancelRequested: false });
+  });
+
+  it("cancels queued jobs immediately and requires autofill permission", async () => {
+    const questionnaireId = await seedQuestionnaire(organizationId, ["Q1"]);
+    await postAutofill(questionnaireId);
+
+    const canceled = await postJobAction(cancelAutofillRoute, questionnaireId, "cancel");
+    expect(canceled.status).toBe(200);
+    expect(canceled.payload.job?.status).toBe("CANCELED");
+
+    const cancelAgain = await postJobAction(cancelAutofillRoute, questionnaireId, "cancel");
+    expect(cancelAgain.status).toBe(409);
+
+    getRequestContextMock.mockResolvedValue({
+      userId: `autofill-job-viewer-${Date.now()}`,
+      orgId: organizationId,
+      role: MembershipRole.VIEWER
+    });
+
+    const forbidden = await postJobAction(resumeAutofillRoute, questionnaireId, "resume");
+    expect(forbidden.status).toBe(403);
+  });
+});
@@ -1,16 +1,44 @@
 import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
-import { getEmbeddingAvailability, processQuestionnaireAutofillBatch } from "@/lib/questionnaireService";
+import { prisma } from "@/lib/prisma";
+import { getEmbeddingAvailability } from "@/lib/questionnaireService";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { enqueueAutofillJob } from "@/server/autofillJobs/enqueueAutofillJob";
+import { findLatestAutofillJob, toAutofillJobPayload } from "@/server/autofillJobs/getAutofillJob";
+import { processAutofillJob, startAutofillJobInBackground } from "@/server/autofillJobs/processAutofillJob";
 import { assertCan, RbacAction } from "@/server/rbac";
 
-export async function POST(_request: Request, context: { params: { id: string } }) {
+export async function GET(_request: Request, context: { params: { id: string } }) {
+  try {
+    const questionnaireId = context.params.id.trim();
+    if (!questionnaireId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Questionnaire ID is required."
+      });
+    }
+
+    const ctx = await getRequestContext(_request);
+    assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
+    const job = await findLatestAutofillJob({ orgId: ctx.orgId, questionnaireId });
+
+    return NextResponse.json({ job: job ? toAutofillJobPayload(job) : null });
+  } catch (error) {
+    console.error("Failed to load autofill job", error);
+    return toApiErrorResponse(error, "Failed to load autofill job.");
+  }
+}
+
+export async function POST(request: Request, context: { params: { id: string } }) {
   try {
     const isDevMode = process.env.DEV_MODE === "true";
-    const url = new URL(_request.url);
+    const url = new URL(request.url);
     let debugRequested = url.searchParams.get("debug") === "true";
-    if (!debugRequested && _request.headers.get("content-type")?.includes("application/json")) {
-      const payload = (await _request.json().catch(() => null)) as { debug?: boolean } | null;
+    const waitRequested = url.searchParams.get("wait") === "true";
+    if (!debugRequested && request.headers.get("content-type")?.includes("application/json")) {
+      const payload = (await request.json().catch(() => null)) as { debug?: boolean } | null;
       debugRequested = payload?.debug === true;
     }
     const questionnaireId = context.params.id.trim();
@@ -23,7 +51,7 @@ export async function POST(_request: Request, context: { params: { id: string }
     }
 
     const debug = isDevMode && debugRequested;
-    const ctx = await getRequestContext(_request);
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.RUN_AUTOFILL);
     const availability = await getEmbeddingAvailability(ctx.orgId);
 
@@ -31,7 +59,7 @@ export async function POST(_request: Request, context: { params: { id: string }
       return jsonError({
         status: 409,
         code: "CONFLICT",
-        message: "No embedded chunks found. Upload documents and run /api/documents/embed first."
+        message: "No embedded chunks found. Upload documents and wait until they show as READY on the Documents page."
       });
     }
 
@@ -39,33 +67,47 @@ export async function POST(_request: Request, context: { params: { id: string }
       return jsonError({
         status: 409,
         code: "CONFLICT",
-        message: "Some document chunks are missing embeddings. Run /api/documents/embed and retry autofill."
+        message: "Document embedding is still in progress. Retry autofill once every document shows as READY on the Documents page."
       });
     }
 
-    const progress = await processQuestionnaireAutofillBatch({
-      organizationId: ctx.orgId,
+    const job = await enqueueAutofillJob({
+      orgId: ctx.orgId,
       questionnaireId,
+      createdByUserId: ctx.userId,
       debug
     });
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.RUN_AUTOFILL,
+      targetType: "QUESTIONNAIRE",
+      targetId: questionnaireId,
+      summary: "Started an autofill job.",
+      after: { jobId: job.id, totalCount: job.totalCount }
+    });
 
-    if (!isDevMode && progress && typeof progress === "object" && "debug" in progress) {
-      const { debug: _debug, ...withoutDebug } = progress as typeof progress & { debug?: unknown };
-      return NextResponse.json(withoutDebug);
+    if (!waitRequested) {
+      startAutofillJobInBackground(job.id);
+      return NextResponse.json({ job: toAutofillJobPayload(job) }, { status: 202 });
     }
 
-    return NextResponse.json(progress);
-  } catch (error) {
-    console.error("Failed to autofill questionnaire", error);
+    // Inline processing keeps scripts and tests that need the final result in a single call working.
+    const progress = await processAutofillJob({ jobId: job.id });
+    const finishedJob = toAutofillJobPayload(await prisma.autofillJob.findUniqueOrThrow({ where: { id: job.id } }));
 
-    if (error instanceof Error && error.message === "Questionnaire not found") {
-      return jsonError({
-        status: 404,
-        code: "NOT_FOUND",
-        message: "Questionnaire not found."
-      });
+    if (!progress) {
+      return NextResponse.json({ job: finishedJob });
+    }
+
+    if (!isDevMode && "debug" in progress) {
+      const { debug: _debug, ...withoutDebug } = progress;
+      return NextResponse.json({ ...withoutDebug, job: finishedJob });
     }
 
+    return NextResponse.json({ ...progress, job: finishedJob });
+  } catch (error) {
+    console.error("Failed to autofill questionnaire", error);
     return toApiErrorResponse(error, "Failed to autofill questionnaire.");
   }
 }
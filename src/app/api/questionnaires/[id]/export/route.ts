@@ -1,13 +1,22 @@
 import { NextResponse } from "next/server";
 import type { Citation } from "@/lib/answering";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
-import { buildQuestionnaireExportCsv } from "@/lib/export";
+import { withChunkLocation } from "@/lib/citations";
+import { buildQuestionnaireExportCsv, buildQuestionnaireExportXlsx } from "@/lib/export";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
 import { findStaleApprovedItemsForQuestionnaire } from "@/server/approvedAnswers/staleness";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { findInternalOnlyChunkIds } from "@/server/documents/documentMetadata";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+import { enqueueWebhookEvent, questionnaireWebhookRef, WebhookEventType } from "@/server/webhooks/webhookEvents";
+import { applyInternalSnippetPolicy, parseInternalSnippetPolicy } from "@/shared/evidenceShareability";
 
 type ExportMode = "preferApproved" | "approvedOnly" | "generated";
+type ExportFormat = "csv" | "xlsx";
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
 
 function toStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) {
@@ -53,7 +62,8 @@ function toCitations(value: unknown): Citation[] {
       return {
         docName: citation.docName,
         chunkId: citation.chunkId,
-        quotedSnippet: citation.quotedSnippet
+        quotedSnippet: citation.quotedSnippet,
+        ...(typeof citation.location === "string" && citation.location ? { location: citation.location } : {})
       };
     })
     .filter((item): item is Citation => Boolean(item));
@@ -71,9 +81,13 @@ function parseExportMode(value: string | null): ExportMode {
   return "preferApproved";
 }
 
-export async function GET(_request: Request, context: { params: { id: string } }) {
+function parseExportFormat(value: string | null): ExportFormat {
+  return value === "xlsx" ? "xlsx" : "csv";
+}
+
+export async function GET(request: Request, context: { params: { id: string } }) {
   try {
-    const ctx = await getRequestContext(_request);
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.EXPORT);
     const questionnaireId = context.params.id.trim();
     if (!questionnaireId) {
@@ -84,8 +98,10 @@ export async function GET(_request: Request, context: { params: { id: string } }
       });
     }
 
-    const url = new URL(_request.url);
+    const url = new URL(request.url);
     const mode = parseExportMode(url.searchParams.get("mode"));
+    const format = parseExportFormat(url.searchParams.get("format"));
+    const internalSnippets = parseInternalSnippetPolicy(url.searchParams.get("internalSnippets"));
 
     const questionnaire = await prisma.questionnaire.findFirst({
       where: {
@@ -118,6 +134,21 @@ export async function GET(_request: Request, context: { params: { id: string } }
       });
     }
 
+    if (format === "xlsx" && questionnaire.sourceFormat !== "XLSX") {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Workbook export is only available for questionnaires imported from an .xlsx file."
+      });
+    }
+
+    const headers = toStringArray(questionnaire.sourceHeaders);
+    const exportColumns = {
+      answerColumn: questionnaire.answerColumn,
+      yesNoColumn: questionnaire.yesNoColumn,
+      citationsColumn: questionnaire.citationsColumn
+    };
+
     if (mode === "approvedOnly") {
       const staleItems = await findStaleApprovedItemsForQuestionnaire({
         questionnaireId: questionnaire.id,
@@ -125,6 +156,18 @@ export async function GET(_request: Request, context: { params: { id: string } }
       });
 
       if (staleItems.length > 0) {
+        await enqueueWebhookEvent({
+          organizationId: ctx.orgId,
+          type: WebhookEventType.EXPORT_BLOCKED,
+          data: {
+            questionnaire: questionnaireWebhookRef(questionnaire),
+            format,
+            staleCount: staleItems.length,
+            staleItems
+          }
+        });
+        startWebhookDeliveriesInBackground(ctx.orgId);
+
         return jsonError({
           status: 409,
           code: "EXPORT_BLOCKED_STALE_APPROVALS",
@@ -137,7 +180,6 @@ export async function GET(_request: Request, context: { params: { id: string } }
       }
     }
 
-    const headers = toStringArray(questionnaire.sourceHeaders);
     const fallbackHeaders = Object.keys(toStringRecord(questionnaire.questions[0]?.sourceRow));
     const exportHeaders = headers.length > 0 ? headers : fallbackHeaders;
     const allApprovedCitationChunkIds = Array.from(
@@ -159,6 +201,8 @@ export async function GET(_request: Request, context: { params: { id: string } }
           select: {
             id: true,
             content: true,
+            pageNumber: true,
+            sectionNumber: true,
             document: {
               select: {
                 name: true
@@ -174,7 +218,8 @@ export async function GET(_request: Request, context: { params: { id: string } }
         {
           docName: chunk.document.name,
           chunkId: chunk.id,
-          quotedSnippet: chunk.content
+          quotedSnippet: chunk.content,
+          ...withChunkLocation(chunk)
         }
       ])
     );
@@ -185,16 +230,21 @@ export async function GET(_request: Request, context: { params: { id: string } }
         .filter((citation): citation is Citation => Boolean(citation));
     }
 
-    const csv = buildQuestionnaireExportCsv(
-      exportHeaders,
-      questionnaire.questions.map((question) => ({
+    const candidateRows = questionnaire.questions.map((question) => {
+      const answer =
+        mode === "generated"
+          ? question.answer ?? ""
+          : mode === "approvedOnly"
+            ? (question.approvedAnswer?.answerText ?? "")
+            : (question.approvedAnswer?.answerText ?? question.answer ?? "");
+      const hasChoiceShortAnswer = question.answerType === "BOOLEAN" || question.answerType === "ENUM";
+
+      return {
+        rowNumber: question.sourceRowNumber,
         sourceRow: toStringRecord(question.sourceRow),
-        answer:
-          mode === "generated"
-            ? question.answer ?? ""
-            : mode === "approvedOnly"
-              ? (question.approvedAnswer?.answerText ?? "")
-              : (question.approvedAnswer?.answerText ?? question.answer ?? ""),
+        answer,
+        // The stored short answer belongs to the generated text; approved edits are re-derived from their own text.
+        shortAnswer: hasChoiceShortAnswer && answer === question.answer ? question.shortAnswer : null,
         citations:
           mode === "generated"
             ? toCitations(question.citations)
@@ -203,10 +253,75 @@ export async function GET(_request: Request, context: { params: { id: string } }
               : question.approvedAnswer
                 ? citationsFromApprovedChunkIds(question.approvedAnswer.citationChunkIds)
                 : toCitations(question.citations)
-      }))
-    );
+      };
+    });
+
+    // Internal-only evidence must never reach a customer verbatim, whichever answer source is exported.
+    const internalOnlyChunkIds = await findInternalOnlyChunkIds({
+      orgId: ctx.orgId,
+      chunkIds: Array.from(new Set(candidateRows.flatMap((row) => row.citations.map((citation) => citation.chunkId))))
+    });
+    let withheldSnippetCount = 0;
+    const exportRows = candidateRows.map((row) => {
+      const { citations, withheldCount } = applyInternalSnippetPolicy(
+        row.citations,
+        internalOnlyChunkIds,
+        internalSnippets
+      );
+      withheldSnippetCount += withheldCount;
+      return { ...row, citations };
+    });
 
     const fileBase = sanitizeFileName(questionnaire.name || "questionnaire");
+    const recordExport = () =>
+      recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.EXPORT,
+        targetType: "QUESTIONNAIRE",
+        targetId: questionnaire.id,
+        targetLabel: questionnaire.name,
+        summary:
+          withheldSnippetCount > 0
+            ? `Exported questionnaire as ${format.toUpperCase()} (${mode}); ${internalSnippets === "omit" ? "omitted" : "redacted"} ${withheldSnippetCount} internal-only citation${withheldSnippetCount === 1 ? "" : "s"}.`
+            : `Exported questionnaire as ${format.toUpperCase()} (${mode}).`,
+        after: { format, mode, rowCount: exportRows.length, internalSnippets, withheldSnippetCount }
+      });
+
+    if (format === "xlsx") {
+      const sourceFile = await prisma.questionnaireSourceFile.findUnique({
+        where: { questionnaireId: questionnaire.id },
+        select: { content: true }
+      });
+
+      if (!sourceFile || !questionnaire.sourceSheetName || !questionnaire.sourceHeaderRow) {
+        return jsonError({
+          status: 409,
+          code: "CONFLICT",
+          message: "The original workbook for this questionnaire is no longer available."
+        });
+      }
+
+      const workbook = await buildQuestionnaireExportXlsx({
+        workbookBytes: sourceFile.content,
+        sheetName: questionnaire.sourceSheetName,
+        headerRowNumber: questionnaire.sourceHeaderRow,
+        mapping: exportColumns,
+        rows: exportRows
+      });
+      await recordExport();
+
+      return new Response(workbook, {
+        status: 200,
+        headers: {
+          "Content-Type": XLSX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${fileBase}-autofill.xlsx"`
+        }
+      });
+    }
+
+    const csv = buildQuestionnaireExportCsv(exportHeaders, exportRows, exportColumns);
+    await recordExport();
 
     return new Response(csv, {
       status: 200,
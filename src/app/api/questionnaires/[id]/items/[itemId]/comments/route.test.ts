@@ -0,0 +1,198 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PATCH as updateCommentRoute } from "@/app/api/comments/[id]/route";
+import { GET as approvalHistoryRoute } from "@/app/api/questionnaires/[id]/items/[itemId]/approval-history/route";
+import { GET as listCommentsRoute, POST as createCommentRoute } from "@/app/api/questionnaires/[id]/items/[itemId]/comments/route";
+import { prisma } from "@/lib/prisma";
+
+const { getRequestContextMock } = vi.hoisted(() => ({
+  getRequestContextMock: vi.fn()
+}));
+
+vi.mock("@/lib/requestContext", () => ({
+  getRequestContext: getRequestContextMock
+}));
+
+const TEST_ORG_PREFIX = "vitest-comments-route-";
+const TEST_EMAIL_DOMAIN = "comments-route.vitest.local";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: {
+      name: {
+        startsWith: TEST_ORG_PREFIX
+      }
+    },
+    select: {
+      id: true
+    }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.questionHistoryEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.comment.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.question.deleteMany({ where: { questionnaire: { organizationId: { in: organizationIds } } } });
+  await prisma.questionnaire.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.membership.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+  await prisma.user.deleteMany({ where: { email: { endsWith: `@${TEST_EMAIL_DOMAIN}` } } });
+}
+
+async function seedQuestion() {
+  const suffix = randomUUID();
+  const organization = await prisma.organization.create({
+    data: {
+      name: `${TEST_ORG_PREFIX}${suffix}`
+    }
+  });
+  const [author, mentioned] = await Promise.all(
+    ["author", "mentioned"].map((label) =>
+      prisma.user.create({
+        data: {
+          email: `${label}-${suffix}@${TEST_EMAIL_DOMAIN}`,
+          memberships: {
+            create: {
+              organizationId: organization.id,
+              role: label === "author" ? MembershipRole.REVIEWER : MembershipRole.VIEWER
+            }
+          }
+        }
+      })
+    )
+  );
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      organizationId: organization.id,
+      name: `comments-q-${suffix}`,
+      questions: {
+        create: {
+          rowIndex: 0,
+          sourceRow: { Question: "Do you encrypt backups?" },
+          text: "Do you encrypt backups?",
+          citations: []
+        }
+      }
+    },
+    select: {
+      id: true,
+      questions: { select: { id: true } }
+    }
+  });
+
+  return {
+    organization,
+    author,
+    mentioned,
+    params: {
+      id: questionnaire.id,
+      itemId: questionnaire.questions[0].id
+    }
+  };
+}
+
+function postComment(params: { id: string; itemId: string }, body: Record<string, unknown>) {
+  return createCommentRoute(
+    new Request("http://localhost/api/questionnaires/item/comments", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    }),
+    { params }
+  );
+}
+
+describe.sequential("/api/questionnaires/[id]/items/[itemId]/comments", () => {
+  beforeEach(() => {
+    getRequestContextMock.mockReset();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("threads replies, records mentions and folds comment events into approval history", async () => {
+    const seeded = await seedQuestion();
+    getRequestContextMock.mockResolvedValue({
+      userId: seeded.author.id,
+      orgId: seeded.organization.id,
+      role: MembershipRole.REVIEWER
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const threadResponse = await postComment(seeded.params, {
+      body: `@${seeded.mentioned.email} can you confirm the backup key rotation?`
+    });
+    const threadPayload = (await threadResponse.json()) as {
+      comment: { id: string; mentions: Array<{ userId: string }> };
+    };
+    expect(threadResponse.status).toBe(201);
+    expect(threadPayload.comment.mentions.map((member) => member.userId)).toEqual([seeded.mentioned.id]);
+
+    const replyResponse = await postComment(seeded.params, {
+      body: "Rotation is yearly.",
+      parentId: threadPayload.comment.id
+    });
+    const replyPayload = (await replyResponse.json()) as { comment: { id: string } };
+    expect(replyResponse.status).toBe(201);
+
+    const nestedReplyResponse = await postComment(seeded.params, {
+      body: "Replying to a reply.",
+      parentId: replyPayload.comment.id
+    });
+    expect(nestedReplyResponse.status).toBe(400);
+
+    const resolveResponse = await updateCommentRoute(
+      new Request(`http://localhost/api/comments/${threadPayload.comment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved: true })
+      }),
+      { params: { id: threadPayload.comment.id } }
+    );
+    expect(resolveResponse.status).toBe(200);
+
+    const listResponse = await listCommentsRoute(new Request("http://localhost/api/questionnaires/item/comments"), {
+      params: seeded.params
+    });
+    const listPayload = (await listResponse.json()) as {
+      threads: Array<{ id: string; resolvedByEmail: string | null; replies: Array<{ id: string }> }>;
+      unresolvedCount: number;
+    };
+    expect(listResponse.status).toBe(200);
+    expect(listPayload.unresolvedCount).toBe(0);
+    expect(listPayload.threads).toHaveLength(1);
+    expect(listPayload.threads[0].resolvedByEmail).toBe(seeded.author.email);
+    expect(listPayload.threads[0].replies.map((reply) => reply.id)).toEqual([replyPayload.comment.id]);
+
+    const historyResponse = await approvalHistoryRoute(
+      new Request("http://localhost/api/questionnaires/item/approval-history"),
+      { params: seeded.params }
+    );
+    const historyPayload = (await historyResponse.json()) as { history?: Array<{ type?: string }> };
+    expect(historyPayload.history?.map((event) => event.type)).toEqual([
+      "COMMENTED",
+      "COMMENTED",
+      "COMMENT_RESOLVED"
+    ]);
+  });
+
+  it("rejects comments from viewers", async () => {
+    const seeded = await seedQuestion();
+    getRequestContextMock.mockResolvedValue({
+      userId: seeded.mentioned.id,
+      orgId: seeded.organization.id,
+      role: MembershipRole.VIEWER
+    });
+
+    const response = await postComment(seeded.params, { body: "Looks good." });
+
+    expect(response.status).toBe(403);
+    expect(await prisma.comment.count({ where: { questionId: seeded.params.itemId } })).toBe(0);
+  });
+});
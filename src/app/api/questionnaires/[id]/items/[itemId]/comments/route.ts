@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { createComment, listCommentThreads, type CommentTarget } from "@/server/comments/comments";
+import { assertCan, RbacAction } from "@/server/rbac";
+
+type RouteContext = {
+  params: {
+    id: string;
+    itemId: string;
+  };
+};
+
+type CreateCommentBody = {
+  body?: unknown;
+  parentId?: unknown;
+};
+
+function toTarget(context: RouteContext): CommentTarget {
+  return {
+    kind: "QUESTION",
+    questionnaireId: context.params.id.trim(),
+    questionId: context.params.itemId.trim()
+  };
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
+    const comments = await listCommentThreads({
+      orgId: ctx.orgId,
+      target: toTarget(context)
+    });
+
+    if (!comments) {
+      return jsonError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Questionnaire item not found."
+      });
+    }
+
+    return NextResponse.json(comments);
+  } catch (error) {
+    console.error("Failed to load comments", error);
+    return toApiErrorResponse(error, "Failed to load comments.");
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const ctx = await getRequestContext(request);
+    assertCan(ctx.role, RbacAction.COMMENT);
+    const payload = (await request.json().catch(() => null)) as CreateCommentBody | null;
+    const created = await createComment({
+      ctx,
+      target: toTarget(context),
+      body: typeof payload?.body === "string" ? payload.body : "",
+      parentId: typeof payload?.parentId === "string" ? payload.parentId.trim() : null
+    });
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.COMMENT,
+      targetType: created.target.auditTargetType,
+      targetId: created.target.auditTargetId,
+      targetLabel: truncateAuditText(created.target.label),
+      summary: created.comment.parentId ? "Replied to a comment thread." : "Started a comment thread.",
+      after: {
+        commentId: created.comment.id,
+        body: truncateAuditText(created.comment.body),
+        mentionedUserIds: created.comment.mentions.map((member) => member.userId)
+      }
+    });
+
+    return NextResponse.json({ comment: created.comment }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add comment", error);
+    return toApiErrorResponse(error, "Failed to add comment.");
+  }
+}
@@ -154,11 +154,12 @@ async function attachQuestionEmbedding(approvedAnswerId: string, embedding: numb
   await prisma.$executeRawUnsafe(
     `
       UPDATE "ApprovedAnswer"
-      SET "questionEmbedding" = $1::vector(1536)
+      SET "questionEmbedding" = $1::vector, "questionEmbeddingModel" = $3
       WHERE "id" = $2
     `,
     embeddingToVectorLiteral(embedding),
-    approvedAnswerId
+    approvedAnswerId,
+    "openai:text-embedding-3-small"
   );
 }
 
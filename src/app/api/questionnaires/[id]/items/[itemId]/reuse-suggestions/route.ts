@@ -47,6 +47,11 @@ export async function GET(_request: Request, context: RouteContext) {
       select: {
         id: true,
         text: true,
+        questionnaire: {
+          select: {
+            evidenceCollectionId: true
+          }
+        },
         approvedAnswer: {
           select: {
             id: true
@@ -67,6 +72,7 @@ export async function GET(_request: Request, context: RouteContext) {
       orgId: ctx.orgId,
       questionText: question.text,
       excludeApprovedAnswerId: question.approvedAnswer?.id ?? null,
+      evidenceCollectionId: question.questionnaire.evidenceCollectionId,
       limit: 3
     });
 
@@ -77,6 +77,7 @@ export async function GET(_request: Request, context: RouteContext) {
             affectedCitationsCount: staleness.details.affectedCitationsCount,
             changedCount: staleness.details.changedCount,
             missingCount: staleness.details.missingCount,
+            expiredCount: staleness.details.expiredCount,
             reasons: staleness.details.reasons.map((reason) => ({
               reason: reason.reason
             }))
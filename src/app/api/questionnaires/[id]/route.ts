@@ -1,8 +1,21 @@
 import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
-import { deleteQuestionnaire, getQuestionnaireDetails } from "@/lib/questionnaireService";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import {
+  deleteQuestionnaire,
+  getQuestionnaireDetails,
+  updateQuestionnaireEvidenceScope,
+  updateQuestionnaireExportColumns
+} from "@/lib/questionnaireService";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import {
+  resolveEvidenceCollectionId,
+  type EvidenceScopeRef
+} from "@/server/evidenceCollections/evidenceCollections";
+import { updateQuestionnaireDueAt } from "@/server/questionnaires/questionAssignments";
 import { assertCan, RbacAction } from "@/server/rbac";
+import { readExportColumnMapping, type ExportColumnMapping } from "@/shared/exportColumns";
 
 type RouteContext = {
   params: {
@@ -40,7 +53,30 @@ export async function GET(_request: Request, context: RouteContext) {
   }
 }
 
-export async function DELETE(_request: Request, context: RouteContext) {
+type UpdateQuestionnaireBody = {
+  exportColumns?: unknown;
+  dueAt?: unknown;
+  evidenceCollectionId?: unknown;
+};
+
+function readDueAt(value: unknown): Date | null {
+  if (value === null || value === "") {
+    return null;
+  }
+
+  const parsed = typeof value === "string" ? new Date(value) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "dueAt must be an ISO date or null."
+    });
+  }
+
+  return parsed;
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
   try {
     const questionnaireId = context.params.id.trim();
     if (!questionnaireId) {
@@ -51,7 +87,140 @@ export async function DELETE(_request: Request, context: RouteContext) {
       });
     }
 
-    const ctx = await getRequestContext(_request);
+    const payload = (await request.json().catch(() => null)) as UpdateQuestionnaireBody | null;
+    const hasExportColumns = typeof payload?.exportColumns === "object" && payload.exportColumns !== null;
+    const hasDueAt = payload !== null && "dueAt" in payload;
+    const hasEvidenceScope = payload !== null && "evidenceCollectionId" in payload;
+    if (!payload || (!hasExportColumns && !hasDueAt && !hasEvidenceScope)) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "exportColumns, dueAt or evidenceCollectionId is required."
+      });
+    }
+
+    const ctx = await getRequestContext(request);
+    if (hasDueAt) {
+      assertCan(ctx.role, RbacAction.ASSIGN_REVIEWERS);
+    }
+    if (hasExportColumns || hasEvidenceScope) {
+      assertCan(ctx.role, RbacAction.IMPORT_QUESTIONNAIRES);
+    }
+
+    const response: {
+      exportColumns?: ExportColumnMapping;
+      dueAt?: string | null;
+      evidenceCollection?: EvidenceScopeRef | null;
+    } = {};
+    if (hasDueAt) {
+      const updated = await updateQuestionnaireDueAt({
+        orgId: ctx.orgId,
+        questionnaireId,
+        dueAt: readDueAt(payload.dueAt)
+      });
+
+      if (!updated) {
+        return jsonError({
+          status: 404,
+          code: "NOT_FOUND",
+          message: "Questionnaire not found."
+        });
+      }
+
+      await recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.ASSIGN_REVIEWERS,
+        targetType: "QUESTIONNAIRE",
+        targetId: questionnaireId,
+        targetLabel: updated.name,
+        summary: updated.dueAt ? "Set questionnaire due date." : "Cleared questionnaire due date.",
+        before: { dueAt: updated.previous },
+        after: { dueAt: updated.dueAt }
+      });
+      response.dueAt = updated.dueAt;
+    }
+
+    if (hasExportColumns) {
+      const updated = await updateQuestionnaireExportColumns({
+        organizationId: ctx.orgId,
+        questionnaireId,
+        exportColumns: readExportColumnMapping(payload.exportColumns)
+      });
+
+      if (!updated) {
+        return jsonError({
+          status: 404,
+          code: "NOT_FOUND",
+          message: "Questionnaire not found."
+        });
+      }
+
+      await recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.IMPORT_QUESTIONNAIRES,
+        targetType: "QUESTIONNAIRE",
+        targetId: questionnaireId,
+        targetLabel: updated.name,
+        summary: "Changed export column mapping.",
+        before: updated.previous,
+        after: updated.exportColumns
+      });
+      response.exportColumns = updated.exportColumns;
+    }
+
+    if (hasEvidenceScope) {
+      const updated = await updateQuestionnaireEvidenceScope({
+        organizationId: ctx.orgId,
+        questionnaireId,
+        evidenceCollectionId:
+          (await resolveEvidenceCollectionId({ orgId: ctx.orgId, value: payload.evidenceCollectionId })) ?? null
+      });
+
+      if (!updated) {
+        return jsonError({
+          status: 404,
+          code: "NOT_FOUND",
+          message: "Questionnaire not found."
+        });
+      }
+
+      await recordAuditEvent({
+        ctx,
+        request,
+        action: RbacAction.IMPORT_QUESTIONNAIRES,
+        targetType: "QUESTIONNAIRE",
+        targetId: questionnaireId,
+        targetLabel: updated.name,
+        summary: updated.evidenceCollection
+          ? `Scoped questionnaire evidence to "${updated.evidenceCollection.name}".`
+          : "Cleared questionnaire evidence scope.",
+        before: { evidenceCollectionId: updated.previous },
+        after: { evidenceCollectionId: updated.evidenceCollection?.id ?? null }
+      });
+      response.evidenceCollection = updated.evidenceCollection;
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to update questionnaire", error);
+    return toApiErrorResponse(error, "Failed to update questionnaire.");
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const questionnaireId = context.params.id.trim();
+    if (!questionnaireId) {
+      return jsonError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Questionnaire ID is required."
+      });
+    }
+
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.DELETE_QUESTIONNAIRES);
     const deleted = await deleteQuestionnaire(ctx.orgId, questionnaireId);
 
@@ -63,6 +232,17 @@ export async function DELETE(_request: Request, context: RouteContext) {
       });
     }
 
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.DELETE_QUESTIONNAIRES,
+      targetType: "QUESTIONNAIRE",
+      targetId: deleted.id,
+      targetLabel: deleted.name,
+      summary: `Deleted questionnaire "${deleted.name}".`,
+      before: { questionCount: deleted.questionCount }
+    });
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Failed to delete questionnaire", error);
@@ -8,7 +8,10 @@ import { POST as embedRoute } from "@/app/api/documents/embed/route";
 import { POST as importRoute } from "@/app/api/questionnaires/import/route";
 import { POST as autofillRoute } from "@/app/api/questionnaires/[id]/autofill/route";
 import { POST as approvedAnswersCreateRoute } from "@/app/api/approved-answers/route";
-import { GET as questionnaireDetailsRoute } from "@/app/api/questionnaires/[id]/route";
+import {
+  DELETE as questionnaireDeleteRoute,
+  GET as questionnaireDetailsRoute
+} from "@/app/api/questionnaires/[id]/route";
 import { POST as approveReusedRoute } from "@/app/api/questionnaires/[id]/approve-reused/route";
 
 const {
@@ -38,6 +41,7 @@ const {
 
 vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input))),
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
@@ -48,6 +52,14 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 const TEST_ORG_PREFIX = "vitest-approved-reuse-org-";
 const TEST_DOC_PREFIX = "vitest-approved-reuse-doc-";
 const TEST_Q_PREFIX = "vitest-approved-reuse-q-";
@@ -65,6 +77,8 @@ const B_Q5_DR = "Do you perform disaster recovery testing? How often?";
 const B_Q6_FEDRAMP = "What FedRAMP authorization level has been granted?";
 const B_Q7_ISO = A_Q6_ISO;
 
+const LIBRARY_PRIMARY_RPO = "How much data could be lost after an outage?";
+
 type CitationRow = {
   chunkId?: unknown;
   docName?: unknown;
@@ -293,7 +307,7 @@ async function importQuestionnaire(name: string, questions: string[]): Promise<s
 }
 
 async function runAutofill(questionnaireId: string): Promise<AutofillPayload> {
-  const response = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill"), {
+  const response = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill?wait=true"), {
     params: {
       id: questionnaireId
     }
@@ -742,14 +756,10 @@ describe.sequential("approved answer reuse integration", () => {
       },
       select: {
         id: true,
-        question: {
-          select: {
-            text: true
-          }
-        }
+        questionText: true
       }
     });
-    const invalidatedQuestionTexts = new Set(invalidatedApprovedAnswers.map((row) => row.question.text));
+    const invalidatedQuestionTexts = new Set(invalidatedApprovedAnswers.map((row) => row.questionText));
     expect(invalidatedQuestionTexts.size).toBeGreaterThan(0);
 
     const autofillBAfterDelete = await runAutofill(questionnaireBId);
@@ -795,4 +805,117 @@ describe.sequential("approved answer reuse integration", () => {
       });
     }
   });
+
+  it("reuses a library answer through an alias and keeps it after the questionnaire is deleted", async () => {
+    if (!isolatedOrgId) {
+      throw new Error("Expected isolated organization ID");
+    }
+
+    await uploadAndEmbedEvidenceTxt();
+    const rpoChunk = await prisma.documentChunk.findFirst({
+      where: {
+        document: {
+          organizationId: isolatedOrgId
+        },
+        content: {
+          contains: "Recovery Point Objective"
+        }
+      },
+      select: {
+        id: true
+      }
+    });
+    expect(rpoChunk).toBeTruthy();
+
+    const createResponse = await approvedAnswersCreateRoute(
+      new Request("http://localhost/api/approved-answers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          questionText: LIBRARY_PRIMARY_RPO,
+          aliases: [A_Q4_RPO, ` ${A_Q4_RPO} `],
+          answerText: "RPO for critical systems is 24 hours.",
+          citationChunkIds: [rpoChunk?.id]
+        })
+      })
+    );
+    expect(createResponse.status).toBe(201);
+    const createPayload = (await createResponse.json()) as { approvedAnswer?: { id: string } };
+    const libraryAnswerId = createPayload.approvedAnswer?.id as string;
+    expect(libraryAnswerId).toBeTruthy();
+
+    const libraryAnswer = await prisma.approvedAnswer.findUnique({
+      where: {
+        id: libraryAnswerId
+      },
+      select: {
+        questionId: true,
+        questionText: true,
+        aliases: {
+          select: {
+            questionText: true
+          }
+        }
+      }
+    });
+    expect(libraryAnswer?.questionId).toBeNull();
+    expect(libraryAnswer?.questionText).toBe(LIBRARY_PRIMARY_RPO);
+    expect(libraryAnswer?.aliases.map((alias) => alias.questionText)).toEqual([A_Q4_RPO]);
+
+    const questionnaireId = await importQuestionnaire("library", [A_Q4_RPO]);
+    const autofill = await runAutofill(questionnaireId);
+    expect(autofill.reusedCount).toBe(1);
+
+    const [row] = await getQuestionRows(questionnaireId);
+    expect(row.reusedFromApprovedAnswerId).toBe(libraryAnswerId);
+    expect(row.reuseMatchType).toBe("EXACT");
+    expect(normalizeCitations(row.citations).map((citation) => citation.chunkId)).toEqual([rpoChunk?.id]);
+
+    const reuseLinks = await prisma.approvedAnswerReuse.findMany({
+      where: {
+        approvedAnswerId: libraryAnswerId
+      },
+      select: {
+        questionId: true,
+        matchType: true
+      }
+    });
+    expect(reuseLinks).toEqual([{ questionId: row.id, matchType: "EXACT" }]);
+
+    const approvedFromQuestionnaire = await approveQuestionsWithCitations(questionnaireId, [A_Q4_RPO]);
+    const questionBoundAnswerId = approvedFromQuestionnaire.get(A_Q4_RPO)?.approvedAnswerId as string;
+    expect(questionBoundAnswerId).toBeTruthy();
+    expect(questionBoundAnswerId).not.toBe(libraryAnswerId);
+
+    const deleteResponse = await questionnaireDeleteRoute(
+      new Request(`http://localhost/api/questionnaires/${questionnaireId}`, { method: "DELETE" }),
+      {
+        params: {
+          id: questionnaireId
+        }
+      }
+    );
+    expect(deleteResponse.status).toBe(200);
+
+    const survivingAnswers = await prisma.approvedAnswer.findMany({
+      where: {
+        id: {
+          in: [libraryAnswerId, questionBoundAnswerId]
+        }
+      },
+      select: {
+        id: true,
+        questionId: true,
+        questionText: true
+      }
+    });
+    expect(survivingAnswers).toHaveLength(2);
+    for (const answer of survivingAnswers) {
+      expect(answer.questionId).toBeNull();
+      expect(answer.questionText).toBe(answer.id === libraryAnswerId ? LIBRARY_PRIMARY_RPO : A_Q4_RPO);
+    }
+    expect(await prisma.approvedAnswerReuse.count({ where: { approvedAnswerId: libraryAnswerId } })).toBe(0);
+  });
 });
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
 import { buildCsvPreview, isCsvFile, parseCsvFile } from "@/lib/csv";
 import { getRequestContext, RequestContextError } from "@/lib/requestContext";
+import { isXlsxFile, parseXlsxFile, readXlsxParseOptions } from "@/lib/xlsx";
 import { assertCan, ForbiddenRoleError, RbacAction } from "@/server/rbac";
 
 export async function POST(request: Request) {
@@ -20,11 +21,27 @@ export async function POST(request: Request) {
       });
     }
 
+    if (isXlsxFile(fileEntry)) {
+      const parsedXlsx = await parseXlsxFile(fileEntry, readXlsxParseOptions(formData));
+      const preview = buildCsvPreview(parsedXlsx);
+
+      return NextResponse.json({
+        fileType: "xlsx",
+        headers: preview.headers,
+        rowCount: preview.totalRowCount,
+        previewRows: preview.previewRows,
+        suggestedQuestionColumn: preview.suggestedQuestionColumn,
+        sheetNames: parsedXlsx.sheetNames,
+        sheetName: parsedXlsx.sheetName,
+        headerRowNumber: parsedXlsx.headerRowNumber
+      });
+    }
+
     if (!isCsvFile(fileEntry)) {
       return jsonError({
         status: 400,
         code: "VALIDATION_ERROR",
-        message: "Only .csv files are supported."
+        message: "Only .csv and .xlsx files are supported."
       });
     }
 
@@ -32,21 +49,22 @@ export async function POST(request: Request) {
     const preview = buildCsvPreview(parsed);
 
     return NextResponse.json({
+      fileType: "csv",
       headers: preview.headers,
       rowCount: preview.totalRowCount,
       previewRows: preview.previewRows,
       suggestedQuestionColumn: preview.suggestedQuestionColumn
     });
   } catch (error) {
-    console.error("Failed to read CSV headers", error);
+    console.error("Failed to read questionnaire headers", error);
     if (error instanceof RequestContextError || error instanceof ForbiddenRoleError) {
-      return toApiErrorResponse(error, "Failed to read CSV headers.");
+      return toApiErrorResponse(error, "Failed to read questionnaire headers.");
     }
 
     return jsonError({
       status: 400,
       code: "VALIDATION_ERROR",
-      message: error instanceof Error ? error.message : "Failed to read CSV headers."
+      message: error instanceof Error ? error.message : "Failed to read questionnaire headers."
     });
   }
 }
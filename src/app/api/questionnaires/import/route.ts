@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
 import { isCsvFile } from "@/lib/csv";
-import { importQuestionnaireFromCsv } from "@/lib/questionnaireService";
+import { importQuestionnaireFromCsv, importQuestionnaireFromXlsx } from "@/lib/questionnaireService";
 import { getRequestContext, RequestContextError } from "@/lib/requestContext";
+import { isXlsxFile, readXlsxParseOptions } from "@/lib/xlsx";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { resolveEvidenceCollectionId } from "@/server/evidenceCollections/evidenceCollections";
 import { assertCan, ForbiddenRoleError, RbacAction } from "@/server/rbac";
+import { readExportColumnMapping } from "@/shared/exportColumns";
 
 export async function POST(request: Request) {
   try {
@@ -20,11 +24,12 @@ export async function POST(request: Request) {
       });
     }
 
-    if (!isCsvFile(fileEntry)) {
+    const isXlsx = isXlsxFile(fileEntry);
+    if (!isXlsx && !isCsvFile(fileEntry)) {
       return jsonError({
         status: 400,
         code: "VALIDATION_ERROR",
-        message: "Only .csv files are supported."
+        message: "Only .csv and .xlsx files are supported."
       });
     }
 
@@ -38,11 +43,40 @@ export async function POST(request: Request) {
 
     const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.IMPORT_QUESTIONNAIRES);
-    const result = await importQuestionnaireFromCsv({
+    const importInput = {
       organizationId: ctx.orgId,
       file: fileEntry,
       questionColumn,
-      questionnaireName
+      questionnaireName,
+      exportColumns: readExportColumnMapping({
+        answerColumn: formData.get("answerColumn"),
+        yesNoColumn: formData.get("yesNoColumn"),
+        citationsColumn: formData.get("citationsColumn")
+      }),
+      evidenceCollectionId:
+        (await resolveEvidenceCollectionId({
+          orgId: ctx.orgId,
+          value: formData.get("evidenceCollectionId") ?? undefined
+        })) ?? null
+    };
+    const result = isXlsx
+      ? await importQuestionnaireFromXlsx({ ...importInput, ...readXlsxParseOptions(formData) })
+      : await importQuestionnaireFromCsv(importInput);
+
+    await recordAuditEvent({
+      ctx,
+      request,
+      action: RbacAction.IMPORT_QUESTIONNAIRES,
+      targetType: "QUESTIONNAIRE",
+      targetId: result.questionnaire.id,
+      targetLabel: result.questionnaire.name,
+      summary: `Imported questionnaire "${result.questionnaire.name}" from ${fileEntry.name}.`,
+      after: {
+        questionCount: result.questionCount,
+        questionColumn,
+        ...importInput.exportColumns,
+        evidenceCollectionId: importInput.evidenceCollectionId
+      }
     });
 
     return NextResponse.json(
@@ -56,15 +90,15 @@ export async function POST(request: Request) {
       { status: 201 }
     );
   } catch (error) {
-    console.error("Failed to import questionnaire CSV", error);
+    console.error("Failed to import questionnaire", error);
     if (error instanceof RequestContextError || error instanceof ForbiddenRoleError) {
-      return toApiErrorResponse(error, "Failed to import questionnaire CSV.");
+      return toApiErrorResponse(error, "Failed to import questionnaire.");
     }
 
     return jsonError({
       status: 400,
       code: "VALIDATION_ERROR",
-      message: error instanceof Error ? error.message : "Failed to import questionnaire CSV."
+      message: error instanceof Error ? error.message : "Failed to import questionnaire."
     });
   }
 }
@@ -41,6 +41,7 @@ const {
 
 vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input))),
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
@@ -51,6 +52,14 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 const TEST_USER_PREFIX = "vitest-org-scope-user-";
 const TEST_ORG_PREFIX = "vitest-org-scope-org-";
 const TEST_DOC_PREFIX = "vitest-org-scope-doc-";
@@ -310,7 +319,7 @@ describe.sequential("organization scoping isolation", () => {
     expect(questionnaireAId).toBeTruthy();
 
     const autofillAResponse = await questionnaireAutofillRoute(
-      new Request("http://localhost/api/questionnaires/autofill", { method: "POST" }),
+      new Request("http://localhost/api/questionnaires/autofill?wait=true", { method: "POST" }),
       {
         params: {
           id: questionnaireAId as string
@@ -413,7 +422,7 @@ describe.sequential("organization scoping isolation", () => {
     expect(questionnaireBId).toBeTruthy();
 
     const autofillBResponse = await questionnaireAutofillRoute(
-      new Request("http://localhost/api/questionnaires/autofill", { method: "POST" }),
+      new Request("http://localhost/api/questionnaires/autofill?wait=true", { method: "POST" }),
       {
         params: {
           id: questionnaireBId as string
@@ -35,6 +35,7 @@ const {
 
 vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input))),
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
@@ -45,6 +46,14 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 const TEST_DOC_PREFIX = "vitest-template-evidence-pack-";
 const TEST_Q_PREFIX = "vitest-pdf-only-autofill-";
 const TEST_ORG_PREFIX = "vitest-pdf-only-org-";
@@ -373,7 +382,7 @@ describe.sequential("pdf-only extractor gate questionnaire autofill regression",
       }
     );
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill?wait=true"), {
       params: {
         id: questionnaireId as string
       }
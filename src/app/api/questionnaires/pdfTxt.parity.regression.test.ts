@@ -35,6 +35,7 @@ const {
 
 vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input))),
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
@@ -45,6 +46,14 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 const TEST_DOC_PREFIX = "vitest-parity-evidence-";
 const TEST_Q_PREFIX = "vitest-parity-questionnaire-";
 const TEST_ORG_PREFIX = "vitest-parity-org-";
@@ -203,7 +212,7 @@ async function runScenario(params: {
   const questionnaireId = importPayload.questionnaire?.id;
   expect(questionnaireId).toBeTruthy();
 
-  const autofillResponse = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill"), {
+  const autofillResponse = await autofillRoute(new Request("http://localhost/api/questionnaires/autofill?wait=true"), {
     params: {
       id: questionnaireId as string
     }
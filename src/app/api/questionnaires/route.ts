@@ -4,9 +4,9 @@ import { listQuestionnairesForOrganization } from "@/lib/questionnaireService";
 import { getRequestContext } from "@/lib/requestContext";
 import { assertCan, RbacAction } from "@/server/rbac";
 
-export async function GET() {
+export async function GET(request?: Request) {
   try {
-    const ctx = await getRequestContext();
+    const ctx = await getRequestContext(request);
     assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
     const questionnaires = await listQuestionnairesForOrganization(ctx.orgId);
 
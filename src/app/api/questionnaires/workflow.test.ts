@@ -1,5 +1,6 @@
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
+import ExcelJS from "exceljs";
 import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { MembershipRole } from "@prisma/client";
 import { parseCsvText } from "@/lib/csv";
@@ -84,7 +85,11 @@ vi.mock("@/lib/requestContext", () => ({
 import { POST as importRoute } from "./import/route";
 import { POST as autofillRoute } from "./[id]/autofill/route";
 import { GET as exportRoute } from "./[id]/export/route";
-import { DELETE as deleteRoute, GET as questionnaireDetailsRoute } from "./[id]/route";
+import {
+  DELETE as deleteRoute,
+  GET as questionnaireDetailsRoute,
+  PATCH as updateQuestionnaireRoute
+} from "./[id]/route";
 import { POST as approvedAnswersCreateRoute } from "../approved-answers/route";
 import {
   DELETE as approvedAnswersDeleteRoute,
@@ -401,7 +406,7 @@ describe.sequential("questionnaire workflow integration", () => {
         citations: []
       });
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireId as string }
     });
     const autofillPayload = await autofillResponse.json();
@@ -436,6 +441,192 @@ describe.sequential("questionnaire workflow integration", () => {
     expect(questionnaire).toBeNull();
   });
 
+  it("imports an xlsx sheet and writes answers back into the original workbook columns", async () => {
+    const sourceWorkbook = new ExcelJS.Workbook();
+    sourceWorkbook.addWorksheet("Cover").addRow(["Acme vendor review"]);
+    const sourceSheet = sourceWorkbook.addWorksheet("Controls");
+    sourceSheet.addRow(["Acme Security Questionnaire"]);
+    sourceSheet.mergeCells("A1:D1");
+    sourceSheet.addRow(["Control ID", "Question", "Response", "Notes"]);
+    sourceSheet.addRow(["ENC-1", "Is TLS enabled?", "", ""]);
+    sourceSheet.addRow(["ENC-2", "Do you support SSO?", "", ""]);
+    sourceSheet.getCell("C3").font = { bold: true };
+
+    const workbookBytes = await sourceWorkbook.xlsx.writeBuffer();
+    const workbookFile = new File([workbookBytes], "workflow.xlsx", {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    });
+
+    const formData = new FormData();
+    formData.append("file", workbookFile);
+    formData.append("questionColumn", "Question");
+    formData.append("answerColumn", "Response");
+    formData.append("citationsColumn", "Notes");
+    formData.append("sheetName", "Controls");
+    formData.append("name", `${TEST_QUESTIONNAIRE_NAME_PREFIX}${Date.now()}`);
+
+    const importResponse = await importRoute(
+      new Request("http://localhost/api/questionnaires/import", {
+        method: "POST",
+        body: formData
+      })
+    );
+    const importPayload = (await importResponse.json()) as {
+      questionnaire?: { id: string; questionCount: number };
+    };
+
+    expect(importResponse.status).toBe(201);
+    expect(importPayload.questionnaire?.questionCount).toBe(2);
+    const questionnaireId = importPayload.questionnaire?.id as string;
+
+    const importedQuestions = await prisma.question.findMany({
+      where: { questionnaireId },
+      orderBy: { rowIndex: "asc" },
+      select: { text: true, sourceRowNumber: true }
+    });
+    expect(importedQuestions).toEqual([
+      { text: "Is TLS enabled?", sourceRowNumber: 3 },
+      { text: "Do you support SSO?", sourceRowNumber: 4 }
+    ]);
+
+    answerQuestionMock
+      .mockResolvedValueOnce({
+        answer: "TLS 1.2+ is enabled for external traffic.",
+        citations: [{ docName: "Security Doc", chunkId: "chunk-1", quotedSnippet: "TLS 1.2+ is enabled." }]
+      })
+      .mockResolvedValueOnce({
+        answer: "Not found in provided documents.",
+        citations: []
+      });
+
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
+      params: { id: questionnaireId }
+    });
+    expect(autofillResponse.status).toBe(200);
+
+    const exportResponse = await exportRoute(
+      new Request("http://localhost?format=xlsx"),
+      { params: { id: questionnaireId } }
+    );
+
+    expect(exportResponse.status).toBe(200);
+    expect(exportResponse.headers.get("Content-Disposition")).toContain(".xlsx");
+
+    const exportedWorkbook = new ExcelJS.Workbook();
+    await exportedWorkbook.xlsx.load(await exportResponse.arrayBuffer());
+    const exportedSheet = exportedWorkbook.getWorksheet("Controls") as ExcelJS.Worksheet;
+    expect(exportedWorkbook.worksheets.map((sheet) => sheet.name)).toEqual(["Cover", "Controls"]);
+    expect(exportedSheet.getCell("C3").value).toBe("TLS 1.2+ is enabled for external traffic.");
+    expect(exportedSheet.getCell("D3").value).toBe("Security Doc#chunk-1");
+    expect(exportedSheet.getCell("C4").value).toBe("Not found in provided documents.");
+    expect(exportedSheet.getCell("C3").font).toEqual({ bold: true });
+    expect(exportedSheet.getCell("E2").value).toBeNull();
+
+    const invalidColumnResponse = await updateQuestionnaireRoute(
+      new Request(`http://localhost/api/questionnaires/${questionnaireId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exportColumns: { answerColumn: "Missing" } })
+      }),
+      { params: { id: questionnaireId } }
+    );
+    expect(invalidColumnResponse.status).toBe(400);
+  });
+
+  it("fills mapped answer, Yes/No and citation columns in place and lets the mapping be edited", async () => {
+    const csv = [
+      "Question,Response,Yes/No,Comments",
+      "Do you encrypt data at rest?,,,",
+      "Do you support SCIM?,,,"
+    ].join("\n");
+    const formData = new FormData();
+    formData.append("file", new File([csv], "mapped.csv", { type: "text/csv" }));
+    formData.append("questionColumn", "Question");
+    formData.append("answerColumn", "Response");
+    formData.append("yesNoColumn", "Yes/No");
+    formData.append("citationsColumn", "Comments");
+    formData.append("name", `${TEST_QUESTIONNAIRE_NAME_PREFIX}${Date.now()}`);
+
+    const importResponse = await importRoute(
+      new Request("http://localhost/api/questionnaires/import", {
+        method: "POST",
+        body: formData
+      })
+    );
+    expect(importResponse.status).toBe(201);
+    const questionnaireId = ((await importResponse.json()) as { questionnaire: { id: string } }).questionnaire.id;
+
+    const importedQuestion = await prisma.question.findFirstOrThrow({
+      where: { questionnaireId, rowIndex: 0 },
+      select: { answerType: true }
+    });
+    expect(importedQuestion.answerType).toBe("BOOLEAN");
+
+    answerQuestionMock
+      .mockResolvedValueOnce({
+        answer: "Yes. Data at rest is encrypted with AES-256.",
+        citations: [{ docName: "Security Doc", chunkId: "chunk-1", quotedSnippet: "AES-256 at rest." }]
+      })
+      .mockResolvedValueOnce({
+        answer: "Not found in provided documents.",
+        citations: []
+      });
+
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
+      params: { id: questionnaireId }
+    });
+    expect(autofillResponse.status).toBe(200);
+    expect(answerQuestionMock).toHaveBeenCalledWith(
+      expect.objectContaining({ answerType: { type: "BOOLEAN", options: [] } })
+    );
+
+    const exportResponse = await exportRoute(new Request("http://localhost"), {
+      params: { id: questionnaireId }
+    });
+    expect(exportResponse.status).toBe(200);
+
+    const exported = parseCsvText(await exportResponse.text());
+    expect(exported.headers).toEqual(["Question", "Response", "Yes/No", "Comments"]);
+    expect(exported.rows[0]).toEqual({
+      Question: "Do you encrypt data at rest?",
+      Response: "Yes. Data at rest is encrypted with AES-256.",
+      "Yes/No": "Yes",
+      Comments: "Security Doc#chunk-1"
+    });
+    expect(exported.rows[1]["Yes/No"]).toBe("");
+
+    const updateResponse = await updateQuestionnaireRoute(
+      new Request(`http://localhost/api/questionnaires/${questionnaireId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exportColumns: { answerColumn: "Response", yesNoColumn: null, citationsColumn: null } })
+      }),
+      { params: { id: questionnaireId } }
+    );
+    expect(updateResponse.status).toBe(200);
+    expect(await updateResponse.json()).toEqual({
+      exportColumns: { answerColumn: "Response", yesNoColumn: null, citationsColumn: null }
+    });
+
+    const remappedResponse = await exportRoute(new Request("http://localhost"), {
+      params: { id: questionnaireId }
+    });
+    const remapped = parseCsvText(await remappedResponse.text());
+    expect(remapped.headers).toEqual(["Question", "Response", "Yes/No", "Comments", "Citations"]);
+    expect(remapped.rows[0]["Yes/No"]).toBe("");
+    expect(remapped.rows[0].Citations).toBe("Security Doc#chunk-1");
+
+    const conflictResponse = await updateQuestionnaireRoute(
+      new Request(`http://localhost/api/questionnaires/${questionnaireId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exportColumns: { answerColumn: "Question" } })
+      }),
+      { params: { id: questionnaireId } }
+    );
+    expect(conflictResponse.status).toBe(400);
+  });
+
   it("autofill keeps sufficient cited TLS-version answers as FOUND and does not clobber to PARTIAL", async () => {
     const evidenceA = fixture("evidence-a.txt");
     const evidenceB = fixture("evidence-b.txt");
@@ -605,7 +796,7 @@ describe.sequential("questionnaire workflow integration", () => {
       }
     );
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireId as string }
     });
     const autofillPayload = (await autofillResponse.json()) as {
@@ -717,7 +908,7 @@ describe.sequential("questionnaire workflow integration", () => {
         ]
       });
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireId as string }
     });
     expect(autofillResponse.status).toBe(200);
@@ -943,7 +1134,7 @@ describe.sequential("questionnaire workflow integration", () => {
         ]
       });
 
-    const autofillAResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillAResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireAId as string }
     });
     expect(autofillAResponse.status).toBe(200);
@@ -1026,7 +1217,7 @@ describe.sequential("questionnaire workflow integration", () => {
       citations: []
     });
 
-    const autofillBResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillBResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireBId as string }
     });
     expect(autofillBResponse.status).toBe(200);
@@ -1146,7 +1337,7 @@ describe.sequential("questionnaire workflow integration", () => {
         ]
       });
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireId as string }
     });
     expect(autofillResponse.status).toBe(200);
@@ -1281,7 +1472,7 @@ describe.sequential("questionnaire workflow integration", () => {
       ]
     });
 
-    const autofillResponse = await autofillRoute(new Request("http://localhost"), {
+    const autofillResponse = await autofillRoute(new Request("http://localhost?wait=true"), {
       params: { id: questionnaireId as string }
     });
     expect(autofillResponse.status).toBe(200);
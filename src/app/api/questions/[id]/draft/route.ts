@@ -1,11 +1,14 @@
 import { NextResponse } from "next/server";
 import { ApiRouteError } from "@/lib/approvalValidation";
 import { jsonError, toApiErrorResponse } from "@/lib/apiResponse";
+import { withChunkLocation } from "@/lib/citations";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
 import { recordQuestionHistoryEvent } from "@/server/questionHistory/recordQuestionHistoryEvent";
 import { assertCan, RbacAction } from "@/server/rbac";
 import { normalizeTemplateText, NOT_FOUND_TEXT } from "@/shared/answerTemplates";
+import { readLeadingShortAnswer } from "@/shared/answerTypes";
 
 type RouteContext = {
   params: {
@@ -24,6 +27,7 @@ type PersistedCitation = {
   chunkId: string;
   docName: string;
   quotedSnippet: string;
+  location?: string;
 };
 
 function normalizeChunkIds(value: unknown): string[] {
@@ -124,6 +128,11 @@ export async function POST(request: Request, context: RouteContext) {
       select: {
         id: true,
         questionnaireId: true,
+        text: true,
+        answer: true,
+        reviewStatus: true,
+        answerType: true,
+        answerOptions: true,
         approvedAnswer: {
           select: {
             id: true
@@ -161,6 +170,8 @@ export async function POST(request: Request, context: RouteContext) {
           select: {
             id: true,
             content: true,
+            pageNumber: true,
+            sectionNumber: true,
             document: {
               select: {
                 name: true
@@ -194,11 +205,13 @@ export async function POST(request: Request, context: RouteContext) {
         return {
           chunkId,
           docName: chunk.document.name,
-          quotedSnippet: chunk.content
+          quotedSnippet: chunk.content,
+          ...withChunkLocation(chunk)
         };
       })
       .filter((citation): citation is PersistedCitation => citation !== null);
 
+    const shaped = readLeadingShortAnswer({ type: question.answerType, options: question.answerOptions }, answerText);
     const updated = await prisma.$transaction(async (tx) => {
       const nextQuestion = await tx.question.update({
         where: {
@@ -206,6 +219,8 @@ export async function POST(request: Request, context: RouteContext) {
         },
         data: {
           answer: answerText,
+          shortAnswer: shaped?.shortAnswer ?? null,
+          answerExplanation: shaped?.explanation ?? null,
           citations,
           reviewStatus: "NEEDS_REVIEW",
           draftSuggestionApplied,
@@ -229,6 +244,26 @@ export async function POST(request: Request, context: RouteContext) {
         type: draftSuggestionApplied ? "SUGGESTION_APPLIED" : "DRAFT_UPDATED"
       });
 
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.MARK_NEEDS_REVIEW,
+        targetType: "QUESTION",
+        targetId: question.id,
+        targetLabel: truncateAuditText(question.text),
+        summary: draftSuggestionApplied ? "Applied a suggested draft answer." : "Edited the draft answer.",
+        before: {
+          answer: truncateAuditText(question.answer),
+          reviewStatus: question.reviewStatus
+        },
+        after: {
+          answer: truncateAuditText(nextQuestion.answer),
+          citationChunkIds,
+          reviewStatus: nextQuestion.reviewStatus
+        }
+      });
+
       return nextQuestion;
     });
 
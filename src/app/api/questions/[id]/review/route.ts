@@ -3,6 +3,7 @@ import { ApiRouteError } from "@/lib/approvalValidation";
 import { toApiErrorResponse } from "@/lib/apiResponse";
 import { prisma } from "@/lib/prisma";
 import { getRequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
 import { assertCan, RbacAction } from "@/server/rbac";
 
 type RouteContext = {
@@ -50,7 +51,9 @@ export async function POST(request: Request, context: RouteContext) {
         }
       },
       select: {
-        id: true
+        id: true,
+        text: true,
+        reviewStatus: true
       }
     });
 
@@ -62,17 +65,34 @@ export async function POST(request: Request, context: RouteContext) {
       });
     }
 
-    const updated = await prisma.question.update({
-      where: {
-        id: question.id
-      },
-      data: {
-        reviewStatus
-      },
-      select: {
-        id: true,
-        reviewStatus: true
-      }
+    const updated = await prisma.$transaction(async (tx) => {
+      const nextQuestion = await tx.question.update({
+        where: {
+          id: question.id
+        },
+        data: {
+          reviewStatus
+        },
+        select: {
+          id: true,
+          reviewStatus: true
+        }
+      });
+
+      await recordAuditEvent({
+        db: tx,
+        ctx,
+        request,
+        action: RbacAction.MARK_NEEDS_REVIEW,
+        targetType: "QUESTION",
+        targetId: question.id,
+        targetLabel: truncateAuditText(question.text),
+        summary: `Marked question as ${reviewStatus}.`,
+        before: { reviewStatus: question.reviewStatus },
+        after: { reviewStatus: nextQuestion.reviewStatus }
+      });
+
+      return nextQuestion;
     });
 
     return NextResponse.json({
@@ -16,7 +16,7 @@ const {
   generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiencyMock,
   getEmbeddingAvailabilityMock,
-  processQuestionnaireAutofillBatchMock,
+  startAutofillJobInBackgroundMock,
   getRequestContextMock,
   MockRequestContextError
 } = vi.hoisted(() => ({
@@ -25,7 +25,7 @@ const {
   generateGroundedAnswerMock: vi.fn(),
   generateLegacyEvidenceSufficiencyMock: vi.fn(),
   getEmbeddingAvailabilityMock: vi.fn(),
-  processQuestionnaireAutofillBatchMock: vi.fn(),
+  startAutofillJobInBackgroundMock: vi.fn(),
   getRequestContextMock: vi.fn(),
   MockRequestContextError: class MockRequestContextError extends Error {
     code: string;
@@ -41,6 +41,7 @@ const {
 
 vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
+  createEmbeddings: (inputs: string[]) => Promise.all(inputs.map((input) => createEmbeddingMock(input))),
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
@@ -52,8 +53,17 @@ vi.mock("@/lib/questionnaireService", async () => {
   );
   return {
     ...actual,
-    getEmbeddingAvailability: getEmbeddingAvailabilityMock,
-    processQuestionnaireAutofillBatch: processQuestionnaireAutofillBatchMock
+    getEmbeddingAvailability: getEmbeddingAvailabilityMock
+  };
+});
+
+vi.mock("@/server/autofillJobs/processAutofillJob", async () => {
+  const actual = await vi.importActual<typeof import("@/server/autofillJobs/processAutofillJob")>(
+    "@/server/autofillJobs/processAutofillJob"
+  );
+  return {
+    ...actual,
+    startAutofillJobInBackground: startAutofillJobInBackgroundMock
   };
 });
 
@@ -62,6 +72,14 @@ vi.mock("@/lib/requestContext", () => ({
   RequestContextError: MockRequestContextError
 }));
 
+vi.mock("@/server/documents/documentEmbedding", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/server/documents/documentEmbedding")>();
+  return {
+    ...actual,
+    startDocumentEmbeddingInBackground: vi.fn()
+  };
+});
+
 type TestContext = {
   userId: string;
   orgId: string;
@@ -210,7 +228,7 @@ describe.sequential("RBAC permissions matrix enforcement", () => {
     generateGroundedAnswerMock.mockReset();
     generateLegacyEvidenceSufficiencyMock.mockReset();
     getEmbeddingAvailabilityMock.mockReset();
-    processQuestionnaireAutofillBatchMock.mockReset();
+    startAutofillJobInBackgroundMock.mockReset();
     getRequestContextMock.mockReset();
 
     createEmbeddingMock.mockResolvedValue(new Array(1536).fill(0.01));
@@ -244,13 +262,6 @@ describe.sequential("RBAC permissions matrix enforcement", () => {
       embedded: 1,
       missing: 0
     });
-    processQuestionnaireAutofillBatchMock.mockResolvedValue({
-      questionnaireId: "mocked",
-      totalCount: 1,
-      answeredCount: 1,
-      foundCount: 1,
-      notFoundCount: 0
-    });
 
     const suffix = `${Date.now()}-${Math.floor(Math.random() * 100000)}`;
     const user = await prisma.user.create({
@@ -446,11 +457,9 @@ describe.sequential("RBAC permissions matrix enforcement", () => {
         }
       }
     );
-    expect(autofillResponse.status).toBe(200);
-    expect(processQuestionnaireAutofillBatchMock).toHaveBeenCalledWith({
-      organizationId: seeded.orgId,
-      questionnaireId,
-      debug: false
-    });
+    expect(autofillResponse.status).toBe(202);
+    const autofillPayload = (await autofillResponse.json()) as { job?: { id: string; status: string } };
+    expect(autofillPayload.job?.status).toBe("QUEUED");
+    expect(startAutofillJobInBackgroundMock).toHaveBeenCalledWith(autofillPayload.job?.id);
   });
 });
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { createTrustAccessRequest } from "@/server/trustPortal/publicTrustPortal";
+
+type RouteContext = {
+  params: {
+    slug: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const accessRequest = await createTrustAccessRequest({ slug: context.params.slug, body });
+
+    return NextResponse.json({ accessRequest }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to submit trust portal access request", error);
+    return toApiErrorResponse(error, "Failed to submit trust portal access request.");
+  }
+}
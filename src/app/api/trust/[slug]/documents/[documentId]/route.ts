@@ -0,0 +1,32 @@
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { downloadTrustDocument } from "@/server/trustPortal/publicTrustPortal";
+
+type RouteContext = {
+  params: {
+    slug: string;
+    documentId: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const file = await downloadTrustDocument({
+      slug: context.params.slug,
+      documentId: context.params.documentId,
+      request
+    });
+
+    return new Response(file.content, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Failed to download trust portal document", error);
+    return toApiErrorResponse(error, "Failed to download trust portal document.");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { toApiErrorResponse } from "@/lib/apiResponse";
+import { loadPublicTrustPortal } from "@/server/trustPortal/publicTrustPortal";
+
+type RouteContext = {
+  params: {
+    slug: string;
+  };
+};
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    return NextResponse.json({ portal: await loadPublicTrustPortal({ slug: context.params.slug, request }) });
+  } catch (error) {
+    console.error("Failed to load trust portal", error);
+    return toApiErrorResponse(error, "Failed to load trust portal.");
+  }
+}
@@ -1,9 +1,12 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { ApprovedAnswersLibraryTable } from "@/components/ApprovedAnswersLibraryTable";
+import { LibraryAnswerComposer } from "@/components/LibraryAnswerComposer";
 import { OperationalSummaryBand } from "@/components/OperationalSummaryBand";
+import { PendingLibraryApprovalsCard } from "@/components/PendingLibraryApprovalsCard";
 import { Card, Button, TextInput, cx } from "@/components/ui";
 import { getRequestContext, RequestContextError } from "@/lib/requestContext";
+import { listPendingLibraryApprovals } from "@/server/approvedAnswers/approvalSignOff";
 import {
   listApprovedAnswersForOrg,
   type ApprovedAnswersLibraryFreshness
@@ -99,11 +102,14 @@ export default async function ApprovedAnswersPage({
 
   assertCan(ctx.role, RbacAction.VIEW_QUESTIONNAIRES);
 
-  const library = await listApprovedAnswersForOrg(ctx, {
-    query,
-    freshness,
-    limit: 50
-  });
+  const [library, pendingLibraryApprovals] = await Promise.all([
+    listApprovedAnswersForOrg(ctx, {
+      query,
+      freshness,
+      limit: 50
+    }),
+    listPendingLibraryApprovals(ctx.orgId)
+  ]);
 
   return (
     <div className="page-stack">
@@ -197,6 +203,10 @@ export default async function ApprovedAnswersPage({
         </div>
       </Card>
 
+      <LibraryAnswerComposer />
+
+      <PendingLibraryApprovalsCard rows={pendingLibraryApprovals} />
+
       <div className="section-copy">
         <span className="section-kicker">Library entries</span>
         <h3 style={{ margin: 0 }}>Approved answers with freshness, provenance, and reuse signals</h3>
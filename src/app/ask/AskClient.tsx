@@ -5,7 +5,7 @@ import { FormEvent, useState } from "react";
 
 type AnswerPayload = {
   answer: string;
-  citations: Array<{ docName: string; chunkId: string; quotedSnippet: string }>;
+  citations: Array<{ docName: string; chunkId: string; quotedSnippet: string; location?: string }>;
   confidence: "low" | "med" | "high";
   needsReview: boolean;
   debug?: unknown;
@@ -6,6 +6,7 @@ import { CollapsibleInputSection } from "@/components/CollapsibleInputSection";
 import { OperationalSummaryBand } from "@/components/OperationalSummaryBand";
 import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
 import { can, RbacAction } from "@/server/rbac";
+import { DOCUMENT_SHAREABILITY_OPTIONS, type DocumentShareability } from "@/shared/evidenceShareability";
 
 type DocumentRow = {
   id: string;
@@ -15,9 +16,101 @@ type DocumentRow = {
   mimeType: string;
   status: string;
   errorMessage: string | null;
+  chunkingStrategy: ChunkingStrategy;
   createdAt: string;
   updatedAt: string;
   chunkCount: number;
+  embeddedChunkCount: number;
+  embeddingError: string | null;
+  embeddingNextAttemptAt: string | null;
+  currentVersion: number;
+  ownerUserId: string | null;
+  ownerEmail: string | null;
+  effectiveDate: string | null;
+  reviewByDate: string | null;
+  expiresAt: string | null;
+  classification: DocumentClassification | null;
+  shareability: DocumentShareability;
+  tags: string[];
+  isExpired: boolean;
+  isReviewDue: boolean;
+};
+
+type ChunkingStrategy = "FIXED_WINDOW" | "SEMANTIC";
+
+type DocumentClassification = "PUBLIC" | "INTERNAL" | "CONFIDENTIAL" | "RESTRICTED";
+
+const CLASSIFICATION_OPTIONS: Array<{ value: DocumentClassification; label: string }> = [
+  { value: "PUBLIC", label: "Public" },
+  { value: "INTERNAL", label: "Internal" },
+  { value: "CONFIDENTIAL", label: "Confidential" },
+  { value: "RESTRICTED", label: "Restricted" }
+];
+
+type EvidenceCollectionRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  documentIds: string[];
+  questionnaireCount: number;
+  updatedAt: string;
+};
+
+type MemberOption = {
+  userId: string;
+  email: string;
+};
+
+type MetadataDraft = {
+  ownerUserId: string;
+  effectiveDate: string;
+  reviewByDate: string;
+  expiresAt: string;
+  classification: DocumentClassification | "";
+  shareability: DocumentShareability;
+  tags: string;
+};
+
+function toDateInputValue(value: string | null): string {
+  return value ? value.slice(0, 10) : "";
+}
+
+function toMetadataDraft(document: DocumentRow): MetadataDraft {
+  return {
+    ownerUserId: document.ownerUserId ?? "",
+    effectiveDate: toDateInputValue(document.effectiveDate),
+    reviewByDate: toDateInputValue(document.reviewByDate),
+    expiresAt: toDateInputValue(document.expiresAt),
+    classification: document.classification ?? "",
+    shareability: document.shareability,
+    tags: document.tags.join(", ")
+  };
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "n/a";
+}
+
+const CHUNKING_STRATEGY_OPTIONS: Array<{ value: ChunkingStrategy; label: string }> = [
+  { value: "FIXED_WINDOW", label: "Fixed window" },
+  { value: "SEMANTIC", label: "Structure-aware" }
+];
+
+type VersionApprovedAnswerImpact = {
+  approvedAnswerId: string;
+  questionText: string;
+  changedChunkIds: string[];
+};
+
+type VersionReport = {
+  documentName: string;
+  versionNumber: number;
+  chunkCount: number;
+  reusedChunkCount: number;
+  addedChunkCount: number;
+  removedChunkCount: number;
+  affectedApprovedAnswers: VersionApprovedAnswerImpact[];
+  unaffectedApprovedAnswers: VersionApprovedAnswerImpact[];
 };
 
 type UploadResponsePayload = {
@@ -51,13 +144,20 @@ function statusBadge(status: string) {
     return "notfound";
   }
 
-  if (status === "CHUNKED") {
+  if (status === "READY") {
     return "approved";
   }
 
   return "review";
 }
 
+const EMBEDDING_POLL_INTERVAL_MS = 5_000;
+
+/** Chunked documents with a scheduled attempt are still moving through the embedding pipeline. */
+function isEmbeddingPending(document: DocumentRow): boolean {
+  return document.status === "CHUNKED" && document.embeddingNextAttemptAt !== null;
+}
+
 function messageTone(message: string): "approved" | "review" | "notfound" {
   const normalized = message.toLowerCase();
   if (normalized.includes("failed") || normalized.includes("error")) {
@@ -88,7 +188,7 @@ function extractErrorMessage(errorValue: UploadResponsePayload["error"], fallbac
   return fallback;
 }
 
-function documentTypeLabel(document: Pick<DocumentRow, "mimeType" | "originalName">): "PDF" | "MD" | "TXT" {
+function documentTypeLabel(document: Pick<DocumentRow, "mimeType" | "originalName">): "PDF" | "DOCX" | "MD" | "TXT" {
   const mimeType = document.mimeType.toLowerCase();
   const originalName = document.originalName.toLowerCase();
 
@@ -96,6 +196,10 @@ function documentTypeLabel(document: Pick<DocumentRow, "mimeType" | "originalNam
     return "PDF";
   }
 
+  if (mimeType.includes("wordprocessingml") || originalName.endsWith(".docx")) {
+    return "DOCX";
+  }
+
   if (mimeType.includes("markdown") || originalName.endsWith(".md")) {
     return "MD";
   }
@@ -108,7 +212,20 @@ export default function DocumentsPage() {
   const [documents, setDocuments] = useState<DocumentRow[]>([]);
   const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadChunkingStrategy, setUploadChunkingStrategy] = useState<ChunkingStrategy>("FIXED_WINDOW");
+  const [rechunkingDocumentId, setRechunkingDocumentId] = useState<string | null>(null);
+  const [versionTarget, setVersionTarget] = useState<DocumentRow | null>(null);
+  const [versioningDocumentId, setVersioningDocumentId] = useState<string | null>(null);
+  const [versionReport, setVersionReport] = useState<VersionReport | null>(null);
   const [showLatestOnly, setShowLatestOnly] = useState(true);
+  const [metadataTarget, setMetadataTarget] = useState<DocumentRow | null>(null);
+  const [metadataDraft, setMetadataDraft] = useState<MetadataDraft | null>(null);
+  const [isSavingMetadata, setIsSavingMetadata] = useState(false);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [collections, setCollections] = useState<EvidenceCollectionRow[]>([]);
+  const [collectionName, setCollectionName] = useState("");
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [isSavingCollection, setIsSavingCollection] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -116,6 +233,7 @@ export default function DocumentsPage() {
   const [searchText, setSearchText] = useState("");
   const [isUploadSectionExpanded, setIsUploadSectionExpanded] = useState(true);
   const uploadCollapseInitializedRef = useRef(false);
+  const versionFileInputRef = useRef<HTMLInputElement | null>(null);
 
   const visibleDocuments = useMemo(() => {
     if (!showLatestOnly) {
@@ -136,7 +254,7 @@ export default function DocumentsPage() {
     );
   }, [documents, showLatestOnly]);
 
-  const embeddedCount = visibleDocuments.filter((document) => document.status === "CHUNKED").length;
+  const embeddedCount = visibleDocuments.filter((document) => document.status === "READY").length;
   const filteredDocuments = useMemo(() => {
     const lowered = searchText.trim().toLowerCase();
     if (!lowered) {
@@ -147,15 +265,21 @@ export default function DocumentsPage() {
       return (
         document.displayName.toLowerCase().includes(lowered) ||
         document.originalName.toLowerCase().includes(lowered) ||
-        document.status.toLowerCase().includes(lowered)
+        document.status.toLowerCase().includes(lowered) ||
+        (document.ownerEmail ?? "").toLowerCase().includes(lowered) ||
+        document.tags.some((tag) => tag.includes(lowered))
       );
     });
   }, [searchText, visibleDocuments]);
   const canUploadDocuments = role ? can(role, RbacAction.UPLOAD_DOCUMENTS) : false;
   const canDeleteDocuments = role ? can(role, RbacAction.DELETE_DOCUMENTS) : false;
+  const canManageCollections = role ? can(role, RbacAction.MANAGE_EVIDENCE_COLLECTIONS) : false;
+  const canSelectDocuments = canDeleteDocuments || canManageCollections;
 
-  const fetchDocuments = useCallback(async () => {
-    setIsLoading(true);
+  const fetchDocuments = useCallback(async (options: { silent?: boolean } = {}) => {
+    if (!options.silent) {
+      setIsLoading(true);
+    }
 
     try {
       const response = await fetch("/api/documents", { cache: "no-store" });
@@ -180,10 +304,211 @@ export default function DocumentsPage() {
     }
   }, []);
 
+  const fetchCollections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/documents/collections", { cache: "no-store" });
+      const payload = (await response.json()) as {
+        collections?: EvidenceCollectionRow[];
+        error?: UploadResponsePayload["error"];
+      };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Failed to fetch evidence collections"));
+      }
+
+      setCollections(payload.collections ?? []);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to fetch evidence collections");
+    }
+  }, []);
+
   useEffect(() => {
     void fetchDocuments();
   }, [fetchDocuments, orgId]);
 
+  const hasPendingEmbeddings = documents.some(isEmbeddingPending);
+  useEffect(() => {
+    if (!hasPendingEmbeddings) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      void fetchDocuments({ silent: true });
+    }, EMBEDDING_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [fetchDocuments, hasPendingEmbeddings]);
+
+  useEffect(() => {
+    void fetchCollections();
+  }, [fetchCollections, orgId]);
+
+  useEffect(() => {
+    if (!canUploadDocuments) {
+      return;
+    }
+
+    void (async () => {
+      const response = await fetch("/api/org/members", { cache: "no-store" });
+      if (!response.ok) {
+        return;
+      }
+
+      const payload = (await response.json()) as { members?: MemberOption[] };
+      setMembers(payload.members ?? []);
+    })();
+  }, [canUploadDocuments, orgId]);
+
+  function openMetadataEditor(document: DocumentRow) {
+    setMetadataTarget(document);
+    setMetadataDraft(toMetadataDraft(document));
+  }
+
+  function closeMetadataEditor() {
+    setMetadataTarget(null);
+    setMetadataDraft(null);
+  }
+
+  async function saveMetadata(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!canUploadDocuments || !metadataTarget || !metadataDraft) {
+      return;
+    }
+
+    setIsSavingMetadata(true);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/documents/${metadataTarget.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ownerUserId: metadataDraft.ownerUserId || null,
+          effectiveDate: metadataDraft.effectiveDate || null,
+          reviewByDate: metadataDraft.reviewByDate || null,
+          expiresAt: metadataDraft.expiresAt || null,
+          classification: metadataDraft.classification || null,
+          shareability: metadataDraft.shareability,
+          tags: metadataDraft.tags.split(",")
+        })
+      });
+      const payload = (await response.json()) as { error?: UploadResponsePayload["error"] };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Failed to update document details"));
+      }
+
+      setMessage(`Updated details for ${metadataTarget.displayName}.`);
+      closeMetadataEditor();
+      await fetchDocuments();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update document details");
+    } finally {
+      setIsSavingMetadata(false);
+    }
+  }
+
+  async function createCollection(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!canManageCollections) {
+      setMessage("You do not have permission to manage evidence collections.");
+      return;
+    }
+
+    if (!collectionName.trim()) {
+      setMessage("Enter a collection name first.");
+      return;
+    }
+
+    setIsSavingCollection(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/documents/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: collectionName, documentIds: selectedDocumentIds })
+      });
+      const payload = (await response.json()) as {
+        collection?: EvidenceCollectionRow;
+        error?: UploadResponsePayload["error"];
+      };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Failed to create evidence collection"));
+      }
+
+      setMessage(
+        `Created collection ${payload.collection?.name ?? collectionName} with ${payload.collection?.documentIds.length ?? 0} document(s).`
+      );
+      setCollectionName("");
+      await fetchCollections();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to create evidence collection");
+    } finally {
+      setIsSavingCollection(false);
+    }
+  }
+
+  async function saveCollectionDocuments(collection: EvidenceCollectionRow) {
+    if (!canManageCollections) {
+      setMessage("You do not have permission to manage evidence collections.");
+      return;
+    }
+
+    setActiveCollectionId(collection.id);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/documents/collections/${collection.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documentIds: selectedDocumentIds })
+      });
+      const payload = (await response.json()) as { error?: UploadResponsePayload["error"] };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Failed to update evidence collection"));
+      }
+
+      setMessage(`Updated collection ${collection.name} to ${selectedDocumentIds.length} document(s).`);
+      await fetchCollections();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update evidence collection");
+    } finally {
+      setActiveCollectionId(null);
+    }
+  }
+
+  async function deleteCollection(collection: EvidenceCollectionRow) {
+    if (!canManageCollections) {
+      setMessage("You do not have permission to manage evidence collections.");
+      return;
+    }
+
+    if (!window.confirm(`Delete collection "${collection.name}"? Documents are kept.`)) {
+      return;
+    }
+
+    setActiveCollectionId(collection.id);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/documents/collections/${collection.id}`, { method: "DELETE" });
+      const payload = (await response.json()) as { error?: UploadResponsePayload["error"] };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Failed to delete evidence collection"));
+      }
+
+      setMessage(`Deleted collection ${collection.name}.`);
+      await fetchCollections();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to delete evidence collection");
+    } finally {
+      setActiveCollectionId(null);
+    }
+  }
+
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!canUploadDocuments) {
@@ -192,7 +517,7 @@ export default function DocumentsPage() {
     }
 
     if (!selectedFile) {
-      setMessage("Select a .txt, .md, or .pdf file first.");
+      setMessage("Select a .txt, .md, .pdf, or .docx file first.");
       return;
     }
 
@@ -202,6 +527,7 @@ export default function DocumentsPage() {
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
+      formData.append("chunkingStrategy", uploadChunkingStrategy);
 
       const response = await fetch("/api/documents/upload", {
         method: "POST",
@@ -244,6 +570,83 @@ export default function DocumentsPage() {
     }
   }
 
+  async function rechunkDocument(document: DocumentRow, chunkingStrategy: ChunkingStrategy) {
+    if (!canUploadDocuments || chunkingStrategy === document.chunkingStrategy) {
+      return;
+    }
+
+    setRechunkingDocumentId(document.id);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/rechunk`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chunkingStrategy })
+      });
+      const payload = (await response.json()) as {
+        document?: { chunkCount: number; reusedChunkCount: number };
+        error?: UploadResponsePayload["error"];
+      };
+
+      if (!response.ok) {
+        throw new Error(extractErrorMessage(payload.error, "Rechunk failed"));
+      }
+
+      setMessage(
+        `Rechunked ${document.displayName} (${payload.document?.chunkCount ?? 0} chunks, ${payload.document?.reusedChunkCount ?? 0} unchanged).`
+      );
+      await fetchDocuments();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Rechunk failed");
+    } finally {
+      setRechunkingDocumentId(null);
+    }
+  }
+
+  function chooseVersionFile(document: DocumentRow) {
+    setVersionTarget(document);
+    versionFileInputRef.current?.click();
+  }
+
+  async function uploadDocumentVersion(document: DocumentRow, file: File) {
+    if (!canUploadDocuments) {
+      return;
+    }
+
+    setVersioningDocumentId(document.id);
+    setMessage("");
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/documents/${document.id}/versions`, {
+        method: "POST",
+        body: formData
+      });
+      const payload = (await response.json()) as {
+        version?: Omit<VersionReport, "documentName">;
+        error?: UploadResponsePayload["error"];
+      };
+
+      if (!response.ok || !payload.version) {
+        throw new Error(extractErrorMessage(payload.error, "Version upload failed"));
+      }
+
+      setVersionReport({ documentName: document.displayName, ...payload.version });
+      setMessage(
+        `Uploaded version ${payload.version.versionNumber} of ${document.displayName} (${payload.version.reusedChunkCount} unchanged, ${payload.version.addedChunkCount} new, ${payload.version.removedChunkCount} removed chunks).`
+      );
+      await fetchDocuments();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Version upload failed");
+    } finally {
+      setVersioningDocumentId(null);
+      setVersionTarget(null);
+    }
+  }
+
   async function deleteDocuments(ids: string[]) {
     if (!canDeleteDocuments) {
       setMessage("You do not have permission to delete documents.");
@@ -308,7 +711,7 @@ export default function DocumentsPage() {
         kicker="Library health"
         summary={
           filteredDocuments.length > 0
-            ? `${filteredDocuments.length} evidence file${filteredDocuments.length === 1 ? "" : "s"} are visible in the current inventory view, with ${embeddedCount} already chunked and ready for grounded retrieval.`
+            ? `${filteredDocuments.length} evidence file${filteredDocuments.length === 1 ? "" : "s"} are visible in the current inventory view, with ${embeddedCount} fully embedded and ready for grounded retrieval.`
             : "Keep the evidence library clean and current so questionnaire answers stay grounded in trustworthy source material."
         }
         note="Ingestion belongs here. Review context belongs in the workbench."
@@ -336,7 +739,7 @@ export default function DocumentsPage() {
           {
             label: "Embedded",
             value: embeddedCount,
-            helper: "Chunked and ready"
+            helper: "Embedded and ready"
           },
           {
             label: "Selected",
@@ -349,7 +752,7 @@ export default function DocumentsPage() {
       <CollapsibleInputSection
         id="upload"
         title="Upload Evidence"
-        helperText="Add `.txt`, `.md`, or `.pdf` evidence files. Upload keeps chunk extraction deterministic."
+        helperText="Add `.txt`, `.md`, `.pdf`, or `.docx` evidence files. Upload keeps chunk extraction deterministic."
         expanded={isUploadSectionExpanded}
         onToggle={() => setIsUploadSectionExpanded((value) => !value)}
         badgeLabel="Ingestion"
@@ -360,7 +763,7 @@ export default function DocumentsPage() {
           <div className="surface-split">
             <div className="empty-state upload-callout">
               <h3 style={{ marginTop: 0 }}>Prefer final source packs</h3>
-              <p>Add `.txt`, `.md`, or `.pdf` files that represent the most current source of truth.</p>
+              <p>Add `.txt`, `.md`, `.pdf`, or `.docx` files that represent the most current source of truth.</p>
               <p className="small muted" style={{ marginBottom: 0 }}>
                 The cleaner this library stays, the better autofill and stale-drift review behave downstream.
               </p>
@@ -373,15 +776,31 @@ export default function DocumentsPage() {
               <TextInput
                 id="document-upload-file"
                 type="file"
-                accept=".txt,.md,.pdf,text/plain,text/markdown,application/pdf"
+                accept=".txt,.md,.pdf,.docx,text/plain,text/markdown,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
                 disabled={!canUploadDocuments}
                 onChange={(event) => {
                   const file = event.target.files?.[0] ?? null;
                   setSelectedFile(file);
                 }}
               />
+              <label className="small muted" htmlFor="document-upload-chunking" style={{ marginTop: 10, display: "block" }}>
+                Chunking
+              </label>
+              <select
+                id="document-upload-chunking"
+                className="select"
+                value={uploadChunkingStrategy}
+                onChange={(event) => setUploadChunkingStrategy(event.target.value as ChunkingStrategy)}
+                disabled={!canUploadDocuments}
+              >
+                {CHUNKING_STRATEGY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
               <p className="small muted" style={{ marginBottom: 0 }}>
-                Prefer the final source pack rather than intermediate drafts when possible.
+                Structure-aware chunking splits on headings and keeps lists and table rows intact.
               </p>
             </div>
           </div>
@@ -469,7 +888,7 @@ export default function DocumentsPage() {
         {!isLoading && documents.length === 0 && searchText.trim().length === 0 ? (
           <div className="empty-state">
             <h3 style={{ marginTop: 0 }}>No evidence documents yet</h3>
-            <p>Upload `.txt`, `.md`, or `.pdf` files to start the evidence pipeline.</p>
+            <p>Upload `.txt`, `.md`, `.pdf`, or `.docx` files to start the evidence pipeline.</p>
             <a href="#upload" className="btn btn-primary" aria-label="Jump to upload evidence section">
               Upload Evidence
             </a>
@@ -480,7 +899,7 @@ export default function DocumentsPage() {
               <thead>
                 <tr>
                   <th>
-                    {canDeleteDocuments ? (
+                    {canSelectDocuments ? (
                       <input
                         type="checkbox"
                         aria-label="Select all visible documents"
@@ -507,7 +926,9 @@ export default function DocumentsPage() {
                   <th>Original</th>
                   <th>Type</th>
                   <th>Status</th>
+                  <th>Chunking</th>
                   <th>Chunk count</th>
+                  <th>Ownership</th>
                   <th>Updated</th>
                   <th>Action</th>
                 </tr>
@@ -515,20 +936,20 @@ export default function DocumentsPage() {
               <tbody>
                 {isLoading && filteredDocuments.length === 0 ? (
                   <tr>
-                    <td colSpan={8}>Loading documents...</td>
+                    <td colSpan={10}>Loading documents...</td>
                   </tr>
                 ) : null}
 
                 {!isLoading && filteredDocuments.length === 0 ? (
                   <tr>
-                    <td colSpan={8}>No documents match the current search.</td>
+                    <td colSpan={10}>No documents match the current search.</td>
                   </tr>
                 ) : null}
 
                 {filteredDocuments.map((document) => (
                   <tr key={document.id}>
                     <td>
-                      {canDeleteDocuments ? (
+                      {canSelectDocuments ? (
                         <input
                           type="checkbox"
                           aria-label={`Select ${document.originalName}`}
@@ -549,7 +970,10 @@ export default function DocumentsPage() {
                     <td>
                       <strong>{document.displayName}</strong>
                     </td>
-                    <td className="muted">{document.originalName}</td>
+                    <td className="muted">
+                      <div>{document.originalName}</div>
+                      <div className="small">v{document.currentVersion}</div>
+                    </td>
                     <td>
                       <Badge tone="draft">{documentTypeLabel(document)}</Badge>
                     </td>
@@ -560,20 +984,223 @@ export default function DocumentsPage() {
                           {document.errorMessage}
                         </div>
                       ) : null}
+                      {document.status === "CHUNKED" ? (
+                        <div className="small muted" style={{ marginTop: 6 }}>
+                          Embedding {document.embeddedChunkCount}/{document.chunkCount} chunks
+                        </div>
+                      ) : null}
+                      {document.status === "CHUNKED" && document.embeddingError ? (
+                        <div className="small status-notfound" style={{ marginTop: 6 }}>
+                          {document.embeddingError}{" "}
+                          {document.embeddingNextAttemptAt
+                            ? `Retrying after ${new Date(document.embeddingNextAttemptAt).toLocaleTimeString()}.`
+                            : "Retries exhausted."}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td>
+                      {canUploadDocuments ? (
+                        <select
+                          className="select"
+                          value={document.chunkingStrategy}
+                          onChange={(event) =>
+                            void rechunkDocument(document, event.target.value as ChunkingStrategy)
+                          }
+                          disabled={rechunkingDocumentId !== null}
+                          aria-label={`Chunking for ${document.displayName}`}
+                        >
+                          {CHUNKING_STRATEGY_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="small muted">
+                          {CHUNKING_STRATEGY_OPTIONS.find((option) => option.value === document.chunkingStrategy)?.label}
+                        </span>
+                      )}
                     </td>
                     <td>{document.chunkCount}</td>
+                    <td>
+                      <div>{document.ownerEmail ?? <span className="muted">No owner</span>}</div>
+                      <div className="toolbar-row compact" style={{ marginTop: 4 }}>
+                        {document.classification ? (
+                          <Badge tone="draft">
+                            {CLASSIFICATION_OPTIONS.find((option) => option.value === document.classification)?.label}
+                          </Badge>
+                        ) : null}
+                        {document.shareability === "INTERNAL_ONLY" ? (
+                          <span className="badge status-notfound">Internal only</span>
+                        ) : document.shareability === "PUBLIC" ? (
+                          <Badge tone="approved">Public</Badge>
+                        ) : null}
+                        {document.isExpired ? (
+                          <span className="badge status-notfound">Expired</span>
+                        ) : document.isReviewDue ? (
+                          <Badge tone="review">Review due</Badge>
+                        ) : null}
+                      </div>
+                      {document.expiresAt || document.reviewByDate ? (
+                        <div className="small muted" style={{ marginTop: 4 }}>
+                          {document.reviewByDate ? `Review by ${formatDate(document.reviewByDate)}` : null}
+                          {document.reviewByDate && document.expiresAt ? " · " : null}
+                          {document.expiresAt ? `Expires ${formatDate(document.expiresAt)}` : null}
+                        </div>
+                      ) : null}
+                      {document.tags.length > 0 ? (
+                        <div className="small muted" style={{ marginTop: 4 }}>
+                          {document.tags.map((tag) => `#${tag}`).join(" ")}
+                        </div>
+                      ) : null}
+                    </td>
                     <td className="muted">{new Date(document.updatedAt).toLocaleString()}</td>
                     <td>
-                      {canDeleteDocuments ? (
-                        <Button
-                          type="button"
-                          variant="danger"
-                          onClick={() => void deleteDocuments([document.id])}
-                          disabled={isDeleting}
-                          aria-label={`Delete document ${document.displayName}`}
-                        >
-                          Delete
-                        </Button>
+                      {canUploadDocuments || canDeleteDocuments ? (
+                        <div className="toolbar-row compact">
+                          {canUploadDocuments ? (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              onClick={() => openMetadataEditor(document)}
+                              aria-label={`Edit details of ${document.displayName}`}
+                            >
+                              Details
+                            </Button>
+                          ) : null}
+                          {canUploadDocuments ? (
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              onClick={() => chooseVersionFile(document)}
+                              disabled={versioningDocumentId !== null}
+                              aria-label={`Upload new version of ${document.displayName}`}
+                            >
+                              {versioningDocumentId === document.id ? "Uploading..." : "New version"}
+                            </Button>
+                          ) : null}
+                          {canDeleteDocuments ? (
+                            <Button
+                              type="button"
+                              variant="danger"
+                              onClick={() => void deleteDocuments([document.id])}
+                              disabled={isDeleting}
+                              aria-label={`Delete document ${document.displayName}`}
+                            >
+                              Delete
+                            </Button>
+                          ) : null}
+                        </div>
+                      ) : (
+                        <span className="small muted">View only</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <input
+          ref={versionFileInputRef}
+          type="file"
+          hidden
+          accept=".txt,.md,.pdf,.docx,text/plain,text/markdown,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          onChange={(event) => {
+            const file = event.target.files?.[0] ?? null;
+            event.target.value = "";
+            if (file && versionTarget) {
+              void uploadDocumentVersion(versionTarget, file);
+            }
+          }}
+        />
+      </Card>
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Collections</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>Evidence collections</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                Group documents by product or customer, then scope a questionnaire to a collection so autofill only
+                cites its documents.
+              </p>
+            </div>
+          </div>
+          {canManageCollections ? (
+            <form onSubmit={createCollection} className="toolbar-row compact">
+              <TextInput
+                aria-label="Collection name"
+                value={collectionName}
+                onChange={(event) => setCollectionName(event.target.value)}
+                placeholder="Product A evidence"
+              />
+              <Button type="submit" variant="secondary" disabled={isSavingCollection || !collectionName.trim()}>
+                {isSavingCollection ? "Creating..." : `Create from selected (${selectedDocumentIds.length})`}
+              </Button>
+            </form>
+          ) : null}
+        </div>
+
+        {collections.length === 0 ? (
+          <p className="small muted" style={{ margin: 0 }}>
+            No collections yet. Questionnaires without a collection use every document.
+          </p>
+        ) : (
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Documents</th>
+                  <th>Questionnaires</th>
+                  <th>Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {collections.map((collection) => (
+                  <tr key={collection.id}>
+                    <td>
+                      {collection.name}
+                      {collection.description ? (
+                        <div className="small muted">{collection.description}</div>
+                      ) : null}
+                    </td>
+                    <td>{collection.documentIds.length}</td>
+                    <td>{collection.questionnaireCount}</td>
+                    <td>
+                      {canManageCollections ? (
+                        <div className="toolbar-row compact">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => setSelectedDocumentIds(collection.documentIds)}
+                          >
+                            Select documents
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            onClick={() => void saveCollectionDocuments(collection)}
+                            disabled={activeCollectionId === collection.id}
+                          >
+                            Save selection ({selectedDocumentIds.length})
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="danger"
+                            onClick={() => void deleteCollection(collection)}
+                            disabled={activeCollectionId === collection.id || collection.questionnaireCount > 0}
+                            title={
+                              collection.questionnaireCount > 0
+                                ? "Rescope its questionnaires before deleting this collection."
+                                : undefined
+                            }
+                          >
+                            Delete
+                          </Button>
+                        </div>
                       ) : (
                         <span className="small muted">View only</span>
                       )}
@@ -585,6 +1212,188 @@ export default function DocumentsPage() {
           </div>
         )}
       </Card>
+
+      {metadataTarget && metadataDraft ? (
+        <Card className="section-shell">
+          <form onSubmit={saveMetadata} className="page-stack">
+            <div className="card-title-row">
+              <div className="section-copy">
+                <span className="section-kicker">Document details</span>
+                <div>
+                  <h2 style={{ marginBottom: 4 }}>{metadataTarget.displayName}</h2>
+                  <p className="muted" style={{ margin: 0 }}>
+                    Expired documents are excluded from retrieval, and approvals citing them return to the trust queue.
+                    Exports withhold quoted text from internal-only documents.
+                  </p>
+                </div>
+              </div>
+              <Button type="button" variant="ghost" onClick={closeMetadataEditor}>
+                Cancel
+              </Button>
+            </div>
+
+            <div className="surface-split">
+              <div className="card card-muted intake-panel">
+                <label className="small muted" htmlFor="document-owner">
+                  Owner
+                </label>
+                <select
+                  id="document-owner"
+                  className="select"
+                  value={metadataDraft.ownerUserId}
+                  onChange={(event) => setMetadataDraft({ ...metadataDraft, ownerUserId: event.target.value })}
+                >
+                  <option value="">No owner</option>
+                  {members.map((member) => (
+                    <option key={member.userId} value={member.userId}>
+                      {member.email || member.userId}
+                    </option>
+                  ))}
+                </select>
+                <label className="small muted" htmlFor="document-classification" style={{ marginTop: 10, display: "block" }}>
+                  Classification
+                </label>
+                <select
+                  id="document-classification"
+                  className="select"
+                  value={metadataDraft.classification}
+                  onChange={(event) =>
+                    setMetadataDraft({
+                      ...metadataDraft,
+                      classification: event.target.value as MetadataDraft["classification"]
+                    })
+                  }
+                >
+                  <option value="">Unclassified</option>
+                  {CLASSIFICATION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="small muted" htmlFor="document-shareability" style={{ marginTop: 10, display: "block" }}>
+                  Shareability
+                </label>
+                <select
+                  id="document-shareability"
+                  className="select"
+                  value={metadataDraft.shareability}
+                  onChange={(event) =>
+                    setMetadataDraft({
+                      ...metadataDraft,
+                      shareability: event.target.value as DocumentShareability
+                    })
+                  }
+                >
+                  {DOCUMENT_SHAREABILITY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="small muted" htmlFor="document-tags" style={{ marginTop: 10, display: "block" }}>
+                  Tags
+                </label>
+                <TextInput
+                  id="document-tags"
+                  value={metadataDraft.tags}
+                  onChange={(event) => setMetadataDraft({ ...metadataDraft, tags: event.target.value })}
+                  placeholder="soc2, encryption"
+                />
+              </div>
+
+              <div className="card card-muted intake-panel">
+                <label className="small muted" htmlFor="document-effective-date">
+                  Effective date
+                </label>
+                <TextInput
+                  id="document-effective-date"
+                  type="date"
+                  value={metadataDraft.effectiveDate}
+                  onChange={(event) => setMetadataDraft({ ...metadataDraft, effectiveDate: event.target.value })}
+                />
+                <label className="small muted" htmlFor="document-review-by" style={{ marginTop: 10, display: "block" }}>
+                  Review by
+                </label>
+                <TextInput
+                  id="document-review-by"
+                  type="date"
+                  value={metadataDraft.reviewByDate}
+                  onChange={(event) => setMetadataDraft({ ...metadataDraft, reviewByDate: event.target.value })}
+                />
+                <label className="small muted" htmlFor="document-expires-at" style={{ marginTop: 10, display: "block" }}>
+                  Expires
+                </label>
+                <TextInput
+                  id="document-expires-at"
+                  type="date"
+                  value={metadataDraft.expiresAt}
+                  onChange={(event) => setMetadataDraft({ ...metadataDraft, expiresAt: event.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="toolbar-row">
+              <Button type="submit" variant="primary" disabled={isSavingMetadata}>
+                {isSavingMetadata ? "Saving..." : "Save details"}
+              </Button>
+            </div>
+          </form>
+        </Card>
+      ) : null}
+
+      {versionReport ? (
+        <Card className="section-shell">
+          <div className="card-title-row">
+            <div className="section-copy">
+              <span className="section-kicker">Version diff</span>
+              <div>
+                <h2 style={{ marginBottom: 4 }}>
+                  {versionReport.documentName} v{versionReport.versionNumber}
+                </h2>
+                <p className="muted" style={{ margin: 0 }}>
+                  {versionReport.reusedChunkCount} of {versionReport.chunkCount} chunks unchanged,{" "}
+                  {versionReport.addedChunkCount} new, {versionReport.removedChunkCount} removed.
+                </p>
+              </div>
+            </div>
+            <Button type="button" variant="ghost" onClick={() => setVersionReport(null)}>
+              Dismiss
+            </Button>
+          </div>
+
+          <h3 style={{ marginBottom: 4 }}>
+            Affected approvals <Badge tone="review">{versionReport.affectedApprovedAnswers.length}</Badge>
+          </h3>
+          {versionReport.affectedApprovedAnswers.length === 0 ? (
+            <p className="small muted">No approved answers cite a changed passage.</p>
+          ) : (
+            <ul>
+              {versionReport.affectedApprovedAnswers.map((impact) => (
+                <li key={impact.approvedAnswerId}>
+                  {impact.questionText}{" "}
+                  <span className="small muted">
+                    ({impact.changedChunkIds.length} cited chunk{impact.changedChunkIds.length === 1 ? "" : "s"} changed)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h3 style={{ marginBottom: 4 }}>
+            Untouched approvals <Badge tone="approved">{versionReport.unaffectedApprovedAnswers.length}</Badge>
+          </h3>
+          {versionReport.unaffectedApprovedAnswers.length === 0 ? (
+            <p className="small muted">No other approved answers cite this document.</p>
+          ) : (
+            <ul>
+              {versionReport.unaffectedApprovedAnswers.map((impact) => (
+                <li key={impact.approvedAnswerId}>{impact.questionText}</li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      ) : null}
     </div>
   );
 }
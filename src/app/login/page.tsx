@@ -27,9 +27,11 @@ export default function LoginPage() {
       const errorMessage =
         authErrorCode === "Verification"
           ? "Magic link is invalid or already used. Request a new sign-in link."
-          : authErrorCode === "AccessDenied"
-            ? "Sign-in was denied. Check server logs for auth diagnostics."
-            : `Sign-in failed (${authErrorCode}). Check server logs for details.`;
+          : authErrorCode === "SsoRequired"
+            ? "Your organization requires single sign-on. Enter your email again to continue with your identity provider."
+            : authErrorCode === "AccessDenied"
+              ? "Sign-in was denied. Check server logs for auth diagnostics."
+              : `Sign-in failed (${authErrorCode}). Check server logs for details.`;
       setAuthError(errorMessage);
     }
   }, []);
@@ -55,6 +57,18 @@ export default function LoginPage() {
     setSuccess("");
 
     try {
+      const discovery = await fetch("/api/auth/sso/discover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: normalizedEmail })
+      });
+      const ssoRoute = discovery.ok ? ((await discovery.json()) as { providerId?: string | null }) : null;
+      if (ssoRoute?.providerId) {
+        setSuccess("Redirecting to your identity provider...");
+        await signIn(ssoRoute.providerId, { callbackUrl });
+        return;
+      }
+
       const response = await signIn("email", {
         email: normalizedEmail,
         callbackUrl,
@@ -93,7 +107,8 @@ export default function LoginPage() {
         <div className="auth-card-header">
           <h2 style={{ marginBottom: 6 }}>Magic link sign-in</h2>
           <p className="muted" style={{ marginTop: 0 }}>
-            Enter your email to receive a secure sign-in link.
+            Enter your email to receive a secure sign-in link. Organizations with single sign-on continue to their
+            identity provider.
           </p>
         </div>
 
@@ -108,7 +123,7 @@ export default function LoginPage() {
             required
           />
           <Button type="submit" variant="primary" disabled={isSubmitting}>
-            {isSubmitting ? "Sending..." : "Send sign-in link"}
+            {isSubmitting ? "Signing in..." : "Continue"}
           </Button>
         </form>
 
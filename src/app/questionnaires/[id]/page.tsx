@@ -5,6 +5,7 @@ import { assertCan, RbacAction } from "@/server/rbac";
 import { getTrustQueueSessionForOrg } from "@/server/trustQueue/getTrustQueueSession";
 import {
   buildTrustQueueSessionHref,
+  isAssignedToMeParam,
   normalizeTrustQueueSessionFilterParam
 } from "@/shared/trustQueueSessionLinks";
 
@@ -17,6 +18,7 @@ type QuestionnairePageSearchParams = {
   source?: string | string[];
   queueFilter?: string | string[];
   queueQuery?: string | string[];
+  queueAssignee?: string | string[];
 };
 
 function readSearchParam(value: string | string[] | undefined): string {
@@ -43,6 +45,7 @@ async function resolveTrustQueueReviewSession(params: {
 
   const queueFilter = normalizeTrustQueueSessionFilterParam(readSearchParam(params.searchParams.queueFilter));
   const queueQuery = readSearchParam(params.searchParams.queueQuery).trim();
+  const queueAssignedToMe = isAssignedToMeParam(readSearchParam(params.searchParams.queueAssignee));
 
   try {
     const ctx = await getRequestContext();
@@ -51,6 +54,7 @@ async function resolveTrustQueueReviewSession(params: {
     const session = await getTrustQueueSessionForOrg(ctx, {
       query: queueQuery,
       filter: queueFilter,
+      assignedToMe: queueAssignedToMe,
       currentItemId
     });
 
@@ -66,7 +70,8 @@ async function resolveTrustQueueReviewSession(params: {
             itemId: session.next.itemId,
             rowFilter: session.next.rowFilter,
             queueFilter,
-            queueQuery
+            queueQuery,
+            queueAssignedToMe
           })
         : null
     };
@@ -5,10 +5,16 @@ import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "re
 import { useRouter } from "next/navigation";
 import { useAppAuthz } from "@/components/AppAuthzContext";
 import { CollapsibleInputSection } from "@/components/CollapsibleInputSection";
+import { ExportColumnMappingFields } from "@/components/ExportColumnMappingFields";
 import { ExportModal } from "@/components/ExportModal";
 import { OperationalSummaryBand } from "@/components/OperationalSummaryBand";
 import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
 import { can, RbacAction } from "@/server/rbac";
+import {
+  EMPTY_EXPORT_COLUMN_MAPPING,
+  suggestExportColumnMapping,
+  type ExportColumnMapping
+} from "@/shared/exportColumns";
 
 type PreviewRow = Record<string, string>;
 
@@ -16,6 +22,9 @@ type QuestionnaireRow = {
   id: string;
   name: string;
   sourceFileName: string | null;
+  sourceFormat: "CSV" | "XLSX";
+  sourceHeaders: string[];
+  exportColumns: ExportColumnMapping;
   createdAt: string;
   updatedAt: string;
   questionCount: number;
@@ -23,17 +32,18 @@ type QuestionnaireRow = {
   notFoundCount: number;
 };
 
-type AutofillResult = {
-  questionnaireId: string;
-  totalCount: number;
-  answeredCount: number;
-  foundCount: number;
-  notFoundCount: number;
-  error?: unknown;
+type EvidenceCollectionOption = {
+  id: string;
+  name: string;
+  documentIds: string[];
 };
 
-type EmbedResult = {
-  embeddedCount?: number;
+type AutofillJobResult = {
+  job?: {
+    id: string;
+    status: string;
+    totalCount: number;
+  };
   error?: unknown;
 };
 
@@ -88,7 +98,13 @@ export default function QuestionnairesPage() {
   const [headers, setHeaders] = useState<string[]>([]);
   const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
   const [questionColumn, setQuestionColumn] = useState("");
+  const [exportColumns, setExportColumns] = useState<ExportColumnMapping>(EMPTY_EXPORT_COLUMN_MAPPING);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState("");
   const [name, setName] = useState("");
+  const [evidenceCollections, setEvidenceCollections] = useState<EvidenceCollectionOption[]>([]);
+  const [evidenceCollectionId, setEvidenceCollectionId] = useState("");
   const [message, setMessage] = useState("");
   const [isLoadingList, setIsLoadingList] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
@@ -96,7 +112,7 @@ export default function QuestionnairesPage() {
   const [activeAutofillId, setActiveAutofillId] = useState<string | null>(null);
   const [activeDeleteId, setActiveDeleteId] = useState<string | null>(null);
   const [searchText, setSearchText] = useState("");
-  const [exportTarget, setExportTarget] = useState<{ id: string; name: string } | null>(null);
+  const [exportTarget, setExportTarget] = useState<QuestionnaireRow | null>(null);
   const [isImportSectionExpanded, setIsImportSectionExpanded] = useState(true);
   const importCollapseInitializedRef = useRef(false);
 
@@ -172,27 +188,39 @@ export default function QuestionnairesPage() {
     void fetchQuestionnaires();
   }, [fetchQuestionnaires, orgId]);
 
-  async function handleFileSelect(file: File | null) {
-    if (!canImportQuestionnaires) {
-      setMessage("You do not have permission to import questionnaires.");
-      return;
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchEvidenceCollections() {
+      try {
+        const response = await fetch("/api/documents/collections", { cache: "no-store" });
+        const payload = (await response.json()) as { collections?: EvidenceCollectionOption[] };
+        if (!cancelled && response.ok) {
+          setEvidenceCollections(payload.collections ?? []);
+        }
+      } catch {
+        // The scope picker falls back to "All documents" when collections cannot be loaded.
+      }
     }
 
-    setSelectedFile(file);
-    setHeaders([]);
-    setPreviewRows([]);
-    setQuestionColumn("");
-    setMessage("");
-
-    if (!file) {
-      return;
-    }
+    void fetchEvidenceCollections();
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
 
+  async function loadPreview(file: File, options: { sheetName?: string; headerRow?: string } = {}) {
     setIsParsing(true);
 
     try {
       const formData = new FormData();
       formData.append("file", file);
+      if (options.sheetName) {
+        formData.append("sheetName", options.sheetName);
+      }
+      if (options.headerRow) {
+        formData.append("headerRow", options.headerRow);
+      }
 
       const response = await fetch("/api/questionnaires/headers", {
         method: "POST",
@@ -204,24 +232,65 @@ export default function QuestionnairesPage() {
         rowCount?: number;
         previewRows?: PreviewRow[];
         suggestedQuestionColumn?: string;
-        error?: string;
+        sheetNames?: string[];
+        sheetName?: string;
+        headerRowNumber?: number;
+        error?: string | { message?: string };
       };
 
       if (!response.ok) {
-        throw new Error(payload.error ?? "Failed to parse CSV");
+        throw new Error(
+          typeof payload.error === "string" ? payload.error : payload.error?.message ?? "Failed to parse file"
+        );
       }
 
+      const nextQuestionColumn = payload.suggestedQuestionColumn ?? payload.headers?.[0] ?? "";
       setHeaders(payload.headers ?? []);
       setPreviewRows(payload.previewRows ?? []);
-      setQuestionColumn(payload.suggestedQuestionColumn ?? payload.headers?.[0] ?? "");
-      setMessage(`Parsed ${payload.rowCount ?? 0} rows`);
+      setQuestionColumn(nextQuestionColumn);
+      setExportColumns(suggestExportColumnMapping(payload.headers ?? [], nextQuestionColumn));
+      setSheetNames(payload.sheetNames ?? []);
+      setSheetName(payload.sheetName ?? "");
+      setHeaderRow(payload.headerRowNumber ? String(payload.headerRowNumber) : "");
+      setMessage(
+        payload.sheetName
+          ? `Parsed ${payload.rowCount ?? 0} rows from "${payload.sheetName}" (headers on row ${payload.headerRowNumber})`
+          : `Parsed ${payload.rowCount ?? 0} rows`
+      );
     } catch (error) {
-      setMessage(error instanceof Error ? error.message : "Failed to parse CSV");
+      setHeaders([]);
+      setPreviewRows([]);
+      setQuestionColumn("");
+      setExportColumns(EMPTY_EXPORT_COLUMN_MAPPING);
+      setMessage(error instanceof Error ? error.message : "Failed to parse file");
     } finally {
       setIsParsing(false);
     }
   }
 
+  async function handleFileSelect(file: File | null) {
+    if (!canImportQuestionnaires) {
+      setMessage("You do not have permission to import questionnaires.");
+      return;
+    }
+
+    setSelectedFile(file);
+    setHeaders([]);
+    setPreviewRows([]);
+    setQuestionColumn("");
+    setExportColumns(EMPTY_EXPORT_COLUMN_MAPPING);
+    setSheetNames([]);
+    setSheetName("");
+    setHeaderRow("");
+    setMessage("");
+
+    if (!file) {
+      return;
+    }
+
+    await loadPreview(file);
+  }
+
   async function handleImport(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!canImportQuestionnaires) {
@@ -230,7 +299,7 @@ export default function QuestionnairesPage() {
     }
 
     if (!selectedFile) {
-      setMessage("Select a CSV file first.");
+      setMessage("Select a CSV or XLSX file first.");
       return;
     }
 
@@ -247,6 +316,16 @@ export default function QuestionnairesPage() {
       formData.append("file", selectedFile);
       formData.append("questionColumn", questionColumn);
       formData.append("name", name);
+      formData.append("answerColumn", exportColumns.answerColumn ?? "");
+      formData.append("yesNoColumn", exportColumns.yesNoColumn ?? "");
+      formData.append("citationsColumn", exportColumns.citationsColumn ?? "");
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+        formData.append("headerRow", headerRow);
+      }
+      if (evidenceCollectionId) {
+        formData.append("evidenceCollectionId", evidenceCollectionId);
+      }
 
       const response = await fetch("/api/questionnaires/import", {
         method: "POST",
@@ -269,7 +348,12 @@ export default function QuestionnairesPage() {
       setHeaders([]);
       setPreviewRows([]);
       setQuestionColumn("");
+      setExportColumns(EMPTY_EXPORT_COLUMN_MAPPING);
+      setSheetNames([]);
+      setSheetName("");
+      setHeaderRow("");
       setName("");
+      setEvidenceCollectionId("");
 
       await fetchQuestionnaires();
     } catch (error) {
@@ -289,31 +373,18 @@ export default function QuestionnairesPage() {
     setMessage("");
 
     try {
-      const embedResponse = await fetch("/api/documents/embed", {
-        method: "POST"
-      });
-      const embedPayload = (await embedResponse.json().catch(() => ({}))) as EmbedResult;
-      if (!embedResponse.ok) {
-        throw new Error(
-          `Embedding step failed: ${getApiErrorMessage(embedPayload, "Failed to embed document chunks.")}`
-        );
-      }
-
       const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill`, {
         method: "POST"
       });
 
-      const payload = (await response.json()) as AutofillResult;
+      const payload = (await response.json()) as AutofillJobResult;
 
-      if (!response.ok) {
+      if (!response.ok || !payload.job) {
         throw new Error(getApiErrorMessage(payload, "Autofill failed"));
       }
 
-      const embeddedCount = Number(embedPayload.embeddedCount ?? 0);
-      const embeddingPrefix =
-        embeddedCount > 0 ? `Embedded ${embeddedCount} pending chunk${embeddedCount === 1 ? "" : "s"}. ` : "";
       setMessage(
-        `${embeddingPrefix}Autofill complete: ${payload.answeredCount}/${payload.totalCount} answered, ${payload.notFoundCount} not found.`
+        `Autofill started for ${payload.job.totalCount} question${payload.job.totalCount === 1 ? "" : "s"}. Open the questionnaire to follow progress.`
       );
       await fetchQuestionnaires();
     } catch (error) {
@@ -417,13 +488,13 @@ export default function QuestionnairesPage() {
       <CollapsibleInputSection
         id="import"
         title="Import new questionnaire"
-        helperText="Upload a CSV, map the question column, and stage a new review run."
+        helperText="Upload a CSV or Excel workbook, map the question column, and stage a new review run."
         className={cx("questionnaire-import-section", hasQuestionnaires && "repeat-mode")}
         expanded={isImportSectionExpanded}
         onToggle={() => setIsImportSectionExpanded((value) => !value)}
-        badgeLabel="CSV workflow"
+        badgeLabel="CSV / XLSX"
         badgeTone="draft"
-        badgeTitle="CSV only"
+        badgeTitle="CSV and Excel workbooks"
         expandLabel="Expand"
         collapseLabel="Collapse"
       >
@@ -431,13 +502,13 @@ export default function QuestionnairesPage() {
           <div className="two-col form-grid-two">
             <div className="card card-muted intake-panel">
               <label className="small muted" htmlFor="questionnaire-file">
-                CSV file
+                Questionnaire file
               </label>
               <input
                 id="questionnaire-file"
                 className="input"
                 type="file"
-                accept=".csv,text/csv"
+                accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                 disabled={!canImportQuestionnaires}
                 onChange={(event) => {
                   const file = event.target.files?.[0] ?? null;
@@ -445,8 +516,44 @@ export default function QuestionnairesPage() {
                 }}
               />
               <p className="muted small" style={{ marginBottom: 0 }}>
-                We auto-suggest a question column after parsing.
+                We auto-suggest a question column after parsing. For workbooks, we also detect the header row.
               </p>
+              {sheetNames.length > 0 && selectedFile ? (
+                <div className="form-grid-two" style={{ marginTop: 10 }}>
+                  <div>
+                    <label className="small muted" htmlFor="questionnaire-sheet">
+                      Sheet
+                    </label>
+                    <select
+                      id="questionnaire-sheet"
+                      className="select"
+                      value={sheetName}
+                      onChange={(event) => void loadPreview(selectedFile, { sheetName: event.target.value })}
+                      disabled={isParsing || !canImportQuestionnaires}
+                    >
+                      {sheetNames.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="small muted" htmlFor="questionnaire-header-row">
+                      Header row
+                    </label>
+                    <TextInput
+                      id="questionnaire-header-row"
+                      type="number"
+                      min={1}
+                      value={headerRow}
+                      onChange={(event) => setHeaderRow(event.target.value)}
+                      onBlur={() => void loadPreview(selectedFile, { sheetName, headerRow })}
+                      disabled={isParsing || !canImportQuestionnaires}
+                    />
+                  </div>
+                </div>
+              ) : null}
             </div>
 
             <div className="card card-muted intake-panel">
@@ -457,7 +564,15 @@ export default function QuestionnairesPage() {
                 id="question-column"
                 className="select"
                 value={questionColumn}
-                onChange={(event) => setQuestionColumn(event.target.value)}
+                onChange={(event) => {
+                  const nextQuestionColumn = event.target.value;
+                  setQuestionColumn(nextQuestionColumn);
+                  setExportColumns((current) => ({
+                    answerColumn: current.answerColumn === nextQuestionColumn ? null : current.answerColumn,
+                    yesNoColumn: current.yesNoColumn === nextQuestionColumn ? null : current.yesNoColumn,
+                    citationsColumn: current.citationsColumn === nextQuestionColumn ? null : current.citationsColumn
+                  }));
+                }}
                 disabled={headers.length === 0 || !canImportQuestionnaires}
               >
                 <option value="">Select column</option>
@@ -467,6 +582,14 @@ export default function QuestionnairesPage() {
                   </option>
                 ))}
               </select>
+              <ExportColumnMappingFields
+                idPrefix="import-export-columns"
+                headers={headers}
+                questionColumn={questionColumn || null}
+                value={exportColumns}
+                onChange={setExportColumns}
+                disabled={!canImportQuestionnaires}
+              />
               <label className="small muted" htmlFor="questionnaire-name" style={{ marginTop: 10, display: "block" }}>
                 Questionnaire name (optional)
               </label>
@@ -477,6 +600,23 @@ export default function QuestionnairesPage() {
                 placeholder="Quarterly vendor review"
                 disabled={!canImportQuestionnaires}
               />
+              <label className="small muted" htmlFor="questionnaire-evidence-scope" style={{ marginTop: 10, display: "block" }}>
+                Evidence scope
+              </label>
+              <select
+                id="questionnaire-evidence-scope"
+                className="select"
+                value={evidenceCollectionId}
+                onChange={(event) => setEvidenceCollectionId(event.target.value)}
+                disabled={!canImportQuestionnaires}
+              >
+                <option value="">All documents</option>
+                {evidenceCollections.map((collection) => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name} ({collection.documentIds.length} docs)
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
 
@@ -648,7 +788,7 @@ export default function QuestionnairesPage() {
                               !canRunAutofill
                             }
                           >
-                            {activeAutofillId === questionnaire.id ? "Running..." : "Run Autofill"}
+                            {activeAutofillId === questionnaire.id ? "Starting..." : "Run Autofill"}
                           </Button>
                         </div>
                         <details className="row-actions-menu">
@@ -663,7 +803,7 @@ export default function QuestionnairesPage() {
                             <button
                               type="button"
                               className="row-actions-item"
-                              onClick={() => setExportTarget({ id: questionnaire.id, name: questionnaire.name })}
+                              onClick={() => setExportTarget(questionnaire)}
                               disabled={
                                 activeAutofillId === questionnaire.id ||
                                 activeDeleteId === questionnaire.id ||
@@ -700,6 +840,18 @@ export default function QuestionnairesPage() {
         isOpen={Boolean(exportTarget) && canExportQuestionnaires}
         questionnaireId={exportTarget?.id ?? null}
         questionnaireName={exportTarget?.name ?? "questionnaire"}
+        sourceFormat={exportTarget?.sourceFormat}
+        sourceHeaders={exportTarget?.sourceHeaders}
+        exportColumns={exportTarget?.exportColumns}
+        canEditExportColumns={canImportQuestionnaires}
+        onExportColumnsSaved={(nextExportColumns) => {
+          const targetId = exportTarget?.id;
+          setQuestionnaires((current) =>
+            current.map((questionnaire) =>
+              questionnaire.id === targetId ? { ...questionnaire, exportColumns: nextExportColumns } : questionnaire
+            )
+          );
+        }}
         onClose={() => setExportTarget(null)}
         onSuccess={(nextMessage) => setMessage(nextMessage)}
         onError={(nextMessage) => setMessage(nextMessage)}
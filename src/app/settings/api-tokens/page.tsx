@@ -0,0 +1,303 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import type { ApiTokenRow } from "@/server/apiTokens/apiTokens";
+import { can, isRoleAtLeast, RbacAction, type Role } from "@/server/rbac";
+
+type ApiTokensResponse = {
+  tokens?: ApiTokenRow[];
+  error?: {
+    message?: string;
+  };
+};
+
+type TokenDraft = {
+  name: string;
+  kind: ApiTokenRow["kind"];
+  maxRole: Role | "";
+  expiresInDays: string;
+};
+
+const ROLE_OPTIONS: Role[] = ["VIEWER", "REVIEWER", "ADMIN", "OWNER"];
+
+const EMPTY_DRAFT: TokenDraft = {
+  name: "",
+  kind: "PERSONAL",
+  maxRole: "",
+  expiresInDays: "90"
+};
+
+function formatTimestamp(value: string | null): string {
+  if (!value) {
+    return "-";
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "-" : parsed.toLocaleString();
+}
+
+function tokenStatus(token: ApiTokenRow): { label: string; tone: "approved" | "review" | "draft" } {
+  if (token.revokedAt) {
+    return { label: "Revoked", tone: "draft" };
+  }
+
+  return Date.parse(token.expiresAt) <= Date.now()
+    ? { label: "Expired", tone: "review" }
+    : { label: "Active", tone: "approved" };
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+export default function ApiTokenSettingsPage() {
+  const { loading: authzLoading, role, userEmail } = useAppAuthz();
+  const [tokens, setTokens] = useState<ApiTokenRow[]>([]);
+  const [draft, setDraft] = useState<TokenDraft>(EMPTY_DRAFT);
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const canCreateTokens = role ? can(role, RbacAction.CREATE_API_TOKENS) : false;
+  const canManageTokens = role ? can(role, RbacAction.MANAGE_API_TOKENS) : false;
+  const roleOptions = ROLE_OPTIONS.filter((option) => (role ? isRoleAtLeast(role, option) : false));
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/org/api-tokens", { cache: "no-store" });
+      const payload = (await response.json()) as ApiTokensResponse;
+      if (!response.ok) {
+        throw new Error(payload.error?.message ?? "Failed to load API tokens.");
+      }
+
+      setTokens(Array.isArray(payload.tokens) ? payload.tokens : []);
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to load API tokens." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authzLoading && canCreateTokens) {
+      void loadTokens();
+      return;
+    }
+
+    if (!authzLoading) {
+      setIsLoading(false);
+    }
+  }, [authzLoading, canCreateTokens, loadTokens]);
+
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+    setRevealedToken(null);
+
+    try {
+      const response = await fetch("/api/org/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          kind: draft.kind,
+          maxRole: draft.maxRole || role,
+          expiresInDays: Number(draft.expiresInDays)
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to create API token."));
+      }
+
+      const payload = (await response.json()) as { token?: string };
+      setRevealedToken(payload.token ?? null);
+      setDraft(EMPTY_DRAFT);
+      setMessage({ tone: "success", text: "API token created. Copy it now; it is not shown again." });
+      await loadTokens();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to create API token." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function revokeToken(token: ApiTokenRow) {
+    if (!window.confirm(`Revoke API token ${token.name}? Scripts using it stop working immediately.`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/org/api-tokens/${token.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to revoke API token."));
+      }
+
+      setMessage({ tone: "success", text: `Revoked ${token.name}.` });
+      await loadTokens();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to revoke API token." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!authzLoading && !canCreateTokens) {
+    return (
+      <div className="page-stack">
+        <Card>
+          <h2 style={{ marginBottom: 8 }}>API Tokens</h2>
+          <p className="muted" style={{ margin: 0 }}>
+            Join an organization to create API tokens.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-stack">
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Integrations</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>API Tokens</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                Send <code>Authorization: Bearer &lt;token&gt;</code> to call the API from scripts and CI. A token
+                never acts with more than its max role, and personal tokens also drop to your current role.
+              </p>
+            </div>
+          </div>
+          <Badge tone="draft">{tokens.filter((token) => tokenStatus(token).label === "Active").length} active</Badge>
+        </div>
+
+        {revealedToken ? (
+          <div className="message-banner success">
+            Token: <code>{revealedToken}</code>{" "}
+            <Button type="button" variant="ghost" onClick={() => setRevealedToken(null)}>
+              Hide
+            </Button>
+          </div>
+        ) : null}
+
+        <form onSubmit={handleCreate} className="toolbar-row compact" aria-label="Create API token">
+          <TextInput
+            value={draft.name}
+            onChange={(event) => setDraft((current) => ({ ...current, name: event.target.value }))}
+            placeholder="Token name, e.g. CI export"
+            aria-label="Token name"
+            style={{ minWidth: 240 }}
+          />
+          {canManageTokens ? (
+            <select
+              className="select"
+              value={draft.kind}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, kind: event.target.value as ApiTokenRow["kind"] }))
+              }
+              aria-label="Token kind"
+              style={{ width: 140 }}
+            >
+              <option value="PERSONAL">Personal</option>
+              <option value="SERVICE">Service</option>
+            </select>
+          ) : null}
+          <select
+            className="select"
+            value={draft.maxRole || role || ""}
+            onChange={(event) => setDraft((current) => ({ ...current, maxRole: event.target.value as Role }))}
+            aria-label="Max role"
+            style={{ width: 140 }}
+          >
+            {roleOptions.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <TextInput
+            type="number"
+            min={1}
+            max={365}
+            value={draft.expiresInDays}
+            onChange={(event) => setDraft((current) => ({ ...current, expiresInDays: event.target.value }))}
+            aria-label="Expires in days"
+            style={{ width: 110 }}
+          />
+          <span className="small muted">days</span>
+          <Button type="submit" variant="primary" disabled={isSaving || !draft.name.trim()}>
+            Create token
+          </Button>
+        </form>
+
+        <div className="data-table-wrap">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Token</th>
+                <th>Owner</th>
+                <th>Max role</th>
+                <th>Expires</th>
+                <th>Last used</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="muted">
+                    {isLoading ? "Loading API tokens..." : "No API tokens yet."}
+                  </td>
+                </tr>
+              ) : (
+                tokens.map((token) => {
+                  const status = tokenStatus(token);
+                  return (
+                    <tr key={token.id}>
+                      <td>
+                        <div>{token.name}</div>
+                        <div className="small muted">
+                          <code>{token.tokenPrefix}…</code> · {token.kind === "SERVICE" ? "Service" : "Personal"}
+                        </div>
+                      </td>
+                      <td>{userEmail && token.ownerEmail === userEmail ? "You" : token.ownerEmail ?? "Former member"}</td>
+                      <td>{token.maxRole}</td>
+                      <td>{formatTimestamp(token.expiresAt)}</td>
+                      <td>{formatTimestamp(token.lastUsedAt)}</td>
+                      <td>
+                        <Badge tone={status.tone}>{status.label}</Badge>
+                      </td>
+                      <td>
+                        {!token.revokedAt ? (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            disabled={isSaving}
+                            onClick={() => void revokeToken(token)}
+                          >
+                            Revoke
+                          </Button>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+
+type AuditEventRow = {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  targetLabel: string | null;
+  summary: string;
+  before: unknown;
+  after: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+type AuditResponse = {
+  events?: AuditEventRow[];
+  nextCursor?: string | null;
+  actors?: Array<{ userId: string; email: string | null }>;
+  error?: {
+    message?: string;
+  };
+};
+
+type AuditFilters = {
+  action: string;
+  actor: string;
+  targetType: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  actor: "",
+  targetType: "",
+  from: "",
+  to: ""
+};
+
+const ACTION_OPTIONS = Object.values(RbacAction).filter((action) => !action.startsWith("VIEW_"));
+
+const TARGET_TYPE_OPTIONS = [
+  "DOCUMENT",
+  "MEMBER",
+  "INVITE",
+  "ORGANIZATION",
+  "QUESTIONNAIRE",
+  "QUESTION",
+  "APPROVED_ANSWER",
+  "WEBHOOK",
+  "API_TOKEN",
+  "SSO",
+  "TRUST_PORTAL",
+  "EVIDENCE_COLLECTION"
+];
+
+function formatLabel(value: string): string {
+  return value
+    .toLowerCase()
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+function formatTimestamp(value: string): string {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return "-";
+  }
+
+  return parsed.toLocaleString();
+}
+
+function toSearchParams(filters: AuditFilters, cursor?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  return params;
+}
+
+function formatSnapshot(value: unknown): string {
+  return value === null || value === undefined ? "" : JSON.stringify(value, null, 2);
+}
+
+export default function AuditSettingsPage() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [actors, setActors] = useState<Array<{ userId: string; email: string | null }>>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const canViewAuditLog = role ? can(role, RbacAction.VIEW_AUDIT_LOG) : false;
+  const exportHref = useMemo(() => {
+    const params = toSearchParams(filters).toString();
+    return `/api/org/audit/export${params ? `?${params}` : ""}`;
+  }, [filters]);
+
+  const loadEvents = useCallback(async (activeFilters: AuditFilters, cursor?: string | null) => {
+    setIsLoading(true);
+    setErrorMessage("");
+
+    try {
+      const response = await fetch(`/api/org/audit?${toSearchParams(activeFilters, cursor).toString()}`, {
+        cache: "no-store"
+      });
+      const payload = (await response.json()) as AuditResponse;
+
+      if (!response.ok) {
+        throw new Error(payload.error?.message ?? "Failed to load audit log.");
+      }
+
+      const page = Array.isArray(payload.events) ? payload.events : [];
+      setEvents((current) => (cursor ? [...current, ...page] : page));
+      setNextCursor(payload.nextCursor ?? null);
+      setActors(Array.isArray(payload.actors) ? payload.actors : []);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load audit log.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authzLoading && canViewAuditLog) {
+      void loadEvents(filters);
+      return;
+    }
+
+    if (!authzLoading) {
+      setIsLoading(false);
+    }
+  }, [authzLoading, canViewAuditLog, filters, loadEvents]);
+
+  function handleFilterSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setFilters(draftFilters);
+  }
+
+  function updateDraft(key: keyof AuditFilters, value: string) {
+    setDraftFilters((current) => ({ ...current, [key]: value }));
+  }
+
+  if (!authzLoading && !canViewAuditLog) {
+    return (
+      <div className="page-stack">
+        <Card>
+          <h2 style={{ marginBottom: 8 }}>Audit Log</h2>
+          <p className="muted" style={{ margin: 0 }}>
+            Only owners and admins can view the organization audit log.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-stack">
+      {errorMessage ? <div className={cx("message-banner", "error")}>{errorMessage}</div> : null}
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Governance</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>Audit Log</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                Append-only record of every change made in this workspace.
+              </p>
+            </div>
+          </div>
+          <a className="btn btn-secondary" href={exportHref}>
+            Export CSV
+          </a>
+        </div>
+
+        <form
+          className="toolbar-row filter-toolbar"
+          onSubmit={handleFilterSubmit}
+          aria-label="Audit log filters"
+        >
+          <select
+            className="select"
+            value={draftFilters.action}
+            onChange={(event) => updateDraft("action", event.target.value)}
+            aria-label="Action"
+            style={{ width: 200 }}
+          >
+            <option value="">All actions</option>
+            {ACTION_OPTIONS.map((action) => (
+              <option key={action} value={action}>
+                {formatLabel(action)}
+              </option>
+            ))}
+          </select>
+          <select
+            className="select"
+            value={draftFilters.actor}
+            onChange={(event) => updateDraft("actor", event.target.value)}
+            aria-label="Actor"
+            style={{ width: 200 }}
+          >
+            <option value="">All actors</option>
+            {actors.map((actor) => (
+              <option key={actor.userId} value={actor.userId}>
+                {actor.email ?? actor.userId}
+              </option>
+            ))}
+          </select>
+          <select
+            className="select"
+            value={draftFilters.targetType}
+            onChange={(event) => updateDraft("targetType", event.target.value)}
+            aria-label="Target type"
+            style={{ width: 180 }}
+          >
+            <option value="">All targets</option>
+            {TARGET_TYPE_OPTIONS.map((targetType) => (
+              <option key={targetType} value={targetType}>
+                {formatLabel(targetType)}
+              </option>
+            ))}
+          </select>
+          <TextInput
+            type="date"
+            value={draftFilters.from}
+            onChange={(event) => updateDraft("from", event.target.value)}
+            aria-label="From date"
+            style={{ width: 160 }}
+          />
+          <TextInput
+            type="date"
+            value={draftFilters.to}
+            onChange={(event) => updateDraft("to", event.target.value)}
+            aria-label="To date"
+            style={{ width: 160 }}
+          />
+          <Button type="submit" variant="primary" disabled={isLoading}>
+            Apply
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setDraftFilters(EMPTY_FILTERS);
+              setFilters(EMPTY_FILTERS);
+            }}
+          >
+            Clear
+          </Button>
+        </form>
+
+        <div className="data-table-wrap">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Actor</th>
+                <th>Action</th>
+                <th>Target</th>
+                <th>Summary</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="muted">
+                    {isLoading ? "Loading audit events..." : "No audit events match these filters."}
+                  </td>
+                </tr>
+              ) : (
+                events.map((event) => (
+                  <tr key={event.id}>
+                    <td>{formatTimestamp(event.createdAt)}</td>
+                    <td>
+                      <div>{event.actorEmail ?? event.actorUserId ?? "System"}</div>
+                      {event.ipAddress ? <div className="small muted">{event.ipAddress}</div> : null}
+                    </td>
+                    <td>
+                      <Badge tone="draft">{formatLabel(event.action)}</Badge>
+                    </td>
+                    <td>
+                      <div>{formatLabel(event.targetType)}</div>
+                      <div className="small muted">{event.targetLabel ?? event.targetId ?? "-"}</div>
+                    </td>
+                    <td>
+                      <div>{event.summary}</div>
+                      {event.before || event.after ? (
+                        <details>
+                          <summary className="small muted">Changes</summary>
+                          {event.before ? (
+                            <>
+                              <div className="small muted">Before</div>
+                              <pre className="small">{formatSnapshot(event.before)}</pre>
+                            </>
+                          ) : null}
+                          {event.after ? (
+                            <>
+                              <div className="small muted">After</div>
+                              <pre className="small">{formatSnapshot(event.after)}</pre>
+                            </>
+                          ) : null}
+                        </details>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {nextCursor ? (
+          <div className="toolbar-row">
+            <Button type="button" variant="secondary" disabled={isLoading} onClick={() => void loadEvents(filters, nextCursor)}>
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        ) : null}
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
 import { FormEvent, useEffect, useMemo, useState } from "react";
+import { AiProviderSettingsCard } from "@/components/AiProviderSettingsCard";
+import { ApprovalPolicySettingsCard } from "@/components/ApprovalPolicySettingsCard";
 import { useAppAuthz } from "@/components/AppAuthzContext";
 import { OperationalSummaryBand } from "@/components/OperationalSummaryBand";
 import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
-import { can, RbacAction } from "@/server/rbac";
+import type { PendingInviteRow } from "@/server/members/memberAdministration";
+import { can, isRoleAtLeast, RbacAction } from "@/server/rbac";
 
 type MemberRow = {
   userId: string;
@@ -33,6 +36,7 @@ type InviteResponse = {
 };
 
 const INVITE_ROLE_OPTIONS: InviteRole[] = ["VIEWER", "REVIEWER", "ADMIN"];
+const MEMBER_ROLE_OPTIONS: MemberRow["role"][] = ["VIEWER", "REVIEWER", "ADMIN", "OWNER"];
 
 function roleBadgeTone(role: MemberRow["role"]): "approved" | "review" | "draft" {
   if (role === "OWNER" || role === "ADMIN") {
@@ -46,6 +50,11 @@ function roleBadgeTone(role: MemberRow["role"]): "approved" | "review" | "draft"
   return "draft";
 }
 
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
 function formatDate(value: string): string {
   const parsed = new Date(value);
   if (Number.isNaN(parsed.getTime())) {
@@ -56,8 +65,10 @@ function formatDate(value: string): string {
 }
 
 export default function MembersSettingsPage() {
-  const { loading: authzLoading, role } = useAppAuthz();
+  const { loading: authzLoading, role, userEmail } = useAppAuthz();
   const [members, setMembers] = useState<MemberRow[]>([]);
+  const [invites, setInvites] = useState<PendingInviteRow[]>([]);
+  const [isUpdatingAccess, setIsUpdatingAccess] = useState(false);
   const [isLoadingMembers, setIsLoadingMembers] = useState(true);
   const [isSendingInvite, setIsSendingInvite] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
@@ -68,6 +79,9 @@ export default function MembersSettingsPage() {
 
   const canViewMembers = role ? can(role, RbacAction.VIEW_MEMBERS) : false;
   const canInviteMembers = role ? can(role, RbacAction.INVITE_MEMBERS) : false;
+  const canUpdateMemberRoles = role ? can(role, RbacAction.UPDATE_MEMBER_ROLE) : false;
+  const canRemoveMembers = role ? can(role, RbacAction.REMOVE_MEMBERS) : false;
+  const canTransferOwnership = role ? can(role, RbacAction.TRANSFER_OWNERSHIP) : false;
 
   const sortedMembers = useMemo(() => {
     return [...members].sort((left, right) => {
@@ -114,16 +128,105 @@ export default function MembersSettingsPage() {
     }
   }
 
+  async function loadInvites() {
+    try {
+      const response = await fetch("/api/org/invites", { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to load pending invites."));
+      }
+
+      const payload = (await response.json()) as { invites?: PendingInviteRow[] };
+      setInvites(Array.isArray(payload.invites) ? payload.invites : []);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to load pending invites.");
+      setMessageType("error");
+    }
+  }
+
   useEffect(() => {
     if (!authzLoading && canViewMembers) {
       void loadMembers();
+      if (canInviteMembers) {
+        void loadInvites();
+      }
       return;
     }
 
     if (!authzLoading) {
       setIsLoadingMembers(false);
     }
-  }, [authzLoading, canViewMembers]);
+  }, [authzLoading, canViewMembers, canInviteMembers]);
+
+  async function runAccessChange(request: () => Promise<Response>, successText: string) {
+    setIsUpdatingAccess(true);
+    setMessage("");
+
+    try {
+      const response = await request();
+      const payload = (await response.json().catch(() => null)) as InviteResponse | null;
+      if (!response.ok) {
+        if (payload?.inviteId && payload?.error?.code) {
+          setInviteUrl(typeof payload.inviteUrl === "string" ? payload.inviteUrl : "");
+          throw new Error(
+            `Invite re-issued, but email delivery failed (${payload.error.code}). ${
+              payload.error.message ?? "Check SMTP configuration."
+            }`
+          );
+        }
+
+        throw new Error(payload?.error?.message ?? "Failed to update access.");
+      }
+
+      if (typeof payload?.inviteUrl === "string") {
+        setInviteUrl(payload.inviteUrl);
+      }
+      setMessage(successText);
+      setMessageType("success");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update access.");
+      setMessageType("error");
+    } finally {
+      setIsUpdatingAccess(false);
+      await loadMembers();
+      if (canInviteMembers) {
+        await loadInvites();
+      }
+    }
+  }
+
+  function changeMemberRole(member: MemberRow, nextRole: MemberRow["role"]) {
+    return runAccessChange(
+      () =>
+        fetch(`/api/org/members/${member.userId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role: nextRole })
+        }),
+      `${member.email || "Member"} is now ${nextRole}.`
+    );
+  }
+
+  function removeMember(member: MemberRow) {
+    if (!window.confirm(`Remove ${member.email || "this member"}? Their assignments and API tokens are released.`)) {
+      return;
+    }
+
+    void runAccessChange(
+      () => fetch(`/api/org/members/${member.userId}`, { method: "DELETE" }),
+      `Removed ${member.email || "member"}.`
+    );
+  }
+
+  function transferOwnership(member: MemberRow) {
+    if (!window.confirm(`Make ${member.email || "this member"} the owner? You will become an ADMIN.`)) {
+      return;
+    }
+
+    void runAccessChange(
+      () => fetch(`/api/org/members/${member.userId}/transfer-ownership`, { method: "POST" }),
+      `Ownership transferred to ${member.email || "member"}. Reload to pick up your new role.`
+    );
+  }
 
   async function handleInviteSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -182,6 +285,7 @@ export default function MembersSettingsPage() {
       setMessage(`Invite created.${devHint}${copyHint}`);
       setMessageType("success");
       await loadMembers();
+      await loadInvites();
     } catch (error) {
       setMessage(error instanceof Error ? error.message : "Failed to create invite.");
       setMessageType("error");
@@ -328,6 +432,89 @@ export default function MembersSettingsPage() {
         </Card>
       )}
 
+      {canInviteMembers ? (
+        <Card className="section-shell">
+          <div className="card-title-row">
+            <div className="section-copy">
+              <span className="section-kicker">Team access</span>
+              <div>
+                <h2 style={{ marginBottom: 4 }}>Pending Invites</h2>
+                <p className="muted" style={{ margin: 0 }}>
+                  Re-sending issues a fresh link and expiry; the previous link stops working.
+                </p>
+              </div>
+            </div>
+            <Badge tone="draft">{invites.length} pending</Badge>
+          </div>
+
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Email</th>
+                  <th>Role</th>
+                  <th>Expires</th>
+                  <th>Invited by</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invites.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="muted">
+                      No pending invites.
+                    </td>
+                  </tr>
+                ) : (
+                  invites.map((invite) => (
+                    <tr key={invite.id}>
+                      <td>{invite.email}</td>
+                      <td>
+                        <Badge tone={roleBadgeTone(invite.role)}>{invite.role}</Badge>
+                      </td>
+                      <td>
+                        {invite.expired ? <Badge tone="review">Expired</Badge> : formatDate(invite.expiresAt)}
+                      </td>
+                      <td>{invite.createdByEmail ?? "-"}</td>
+                      <td>
+                        <div className="toolbar-row compact">
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            disabled={isUpdatingAccess}
+                            onClick={() =>
+                              void runAccessChange(
+                                () => fetch(`/api/org/invites/${invite.id}/resend`, { method: "POST" }),
+                                `Invite re-sent to ${invite.email}.`
+                              )
+                            }
+                          >
+                            Resend
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            disabled={isUpdatingAccess}
+                            onClick={() =>
+                              void runAccessChange(
+                                () => fetch(`/api/org/invites/${invite.id}`, { method: "DELETE" }),
+                                `Revoked the invite for ${invite.email}.`
+                              )
+                            }
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      ) : null}
+
       <Card className="section-shell">
         <div className="card-title-row">
           <div className="section-copy">
@@ -351,18 +538,19 @@ export default function MembersSettingsPage() {
                 <th>Email</th>
                 <th>Role</th>
                 <th>Joined</th>
+                {canRemoveMembers ? <th>Actions</th> : null}
               </tr>
             </thead>
             <tbody>
               {isLoadingMembers ? (
                 <tr>
-                  <td colSpan={3} className="muted">
+                  <td colSpan={canRemoveMembers ? 4 : 3} className="muted">
                     Loading members...
                   </td>
                 </tr>
               ) : sortedMembers.length === 0 ? (
                 <tr>
-                  <td colSpan={3} className="muted">
+                  <td colSpan={canRemoveMembers ? 4 : 3} className="muted">
                     No members found.
                   </td>
                 </tr>
@@ -371,9 +559,52 @@ export default function MembersSettingsPage() {
                   <tr key={`${member.userId}-${member.joinedAt}`}>
                     <td>{member.email || "(no email)"}</td>
                     <td>
-                      <Badge tone={roleBadgeTone(member.role)}>{member.role}</Badge>
+                      {canUpdateMemberRoles && member.email !== userEmail ? (
+                        <select
+                          className="select"
+                          value={member.role}
+                          onChange={(event) => void changeMemberRole(member, event.target.value as MemberRow["role"])}
+                          disabled={isUpdatingAccess}
+                          aria-label={`Role for ${member.email || member.userId}`}
+                          style={{ width: 140 }}
+                        >
+                          {MEMBER_ROLE_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Badge tone={roleBadgeTone(member.role)}>{member.role}</Badge>
+                      )}
                     </td>
                     <td>{formatDate(member.joinedAt)}</td>
+                    {canRemoveMembers ? (
+                      <td>
+                        <div className="toolbar-row compact">
+                          {canTransferOwnership && member.email !== userEmail && member.role !== "OWNER" ? (
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              disabled={isUpdatingAccess}
+                              onClick={() => transferOwnership(member)}
+                            >
+                              Make owner
+                            </Button>
+                          ) : null}
+                          {role && isRoleAtLeast(role, member.role) ? (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              disabled={isUpdatingAccess}
+                              onClick={() => removeMember(member)}
+                            >
+                              {member.email === userEmail ? "Leave" : "Remove"}
+                            </Button>
+                          ) : null}
+                        </div>
+                      </td>
+                    ) : null}
                   </tr>
                 ))
               )}
@@ -381,6 +612,10 @@ export default function MembersSettingsPage() {
           </table>
         </div>
       </Card>
+
+      <AiProviderSettingsCard />
+
+      <ApprovalPolicySettingsCard />
     </div>
   );
 }
@@ -0,0 +1,382 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+import type { OrganizationDomainRow, SsoConnectionRow } from "@/server/sso/ssoConnections";
+
+type SsoSettingsResponse = {
+  connection?: SsoConnectionRow | null;
+  domains?: OrganizationDomainRow[];
+  error?: {
+    message?: string;
+  };
+};
+
+type ConnectionDraft = {
+  protocol: SsoConnectionRow["protocol"];
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  enabled: boolean;
+  defaultRole: SsoConnectionRow["defaultRole"];
+  disableMagicLink: boolean;
+};
+
+const DEFAULT_ROLE_OPTIONS: SsoConnectionRow["defaultRole"][] = ["VIEWER", "REVIEWER", "ADMIN"];
+
+const EMPTY_DRAFT: ConnectionDraft = {
+  protocol: "OIDC",
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  enabled: false,
+  defaultRole: "VIEWER",
+  disableMagicLink: false
+};
+
+function toDraft(connection: SsoConnectionRow | null): ConnectionDraft {
+  if (!connection) {
+    return EMPTY_DRAFT;
+  }
+
+  return {
+    protocol: connection.protocol,
+    issuer: connection.issuer,
+    clientId: connection.clientId,
+    clientSecret: "",
+    enabled: connection.enabled,
+    defaultRole: connection.defaultRole,
+    disableMagicLink: connection.disableMagicLink
+  };
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+export default function SsoSettingsPage() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [connection, setConnection] = useState<SsoConnectionRow | null>(null);
+  const [domains, setDomains] = useState<OrganizationDomainRow[]>([]);
+  const [draft, setDraft] = useState<ConnectionDraft>(EMPTY_DRAFT);
+  const [newDomain, setNewDomain] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const canManageSso = role ? can(role, RbacAction.MANAGE_SSO) : false;
+  const hasVerifiedDomain = domains.some((domain) => domain.verifiedAt);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await fetch("/api/org/sso", { cache: "no-store" });
+      const payload = (await response.json()) as SsoSettingsResponse;
+      if (!response.ok) {
+        throw new Error(payload.error?.message ?? "Failed to load SSO settings.");
+      }
+
+      setConnection(payload.connection ?? null);
+      setDraft(toDraft(payload.connection ?? null));
+      setDomains(Array.isArray(payload.domains) ? payload.domains : []);
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to load SSO settings." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authzLoading && canManageSso) {
+      void loadSettings();
+      return;
+    }
+
+    if (!authzLoading) {
+      setIsLoading(false);
+    }
+  }, [authzLoading, canManageSso, loadSettings]);
+
+  async function runChange(request: () => Promise<Response>, successText: string) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to update SSO settings."));
+      }
+
+      setMessage({ tone: "success", text: successText });
+      await loadSettings();
+      return true;
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to update SSO settings." });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleSaveConnection(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void runChange(
+      () =>
+        fetch("/api/org/sso", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...draft, clientSecret: draft.clientSecret || undefined })
+        }),
+      "SSO connection saved."
+    );
+  }
+
+  async function handleAddDomain(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const added = await runChange(
+      () =>
+        fetch("/api/org/sso/domains", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ domain: newDomain })
+        }),
+      "Domain claimed. Publish the TXT record below, then verify."
+    );
+    if (added) {
+      setNewDomain("");
+    }
+  }
+
+  if (!authzLoading && !canManageSso) {
+    return (
+      <div className="page-stack">
+        <Card>
+          <h2 style={{ marginBottom: 8 }}>Single Sign-On</h2>
+          <p className="muted" style={{ margin: 0 }}>
+            Only owners can configure single sign-on.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-stack">
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Domains</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>Verified Email Domains</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                SSO logins from a verified domain join this workspace automatically. Prove ownership with a DNS TXT
+                record.
+              </p>
+            </div>
+          </div>
+          <Badge tone={hasVerifiedDomain ? "approved" : "draft"}>
+            {domains.filter((domain) => domain.verifiedAt).length} verified
+          </Badge>
+        </div>
+
+        <form onSubmit={(event) => void handleAddDomain(event)} className="toolbar-row compact" aria-label="Claim domain">
+          <TextInput
+            value={newDomain}
+            onChange={(event) => setNewDomain(event.target.value)}
+            placeholder="example.com"
+            aria-label="Email domain"
+            style={{ width: 240 }}
+          />
+          <Button type="submit" variant="secondary" disabled={isSaving || !newDomain.trim()}>
+            Claim domain
+          </Button>
+        </form>
+
+        <div className="data-table-wrap">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Domain</th>
+                <th>TXT record</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {domains.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="muted">
+                    {isLoading ? "Loading domains..." : "No domains claimed yet."}
+                  </td>
+                </tr>
+              ) : (
+                domains.map((domain) => (
+                  <tr key={domain.id}>
+                    <td>{domain.domain}</td>
+                    <td>
+                      <div className="small">
+                        <code>{domain.txtRecordName}</code>
+                      </div>
+                      <div className="small muted">
+                        <code>{domain.txtRecordValue}</code>
+                      </div>
+                    </td>
+                    <td>
+                      <Badge tone={domain.verifiedAt ? "approved" : "review"}>
+                        {domain.verifiedAt ? "Verified" : "Pending"}
+                      </Badge>
+                    </td>
+                    <td>
+                      <div className="toolbar-row compact">
+                        {!domain.verifiedAt ? (
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            disabled={isSaving}
+                            onClick={() =>
+                              void runChange(
+                                () => fetch(`/api/org/sso/domains/${domain.id}/verify`, { method: "POST" }),
+                                `${domain.domain} verified.`
+                              )
+                            }
+                          >
+                            Verify
+                          </Button>
+                        ) : null}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() =>
+                            void runChange(
+                              () => fetch(`/api/org/sso/domains/${domain.id}`, { method: "DELETE" }),
+                              `${domain.domain} removed.`
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Identity provider</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>SSO Connection</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                Connect an OIDC identity provider directly, or a SAML IdP through a SAML-to-OIDC bridge. Register the
+                callback URL below with the provider.
+              </p>
+            </div>
+          </div>
+          <Badge tone={connection?.enabled ? "approved" : "draft"}>{connection?.enabled ? "Enabled" : "Disabled"}</Badge>
+        </div>
+
+        {connection ? (
+          <p className="small muted" style={{ margin: 0 }}>
+            Callback URL: <code>{connection.callbackUrl}</code>
+          </p>
+        ) : null}
+
+        <form onSubmit={handleSaveConnection} style={{ display: "grid", gap: 8 }} aria-label="SSO connection">
+          <div className="toolbar-row compact">
+            <select
+              className="select"
+              value={draft.protocol}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, protocol: event.target.value as ConnectionDraft["protocol"] }))
+              }
+              aria-label="Protocol"
+              style={{ width: 160 }}
+            >
+              <option value="OIDC">OIDC</option>
+              <option value="SAML">SAML (via bridge)</option>
+            </select>
+            <TextInput
+              type="url"
+              value={draft.issuer}
+              onChange={(event) => setDraft((current) => ({ ...current, issuer: event.target.value }))}
+              placeholder={draft.protocol === "SAML" ? "https://saml-bridge.example.com" : "https://idp.example.com"}
+              aria-label="Issuer URL"
+              style={{ minWidth: 320 }}
+            />
+          </div>
+          <div className="toolbar-row compact">
+            <TextInput
+              value={draft.clientId}
+              onChange={(event) => setDraft((current) => ({ ...current, clientId: event.target.value }))}
+              placeholder="Client ID"
+              aria-label="Client ID"
+              style={{ width: 240 }}
+            />
+            <TextInput
+              type="password"
+              value={draft.clientSecret}
+              onChange={(event) => setDraft((current) => ({ ...current, clientSecret: event.target.value }))}
+              placeholder={connection ? `Client secret (${connection.maskedClientSecret}, leave blank to keep)` : "Client secret"}
+              aria-label="Client secret"
+              style={{ width: 320 }}
+            />
+          </div>
+          <div className="toolbar-row compact">
+            <span className="small muted">New members join as</span>
+            <select
+              className="select"
+              value={draft.defaultRole}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, defaultRole: event.target.value as ConnectionDraft["defaultRole"] }))
+              }
+              aria-label="Default role"
+              style={{ width: 140 }}
+            >
+              {DEFAULT_ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <label className="small">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                disabled={!hasVerifiedDomain && !draft.enabled}
+                onChange={(event) => setDraft((current) => ({ ...current, enabled: event.target.checked }))}
+              />{" "}
+              Enable SSO
+            </label>
+            <label className="small">
+              <input
+                type="checkbox"
+                checked={draft.disableMagicLink}
+                onChange={(event) => setDraft((current) => ({ ...current, disableMagicLink: event.target.checked }))}
+              />{" "}
+              Disable magic-link sign-in for verified domains
+            </label>
+          </div>
+          <div>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isSaving || !draft.issuer.trim() || !draft.clientId.trim() || (!connection && !draft.clientSecret)}
+            >
+              Save connection
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,571 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextArea, TextInput, cx } from "@/components/ui";
+import type { ApprovedAnswersLibraryRow } from "@/server/approvedAnswers/listApprovedAnswers";
+import { can, RbacAction } from "@/server/rbac";
+import type {
+  TrustAccessRequestRow,
+  TrustPortalEventRow,
+  TrustPortalSettings
+} from "@/server/trustPortal/trustPortal";
+import { trustPortalShareabilities, type DocumentShareability } from "@/shared/evidenceShareability";
+
+type PortalDraft = {
+  slug: string;
+  title: string;
+  description: string;
+  published: boolean;
+  accessMode: "PUBLIC" | "NDA_GATED";
+  ndaText: string;
+};
+
+type SelectedAnswer = {
+  approvedAnswerId: string;
+  questionText: string;
+  stale: boolean;
+};
+
+type DocumentOption = {
+  id: string;
+  displayName: string;
+  shareability?: DocumentShareability;
+  isExpired?: boolean;
+};
+
+const EMPTY_DRAFT: PortalDraft = {
+  slug: "",
+  title: "",
+  description: "",
+  published: false,
+  accessMode: "NDA_GATED",
+  ndaText: ""
+};
+
+function toDraft(portal: TrustPortalSettings["portal"]): PortalDraft {
+  if (!portal) {
+    return EMPTY_DRAFT;
+  }
+
+  return {
+    slug: portal.slug,
+    title: portal.title,
+    description: portal.description ?? "",
+    published: portal.published,
+    accessMode: portal.accessMode,
+    ndaText: portal.ndaText ?? ""
+  };
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+function formatTimestamp(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export default function TrustPortalSettingsPage() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [portal, setPortal] = useState<TrustPortalSettings["portal"]>(null);
+  const [draft, setDraft] = useState<PortalDraft>(EMPTY_DRAFT);
+  const [selectedAnswers, setSelectedAnswers] = useState<SelectedAnswer[]>([]);
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
+  const [documentOptions, setDocumentOptions] = useState<DocumentOption[]>([]);
+  const [answerQuery, setAnswerQuery] = useState("");
+  const [answerResults, setAnswerResults] = useState<ApprovedAnswersLibraryRow[]>([]);
+  const [accessRequests, setAccessRequests] = useState<TrustAccessRequestRow[]>([]);
+  const [events, setEvents] = useState<TrustPortalEventRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const canManagePortal = role ? can(role, RbacAction.MANAGE_TRUST_PORTAL) : false;
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [settingsResponse, documentsResponse] = await Promise.all([
+        fetch("/api/org/trust-portal", { cache: "no-store" }),
+        fetch("/api/documents", { cache: "no-store" })
+      ]);
+      if (!settingsResponse.ok) {
+        throw new Error(await readErrorMessage(settingsResponse, "Failed to load trust portal settings."));
+      }
+
+      const settings = (await settingsResponse.json()) as TrustPortalSettings;
+      setPortal(settings.portal);
+      setDraft(toDraft(settings.portal));
+      setSelectedAnswers(settings.answers);
+      setSelectedDocumentIds(settings.documents.map((document) => document.documentId));
+
+      if (documentsResponse.ok) {
+        const payload = (await documentsResponse.json()) as { documents?: DocumentOption[] };
+        setDocumentOptions(Array.isArray(payload.documents) ? payload.documents : []);
+      }
+
+      if (settings.portal) {
+        const [requestsResponse, activityResponse] = await Promise.all([
+          fetch("/api/org/trust-portal/access-requests", { cache: "no-store" }),
+          fetch("/api/org/trust-portal/activity", { cache: "no-store" })
+        ]);
+        if (requestsResponse.ok) {
+          const payload = (await requestsResponse.json()) as { accessRequests?: TrustAccessRequestRow[] };
+          setAccessRequests(Array.isArray(payload.accessRequests) ? payload.accessRequests : []);
+        }
+        if (activityResponse.ok) {
+          const payload = (await activityResponse.json()) as { events?: TrustPortalEventRow[] };
+          setEvents(Array.isArray(payload.events) ? payload.events : []);
+        }
+      }
+    } catch (error) {
+      setMessage({
+        tone: "error",
+        text: error instanceof Error ? error.message : "Failed to load trust portal settings."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authzLoading && canManagePortal) {
+      void loadSettings();
+      return;
+    }
+
+    if (!authzLoading) {
+      setIsLoading(false);
+    }
+  }, [authzLoading, canManagePortal, loadSettings]);
+
+  async function runChange(request: () => Promise<Response>, successText: string) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to update the trust portal."));
+      }
+
+      setMessage({ tone: "success", text: successText });
+      await loadSettings();
+      return response;
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to update the trust portal." });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void runChange(
+      () =>
+        fetch("/api/org/trust-portal", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...draft,
+            approvedAnswerIds: selectedAnswers.map((answer) => answer.approvedAnswerId),
+            documentIds: selectedDocumentIds
+          })
+        }),
+      "Trust portal saved."
+    );
+  }
+
+  async function handleSearchAnswers(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const params = new URLSearchParams({ q: answerQuery, freshness: "fresh" });
+    const response = await fetch(`/api/approved-answers?${params.toString()}`, { cache: "no-store" });
+    if (!response.ok) {
+      setMessage({ tone: "error", text: await readErrorMessage(response, "Failed to search approved answers.") });
+      return;
+    }
+
+    const payload = (await response.json()) as { rows?: ApprovedAnswersLibraryRow[] };
+    setAnswerResults(Array.isArray(payload.rows) ? payload.rows : []);
+  }
+
+  function addAnswer(row: ApprovedAnswersLibraryRow) {
+    setSelectedAnswers((current) =>
+      current.some((answer) => answer.approvedAnswerId === row.approvedAnswerId)
+        ? current
+        : [...current, { approvedAnswerId: row.approvedAnswerId, questionText: row.questionText, stale: false }]
+    );
+  }
+
+  function toggleDocument(documentId: string, checked: boolean) {
+    setSelectedDocumentIds((current) =>
+      checked ? [...current, documentId] : current.filter((selectedId) => selectedId !== documentId)
+    );
+  }
+
+  async function reviewRequest(accessRequest: TrustAccessRequestRow, decision: "APPROVE" | "REJECT") {
+    await runChange(
+      () =>
+        fetch(`/api/org/trust-portal/access-requests/${accessRequest.id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ decision })
+        }),
+      decision === "APPROVE"
+        ? `Access approved. A link was emailed to ${accessRequest.email}.`
+        : `Access request from ${accessRequest.email} rejected.`
+    );
+  }
+
+  if (!authzLoading && !canManagePortal) {
+    return (
+      <div className="page-stack">
+        <Card>
+          <h2 style={{ marginBottom: 8 }}>Trust Portal</h2>
+          <p className="muted" style={{ margin: 0 }}>
+            Only admins can manage the trust portal.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-stack">
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Trust center</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>Portal Settings</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                Publish selected approved answers and documents to customers. Stale answers are hidden until they are
+                re-approved.
+              </p>
+            </div>
+          </div>
+          <Badge tone={portal?.published ? "approved" : "draft"}>{portal?.published ? "Published" : "Unpublished"}</Badge>
+        </div>
+
+        {portal ? (
+          <p className="small muted" style={{ margin: 0 }}>
+            Public URL: <code>{portal.publicUrl}</code>
+          </p>
+        ) : null}
+
+        <form onSubmit={handleSave} style={{ display: "grid", gap: 8 }} aria-label="Trust portal settings">
+          <div className="toolbar-row compact">
+            <TextInput
+              value={draft.title}
+              onChange={(event) => setDraft((current) => ({ ...current, title: event.target.value }))}
+              placeholder="Acme Trust Center"
+              aria-label="Title"
+              style={{ minWidth: 280 }}
+            />
+            <TextInput
+              value={draft.slug}
+              onChange={(event) => setDraft((current) => ({ ...current, slug: event.target.value }))}
+              placeholder="acme"
+              aria-label="Slug"
+              style={{ width: 200 }}
+            />
+            <select
+              className="select"
+              value={draft.accessMode}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, accessMode: event.target.value as PortalDraft["accessMode"] }))
+              }
+              aria-label="Access mode"
+              style={{ width: 180 }}
+            >
+              <option value="NDA_GATED">NDA-gated</option>
+              <option value="PUBLIC">Public</option>
+            </select>
+            <label className="small">
+              <input
+                type="checkbox"
+                checked={draft.published}
+                onChange={(event) => setDraft((current) => ({ ...current, published: event.target.checked }))}
+              />{" "}
+              Published
+            </label>
+          </div>
+          <TextArea
+            value={draft.description}
+            onChange={(event) => setDraft((current) => ({ ...current, description: event.target.value }))}
+            placeholder="Overview shown at the top of the portal"
+            aria-label="Description"
+            rows={3}
+          />
+          {draft.accessMode === "NDA_GATED" ? (
+            <TextArea
+              value={draft.ndaText}
+              onChange={(event) => setDraft((current) => ({ ...current, ndaText: event.target.value }))}
+              placeholder="NDA terms requesters must accept (optional)"
+              aria-label="NDA text"
+              rows={4}
+            />
+          ) : null}
+
+          <h3 style={{ margin: "8px 0 0" }}>Published answers ({selectedAnswers.length})</h3>
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <tbody>
+                {selectedAnswers.length === 0 ? (
+                  <tr>
+                    <td className="muted">{isLoading ? "Loading answers..." : "No answers selected yet."}</td>
+                  </tr>
+                ) : (
+                  selectedAnswers.map((answer) => (
+                    <tr key={answer.approvedAnswerId}>
+                      <td>
+                        {answer.questionText}{" "}
+                        {answer.stale ? <Badge tone="review">Stale, hidden</Badge> : null}
+                      </td>
+                      <td style={{ width: 100 }}>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          onClick={() =>
+                            setSelectedAnswers((current) =>
+                              current.filter((entry) => entry.approvedAnswerId !== answer.approvedAnswerId)
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 style={{ margin: "8px 0 0" }}>Published documents ({selectedDocumentIds.length})</h3>
+          <div style={{ display: "grid", gap: 4 }}>
+            {documentOptions.length === 0 ? (
+              <span className="small muted">{isLoading ? "Loading documents..." : "No documents uploaded yet."}</span>
+            ) : (
+              documentOptions.map((document) => (
+                <label key={document.id} className="small">
+                  <input
+                    type="checkbox"
+                    checked={selectedDocumentIds.includes(document.id)}
+                    onChange={(event) => toggleDocument(document.id, event.target.checked)}
+                    disabled={
+                      !trustPortalShareabilities(draft.accessMode).includes(document.shareability ?? "NDA") &&
+                      !selectedDocumentIds.includes(document.id)
+                    }
+                  />{" "}
+                  {document.displayName}
+                  {document.shareability === "INTERNAL_ONLY" ? <span className="muted"> (internal only)</span> : null}
+                  {document.shareability === "NDA" && draft.accessMode === "PUBLIC" ? (
+                    <span className="muted"> (NDA only, needs an NDA-gated portal)</span>
+                  ) : null}
+                  {document.isExpired ? <span className="muted"> (expired, hidden from the portal)</span> : null}
+                </label>
+              ))
+            )}
+          </div>
+
+          <div>
+            <Button type="submit" variant="primary" disabled={isSaving || !draft.title.trim() || !draft.slug.trim()}>
+              Save portal
+            </Button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={(event) => void handleSearchAnswers(event)}
+          className="toolbar-row compact"
+          aria-label="Find approved answers"
+        >
+          <TextInput
+            value={answerQuery}
+            onChange={(event) => setAnswerQuery(event.target.value)}
+            placeholder="Search fresh approved answers"
+            aria-label="Search approved answers"
+            style={{ minWidth: 320 }}
+          />
+          <Button type="submit" variant="secondary">
+            Search
+          </Button>
+        </form>
+        {answerResults.length > 0 ? (
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <tbody>
+                {answerResults.map((row) => (
+                  <tr key={row.approvedAnswerId}>
+                    <td>
+                      <div>{row.questionText}</div>
+                      <div className="small muted">{row.answerPreview}</div>
+                    </td>
+                    <td style={{ width: 100 }}>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        disabled={selectedAnswers.some((answer) => answer.approvedAnswerId === row.approvedAnswerId)}
+                        onClick={() => addAnswer(row)}
+                      >
+                        Add
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </Card>
+
+      {portal ? (
+        <Card className="section-shell">
+          <div className="card-title-row">
+            <div className="section-copy">
+              <span className="section-kicker">Access</span>
+              <div>
+                <h2 style={{ marginBottom: 4 }}>Access Requests</h2>
+                <p className="muted" style={{ margin: 0 }}>
+                  Approving a request emails a personal link valid for 30 days.
+                </p>
+              </div>
+            </div>
+            <Badge tone="review">{accessRequests.filter((entry) => entry.status === "PENDING").length} pending</Badge>
+          </div>
+
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Requester</th>
+                  <th>Reason</th>
+                  <th>Requested</th>
+                  <th>Status</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accessRequests.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="muted">
+                      No access requests yet.
+                    </td>
+                  </tr>
+                ) : (
+                  accessRequests.map((accessRequest) => (
+                    <tr key={accessRequest.id}>
+                      <td>
+                        <div>{accessRequest.name}</div>
+                        <div className="small muted">
+                          {accessRequest.email}
+                          {accessRequest.company ? ` · ${accessRequest.company}` : ""}
+                        </div>
+                      </td>
+                      <td className="small">{accessRequest.reason ?? "-"}</td>
+                      <td className="small">{formatTimestamp(accessRequest.createdAt)}</td>
+                      <td>
+                        <Badge
+                          tone={
+                            accessRequest.status === "APPROVED"
+                              ? "approved"
+                              : accessRequest.status === "PENDING"
+                                ? "review"
+                                : "draft"
+                          }
+                        >
+                          {accessRequest.status}
+                        </Badge>
+                        {accessRequest.accessExpiresAt ? (
+                          <div className="small muted">Until {formatTimestamp(accessRequest.accessExpiresAt)}</div>
+                        ) : null}
+                      </td>
+                      <td>
+                        {accessRequest.status === "PENDING" ? (
+                          <div className="toolbar-row compact">
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              disabled={isSaving}
+                              onClick={() => void reviewRequest(accessRequest, "APPROVE")}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              disabled={isSaving}
+                              onClick={() => void reviewRequest(accessRequest, "REJECT")}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      ) : null}
+
+      {portal ? (
+        <Card className="section-shell">
+          <div className="card-title-row">
+            <div className="section-copy">
+              <span className="section-kicker">Activity</span>
+              <div>
+                <h2 style={{ marginBottom: 4 }}>Views and Downloads</h2>
+                <p className="muted" style={{ margin: 0 }}>
+                  The 100 most recent portal visits and document downloads.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Event</th>
+                  <th>Viewer</th>
+                  <th>IP address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="muted">
+                      No activity yet.
+                    </td>
+                  </tr>
+                ) : (
+                  events.map((event) => (
+                    <tr key={event.id}>
+                      <td className="small">{formatTimestamp(event.createdAt)}</td>
+                      <td>
+                        {event.type === "DOWNLOADED_DOCUMENT"
+                          ? `Downloaded ${event.documentName ?? "a removed document"}`
+                          : "Viewed portal"}
+                      </td>
+                      <td>{event.viewerEmail ?? <span className="muted">Anonymous</span>}</td>
+                      <td className="small">{event.ipAddress ?? "-"}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
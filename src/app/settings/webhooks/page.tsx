@@ -0,0 +1,496 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+import type { WebhookDeliveryRow, WebhookEndpointRow } from "@/server/webhooks/webhookEndpoints";
+
+type WebhooksResponse = {
+  endpoints?: WebhookEndpointRow[];
+  eventTypes?: string[];
+  error?: {
+    message?: string;
+  };
+};
+
+type EndpointDraft = {
+  url: string;
+  description: string;
+  eventTypes: string[];
+};
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  "autofill.completed": "Autofill finished",
+  "question.approved": "Question approved",
+  "approved_answer.stale": "Approved answer went stale",
+  "export.blocked": "Export blocked by stale approvals",
+  "webhook.test": "Test"
+};
+
+const EMPTY_DRAFT: EndpointDraft = {
+  url: "",
+  description: "",
+  eventTypes: []
+};
+
+function eventTypeLabel(value: string): string {
+  return EVENT_TYPE_LABELS[value] ?? value;
+}
+
+function formatTimestamp(value: string | null): string {
+  if (!value) {
+    return "-";
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "-" : parsed.toLocaleString();
+}
+
+function deliveryTone(status: WebhookDeliveryRow["status"]): "approved" | "review" | "draft" {
+  return status === "SUCCEEDED" ? "approved" : status === "FAILED" ? "review" : "draft";
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+export default function WebhookSettingsPage() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [endpoints, setEndpoints] = useState<WebhookEndpointRow[]>([]);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [draft, setDraft] = useState<EndpointDraft>(EMPTY_DRAFT);
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [selectedEndpointId, setSelectedEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const canManageWebhooks = role ? can(role, RbacAction.MANAGE_WEBHOOKS) : false;
+  const selectedEndpoint = endpoints.find((endpoint) => endpoint.id === selectedEndpointId) ?? null;
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch("/api/org/webhooks", { cache: "no-store" });
+      const payload = (await response.json()) as WebhooksResponse;
+      if (!response.ok) {
+        throw new Error(payload.error?.message ?? "Failed to load webhooks.");
+      }
+
+      setEndpoints(Array.isArray(payload.endpoints) ? payload.endpoints : []);
+      setEventTypes(Array.isArray(payload.eventTypes) ? payload.eventTypes : []);
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to load webhooks." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (endpointId: string) => {
+    const response = await fetch(`/api/org/webhooks/${endpointId}/deliveries`, { cache: "no-store" });
+    if (!response.ok) {
+      setMessage({ tone: "error", text: await readErrorMessage(response, "Failed to load deliveries.") });
+      return;
+    }
+
+    const payload = (await response.json()) as { deliveries?: WebhookDeliveryRow[] };
+    setDeliveries(Array.isArray(payload.deliveries) ? payload.deliveries : []);
+  }, []);
+
+  useEffect(() => {
+    if (!authzLoading && canManageWebhooks) {
+      void loadEndpoints();
+      return;
+    }
+
+    if (!authzLoading) {
+      setIsLoading(false);
+    }
+  }, [authzLoading, canManageWebhooks, loadEndpoints]);
+
+  useEffect(() => {
+    setDeliveries([]);
+    if (selectedEndpointId) {
+      void loadDeliveries(selectedEndpointId);
+    }
+  }, [loadDeliveries, selectedEndpointId]);
+
+  async function runChange(request: () => Promise<Response>, successText: string) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to update webhooks."));
+      }
+
+      const payload = (await response.json().catch(() => ({}))) as {
+        endpoint?: WebhookEndpointRow;
+        secret?: string | null;
+        delivery?: WebhookDeliveryRow;
+      };
+      if (payload.endpoint && payload.secret) {
+        setRevealedSecret({ endpointId: payload.endpoint.id, secret: payload.secret });
+      }
+
+      setMessage({
+        tone: payload.delivery?.status === "SUCCEEDED" || !payload.delivery ? "success" : "error",
+        text: payload.delivery?.lastError ? `${successText} ${payload.delivery.lastError}` : successText
+      });
+      await loadEndpoints();
+      if (selectedEndpointId) {
+        await loadDeliveries(selectedEndpointId);
+      }
+      return true;
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to update webhooks." });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const created = await runChange(
+      () =>
+        fetch("/api/org/webhooks", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft)
+        }),
+      "Webhook endpoint added. Copy the signing secret now; it is not shown again."
+    );
+    if (created) {
+      setDraft(EMPTY_DRAFT);
+    }
+  }
+
+  function patchEndpoint(endpoint: WebhookEndpointRow, body: Record<string, unknown>, successText: string) {
+    return runChange(
+      () =>
+        fetch(`/api/org/webhooks/${endpoint.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body)
+        }),
+      successText
+    );
+  }
+
+  function toggleDraftEventType(eventType: string) {
+    setDraft((current) => ({
+      ...current,
+      eventTypes: current.eventTypes.includes(eventType)
+        ? current.eventTypes.filter((value) => value !== eventType)
+        : [...current.eventTypes, eventType]
+    }));
+  }
+
+  if (!authzLoading && !canManageWebhooks) {
+    return (
+      <div className="page-stack">
+        <Card>
+          <h2 style={{ marginBottom: 8 }}>Webhooks</h2>
+          <p className="muted" style={{ margin: 0 }}>
+            Only owners and admins can manage webhook endpoints.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-stack">
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <Card className="section-shell">
+        <div className="card-title-row">
+          <div className="section-copy">
+            <span className="section-kicker">Integrations</span>
+            <div>
+              <h2 style={{ marginBottom: 4 }}>Webhooks</h2>
+              <p className="muted" style={{ margin: 0 }}>
+                POST signed JSON to your ticketing or chat tools when questionnaire and approval events happen.
+                Verify the <code>Webhook-Signature</code> header with the endpoint&apos;s signing secret.
+              </p>
+            </div>
+          </div>
+          <Badge tone="draft">{endpoints.length} endpoints</Badge>
+        </div>
+
+        {revealedSecret ? (
+          <div className="message-banner success">
+            Signing secret: <code>{revealedSecret.secret}</code>{" "}
+            <Button type="button" variant="ghost" onClick={() => setRevealedSecret(null)}>
+              Hide
+            </Button>
+          </div>
+        ) : null}
+
+        <form onSubmit={handleCreate} style={{ display: "grid", gap: 8 }} aria-label="Add webhook endpoint">
+          <div className="toolbar-row compact">
+            <TextInput
+              type="url"
+              value={draft.url}
+              onChange={(event) => setDraft((current) => ({ ...current, url: event.target.value }))}
+              placeholder="https://hooks.example.com/securityq"
+              aria-label="Endpoint URL"
+              style={{ minWidth: 320 }}
+            />
+            <TextInput
+              value={draft.description}
+              onChange={(event) => setDraft((current) => ({ ...current, description: event.target.value }))}
+              placeholder="Description (optional)"
+              aria-label="Description"
+              style={{ width: 220 }}
+            />
+          </div>
+          <div className="toolbar-row compact">
+            {eventTypes.map((eventType) => (
+              <label key={eventType} className="small">
+                <input
+                  type="checkbox"
+                  checked={draft.eventTypes.includes(eventType)}
+                  onChange={() => toggleDraftEventType(eventType)}
+                />{" "}
+                {eventTypeLabel(eventType)}
+              </label>
+            ))}
+          </div>
+          <div>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isSaving || !draft.url.trim() || draft.eventTypes.length === 0}
+            >
+              Add endpoint
+            </Button>
+          </div>
+        </form>
+
+        <div className="data-table-wrap">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Endpoint</th>
+                <th>Events</th>
+                <th>Secret</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {endpoints.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="muted">
+                    {isLoading ? "Loading webhooks..." : "No webhook endpoints yet."}
+                  </td>
+                </tr>
+              ) : (
+                endpoints.map((endpoint) => (
+                  <tr key={endpoint.id}>
+                    <td>
+                      <div>{endpoint.url}</div>
+                      <div className="small muted">
+                        {endpoint.description ?? "No description"} · {endpoint.enabled ? "Enabled" : "Disabled"}
+                      </div>
+                    </td>
+                    <td>
+                      <div className="toolbar-row compact">
+                        {eventTypes.map((eventType) => (
+                          <label key={eventType} className="small">
+                            <input
+                              type="checkbox"
+                              checked={endpoint.eventTypes.includes(eventType as WebhookEndpointRow["eventTypes"][number])}
+                              disabled={isSaving}
+                              onChange={(event) =>
+                                void patchEndpoint(
+                                  endpoint,
+                                  {
+                                    eventTypes: event.target.checked
+                                      ? [...endpoint.eventTypes, eventType]
+                                      : endpoint.eventTypes.filter((value) => value !== eventType)
+                                  },
+                                  "Event filters saved."
+                                )
+                              }
+                            />{" "}
+                            {eventTypeLabel(eventType)}
+                          </label>
+                        ))}
+                      </div>
+                    </td>
+                    <td>
+                      <code className="small">{endpoint.maskedSecret}</code>
+                    </td>
+                    <td>
+                      <div className="toolbar-row compact">
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          disabled={isSaving}
+                          onClick={() =>
+                            void runChange(
+                              () => fetch(`/api/org/webhooks/${endpoint.id}/test`, { method: "POST" }),
+                              "Test event sent."
+                            )
+                          }
+                        >
+                          Send test
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          onClick={() => setSelectedEndpointId(endpoint.id === selectedEndpointId ? null : endpoint.id)}
+                        >
+                          {endpoint.id === selectedEndpointId ? "Hide deliveries" : "Deliveries"}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() =>
+                            void patchEndpoint(
+                              endpoint,
+                              { enabled: !endpoint.enabled },
+                              endpoint.enabled ? "Endpoint disabled." : "Endpoint enabled."
+                            )
+                          }
+                        >
+                          {endpoint.enabled ? "Disable" : "Enable"}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() =>
+                            void patchEndpoint(
+                              endpoint,
+                              { rotateSecret: true },
+                              "Signing secret rotated. Copy the new secret now; it is not shown again."
+                            )
+                          }
+                        >
+                          Rotate secret
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() => {
+                            if (window.confirm(`Remove webhook endpoint ${endpoint.url}?`)) {
+                              if (endpoint.id === selectedEndpointId) {
+                                setSelectedEndpointId(null);
+                              }
+                              void runChange(
+                                () => fetch(`/api/org/webhooks/${endpoint.id}`, { method: "DELETE" }),
+                                "Webhook endpoint removed."
+                              );
+                            }
+                          }}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {selectedEndpoint ? (
+        <Card className="section-shell">
+          <div className="card-title-row">
+            <div className="section-copy">
+              <span className="section-kicker">Delivery log</span>
+              <div>
+                <h3 style={{ margin: 0 }}>{selectedEndpoint.url}</h3>
+                <p className="muted small" style={{ margin: "4px 0 0" }}>
+                  Latest 50 deliveries. Failed requests are retried with backoff for about nine hours.
+                </p>
+              </div>
+            </div>
+            <Button type="button" variant="ghost" onClick={() => void loadDeliveries(selectedEndpoint.id)}>
+              Refresh
+            </Button>
+          </div>
+
+          <div className="data-table-wrap">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Created</th>
+                  <th>Event</th>
+                  <th>Status</th>
+                  <th>Last attempt</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="muted">
+                      No deliveries yet.
+                    </td>
+                  </tr>
+                ) : (
+                  deliveries.map((delivery) => (
+                    <tr key={delivery.id}>
+                      <td>{formatTimestamp(delivery.createdAt)}</td>
+                      <td>
+                        <div>{eventTypeLabel(delivery.eventType)}</div>
+                        <div className="small muted">
+                          {delivery.eventId}
+                          {delivery.redeliveryOfId ? " · redelivery" : ""}
+                        </div>
+                      </td>
+                      <td>
+                        <Badge tone={deliveryTone(delivery.status)}>
+                          {delivery.status === "PENDING" && delivery.attempts > 0 ? "Retrying" : delivery.status}
+                        </Badge>
+                        <div className="small muted">
+                          {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                          {delivery.status === "PENDING" && delivery.nextAttemptAt
+                            ? ` · next ${formatTimestamp(delivery.nextAttemptAt)}`
+                            : ""}
+                        </div>
+                      </td>
+                      <td>
+                        <div>
+                          {formatTimestamp(delivery.lastAttemptAt)}
+                          {delivery.lastStatusCode ? ` · HTTP ${delivery.lastStatusCode}` : ""}
+                        </div>
+                        {delivery.lastError ? <div className="small muted">{delivery.lastError}</div> : null}
+                      </td>
+                      <td>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          disabled={isSaving}
+                          onClick={() =>
+                            void runChange(
+                              () => fetch(`/api/org/webhooks/deliveries/${delivery.id}/redeliver`, { method: "POST" }),
+                              "Event redelivered."
+                            )
+                          }
+                        >
+                          Redeliver
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
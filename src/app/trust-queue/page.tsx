@@ -1,18 +1,21 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { OperationalSummaryBand } from "@/components/OperationalSummaryBand";
+import { ReviewerReassignForm } from "@/components/ReviewerReassignForm";
 import { TrustQueueQuestionnaireGroups } from "@/components/TrustQueueQuestionnaireGroups";
 import { TrustQueueTable } from "@/components/TrustQueueTable";
 import { Button, Card, TextInput, cx } from "@/components/ui";
 import { getRequestContext, RequestContextError } from "@/lib/requestContext";
+import { listAssignableMembers } from "@/server/questionnaires/questionAssignments";
 import {
   listTrustQueueItemsForOrg,
   type TrustQueueFilter
 } from "@/server/trustQueue/listTrustQueueItems";
 import { getTrustQueueSessionForOrg } from "@/server/trustQueue/getTrustQueueSession";
-import { assertCan, RbacAction } from "@/server/rbac";
+import { assertCan, can, RbacAction } from "@/server/rbac";
 import {
   buildTrustQueueSessionHref,
+  isAssignedToMeParam,
   normalizeTrustQueueSessionFilterParam,
   toTrustQueueFilter,
   type TrustQueueSessionFilterParam
@@ -21,6 +24,7 @@ import {
 type TrustQueueSearchParams = {
   q?: string | string[];
   filter?: string | string[];
+  assignee?: string | string[];
 };
 
 const FILTER_OPTIONS: Array<{ value: "all" | "stale" | "needs-review"; label: string }> = [
@@ -46,7 +50,7 @@ function readSearchParam(value: string | string[] | undefined): string {
   return value ?? "";
 }
 
-function buildFilterHref(query: string, filter: TrustQueueSessionFilterParam): string {
+function buildFilterHref(query: string, filter: TrustQueueSessionFilterParam, assignedToMe: boolean): string {
   const params = new URLSearchParams();
   if (query) {
     params.set("q", query);
@@ -56,6 +60,10 @@ function buildFilterHref(query: string, filter: TrustQueueSessionFilterParam): s
     params.set("filter", filter);
   }
 
+  if (assignedToMe) {
+    params.set("assignee", "me");
+  }
+
   const next = params.toString();
   return next ? `/review/inbox?${next}` : "/review/inbox";
 }
@@ -69,6 +77,7 @@ export default async function TrustQueuePage({
   const query = readSearchParam(resolvedSearchParams.q).trim();
   const activeFilter = normalizeTrustQueueSessionFilterParam(readSearchParam(resolvedSearchParams.filter));
   const filter: TrustQueueFilter = toTrustQueueFilter(activeFilter);
+  const assignedToMe = isAssignedToMeParam(readSearchParam(resolvedSearchParams.assignee));
 
   let ctx;
   try {
@@ -82,6 +91,9 @@ export default async function TrustQueuePage({
       if (activeFilter !== "all") {
         callbackParams.set("filter", activeFilter);
       }
+      if (assignedToMe) {
+        callbackParams.set("assignee", "me");
+      }
 
       const callbackPath = callbackParams.toString()
         ? `/review/inbox?${callbackParams.toString()}`
@@ -97,20 +109,25 @@ export default async function TrustQueuePage({
   const queue = await listTrustQueueItemsForOrg(ctx, {
     query,
     filter,
+    assignedToMe,
     limit: 100
   });
   const reviewSession = await getTrustQueueSessionForOrg(ctx, {
     query,
     filter: activeFilter,
+    assignedToMe,
     currentItemId: null
   });
+  const canAssignReviewers = can(ctx.role, RbacAction.ASSIGN_REVIEWERS);
+  const assignableMembers = canAssignReviewers ? await listAssignableMembers(ctx.orgId) : [];
   const startReviewHref = reviewSession.firstItem
     ? buildTrustQueueSessionHref({
         questionnaireId: reviewSession.firstItem.questionnaireId,
         itemId: reviewSession.firstItem.itemId,
         rowFilter: reviewSession.firstItem.rowFilter,
         queueFilter: activeFilter,
-        queueQuery: query
+        queueQuery: query,
+        queueAssignedToMe: assignedToMe
       })
     : null;
 
@@ -148,6 +165,16 @@ export default async function TrustQueuePage({
             label: "Blocked",
             value: queue.summary.blockedQuestionnairesCount,
             helper: "Questionnaires carrying trust debt"
+          },
+          {
+            label: "Overdue",
+            value: queue.workload.overdueCount,
+            helper: "Past the questionnaire due date"
+          },
+          {
+            label: "Assigned to me",
+            value: queue.workload.assignedToMeCount,
+            helper: "Items you own"
           }
         ]}
       />
@@ -180,6 +207,7 @@ export default async function TrustQueuePage({
                 style={{ flex: "1 1 280px", minWidth: 0 }}
               />
               <input type="hidden" name="filter" value={activeFilter} />
+              {assignedToMe ? <input type="hidden" name="assignee" value="me" /> : null}
               <Button type="submit" variant="primary">
                 Apply
               </Button>
@@ -195,7 +223,7 @@ export default async function TrustQueuePage({
               return (
                 <Link
                   key={option.value}
-                  href={buildFilterHref(query, option.value)}
+                  href={buildFilterHref(query, option.value, assignedToMe)}
                   className={cx("btn", active ? "btn-primary" : "btn-ghost")}
                   aria-current={active ? "page" : undefined}
                 >
@@ -203,6 +231,13 @@ export default async function TrustQueuePage({
                 </Link>
               );
             })}
+            <Link
+              href={buildFilterHref(query, activeFilter, !assignedToMe)}
+              className={cx("btn", assignedToMe ? "btn-primary" : "btn-ghost")}
+              aria-pressed={assignedToMe}
+            >
+              Assigned to me
+            </Link>
           </div>
         </div>
       </Card>
@@ -218,6 +253,7 @@ export default async function TrustQueuePage({
         groups={queue.questionnaireGroups}
         queueFilter={activeFilter}
         queueQuery={query}
+        queueAssignedToMe={assignedToMe}
       />
 
       <div className="section-copy">
@@ -225,7 +261,14 @@ export default async function TrustQueuePage({
         <h3 style={{ margin: 0 }}>Priority-ordered reviewer inbox</h3>
       </div>
 
-      <TrustQueueTable rows={queue.rows} queueFilter={activeFilter} queueQuery={query} />
+      <TrustQueueTable
+        rows={queue.rows}
+        queueFilter={activeFilter}
+        queueQuery={query}
+        queueAssignedToMe={assignedToMe}
+      />
+
+      {canAssignReviewers ? <ReviewerReassignForm members={assignableMembers} /> : null}
     </div>
   );
 }
@@ -0,0 +1,199 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { Button, Card, TextArea, TextInput } from "@/components/ui";
+import type { PublicTrustPortalView } from "@/server/trustPortal/publicTrustPortal";
+
+type TrustPortalResponse = {
+  portal?: PublicTrustPortalView;
+  error?: {
+    message?: string;
+  };
+};
+
+type AccessRequestDraft = {
+  name: string;
+  email: string;
+  company: string;
+  reason: string;
+  acceptNda: boolean;
+};
+
+const EMPTY_REQUEST: AccessRequestDraft = {
+  name: "",
+  email: "",
+  company: "",
+  reason: "",
+  acceptNda: false
+};
+
+export function TrustPortalClient({ slug, accessToken }: { slug: string; accessToken: string }) {
+  const [portal, setPortal] = useState<PublicTrustPortalView | null>(null);
+  const [error, setError] = useState("");
+  const [draft, setDraft] = useState<AccessRequestDraft>(EMPTY_REQUEST);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [requestSubmitted, setRequestSubmitted] = useState(false);
+
+  const accessQuery = accessToken ? `?access=${encodeURIComponent(accessToken)}` : "";
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const response = await fetch(`/api/trust/${encodeURIComponent(slug)}${accessQuery}`, { cache: "no-store" });
+        const payload = (await response.json().catch(() => null)) as TrustPortalResponse | null;
+        if (!response.ok || !payload?.portal) {
+          throw new Error(payload?.error?.message ?? "Failed to load trust portal.");
+        }
+
+        setPortal(payload.portal);
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : "Failed to load trust portal.");
+      }
+    })();
+  }, [slug, accessQuery]);
+
+  async function handleRequestAccess(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/trust/${encodeURIComponent(slug)}/access-requests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft)
+      });
+      const payload = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error?.message ?? "Failed to submit access request.");
+      }
+
+      setRequestSubmitted(true);
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Failed to submit access request.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="page-stack" style={{ maxWidth: 960, margin: "0 auto", padding: "32px 16px" }}>
+      <section>
+        <span className="landing-kicker">Trust center</span>
+        <h1>{portal?.title ?? "Trust Center"}</h1>
+        {portal?.description ? <p className="muted">{portal.description}</p> : null}
+      </section>
+
+      {error ? <div className="message-banner error">{error}</div> : null}
+
+      {portal && !portal.hasAccess ? (
+        <Card className="section-shell">
+          <h2 style={{ marginBottom: 4 }}>Request Access</h2>
+          {requestSubmitted ? (
+            <p className="muted" style={{ margin: 0 }}>
+              Thanks. You will receive an access link by email once your request is approved.
+            </p>
+          ) : (
+            <form onSubmit={(event) => void handleRequestAccess(event)} style={{ display: "grid", gap: 8 }}>
+              <div className="toolbar-row compact">
+                <TextInput
+                  value={draft.name}
+                  onChange={(event) => setDraft((current) => ({ ...current, name: event.target.value }))}
+                  placeholder="Full name"
+                  aria-label="Full name"
+                  required
+                />
+                <TextInput
+                  type="email"
+                  value={draft.email}
+                  onChange={(event) => setDraft((current) => ({ ...current, email: event.target.value }))}
+                  placeholder="Work email"
+                  aria-label="Work email"
+                  required
+                />
+                <TextInput
+                  value={draft.company}
+                  onChange={(event) => setDraft((current) => ({ ...current, company: event.target.value }))}
+                  placeholder="Company"
+                  aria-label="Company"
+                />
+              </div>
+              <TextArea
+                value={draft.reason}
+                onChange={(event) => setDraft((current) => ({ ...current, reason: event.target.value }))}
+                placeholder="Why do you need access?"
+                aria-label="Reason"
+                rows={3}
+              />
+              {portal.ndaText ? (
+                <>
+                  <pre className="small" style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                    {portal.ndaText}
+                  </pre>
+                  <label className="small">
+                    <input
+                      type="checkbox"
+                      checked={draft.acceptNda}
+                      onChange={(event) => setDraft((current) => ({ ...current, acceptNda: event.target.checked }))}
+                    />{" "}
+                    I accept the NDA above
+                  </label>
+                </>
+              ) : null}
+              <div>
+                <Button
+                  type="submit"
+                  variant="primary"
+                  disabled={isSubmitting || (Boolean(portal.ndaText) && !draft.acceptNda)}
+                >
+                  Request access
+                </Button>
+              </div>
+            </form>
+          )}
+        </Card>
+      ) : null}
+
+      {portal?.hasAccess ? (
+        <>
+          <Card className="section-shell">
+            <h2 style={{ marginBottom: 4 }}>Security Answers</h2>
+            {portal.answers.length === 0 ? (
+              <p className="muted" style={{ margin: 0 }}>
+                No answers are published yet.
+              </p>
+            ) : (
+              portal.answers.map((answer) => (
+                <div key={answer.id}>
+                  <h3 style={{ marginBottom: 4 }}>{answer.questionText}</h3>
+                  <p style={{ marginTop: 0, whiteSpace: "pre-wrap" }}>{answer.answerText}</p>
+                </div>
+              ))
+            )}
+          </Card>
+
+          <Card className="section-shell">
+            <h2 style={{ marginBottom: 4 }}>Documents</h2>
+            {portal.documents.length === 0 ? (
+              <p className="muted" style={{ margin: 0 }}>
+                No documents are published yet.
+              </p>
+            ) : (
+              <ul style={{ margin: 0 }}>
+                {portal.documents.map((document) => (
+                  <li key={document.id}>
+                    <a
+                      href={`/api/trust/${encodeURIComponent(slug)}/documents/${encodeURIComponent(document.id)}${accessQuery}`}
+                    >
+                      {document.name}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
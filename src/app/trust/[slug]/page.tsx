@@ -0,0 +1,16 @@
+import { TrustPortalClient } from "@/app/trust/[slug]/TrustPortalClient";
+
+type TrustPortalPageProps = {
+  params: {
+    slug: string;
+  };
+  searchParams?: {
+    access?: string;
+  };
+};
+
+export default function TrustPortalPage({ params, searchParams }: TrustPortalPageProps) {
+  const accessToken = typeof searchParams?.access === "string" ? searchParams.access : "";
+
+  return <TrustPortalClient slug={params.slug} accessToken={accessToken} />;
+}
@@ -1,9 +1,17 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import NextAuth, { type NextAuthOptions, getServerSession } from "next-auth";
 import EmailProvider, { type SendVerificationRequestParams } from "next-auth/providers/email";
+import type { NextRequest } from "next/server";
 import { ensureUserOrganizationMembership } from "@/lib/organizationMembership";
 import { prisma } from "@/lib/prisma";
 import { sendMagicLinkEmail } from "@/server/email";
+import {
+  buildSsoProvider,
+  isMagicLinkBlocked,
+  isSsoProviderId,
+  listEnabledSsoConnections,
+  resolveSsoAutoJoin
+} from "@/server/sso/ssoConnections";
 
 const isProduction = process.env.NODE_ENV === "production";
 
@@ -91,7 +99,16 @@ export const authOptions: NextAuthOptions = {
     })
   ],
   callbacks: {
-    async signIn({ user, email }) {
+    async signIn({ user, email, account, profile }) {
+      if (isSsoProviderId(account?.provider)) {
+        // Membership is provisioned in events.signIn, once the adapter has created the user row.
+        return (await resolveSsoAutoJoin({ providerId: account.provider, email: user.email, profile })) !== null;
+      }
+
+      if (await isMagicLinkBlocked(user.email)) {
+        return "/login?error=SsoRequired";
+      }
+
       // Email provider calls signIn twice: once during verification request,
       // then again after the magic link is consumed.
       if (email?.verificationRequest) {
@@ -150,10 +167,47 @@ export const authOptions: NextAuthOptions = {
 
       return session;
     }
+  },
+  events: {
+    async signIn({ user, account, profile }) {
+      if (!isSsoProviderId(account?.provider)) {
+        return;
+      }
+
+      const autoJoin = await resolveSsoAutoJoin({ providerId: account.provider, email: user.email, profile });
+      if (!autoJoin) {
+        return;
+      }
+
+      try {
+        await ensureUserOrganizationMembership({
+          userId: user.id,
+          email: user.email ?? null,
+          name: user.name ?? null,
+          autoJoin
+        });
+      } catch (error) {
+        console.error("[auth] SSO membership provisioning failed during sign-in", error);
+      }
+    }
   }
 };
 
-export const authRouteHandler = NextAuth(authOptions);
+/**
+ * Adds a provider per enabled organization SSO connection. They change at runtime, so options are
+ * built per request from the briefly cached connection list.
+ */
+export async function buildAuthOptions(): Promise<NextAuthOptions> {
+  const connections = await listEnabledSsoConnections();
+  return {
+    ...authOptions,
+    providers: [...authOptions.providers, ...connections.map(buildSsoProvider)]
+  };
+}
+
+export async function authRouteHandler(request: NextRequest, context: { params: { nextauth: string[] } }) {
+  return NextAuth(request, context, await buildAuthOptions());
+}
 
 export async function auth() {
   try {
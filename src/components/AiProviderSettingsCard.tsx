@@ -0,0 +1,226 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+
+type AiProviderKind = "OPENAI" | "AZURE_OPENAI" | "OPENAI_COMPATIBLE" | "LOCAL";
+
+type AiProviderConfigDraft = {
+  apiVersion: string;
+  chatModel: string;
+  embeddingModel: string;
+  chatDeployment: string;
+  embeddingDeployment: string;
+};
+
+type AiProviderSettings = {
+  kind: AiProviderKind;
+  isDefault: boolean;
+  config: Partial<AiProviderConfigDraft>;
+  chatModel: string;
+  embeddingModel: string;
+  availableKinds: AiProviderKind[];
+};
+
+type AiProviderResponse = {
+  aiProvider?: AiProviderSettings;
+  reembedRequired?: boolean;
+  error?: {
+    message?: string;
+  };
+};
+
+const DEFAULT_KIND_OPTION = "DEFAULT";
+
+const PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  OPENAI: "OpenAI",
+  AZURE_OPENAI: "Azure OpenAI",
+  OPENAI_COMPATIBLE: "OpenAI-compatible server",
+  LOCAL: "Local (deterministic, offline)"
+};
+
+const CONFIG_FIELDS_BY_KIND: Record<AiProviderKind, Array<{ key: keyof AiProviderConfigDraft; label: string }>> = {
+  OPENAI: [
+    { key: "chatModel", label: "Chat model" },
+    { key: "embeddingModel", label: "Embedding model" }
+  ],
+  AZURE_OPENAI: [
+    { key: "apiVersion", label: "API version" },
+    { key: "chatDeployment", label: "Chat deployment" },
+    { key: "embeddingDeployment", label: "Embedding deployment" }
+  ],
+  OPENAI_COMPATIBLE: [
+    { key: "chatModel", label: "Chat model" },
+    { key: "embeddingModel", label: "Embedding model" }
+  ],
+  LOCAL: []
+};
+
+const EMPTY_CONFIG: AiProviderConfigDraft = {
+  apiVersion: "",
+  chatModel: "",
+  embeddingModel: "",
+  chatDeployment: "",
+  embeddingDeployment: ""
+};
+
+export function AiProviderSettingsCard() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [settings, setSettings] = useState<AiProviderSettings | null>(null);
+  const [selectedKind, setSelectedKind] = useState<string>(DEFAULT_KIND_OPTION);
+  const [configDraft, setConfigDraft] = useState<AiProviderConfigDraft>(EMPTY_CONFIG);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [messageType, setMessageType] = useState<"success" | "error">("success");
+
+  const canViewProvider = role ? can(role, RbacAction.VIEW_AI_PROVIDER) : false;
+  const canUpdateProvider = role ? can(role, RbacAction.UPDATE_AI_PROVIDER) : false;
+
+  function applySettings(next: AiProviderSettings) {
+    setSettings(next);
+    setSelectedKind(next.isDefault ? DEFAULT_KIND_OPTION : next.kind);
+    setConfigDraft({ ...EMPTY_CONFIG, ...next.config });
+  }
+
+  useEffect(() => {
+    if (authzLoading || !canViewProvider) {
+      return;
+    }
+
+    async function loadSettings() {
+      try {
+        const response = await fetch("/api/org/ai-provider", { cache: "no-store" });
+        const payload = (await response.json()) as AiProviderResponse;
+
+        if (!response.ok || !payload.aiProvider) {
+          throw new Error(payload.error?.message ?? "Failed to load AI provider settings.");
+        }
+
+        applySettings(payload.aiProvider);
+      } catch (error) {
+        setMessage(error instanceof Error ? error.message : "Failed to load AI provider settings.");
+        setMessageType("error");
+      }
+    }
+
+    void loadSettings();
+  }, [authzLoading, canViewProvider]);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      const kind = selectedKind === DEFAULT_KIND_OPTION ? null : (selectedKind as AiProviderKind);
+      const response = await fetch("/api/org/ai-provider", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          kind,
+          config: kind ? configDraft : undefined
+        })
+      });
+      const payload = (await response.json().catch(() => null)) as AiProviderResponse | null;
+
+      if (!response.ok || !payload?.aiProvider) {
+        throw new Error(payload?.error?.message ?? "Failed to update AI provider settings.");
+      }
+
+      applySettings(payload.aiProvider);
+      setMessage(
+        payload.reembedRequired
+          ? "AI provider saved. The embedding model changed, so re-run document embedding before autofill."
+          : "AI provider saved."
+      );
+      setMessageType("success");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update AI provider settings.");
+      setMessageType("error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (authzLoading || !canViewProvider) {
+    return null;
+  }
+
+  const availableKinds = settings?.availableKinds ?? (Object.keys(PROVIDER_LABELS) as AiProviderKind[]);
+  const configFields = selectedKind === DEFAULT_KIND_OPTION ? [] : CONFIG_FIELDS_BY_KIND[selectedKind as AiProviderKind];
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Answering</span>
+          <div>
+            <h2 style={{ marginBottom: 4 }}>AI Provider</h2>
+            <p className="muted" style={{ margin: 0 }}>
+              {settings
+                ? `Chat: ${settings.chatModel || "(not configured)"} · Embeddings: ${settings.embeddingModel}`
+                : "Loading provider settings..."}
+            </p>
+          </div>
+        </div>
+        <Badge tone={canUpdateProvider ? "review" : "draft"}>{canUpdateProvider ? "Owner" : "Read-only"}</Badge>
+      </div>
+
+      {message ? (
+        <div className={cx("message-banner", messageType === "error" ? "error" : "success")}>{message}</div>
+      ) : null}
+
+      <form className="page-stack" onSubmit={(event) => void handleSubmit(event)}>
+        <select
+          className="select"
+          value={selectedKind}
+          onChange={(event) => setSelectedKind(event.target.value)}
+          aria-label="AI provider"
+          disabled={!canUpdateProvider}
+          style={{ maxWidth: 320 }}
+        >
+          <option value={DEFAULT_KIND_OPTION}>Deployment default</option>
+          {availableKinds.map((kind) => (
+            <option key={kind} value={kind}>
+              {PROVIDER_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+
+        {configFields.length > 0 ? (
+          <div className="toolbar-row form-grid-three">
+            {configFields.map((field) => (
+              <TextInput
+                key={field.key}
+                type="text"
+                value={configDraft[field.key]}
+                onChange={(event) => setConfigDraft((current) => ({ ...current, [field.key]: event.target.value }))}
+                placeholder={`${field.label} (optional)`}
+                aria-label={field.label}
+                disabled={!canUpdateProvider}
+              />
+            ))}
+          </div>
+        ) : null}
+
+        <p className="muted" style={{ margin: 0 }}>
+          API keys and endpoints are read from server environment variables. Changing the embedding model requires re-embedding
+          documents; chunks embedded by another model are ignored during retrieval.
+        </p>
+
+        {canUpdateProvider ? (
+          <div>
+            <Button type="submit" variant="primary" disabled={isSaving || !settings}>
+              {isSaving ? "Saving..." : "Save provider"}
+            </Button>
+          </div>
+        ) : null}
+      </form>
+    </Card>
+  );
+}
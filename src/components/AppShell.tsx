@@ -58,7 +58,12 @@ type ActiveOrgSwitchPayload = {
 const ROLE_OPTIONS: Role[] = ["OWNER", "ADMIN", "REVIEWER", "VIEWER"];
 
 function isPublicRoute(pathname: string): boolean {
-  return pathname === "/" || pathname.startsWith("/login") || pathname.startsWith("/accept-invite");
+  return (
+    pathname === "/" ||
+    pathname.startsWith("/login") ||
+    pathname.startsWith("/accept-invite") ||
+    pathname.startsWith("/trust/")
+  );
 }
 
 function getPageMeta(pathname: string): PageMeta {
@@ -103,6 +108,46 @@ function getPageMeta(pathname: string): PageMeta {
     };
   }
 
+  if (pathname.startsWith("/settings/trust-portal")) {
+    return {
+      kicker: "Settings",
+      title: "Trust Portal",
+      subtitle: "Share approved answers and evidence with customers, and see who looked at what."
+    };
+  }
+
+  if (pathname.startsWith("/settings/sso")) {
+    return {
+      kicker: "Settings",
+      title: "Single Sign-On",
+      subtitle: "Send members through your identity provider and auto-join verified email domains."
+    };
+  }
+
+  if (pathname.startsWith("/settings/api-tokens")) {
+    return {
+      kicker: "Settings",
+      title: "API Tokens",
+      subtitle: "Script imports and exports from CI with scoped, expiring bearer tokens."
+    };
+  }
+
+  if (pathname.startsWith("/settings/webhooks")) {
+    return {
+      kicker: "Settings",
+      title: "Webhooks",
+      subtitle: "Notify ticketing and chat tools when questionnaires and approvals change."
+    };
+  }
+
+  if (pathname.startsWith("/settings/audit")) {
+    return {
+      kicker: "Settings",
+      title: "Audit Log",
+      subtitle: "Who changed what across evidence, questionnaires, approvals, and access."
+    };
+  }
+
   if (pathname.startsWith("/settings")) {
     return {
       kicker: "Settings",
@@ -257,17 +302,65 @@ export function AppShell({ devMode, children }: AppShellProps) {
     }
 
     if (pathname.startsWith("/settings")) {
-      return [
+      const items: NavItem[] = [
         {
           href: "/settings",
           label: "Members",
-          activeWhen: (route) => route.startsWith("/settings")
+          activeWhen: (route) =>
+            route.startsWith("/settings") &&
+            !route.startsWith("/settings/audit") &&
+            !route.startsWith("/settings/webhooks") &&
+            !route.startsWith("/settings/api-tokens") &&
+            !route.startsWith("/settings/sso") &&
+            !route.startsWith("/settings/trust-portal")
         }
       ];
+
+      if (authzState.role && can(authzState.role, RbacAction.MANAGE_SSO)) {
+        items.push({
+          href: "/settings/sso",
+          label: "SSO",
+          activeWhen: (route) => route.startsWith("/settings/sso")
+        });
+      }
+
+      if (authzState.role && can(authzState.role, RbacAction.MANAGE_TRUST_PORTAL)) {
+        items.push({
+          href: "/settings/trust-portal",
+          label: "Trust Portal",
+          activeWhen: (route) => route.startsWith("/settings/trust-portal")
+        });
+      }
+
+      if (authzState.role && can(authzState.role, RbacAction.CREATE_API_TOKENS)) {
+        items.push({
+          href: "/settings/api-tokens",
+          label: "API Tokens",
+          activeWhen: (route) => route.startsWith("/settings/api-tokens")
+        });
+      }
+
+      if (authzState.role && can(authzState.role, RbacAction.MANAGE_WEBHOOKS)) {
+        items.push({
+          href: "/settings/webhooks",
+          label: "Webhooks",
+          activeWhen: (route) => route.startsWith("/settings/webhooks")
+        });
+      }
+
+      if (authzState.role && can(authzState.role, RbacAction.VIEW_AUDIT_LOG)) {
+        items.push({
+          href: "/settings/audit",
+          label: "Audit",
+          activeWhen: (route) => route.startsWith("/settings/audit")
+        });
+      }
+
+      return items;
     }
 
     return [];
-  }, [pathname]);
+  }, [pathname, authzState.role]);
 
   const pageMeta = getPageMeta(pathname);
   const sectionTabs = subnavItems.length > 1 ? subnavItems : [];
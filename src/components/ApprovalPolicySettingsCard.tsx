@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Badge, Button, Card, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+
+type ApprovalPolicyResponse = {
+  approvalPolicy?: {
+    requireTwoPersonApproval: boolean;
+  };
+  error?: {
+    message?: string;
+  };
+};
+
+export function ApprovalPolicySettingsCard() {
+  const { loading: authzLoading, role } = useAppAuthz();
+  const [requireTwoPersonApproval, setRequireTwoPersonApproval] = useState<boolean | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [messageType, setMessageType] = useState<"success" | "error">("success");
+
+  const canViewPolicy = role ? can(role, RbacAction.VIEW_QUESTIONNAIRES) : false;
+  const canUpdatePolicy = role ? can(role, RbacAction.UPDATE_APPROVAL_POLICY) : false;
+
+  useEffect(() => {
+    if (authzLoading || !canViewPolicy) {
+      return;
+    }
+
+    async function loadPolicy() {
+      try {
+        const response = await fetch("/api/org/approval-policy", { cache: "no-store" });
+        const payload = (await response.json()) as ApprovalPolicyResponse;
+
+        if (!response.ok || !payload.approvalPolicy) {
+          throw new Error(payload.error?.message ?? "Failed to load approval policy.");
+        }
+
+        setRequireTwoPersonApproval(payload.approvalPolicy.requireTwoPersonApproval);
+      } catch (error) {
+        setMessage(error instanceof Error ? error.message : "Failed to load approval policy.");
+        setMessageType("error");
+      }
+    }
+
+    void loadPolicy();
+  }, [authzLoading, canViewPolicy]);
+
+  async function savePolicy(next: boolean) {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/org/approval-policy", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ requireTwoPersonApproval: next })
+      });
+      const payload = (await response.json().catch(() => null)) as ApprovalPolicyResponse | null;
+
+      if (!response.ok || !payload?.approvalPolicy) {
+        throw new Error(payload?.error?.message ?? "Failed to update approval policy.");
+      }
+
+      setRequireTwoPersonApproval(payload.approvalPolicy.requireTwoPersonApproval);
+      setMessage(
+        next
+          ? "Two-person approval is on. Questions and library answers now need sign-off from two different reviewers."
+          : "Two-person approval is off. Pending first sign-offs were cleared."
+      );
+      setMessageType("success");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update approval policy.");
+      setMessageType("error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (authzLoading || !canViewPolicy) {
+    return null;
+  }
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Review</span>
+          <div>
+            <h2 style={{ marginBottom: 4 }}>Approval policy</h2>
+            <p className="muted" style={{ margin: 0 }}>
+              {requireTwoPersonApproval === null
+                ? "Loading approval policy..."
+                : requireTwoPersonApproval
+                  ? "Two different reviewers must approve the same answer before a question is approved or a library answer is added or changed."
+                  : "A single reviewer's approval marks a question approved."}
+            </p>
+          </div>
+        </div>
+        <Badge tone={requireTwoPersonApproval ? "approved" : "draft"}>
+          {requireTwoPersonApproval ? "Two-person" : "Single reviewer"}
+        </Badge>
+      </div>
+
+      {message ? (
+        <div className={cx("message-banner", messageType === "error" ? "error" : "success")}>{message}</div>
+      ) : null}
+
+      {canUpdatePolicy && requireTwoPersonApproval !== null ? (
+        <div>
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={isSaving}
+            onClick={() => void savePolicy(!requireTwoPersonApproval)}
+          >
+            {isSaving
+              ? "Saving..."
+              : requireTwoPersonApproval
+                ? "Turn off two-person approval"
+                : "Require two-person approval"}
+          </Button>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -1,10 +1,26 @@
 "use client";
 
 import Link from "next/link";
-import { Badge, Button, Card } from "@/components/ui";
+import { FormEvent, useState } from "react";
+import { Badge, Button, Card, TextInput } from "@/components/ui";
+
+export type ApprovedAnswerDetailAlias = {
+  id: string;
+  questionText: string;
+};
+
+export type ApprovedAnswerDetailLinkedQuestion = {
+  questionId: string;
+  questionText: string;
+  questionnaireId: string;
+  questionnaireName: string;
+  matchType: "EXACT" | "SEMANTIC";
+  linkedAt: string;
+};
 
 export type ApprovedAnswerDetail = {
   approvedAnswerId: string;
+  questionText: string;
   answerText: string;
   approvedAt: string;
   freshness: "FRESH" | "STALE";
@@ -15,9 +31,13 @@ export type ApprovedAnswerDetail = {
     affectedCitationsCount: number;
     changedCount: number;
     missingCount: number;
+    expiredCount: number;
   };
   sourceQuestionnaireId: string | null;
   sourceItemId: string | null;
+  evidenceCollectionName: string | null;
+  aliases: ApprovedAnswerDetailAlias[];
+  linkedQuestions: ApprovedAnswerDetailLinkedQuestion[];
 };
 
 type ApprovedAnswerDetailContentProps = {
@@ -30,6 +50,11 @@ type ApprovedAnswerDetailContentProps = {
     disabled?: boolean;
     pending?: boolean;
   };
+  aliasActions?: {
+    onAdd: (questionText: string) => Promise<boolean>;
+    onRemove: (aliasId: string) => Promise<void> | void;
+    pending?: boolean;
+  };
 };
 
 function formatApprovedAt(value: string): string {
@@ -45,6 +70,34 @@ function renderBoolean(value: boolean): string {
   return value ? "Yes" : "No";
 }
 
+function parseAliases(value: unknown): ApprovedAnswerDetailAlias[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (entry): entry is ApprovedAnswerDetailAlias =>
+      Boolean(entry) && typeof entry.id === "string" && typeof entry.questionText === "string"
+  );
+}
+
+function parseLinkedQuestions(value: unknown): ApprovedAnswerDetailLinkedQuestion[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (entry): entry is ApprovedAnswerDetailLinkedQuestion =>
+      Boolean(entry) &&
+      typeof entry.questionId === "string" &&
+      typeof entry.questionText === "string" &&
+      typeof entry.questionnaireId === "string" &&
+      typeof entry.questionnaireName === "string" &&
+      (entry.matchType === "EXACT" || entry.matchType === "SEMANTIC") &&
+      typeof entry.linkedAt === "string"
+  );
+}
+
 export function parseApprovedAnswerDetail(payload: unknown): ApprovedAnswerDetail | null {
   if (!payload || typeof payload !== "object") {
     return null;
@@ -70,6 +123,7 @@ export function parseApprovedAnswerDetail(payload: unknown): ApprovedAnswerDetai
 
   return {
     approvedAnswerId: candidate.approvedAnswerId,
+    questionText: typeof candidate.questionText === "string" ? candidate.questionText : "",
     answerText: candidate.answerText,
     approvedAt: candidate.approvedAt,
     freshness: candidate.freshness,
@@ -84,20 +138,32 @@ export function parseApprovedAnswerDetail(payload: unknown): ApprovedAnswerDetai
         ? {
             affectedCitationsCount: staleReasonSummaryCandidate.affectedCitationsCount,
             changedCount: staleReasonSummaryCandidate.changedCount,
-            missingCount: staleReasonSummaryCandidate.missingCount
+            missingCount: staleReasonSummaryCandidate.missingCount,
+            expiredCount:
+              typeof staleReasonSummaryCandidate.expiredCount === "number" ? staleReasonSummaryCandidate.expiredCount : 0
           }
         : null,
     sourceQuestionnaireId:
       typeof candidate.sourceQuestionnaireId === "string" ? candidate.sourceQuestionnaireId : null,
-    sourceItemId: typeof candidate.sourceItemId === "string" ? candidate.sourceItemId : null
+    sourceItemId: typeof candidate.sourceItemId === "string" ? candidate.sourceItemId : null,
+    evidenceCollectionName:
+      candidate.evidenceCollection &&
+      typeof candidate.evidenceCollection === "object" &&
+      typeof (candidate.evidenceCollection as Record<string, unknown>).name === "string"
+        ? ((candidate.evidenceCollection as Record<string, unknown>).name as string)
+        : null,
+    aliases: parseAliases(candidate.aliases),
+    linkedQuestions: parseLinkedQuestions(candidate.linkedQuestions)
   };
 }
 
 export function ApprovedAnswerDetailContent({
   detail,
   currentQuestionText,
-  applyAction
+  applyAction,
+  aliasActions
 }: ApprovedAnswerDetailContentProps) {
+  const [aliasDraft, setAliasDraft] = useState("");
   const sourceItemHref =
     detail.sourceQuestionnaireId && detail.sourceItemId
       ? `/questionnaires/${detail.sourceQuestionnaireId}?itemId=${detail.sourceItemId}`
@@ -105,6 +171,17 @@ export function ApprovedAnswerDetailContent({
         ? `/questionnaires/${detail.sourceQuestionnaireId}`
         : null;
 
+  async function handleAliasSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!aliasActions || !aliasDraft.trim()) {
+      return;
+    }
+
+    if (await aliasActions.onAdd(aliasDraft.trim())) {
+      setAliasDraft("");
+    }
+  }
+
   return (
     <>
       {currentQuestionText ? (
@@ -148,6 +225,49 @@ export function ApprovedAnswerDetailContent({
         ) : null}
       </div>
 
+      {detail.questionText || detail.aliases.length > 0 || aliasActions ? (
+        <Card>
+          <div style={{ display: "grid", gap: 8 }}>
+            <strong>Question phrasings</strong>
+            {detail.questionText ? (
+              <div style={{ whiteSpace: "pre-wrap", overflowWrap: "anywhere" }}>{detail.questionText}</div>
+            ) : null}
+            {detail.aliases.map((alias) => (
+              <div key={alias.id} className="toolbar-row compact" style={{ justifyContent: "space-between" }}>
+                <span className="muted" style={{ overflowWrap: "anywhere" }}>
+                  {alias.questionText}
+                </span>
+                {aliasActions ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => void aliasActions.onRemove(alias.id)}
+                    disabled={aliasActions.pending}
+                    aria-label={`Remove alias ${alias.questionText}`}
+                  >
+                    Remove
+                  </Button>
+                ) : null}
+              </div>
+            ))}
+            {aliasActions ? (
+              <form className="toolbar-row compact" onSubmit={(event) => void handleAliasSubmit(event)}>
+                <TextInput
+                  value={aliasDraft}
+                  onChange={(event) => setAliasDraft(event.target.value)}
+                  placeholder="Add another way this question is asked"
+                  aria-label="New alias"
+                  style={{ flex: "1 1 240px", minWidth: 0 }}
+                />
+                <Button type="submit" variant="secondary" disabled={aliasActions.pending || !aliasDraft.trim()}>
+                  Add alias
+                </Button>
+              </form>
+            ) : null}
+          </div>
+        </Card>
+      ) : null}
+
       <Card>
         <div style={{ display: "grid", gap: 8 }}>
           <strong>Answer</strong>
@@ -195,9 +315,31 @@ export function ApprovedAnswerDetailContent({
             </span>
             <span>{renderBoolean(detail.suggestionAssisted)}</span>
           </div>
+          <div style={{ display: "grid", gap: 2 }}>
+            <span style={{ color: "var(--muted-text)", fontSize: "0.82rem", fontWeight: 600 }}>Evidence scope</span>
+            <span>{detail.evidenceCollectionName ?? "All documents"}</span>
+          </div>
         </div>
       </Card>
 
+      {detail.linkedQuestions.length > 0 ? (
+        <Card>
+          <div style={{ display: "grid", gap: 8 }}>
+            <strong>Reused by</strong>
+            {detail.linkedQuestions.map((linked) => (
+              <div key={linked.questionId} style={{ display: "grid", gap: 2 }}>
+                <Link href={`/questionnaires/${linked.questionnaireId}?itemId=${linked.questionId}`}>
+                  {linked.questionText}
+                </Link>
+                <span className="small muted">
+                  {linked.questionnaireName} · {linked.matchType === "EXACT" ? "Exact match" : "Similar match"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      ) : null}
+
       {detail.staleReasonSummary ? (
         <Card>
           <div style={{ display: "grid", gap: 10 }}>
@@ -227,6 +369,12 @@ export function ApprovedAnswerDetailContent({
                 </span>
                 <span>{detail.staleReasonSummary.missingCount}</span>
               </div>
+              <div style={{ display: "grid", gap: 2 }}>
+                <span style={{ color: "var(--muted-text)", fontSize: "0.82rem", fontWeight: 600 }}>
+                  Expired documents
+                </span>
+                <span>{detail.staleReasonSummary.expiredCount}</span>
+              </div>
             </div>
           </div>
         </Card>
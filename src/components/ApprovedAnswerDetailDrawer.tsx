@@ -1,9 +1,12 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { useAppAuthz } from "@/components/AppAuthzContext";
 import { ApprovedAnswerDetailContent, parseApprovedAnswerDetail, type ApprovedAnswerDetail } from "@/components/ApprovedAnswerDetailContent";
+import { CommentThreadPanel } from "@/components/CommentThreadPanel";
 import { Button } from "@/components/ui";
 import { useFocusTrap } from "@/lib/useFocusTrap";
+import { can, RbacAction } from "@/server/rbac";
 
 type ApprovedAnswerDetailDrawerProps = {
   approvedAnswerId: string | null;
@@ -18,6 +21,12 @@ export function ApprovedAnswerDetailDrawer({
   const [detail, setDetail] = useState<ApprovedAnswerDetail | null>(null);
   const [errorMessage, setErrorMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [aliasErrorMessage, setAliasErrorMessage] = useState("");
+  const [isSavingAlias, setIsSavingAlias] = useState(false);
+  const { role } = useAppAuthz();
+  const canEditAliases = role ? can(role, RbacAction.EDIT_APPROVED_ANSWERS) : false;
+  const canComment = role ? can(role, RbacAction.COMMENT) : false;
 
   useFocusTrap({
     active: Boolean(approvedAnswerId),
@@ -36,7 +45,6 @@ export function ApprovedAnswerDetailDrawer({
     const controller = new AbortController();
     let cancelled = false;
 
-    setDetail(null);
     setErrorMessage("");
     setIsLoading(true);
 
@@ -104,8 +112,37 @@ export function ApprovedAnswerDetailDrawer({
       cancelled = true;
       controller.abort();
     };
+  }, [approvedAnswerId, reloadKey]);
+
+  useEffect(() => {
+    setDetail(null);
+    setAliasErrorMessage("");
   }, [approvedAnswerId]);
 
+  async function sendAliasRequest(url: string, init: RequestInit): Promise<boolean> {
+    setIsSavingAlias(true);
+    setAliasErrorMessage("");
+
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+        setAliasErrorMessage(
+          typeof payload?.error?.message === "string" ? payload.error.message : "Failed to update aliases."
+        );
+        return false;
+      }
+
+      setReloadKey((current) => current + 1);
+      return true;
+    } catch (error) {
+      setAliasErrorMessage(error instanceof Error ? error.message : "Failed to update aliases.");
+      return false;
+    } finally {
+      setIsSavingAlias(false);
+    }
+  }
+
   if (!approvedAnswerId) {
     return null;
   }
@@ -154,10 +191,43 @@ export function ApprovedAnswerDetailDrawer({
           </Button>
         </div>
 
-        {isLoading ? <div style={{ color: "var(--muted-text)" }}>Loading approved answer details…</div> : null}
+        {isLoading && !detail ? <div style={{ color: "var(--muted-text)" }}>Loading approved answer details…</div> : null}
         {!isLoading && errorMessage ? <div className="message-banner error">{errorMessage}</div> : null}
-
-        {!isLoading && !errorMessage && detail ? <ApprovedAnswerDetailContent detail={detail} /> : null}
+        {aliasErrorMessage ? <div className="message-banner error">{aliasErrorMessage}</div> : null}
+
+        {!errorMessage && detail ? (
+          <ApprovedAnswerDetailContent
+            detail={detail}
+            aliasActions={
+              canEditAliases
+                ? {
+                    onAdd: (questionText) =>
+                      sendAliasRequest(`/api/approved-answers/${detail.approvedAnswerId}/aliases`, {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ questionText })
+                      }),
+                    onRemove: async (aliasId) => {
+                      await sendAliasRequest(`/api/approved-answers/${detail.approvedAnswerId}/aliases/${aliasId}`, {
+                        method: "DELETE"
+                      });
+                    },
+                    pending: isSavingAlias || isLoading
+                  }
+                : undefined
+            }
+          />
+        ) : null}
+
+        {!errorMessage && detail ? (
+          <div style={{ display: "grid", gap: 8 }}>
+            <h3 style={{ margin: 0 }}>Comments</h3>
+            <CommentThreadPanel
+              endpoint={`/api/approved-answers/${detail.approvedAnswerId}/comments`}
+              canComment={canComment}
+            />
+          </div>
+        ) : null}
       </div>
     </div>
   );
@@ -31,7 +31,8 @@ export function ApprovedAnswersLibraryTable({ rows }: ApprovedAnswersLibraryTabl
         <div style={{ display: "grid", gap: 6 }}>
           <strong>No approved answers yet.</strong>
           <span style={{ color: "var(--muted-text)" }}>
-            Approve answers in the questionnaire review workbench to build the reusable claims library.
+            Approve answers in the questionnaire review workbench, or author one above, to build the reusable claims
+            library.
           </span>
         </div>
       </Card>
@@ -60,7 +61,7 @@ export function ApprovedAnswersLibraryTable({ rows }: ApprovedAnswersLibraryTabl
                   <div className="review-card-copy">
                     <strong className="review-card-title">{row.answerPreview || "No approved answer text."}</strong>
                     <span className="review-card-subtitle">
-                      Open the detail view to inspect citations, provenance, and reuse context.
+                      {row.questionText || "Open the detail view to inspect citations, provenance, and reuse context."}
                     </span>
                   </div>
                   <Badge tone={row.freshness === "STALE" ? "review" : "approved"}>
@@ -85,6 +86,16 @@ export function ApprovedAnswersLibraryTable({ rows }: ApprovedAnswersLibraryTabl
                     <span className="review-meta-label">Suggestion-assisted</span>
                     <span>{renderBoolean(row.suggestionAssisted)}</span>
                   </div>
+                  <div className="review-meta-item">
+                    <span className="review-meta-label">Aliases</span>
+                    <span>{row.aliasCount}</span>
+                  </div>
+                  <div className="review-meta-item">
+                    <span className="review-meta-label">Reused by</span>
+                    <span>
+                      {row.reuseCount} question{row.reuseCount === 1 ? "" : "s"}
+                    </span>
+                  </div>
                 </div>
               </button>
             </Card>
@@ -0,0 +1,231 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { Badge, Button, TextArea, cx } from "@/components/ui";
+import type { CommentRow, CommentThread, CommentThreadList } from "@/server/comments/comments";
+
+type CommentThreadPanelProps = {
+  /** Collection endpoint for the item, e.g. `/api/approved-answers/:id/comments`. */
+  endpoint: string;
+  canComment: boolean;
+  onCommentsChanged?: () => Promise<unknown> | void;
+};
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+function formatCommentTimestamp(value: string): string {
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? "" : new Date(parsed).toLocaleString();
+}
+
+function CommentBody({ comment }: { comment: CommentRow }) {
+  return (
+    <div style={{ display: "grid", gap: 4 }}>
+      <div className="small muted">
+        <strong>{comment.authorEmail || "Former member"}</strong> · {formatCommentTimestamp(comment.createdAt)}
+      </div>
+      <div style={{ whiteSpace: "pre-wrap" }}>{comment.body}</div>
+      {comment.mentions.length > 0 ? (
+        <div className="small muted">Mentioned {comment.mentions.map((member) => member.email).join(", ")}</div>
+      ) : null}
+    </div>
+  );
+}
+
+export function CommentThreadPanel({ endpoint, canComment, onCommentsChanged }: CommentThreadPanelProps) {
+  const [comments, setComments] = useState<CommentThreadList | null>(null);
+  const [draft, setDraft] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [mentionEmail, setMentionEmail] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const loadComments = useCallback(async () => {
+    const response = await fetch(endpoint, { cache: "no-store" });
+    if (!response.ok) {
+      setMessage({ tone: "error", text: await readErrorMessage(response, "Failed to load comments.") });
+      return;
+    }
+
+    setComments((await response.json()) as CommentThreadList);
+  }, [endpoint]);
+
+  useEffect(() => {
+    setComments(null);
+    setDraft("");
+    setReplyDrafts({});
+    setMessage(null);
+    void loadComments();
+  }, [loadComments]);
+
+  async function runChange(request: () => Promise<Response>, onSuccess?: () => void) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to update comments."));
+      }
+
+      onSuccess?.();
+      await loadComments();
+      await onCommentsChanged?.();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to update comments." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function postComment(body: string, parentId: string | null, onSuccess: () => void) {
+    return runChange(
+      () =>
+        fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body, parentId })
+        }),
+      onSuccess
+    );
+  }
+
+  function setResolved(thread: CommentThread, resolved: boolean) {
+    return runChange(() =>
+      fetch(`/api/comments/${thread.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved })
+      })
+    );
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void postComment(draft, null, () => setDraft(""));
+  }
+
+  function insertMention(email: string) {
+    setMentionEmail("");
+    if (email) {
+      setDraft((current) => `${current}${current && !/\s$/.test(current) ? " " : ""}@${email} `);
+    }
+  }
+
+  if (!comments) {
+    return <div className="muted small">Loading comments...</div>;
+  }
+
+  const visibleThreads = comments.threads.filter((thread) => showResolved || !thread.resolvedAt);
+  const resolvedCount = comments.threads.length - comments.unresolvedCount;
+
+  return (
+    <div className="context-section-stack">
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <div className="toolbar-row compact">
+        <Badge tone={comments.unresolvedCount > 0 ? "review" : "draft"}>{comments.unresolvedCount} open</Badge>
+        {resolvedCount > 0 ? (
+          <Button type="button" variant="ghost" onClick={() => setShowResolved((value) => !value)}>
+            {showResolved ? "Hide resolved" : `Show ${resolvedCount} resolved`}
+          </Button>
+        ) : null}
+      </div>
+
+      {visibleThreads.length === 0 ? (
+        <div className="muted small">No open comments on this item.</div>
+      ) : (
+        visibleThreads.map((thread) => (
+          <div key={thread.id} className="review-meta-item" style={{ display: "grid", gap: 8 }}>
+            <CommentBody comment={thread} />
+            {thread.replies.map((reply) => (
+              <div key={reply.id} style={{ marginLeft: 16 }}>
+                <CommentBody comment={reply} />
+              </div>
+            ))}
+            {thread.resolvedAt ? (
+              <div className="small muted">
+                Resolved{thread.resolvedByEmail ? ` by ${thread.resolvedByEmail}` : ""} ·{" "}
+                {formatCommentTimestamp(thread.resolvedAt)}
+              </div>
+            ) : null}
+            {canComment ? (
+              <div style={{ display: "grid", gap: 6 }}>
+                {!thread.resolvedAt ? (
+                  <TextArea
+                    rows={2}
+                    value={replyDrafts[thread.id] ?? ""}
+                    onChange={(event) => setReplyDrafts((current) => ({ ...current, [thread.id]: event.target.value }))}
+                    placeholder="Reply"
+                    aria-label="Reply"
+                  />
+                ) : null}
+                <div className="toolbar-row compact">
+                  {!thread.resolvedAt ? (
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      disabled={isSaving || !(replyDrafts[thread.id] ?? "").trim()}
+                      onClick={() =>
+                        void postComment(replyDrafts[thread.id] ?? "", thread.id, () =>
+                          setReplyDrafts((current) => ({ ...current, [thread.id]: "" }))
+                        )
+                      }
+                    >
+                      Reply
+                    </Button>
+                  ) : null}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    disabled={isSaving}
+                    onClick={() => void setResolved(thread, !thread.resolvedAt)}
+                  >
+                    {thread.resolvedAt ? "Reopen" : "Resolve"}
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ))
+      )}
+
+      {canComment ? (
+        <form onSubmit={handleSubmit} style={{ display: "grid", gap: 6 }}>
+          <TextArea
+            rows={3}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            placeholder="Start a thread. Mention a teammate with @email."
+            aria-label="New comment"
+          />
+          <div className="toolbar-row compact">
+            <select
+              className="select"
+              value={mentionEmail}
+              onChange={(event) => insertMention(event.target.value)}
+              aria-label="Mention a member"
+              style={{ width: 220 }}
+            >
+              <option value="">Mention...</option>
+              {comments.members
+                .filter((member) => member.email)
+                .map((member) => (
+                  <option key={member.userId} value={member.email}>
+                    {member.email}
+                  </option>
+                ))}
+            </select>
+            <Button type="submit" variant="primary" disabled={isSaving || !draft.trim()}>
+              {isSaving ? "Saving..." : "Comment"}
+            </Button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
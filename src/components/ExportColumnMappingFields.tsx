@@ -0,0 +1,55 @@
+"use client";
+
+import type { ExportColumnMapping } from "@/shared/exportColumns";
+
+type ExportColumnMappingFieldsProps = {
+  idPrefix: string;
+  headers: string[];
+  questionColumn: string | null;
+  value: ExportColumnMapping;
+  onChange: (next: ExportColumnMapping) => void;
+  disabled?: boolean;
+};
+
+const FIELDS: Array<{ key: keyof ExportColumnMapping; label: string; unmappedLabel: string }> = [
+  { key: "answerColumn", label: "Answer column", unmappedLabel: 'Append "Answer" column' },
+  { key: "yesNoColumn", label: "Yes/No column", unmappedLabel: "Do not write Yes/No" },
+  { key: "citationsColumn", label: "Citations column", unmappedLabel: 'Append "Citations" column' }
+];
+
+export function ExportColumnMappingFields({
+  idPrefix,
+  headers,
+  questionColumn,
+  value,
+  onChange,
+  disabled = false
+}: ExportColumnMappingFieldsProps) {
+  const options = headers.filter((header) => header !== questionColumn);
+
+  return (
+    <div>
+      {FIELDS.map((field) => (
+        <div key={field.key} style={{ marginTop: 10 }}>
+          <label className="small muted" htmlFor={`${idPrefix}-${field.key}`}>
+            {field.label}
+          </label>
+          <select
+            id={`${idPrefix}-${field.key}`}
+            className="select"
+            value={value[field.key] ?? ""}
+            onChange={(event) => onChange({ ...value, [field.key]: event.target.value || null })}
+            disabled={disabled || headers.length === 0}
+          >
+            <option value="">{field.unmappedLabel}</option>
+            {options.map((header) => (
+              <option key={header} value={header}>
+                {header}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,14 +7,30 @@ import {
   parseExportBlockedError,
   type ExportBlockedStaleError
 } from "@/shared/exportErrors";
+import {
+  EMPTY_EXPORT_COLUMN_MAPPING,
+  validateExportColumnMapping,
+  type ExportColumnMapping
+} from "@/shared/exportColumns";
+import { parseInternalSnippetPolicy, type InternalSnippetPolicy } from "@/shared/evidenceShareability";
+import { ExportColumnMappingFields } from "@/components/ExportColumnMappingFields";
 import { Button, cx } from "@/components/ui";
 
 export type ExportMode = "preferApproved" | "approvedOnly" | "generated";
+export type ExportFormat = "csv" | "xlsx";
 
 type ExportModalProps = {
   isOpen: boolean;
   questionnaireId: string | null;
   questionnaireName: string;
+  /** Workbook imports can be exported back into the original file. */
+  sourceFormat?: "CSV" | "XLSX";
+  sourceHeaders?: string[];
+  questionColumn?: string | null;
+  /** Saved mapping of answer, Yes/No and citations onto existing source columns. */
+  exportColumns?: ExportColumnMapping;
+  canEditExportColumns?: boolean;
+  onExportColumnsSaved?: (exportColumns: ExportColumnMapping) => void;
   onClose: () => void;
   onSuccess?: (message: string) => void;
   onError?: (message: string) => void;
@@ -54,8 +70,16 @@ function buildDateStamp(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
 
-function buildDownloadFileName(questionnaireName: string, date = new Date()): string {
-  return `${sanitizeFileName(questionnaireName)}-${buildDateStamp(date)}-export.csv`;
+function buildDownloadFileName(questionnaireName: string, format: ExportFormat, date = new Date()): string {
+  return `${sanitizeFileName(questionnaireName)}-${buildDateStamp(date)}-export.${format}`;
+}
+
+function isSameMapping(left: ExportColumnMapping, right: ExportColumnMapping): boolean {
+  return (
+    left.answerColumn === right.answerColumn &&
+    left.yesNoColumn === right.yesNoColumn &&
+    left.citationsColumn === right.citationsColumn
+  );
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -114,6 +138,12 @@ export function ExportModal({
   isOpen,
   questionnaireId,
   questionnaireName,
+  sourceFormat = "CSV",
+  sourceHeaders = [],
+  questionColumn = null,
+  exportColumns = EMPTY_EXPORT_COLUMN_MAPPING,
+  canEditExportColumns = false,
+  onExportColumnsSaved,
   onClose,
   onSuccess,
   onError,
@@ -121,12 +151,17 @@ export function ExportModal({
   onReviewStale
 }: ExportModalProps) {
   const [mode, setMode] = useState<ExportMode>("preferApproved");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [internalSnippets, setInternalSnippets] = useState<InternalSnippetPolicy>("redact");
+  const [columns, setColumns] = useState<ExportColumnMapping>(exportColumns);
   const [isExporting, setIsExporting] = useState(false);
   const [isCheckingApprovedOnly, setIsCheckingApprovedOnly] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const [approvedOnlyPreflight, setApprovedOnlyPreflight] = useState<ExportBlockedStaleError | null>(null);
   const [blockedExport, setBlockedExport] = useState<ExportBlockedStaleError | null>(null);
   const modalRef = useRef<HTMLDivElement | null>(null);
+  const { answerColumn: savedAnswerColumn, yesNoColumn: savedYesNoColumn, citationsColumn: savedCitationsColumn } =
+    exportColumns;
 
   useEffect(() => {
     if (!isOpen) {
@@ -134,12 +169,18 @@ export function ExportModal({
     }
 
     setMode("preferApproved");
+    setFormat(sourceFormat === "XLSX" ? "xlsx" : "csv");
+    setColumns({
+      answerColumn: savedAnswerColumn,
+      yesNoColumn: savedYesNoColumn,
+      citationsColumn: savedCitationsColumn
+    });
     setErrorMessage("");
     setIsExporting(false);
     setIsCheckingApprovedOnly(false);
     setApprovedOnlyPreflight(null);
     setBlockedExport(null);
-  }, [isOpen, questionnaireId]);
+  }, [isOpen, questionnaireId, sourceFormat, savedAnswerColumn, savedYesNoColumn, savedCitationsColumn]);
 
   useEffect(() => {
     if (mode !== "approvedOnly") {
@@ -183,9 +224,11 @@ export function ExportModal({
   }, [isOpen, questionnaireId, loadApprovedOnlyPreflight]);
 
   const fileName = useMemo(
-    () => buildDownloadFileName(questionnaireName || "questionnaire"),
-    [questionnaireName]
+    () => buildDownloadFileName(questionnaireName || "questionnaire", format),
+    [questionnaireName, format]
   );
+  const columnsError = validateExportColumnMapping({ mapping: columns, headers: sourceHeaders, questionColumn });
+  const columnsChanged = !isSameMapping(columns, exportColumns);
   const activeBlockedInfo = mode === "approvedOnly" ? blockedExport ?? approvedOnlyPreflight : null;
   const approvedOnlyExportBlocked = Boolean(activeBlockedInfo?.staleCount);
 
@@ -225,8 +268,27 @@ export function ExportModal({
     setBlockedExport(null);
 
     try {
+      let savedColumns: ExportColumnMapping | null = null;
+      if (canEditExportColumns && columnsChanged) {
+        const saveResponse = await fetch(`/api/questionnaires/${questionnaireId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ exportColumns: columns })
+        });
+
+        if (!saveResponse.ok) {
+          throw new Error((await readExportFailure(saveResponse)).message);
+        }
+
+        savedColumns = ((await saveResponse.json()) as { exportColumns: ExportColumnMapping }).exportColumns;
+      }
+
       const url = new URL(`/api/questionnaires/${questionnaireId}/export`, window.location.origin);
       url.searchParams.set("mode", mode);
+      url.searchParams.set("internalSnippets", internalSnippets);
+      if (format === "xlsx") {
+        url.searchParams.set("format", "xlsx");
+      }
 
       const response = await fetch(url.toString(), {
         method: "GET"
@@ -252,6 +314,9 @@ export function ExportModal({
       anchor.remove();
       URL.revokeObjectURL(objectUrl);
 
+      if (savedColumns) {
+        onExportColumnsSaved?.(savedColumns);
+      }
       onSuccess?.(`Export complete: ${fileName}`);
       onClose();
     } catch (error) {
@@ -272,7 +337,9 @@ export function ExportModal({
       <div className="overlay-modal-card export-modal-card" ref={modalRef} tabIndex={-1}>
         <h3 style={{ marginTop: 0, marginBottom: 4 }}>Export Questionnaire</h3>
         <p className="small muted" style={{ marginTop: 0 }}>
-          Choose export mode and download a CSV snapshot.
+          {sourceFormat === "XLSX"
+            ? "Choose export mode, then fill the original workbook or download a CSV snapshot."
+            : "Choose export mode and download a CSV snapshot."}
         </p>
 
         <div className="export-mode-list">
@@ -322,6 +389,59 @@ export function ExportModal({
           </div>
         ) : null}
 
+        {sourceFormat === "XLSX" ? (
+          <div style={{ marginTop: 12 }}>
+            <label className="small muted" htmlFor="export-file-format">
+              File format
+            </label>
+            <select
+              id="export-file-format"
+              className="select"
+              value={format}
+              onChange={(event) => setFormat(event.target.value as ExportFormat)}
+              disabled={isExporting}
+            >
+              <option value="xlsx">Original workbook (.xlsx)</option>
+              <option value="csv">CSV snapshot</option>
+            </select>
+          </div>
+        ) : null}
+
+        <div style={{ marginTop: 12 }}>
+          <label className="small muted" htmlFor="export-internal-snippets">
+            Internal-only evidence
+          </label>
+          <select
+            id="export-internal-snippets"
+            className="select"
+            value={internalSnippets}
+            onChange={(event) => setInternalSnippets(parseInternalSnippetPolicy(event.target.value))}
+            disabled={isExporting}
+          >
+            <option value="redact">Redact quoted text, keep the reference</option>
+            <option value="omit">Omit the citation</option>
+          </select>
+        </div>
+
+        {sourceHeaders.length > 0 ? (
+          <div style={{ marginTop: 12 }}>
+            <ExportColumnMappingFields
+              idPrefix="export-columns"
+              headers={sourceHeaders}
+              questionColumn={questionColumn}
+              value={columns}
+              onChange={setColumns}
+              disabled={isExporting || !canEditExportColumns}
+            />
+            <p className="small muted" style={{ marginBottom: 0 }}>
+              {canEditExportColumns
+                ? "Mapped columns are filled in place. Changes are saved for future exports."
+                : "Mapped columns are filled in place. An admin can change this mapping."}
+            </p>
+            {columnsError ? <div className="message-banner error">{columnsError}</div> : null}
+          </div>
+        ) : null}
+
         <p className="small muted export-file-hint">Filename: {fileName}</p>
         {errorMessage ? <div className="message-banner error">{errorMessage}</div> : null}
 
@@ -330,13 +450,19 @@ export function ExportModal({
             type="button"
             variant="primary"
             onClick={() => void handleExport()}
-            disabled={isExporting || (mode === "approvedOnly" && (isCheckingApprovedOnly || approvedOnlyExportBlocked))}
+            disabled={
+              isExporting ||
+              Boolean(columnsError) ||
+              (mode === "approvedOnly" && (isCheckingApprovedOnly || approvedOnlyExportBlocked))
+            }
           >
             {isExporting ? (
               <>
                 <span className="button-spinner" aria-hidden="true" />
                 Exporting...
               </>
+            ) : format === "xlsx" ? (
+              "Download workbook"
             ) : (
               "Download CSV"
             )}
@@ -0,0 +1,207 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Button, Card, TextArea, TextInput, cx } from "@/components/ui";
+import { can, RbacAction } from "@/server/rbac";
+
+type EvidenceCitation = {
+  docName: string;
+  chunkId: string;
+  quotedSnippet: string;
+};
+
+type ErrorPayload = {
+  error?: {
+    message?: unknown;
+  };
+};
+
+function readErrorMessage(payload: unknown, fallback: string): string {
+  const message = (payload as ErrorPayload | null)?.error?.message;
+  return typeof message === "string" ? message : fallback;
+}
+
+function parseAliasLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function LibraryAnswerComposer() {
+  const router = useRouter();
+  const { role } = useAppAuthz();
+  const [questionText, setQuestionText] = useState("");
+  const [aliasText, setAliasText] = useState("");
+  const [answerText, setAnswerText] = useState("");
+  const [citations, setCitations] = useState<EvidenceCitation[]>([]);
+  const [selectedChunkIds, setSelectedChunkIds] = useState<string[]>([]);
+  const [isFindingEvidence, setIsFindingEvidence] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  if (!role || !can(role, RbacAction.APPROVE_ANSWERS)) {
+    return null;
+  }
+
+  async function handleFindEvidence() {
+    if (!questionText.trim()) {
+      setMessage({ tone: "error", text: "Enter the question before looking for evidence." });
+      return;
+    }
+
+    setIsFindingEvidence(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/questions/answer", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question: questionText.trim() })
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | (ErrorPayload & { answer?: unknown; citations?: EvidenceCitation[] })
+        | null;
+
+      if (!response.ok) {
+        throw new Error(readErrorMessage(payload, "Failed to find evidence."));
+      }
+
+      const nextCitations = Array.isArray(payload?.citations) ? payload.citations : [];
+      setCitations(nextCitations);
+      setSelectedChunkIds(nextCitations.map((citation) => citation.chunkId));
+      if (!answerText.trim() && typeof payload?.answer === "string") {
+        setAnswerText(payload.answer);
+      }
+      if (nextCitations.length === 0) {
+        setMessage({ tone: "error", text: "No supporting evidence found for this question." });
+      }
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to find evidence." });
+    } finally {
+      setIsFindingEvidence(false);
+    }
+  }
+
+  function toggleCitation(chunkId: string) {
+    setSelectedChunkIds((current) =>
+      current.includes(chunkId) ? current.filter((id) => id !== chunkId) : [...current, chunkId]
+    );
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/approved-answers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: questionText.trim(),
+          aliases: parseAliasLines(aliasText),
+          answerText: answerText.trim(),
+          citationChunkIds: selectedChunkIds
+        })
+      });
+      const payload = (await response.json().catch(() => null)) as unknown;
+
+      if (!response.ok) {
+        throw new Error(readErrorMessage(payload, "Failed to add library answer."));
+      }
+
+      setQuestionText("");
+      setAliasText("");
+      setAnswerText("");
+      setCitations([]);
+      setSelectedChunkIds([]);
+      setMessage({
+        tone: "success",
+        text:
+          response.status === 202
+            ? "Signed off. A second reviewer must approve this answer before it joins the library."
+            : "Added to the answer library."
+      });
+      router.refresh();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to add library answer." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Author</span>
+          <div>
+            <h3 style={{ margin: 0 }}>New library answer</h3>
+            <p className="muted small" style={{ margin: "4px 0 0" }}>
+              Write a canonical answer once and list the other ways customers phrase the question.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <form onSubmit={(event) => void handleSubmit(event)} style={{ display: "grid", gap: 12 }}>
+        <TextInput
+          value={questionText}
+          onChange={(event) => setQuestionText(event.target.value)}
+          placeholder="Do you encrypt customer data at rest?"
+          aria-label="Question"
+        />
+        <TextArea
+          rows={3}
+          value={aliasText}
+          onChange={(event) => setAliasText(event.target.value)}
+          placeholder="Other phrasings, one per line"
+          aria-label="Aliases"
+        />
+        <TextArea
+          rows={5}
+          value={answerText}
+          onChange={(event) => setAnswerText(event.target.value)}
+          placeholder="Approved answer"
+          aria-label="Answer"
+        />
+
+        {citations.length > 0 ? (
+          <div style={{ display: "grid", gap: 6 }} aria-label="Citations">
+            {citations.map((citation) => (
+              <label key={citation.chunkId} className="small" style={{ display: "flex", gap: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={selectedChunkIds.includes(citation.chunkId)}
+                  onChange={() => toggleCitation(citation.chunkId)}
+                />
+                <span>
+                  <strong>{citation.docName}</strong> <span className="muted">{citation.quotedSnippet}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="toolbar-row compact">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => void handleFindEvidence()}
+            disabled={isFindingEvidence || isSaving || !questionText.trim()}
+          >
+            {isFindingEvidence ? "Searching..." : "Find evidence"}
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving || !questionText.trim() || !answerText.trim()}>
+            {isSaving ? "Saving..." : "Add to library"}
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAppAuthz } from "@/components/AppAuthzContext";
+import { Button, Card, cx } from "@/components/ui";
+import type { PendingLibraryApprovalRow } from "@/server/approvedAnswers/approvalSignOff";
+import { can, RbacAction } from "@/server/rbac";
+
+type ErrorPayload = {
+  error?: {
+    message?: unknown;
+  };
+};
+
+function readErrorMessage(payload: unknown, fallback: string): string {
+  const message = (payload as ErrorPayload | null)?.error?.message;
+  return typeof message === "string" ? message : fallback;
+}
+
+/** Library answers waiting for a second reviewer under two-person approval. */
+export function PendingLibraryApprovalsCard({ rows }: { rows: PendingLibraryApprovalRow[] }) {
+  const router = useRouter();
+  const { role } = useAppAuthz();
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  if (rows.length === 0 || !role || !can(role, RbacAction.APPROVE_ANSWERS)) {
+    return null;
+  }
+
+  async function approve(row: PendingLibraryApprovalRow) {
+    setApprovingId(row.id);
+    setMessage(null);
+
+    try {
+      // The second sign-off resubmits the same content; the server completes it when the signer differs.
+      const response = row.approvedAnswerId
+        ? await fetch(`/api/approved-answers/${row.approvedAnswerId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              questionText: row.questionText,
+              answerText: row.answerText,
+              citationChunkIds: row.citationChunkIds,
+              note: row.note ?? ""
+            })
+          })
+        : await fetch("/api/approved-answers", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              questionText: row.questionText,
+              aliases: row.aliases,
+              answerText: row.answerText,
+              citationChunkIds: row.citationChunkIds,
+              note: row.note ?? "",
+              evidenceCollectionId: row.evidenceCollectionId
+            })
+          });
+      const payload = (await response.json().catch(() => null)) as unknown;
+
+      if (!response.ok) {
+        throw new Error(readErrorMessage(payload, "Failed to approve library answer."));
+      }
+
+      setMessage({ tone: "success", text: row.approvedAnswerId ? "Library answer updated." : "Added to the answer library." });
+      router.refresh();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to approve library answer." });
+    } finally {
+      setApprovingId(null);
+    }
+  }
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Two-person approval</span>
+          <div>
+            <h3 style={{ margin: 0 }}>Awaiting a second sign-off</h3>
+            <p className="muted small" style={{ margin: "4px 0 0" }}>
+              These library changes take effect once a different reviewer approves them.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <div style={{ display: "grid", gap: 12 }}>
+        {rows.map((row) => (
+          <div key={row.id} style={{ display: "grid", gap: 6 }}>
+            <strong>{row.questionText}</strong>
+            <p style={{ margin: 0, whiteSpace: "pre-wrap" }}>{row.answerText}</p>
+            <div className="toolbar-row">
+              <span className="muted small">
+                {row.approvedAnswerId ? "Edit" : "New answer"} signed off by {row.signedBy.email ?? "a reviewer"} on{" "}
+                {new Date(row.signedBy.signedAt).toLocaleString()}
+              </span>
+              <Button
+                type="button"
+                variant="primary"
+                disabled={approvingId !== null}
+                onClick={() => void approve(row)}
+              >
+                {approvingId === row.id ? "Approving..." : "Approve"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
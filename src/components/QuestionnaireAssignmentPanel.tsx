@@ -0,0 +1,253 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Card, TextInput, cx } from "@/components/ui";
+import type { QuestionnaireAssignmentOverview } from "@/server/questionnaires/questionAssignments";
+
+type QuestionnaireAssignmentPanelProps = {
+  questionnaireId: string;
+  selectedQuestion: { id: string; assigneeUserId: string | null } | null;
+  canAssign: boolean;
+  onAssignmentsChanged: () => Promise<unknown> | void;
+};
+
+const UNASSIGNED = "";
+
+function toDateInputValue(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isPastDue(value: string | null): boolean {
+  return value ? Date.parse(value) < Date.now() : false;
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: { message?: unknown } } | null;
+  return typeof payload?.error?.message === "string" ? payload.error.message : fallback;
+}
+
+export function QuestionnaireAssignmentPanel({
+  questionnaireId,
+  selectedQuestion,
+  canAssign,
+  onAssignmentsChanged
+}: QuestionnaireAssignmentPanelProps) {
+  const [overview, setOverview] = useState<QuestionnaireAssignmentOverview | null>(null);
+  const [dueDate, setDueDate] = useState("");
+  const [sectionColumn, setSectionColumn] = useState("");
+  const [sectionValue, setSectionValue] = useState("");
+  const [sectionAssignee, setSectionAssignee] = useState(UNASSIGNED);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    const response = await fetch(`/api/questionnaires/${questionnaireId}/assignments`, { cache: "no-store" });
+    if (!response.ok) {
+      setMessage({ tone: "error", text: await readErrorMessage(response, "Failed to load assignments.") });
+      return;
+    }
+
+    const payload = (await response.json()) as QuestionnaireAssignmentOverview;
+    setOverview(payload);
+    setDueDate(toDateInputValue(payload.dueAt));
+    setSectionColumn((current) => current || payload.sections[0]?.column || "");
+  }, [questionnaireId]);
+
+  useEffect(() => {
+    void loadOverview();
+  }, [loadOverview]);
+
+  async function runChange(request: () => Promise<Response>, successText: string) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to update assignments."));
+      }
+
+      setMessage({ tone: "success", text: successText });
+      await loadOverview();
+      await onAssignmentsChanged();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to update assignments." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function assign(body: Record<string, unknown>, successText: string) {
+    return runChange(
+      () =>
+        fetch(`/api/questionnaires/${questionnaireId}/assignments`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body)
+        }),
+      successText
+    );
+  }
+
+  function saveDueDate() {
+    return runChange(
+      () =>
+        fetch(`/api/questionnaires/${questionnaireId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null })
+        }),
+      dueDate ? "Due date saved." : "Due date cleared."
+    );
+  }
+
+  if (!overview) {
+    return null;
+  }
+
+  const members = overview.members;
+  const activeSection = overview.sections.find((section) => section.column === sectionColumn) ?? null;
+  const selectedAssignee = members.find((member) => member.userId === selectedQuestion?.assigneeUserId) ?? null;
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Ownership</span>
+          <div>
+            <h3 style={{ margin: 0 }}>Assignments</h3>
+            <p className="muted small" style={{ margin: "4px 0 0" }}>
+              Assign reviewers to questions or whole sections and set the deadline for this questionnaire.
+            </p>
+          </div>
+        </div>
+        {overview.dueAt ? (
+          <Badge tone={isPastDue(overview.dueAt) ? "review" : "draft"}>
+            {isPastDue(overview.dueAt) ? "Overdue" : "Due"} {new Date(overview.dueAt).toLocaleDateString()}
+          </Badge>
+        ) : null}
+      </div>
+
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      {canAssign ? (
+        <div style={{ display: "grid", gap: 12 }}>
+          <div className="toolbar-row compact">
+            <TextInput
+              type="date"
+              value={dueDate}
+              onChange={(event) => setDueDate(event.target.value)}
+              aria-label="Due date"
+              style={{ width: 180 }}
+            />
+            <Button type="button" variant="secondary" onClick={() => void saveDueDate()} disabled={isSaving}>
+              Save due date
+            </Button>
+          </div>
+
+          {selectedQuestion ? (
+            <div className="toolbar-row compact">
+              <span className="small muted">Selected question</span>
+              <select
+                className="select"
+                value={selectedQuestion.assigneeUserId ?? UNASSIGNED}
+                onChange={(event) =>
+                  void assign(
+                    { questionIds: [selectedQuestion.id], assigneeUserId: event.target.value || null },
+                    "Question assignment saved."
+                  )
+                }
+                disabled={isSaving}
+                aria-label="Selected question assignee"
+                style={{ width: 220 }}
+              >
+                <option value={UNASSIGNED}>Unassigned</option>
+                {members.map((member) => (
+                  <option key={member.userId} value={member.userId}>
+                    {member.email || member.userId}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
+          {overview.sections.length > 0 ? (
+            <div className="toolbar-row compact">
+              <span className="small muted">Section</span>
+              <select
+                className="select"
+                value={sectionColumn}
+                onChange={(event) => {
+                  setSectionColumn(event.target.value);
+                  setSectionValue("");
+                }}
+                aria-label="Section column"
+                style={{ width: 160 }}
+              >
+                {overview.sections.map((section) => (
+                  <option key={section.column} value={section.column}>
+                    {section.column}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select"
+                value={sectionValue}
+                onChange={(event) => setSectionValue(event.target.value)}
+                aria-label="Section value"
+                style={{ width: 200 }}
+              >
+                <option value="">Choose a section</option>
+                {activeSection?.values.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select"
+                value={sectionAssignee}
+                onChange={(event) => setSectionAssignee(event.target.value)}
+                aria-label="Section assignee"
+                style={{ width: 220 }}
+              >
+                <option value={UNASSIGNED}>Unassigned</option>
+                {members.map((member) => (
+                  <option key={member.userId} value={member.userId}>
+                    {member.email || member.userId}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={isSaving || !sectionValue}
+                onClick={() =>
+                  void assign(
+                    {
+                      section: { column: sectionColumn, value: sectionValue },
+                      assigneeUserId: sectionAssignee || null
+                    },
+                    `Section "${sectionValue}" assignment saved.`
+                  )
+                }
+              >
+                Assign section
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      ) : selectedQuestion ? (
+        <p className="small muted" style={{ margin: 0 }}>
+          Selected question: {selectedAssignee ? selectedAssignee.email || selectedAssignee.userId : "Unassigned"}
+        </p>
+      ) : null}
+    </Card>
+  );
+}
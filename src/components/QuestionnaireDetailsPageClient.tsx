@@ -4,8 +4,10 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { memo, useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import { ApprovedAnswerPicker } from "@/components/ApprovedAnswerPicker";
 import { useAppAuthz } from "@/components/AppAuthzContext";
+import { CommentThreadPanel } from "@/components/CommentThreadPanel";
 import { CompactStatCard } from "@/components/CompactStatCard";
 import { ExportModal } from "@/components/ExportModal";
+import { QuestionnaireAssignmentPanel } from "@/components/QuestionnaireAssignmentPanel";
 import { QuestionnaireHealthPanel } from "@/components/QuestionnaireHealthPanel";
 import {
   TrustQueueReviewSessionBanner,
@@ -14,6 +16,9 @@ import {
 import { Badge, Button, Card, TextArea, TextInput, cx } from "@/components/ui";
 import { useFocusTrap } from "@/lib/useFocusTrap";
 import { NOT_FOUND_TEXT } from "@/shared/answerTemplates";
+import { describeAnswerType, type AnswerType } from "@/shared/answerTypes";
+import { reliesSolelyOnInternalOnlyEvidence } from "@/shared/evidenceShareability";
+import type { ExportColumnMapping } from "@/shared/exportColumns";
 import {
   parseQuestionnaireStalenessPayload,
   type ExportBlockedStaleError,
@@ -27,6 +32,7 @@ type Citation = {
   docName: string;
   chunkId: string;
   quotedSnippet: string;
+  location?: string;
 };
 
 type ApprovedAnswer = {
@@ -42,13 +48,20 @@ type QuestionRow = {
   id: string;
   rowIndex: number;
   text: string;
+  answerType: AnswerType;
+  answerOptions: string[];
   answer: string | null;
+  shortAnswer: string | null;
+  answerExplanation: string | null;
   citations: Citation[];
   updatedAt: string;
   reviewStatus: "DRAFT" | "APPROVED" | "NEEDS_REVIEW";
   reusedFromApprovedAnswerId: string | null;
   reuseMatchType: "EXACT" | "SEMANTIC" | null;
   reusedAt: string | null;
+  assigneeUserId: string | null;
+  assignee: { email: string | null } | null;
+  unresolvedCommentCount: number;
   approvedAnswer: ApprovedAnswer | null;
 };
 
@@ -57,14 +70,20 @@ type QuestionnaireDetailsPayload = {
     id: string;
     name: string;
     sourceFileName: string | null;
+    sourceFormat: "CSV" | "XLSX";
+    sourceHeaders: string[];
     questionColumn: string | null;
+    exportColumns: ExportColumnMapping;
     questionCount: number;
     answeredCount: number;
     notFoundCount: number;
+    dueAt: string | null;
+    evidenceCollection: { id: string; name: string } | null;
     createdAt: string;
     updatedAt: string;
   };
   questions: QuestionRow[];
+  internalOnlyChunkIds?: string[];
   error?: string;
 };
 
@@ -75,6 +94,7 @@ type EvidenceItem = {
   chunkId: string;
   docName: string;
   snippet: string;
+  location?: string;
 };
 
 type QuestionRailItem = {
@@ -87,6 +107,7 @@ type QuestionRailItem = {
   citationCount: number;
   isStale: boolean;
   hasApprovedAnswer: boolean;
+  unresolvedCommentCount: number;
 };
 
 type ReuseSuggestionSummary = {
@@ -96,29 +117,46 @@ type ReuseSuggestionSummary = {
   similarity: number;
 };
 
-type AutofillPayload = {
-  totalCount?: number;
-  answeredCount?: number;
-  notFoundCount?: number;
-  error?: unknown;
+type AutofillJobStatus = "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED" | "CANCELED";
+
+type AutofillJobSummary = {
+  id: string;
+  status: AutofillJobStatus;
+  totalCount: number;
+  processedCount: number;
+  failedCount: number;
+  retryCount: number;
+  lastError: string | null;
+  cancelRequested: boolean;
 };
 
-type EmbedPayload = {
-  embeddedCount?: number;
+type AutofillJobPayload = {
+  job?: AutofillJobSummary | null;
   error?: unknown;
 };
 
 type AutofillProgressState = {
-  answeredCount: number;
+  processedCount: number;
   totalCount: number;
 };
 
+const AUTOFILL_JOB_POLL_INTERVAL_MS = 1000;
+
+function isAutofillJobActive(job: AutofillJobSummary | null | undefined): boolean {
+  return job?.status === "QUEUED" || job?.status === "RUNNING";
+}
+
 type ApproveReusedPayload = {
   approvedCount?: number;
   skippedCount?: number;
   error?: unknown;
 };
 
+type EvidenceCollectionsPayload = {
+  collections?: Array<{ id: string; name: string }>;
+  error?: unknown;
+};
+
 type DocumentLookupPayload = {
   documents?: Array<{
     id: string;
@@ -161,6 +199,7 @@ type StalenessDetailsPayload = {
     affectedCitationsCount?: unknown;
     changedCount?: unknown;
     missingCount?: unknown;
+    expiredCount?: unknown;
     reasons?: Array<{
       reason?: unknown;
     }>;
@@ -172,26 +211,41 @@ type SelectedQuestionStalenessDetails = {
   affectedCitationsCount: number;
   changedCount: number;
   missingCount: number;
+  expiredCount: number;
+};
+
+type ApprovalSignerPayload = {
+  email?: unknown;
+  signedAt?: unknown;
 };
 
 type ApprovalTracePayload = {
   hasApprovedAnswer?: unknown;
+  pendingSignOff?: ApprovalSignerPayload | null;
   trace?: {
     approvedAt?: unknown;
     freshness?: unknown;
     snapshottedCitationsCount?: unknown;
     reusedFromApprovedAnswer?: unknown;
     suggestionAssisted?: unknown;
+    signers?: unknown;
   } | null;
   error?: unknown;
 };
 
+type SelectedQuestionApprovalSigner = {
+  email: string;
+  signedAt: string;
+};
+
 type SelectedQuestionApprovalTrace = {
   approvedAt: string;
   freshness: "FRESH" | "STALE";
   snapshottedCitationsCount: number;
   reusedFromApprovedAnswer: boolean;
   suggestionAssisted: boolean;
+  signers: SelectedQuestionApprovalSigner[];
+  pendingSignOff: SelectedQuestionApprovalSigner | null;
 };
 
 type ApprovalHistoryPayload = {
@@ -199,16 +253,27 @@ type ApprovalHistoryPayload = {
   history?: Array<{
     type?: unknown;
     occurredAt?: unknown;
+    actorEmail?: unknown;
   }>;
   error?: unknown;
 };
 
 type SelectedQuestionApprovalHistoryEntry = {
-  type: "DRAFT_UPDATED" | "SUGGESTION_APPLIED" | "APPROVED" | "BECAME_STALE" | "REAPPROVED";
+  type:
+    | "DRAFT_UPDATED"
+    | "SUGGESTION_APPLIED"
+    | "SIGNED_OFF"
+    | "APPROVED"
+    | "BECAME_STALE"
+    | "REAPPROVED"
+    | "COMMENTED"
+    | "COMMENT_RESOLVED"
+    | "COMMENT_REOPENED";
   occurredAt: string;
+  actorEmail: string | null;
 };
 
-type DrawerTab = "ANSWER" | "EVIDENCE" | "REFERENCES";
+type DrawerTab = "ANSWER" | "EVIDENCE" | "REFERENCES" | "COMMENTS";
 type QuestionnaireDetailsPageClientProps = {
   trustQueueReviewSession: TrustQueueReviewSessionBannerProps | null;
 };
@@ -303,7 +368,8 @@ function normalizeCitations(value: unknown): Citation[] {
       return {
         docName: String(typed.docName),
         chunkId: String(typed.chunkId),
-        quotedSnippet: String(typed.quotedSnippet)
+        quotedSnippet: String(typed.quotedSnippet),
+        ...(typeof typed.location === "string" && typed.location ? { location: typed.location } : {})
       };
     })
     .filter((item): item is Citation => item !== null);
@@ -358,11 +424,32 @@ function normalizeSelectedQuestionStalenessDetails(value: StalenessDetailsPayloa
   return {
     affectedCitationsCount,
     changedCount,
-    missingCount
+    missingCount,
+    expiredCount: typeof value.expiredCount === "number" ? value.expiredCount : 0
+  };
+}
+
+function normalizeApprovalSigner(value: unknown): SelectedQuestionApprovalSigner | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const signer = value as ApprovalSignerPayload;
+  const signedAt = typeof signer.signedAt === "string" ? signer.signedAt : "";
+  if (!signedAt) {
+    return null;
+  }
+
+  return {
+    email: typeof signer.email === "string" && signer.email ? signer.email : "Former member",
+    signedAt
   };
 }
 
-function normalizeSelectedQuestionApprovalTrace(value: ApprovalTracePayload["trace"]): SelectedQuestionApprovalTrace | null {
+function normalizeSelectedQuestionApprovalTrace(
+  value: ApprovalTracePayload["trace"],
+  pendingSignOff: ApprovalTracePayload["pendingSignOff"]
+): SelectedQuestionApprovalTrace | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     return null;
   }
@@ -381,7 +468,13 @@ function normalizeSelectedQuestionApprovalTrace(value: ApprovalTracePayload["tra
     freshness,
     snapshottedCitationsCount,
     reusedFromApprovedAnswer: value.reusedFromApprovedAnswer === true,
-    suggestionAssisted: value.suggestionAssisted === true
+    suggestionAssisted: value.suggestionAssisted === true,
+    signers: Array.isArray(value.signers)
+      ? value.signers
+          .map(normalizeApprovalSigner)
+          .filter((signer): signer is SelectedQuestionApprovalSigner => signer !== null)
+      : [],
+    pendingSignOff: normalizeApprovalSigner(pendingSignOff)
   };
 }
 
@@ -409,9 +502,13 @@ function normalizeSelectedQuestionApprovalHistory(value: ApprovalHistoryPayload[
       const type =
         item.type === "DRAFT_UPDATED" ||
         item.type === "SUGGESTION_APPLIED" ||
+        item.type === "SIGNED_OFF" ||
         item.type === "APPROVED" ||
         item.type === "BECAME_STALE" ||
-        item.type === "REAPPROVED"
+        item.type === "REAPPROVED" ||
+        item.type === "COMMENTED" ||
+        item.type === "COMMENT_RESOLVED" ||
+        item.type === "COMMENT_REOPENED"
           ? item.type
           : null;
 
@@ -421,7 +518,8 @@ function normalizeSelectedQuestionApprovalHistory(value: ApprovalHistoryPayload[
 
       return {
         type,
-        occurredAt
+        occurredAt,
+        actorEmail: typeof item.actorEmail === "string" ? item.actorEmail : null
       };
     })
     .filter((entry): entry is SelectedQuestionApprovalHistoryEntry => entry !== null);
@@ -433,12 +531,20 @@ function approvalHistoryLabel(type: SelectedQuestionApprovalHistoryEntry["type"]
       return "Draft updated";
     case "SUGGESTION_APPLIED":
       return "Suggestion applied";
+    case "SIGNED_OFF":
+      return "Signed off (awaiting second reviewer)";
     case "APPROVED":
       return "Approved";
     case "BECAME_STALE":
       return "Currently stale";
     case "REAPPROVED":
       return "Re-approved";
+    case "COMMENTED":
+      return "Comment added";
+    case "COMMENT_RESOLVED":
+      return "Comment resolved";
+    case "COMMENT_REOPENED":
+      return "Comment reopened";
     default:
       return type;
   }
@@ -570,12 +676,17 @@ function getReuseBadgeTone(reuseMatchType: QuestionRow["reuseMatchType"]): "appr
   return null;
 }
 
-function getGeneratedEvidenceItems(question: QuestionRow): EvidenceItem[] {
-  return question.citations.map((citation) => ({
+function toEvidenceItem(citation: Citation): EvidenceItem {
+  return {
     chunkId: citation.chunkId,
     docName: citation.docName,
-    snippet: citation.quotedSnippet
-  }));
+    snippet: citation.quotedSnippet,
+    location: citation.location
+  };
+}
+
+function getGeneratedEvidenceItems(question: QuestionRow): EvidenceItem[] {
+  return question.citations.map(toEvidenceItem);
 }
 
 function buildEvidenceItems(question: QuestionRow, preferApprovedAnswer = true): EvidenceItem[] {
@@ -584,22 +695,14 @@ function buildEvidenceItems(question: QuestionRow, preferApprovedAnswer = true):
   }
 
   if (question.approvedAnswer.citationChunkIds.length === 0) {
-    return question.citations.map((citation) => ({
-      chunkId: citation.chunkId,
-      docName: citation.docName,
-      snippet: citation.quotedSnippet
-    }));
+    return getGeneratedEvidenceItems(question);
   }
 
   const generatedByChunkId = new Map(question.citations.map((citation) => [citation.chunkId, citation]));
   return question.approvedAnswer.citationChunkIds.map((chunkId) => {
     const generated = generatedByChunkId.get(chunkId);
     if (generated) {
-      return {
-        chunkId,
-        docName: generated.docName,
-        snippet: generated.quotedSnippet
-      };
+      return toEvidenceItem(generated);
     }
 
     return {
@@ -791,6 +894,11 @@ const QuestionRailItemButton = memo(function QuestionRailItemButton({
               STALE
             </Badge>
           ) : null}
+          {item.unresolvedCommentCount > 0 ? (
+            <Badge tone="review" title="Unresolved comment threads">
+              {item.unresolvedCommentCount} comment{item.unresolvedCommentCount === 1 ? "" : "s"}
+            </Badge>
+          ) : null}
           <Badge tone="draft">{item.citationCount} citation{item.citationCount === 1 ? "" : "s"}</Badge>
         </div>
       </div>
@@ -835,12 +943,16 @@ export default function QuestionnaireDetailsPageClient({
   const [showGeneratedDraft, setShowGeneratedDraft] = useState(false);
   const [isRunningAutofill, setIsRunningAutofill] = useState(false);
   const [autofillProgress, setAutofillProgress] = useState<AutofillProgressState | null>(null);
+  const [autofillJob, setAutofillJob] = useState<AutofillJobSummary | null>(null);
+  const [isUpdatingAutofillJob, setIsUpdatingAutofillJob] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isBulkConfirmOpen, setIsBulkConfirmOpen] = useState(false);
   const [isBulkApproving, setIsBulkApproving] = useState(false);
   const [isApprovingReusedExact, setIsApprovingReusedExact] = useState(false);
   const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
   const [documentIdByName, setDocumentIdByName] = useState<Record<string, string>>({});
+  const [evidenceCollections, setEvidenceCollections] = useState<Array<{ id: string; name: string }>>([]);
+  const [isSavingEvidenceScope, setIsSavingEvidenceScope] = useState(false);
   const [staleQuestionnaireItems, setStaleQuestionnaireItems] = useState<QuestionnaireStaleItem[]>([]);
   const [hasLoadedQuestionnaireStaleness, setHasLoadedQuestionnaireStaleness] = useState(false);
   const [selectedQuestionStalenessDetails, setSelectedQuestionStalenessDetails] =
@@ -853,6 +965,7 @@ export default function QuestionnaireDetailsPageClient({
     SelectedQuestionApprovalHistoryEntry[]
   >([]);
   const [isSelectedQuestionApprovalHistoryLoading, setIsSelectedQuestionApprovalHistoryLoading] = useState(false);
+  const [approvalHistoryReloadKey, setApprovalHistoryReloadKey] = useState(0);
   const [reuseSuggestions, setReuseSuggestions] = useState<ReuseSuggestionSummary[]>([]);
   const [isReuseSuggestionsLoading, setIsReuseSuggestionsLoading] = useState(false);
   const [activeSuggestionId, setActiveSuggestionId] = useState<string | null>(null);
@@ -869,6 +982,7 @@ export default function QuestionnaireDetailsPageClient({
   const documentModalRef = useRef<HTMLDivElement | null>(null);
   const shortcutHelpModalRef = useRef<HTMLDivElement | null>(null);
   const appliedDeepLinkSignatureRef = useRef<string | null>(null);
+  const watchedAutofillJobIdRef = useRef<string | null>(null);
   const pendingDeepLinkScrollIdRef = useRef<string | null>(null);
   const deferredSearchText = useDeferredValue(searchText);
   const canRunAutofill = role ? can(role, RbacAction.RUN_AUTOFILL) : false;
@@ -877,6 +991,9 @@ export default function QuestionnaireDetailsPageClient({
   const canMarkNeedsReview = role ? can(role, RbacAction.MARK_NEEDS_REVIEW) : false;
   const canExportQuestionnaire = role ? can(role, RbacAction.EXPORT) : false;
   const canDeleteQuestionnaire = role ? can(role, RbacAction.DELETE_QUESTIONNAIRES) : false;
+  const canEditExportColumns = role ? can(role, RbacAction.IMPORT_QUESTIONNAIRES) : false;
+  const canAssignReviewers = role ? can(role, RbacAction.ASSIGN_REVIEWERS) : false;
+  const canComment = role ? can(role, RbacAction.COMMENT) : false;
 
   const loadDetails = useCallback(
     async (options?: { silent?: boolean }) => {
@@ -917,12 +1034,17 @@ export default function QuestionnaireDetailsPageClient({
               : null,
           reusedAt:
             typeof question.reusedAt === "string" && question.reusedAt.trim().length > 0 ? question.reusedAt : null,
+          assigneeUserId: typeof question.assigneeUserId === "string" ? question.assigneeUserId : null,
+          assignee: question.assignee ?? null,
+          unresolvedCommentCount:
+            typeof question.unresolvedCommentCount === "number" ? question.unresolvedCommentCount : 0,
           approvedAnswer: normalizeApprovedAnswer(question.approvedAnswer)
         }));
 
         const normalizedPayload: QuestionnaireDetailsPayload = {
           questionnaire: payload.questionnaire,
-          questions: normalizedQuestions
+          questions: normalizedQuestions,
+          internalOnlyChunkIds: payload.internalOnlyChunkIds ?? []
         };
 
         setData(normalizedPayload);
@@ -1279,7 +1401,8 @@ export default function QuestionnaireDetailsPageClient({
           reuseMatchType: question.reuseMatchType,
           citationCount: getQueueCitationCount(question),
           isStale: staleQuestionIdSet.has(question.id),
-          hasApprovedAnswer: Boolean(question.approvedAnswer)
+          hasApprovedAnswer: Boolean(question.approvedAnswer),
+          unresolvedCommentCount: question.unresolvedCommentCount
         };
       })
       .filter((item): item is QuestionRailItem => Boolean(item));
@@ -1425,8 +1548,8 @@ export default function QuestionnaireDetailsPageClient({
       return 0;
     }
 
-    const answeredCount = Number(autofillProgress?.answeredCount ?? 0);
-    return Math.max(0, Math.min(100, Math.round((answeredCount / totalCount) * 100)));
+    const processedCount = Number(autofillProgress?.processedCount ?? 0);
+    return Math.max(0, Math.min(100, Math.round((processedCount / totalCount) * 100)));
   }, [autofillProgress]);
 
   const showLoadingSkeletons = isLoading && !data;
@@ -1632,7 +1755,7 @@ export default function QuestionnaireDetailsPageClient({
           return;
         }
 
-        setSelectedQuestionApprovalTrace(normalizeSelectedQuestionApprovalTrace(payload.trace));
+        setSelectedQuestionApprovalTrace(normalizeSelectedQuestionApprovalTrace(payload.trace, payload.pendingSignOff));
       } catch {
         if (!active) {
           return;
@@ -1703,7 +1826,7 @@ export default function QuestionnaireDetailsPageClient({
     return () => {
       active = false;
     };
-  }, [isContextOpen, questionnaireId, selectedQuestion?.id]);
+  }, [approvalHistoryReloadKey, isContextOpen, questionnaireId, selectedQuestion?.id]);
 
   useEffect(() => {
     const selectedQuestionIdForSuggestions = selectedQuestion?.id ?? null;
@@ -1831,6 +1954,32 @@ export default function QuestionnaireDetailsPageClient({
     };
   }, []);
 
+  useEffect(() => {
+    if (!canEditExportColumns) {
+      return;
+    }
+
+    let active = true;
+
+    async function loadEvidenceCollections() {
+      try {
+        const response = await fetch("/api/documents/collections", { cache: "no-store" });
+        const payload = (await response.json()) as EvidenceCollectionsPayload;
+        if (response.ok && active) {
+          setEvidenceCollections(payload.collections ?? []);
+        }
+      } catch {
+        // The current scope is still shown when the collection list cannot be loaded.
+      }
+    }
+
+    void loadEvidenceCollections();
+
+    return () => {
+      active = false;
+    };
+  }, [canEditExportColumns]);
+
   const getApprovalCandidate = useCallback((question: QuestionRow): {
     mode: "create" | "update";
     approvedAnswerId: string | null;
@@ -1863,7 +2012,9 @@ export default function QuestionnaireDetailsPageClient({
   }, []);
 
   const persistApproval = useCallback(
-    async (question: QuestionRow): Promise<{ ok: true } | { ok: false; message: string }> => {
+    async (
+      question: QuestionRow
+    ): Promise<{ ok: true; pendingSecondApproval: boolean } | { ok: false; message: string }> => {
       const candidate = getApprovalCandidate(question);
       if (!candidate) {
         return {
@@ -1905,11 +2056,122 @@ export default function QuestionnaireDetailsPageClient({
         };
       }
 
-      return { ok: true };
+      // 202 means the two-person policy parked this as a first sign-off.
+      return { ok: true, pendingSecondApproval: response.status === 202 };
     },
     [getApprovalCandidate]
   );
 
+  const fetchAutofillJob = useCallback(async (): Promise<AutofillJobSummary | null> => {
+    const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill`, {
+      cache: "no-store"
+    });
+    const payload = (await response.json().catch(() => ({}))) as AutofillJobPayload;
+    if (!response.ok) {
+      throw new Error(getApiErrorMessage(payload, "Failed to load autofill progress."));
+    }
+
+    return payload.job ?? null;
+  }, [questionnaireId]);
+
+  const describeFinishedAutofillJob = useCallback(
+    (job: AutofillJobSummary, latest: QuestionnaireDetailsPayload | null) => {
+      if (job.status === "CANCELED") {
+        return `Autofill canceled after ${job.processedCount}/${job.totalCount} questions. Resume to finish the rest.`;
+      }
+
+      if (job.status === "FAILED") {
+        return `Autofill stopped: ${job.lastError ?? "Unknown error."} Resume to retry the failed questions.`;
+      }
+
+      const answeredCount = latest?.questionnaire.answeredCount ?? job.processedCount;
+      const totalCount = latest?.questionnaire.questionCount ?? job.totalCount;
+      const notFoundCount = latest?.questionnaire.notFoundCount ?? 0;
+      return `Autofill complete: ${answeredCount}/${totalCount} answered, ${notFoundCount} not found.`;
+    },
+    []
+  );
+
+  const watchAutofillJob = useCallback(
+    async (initialJob: AutofillJobSummary) => {
+      if (watchedAutofillJobIdRef.current === initialJob.id) {
+        return;
+      }
+
+      watchedAutofillJobIdRef.current = initialJob.id;
+      setIsRunningAutofill(true);
+      setAutofillJob(initialJob);
+      setAutofillProgress({
+        processedCount: initialJob.processedCount,
+        totalCount: initialJob.totalCount
+      });
+
+      let job: AutofillJobSummary | null = initialJob;
+      try {
+        // Answers land one question at a time, so refresh the queue alongside the job counters.
+        while (job && isAutofillJobActive(job) && watchedAutofillJobIdRef.current === initialJob.id) {
+          await new Promise((resolve) => window.setTimeout(resolve, AUTOFILL_JOB_POLL_INTERVAL_MS));
+          job = await fetchAutofillJob();
+          if (job) {
+            setAutofillJob(job);
+            setAutofillProgress({
+              processedCount: job.processedCount,
+              totalCount: job.totalCount
+            });
+          }
+          await loadDetails({ silent: true });
+        }
+
+        if (job && watchedAutofillJobIdRef.current === initialJob.id) {
+          const latest = await loadDetails({ silent: true });
+          setMessage(describeFinishedAutofillJob(job, latest));
+        }
+      } catch (error) {
+        setMessage(`Autofill progress unavailable: ${error instanceof Error ? error.message : "Unknown error."}`);
+      } finally {
+        if (watchedAutofillJobIdRef.current === initialJob.id) {
+          watchedAutofillJobIdRef.current = null;
+          setIsRunningAutofill(false);
+          setAutofillProgress(null);
+        }
+        void loadQuestionnaireStaleness();
+      }
+    },
+    [describeFinishedAutofillJob, fetchAutofillJob, loadDetails, loadQuestionnaireStaleness]
+  );
+
+  useEffect(() => {
+    watchedAutofillJobIdRef.current = null;
+    setAutofillJob(null);
+    setIsRunningAutofill(false);
+    setAutofillProgress(null);
+    if (!questionnaireId) {
+      return;
+    }
+
+    let cancelled = false;
+    // Pick a job started elsewhere (another tab, or before a reload) back up so progress stays live.
+    void fetchAutofillJob()
+      .then((job) => {
+        if (cancelled) {
+          return;
+        }
+
+        setAutofillJob(job);
+        if (job && isAutofillJobActive(job)) {
+          void watchAutofillJob(job);
+        }
+      })
+      .catch(() => {
+        // Progress is best-effort on load; running autofill again surfaces real errors.
+      });
+
+    return () => {
+      cancelled = true;
+      watchedAutofillJobIdRef.current = null;
+    };
+  }, [fetchAutofillJob, questionnaireId, watchAutofillJob]);
+
   async function runAutofill() {
     if (!canRunAutofill) {
       setMessage("You do not have permission to run autofill.");
@@ -1918,90 +2180,119 @@ export default function QuestionnaireDetailsPageClient({
 
     setMessage("");
     setIsRunningAutofill(true);
-    const runStartedAtMs = Date.now();
-    const totalCount = data?.questionnaire.questionCount ?? 0;
     setAutofillProgress({
-      answeredCount: 0,
-      totalCount
+      processedCount: 0,
+      totalCount: data?.questionnaire.questionCount ?? 0
     });
 
-    let pollTimer: number | null = null;
-    let pollInFlight = false;
-    let pollingStopped = false;
-    const pollDetails = async () => {
-      if (pollInFlight || pollingStopped) {
-        return null;
+    try {
+      const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill`, {
+        method: "POST"
+      });
+      const payload = (await response.json()) as AutofillJobPayload;
+      if (!response.ok || !payload.job) {
+        throw new Error(getApiErrorMessage(payload, "Autofill failed."));
       }
 
-      pollInFlight = true;
-      try {
-        const latest = await loadDetails({ silent: true });
-        if (latest) {
-          const processedCount = latest.questions.reduce((count, question) => {
-            const updatedAtMs = Number.isNaN(Date.parse(question.updatedAt))
-              ? 0
-              : new Date(question.updatedAt).getTime();
-            return updatedAtMs >= runStartedAtMs ? count + 1 : count;
-          }, 0);
-          setAutofillProgress({
-            answeredCount: Math.max(0, Math.min(totalCount, processedCount)),
-            totalCount
-          });
-        }
-        return latest;
-      } finally {
-        pollInFlight = false;
-      }
-    };
+      await watchAutofillJob(payload.job);
+    } catch (error) {
+      setMessage(`Autofill failed: ${error instanceof Error ? error.message : "Unknown error."}`);
+      setIsRunningAutofill(false);
+      setAutofillProgress(null);
+    }
+  }
+
+  async function saveEvidenceScope(evidenceCollectionId: string) {
+    if (!canEditExportColumns) {
+      setMessage("You do not have permission to change the evidence scope.");
+      return;
+    }
+
+    setIsSavingEvidenceScope(true);
+    setMessage("");
 
     try {
-      pollTimer = window.setInterval(() => {
-        void pollDetails();
-      }, 1000);
+      const response = await fetch(`/api/questionnaires/${questionnaireId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ evidenceCollectionId: evidenceCollectionId || null })
+      });
+      const payload = (await response.json().catch(() => ({}))) as {
+        evidenceCollection?: { id: string; name: string } | null;
+        error?: unknown;
+      };
+      if (!response.ok) {
+        throw new Error(getApiErrorMessage(payload, "Failed to update evidence scope."));
+      }
+
+      const evidenceCollection = payload.evidenceCollection ?? null;
+      setData((current) =>
+        current ? { ...current, questionnaire: { ...current.questionnaire, evidenceCollection } } : current
+      );
+      setMessage(
+        evidenceCollection
+          ? `Autofill will now use evidence from "${evidenceCollection.name}".`
+          : "Autofill will now use all documents."
+      );
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to update evidence scope.");
+    } finally {
+      setIsSavingEvidenceScope(false);
+    }
+  }
 
-      const embedResponse = await fetch("/api/documents/embed", {
+  async function cancelAutofill() {
+    if (!canRunAutofill) {
+      setMessage("You do not have permission to cancel autofill.");
+      return;
+    }
+
+    setIsUpdatingAutofillJob(true);
+    try {
+      const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill/cancel`, {
         method: "POST"
       });
-      const embedPayload = (await embedResponse.json().catch(() => ({}))) as EmbedPayload;
-      if (!embedResponse.ok) {
-        throw new Error(
-          `Embedding step failed: ${getApiErrorMessage(embedPayload, "Failed to embed document chunks.")}`
-        );
+      const payload = (await response.json()) as AutofillJobPayload;
+      if (!response.ok || !payload.job) {
+        throw new Error(getApiErrorMessage(payload, "Failed to cancel autofill."));
       }
 
-      const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill`, {
+      setAutofillJob(payload.job);
+      setMessage("Canceling autofill after the current question...");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to cancel autofill.");
+    } finally {
+      setIsUpdatingAutofillJob(false);
+    }
+  }
+
+  async function resumeAutofill() {
+    if (!canRunAutofill) {
+      setMessage("You do not have permission to resume autofill.");
+      return;
+    }
+
+    setMessage("");
+    setIsUpdatingAutofillJob(true);
+    let resumedJob: AutofillJobSummary;
+    try {
+      const response = await fetch(`/api/questionnaires/${questionnaireId}/autofill/resume`, {
         method: "POST"
       });
-      const payload = (await response.json()) as AutofillPayload;
-      if (!response.ok) {
-        throw new Error(getApiErrorMessage(payload, "Autofill failed."));
+      const payload = (await response.json()) as AutofillJobPayload;
+      if (!response.ok || !payload.job) {
+        throw new Error(getApiErrorMessage(payload, "Failed to resume autofill."));
       }
 
-      const latest = await pollDetails();
-      setAutofillProgress({
-        answeredCount: totalCount,
-        totalCount
-      });
-      const embeddedCount = Number(embedPayload.embeddedCount ?? 0);
-      const embeddingPrefix =
-        embeddedCount > 0 ? `Embedded ${embeddedCount} pending chunk${embeddedCount === 1 ? "" : "s"}. ` : "";
-      const answeredCount = latest?.questionnaire.answeredCount ?? payload.answeredCount ?? 0;
-      const finalTotalCount = latest?.questionnaire.questionCount ?? payload.totalCount ?? 0;
-      const notFoundCount = latest?.questionnaire.notFoundCount ?? payload.notFoundCount ?? 0;
-      setMessage(
-        `${embeddingPrefix}Autofill complete: ${answeredCount}/${finalTotalCount} answered, ${notFoundCount} not found.`
-      );
+      resumedJob = payload.job;
     } catch (error) {
-      setMessage(`Autofill failed: ${error instanceof Error ? error.message : "Unknown error."}`);
+      setMessage(error instanceof Error ? error.message : "Failed to resume autofill.");
+      return;
     } finally {
-      pollingStopped = true;
-      if (pollTimer !== null) {
-        window.clearInterval(pollTimer);
-      }
-      await loadDetails({ silent: true });
-      setIsRunningAutofill(false);
-      setAutofillProgress(null);
+      setIsUpdatingAutofillJob(false);
     }
+
+    await watchAutofillJob(resumedJob);
   }
 
   async function approveVisibleQuestions() {
@@ -2022,6 +2313,7 @@ export default function QuestionnaireDetailsPageClient({
     setIsBulkConfirmOpen(false);
 
     let succeeded = 0;
+    let signedOff = 0;
     let failed = 0;
     let firstFailureMessage = "";
     let cursor = 0;
@@ -2038,7 +2330,9 @@ export default function QuestionnaireDetailsPageClient({
 
           const question = bulkEligibleQuestions[index];
           const result = await persistApproval(question);
-          if (result.ok) {
+          if (result.ok && result.pendingSecondApproval) {
+            signedOff += 1;
+          } else if (result.ok) {
             succeeded += 1;
           } else {
             failed += 1;
@@ -2052,10 +2346,13 @@ export default function QuestionnaireDetailsPageClient({
 
     setIsBulkApproving(false);
 
+    const signedOffSummary = signedOff > 0 ? `, ${signedOff} signed off awaiting a second reviewer` : "";
     if (failed > 0) {
       setMessage(
-        `Bulk approval complete: ${succeeded} approved, ${failed} failed. ${firstFailureMessage ? `First error: ${firstFailureMessage}` : ""}`
+        `Bulk approval complete: ${succeeded} approved${signedOffSummary}, ${failed} failed. ${firstFailureMessage ? `First error: ${firstFailureMessage}` : ""}`
       );
+    } else if (signedOff > 0) {
+      setMessage(`Bulk approval complete: ${succeeded} approved${signedOffSummary}.`);
     } else {
       setMessage(`Bulk approval complete: ${succeeded} questions approved.`);
     }
@@ -2124,7 +2421,12 @@ export default function QuestionnaireDetailsPageClient({
         return;
       }
 
-      setMessage(question.approvedAnswer ? "Approval refreshed from saved values." : "Answer approved.");
+      if (result.pendingSecondApproval) {
+        setMessage("Signed off. A second reviewer must approve before this question is approved.");
+        setApprovalHistoryReloadKey((current) => current + 1);
+      } else {
+        setMessage(question.approvedAnswer ? "Approval refreshed from saved values." : "Answer approved.");
+      }
       const latest = await refreshQuestionnaireData();
       autoAdvanceAfterSuccessfulAction(question.id, visibleBeforeAction, latest);
     } catch (error) {
@@ -2521,6 +2823,11 @@ export default function QuestionnaireDetailsPageClient({
   });
 
   const activeEvidence = evidenceItems.find((item) => item.chunkId === activeEvidenceChunkId) ?? null;
+  const internalOnlyChunkIds = useMemo(() => new Set(data?.internalOnlyChunkIds ?? []), [data?.internalOnlyChunkIds]);
+  const reliesOnInternalOnlyEvidence = reliesSolelyOnInternalOnlyEvidence(
+    evidenceItems.map((item) => item.chunkId),
+    internalOnlyChunkIds
+  );
   const generatedAnswerRaw = (selectedQuestion?.answer ?? "").trim();
   const approvedAnswerRaw = (selectedQuestion?.approvedAnswer?.answerText ?? "").trim();
   const generatedAnswer =
@@ -2658,6 +2965,9 @@ export default function QuestionnaireDetailsPageClient({
           <Badge tone="draft">
             {selectedQuestionCitationCount} citation{selectedQuestionCitationCount === 1 ? "" : "s"}
           </Badge>
+          {selectedQuestion.assigneeUserId ? (
+            <Badge tone="draft">Assigned to {selectedQuestion.assignee?.email || "a member"}</Badge>
+          ) : null}
         </div>
 
         <Card className="card-muted">
@@ -2666,6 +2976,13 @@ export default function QuestionnaireDetailsPageClient({
           </p>
         </Card>
 
+        {reliesOnInternalOnlyEvidence ? (
+          <div className="message-banner error" role="status">
+            This answer relies only on internal-only evidence. Exports withhold its quoted snippets; confirm the
+            answer text itself is safe to share.
+          </div>
+        ) : null}
+
         {selectedQuestionIsStale && (isSelectedQuestionStalenessLoading || selectedQuestionStalenessDetails) ? (
           <Card className="card-muted">
             <div className="card-title-row">
@@ -2693,6 +3010,11 @@ export default function QuestionnaireDetailsPageClient({
                   value={selectedQuestionStalenessDetails.missingCount}
                   tone={selectedQuestionStalenessDetails.missingCount > 0 ? "danger" : "neutral"}
                 />
+                <CompactStatCard
+                  label="Expired documents"
+                  value={selectedQuestionStalenessDetails.expiredCount}
+                  tone={selectedQuestionStalenessDetails.expiredCount > 0 ? "warning" : "neutral"}
+                />
               </div>
             ) : null}
           </Card>
@@ -2736,6 +3058,24 @@ export default function QuestionnaireDetailsPageClient({
                   <span className="small muted">Suggestion-assisted</span>
                   <span>{selectedQuestionApprovalTrace.suggestionAssisted ? "Yes" : "No"}</span>
                 </div>
+                {selectedQuestionApprovalTrace.signers.map((signer, index) => (
+                  <div
+                    key={`${signer.email}-${signer.signedAt}`}
+                    className="toolbar-row compact"
+                    style={{ justifyContent: "space-between" }}
+                  >
+                    <span className="small muted">{index === 0 ? "Approved by" : "Second approval"}</span>
+                    <span>
+                      {signer.email} · {formatTraceTimestamp(signer.signedAt)}
+                    </span>
+                  </div>
+                ))}
+                {selectedQuestionApprovalTrace.pendingSignOff ? (
+                  <div className="toolbar-row compact" style={{ justifyContent: "space-between" }}>
+                    <span className="small muted">Pending re-approval</span>
+                    <span>Signed off by {selectedQuestionApprovalTrace.pendingSignOff.email}</span>
+                  </div>
+                ) : null}
               </div>
             ) : null}
           </Card>
@@ -2784,7 +3124,10 @@ export default function QuestionnaireDetailsPageClient({
                     />
                     <div style={{ minWidth: 0 }}>
                       <div>{approvalHistoryLabel(entry.type)}</div>
-                      <div className="small muted">{formatTraceTimestamp(entry.occurredAt)}</div>
+                      <div className="small muted">
+                        {formatTraceTimestamp(entry.occurredAt)}
+                        {entry.actorEmail ? ` · ${entry.actorEmail}` : ""}
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -2826,6 +3169,19 @@ export default function QuestionnaireDetailsPageClient({
             </Button>
           </div>
         </div>
+        {selectedQuestion.answerType !== "FREE_TEXT" &&
+        (!selectedQuestion.approvedAnswer || showingGeneratedComparison) &&
+        generatedAnswerRaw ? (
+          <p className="small muted" style={{ margin: "0 0 8px" }}>
+            Expects {describeAnswerType({ type: selectedQuestion.answerType, options: selectedQuestion.answerOptions })}
+            {" | "}
+            {selectedQuestion.shortAnswer ? (
+              <Badge tone="approved">{selectedQuestion.shortAnswer}</Badge>
+            ) : (
+              <Badge tone="review">No short answer</Badge>
+            )}
+          </p>
+        ) : null}
         <div className={isAnswerExpanded ? "answer-scroll" : "answer-preview"}>{effectiveAnswer}</div>
 
         <Card className="card-muted reuse-suggestions-card">
@@ -2911,7 +3267,9 @@ export default function QuestionnaireDetailsPageClient({
       <div className="context-section-stack">
         <div className="evidence-chip-list">
           {evidenceItems.map((item) => {
-            const citationReference = `${item.docName}#${item.chunkId}`;
+            const citationReference = item.location
+              ? `${item.docName} (${item.location})#${item.chunkId}`
+              : `${item.docName}#${item.chunkId}`;
             const itemDocumentId = documentIdByName[item.docName.trim().toLowerCase()] ?? null;
             return (
               <div key={item.chunkId} className={cx("evidence-chip-item", item.chunkId === activeEvidenceChunkId && "active")}>
@@ -2927,6 +3285,10 @@ export default function QuestionnaireDetailsPageClient({
                   aria-label={`Select evidence from ${citationReference}`}
                 >
                   <span className="evidence-chip-doc">{item.docName}</span>
+                  {item.location ? <span className="evidence-chip-location muted small">{item.location}</span> : null}
+                  {internalOnlyChunkIds.has(item.chunkId) ? (
+                    <span className="evidence-chip-location muted small">Internal only</span>
+                  ) : null}
                 </button>
                 <div className="evidence-chip-actions">
                   {itemDocumentId ? (
@@ -2969,6 +3331,23 @@ export default function QuestionnaireDetailsPageClient({
     );
   }
 
+  function renderCommentsTabContent() {
+    if (!selectedQuestion) {
+      return null;
+    }
+
+    return (
+      <CommentThreadPanel
+        endpoint={`/api/questionnaires/${questionnaireId}/items/${selectedQuestion.id}/comments`}
+        canComment={canComment}
+        onCommentsChanged={() => {
+          setApprovalHistoryReloadKey((value) => value + 1);
+          return loadDetails({ silent: true });
+        }}
+      />
+    );
+  }
+
   function renderReferencesTabContent() {
     return (
       <div className="context-section-stack">
@@ -3252,6 +3631,32 @@ export default function QuestionnaireDetailsPageClient({
               Source: {data?.questionnaire.sourceFileName ?? "n/a"} | Question column:{" "}
               {data?.questionnaire.questionColumn ?? "n/a"}
             </p>
+            {canEditExportColumns && data ? (
+              <label className="small muted" style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4 }}>
+                Evidence scope
+                <select
+                  className="select"
+                  value={data.questionnaire.evidenceCollection?.id ?? ""}
+                  onChange={(event) => void saveEvidenceScope(event.target.value)}
+                  disabled={isSavingEvidenceScope || isRunningAutofill}
+                >
+                  <option value="">All documents</option>
+                  {data.questionnaire.evidenceCollection &&
+                  !evidenceCollections.some((collection) => collection.id === data.questionnaire.evidenceCollection?.id) ? (
+                    <option value={data.questionnaire.evidenceCollection.id}>{data.questionnaire.evidenceCollection.name}</option>
+                  ) : null}
+                  {evidenceCollections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <p className="small muted" style={{ margin: "4px 0 0" }}>
+                Evidence scope: {data?.questionnaire.evidenceCollection?.name ?? "All documents"}
+              </p>
+            )}
           </div>
           <div className="toolbar-row queue-topbar-actions">
             <Button
@@ -3282,7 +3687,8 @@ export default function QuestionnaireDetailsPageClient({
                     <span className="btn-progress-fill" style={{ width: `${autofillProgressPercent}%` }} />
                   </span>
                   <span className="btn-progress-label">
-                    Running {autofillProgress?.answeredCount ?? 0}/{autofillProgress?.totalCount ?? 0}
+                    {autofillJob?.cancelRequested ? "Canceling" : "Running"}{" "}
+                    {autofillProgress?.processedCount ?? 0}/{autofillProgress?.totalCount ?? 0}
                   </span>
                 </span>
               ) : (
@@ -3306,6 +3712,30 @@ export default function QuestionnaireDetailsPageClient({
                   </button>
                 ) : null}
 
+                {canRunAutofill && isRunningAutofill && isAutofillJobActive(autofillJob) ? (
+                  <button
+                    type="button"
+                    className="row-actions-item"
+                    onClick={() => void cancelAutofill()}
+                    disabled={isUpdatingAutofillJob || autofillJob?.cancelRequested === true}
+                  >
+                    {autofillJob?.cancelRequested ? "Canceling Autofill..." : "Cancel Autofill"}
+                  </button>
+                ) : null}
+
+                {canRunAutofill &&
+                !isRunningAutofill &&
+                (autofillJob?.status === "FAILED" || autofillJob?.status === "CANCELED") ? (
+                  <button
+                    type="button"
+                    className="row-actions-item"
+                    onClick={() => void resumeAutofill()}
+                    disabled={isUpdatingAutofillJob || isBulkApproving || isApprovingReusedExact}
+                  >
+                    Resume Autofill · {autofillJob.totalCount - autofillJob.processedCount + autofillJob.failedCount} left
+                  </button>
+                ) : null}
+
                 {primaryAction.key !== "approve-reused" && canApproveAnswers ? (
                   <button
                     type="button"
@@ -3389,6 +3819,19 @@ export default function QuestionnaireDetailsPageClient({
         />
       ) : null}
 
+      {data ? (
+        <QuestionnaireAssignmentPanel
+          questionnaireId={questionnaireId}
+          selectedQuestion={
+            selectedQuestion
+              ? { id: selectedQuestion.id, assigneeUserId: selectedQuestion.assigneeUserId }
+              : null
+          }
+          canAssign={canAssignReviewers}
+          onAssignmentsChanged={() => loadDetails({ silent: true })}
+        />
+      ) : null}
+
       <Card className="trust-bar queue-metrics-strip">
         <div className="queue-metrics-controls">
           <nav className="toolbar-row queue-filter-row" aria-label="Queue filters">
@@ -3597,6 +4040,16 @@ export default function QuestionnaireDetailsPageClient({
                     </div>
                     <div className="workbench-detail-scroll">{renderReferencesTabContent()}</div>
                   </Card>
+
+                  <Card className="workbench-detail-card">
+                    <div className="workbench-detail-header">
+                      <div>
+                        <span className="small muted">Comments</span>
+                        <h3 style={{ margin: "6px 0 0" }}>Reviewer discussion</h3>
+                      </div>
+                    </div>
+                    <div className="workbench-detail-scroll">{renderCommentsTabContent()}</div>
+                  </Card>
                 </>
               ) : (
                 <Card className="workbench-empty-card">
@@ -3689,12 +4142,23 @@ export default function QuestionnaireDetailsPageClient({
               >
                 References
               </button>
+              <button
+                type="button"
+                role="tab"
+                className={cx("context-tab", drawerTab === "COMMENTS" && "active")}
+                aria-selected={drawerTab === "COMMENTS"}
+                onClick={() => setDrawerTab("COMMENTS")}
+              >
+                Comments
+                {selectedQuestion.unresolvedCommentCount > 0 ? ` (${selectedQuestion.unresolvedCommentCount})` : ""}
+              </button>
             </div>
 
             <div className="context-panel-body">
               {drawerTab === "ANSWER" ? renderAnswerTabContent() : null}
               {drawerTab === "EVIDENCE" ? renderEvidenceTabContent() : null}
               {drawerTab === "REFERENCES" ? renderReferencesTabContent() : null}
+              {drawerTab === "COMMENTS" ? renderCommentsTabContent() : null}
             </div>
 
             <div className="context-panel-actions">{renderContextActions()}</div>
@@ -3809,6 +4273,16 @@ export default function QuestionnaireDetailsPageClient({
         isOpen={isExportModalOpen && canExportQuestionnaire}
         questionnaireId={questionnaireId}
         questionnaireName={data?.questionnaire.name ?? "questionnaire"}
+        sourceFormat={data?.questionnaire.sourceFormat}
+        sourceHeaders={data?.questionnaire.sourceHeaders}
+        questionColumn={data?.questionnaire.questionColumn}
+        exportColumns={data?.questionnaire.exportColumns}
+        canEditExportColumns={canEditExportColumns}
+        onExportColumnsSaved={(exportColumns) =>
+          setData((current) =>
+            current ? { ...current, questionnaire: { ...current.questionnaire, exportColumns } } : current
+          )
+        }
         onClose={() => setIsExportModalOpen(false)}
         onSuccess={(nextMessage) => setMessage(nextMessage)}
         onError={(nextMessage) => setMessage(nextMessage)}
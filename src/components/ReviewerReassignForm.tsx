@@ -0,0 +1,105 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Card, cx } from "@/components/ui";
+import type { AssignableMember } from "@/server/questionnaires/questionAssignments";
+
+type ReviewerReassignFormProps = {
+  members: AssignableMember[];
+};
+
+const UNASSIGNED = "";
+
+export function ReviewerReassignForm({ members }: ReviewerReassignFormProps) {
+  const router = useRouter();
+  const [fromUserId, setFromUserId] = useState(members[0]?.userId ?? "");
+  const [toUserId, setToUserId] = useState(UNASSIGNED);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/org/assignments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromUserId, toUserId: toUserId || null })
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | { reassignedCount?: number; error?: { message?: string } }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(payload?.error?.message ?? "Failed to reassign questions.");
+      }
+
+      const count = payload?.reassignedCount ?? 0;
+      setMessage({
+        tone: "success",
+        text: `Moved ${count} open question${count === 1 ? "" : "s"}.`
+      });
+      router.refresh();
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Failed to reassign questions." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card className="section-shell">
+      <div className="card-title-row">
+        <div className="section-copy">
+          <span className="section-kicker">Coverage</span>
+          <div>
+            <h3 style={{ margin: 0 }}>Reassign open work</h3>
+            <p className="muted small" style={{ margin: "4px 0 0" }}>
+              Move every unapproved question owned by one reviewer to another, for example while they are out.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message ? <div className={cx("message-banner", message.tone)}>{message.text}</div> : null}
+
+      <form className="toolbar-row filter-toolbar" onSubmit={(event) => void handleSubmit(event)}>
+        <select
+          className="select"
+          value={fromUserId}
+          onChange={(event) => setFromUserId(event.target.value)}
+          aria-label="From reviewer"
+          style={{ width: 220 }}
+        >
+          {members.map((member) => (
+            <option key={member.userId} value={member.userId}>
+              {member.email || member.userId}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={toUserId}
+          onChange={(event) => setToUserId(event.target.value)}
+          aria-label="To reviewer"
+          style={{ width: 220 }}
+        >
+          <option value={UNASSIGNED}>Unassigned</option>
+          {members
+            .filter((member) => member.userId !== fromUserId)
+            .map((member) => (
+              <option key={member.userId} value={member.userId}>
+                {member.email || member.userId}
+              </option>
+            ))}
+        </select>
+        <Button type="submit" variant="secondary" disabled={isSaving || !fromUserId}>
+          {isSaving ? "Reassigning..." : "Reassign"}
+        </Button>
+      </form>
+    </Card>
+  );
+}
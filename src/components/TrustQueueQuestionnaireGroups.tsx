@@ -10,6 +10,7 @@ type TrustQueueQuestionnaireGroupsProps = {
   groups: TrustQueueQuestionnaireGroup[];
   queueFilter?: TrustQueueSessionFilterParam;
   queueQuery?: string;
+  queueAssignedToMe?: boolean;
 };
 
 function groupTone(group: TrustQueueQuestionnaireGroup): "review" | "draft" {
@@ -23,7 +24,8 @@ function groupLabel(group: TrustQueueQuestionnaireGroup): string {
 function buildQuestionnaireHref(
   group: TrustQueueQuestionnaireGroup,
   queueFilter: TrustQueueSessionFilterParam,
-  queueQuery?: string
+  queueQuery?: string,
+  queueAssignedToMe?: boolean
 ): string {
   if (!group.firstActionableItemId || !group.firstActionableFilter) {
     return `/questionnaires/${group.questionnaireId}`;
@@ -34,14 +36,16 @@ function buildQuestionnaireHref(
     itemId: group.firstActionableItemId,
     rowFilter: group.firstActionableFilter,
     queueFilter,
-    queueQuery
+    queueQuery,
+    queueAssignedToMe
   });
 }
 
 export function TrustQueueQuestionnaireGroups({
   groups,
   queueFilter = "all",
-  queueQuery
+  queueQuery,
+  queueAssignedToMe
 }: TrustQueueQuestionnaireGroupsProps) {
   if (groups.length === 0) {
     return null;
@@ -61,7 +65,7 @@ export function TrustQueueQuestionnaireGroups({
                 <div className="toolbar-row compact">
                   <Badge tone={groupTone(group)}>{groupLabel(group)}</Badge>
                   <Link
-                    href={buildQuestionnaireHref(group, queueFilter, queueQuery)}
+                    href={buildQuestionnaireHref(group, queueFilter, queueQuery, queueAssignedToMe)}
                     className="btn btn-secondary"
                   >
                     Open workbench
@@ -10,8 +10,18 @@ type TrustQueueTableProps = {
   rows: TrustQueueRow[];
   queueFilter?: TrustQueueSessionFilterParam;
   queueQuery?: string;
+  queueAssignedToMe?: boolean;
 };
 
+function formatDueAt(value: string | null): string {
+  if (!value) {
+    return "No due date";
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? "n/a" : new Date(parsed).toLocaleDateString();
+}
+
 function formatApprovedAt(value: string | null): string {
   if (!value) {
     return "n/a";
@@ -49,6 +59,24 @@ function statusLabel(status: TrustQueueRow["reviewStatus"]): string {
   return "Open";
 }
 
+const STALE_REASON_LABELS: Record<TrustQueueRow["staleReasons"][number], string> = {
+  FINGERPRINT_MISMATCH: "Evidence changed",
+  MISSING_CHUNK: "Evidence missing",
+  EXPIRED_DOCUMENT: "Evidence expired"
+};
+
+function formatStaleReasons(row: TrustQueueRow): string {
+  return row.staleReasons.map((reason) => STALE_REASON_LABELS[reason]).join(", ") || "n/a";
+}
+
+function staleCalloutText(row: TrustQueueRow): string {
+  if (row.staleReasons.length === 1 && row.staleReasons[0] === "EXPIRED_DOCUMENT") {
+    return "An approved answer cites a document that has passed its expiry date.";
+  }
+
+  return "An approved answer has drifted against its cited evidence.";
+}
+
 function priorityTone(priority: TrustQueueRow["priority"]): "review" | "draft" {
   return priority === "P1" ? "review" : "draft";
 }
@@ -56,21 +84,24 @@ function priorityTone(priority: TrustQueueRow["priority"]): "review" | "draft" {
 function buildReviewHref(
   row: TrustQueueRow,
   queueFilter: TrustQueueSessionFilterParam,
-  queueQuery?: string
+  queueQuery?: string,
+  queueAssignedToMe?: boolean
 ): string {
   return buildTrustQueueSessionHref({
     questionnaireId: row.questionnaireId,
     itemId: row.itemId,
     rowFilter: row.freshness === "STALE" ? "stale" : "needs-review",
     queueFilter,
-    queueQuery
+    queueQuery,
+    queueAssignedToMe
   });
 }
 
 export function TrustQueueTable({
   rows,
   queueFilter = "all",
-  queueQuery
+  queueQuery,
+  queueAssignedToMe
 }: TrustQueueTableProps) {
   if (rows.length === 0) {
     return (
@@ -99,13 +130,14 @@ export function TrustQueueTable({
             </div>
             <div className="toolbar-row compact">
               <Badge tone={priorityTone(row.priority)}>{row.priority}</Badge>
+              {row.isOverdue ? <Badge tone="review">Overdue</Badge> : null}
               <Badge tone={statusTone(row.reviewStatus)}>{statusLabel(row.reviewStatus)}</Badge>
               {row.freshness ? (
                 <Badge tone={row.freshness === "STALE" ? "review" : "approved"}>
                   {row.freshness === "STALE" ? "Stale" : "Fresh"}
                 </Badge>
               ) : null}
-              <Link href={buildReviewHref(row, queueFilter, queueQuery)} className="btn btn-secondary">
+              <Link href={buildReviewHref(row, queueFilter, queueQuery, queueAssignedToMe)} className="btn btn-secondary">
                 Open item
               </Link>
             </div>
@@ -120,17 +152,31 @@ export function TrustQueueTable({
               <span className="review-meta-label">Freshness</span>
               <span>{row.freshness ? (row.freshness === "STALE" ? "Stale" : "Fresh") : "n/a"}</span>
             </div>
+            {row.freshness === "STALE" ? (
+              <div className="review-meta-item">
+                <span className="review-meta-label">Stale reason</span>
+                <span>{formatStaleReasons(row)}</span>
+              </div>
+            ) : null}
             <div className="review-meta-item">
               <span className="review-meta-label">Approved at</span>
               <span>{formatApprovedAt(row.approvedAt)}</span>
             </div>
+            <div className="review-meta-item">
+              <span className="review-meta-label">Assignee</span>
+              <span>{row.assigneeUserId ? row.assigneeEmail || "Member" : "Unassigned"}</span>
+            </div>
+            <div className="review-meta-item">
+              <span className="review-meta-label">Due</span>
+              <span>{formatDueAt(row.dueAt)}</span>
+            </div>
           </div>
 
           <div className="review-callout">
             <span className="review-callout-label">Why it is here</span>
             <span>
               {row.freshness === "STALE"
-                ? "An approved answer has drifted against its cited evidence."
+                ? staleCalloutText(row)
                 : row.reviewStatus === "NEEDS_REVIEW"
                   ? "This question still needs a reviewer decision."
                   : "This item is still open in the queue."}
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createAiProvider, parseAiProviderConfig } from "@/lib/aiProvider";
+
+describe("AI provider endpoints", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("ignores stored endpoint overrides and sends env keys only to env-configured endpoints", async () => {
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "https://llm.internal.example/v1/");
+    vi.stubEnv("OPENAI_COMPATIBLE_API_KEY", "deployment-key");
+    const fetchMock = vi.fn(async () => Response.json({ data: [{ embedding: [0.1, 0.2] }] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const config = parseAiProviderConfig({ baseUrl: "https://attacker.example", embeddingModel: "embed-small" });
+    expect(config).not.toHaveProperty("baseUrl");
+
+    await createAiProvider("OPENAI_COMPATIBLE", config).createEmbedding("hello");
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://llm.internal.example/v1/embeddings",
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer deployment-key" })
+      })
+    );
+  });
+});
@@ -0,0 +1,352 @@
+import type { AiProviderKind } from "@prisma/client";
+import { createLocalAiProvider } from "@/lib/localAiProvider";
+import { prisma } from "@/lib/prisma";
+import type { AnswerTypeSpec } from "@/shared/answerTypes";
+
+export const AI_PROVIDER_KINDS: AiProviderKind[] = ["OPENAI", "AZURE_OPENAI", "OPENAI_COMPATIBLE", "LOCAL"];
+
+const OPENAI_API_BASE = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_EMBEDDINGS_MODEL = "text-embedding-3-small";
+const OPENAI_DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+const AZURE_OPENAI_DEFAULT_API_VERSION = "2024-06-01";
+
+export type AiSnippet = {
+  chunkId: string;
+  docName: string;
+  quotedSnippet: string;
+};
+
+export type AiJsonTask = "EVIDENCE_SUFFICIENCY" | "LEGACY_EVIDENCE_SUFFICIENCY" | "GROUNDED_ANSWER" | "SHORT_ANSWER";
+
+export type AiJsonRequest = {
+  task: AiJsonTask;
+  systemPrompt: string;
+  userPrompt: string;
+  question: string;
+  snippets: AiSnippet[];
+  /** Structured SHORT_ANSWER inputs for providers that do not read prompts. */
+  shortAnswer?: {
+    answerType: AnswerTypeSpec;
+    draftAnswer: string;
+  };
+};
+
+export type AiProvider = {
+  kind: AiProviderKind;
+  chatModel: string;
+  /** Namespaced by provider so vectors from different providers or models are never compared. */
+  embeddingModel: string;
+  createEmbedding(input: string): Promise<number[]>;
+  /** Embeds several inputs in one request; results are returned in input order. */
+  createEmbeddings(inputs: string[]): Promise<number[][]>;
+  /** Returns the parsed JSON object the model produced; callers own prompt building and normalization. */
+  completeJson(request: AiJsonRequest): Promise<unknown>;
+};
+
+/**
+ * Non-secret per-organization overrides. API keys and endpoints always come from the environment, so
+ * the deployment's keys are only ever sent to hosts the deployment configured.
+ */
+export type AiProviderConfig = {
+  apiVersion?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  chatDeployment?: string;
+  embeddingDeployment?: string;
+};
+
+type HttpProviderParams = {
+  kind: AiProviderKind;
+  label: string;
+  chatModel: string;
+  embeddingModel: string;
+  expectedEmbeddingDimensions: number | null;
+  /** Resolved per request so missing settings surface as request errors, not construction errors. */
+  getChatUrl: () => string;
+  getEmbeddingsUrl: () => string;
+  getHeaders: () => Record<string, string>;
+  chatBody: Record<string, unknown>;
+  embeddingBody: Record<string, unknown>;
+};
+
+/** A provider answered with a non-2xx status. */
+export class AiProviderRequestError extends Error {
+  readonly status: number;
+  /** Parsed from the Retry-After header when the provider sent one. */
+  readonly retryAfterMs: number | null;
+
+  constructor(params: { message: string; status: number; retryAfterMs?: number | null }) {
+    super(params.message);
+    this.name = "AiProviderRequestError";
+    this.status = params.status;
+    this.retryAfterMs = params.retryAfterMs ?? null;
+  }
+
+  /** Rate limits and server errors are worth retrying; other client errors are not. */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function isAiProviderKind(value: unknown): value is AiProviderKind {
+  return typeof value === "string" && AI_PROVIDER_KINDS.includes(value as AiProviderKind);
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+export function parseAiProviderConfig(value: unknown): AiProviderConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  const typed = value as Record<string, unknown>;
+  const embeddingDimensions =
+    typeof typed.embeddingDimensions === "number" &&
+    Number.isInteger(typed.embeddingDimensions) &&
+    typed.embeddingDimensions > 0
+      ? typed.embeddingDimensions
+      : undefined;
+
+  return {
+    apiVersion: toOptionalString(typed.apiVersion),
+    chatModel: toOptionalString(typed.chatModel),
+    embeddingModel: toOptionalString(typed.embeddingModel),
+    embeddingDimensions,
+    chatDeployment: toOptionalString(typed.chatDeployment),
+    embeddingDeployment: toOptionalString(typed.embeddingDeployment)
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function requireSetting(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function trimTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, "");
+}
+
+function createHttpAiProvider(params: HttpProviderParams): AiProvider {
+  async function post(url: string, body: Record<string, unknown>) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        ...params.getHeaders(),
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AiProviderRequestError({
+        message: `${params.label} request failed (${response.status}): ${errorText}`,
+        status: response.status,
+        retryAfterMs: parseRetryAfterMs(response.headers.get("retry-after"))
+      });
+    }
+
+    return response.json();
+  }
+
+  function assertEmbeddingDimensions(embedding: number[] | undefined): number[] {
+    const hasExpectedDimensions =
+      params.expectedEmbeddingDimensions === null
+        ? Boolean(embedding && embedding.length > 0)
+        : embedding?.length === params.expectedEmbeddingDimensions;
+    if (!embedding || !hasExpectedDimensions) {
+      throw new Error("Embedding response is missing or has unexpected dimensions");
+    }
+
+    return embedding;
+  }
+
+  return {
+    kind: params.kind,
+    chatModel: params.chatModel,
+    embeddingModel: params.embeddingModel,
+    async createEmbedding(input) {
+      const payload = (await post(params.getEmbeddingsUrl(), { ...params.embeddingBody, input })) as {
+        data?: Array<{ embedding?: number[] }>;
+      };
+
+      return assertEmbeddingDimensions(payload.data?.[0]?.embedding);
+    },
+    async createEmbeddings(inputs) {
+      if (inputs.length === 0) {
+        return [];
+      }
+
+      const payload = (await post(params.getEmbeddingsUrl(), { ...params.embeddingBody, input: inputs })) as {
+        data?: Array<{ index?: number; embedding?: number[] }>;
+      };
+
+      const data = payload.data ?? [];
+      if (data.length !== inputs.length) {
+        throw new Error("Embedding response does not contain one embedding per input");
+      }
+
+      return [...data]
+        .sort((left, right) => (left.index ?? 0) - (right.index ?? 0))
+        .map((entry) => assertEmbeddingDimensions(entry.embedding));
+    },
+    async completeJson(request) {
+      const payload = (await post(params.getChatUrl(), {
+        ...params.chatBody,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt }
+        ]
+      })) as {
+        choices?: Array<{ message?: { content?: string } }>;
+      };
+
+      const content = payload.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("Chat completion response did not include content");
+      }
+
+      return JSON.parse(content) as unknown;
+    }
+  };
+}
+
+function createOpenAiProvider(config: AiProviderConfig): AiProvider {
+  const chatModel = config.chatModel ?? process.env.OPENAI_CHAT_MODEL ?? "gpt-4.1-mini";
+  const embeddingModel = config.embeddingModel ?? OPENAI_DEFAULT_EMBEDDINGS_MODEL;
+  const embeddingDimensions = config.embeddingDimensions ?? OPENAI_DEFAULT_EMBEDDING_DIMENSIONS;
+
+  return createHttpAiProvider({
+    kind: "OPENAI",
+    label: "OpenAI",
+    chatModel,
+    embeddingModel: `openai:${embeddingModel}${
+      embeddingDimensions === OPENAI_DEFAULT_EMBEDDING_DIMENSIONS ? "" : `@${embeddingDimensions}`
+    }`,
+    expectedEmbeddingDimensions: embeddingDimensions,
+    getChatUrl: () => `${OPENAI_API_BASE}/chat/completions`,
+    getEmbeddingsUrl: () => `${OPENAI_API_BASE}/embeddings`,
+    getHeaders: () => ({ Authorization: `Bearer ${requireEnv("OPENAI_API_KEY")}` }),
+    chatBody: { model: chatModel },
+    embeddingBody: {
+      model: embeddingModel,
+      ...(embeddingDimensions === OPENAI_DEFAULT_EMBEDDING_DIMENSIONS ? {} : { dimensions: embeddingDimensions })
+    }
+  });
+}
+
+function createAzureOpenAiProvider(config: AiProviderConfig): AiProvider {
+  const endpoint = trimTrailingSlash(toOptionalString(process.env.AZURE_OPENAI_ENDPOINT) ?? "");
+  const apiVersion =
+    config.apiVersion ?? toOptionalString(process.env.AZURE_OPENAI_API_VERSION) ?? AZURE_OPENAI_DEFAULT_API_VERSION;
+  const chatDeployment = config.chatDeployment ?? toOptionalString(process.env.AZURE_OPENAI_CHAT_DEPLOYMENT) ?? "";
+  const embeddingDeployment =
+    config.embeddingDeployment ?? toOptionalString(process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT) ?? "";
+  const toDeploymentUrl = (deployment: string, settingName: string, operation: string) =>
+    `${requireSetting(endpoint, "AZURE_OPENAI_ENDPOINT")}/openai/deployments/${encodeURIComponent(
+      requireSetting(deployment, settingName)
+    )}/${operation}?api-version=${encodeURIComponent(apiVersion)}`;
+
+  return createHttpAiProvider({
+    kind: "AZURE_OPENAI",
+    label: "Azure OpenAI",
+    chatModel: chatDeployment,
+    embeddingModel: `azure_openai:${embeddingDeployment}`,
+    expectedEmbeddingDimensions: config.embeddingDimensions ?? null,
+    getChatUrl: () => toDeploymentUrl(chatDeployment, "AZURE_OPENAI_CHAT_DEPLOYMENT", "chat/completions"),
+    getEmbeddingsUrl: () => toDeploymentUrl(embeddingDeployment, "AZURE_OPENAI_EMBEDDING_DEPLOYMENT", "embeddings"),
+    getHeaders: () => ({ "api-key": requireEnv("AZURE_OPENAI_API_KEY") }),
+    chatBody: {},
+    embeddingBody: {}
+  });
+}
+
+function createOpenAiCompatibleProvider(config: AiProviderConfig): AiProvider {
+  const baseUrl = trimTrailingSlash(toOptionalString(process.env.OPENAI_COMPATIBLE_BASE_URL) ?? "");
+  const chatModel = config.chatModel ?? toOptionalString(process.env.OPENAI_COMPATIBLE_CHAT_MODEL) ?? "";
+  const embeddingModel =
+    config.embeddingModel ?? toOptionalString(process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL) ?? "";
+
+  return createHttpAiProvider({
+    kind: "OPENAI_COMPATIBLE",
+    label: "OpenAI-compatible provider",
+    chatModel,
+    embeddingModel: `openai_compatible:${embeddingModel}`,
+    expectedEmbeddingDimensions: config.embeddingDimensions ?? null,
+    getChatUrl: () => `${requireSetting(baseUrl, "OPENAI_COMPATIBLE_BASE_URL")}/chat/completions`,
+    getEmbeddingsUrl: () => `${requireSetting(baseUrl, "OPENAI_COMPATIBLE_BASE_URL")}/embeddings`,
+    getHeaders: (): Record<string, string> => {
+      const apiKey = toOptionalString(process.env.OPENAI_COMPATIBLE_API_KEY);
+      return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    },
+    chatBody: { model: chatModel },
+    embeddingBody: { model: embeddingModel }
+  });
+}
+
+export function createAiProvider(kind: AiProviderKind, config: AiProviderConfig = {}): AiProvider {
+  switch (kind) {
+    case "AZURE_OPENAI":
+      return createAzureOpenAiProvider(config);
+    case "OPENAI_COMPATIBLE":
+      return createOpenAiCompatibleProvider(config);
+    case "LOCAL":
+      return createLocalAiProvider(config);
+    case "OPENAI":
+    default:
+      return createOpenAiProvider(config);
+  }
+}
+
+/** Deployment-wide default used when an organization has not picked a provider. */
+export function getDefaultAiProviderKind(): AiProviderKind {
+  const configured = process.env.AI_PROVIDER?.trim().toUpperCase();
+  return isAiProviderKind(configured) ? configured : "OPENAI";
+}
+
+export function getDefaultAiProvider(): AiProvider {
+  return createAiProvider(getDefaultAiProviderKind());
+}
+
+export async function getAiProviderForOrganization(organizationId: string): Promise<AiProvider> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiProvider: true, aiProviderConfig: true }
+  });
+
+  return createAiProvider(
+    organization?.aiProvider ?? getDefaultAiProviderKind(),
+    parseAiProviderConfig(organization?.aiProviderConfig)
+  );
+}
@@ -1,6 +1,6 @@
 import { prisma } from "@/lib/prisma";
 
-export type ApiErrorCode = "VALIDATION_ERROR" | "NOT_FOUND" | "INTERNAL_ERROR";
+export type ApiErrorCode = "VALIDATION_ERROR" | "NOT_FOUND" | "CONFLICT" | "INTERNAL_ERROR";
 
 export class ApiRouteError extends Error {
   readonly status: number;
@@ -1,7 +1,9 @@
+import { getAiProviderForOrganization, type AiProvider } from "@/lib/aiProvider";
+import { withChunkLocation } from "@/lib/citations";
 import { createEmbedding } from "@/lib/openai";
 import { prisma } from "@/lib/prisma";
-import { embeddingToVectorLiteral } from "@/lib/retrieval";
 import { NOT_FOUND_TEXT } from "@/shared/answerTemplates";
+import { findSemanticPhrasingMatches } from "@/server/approvedAnswers/libraryAnswers";
 import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
 import {
   buildQuestionTextMetadata,
@@ -15,12 +17,17 @@ const MAX_QUOTED_SNIPPET_CHARS = 700;
 
 type ReuseMatchType = "exact" | "near_exact" | "semantic";
 
+type QuestionPhrasingKey = {
+  normalizedQuestionText: string;
+  questionTextHash: string;
+};
+
 type ApprovedAnswerCandidate = {
   id: string;
   answerText: string;
   citationChunkIds: string[];
-  normalizedQuestionText: string;
-  questionTextHash: string;
+  /** The primary phrasing followed by every alias. */
+  phrasings: QuestionPhrasingKey[];
   updatedAt: Date;
 };
 
@@ -28,11 +35,7 @@ type ChunkCitation = {
   chunkId: string;
   docName: string;
   quotedSnippet: string;
-};
-
-type SemanticCandidateRow = {
-  id: string;
-  similarity: number;
+  location?: string;
 };
 
 export type ReusedApprovedAnswer = {
@@ -82,7 +85,10 @@ type CitationResolver = {
   resolveCitationChunkIds(chunkIds: string[]): Promise<ChunkCitation[] | null>;
 };
 
-async function createCitationResolver(organizationId: string): Promise<CitationResolver> {
+async function createCitationResolver(
+  organizationId: string,
+  evidenceCollectionId: string | null
+): Promise<CitationResolver> {
   const cache = new Map<string, ChunkCitation | null>();
 
   const resolveCitationChunkIds = async (chunkIds: string[]) => {
@@ -103,12 +109,15 @@ async function createCitationResolver(organizationId: string): Promise<CitationR
             in: missingChunkIds
           },
           document: {
-            organizationId
+            organizationId,
+            ...(evidenceCollectionId ? { collectionEntries: { some: { collectionId: evidenceCollectionId } } } : {})
           }
         },
         select: {
           id: true,
           content: true,
+          pageNumber: true,
+          sectionNumber: true,
           document: {
             select: {
               name: true
@@ -121,7 +130,8 @@ async function createCitationResolver(organizationId: string): Promise<CitationR
         cache.set(chunk.id, {
           chunkId: chunk.id,
           docName: chunk.document.name,
-          quotedSnippet: normalizeSnippet(chunk.content)
+          quotedSnippet: normalizeSnippet(chunk.content),
+          ...withChunkLocation(chunk)
         });
       }
     }
@@ -175,12 +185,22 @@ async function resolveBestCandidate(params: {
   return null;
 }
 
+/**
+ * Reuse only considers approved answers recorded under the same evidence scope, and only while
+ * every cited chunk is still inside that scope, so an answer approved for one product is never
+ * reused for another.
+ */
 export async function createApprovedAnswerReuseMatcher(params: {
   organizationId: string;
+  aiProvider?: AiProvider;
+  evidenceCollectionId?: string | null;
 }): Promise<ApprovedAnswerReuseMatcher> {
-  const candidates = await prisma.approvedAnswer.findMany({
+  const aiProvider = params.aiProvider ?? (await getAiProviderForOrganization(params.organizationId));
+  const evidenceCollectionId = params.evidenceCollectionId ?? null;
+  const approvedAnswers = await prisma.approvedAnswer.findMany({
     where: {
-      organizationId: params.organizationId
+      organizationId: params.organizationId,
+      evidenceCollectionId
     },
     select: {
       id: true,
@@ -188,10 +208,29 @@ export async function createApprovedAnswerReuseMatcher(params: {
       citationChunkIds: true,
       normalizedQuestionText: true,
       questionTextHash: true,
-      updatedAt: true
+      updatedAt: true,
+      aliases: {
+        select: {
+          normalizedQuestionText: true,
+          questionTextHash: true
+        }
+      }
     }
   });
-  const citationResolver = await createCitationResolver(params.organizationId);
+  const candidates = approvedAnswers.map<ApprovedAnswerCandidate>((approvedAnswer) => ({
+    id: approvedAnswer.id,
+    answerText: approvedAnswer.answerText,
+    citationChunkIds: approvedAnswer.citationChunkIds,
+    phrasings: [
+      {
+        normalizedQuestionText: approvedAnswer.normalizedQuestionText,
+        questionTextHash: approvedAnswer.questionTextHash
+      },
+      ...approvedAnswer.aliases
+    ].filter((phrasing) => phrasing.normalizedQuestionText.length > 0),
+    updatedAt: approvedAnswer.updatedAt
+  }));
+  const citationResolver = await createCitationResolver(params.organizationId, evidenceCollectionId);
   const candidateById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
   const staleByApprovedAnswerId = new Map<string, Promise<boolean>>();
 
@@ -219,10 +258,12 @@ export async function createApprovedAnswerReuseMatcher(params: {
     }
 
     const exactCandidates = candidates
-      .filter(
-        (candidate) =>
-          candidate.questionTextHash === questionTextHash ||
-          candidate.normalizedQuestionText === normalizedQuestionText
+      .filter((candidate) =>
+        candidate.phrasings.some(
+          (phrasing) =>
+            phrasing.questionTextHash === questionTextHash ||
+            phrasing.normalizedQuestionText === normalizedQuestionText
+        )
       )
       .sort(compareByUpdatedAtDesc);
 
@@ -239,7 +280,12 @@ export async function createApprovedAnswerReuseMatcher(params: {
     const nearCandidates = candidates
       .map((candidate) => ({
         candidate,
-        similarity: questionTextNearExactSimilarity(normalizedQuestionText, candidate.normalizedQuestionText)
+        similarity: Math.max(
+          0,
+          ...candidate.phrasings.map((phrasing) =>
+            questionTextNearExactSimilarity(normalizedQuestionText, phrasing.normalizedQuestionText)
+          )
+        )
       }))
       .filter(({ similarity }) => similarity >= NEAR_EXACT_MIN_SIMILARITY)
       .sort((left, right) => {
@@ -261,25 +307,17 @@ export async function createApprovedAnswerReuseMatcher(params: {
       return nearMatch;
     }
 
-    const questionEmbedding = await createEmbedding(questionText);
-    const semanticRows = await prisma.$queryRawUnsafe<SemanticCandidateRow[]>(
-      `
-        SELECT
-          aa."id" AS "id",
-          (1 - (aa."questionEmbedding" <=> $1::vector(1536)))::float AS "similarity"
-        FROM "ApprovedAnswer" aa
-        WHERE aa."organizationId" = $2
-          AND aa."questionEmbedding" IS NOT NULL
-        ORDER BY "similarity" DESC, aa."updatedAt" DESC
-        LIMIT $3
-      `,
-      embeddingToVectorLiteral(questionEmbedding),
-      params.organizationId,
-      MAX_SEMANTIC_CANDIDATES
-    );
+    const questionEmbedding = await createEmbedding(questionText, aiProvider);
+    const semanticRows = await findSemanticPhrasingMatches({
+      organizationId: params.organizationId,
+      evidenceCollectionId,
+      embedding: questionEmbedding,
+      embeddingModel: aiProvider.embeddingModel,
+      limit: MAX_SEMANTIC_CANDIDATES
+    });
 
     const semanticCandidates = semanticRows
-      .filter((row) => Number(row.similarity) >= SEMANTIC_MIN_SIMILARITY)
+      .filter((row) => row.similarity >= SEMANTIC_MIN_SIMILARITY)
       .map((row) => candidateById.get(row.id))
       .filter((candidate): candidate is ApprovedAnswerCandidate => candidate !== undefined);
 
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { chunkText } from "@/lib/chunker";
+import { chunkSegments, chunkSemanticText, chunkText } from "@/lib/chunker";
 
 describe("chunkText", () => {
   it("returns no chunks for empty extracted text", () => {
@@ -27,3 +27,91 @@ describe("chunkText", () => {
     expect(chunks.every((chunk) => chunk.content === chunk.content.trim())).toBe(true);
   });
 });
+
+describe("chunkSegments", () => {
+  it("keeps page and section locations and numbers chunks across segments", () => {
+    const chunks = chunkSegments(
+      [
+        { text: "alpha beta gamma delta epsilon", pageNumber: 1, sectionNumber: null },
+        { text: "zeta eta", pageNumber: null, sectionNumber: 4 }
+      ],
+      { maxChars: 18, overlapChars: 4 }
+    );
+
+    expect(chunks.map((chunk) => chunk.chunkIndex)).toEqual(chunks.map((_, index) => index));
+    expect(chunks.at(-1)).toEqual({ chunkIndex: chunks.length - 1, content: "zeta eta", headingPath: [], pageNumber: null, sectionNumber: 4 });
+    expect(chunks.slice(0, -1).every((chunk) => chunk.pageNumber === 1 && chunk.sectionNumber === null)).toBe(true);
+  });
+});
+
+describe("chunkSemanticText", () => {
+  it("splits on headings and records the heading path on each chunk", () => {
+    const text = [
+      "# Security Overview",
+      "## Encryption",
+      "Data at rest uses AES-256.",
+      "",
+      "## Access Control",
+      "MFA is required for administrators.",
+      "",
+      "# Operations",
+      "1) Backups",
+      "Backups run nightly."
+    ].join("\n");
+
+    const chunks = chunkSemanticText(text);
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      ["Security Overview", "Encryption"],
+      ["Security Overview", "Access Control"],
+      ["Operations", "1) Backups"]
+    ]);
+    expect(chunks[0].content).toBe("# Security Overview\n## Encryption\n\nData at rest uses AES-256.");
+    expect(chunks[1].content).toBe("## Access Control\n\nMFA is required for administrators.");
+  });
+
+  it("keeps list items and table rows intact and repeats the heading on continuation chunks", () => {
+    const items = Array.from({ length: 12 }, (_, index) => `- Control ${index + 1}: reviewed quarterly by security.`);
+    const rows = Array.from({ length: 12 }, (_, index) => `| C-${index + 1} | Encryption at rest enforced |`);
+    const text = ["## Controls", ...items, "", "| Control | Status |", "| --- | --- |", ...rows].join("\n");
+
+    const chunks = chunkSemanticText(text, { maxChars: 300 });
+    const lines = chunks.flatMap((chunk) => chunk.content.split("\n"));
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((chunk) => chunk.content.startsWith("## Controls"))).toBe(true);
+    expect(chunks.every((chunk) => chunk.content.length <= 300)).toBe(true);
+    expect(items.every((item) => lines.includes(item))).toBe(true);
+    expect(rows.every((row) => lines.includes(row))).toBe(true);
+    expect(
+      chunks
+        .filter((chunk) => chunk.content.includes("| C-"))
+        .every((chunk) => chunk.content.includes("| Control | Status |\n| --- | --- |"))
+    ).toBe(true);
+  });
+
+  it("does not treat the first item of a numbered list as a heading", () => {
+    const chunks = chunkSemanticText("1. Rotate keys yearly\n2. Revoke access on exit");
+
+    expect(chunks).toEqual([
+      { chunkIndex: 0, content: "1. Rotate keys yearly\n2. Revoke access on exit", headingPath: [] }
+    ]);
+  });
+
+  it("carries the heading path across segments in semantic mode", () => {
+    const chunks = chunkSegments(
+      [
+        { text: "Page 1\n## Business Continuity\nRPO is 4 hours.", pageNumber: 1, sectionNumber: null },
+        { text: "Page 2\nRTO is 24 hours.", pageNumber: 2, sectionNumber: null }
+      ],
+      { strategy: "SEMANTIC" }
+    );
+
+    expect(chunks.map((chunk) => [chunk.pageNumber, chunk.headingPath])).toEqual([
+      [1, []],
+      [1, ["Business Continuity"]],
+      [2, ["Business Continuity"]]
+    ]);
+    expect(chunks[2].content).toBe("## Business Continuity\n\nPage 2\n\nRTO is 24 hours.");
+  });
+});
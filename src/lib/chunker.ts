@@ -1,3 +1,5 @@
+import type { ChunkingStrategy } from "@prisma/client";
+import type { ExtractedSegment } from "@/lib/extractText";
 import { sanitizeExtractedText } from "@/lib/textNormalization";
 
 export const DEFAULT_MAX_CHARS = 1500;
@@ -8,11 +10,58 @@ export type Chunk = {
   content: string;
 };
 
+export type SemanticChunk = Chunk & {
+  headingPath: string[];
+};
+
+export type LocatedChunk = SemanticChunk & {
+  pageNumber: number | null;
+  sectionNumber: number | null;
+};
+
 export type ChunkOptions = {
   maxChars?: number;
   overlapChars?: number;
 };
 
+export type SegmentChunkOptions = ChunkOptions & {
+  strategy?: ChunkingStrategy;
+};
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ["FIXED_WINDOW", "SEMANTIC"];
+
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === "string" && (CHUNKING_STRATEGIES as string[]).includes(value);
+}
+
+type HeadingEntry = {
+  level: number;
+  line: string;
+  title: string;
+};
+
+type Block =
+  | {
+      kind: "heading";
+      heading: HeadingEntry;
+    }
+  | {
+      kind: "paragraph" | "list" | "table";
+      lines: string[];
+    };
+
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const NUMBERED_HEADING_PATTERN = /^(\d+(?:\.\d+)+\.?|\d+[.)])\s+([A-Z][^.!?]{1,80})$/;
+const LABEL_HEADING_PATTERN = /^([A-Z][A-Za-z0-9 &/()-]{2,80}):$/;
+// Numbered and label headings nest below any Markdown heading (levels 1-6) that encloses them.
+const NUMBERED_HEADING_BASE_LEVEL = 6;
+const LABEL_HEADING_LEVEL = 20;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const TABLE_ROW_PATTERN = /^\|.*\|$/;
+const TABLE_SEPARATOR_PATTERN = /^\|[\s:|-]+\|$/;
+const PAGE_MARKER_PATTERN = /^Page \d+$/;
+const MIN_SEMANTIC_PIECE_CHARS = 200;
+
 export function chunkText(text: string, options: ChunkOptions = {}): Chunk[] {
   const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
   const overlapChars = options.overlapChars ?? DEFAULT_OVERLAP_CHARS;
@@ -53,3 +102,253 @@ export function chunkText(text: string, options: ChunkOptions = {}): Chunk[] {
 
   return chunks;
 }
+
+function normalizeChunkInput(text: string): string {
+  return sanitizeExtractedText(text).replace(/\r\n/g, "\n").trim();
+}
+
+function parseHeading(line: string, previousLine: string | null, nextLine: string | null): HeadingEntry | null {
+  const trimmed = line.trim();
+  const markdown = trimmed.match(MARKDOWN_HEADING_PATTERN);
+  if (markdown) {
+    return { level: markdown[1].length, line: trimmed, title: markdown[2].trim() };
+  }
+
+  // "1) Identity & Access" is a heading, but an item of a numbered list is not.
+  const numbered = trimmed.match(NUMBERED_HEADING_PATTERN);
+  const isListNeighbor = [previousLine, nextLine].some((neighbor) => neighbor && LIST_ITEM_PATTERN.test(neighbor));
+  if (numbered && !isListNeighbor) {
+    const depth = numbered[1].split(".").filter(Boolean).length;
+    return { level: NUMBERED_HEADING_BASE_LEVEL + depth, line: trimmed, title: trimmed };
+  }
+
+  const label = trimmed.match(LABEL_HEADING_PATTERN);
+  if (label) {
+    return { level: LABEL_HEADING_LEVEL, line: trimmed, title: label[1].trim() };
+  }
+
+  return null;
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.split("\n").map((line) => line.trimEnd());
+  const blocks: Block[] = [];
+  let current: Extract<Block, { lines: string[] }> | null = null;
+
+  const close = () => {
+    if (current) {
+      blocks.push(current);
+      current = null;
+    }
+  };
+
+  const append = (kind: "paragraph" | "list" | "table", line: string) => {
+    if (!current || current.kind !== kind) {
+      close();
+      current = { kind, lines: [] };
+    }
+
+    current.lines.push(line);
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (!line.trim()) {
+      close();
+      continue;
+    }
+
+    if (PAGE_MARKER_PATTERN.test(line.trim())) {
+      close();
+      blocks.push({ kind: "paragraph", lines: [line.trim()] });
+      continue;
+    }
+
+    const heading = parseHeading(line, lines[index - 1] ?? null, lines[index + 1] ?? null);
+    if (heading) {
+      close();
+      blocks.push({ kind: "heading", heading });
+      continue;
+    }
+
+    if (TABLE_ROW_PATTERN.test(line.trim())) {
+      append("table", line.trim());
+      continue;
+    }
+
+    const activeKind = (current as Block | null)?.kind;
+    if (LIST_ITEM_PATTERN.test(line) || (activeKind === "list" && /^\s+/.test(line))) {
+      append("list", line);
+      continue;
+    }
+
+    append(activeKind === "list" ? "list" : "paragraph", line.trim());
+  }
+
+  close();
+  return blocks;
+}
+
+function groupLines(groups: string[][], maxChars: number, header: string[] = []): string[] {
+  const pieces: string[] = [];
+  let currentLines = [...header];
+
+  for (const group of groups) {
+    const candidate = [...currentLines, ...group].join("\n");
+    if (candidate.length > maxChars && currentLines.length > header.length) {
+      pieces.push(currentLines.join("\n"));
+      currentLines = [...header];
+    }
+
+    currentLines.push(...group);
+  }
+
+  if (currentLines.length > header.length) {
+    pieces.push(currentLines.join("\n"));
+  }
+
+  return pieces.flatMap((piece) =>
+    piece.length > maxChars ? chunkText(piece, { maxChars, overlapChars: 0 }).map((chunk) => chunk.content) : [piece]
+  );
+}
+
+function splitBlock(block: Extract<Block, { lines: string[] }>, maxChars: number, overlapChars: number): string[] {
+  const text = block.lines.join("\n");
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  if (block.kind === "table") {
+    // Oversized tables are split by row and every part repeats the header so columns stay readable.
+    const headerLength = block.lines.length > 1 && TABLE_SEPARATOR_PATTERN.test(block.lines[1]) ? 2 : 0;
+    const header = block.lines.slice(0, headerLength);
+    return groupLines(
+      block.lines.slice(headerLength).map((line) => [line]),
+      maxChars,
+      header
+    );
+  }
+
+  if (block.kind === "list") {
+    const items: string[][] = [];
+    for (const line of block.lines) {
+      if (LIST_ITEM_PATTERN.test(line) || items.length === 0) {
+        items.push([line]);
+      } else {
+        items[items.length - 1].push(line);
+      }
+    }
+
+    return groupLines(items, maxChars);
+  }
+
+  return chunkText(text, {
+    maxChars,
+    overlapChars: Math.min(overlapChars, Math.floor(maxChars / 4))
+  }).map((chunk) => chunk.content.trim());
+}
+
+function chunkSemanticBlocks(text: string, options: ChunkOptions, headingStack: HeadingEntry[]): SemanticChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = options.overlapChars ?? DEFAULT_OVERLAP_CHARS;
+  const chunks: SemanticChunk[] = [];
+  let pendingHeadingLines: string[] = [];
+  let prefixLines: string[] = [];
+  let bodyParts: string[] = [];
+
+  const currentContent = () => [prefixLines.join("\n"), ...bodyParts].filter(Boolean).join("\n\n");
+
+  const flush = () => {
+    if (bodyParts.length > 0) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        content: currentContent(),
+        headingPath: headingStack.map((entry) => entry.title)
+      });
+    }
+
+    prefixLines = [];
+    bodyParts = [];
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === "heading") {
+      if (bodyParts.length > 0) {
+        flush();
+        pendingHeadingLines = [];
+      }
+
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.heading.level) {
+        headingStack.pop();
+      }
+
+      headingStack.push(block.heading);
+      pendingHeadingLines.push(block.heading.line);
+      continue;
+    }
+
+    // Continuation chunks repeat the nearest heading so no chunk loses its section context.
+    const continuationPrefix = headingStack.length > 0 ? [headingStack[headingStack.length - 1].line] : [];
+    const prefixChars = Math.max(pendingHeadingLines.join("\n").length, continuationPrefix.join("\n").length);
+    const pieceLimit = Math.max(MIN_SEMANTIC_PIECE_CHARS, maxChars - prefixChars - 2);
+
+    for (const piece of splitBlock(block, pieceLimit, overlapChars)) {
+      if (bodyParts.length === 0) {
+        prefixLines = pendingHeadingLines.length > 0 ? pendingHeadingLines : continuationPrefix;
+        pendingHeadingLines = [];
+      } else if (currentContent().length + 2 + piece.length > maxChars) {
+        flush();
+        prefixLines = continuationPrefix;
+      }
+
+      bodyParts.push(piece);
+    }
+  }
+
+  flush();
+
+  if (pendingHeadingLines.length > 0) {
+    chunks.push({
+      chunkIndex: chunks.length,
+      content: pendingHeadingLines.join("\n"),
+      headingPath: headingStack.map((entry) => entry.title)
+    });
+  }
+
+  return chunks;
+}
+
+export function chunkSemanticText(text: string, options: ChunkOptions = {}): SemanticChunk[] {
+  const normalizedText = normalizeChunkInput(text);
+  if (!normalizedText) {
+    return [];
+  }
+
+  return chunkSemanticBlocks(normalizedText, options, []);
+}
+
+export function chunkSegments(segments: ExtractedSegment[], options: SegmentChunkOptions = {}): LocatedChunk[] {
+  const chunks: LocatedChunk[] = [];
+  const headingStack: HeadingEntry[] = [];
+
+  // Chunks never span segments, so every chunk maps back to exactly one page or section. The
+  // heading stack does carry over, so a section that continues onto the next page keeps its path.
+  for (const segment of segments) {
+    const segmentChunks: SemanticChunk[] =
+      options.strategy === "SEMANTIC"
+        ? chunkSemanticBlocks(normalizeChunkInput(segment.text), options, headingStack)
+        : chunkText(segment.text, options).map((chunk) => ({ ...chunk, headingPath: [] }));
+
+    for (const chunk of segmentChunks) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        content: chunk.content,
+        headingPath: chunk.headingPath,
+        pageNumber: segment.pageNumber,
+        sectionNumber: segment.sectionNumber
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -15,9 +15,33 @@ function truncateWithEllipsis(value: string, maxChars: number): string {
   return `${value.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
 }
 
+export function formatChunkLocation(chunk: {
+  pageNumber?: number | null;
+  sectionNumber?: number | null;
+}): string | null {
+  if (typeof chunk.pageNumber === "number") {
+    return `p. ${chunk.pageNumber}`;
+  }
+
+  if (typeof chunk.sectionNumber === "number") {
+    return `§ ${chunk.sectionNumber}`;
+  }
+
+  return null;
+}
+
+export function withChunkLocation(chunk: {
+  pageNumber?: number | null;
+  sectionNumber?: number | null;
+}): Pick<Citation, "location"> {
+  const location = formatChunkLocation(chunk);
+  return location ? { location } : {};
+}
+
 export function formatCitation(citation: Citation): string {
   const snippet = truncateWithEllipsis(normalizeWhitespace(citation.quotedSnippet), MAX_SNIPPET_CHARS);
-  return `${citation.docName}#${citation.chunkId}:"${snippet}"`;
+  const docLabel = citation.location ? `${citation.docName} (${citation.location})` : citation.docName;
+  return `${docLabel}#${citation.chunkId}:"${snippet}"`;
 }
 
 export function formatCitationsCompact(citations: Citation[]): string {
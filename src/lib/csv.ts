@@ -28,7 +28,7 @@ function normalizeHeaderName(value: string, index: number): string {
   return trimmed || `Column ${index + 1}`;
 }
 
-function dedupeHeaders(rawHeaders: string[]): string[] {
+export function dedupeHeaders(rawHeaders: string[]): string[] {
   const counts = new Map<string, number>();
 
   return rawHeaders.map((rawHeader, index) => {
@@ -59,23 +59,25 @@ export function isCsvFile(file: Pick<File, "name" | "type">): boolean {
   return CSV_MIME_TYPES.includes(file.type);
 }
 
+export function scoreQuestionHeader(header: string): number {
+  const lowerHeader = header.toLowerCase();
+  let score = 0;
+
+  for (const hint of QUESTION_HEADER_HINTS) {
+    if (lowerHeader.includes(hint)) {
+      score += hint.length;
+    }
+  }
+
+  return score;
+}
+
 export function suggestQuestionColumn(headers: string[]): string {
   if (headers.length === 0) {
     return "";
   }
 
-  const scored = headers.map((header) => {
-    const lowerHeader = header.toLowerCase();
-    let score = 0;
-
-    for (const hint of QUESTION_HEADER_HINTS) {
-      if (lowerHeader.includes(hint)) {
-        score += hint.length;
-      }
-    }
-
-    return { header, score };
-  });
+  const scored = headers.map((header) => ({ header, score: scoreQuestionHeader(header) }));
 
   scored.sort((left, right) => right.score - left.score);
 
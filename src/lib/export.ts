@@ -1,10 +1,18 @@
 import type { Citation } from "@/lib/answering";
 import { formatCitationsCompact } from "@/lib/citations";
+import { writeAnswersToXlsx } from "@/lib/xlsx";
+import {
+  deriveYesNoValue,
+  EMPTY_EXPORT_COLUMN_MAPPING,
+  type ExportColumnMapping
+} from "@/shared/exportColumns";
 
 export type QuestionnaireExportRow = {
   sourceRow: Record<string, string>;
   answer: string;
   citations: Citation[];
+  /** Normalized Yes/No or dropdown value; when absent the Yes/No column is derived from the answer text. */
+  shortAnswer?: string | null;
 };
 
 export const EXPORT_APPEND_HEADERS = ["Answer", "Citations"];
@@ -13,19 +21,42 @@ export function escapeCsvValue(value: string): string {
   return `"${value.replace(/"/g, '""')}"`;
 }
 
+/**
+ * Mapped columns are filled in place; the answer and citations fall back to appended
+ * `EXPORT_APPEND_HEADERS` columns when unmapped. Yes/No is only written into a mapped column.
+ */
 export function buildQuestionnaireExportCsv(
   originalHeaders: string[],
-  rows: QuestionnaireExportRow[]
+  rows: QuestionnaireExportRow[],
+  mapping: ExportColumnMapping = EMPTY_EXPORT_COLUMN_MAPPING
 ): string {
-  const headers = [...originalHeaders, ...EXPORT_APPEND_HEADERS];
+  const appendAnswer = !mapping.answerColumn;
+  const appendCitations = !mapping.citationsColumn;
+  const headers = [
+    ...originalHeaders,
+    ...(appendAnswer ? [EXPORT_APPEND_HEADERS[0]] : []),
+    ...(appendCitations ? [EXPORT_APPEND_HEADERS[1]] : [])
+  ];
   const headerLine = headers.map((header) => escapeCsvValue(header)).join(",");
 
   const dataLines = rows.map((row) => {
-    const sourceColumns = originalHeaders.map((header) => escapeCsvValue(row.sourceRow[header] ?? ""));
+    const citations = formatCitationsCompact(row.citations);
+    const filled: Record<string, string> = { ...row.sourceRow };
+    if (mapping.answerColumn) {
+      filled[mapping.answerColumn] = row.answer;
+    }
+    if (mapping.yesNoColumn) {
+      filled[mapping.yesNoColumn] = row.shortAnswer ?? deriveYesNoValue(row.answer);
+    }
+    if (mapping.citationsColumn) {
+      filled[mapping.citationsColumn] = citations;
+    }
+
+    const sourceColumns = originalHeaders.map((header) => escapeCsvValue(filled[header] ?? ""));
 
     const appendedColumns = [
-      escapeCsvValue(row.answer),
-      escapeCsvValue(formatCitationsCompact(row.citations))
+      ...(appendAnswer ? [escapeCsvValue(row.answer)] : []),
+      ...(appendCitations ? [escapeCsvValue(citations)] : [])
     ];
 
     return [...sourceColumns, ...appendedColumns].join(",");
@@ -33,3 +64,34 @@ export function buildQuestionnaireExportCsv(
 
   return [headerLine, ...dataLines].join("\n");
 }
+
+export function buildQuestionnaireExportXlsx(params: {
+  workbookBytes: Uint8Array;
+  sheetName: string;
+  headerRowNumber: number;
+  mapping?: ExportColumnMapping;
+  rows: Array<QuestionnaireExportRow & { rowNumber: number | null }>;
+}): Promise<ArrayBuffer> {
+  const mapping = params.mapping ?? EMPTY_EXPORT_COLUMN_MAPPING;
+
+  return writeAnswersToXlsx({
+    workbookBytes: params.workbookBytes,
+    sheetName: params.sheetName,
+    headerRowNumber: params.headerRowNumber,
+    answerColumn: mapping.answerColumn ?? undefined,
+    yesNoColumn: mapping.yesNoColumn ?? undefined,
+    citationsColumn: mapping.citationsColumn ?? undefined,
+    appendHeaders: {
+      answer: EXPORT_APPEND_HEADERS[0],
+      citations: EXPORT_APPEND_HEADERS[1]
+    },
+    rows: params.rows
+      .filter((row): row is QuestionnaireExportRow & { rowNumber: number } => row.rowNumber !== null)
+      .map((row) => ({
+        rowNumber: row.rowNumber,
+        answer: row.answer,
+        yesNo: row.shortAnswer ?? deriveYesNoValue(row.answer),
+        citations: formatCitationsCompact(row.citations)
+      }))
+  });
+}
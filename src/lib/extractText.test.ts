@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  docxHtmlToText,
+  extractSegments,
+  inferMimeType,
+  isSupportedEvidenceFile,
+  splitDocxSections
+} from "@/lib/extractText";
+
+function fixtureFile(name: string, type: string): File {
+  return new File([readFileSync(join(process.cwd(), "test/fixtures", name))], name, { type });
+}
+
+describe("extractText", () => {
+  it("accepts text, markdown, pdf, and docx evidence by extension or mime type", () => {
+    expect(isSupportedEvidenceFile({ name: "policy.txt", type: "" })).toBe(true);
+    expect(isSupportedEvidenceFile({ name: "policy.md", type: "" })).toBe(true);
+    expect(isSupportedEvidenceFile({ name: "soc2.pdf", type: "" })).toBe(true);
+    expect(isSupportedEvidenceFile({ name: "soc2.docx", type: "" })).toBe(true);
+    expect(isSupportedEvidenceFile({ name: "upload", type: "application/pdf" })).toBe(true);
+    expect(isSupportedEvidenceFile({ name: "sheet.xlsx", type: "" })).toBe(false);
+    expect(inferMimeType({ name: "soc2.docx", type: "application/octet-stream" })).toBe(
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    );
+  });
+
+  it("extracts one page-numbered segment per PDF page", async () => {
+    const segments = await extractSegments(fixtureFile("template_evidence_pack.pdf", "application/pdf"));
+
+    expect(segments.map((segment) => segment.pageNumber)).toEqual([1, 2]);
+    expect(segments.every((segment) => segment.sectionNumber === null)).toBe(true);
+    expect(segments[0].text.startsWith("Page 1\n")).toBe(true);
+    expect(segments[1].text).toContain("Disaster recovery testing is performed annually.");
+  });
+
+  it("rebuilds PDF lines from positioned text items", async () => {
+    const [segment] = await extractSegments(fixtureFile("evidence-c.pdf", "application/pdf"));
+
+    expect(segment.text).toContain("Security evidence PDF fixture.");
+    expect(segment.text).toContain("We enforce TLS 1.2 or higher for data in transit.");
+    expect(segment.text).toContain("Encryption at rest uses AES-256.");
+  });
+
+  it("converts docx html into heading-delimited sections", () => {
+    const text = docxHtmlToText(
+      [
+        "<p>Prepared for FinCo &amp; partners.</p>",
+        "<h1>Security</h1>",
+        "<h2>Encryption</h2>",
+        "<p>Data at rest uses <strong>AES-256</strong>.</p>",
+        "<ul><li>TLS 1.2+</li><li>HSTS</li></ul>",
+        "<h2>Access</h2>",
+        "<table><tr><td><p>Control</p></td><td><p>MFA</p></td></tr></table>"
+      ].join("")
+    );
+    const sections = splitDocxSections(text);
+
+    expect(sections.map((section) => section.sectionNumber)).toEqual([1, 2, 3]);
+    expect(sections[0].text).toBe("Prepared for FinCo & partners.");
+    expect(sections[1].text).toBe("# Security\n\n## Encryption\n\nData at rest uses AES-256.\n\n- TLS 1.2+\n- HSTS");
+    expect(sections[2].text).toBe("## Access\n\n| Control | MFA |");
+    expect(sections.every((section) => section.pageNumber === null)).toBe(true);
+  });
+});
@@ -1,23 +1,249 @@
-const SUPPORTED_MIME_TYPES = new Set(["text/plain", "text/markdown"]);
-const SUPPORTED_EXTENSIONS = [".txt", ".md"];
+import mammoth from "mammoth";
+import pdfParse from "pdf-parse/lib/pdf-parse.js";
+import { sanitizeExtractedText } from "@/lib/textNormalization";
 
-export function isSupportedTextFile(file: Pick<File, "name" | "type">): boolean {
-  if (file.type && SUPPORTED_MIME_TYPES.has(file.type)) {
-    return true;
+export const PDF_MIME_TYPE = "application/pdf";
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export type ExtractedSegment = {
+  text: string;
+  pageNumber: number | null;
+  sectionNumber: number | null;
+};
+
+type EvidenceExtractor = {
+  mimeTypes: string[];
+  extensions: string[];
+  extract: (file: File) => Promise<ExtractedSegment[]>;
+};
+
+type PdfTextItem = {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  hasEOL?: boolean;
+};
+
+const PDF_LINE_Y_TOLERANCE = 2;
+const PDF_WORD_GAP_TOLERANCE = 1;
+
+function toSegment(text: string, location: Partial<Omit<ExtractedSegment, "text">> = {}): ExtractedSegment {
+  return {
+    text: sanitizeExtractedText(text).replace(/\r\n/g, "\n").trim(),
+    pageNumber: location.pageNumber ?? null,
+    sectionNumber: location.sectionNumber ?? null
+  };
+}
+
+async function readFileBuffer(file: File): Promise<Buffer> {
+  return Buffer.from(await file.arrayBuffer());
+}
+
+function buildPdfPageText(items: PdfTextItem[]): string {
+  const lines: string[] = [];
+  let currentLine = "";
+  let lastY: number | null = null;
+  let lastEndX: number | null = null;
+
+  for (const item of items) {
+    const value = item.str ?? "";
+    const x = item.transform?.[4] ?? null;
+    const y = item.transform?.[5] ?? null;
+
+    if (lastY !== null && y !== null && Math.abs(y - lastY) > PDF_LINE_Y_TOLERANCE) {
+      lines.push(currentLine);
+      currentLine = "";
+      lastEndX = null;
+    }
+
+    // Items on the same baseline can split a word ("fixtur" + "e.") or drop the space between
+    // words, so only insert a space when there is a visible horizontal gap.
+    const hasGap = lastEndX !== null && x !== null && x - lastEndX > PDF_WORD_GAP_TOLERANCE;
+    if (hasGap && currentLine && !/\s$/.test(currentLine) && !/^\s/.test(value)) {
+      currentLine += " ";
+    }
+
+    currentLine += value;
+    lastY = y ?? lastY;
+    lastEndX = x !== null ? x + (item.width ?? 0) : null;
+
+    if (item.hasEOL) {
+      lines.push(currentLine);
+      currentLine = "";
+      lastY = null;
+      lastEndX = null;
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdfSegments(file: File): Promise<ExtractedSegment[]> {
+  const pages: Array<{ pageNumber: number; text: string }> = [];
+
+  await pdfParse(await readFileBuffer(file), {
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false
+      });
+      const pageNumber = pageData.pageNumber ?? pages.length + 1;
+      const text = buildPdfPageText(content.items);
+      pages.push({ pageNumber, text });
+      return text;
+    }
+  });
+
+  return pages
+    .filter((page) => page.text.trim())
+    .map((page) => toSegment(`Page ${page.pageNumber}\n${page.text}`, { pageNumber: page.pageNumber }));
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function stripInlineHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function docxHtmlToText(html: string): string {
+  const text = html
+    .replace(/<t([dh])[^>]*>([\s\S]*?)<\/t\1>/gi, (_, __, cell: string) => `| ${stripInlineHtml(cell)} `)
+    .replace(/<\/tr>/gi, "|\n")
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, heading: string) => {
+      return `\n\n${"#".repeat(Number(level))} ${stripInlineHtml(heading)}\n\n`;
+    })
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|ul|ol|table)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeHtmlEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function splitDocxSections(text: string): ExtractedSegment[] {
+  const segments: ExtractedSegment[] = [];
+  let currentLines: string[] = [];
+  let hasBody = false;
+
+  const flush = () => {
+    const sectionText = currentLines.join("\n").trim();
+    if (sectionText) {
+      segments.push(toSegment(sectionText, { sectionNumber: segments.length + 1 }));
+    }
+
+    currentLines = [];
+    hasBody = false;
+  };
+
+  for (const line of text.split("\n")) {
+    const isHeading = /^#{1,6}\s+/.test(line);
+
+    // Consecutive headings stay together so a parent heading is never emitted as an empty section.
+    if (isHeading && hasBody) {
+      flush();
+    }
+
+    currentLines.push(line);
+    if (!isHeading && line.trim()) {
+      hasBody = true;
+    }
+  }
+
+  flush();
+  return segments;
+}
+
+async function extractDocxSegments(file: File): Promise<ExtractedSegment[]> {
+  const result = await mammoth.convertToHtml({ buffer: await readFileBuffer(file) });
+  return splitDocxSections(docxHtmlToText(result.value));
+}
+
+async function extractPlainTextSegments(file: File): Promise<ExtractedSegment[]> {
+  const segment = toSegment(await file.text());
+  return segment.text ? [segment] : [];
+}
+
+const EXTRACTORS: EvidenceExtractor[] = [
+  {
+    mimeTypes: ["text/plain"],
+    extensions: [".txt"],
+    extract: extractPlainTextSegments
+  },
+  {
+    mimeTypes: ["text/markdown"],
+    extensions: [".md"],
+    extract: extractPlainTextSegments
+  },
+  {
+    mimeTypes: [PDF_MIME_TYPE],
+    extensions: [".pdf"],
+    extract: extractPdfSegments
+  },
+  {
+    mimeTypes: [DOCX_MIME_TYPE],
+    extensions: [".docx"],
+    extract: extractDocxSegments
   }
+];
+
+export const SUPPORTED_EVIDENCE_EXTENSIONS = EXTRACTORS.flatMap((extractor) => extractor.extensions);
 
+function findExtractor(file: Pick<File, "name" | "type">): EvidenceExtractor | null {
   const lowerName = file.name.toLowerCase();
-  return SUPPORTED_EXTENSIONS.some((extension) => lowerName.endsWith(extension));
+  const byExtension = EXTRACTORS.find((extractor) =>
+    extractor.extensions.some((extension) => lowerName.endsWith(extension))
+  );
+
+  if (byExtension) {
+    return byExtension;
+  }
+
+  return file.type ? EXTRACTORS.find((extractor) => extractor.mimeTypes.includes(file.type)) ?? null : null;
+}
+
+export function isSupportedEvidenceFile(file: Pick<File, "name" | "type">): boolean {
+  return findExtractor(file) !== null;
 }
 
 export function inferMimeType(file: Pick<File, "name" | "type">): string {
-  if (file.type) {
+  const extractor = findExtractor(file);
+  if (file.type && (!extractor || extractor.mimeTypes.includes(file.type))) {
     return file.type;
   }
 
-  return file.name.toLowerCase().endsWith(".md") ? "text/markdown" : "text/plain";
+  return extractor?.mimeTypes[0] ?? "text/plain";
 }
 
-export async function extractText(file: File): Promise<string> {
-  return file.text();
+export async function extractSegments(file: File): Promise<ExtractedSegment[]> {
+  const extractor = findExtractor(file);
+  if (!extractor) {
+    throw new Error(`Unsupported evidence file type: ${file.name}`);
+  }
+
+  return extractor.extract(file);
 }
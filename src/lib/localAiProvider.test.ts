@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { completeLocalJson, createHashEmbedding, createLocalAiProvider } from "@/lib/localAiProvider";
+
+const SNIPPETS = [
+  {
+    chunkId: "chunk-1",
+    docName: "Security Policy",
+    quotedSnippet: "Customer data is encrypted at rest using AES-256. Backups run nightly."
+  },
+  {
+    chunkId: "chunk-2",
+    docName: "Access Policy",
+    quotedSnippet: "Administrative access requires MFA for all employees."
+  }
+];
+
+function cosine(left: number[], right: number[]): number {
+  return left.reduce((sum, value, index) => sum + value * right[index], 0);
+}
+
+describe("createHashEmbedding", () => {
+  it("is deterministic, normalized and sized to the configured dimensions", () => {
+    const first = createHashEmbedding("Is customer data encrypted at rest?", 64);
+    const second = createHashEmbedding("Is customer data encrypted at rest?", 64);
+
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(Math.sqrt(cosine(first, first))).toBeCloseTo(1, 6);
+  });
+
+  it("scores related text closer than unrelated text", () => {
+    const question = createHashEmbedding("Is customer data encrypted at rest?");
+    const related = createHashEmbedding(SNIPPETS[0].quotedSnippet);
+    const unrelated = createHashEmbedding("The cafeteria serves lunch on weekdays.");
+
+    expect(cosine(question, related)).toBeGreaterThan(cosine(question, unrelated));
+  });
+
+  it("never returns a zero vector", () => {
+    expect(createHashEmbedding("the and of", 8)).toEqual([1, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe("completeLocalJson", () => {
+  it("marks the extractor result FOUND with the supporting chunk", () => {
+    const result = completeLocalJson({
+      task: "EVIDENCE_SUFFICIENCY",
+      systemPrompt: "",
+      userPrompt: "",
+      question: "Is customer data encrypted at rest?",
+      snippets: SNIPPETS
+    });
+
+    expect(result).toMatchObject({
+      overall: "FOUND",
+      extracted: [
+        {
+          value: "Customer data is encrypted at rest using AES-256.",
+          supportingChunkIds: ["chunk-1"]
+        }
+      ]
+    });
+  });
+
+  it("returns NOT_FOUND when no sentence overlaps the question", () => {
+    const result = completeLocalJson({
+      task: "EVIDENCE_SUFFICIENCY",
+      systemPrompt: "",
+      userPrompt: "",
+      question: "Do you perform annual penetration tests?",
+      snippets: SNIPPETS
+    });
+
+    expect(result).toMatchObject({ overall: "NOT_FOUND", extracted: [{ value: null, supportingChunkIds: [] }] });
+  });
+
+  it("builds grounded answers only from quoted snippet sentences", () => {
+    const result = completeLocalJson({
+      task: "GROUNDED_ANSWER",
+      systemPrompt: "",
+      userPrompt: "",
+      question: "Is MFA required for administrative access?",
+      snippets: SNIPPETS
+    });
+
+    expect(result).toEqual({
+      answer: "Administrative access requires MFA for all employees.",
+      citations: [{ chunkId: "chunk-2", quotedSnippet: "Administrative access requires MFA for all employees." }],
+      confidence: "med",
+      needsReview: true
+    });
+  });
+
+  it("picks a short answer from the draft for closed questions", () => {
+    const result = completeLocalJson({
+      task: "SHORT_ANSWER",
+      systemPrompt: "",
+      userPrompt: "",
+      question: "Is MFA required for administrative access?",
+      snippets: SNIPPETS,
+      shortAnswer: {
+        answerType: { type: "BOOLEAN", options: ["Y", "N"] },
+        draftAnswer: "Administrative access requires MFA for all employees."
+      }
+    });
+
+    expect(result).toEqual({ shortAnswer: "Y" });
+  });
+});
+
+describe("createLocalAiProvider", () => {
+  it("namespaces the embedding model by dimensions", async () => {
+    const provider = createLocalAiProvider({ embeddingDimensions: 32 });
+
+    expect(provider.embeddingModel).toBe("local:hash-32");
+    await expect(provider.createEmbedding("encryption at rest")).resolves.toHaveLength(32);
+  });
+});
@@ -0,0 +1,201 @@
+import { createHash } from "node:crypto";
+import type { AiJsonRequest, AiProvider, AiProviderConfig, AiSnippet } from "@/lib/aiProvider";
+import { inferShortAnswer } from "@/shared/answerTypes";
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+export const LOCAL_CHAT_MODEL = "local-rules";
+
+const NOT_FOUND_ANSWER = "Not found in provided documents.";
+const MAX_SUPPORTING_SENTENCES = 2;
+const MIN_QUESTION_COVERAGE = 0.3;
+
+const STOPWORDS = new Set([
+  "a",
+  "all",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "describe",
+  "do",
+  "does",
+  "for",
+  "from",
+  "has",
+  "have",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "our",
+  "please",
+  "provide",
+  "that",
+  "the",
+  "there",
+  "this",
+  "to",
+  "we",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "with",
+  "you",
+  "your"
+]);
+
+type SentenceMatch = {
+  chunkId: string;
+  sentence: string;
+  overlap: number;
+  coverage: number;
+};
+
+export function tokenizeForLocalProvider(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function hashFeature(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash("sha256").update(feature).digest();
+  return {
+    index: digest.readUInt32BE(0) % dimensions,
+    sign: (digest[4] & 1) === 1 ? 1 : -1
+  };
+}
+
+/**
+ * Feature-hashed bag of words and bigrams, L2-normalized so cosine distance behaves like it does for
+ * model embeddings. Identical text always yields the identical vector.
+ */
+export function createHashEmbedding(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenizeForLocalProvider(text);
+  const features = [
+    ...tokens.map((token) => ({ feature: token, weight: 1 })),
+    ...tokens.slice(1).map((token, index) => ({ feature: `${tokens[index]} ${token}`, weight: 0.5 }))
+  ];
+
+  for (const { feature, weight } of features) {
+    const { index, sign } = hashFeature(feature, dimensions);
+    vector[index] += sign * weight;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // pgvector cannot compute cosine distance against a zero vector.
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map((value) => value / norm);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function findSupportingSentences(question: string, snippets: AiSnippet[]): SentenceMatch[] {
+  const questionTokens = new Set(tokenizeForLocalProvider(question));
+  if (questionTokens.size === 0) {
+    return [];
+  }
+
+  const minOverlap = Math.min(2, questionTokens.size);
+  const matches: SentenceMatch[] = [];
+  for (const snippet of snippets) {
+    for (const sentence of splitSentences(snippet.quotedSnippet)) {
+      const sentenceTokens = new Set(tokenizeForLocalProvider(sentence));
+      const overlap = Array.from(questionTokens).filter((token) => sentenceTokens.has(token)).length;
+      const coverage = overlap / questionTokens.size;
+      if (overlap >= minOverlap && coverage >= MIN_QUESTION_COVERAGE) {
+        matches.push({ chunkId: snippet.chunkId, sentence, overlap, coverage });
+      }
+    }
+  }
+
+  // Stable sort keeps retrieval order as the tie-breaker.
+  return matches.sort((left, right) => right.overlap - left.overlap).slice(0, MAX_SUPPORTING_SENTENCES);
+}
+
+function uniqueChunkIds(matches: SentenceMatch[]): string[] {
+  return Array.from(new Set(matches.map((match) => match.chunkId)));
+}
+
+/** Returns the same JSON shapes the chat models are prompted for, built from sentence overlap. */
+export function completeLocalJson(request: AiJsonRequest): unknown {
+  if (request.task === "SHORT_ANSWER") {
+    return {
+      shortAnswer: request.shortAnswer
+        ? inferShortAnswer(request.shortAnswer.answerType, request.shortAnswer.draftAnswer)
+        : null
+    };
+  }
+
+  const matches = findSupportingSentences(request.question, request.snippets);
+
+  if (request.task === "LEGACY_EVIDENCE_SUFFICIENCY") {
+    return {
+      sufficient: matches.length > 0,
+      missingPoints: matches.length > 0 ? [] : [request.question],
+      supportingChunkIds: uniqueChunkIds(matches)
+    };
+  }
+
+  if (request.task === "EVIDENCE_SUFFICIENCY") {
+    return {
+      requirements: [request.question],
+      extracted: [
+        {
+          requirement: request.question,
+          value: matches[0]?.sentence ?? null,
+          supportingChunkIds: uniqueChunkIds(matches)
+        }
+      ],
+      overall: matches.length > 0 ? "FOUND" : "NOT_FOUND"
+    };
+  }
+
+  if (matches.length === 0) {
+    return {
+      answer: NOT_FOUND_ANSWER,
+      citations: [],
+      confidence: "low",
+      needsReview: true
+    };
+  }
+
+  return {
+    answer: matches.map((match) => match.sentence).join(" "),
+    citations: matches.map((match) => ({ chunkId: match.chunkId, quotedSnippet: match.sentence })),
+    confidence: matches[0].coverage >= 0.6 ? "med" : "low",
+    needsReview: true
+  };
+}
+
+export function createLocalAiProvider(config: AiProviderConfig = {}): AiProvider {
+  const dimensions = config.embeddingDimensions ?? LOCAL_EMBEDDING_DIMENSIONS;
+
+  return {
+    kind: "LOCAL",
+    chatModel: LOCAL_CHAT_MODEL,
+    embeddingModel: `local:hash-${dimensions}`,
+    createEmbedding: async (input) => createHashEmbedding(input, dimensions),
+    createEmbeddings: async (inputs) => inputs.map((input) => createHashEmbedding(input, dimensions)),
+    completeJson: async (request) => completeLocalJson(request)
+  };
+}
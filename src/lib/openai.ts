@@ -1,7 +1,5 @@
-export const OPENAI_EMBEDDINGS_MODEL = "text-embedding-3-small";
-export const OPENAI_CHAT_MODEL = process.env.OPENAI_CHAT_MODEL ?? "gpt-4.1-mini";
-
-const OPENAI_API_BASE = "https://api.openai.com/v1";
+import { getDefaultAiProvider, type AiProvider, type AiSnippet } from "@/lib/aiProvider";
+import { describeAnswerType, normalizeShortAnswer, type AnswerTypeSpec } from "@/shared/answerTypes";
 
 export type GroundedAnswerModelCitation = {
   chunkId: string;
@@ -38,11 +36,7 @@ export type LegacyEvidenceSufficiencyModelOutput = {
   supportingChunkIds: string[];
 };
 
-type RetrievedSnippet = {
-  chunkId: string;
-  docName: string;
-  quotedSnippet: string;
-};
+type RetrievedSnippet = AiSnippet;
 
 const EXTRACTOR_LIST_LIMITS = {
   requirements: 12,
@@ -61,47 +55,17 @@ const REQUIREMENT_MAP_IGNORED_KEYS = new Set([
   "chunks"
 ]);
 
-function getApiKey(): string {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is required");
-  }
-
-  return apiKey;
+/** Embeds with the given provider, or the deployment default when no organization context applies. */
+export async function createEmbedding(input: string, provider: AiProvider = getDefaultAiProvider()): Promise<number[]> {
+  return provider.createEmbedding(input);
 }
 
-async function requestOpenAI(path: string, payload: Record<string, unknown>) {
-  const response = await fetch(`${OPENAI_API_BASE}${path}`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${getApiKey()}`,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(payload)
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI request failed (${response.status}): ${errorText}`);
-  }
-
-  return response.json();
-}
-
-export async function createEmbedding(input: string): Promise<number[]> {
-  const payload = (await requestOpenAI("/embeddings", {
-    model: OPENAI_EMBEDDINGS_MODEL,
-    input
-  })) as {
-    data?: Array<{ embedding?: number[] }>;
-  };
-
-  const embedding = payload.data?.[0]?.embedding;
-  if (!embedding || embedding.length !== 1536) {
-    throw new Error("Embedding response is missing or has unexpected dimensions");
-  }
-
-  return embedding;
+/** Batched variant of `createEmbedding`: one provider request, results in input order. */
+export async function createEmbeddings(
+  inputs: string[],
+  provider: AiProvider = getDefaultAiProvider()
+): Promise<number[][]> {
+  return provider.createEmbeddings(inputs);
 }
 
 function toSnippetText(snippets: RetrievedSnippet[]): string {
@@ -526,6 +490,7 @@ export function normalizeExtractorOutput(
 export async function generateEvidenceSufficiency(params: {
   question: string;
   snippets: RetrievedSnippet[];
+  provider?: AiProvider;
 }): Promise<EvidenceSufficiencyModelOutput> {
   const systemPrompt =
     "You are an evidence extractor for document question-answering. " +
@@ -543,30 +508,21 @@ export async function generateEvidenceSufficiency(params: {
 
   const userPrompt = `Question:\n${params.question}\n\nallowedChunkIds (CSV): ${toAllowedChunkIdsCsv(params.snippets)}\n\nSnippets:\n${toSnippetText(params.snippets)}`;
 
-  const payload = (await requestOpenAI("/chat/completions", {
-    model: OPENAI_CHAT_MODEL,
-    temperature: 0,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ]
-  })) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-
-  const content = payload.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("Chat completion response did not include content");
-  }
-
-  const parsed = JSON.parse(content) as unknown;
+  const provider = params.provider ?? getDefaultAiProvider();
+  const parsed = await provider.completeJson({
+    task: "EVIDENCE_SUFFICIENCY",
+    systemPrompt,
+    userPrompt,
+    question: params.question,
+    snippets: params.snippets
+  });
   return normalizeExtractorOutput(parsed, new Set(params.snippets.map((snippet) => snippet.chunkId)));
 }
 
 export async function generateLegacyEvidenceSufficiency(params: {
   question: string;
   snippets: RetrievedSnippet[];
+  provider?: AiProvider;
 }): Promise<LegacyEvidenceSufficiencyModelOutput> {
   const systemPrompt =
     "You are an evidence sufficiency gate for document question-answering. " +
@@ -578,24 +534,14 @@ export async function generateLegacyEvidenceSufficiency(params: {
 
   const userPrompt = `Question:\n${params.question}\n\nSnippets:\n${toSnippetText(params.snippets)}`;
 
-  const payload = (await requestOpenAI("/chat/completions", {
-    model: OPENAI_CHAT_MODEL,
-    temperature: 0,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ]
-  })) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-
-  const content = payload.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("Chat completion response did not include content");
-  }
-
-  const parsed = JSON.parse(content) as
+  const provider = params.provider ?? getDefaultAiProvider();
+  const parsed = (await provider.completeJson({
+    task: "LEGACY_EVIDENCE_SUFFICIENCY",
+    systemPrompt,
+    userPrompt,
+    question: params.question,
+    snippets: params.snippets
+  })) as
     | {
         sufficient?: unknown;
         missingPoints?: unknown;
@@ -635,6 +581,7 @@ export async function generateLegacyEvidenceSufficiency(params: {
 export async function generateGroundedAnswer(params: {
   question: string;
   snippets: RetrievedSnippet[];
+  provider?: AiProvider;
 }): Promise<GroundedAnswerModelOutput> {
   const systemPrompt =
     "You are a strict evidence-bounded document QA assistant. " +
@@ -647,24 +594,14 @@ export async function generateGroundedAnswer(params: {
 
   const userPrompt = `Question:\n${params.question}\n\nSnippets:\n${toSnippetText(params.snippets)}`;
 
-  const payload = (await requestOpenAI("/chat/completions", {
-    model: OPENAI_CHAT_MODEL,
-    temperature: 0,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ]
-  })) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-
-  const content = payload.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("Chat completion response did not include content");
-  }
-
-  const parsed = JSON.parse(content) as
+  const provider = params.provider ?? getDefaultAiProvider();
+  const parsed = (await provider.completeJson({
+    task: "GROUNDED_ANSWER",
+    systemPrompt,
+    userPrompt,
+    question: params.question,
+    snippets: params.snippets
+  })) as
     | (Partial<GroundedAnswerModelOutput> & { citationChunkIds?: string[] })
     | null;
 
@@ -707,3 +644,42 @@ export async function generateGroundedAnswer(params: {
     needsReview: typeof parsed?.needsReview === "boolean" ? parsed.needsReview : true
   };
 }
+
+/**
+ * Asks the model for the normalized short answer a closed question expects, given an already grounded
+ * draft. Returns null when the model's choice is not a valid value for the answer type.
+ */
+export async function generateShortAnswer(params: {
+  question: string;
+  answerType: AnswerTypeSpec;
+  draftAnswer: string;
+  snippets: RetrievedSnippet[];
+  provider?: AiProvider;
+}): Promise<string | null> {
+  const systemPrompt =
+    "You convert an evidence-grounded answer into the short value a questionnaire field expects. " +
+    "Use ONLY the draft answer and snippets. Do not guess or use external knowledge. " +
+    `The short answer must be ${describeAnswerType(params.answerType)}. ` +
+    "If the draft and snippets do not clearly determine one allowed value, return null. " +
+    "Return strict JSON with exactly one key: shortAnswer (string or null).";
+
+  const userPrompt = `Question:\n${params.question}\n\nDraft answer:\n${params.draftAnswer}\n\nSnippets:\n${toSnippetText(params.snippets)}`;
+
+  const provider = params.provider ?? getDefaultAiProvider();
+  const parsed = (await provider.completeJson({
+    task: "SHORT_ANSWER",
+    systemPrompt,
+    userPrompt,
+    question: params.question,
+    snippets: params.snippets,
+    shortAnswer: {
+      answerType: params.answerType,
+      draftAnswer: params.draftAnswer
+    }
+  })) as { shortAnswer?: unknown } | null;
+
+  return normalizeShortAnswer(
+    params.answerType,
+    typeof parsed?.shortAnswer === "string" ? parsed.shortAnswer : null
+  );
+}
@@ -43,7 +43,7 @@ export function getInviteExpiryDate(now = new Date()): Date {
   return new Date(now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
 }
 
-function getAppUrl(): string {
+export function getAppUrl(): string {
   const configuredUrl =
     process.env.APP_URL?.trim() || process.env.NEXTAUTH_URL?.trim() || process.env.AUTH_URL?.trim() || "";
 
@@ -58,6 +58,22 @@ export function buildInviteUrl(token: string): string {
   return `${getAppUrl()}/accept-invite?token=${encodeURIComponent(token)}`;
 }
 
+function isTruthyEnvFlag(value: string | undefined): boolean {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === "true" || normalized === "1" || normalized === "yes" || normalized === "on";
+}
+
+export function shouldIncludeInviteUrl(role: string): boolean {
+  if (process.env.NODE_ENV !== "production" || isTruthyEnvFlag(process.env.DEV_MODE)) {
+    return true;
+  }
+
+  return (
+    isTruthyEnvFlag(process.env.ALLOW_INVITE_LINK_COPY) &&
+    (role === "OWNER" || role === "ADMIN")
+  );
+}
+
 export function inviteRoleToMembershipRole(role: InviteRole): MembershipRole {
   return role as MembershipRole;
 }
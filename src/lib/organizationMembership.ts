@@ -5,6 +5,11 @@ type EnsureUserOrganizationParams = {
   userId: string;
   email?: string | null;
   name?: string | null;
+  /** Joins this organization (keeping any existing role) and makes it active, e.g. after SSO login. */
+  autoJoin?: {
+    organizationId: string;
+    role: MembershipRole;
+  };
 };
 
 export type ActiveOrgForUser = {
@@ -98,6 +103,32 @@ async function resolveActiveMembership(
     throw new Error("Authenticated user not found.");
   }
 
+  if (fallbackParams?.autoJoin) {
+    const { organizationId, role } = fallbackParams.autoJoin;
+    await tx.membership.upsert({
+      where: {
+        userId_organizationId: {
+          userId: user.id,
+          organizationId
+        }
+      },
+      create: {
+        userId: user.id,
+        organizationId,
+        role
+      },
+      update: {}
+    });
+
+    if (user.lastUsedOrganizationId !== organizationId) {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { lastUsedOrganizationId: organizationId }
+      });
+      user.lastUsedOrganizationId = organizationId;
+    }
+  }
+
   const memberships = await tx.membership.findMany({
     where: { userId: user.id },
     include: {
@@ -1,16 +1,34 @@
+import type { Question } from "@prisma/client";
+import { getAiProviderForOrganization, type AiProvider } from "@/lib/aiProvider";
 import { NOT_FOUND_RESPONSE, type EvidenceDebugInfo } from "@/lib/answering";
-import { createApprovedAnswerReuseMatcher } from "@/lib/approvedAnswerReuse";
-import { parseCsvFile } from "@/lib/csv";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import type { ApprovedAnswerReuseMatcher } from "@/lib/approvedAnswerReuse";
+import { parseCsvFile, type ParsedCsv } from "@/lib/csv";
 import { prisma } from "@/lib/prisma";
+import { parseXlsxFile, type XlsxParseOptions } from "@/lib/xlsx";
 import { answerQuestion } from "@/server/answerEngine";
+import { linkApprovedAnswerReuse } from "@/server/approvedAnswers/libraryAnswers";
+import { findInternalOnlyChunkIds } from "@/server/documents/documentMetadata";
+import type { EvidenceScopeRef } from "@/server/evidenceCollections/evidenceCollections";
+import { classifyAnswerType, readLeadingShortAnswer, type AnswerType } from "@/shared/answerTypes";
+import {
+  EMPTY_EXPORT_COLUMN_MAPPING,
+  validateExportColumnMapping,
+  type ExportColumnMapping
+} from "@/shared/exportColumns";
 
 type ImportQuestionnaireInput = {
   organizationId: string;
   file: File;
   questionColumn: string;
   questionnaireName?: string;
+  exportColumns?: ExportColumnMapping;
+  /** Evidence collection validated by the caller; null searches the whole organization. */
+  evidenceCollectionId?: string | null;
 };
 
+type ImportQuestionnaireXlsxInput = ImportQuestionnaireInput & XlsxParseOptions;
+
 export type AutofillDebugEntry = {
   questionId: string;
   rowIndex: number;
@@ -42,6 +60,9 @@ export type QuestionnaireListItem = {
   id: string;
   name: string;
   sourceFileName: string | null;
+  sourceFormat: "CSV" | "XLSX";
+  sourceHeaders: string[];
+  exportColumns: ExportColumnMapping;
   createdAt: Date;
   updatedAt: Date;
   questionCount: number;
@@ -54,10 +75,15 @@ export type QuestionnaireDetails = {
     id: string;
     name: string;
     sourceFileName: string | null;
+    sourceFormat: "CSV" | "XLSX";
+    sourceHeaders: string[];
     questionColumn: string | null;
+    exportColumns: ExportColumnMapping;
     questionCount: number;
     answeredCount: number;
     notFoundCount: number;
+    dueAt: Date | null;
+    evidenceCollection: EvidenceScopeRef | null;
     createdAt: Date;
     updatedAt: Date;
   };
@@ -65,13 +91,22 @@ export type QuestionnaireDetails = {
     id: string;
     rowIndex: number;
     text: string;
+    answerType: AnswerType;
+    answerOptions: string[];
     answer: string | null;
+    shortAnswer: string | null;
+    answerExplanation: string | null;
     citations: unknown;
     updatedAt: Date;
     reviewStatus: "DRAFT" | "NEEDS_REVIEW" | "APPROVED";
     reusedFromApprovedAnswerId: string | null;
     reuseMatchType: "EXACT" | "SEMANTIC" | null;
     reusedAt: Date | null;
+    assigneeUserId: string | null;
+    assignee: {
+      email: string | null;
+    } | null;
+    unresolvedCommentCount: number;
     approvedAnswer: {
       id: string;
       answerText: string;
@@ -81,6 +116,8 @@ export type QuestionnaireDetails = {
       updatedAt: Date;
     } | null;
   }>;
+  /** Cited chunks whose document is labelled internal-only. */
+  internalOnlyChunkIds: string[];
 };
 
 function toQuestionnaireName(fileName: string, providedName?: string): string {
@@ -92,6 +129,18 @@ function toQuestionnaireName(fileName: string, providedName?: string): string {
   return withoutExtension || "Questionnaire";
 }
 
+function toHeaderList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((header): header is string => typeof header === "string") : [];
+}
+
+function toExportColumns(questionnaire: ExportColumnMapping): ExportColumnMapping {
+  return {
+    answerColumn: questionnaire.answerColumn,
+    yesNoColumn: questionnaire.yesNoColumn,
+    citationsColumn: questionnaire.citationsColumn
+  };
+}
+
 function summarizeAnswers(answers: Array<string | null>): {
   answeredCount: number;
   notFoundCount: number;
@@ -111,13 +160,32 @@ function toQuestionReuseMatchType(matchType: "exact" | "near_exact" | "semantic"
   return matchType === "exact" ? "EXACT" : "SEMANTIC";
 }
 
-export async function importQuestionnaireFromCsv(input: ImportQuestionnaireInput) {
-  const parsed = await parseCsvFile(input.file);
-
+async function createQuestionnaireFromParsedRows(params: {
+  input: ImportQuestionnaireInput;
+  parsed: ParsedCsv;
+  rowNumbers?: number[];
+  dropdownOptions?: Array<Record<string, string[]>>;
+  xlsx?: {
+    sheetName: string;
+    headerRowNumber: number;
+    content: Buffer;
+  };
+}) {
+  const { input, parsed } = params;
   if (!parsed.headers.includes(input.questionColumn)) {
     throw new Error("Selected question column is invalid");
   }
 
+  const exportColumns = input.exportColumns ?? EMPTY_EXPORT_COLUMN_MAPPING;
+  const mappingError = validateExportColumnMapping({
+    mapping: exportColumns,
+    headers: parsed.headers,
+    questionColumn: input.questionColumn
+  });
+  if (mappingError) {
+    throw new Error(mappingError);
+  }
+
   const questionnaire = await prisma.questionnaire.create({
     data: {
       organizationId: input.organizationId,
@@ -125,18 +193,47 @@ export async function importQuestionnaireFromCsv(input: ImportQuestionnaireInput
       sourceFileName: input.file.name,
       questionColumn: input.questionColumn,
       sourceHeaders: parsed.headers,
-      totalCount: parsed.rows.length
+      ...toExportColumns(exportColumns),
+      evidenceCollectionId: input.evidenceCollectionId ?? null,
+      totalCount: parsed.rows.length,
+      ...(params.xlsx
+        ? {
+            sourceFormat: "XLSX" as const,
+            sourceSheetName: params.xlsx.sheetName,
+            sourceHeaderRow: params.xlsx.headerRowNumber,
+            sourceFile: {
+              create: {
+                fileName: input.file.name,
+                content: params.xlsx.content
+              }
+            }
+          }
+        : {})
     }
   });
 
   await prisma.question.createMany({
-    data: parsed.rows.map((row, rowIndex) => ({
-      questionnaireId: questionnaire.id,
-      rowIndex,
-      sourceRow: row,
-      text: String(row[input.questionColumn] ?? "").trim(),
-      citations: []
-    }))
+    data: parsed.rows.map((row, rowIndex) => {
+      const text = String(row[input.questionColumn] ?? "").trim();
+      const rowOptions = params.dropdownOptions?.[rowIndex] ?? {};
+      // A dropdown on the Yes/No column describes the expected value better than one on the free-text answer column.
+      const options =
+        (exportColumns.yesNoColumn ? rowOptions[exportColumns.yesNoColumn] : undefined) ??
+        (exportColumns.answerColumn ? rowOptions[exportColumns.answerColumn] : undefined) ??
+        [];
+      const answerType = classifyAnswerType({ questionText: text, options });
+
+      return {
+        questionnaireId: questionnaire.id,
+        rowIndex,
+        sourceRow: row,
+        sourceRowNumber: params.rowNumbers?.[rowIndex] ?? null,
+        text,
+        answerType: answerType.type,
+        answerOptions: answerType.options,
+        citations: []
+      };
+    })
   });
 
   return {
@@ -146,6 +243,31 @@ export async function importQuestionnaireFromCsv(input: ImportQuestionnaireInput
   };
 }
 
+export async function importQuestionnaireFromCsv(input: ImportQuestionnaireInput) {
+  const parsed = await parseCsvFile(input.file);
+  return createQuestionnaireFromParsedRows({ input, parsed });
+}
+
+/** Keeps the original workbook so exports can write answers back into the customer's template. */
+export async function importQuestionnaireFromXlsx(input: ImportQuestionnaireXlsxInput) {
+  const parsed = await parseXlsxFile(input.file, {
+    sheetName: input.sheetName,
+    headerRowNumber: input.headerRowNumber
+  });
+
+  return createQuestionnaireFromParsedRows({
+    input,
+    parsed,
+    rowNumbers: parsed.rowNumbers,
+    dropdownOptions: parsed.dropdownOptions,
+    xlsx: {
+      sheetName: parsed.sheetName,
+      headerRowNumber: parsed.headerRowNumber,
+      content: Buffer.from(await input.file.arrayBuffer())
+    }
+  });
+}
+
 export async function listQuestionnairesForOrganization(
   organizationId: string
 ): Promise<QuestionnaireListItem[]> {
@@ -168,6 +290,9 @@ export async function listQuestionnairesForOrganization(
       id: questionnaire.id,
       name: questionnaire.name,
       sourceFileName: questionnaire.sourceFileName,
+      sourceFormat: questionnaire.sourceFormat,
+      sourceHeaders: toHeaderList(questionnaire.sourceHeaders),
+      exportColumns: toExportColumns(questionnaire),
       createdAt: questionnaire.createdAt,
       updatedAt: questionnaire.updatedAt,
       questionCount: questionnaire.questions.length,
@@ -187,19 +312,35 @@ export async function getQuestionnaireDetails(
       organizationId
     },
     include: {
+      evidenceCollection: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
       questions: {
         orderBy: { rowIndex: "asc" },
         select: {
           id: true,
           rowIndex: true,
           text: true,
+          answerType: true,
+          answerOptions: true,
           answer: true,
+          shortAnswer: true,
+          answerExplanation: true,
           citations: true,
           updatedAt: true,
           reviewStatus: true,
           reusedFromApprovedAnswerId: true,
           reuseMatchType: true,
           reusedAt: true,
+          assigneeUserId: true,
+          assignee: {
+            select: {
+              email: true
+            }
+          },
           approvedAnswer: {
             select: {
               id: true,
@@ -209,6 +350,16 @@ export async function getQuestionnaireDetails(
               note: true,
               updatedAt: true
             }
+          },
+          _count: {
+            select: {
+              comments: {
+                where: {
+                  parentId: null,
+                  resolvedAt: null
+                }
+              }
+            }
           }
         }
       }
@@ -220,20 +371,143 @@ export async function getQuestionnaireDetails(
   }
 
   const summary = summarizeAnswers(questionnaire.questions.map((question) => question.answer));
+  const citedChunkIds = new Set<string>();
+  for (const question of questionnaire.questions) {
+    for (const citation of Array.isArray(question.citations) ? question.citations : []) {
+      const chunkId = (citation as { chunkId?: unknown } | null)?.chunkId;
+      if (typeof chunkId === "string") {
+        citedChunkIds.add(chunkId);
+      }
+    }
+    for (const chunkId of question.approvedAnswer?.citationChunkIds ?? []) {
+      citedChunkIds.add(chunkId);
+    }
+  }
+  const internalOnlyChunkIds = await findInternalOnlyChunkIds({
+    orgId: organizationId,
+    chunkIds: Array.from(citedChunkIds)
+  });
 
   return {
     questionnaire: {
       id: questionnaire.id,
       name: questionnaire.name,
       sourceFileName: questionnaire.sourceFileName,
+      sourceFormat: questionnaire.sourceFormat,
+      sourceHeaders: toHeaderList(questionnaire.sourceHeaders),
       questionColumn: questionnaire.questionColumn,
+      exportColumns: toExportColumns(questionnaire),
       questionCount: questionnaire.questions.length,
       answeredCount: summary.answeredCount,
       notFoundCount: summary.notFoundCount,
+      dueAt: questionnaire.dueAt,
+      evidenceCollection: questionnaire.evidenceCollection,
       createdAt: questionnaire.createdAt,
       updatedAt: questionnaire.updatedAt
     },
-    questions: questionnaire.questions
+    questions: questionnaire.questions.map(({ _count, ...question }) => ({
+      ...question,
+      unresolvedCommentCount: _count.comments
+    })),
+    internalOnlyChunkIds: Array.from(internalOnlyChunkIds)
+  };
+}
+
+/** Re-maps which existing source columns export fills; returns null when the questionnaire is not found. */
+export async function updateQuestionnaireExportColumns(params: {
+  organizationId: string;
+  questionnaireId: string;
+  exportColumns: ExportColumnMapping;
+}): Promise<{ name: string; previous: ExportColumnMapping; exportColumns: ExportColumnMapping } | null> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.organizationId
+    },
+    select: {
+      id: true,
+      name: true,
+      questionColumn: true,
+      sourceHeaders: true,
+      answerColumn: true,
+      yesNoColumn: true,
+      citationsColumn: true
+    }
+  });
+
+  if (!questionnaire) {
+    return null;
+  }
+
+  const mappingError = validateExportColumnMapping({
+    mapping: params.exportColumns,
+    headers: toHeaderList(questionnaire.sourceHeaders),
+    questionColumn: questionnaire.questionColumn
+  });
+  if (mappingError) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: mappingError
+    });
+  }
+
+  const updated = await prisma.questionnaire.update({
+    where: { id: questionnaire.id },
+    data: toExportColumns(params.exportColumns),
+    select: {
+      answerColumn: true,
+      yesNoColumn: true,
+      citationsColumn: true
+    }
+  });
+
+  return {
+    name: questionnaire.name,
+    previous: toExportColumns(questionnaire),
+    exportColumns: toExportColumns(updated)
+  };
+}
+
+/** Changes the evidence scope used by later autofill runs; returns null when the questionnaire is not found. */
+export async function updateQuestionnaireEvidenceScope(params: {
+  organizationId: string;
+  questionnaireId: string;
+  evidenceCollectionId: string | null;
+}): Promise<{ name: string; previous: string | null; evidenceCollection: EvidenceScopeRef | null } | null> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.organizationId
+    },
+    select: {
+      id: true,
+      name: true,
+      evidenceCollectionId: true
+    }
+  });
+
+  if (!questionnaire) {
+    return null;
+  }
+
+  const updated = await prisma.questionnaire.update({
+    where: { id: questionnaire.id },
+    data: { evidenceCollectionId: params.evidenceCollectionId },
+    select: {
+      evidenceCollection: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  });
+
+  return {
+    name: questionnaire.name,
+    previous: questionnaire.evidenceCollectionId,
+    evidenceCollection: updated.evidenceCollection
   };
 }
 
@@ -244,22 +518,22 @@ export async function deleteQuestionnaire(organizationId: string, questionnaireI
       organizationId
     },
     select: {
-      id: true
+      id: true,
+      name: true,
+      _count: {
+        select: {
+          questions: true
+        }
+      }
     }
   });
 
   if (!questionnaire) {
-    return false;
+    return null;
   }
 
+  // Approved answers stay in the library; their questionId is cleared by the foreign key.
   await prisma.$transaction([
-    prisma.approvedAnswer.deleteMany({
-      where: {
-        question: {
-          questionnaireId: questionnaire.id
-        }
-      }
-    }),
     prisma.question.deleteMany({
       where: {
         questionnaireId: questionnaire.id
@@ -272,21 +546,30 @@ export async function deleteQuestionnaire(organizationId: string, questionnaireI
     })
   ]);
 
-  return true;
+  return {
+    id: questionnaire.id,
+    name: questionnaire.name,
+    questionCount: questionnaire._count.questions
+  };
 }
 
+/** Chunks embedded by a model other than the organization's current one count as missing. */
 export async function getEmbeddingAvailability(organizationId: string) {
+  const { embeddingModel } = await getAiProviderForOrganization(organizationId);
   const [counts] = await prisma.$queryRawUnsafe<Array<{ total: number; embedded: number; missing: number }>>(
     `
       SELECT
         COUNT(dc."id")::int AS total,
-        COUNT(dc."id") FILTER (WHERE dc."embedding" IS NOT NULL)::int AS embedded,
-        COUNT(dc."id") FILTER (WHERE dc."embedding" IS NULL)::int AS missing
+        COUNT(dc."id") FILTER (WHERE dc."embedding" IS NOT NULL AND dc."embeddingModel" = $2)::int AS embedded,
+        COUNT(dc."id") FILTER (
+          WHERE dc."embedding" IS NULL OR dc."embeddingModel" IS DISTINCT FROM $2
+        )::int AS missing
       FROM "DocumentChunk" dc
       JOIN "Document" d ON d."id" = dc."documentId"
       WHERE d."organizationId" = $1
     `,
-    organizationId
+    organizationId,
+    embeddingModel
   );
 
   return {
@@ -296,132 +579,138 @@ export async function getEmbeddingAvailability(organizationId: string) {
   };
 }
 
-export async function processQuestionnaireAutofillBatch(params: {
+export type AutofillQuestionOutcome = {
+  debugEntry: AutofillDebugEntry | null;
+  reusedEntry: AutofillReusedEntry | null;
+};
+
+export async function autofillQuestion(params: {
   organizationId: string;
   questionnaireId: string;
+  /** The questionnaire's evidence scope; the reuse matcher must be created with the same scope. */
+  evidenceCollectionId?: string | null;
+  question: Question;
+  reuseMatcher: ApprovedAnswerReuseMatcher;
+  aiProvider?: AiProvider;
   debug?: boolean;
-}): Promise<AutofillResult> {
+}): Promise<AutofillQuestionOutcome> {
   const devModeEnabled = process.env.DEV_MODE === "true";
   const debugEnabled = devModeEnabled && params.debug === true;
   const persistDebug = debugEnabled && process.env.DEBUG_EVIDENCE === "true";
-  const debugEntries: AutofillDebugEntry[] = [];
-  const reusedEntries: AutofillReusedEntry[] = [];
+  const question = params.question;
+  const answerType = { type: question.answerType, options: question.answerOptions };
+
+  const reused = await params.reuseMatcher.findForQuestion(question.text);
+  const reusedShape = reused !== null ? readLeadingShortAnswer(answerType, reused.answerText) : null;
+  const answer =
+    reused !== null
+      ? {
+          answer: reused.answerText,
+          citations: reused.citations,
+          confidence: "high" as const,
+          needsReview: false,
+          reusedFromApprovedAnswerId: reused.approvedAnswerId,
+          reusedFromApprovedMatchType: reused.matchType,
+          shortAnswer: reusedShape?.shortAnswer ?? null,
+          explanation: reusedShape?.explanation ?? null
+        }
+      : await answerQuestion({
+          orgId: params.organizationId,
+          questionnaireId: params.questionnaireId,
+          questionId: question.id,
+          questionText: question.text,
+          debug: debugEnabled,
+          aiProvider: params.aiProvider,
+          answerType,
+          evidenceCollectionId: params.evidenceCollectionId
+        });
+  const reusedMatchType = answer.reusedFromApprovedMatchType ?? "exact";
+
+  let sourceRowUpdate = undefined;
+  if (persistDebug && answer.debug) {
+    const existingSourceRow =
+      question.sourceRow && typeof question.sourceRow === "object" && !Array.isArray(question.sourceRow)
+        ? (question.sourceRow as Record<string, unknown>)
+        : {};
+
+    sourceRowUpdate = {
+      ...existingSourceRow,
+      __answerDebug: answer.debug
+    };
+  } else if (persistDebug && answer.reusedFromApprovedAnswerId) {
+    const existingSourceRow =
+      question.sourceRow && typeof question.sourceRow === "object" && !Array.isArray(question.sourceRow)
+        ? (question.sourceRow as Record<string, unknown>)
+        : {};
+
+    sourceRowUpdate = {
+      ...existingSourceRow,
+      __approvedAnswerReuse: {
+        approvedAnswerId: answer.reusedFromApprovedAnswerId,
+        matchType: answer.reusedFromApprovedMatchType ?? "exact"
+      }
+    };
+  }
 
-  const questionnaire = await prisma.questionnaire.findFirst({
-    where: {
-      id: params.questionnaireId,
-      organizationId: params.organizationId
-    },
-    select: {
-      id: true
+  await prisma.question.update({
+    where: { id: question.id },
+    data: {
+      answer: answer.answer,
+      shortAnswer: answer.shortAnswer ?? null,
+      answerExplanation: answer.explanation ?? null,
+      citations: answer.citations,
+      draftSuggestionApplied: false,
+      ...(answer.reusedFromApprovedAnswerId
+        ? {
+            reusedFromApprovedAnswerId: answer.reusedFromApprovedAnswerId,
+            reuseMatchType: toQuestionReuseMatchType(reusedMatchType),
+            reusedAt: new Date()
+          }
+        : {
+            reusedFromApprovedAnswerId: null,
+            reuseMatchType: null,
+            reusedAt: null
+          }),
+      ...(sourceRowUpdate ? { sourceRow: sourceRowUpdate } : {})
     }
   });
 
-  if (!questionnaire) {
-    throw new Error("Questionnaire not found");
+  if (answer.reusedFromApprovedAnswerId) {
+    await linkApprovedAnswerReuse({
+      approvedAnswerId: answer.reusedFromApprovedAnswerId,
+      questionId: question.id,
+      matchType: toQuestionReuseMatchType(reusedMatchType)
+    });
   }
 
-  const questions = await prisma.question.findMany({
-    where: {
-      questionnaireId: questionnaire.id
-    },
-    orderBy: {
-      rowIndex: "asc"
-    }
-  });
-  const approvedAnswerReuseMatcher = await createApprovedAnswerReuseMatcher({
-    organizationId: params.organizationId
-  });
-
-  for (const question of questions) {
-    const reused = await approvedAnswerReuseMatcher.findForQuestion(question.text);
-    const answer =
-      reused !== null
+  return {
+    debugEntry:
+      debugEnabled && answer.debug
         ? {
-            answer: reused.answerText,
-            citations: reused.citations,
-            confidence: "high" as const,
-            needsReview: false,
-            reusedFromApprovedAnswerId: reused.approvedAnswerId,
-            reusedFromApprovedMatchType: reused.matchType
-          }
-        : await answerQuestion({
-            orgId: params.organizationId,
-            questionnaireId: questionnaire.id,
             questionId: question.id,
-            questionText: question.text,
-            debug: debugEnabled
-          });
-    const reusedMatchType = answer.reusedFromApprovedMatchType ?? "exact";
-
-    if (debugEnabled && answer.debug) {
-      debugEntries.push({
-        questionId: question.id,
-        rowIndex: question.rowIndex,
-        debug: answer.debug
-      });
-    }
-
-    if (answer.reusedFromApprovedAnswerId) {
-      reusedEntries.push({
-        questionId: question.id,
-        rowIndex: question.rowIndex,
-        reusedFromApprovedAnswerId: answer.reusedFromApprovedAnswerId,
-        matchType: reusedMatchType
-      });
-    }
-
-    let sourceRowUpdate = undefined;
-    if (persistDebug && answer.debug) {
-      const existingSourceRow =
-        question.sourceRow && typeof question.sourceRow === "object" && !Array.isArray(question.sourceRow)
-          ? (question.sourceRow as Record<string, unknown>)
-          : {};
-
-      sourceRowUpdate = {
-        ...existingSourceRow,
-        __answerDebug: answer.debug
-      };
-    } else if (persistDebug && answer.reusedFromApprovedAnswerId) {
-      const existingSourceRow =
-        question.sourceRow && typeof question.sourceRow === "object" && !Array.isArray(question.sourceRow)
-          ? (question.sourceRow as Record<string, unknown>)
-          : {};
-
-      sourceRowUpdate = {
-        ...existingSourceRow,
-        __approvedAnswerReuse: {
-          approvedAnswerId: answer.reusedFromApprovedAnswerId,
-          matchType: answer.reusedFromApprovedMatchType ?? "exact"
+            rowIndex: question.rowIndex,
+            debug: answer.debug
+          }
+        : null,
+    reusedEntry: answer.reusedFromApprovedAnswerId
+      ? {
+          questionId: question.id,
+          rowIndex: question.rowIndex,
+          reusedFromApprovedAnswerId: answer.reusedFromApprovedAnswerId,
+          matchType: reusedMatchType
         }
-      };
-    }
-
-    await prisma.question.update({
-      where: { id: question.id },
-      data: {
-        answer: answer.answer,
-        citations: answer.citations,
-        draftSuggestionApplied: false,
-        ...(answer.reusedFromApprovedAnswerId
-          ? {
-              reusedFromApprovedAnswerId: answer.reusedFromApprovedAnswerId,
-              reuseMatchType: toQuestionReuseMatchType(reusedMatchType),
-              reusedAt: new Date()
-            }
-          : {
-              reusedFromApprovedAnswerId: null,
-              reuseMatchType: null,
-              reusedAt: null
-            }),
-        ...(sourceRowUpdate ? { sourceRow: sourceRowUpdate } : {})
-      }
-    });
-  }
+      : null
+  };
+}
 
+export async function buildAutofillResult(params: {
+  questionnaireId: string;
+  reusedEntries: AutofillReusedEntry[];
+  debugEntries?: AutofillDebugEntry[];
+}): Promise<AutofillResult> {
   const refreshedQuestions = await prisma.question.findMany({
     where: {
-      questionnaireId: questionnaire.id
+      questionnaireId: params.questionnaireId
     },
     select: {
       answer: true
@@ -429,28 +718,23 @@ export async function processQuestionnaireAutofillBatch(params: {
   });
 
   const summary = summarizeAnswers(refreshedQuestions.map((question) => question.answer));
+  const result: AutofillResult = {
+    questionnaireId: params.questionnaireId,
+    totalCount: refreshedQuestions.length,
+    answeredCount: summary.answeredCount,
+    foundCount: summary.foundCount,
+    notFoundCount: summary.notFoundCount,
+    reusedCount: params.reusedEntries.length,
+    reusedFromApprovedAnswers: params.reusedEntries
+  };
 
-  return debugEnabled
+  return params.debugEntries
     ? {
-        questionnaireId: questionnaire.id,
-        totalCount: refreshedQuestions.length,
-        answeredCount: summary.answeredCount,
-        foundCount: summary.foundCount,
-        notFoundCount: summary.notFoundCount,
-        reusedCount: reusedEntries.length,
-        reusedFromApprovedAnswers: reusedEntries,
+        ...result,
         debug: {
           enabled: true,
-          entries: debugEntries
+          entries: params.debugEntries
         }
       }
-    : {
-        questionnaireId: questionnaire.id,
-        totalCount: refreshedQuestions.length,
-        answeredCount: summary.answeredCount,
-        foundCount: summary.foundCount,
-        notFoundCount: summary.notFoundCount,
-        reusedCount: reusedEntries.length,
-        reusedFromApprovedAnswers: reusedEntries
-      };
+    : result;
 }
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { fuseRankings } from "@/lib/rankFusion";
+
+describe("fuseRankings", () => {
+  it("rewards items both retrievers agree on and keeps items only one retriever found", () => {
+    const fused = fuseRankings({
+      vectorIds: ["a", "b", "c"],
+      lexicalIds: ["c", "d"]
+    });
+
+    expect(fused.map((entry) => entry.id)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0]).toMatchObject({ id: "c", vectorRank: 3, lexicalRank: 1 });
+    expect(fused.find((entry) => entry.id === "d")).toMatchObject({ vectorRank: null, lexicalRank: 2 });
+  });
+
+  it("applies per-source weights", () => {
+    const fused = fuseRankings({
+      vectorIds: ["a", "b"],
+      lexicalIds: ["b", "a"],
+      fusion: { k: 60, vectorWeight: 1, lexicalWeight: 2 }
+    });
+
+    expect(fused.map((entry) => entry.id)).toEqual(["b", "a"]);
+    expect(fused[0].fusedScore).toBeCloseTo(1 / 62 + 2 / 61, 10);
+  });
+
+  it("breaks score ties by id so ordering is deterministic", () => {
+    const fused = fuseRankings({ vectorIds: ["b"], lexicalIds: ["a"] });
+
+    expect(fused.map((entry) => entry.id)).toEqual(["a", "b"]);
+  });
+});
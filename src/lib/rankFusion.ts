@@ -0,0 +1,68 @@
+export type RankFusionConfig = {
+  /** RRF damping constant; larger values flatten the advantage of the very top ranks. */
+  k: number;
+  vectorWeight: number;
+  lexicalWeight: number;
+};
+
+export const DEFAULT_RANK_FUSION: RankFusionConfig = {
+  k: 60,
+  vectorWeight: 1,
+  lexicalWeight: 1
+};
+
+export type FusedRank = {
+  id: string;
+  /** 1-based position in each source ranking, or null when the source did not return the item. */
+  vectorRank: number | null;
+  lexicalRank: number | null;
+  fusedScore: number;
+};
+
+/**
+ * Weighted reciprocal rank fusion. Only ranks are used, so cosine similarity and text-search
+ * scores never need to share a scale.
+ */
+export function fuseRankings(params: {
+  vectorIds: string[];
+  lexicalIds: string[];
+  fusion?: RankFusionConfig;
+}): FusedRank[] {
+  const fusion = params.fusion ?? DEFAULT_RANK_FUSION;
+  const byId = new Map<string, FusedRank>();
+
+  const getEntry = (id: string) => {
+    const existing = byId.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const created: FusedRank = { id, vectorRank: null, lexicalRank: null, fusedScore: 0 };
+    byId.set(id, created);
+    return created;
+  };
+
+  params.vectorIds.forEach((id, index) => {
+    const entry = getEntry(id);
+    if (entry.vectorRank === null) {
+      entry.vectorRank = index + 1;
+      entry.fusedScore += fusion.vectorWeight / (fusion.k + index + 1);
+    }
+  });
+
+  params.lexicalIds.forEach((id, index) => {
+    const entry = getEntry(id);
+    if (entry.lexicalRank === null) {
+      entry.lexicalRank = index + 1;
+      entry.fusedScore += fusion.lexicalWeight / (fusion.k + index + 1);
+    }
+  });
+
+  return Array.from(byId.values()).sort((left, right) => {
+    if (left.fusedScore !== right.fusedScore) {
+      return right.fusedScore - left.fusedScore;
+    }
+
+    return left.id.localeCompare(right.id);
+  });
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE as revokeApiTokenRoute } from "@/app/api/org/api-tokens/[id]/route";
+import { POST as createApiTokenRoute } from "@/app/api/org/api-tokens/route";
+import { prisma } from "@/lib/prisma";
+import { getRequestContext } from "@/lib/requestContext";
+
+const { authMock } = vi.hoisted(() => ({
+  authMock: vi.fn()
+}));
+
+vi.mock("@/auth", () => ({
+  auth: authMock
+}));
+
+const TEST_ORG_PREFIX = "vitest-api-token-context-";
+const TEST_EMAIL_DOMAIN = "api-token-context.vitest.local";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.auditEvent.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.apiToken.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.membership.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+  await prisma.user.deleteMany({ where: { email: { endsWith: `@${TEST_EMAIL_DOMAIN}` } } });
+}
+
+async function seedAdmin() {
+  const suffix = randomUUID();
+  const organization = await prisma.organization.create({
+    data: { name: `${TEST_ORG_PREFIX}${suffix}` }
+  });
+  const user = await prisma.user.create({
+    data: {
+      email: `admin-${suffix}@${TEST_EMAIL_DOMAIN}`,
+      lastUsedOrganizationId: organization.id,
+      memberships: {
+        create: { organizationId: organization.id, role: MembershipRole.ADMIN }
+      }
+    }
+  });
+  authMock.mockResolvedValue({ user: { id: user.id } });
+
+  return { organization, user };
+}
+
+function createToken(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return createApiTokenRoute(
+    new Request("http://localhost/api/org/api-tokens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body)
+    })
+  );
+}
+
+function bearerRequest(token: string) {
+  return new Request("http://localhost/api/questionnaires", {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+}
+
+describe.sequential("request context API token resolution", () => {
+  beforeEach(() => {
+    authMock.mockReset();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("resolves personal tokens capped by max role and the owner's current membership", async () => {
+    const seeded = await seedAdmin();
+
+    const createResponse = await createToken({ name: "CI export", maxRole: MembershipRole.REVIEWER });
+    const created = (await createResponse.json()) as { token: string; apiToken: { id: string; tokenPrefix: string } };
+    expect(createResponse.status).toBe(201);
+    expect(created.token.startsWith(created.apiToken.tokenPrefix)).toBe(true);
+
+    const stored = await prisma.apiToken.findUniqueOrThrow({ where: { id: created.apiToken.id } });
+    expect(stored.tokenHash).not.toContain(created.token);
+
+    authMock.mockResolvedValue(null);
+    const context = await getRequestContext(bearerRequest(created.token));
+    expect(context).toEqual({
+      userId: seeded.user.id,
+      orgId: seeded.organization.id,
+      role: MembershipRole.REVIEWER,
+      apiTokenId: created.apiToken.id
+    });
+    expect((await prisma.apiToken.findUniqueOrThrow({ where: { id: created.apiToken.id } })).lastUsedAt).not.toBeNull();
+
+    await prisma.membership.updateMany({
+      where: { userId: seeded.user.id, organizationId: seeded.organization.id },
+      data: { role: MembershipRole.VIEWER }
+    });
+    expect((await getRequestContext(bearerRequest(created.token))).role).toBe(MembershipRole.VIEWER);
+
+    const tokenManagedResponse = await createToken(
+      { name: "Minted by token" },
+      { Authorization: `Bearer ${created.token}` }
+    );
+    expect(tokenManagedResponse.status).toBe(403);
+
+    authMock.mockResolvedValue({ user: { id: seeded.user.id } });
+    const revokeResponse = await revokeApiTokenRoute(
+      new Request(`http://localhost/api/org/api-tokens/${created.apiToken.id}`, { method: "DELETE" }),
+      { params: { id: created.apiToken.id } }
+    );
+    expect(revokeResponse.status).toBe(200);
+
+    await expect(getRequestContext(bearerRequest(created.token))).rejects.toMatchObject({
+      code: "INVALID_API_TOKEN",
+      status: 401
+    });
+  });
+
+  it("rejects unknown and expired tokens and max roles above the creator's role", async () => {
+    await seedAdmin();
+
+    const tooHighResponse = await createToken({ name: "Owner token", maxRole: MembershipRole.OWNER });
+    expect(tooHighResponse.status).toBe(400);
+
+    const createResponse = await createToken({ name: "Service", kind: "SERVICE", maxRole: MembershipRole.VIEWER });
+    const created = (await createResponse.json()) as { token: string; apiToken: { id: string } };
+    expect(createResponse.status).toBe(201);
+    expect((await getRequestContext(bearerRequest(created.token))).role).toBe(MembershipRole.VIEWER);
+
+    await prisma.apiToken.update({
+      where: { id: created.apiToken.id },
+      data: { expiresAt: new Date(Date.now() - 1000) }
+    });
+    await expect(getRequestContext(bearerRequest(created.token))).rejects.toMatchObject({ status: 401 });
+    await expect(getRequestContext(bearerRequest("sqat_unknown"))).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -1,12 +1,18 @@
 import { type MembershipRole } from "@prisma/client";
 import { auth } from "@/auth";
 import { getActiveOrgForUser } from "@/lib/organizationMembership";
+import { readBearerToken, resolveApiToken } from "@/server/apiTokens/apiTokens";
 
 export const REQUEST_CONTEXT_UNAUTHORIZED = {
   code: "UNAUTHORIZED",
   message: "Authentication required."
 } as const;
 
+export const REQUEST_CONTEXT_INVALID_API_TOKEN = {
+  code: "INVALID_API_TOKEN",
+  message: "API token is invalid, expired, or revoked."
+} as const;
+
 export class RequestContextError extends Error {
   readonly code: string;
   readonly status: number;
@@ -23,9 +29,24 @@ export type RequestContext = {
   userId: string;
   orgId: string;
   role: MembershipRole;
+  /** Set when the request authenticated with an API token instead of a browser session. */
+  apiTokenId?: string;
 };
 
-export async function getRequestContext(_request?: Request): Promise<RequestContext> {
+export async function getRequestContext(request?: Request): Promise<RequestContext> {
+  const bearerToken = readBearerToken(request);
+  if (bearerToken) {
+    const resolved = await resolveApiToken(bearerToken);
+    if (!resolved) {
+      throw new RequestContextError(REQUEST_CONTEXT_INVALID_API_TOKEN.message, {
+        code: REQUEST_CONTEXT_INVALID_API_TOKEN.code,
+        status: 401
+      });
+    }
+
+    return resolved;
+  }
+
   const session = await auth();
   const userId = session?.user?.id?.trim();
 
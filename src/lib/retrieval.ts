@@ -1,4 +1,6 @@
+import { formatChunkLocation } from "@/lib/citations";
 import { prisma } from "@/lib/prisma";
+import { DEFAULT_RANK_FUSION, fuseRankings, type RankFusionConfig } from "@/lib/rankFusion";
 import { sanitizeExtractedText } from "@/lib/textNormalization";
 
 export const DEFAULT_TOP_K = 5;
@@ -7,33 +9,91 @@ const MIN_SNIPPET_CHARS = 250;
 const SECTION_SNIPPET_MAX_LINES = 12;
 const SECTION_SNIPPET_MAX_CHARS = 1200;
 
+/** Restricts `d` to an evidence collection when the given parameter is non-null. */
+function evidenceScopeFilter(parameter: string): string {
+  return `($${parameter}::text IS NULL OR EXISTS (
+    SELECT 1 FROM "EvidenceCollectionDocument" ecd
+    WHERE ecd."documentId" = d."id" AND ecd."collectionId" = $${parameter}::text
+  ))`;
+}
+
 export const RETRIEVAL_SQL = `
 SELECT
   dc."id" AS "chunkId",
   d."name" AS "docName",
   dc."content" AS "content",
+  dc."pageNumber" AS "pageNumber",
+  dc."sectionNumber" AS "sectionNumber",
   (dc."embedding" <=> $1::vector) AS "distance"
 FROM "DocumentChunk" dc
 JOIN "Document" d ON d."id" = dc."documentId"
 WHERE d."organizationId" = $2
+  AND (d."expiresAt" IS NULL OR d."expiresAt" > NOW())
+  AND ${evidenceScopeFilter("5")}
   AND dc."embedding" IS NOT NULL
+  AND dc."embeddingModel" = $4
 ORDER BY distance ASC, dc."id" ASC
 LIMIT $3
 `;
 
+/**
+ * Full-text candidates over the generated "contentTsv" column. The question's terms are OR-ed so a
+ * single exact term like "FIPS 140-2" can surface a chunk; ts_rank_cd then favors chunks matching more
+ * terms close together. Distance is only computed for chunks embedded by the active model.
+ */
+export const LEXICAL_RETRIEVAL_SQL = `
+SELECT
+  dc."id" AS "chunkId",
+  d."name" AS "docName",
+  dc."content" AS "content",
+  dc."pageNumber" AS "pageNumber",
+  dc."sectionNumber" AS "sectionNumber",
+  CASE
+    WHEN dc."embedding" IS NOT NULL AND dc."embeddingModel" = $4 THEN (dc."embedding" <=> $1::vector)
+    ELSE NULL
+  END AS "distance",
+  ts_rank_cd(dc."contentTsv", q."query", 33) AS "textSearchScore"
+FROM "DocumentChunk" dc
+JOIN "Document" d ON d."id" = dc."documentId"
+CROSS JOIN (
+  SELECT replace(plainto_tsquery('english', $5)::text, ' & ', ' | ')::tsquery AS "query"
+) q
+WHERE d."organizationId" = $2
+  AND (d."expiresAt" IS NULL OR d."expiresAt" > NOW())
+  AND ${evidenceScopeFilter("6")}
+  AND dc."contentTsv" @@ q."query"
+ORDER BY "textSearchScore" DESC, dc."id" ASC
+LIMIT $3
+`;
+
+export type RetrievalScores = {
+  vectorRank: number | null;
+  textSearchRank: number | null;
+  textSearchScore: number | null;
+  fusedScore: number;
+};
+
 export type RetrievedChunk = {
   chunkId: string;
   docName: string;
   quotedSnippet: string;
   fullContent: string;
   similarity: number;
+  location?: string | null;
+  retrieval?: RetrievalScores;
 };
 
 type RetrievalRow = {
   chunkId: string;
   docName: string;
   content: string;
-  distance: number;
+  pageNumber: number | null;
+  sectionNumber: number | null;
+  distance: number | null;
+};
+
+type LexicalRetrievalRow = RetrievalRow & {
+  textSearchScore: number;
 };
 
 type QueryClient = {
@@ -313,9 +373,16 @@ function selectContextSnippet(params: {
   return normalizedContent.slice(start, end).trim();
 }
 
+/**
+ * Only chunks embedded by the given model count; vectors from other models are not comparable.
+ * Chunks of expired documents, or outside the evidence collection when one is given, are not
+ * retrievable, so they are not counted either.
+ */
 export async function countEmbeddedChunksForOrganization(
   organizationId: string,
-  db: QueryClient = prisma
+  embeddingModel: string,
+  db: QueryClient = prisma,
+  evidenceCollectionId: string | null = null
 ): Promise<number> {
   const rows = (await db.$queryRawUnsafe<Array<{ count: number }>>(
     `
@@ -323,53 +390,99 @@ export async function countEmbeddedChunksForOrganization(
       FROM "DocumentChunk" dc
       JOIN "Document" d ON d."id" = dc."documentId"
       WHERE d."organizationId" = $1
+        AND (d."expiresAt" IS NULL OR d."expiresAt" > NOW())
+        AND ${evidenceScopeFilter("3")}
         AND dc."embedding" IS NOT NULL
+        AND dc."embeddingModel" = $2
     `,
-    organizationId
+    organizationId,
+    embeddingModel,
+    evidenceCollectionId
   )) as Array<{ count: number }>;
 
   return Number(rows[0]?.count ?? 0);
 }
 
+/**
+ * Hybrid retrieval: the vector and full-text retrievers run in parallel and their rankings are
+ * merged with weighted reciprocal rank fusion before snippets are selected. Documents past their
+ * `expiresAt`, and documents outside `evidenceCollectionId` when it is set, are excluded from both
+ * retrievers.
+ */
 export async function retrieveTopChunks(params: {
   organizationId: string;
+  embeddingModel: string;
   questionEmbedding: number[];
   questionText?: string;
   topK?: number;
   snippetChars?: number;
+  fusion?: RankFusionConfig;
+  evidenceCollectionId?: string | null;
   db?: QueryClient;
 }): Promise<RetrievedChunk[]> {
   const db = params.db ?? prisma;
   const topK = params.topK ?? DEFAULT_TOP_K;
   const snippetChars = params.snippetChars ?? DEFAULT_SNIPPET_CHARS;
-  const anchorTokens = getQuestionAnchorTokens(params.questionText ?? "");
-
-  const rows = await db.$queryRawUnsafe<RetrievalRow[]>(
-    RETRIEVAL_SQL,
-    embeddingToVectorLiteral(params.questionEmbedding),
-    params.organizationId,
-    topK
-  );
-
-  const mapped = rows.map((row) => ({
-    chunkId: row.chunkId,
-    docName: row.docName,
-    quotedSnippet: selectContextSnippet({
-      content: row.content,
-      anchorTokens,
-      snippetChars
-    }),
-    fullContent: normalizeWhitespace(row.content),
-    similarity: Math.max(0, 1 - Number(row.distance))
-  }));
-
-  mapped.sort((left, right) => {
-    if (left.similarity === right.similarity) {
-      return left.chunkId.localeCompare(right.chunkId);
+  const questionText = params.questionText?.trim() ?? "";
+  const anchorTokens = getQuestionAnchorTokens(questionText);
+  const vectorLiteral = embeddingToVectorLiteral(params.questionEmbedding);
+
+  const [vectorRows, lexicalRows] = await Promise.all([
+    db.$queryRawUnsafe<RetrievalRow[]>(
+      RETRIEVAL_SQL,
+      vectorLiteral,
+      params.organizationId,
+      topK,
+      params.embeddingModel,
+      params.evidenceCollectionId ?? null
+    ),
+    questionText
+      ? db.$queryRawUnsafe<LexicalRetrievalRow[]>(
+          LEXICAL_RETRIEVAL_SQL,
+          vectorLiteral,
+          params.organizationId,
+          topK,
+          params.embeddingModel,
+          questionText,
+          params.evidenceCollectionId ?? null
+        )
+      : Promise.resolve([] as LexicalRetrievalRow[])
+  ]);
+
+  const rowsById = new Map<string, RetrievalRow>();
+  for (const row of [...vectorRows, ...lexicalRows]) {
+    if (!rowsById.has(row.chunkId)) {
+      rowsById.set(row.chunkId, row);
     }
+  }
 
-    return right.similarity - left.similarity;
+  const textSearchScores = new Map(lexicalRows.map((row) => [row.chunkId, Number(row.textSearchScore)]));
+  const fused = fuseRankings({
+    vectorIds: vectorRows.map((row) => row.chunkId),
+    lexicalIds: lexicalRows.map((row) => row.chunkId),
+    fusion: params.fusion ?? DEFAULT_RANK_FUSION
+  }).slice(0, topK);
+
+  return fused.map((rank) => {
+    const row = rowsById.get(rank.id) as RetrievalRow;
+
+    return {
+      chunkId: row.chunkId,
+      docName: row.docName,
+      quotedSnippet: selectContextSnippet({
+        content: row.content,
+        anchorTokens,
+        snippetChars
+      }),
+      fullContent: normalizeWhitespace(row.content),
+      similarity: row.distance === null ? 0 : Math.max(0, 1 - Number(row.distance)),
+      location: formatChunkLocation(row),
+      retrieval: {
+        vectorRank: rank.vectorRank,
+        textSearchRank: rank.lexicalRank,
+        textSearchScore: textSearchScores.get(rank.id) ?? null,
+        fusedScore: rank.fusedScore
+      }
+    };
   });
-
-  return mapped;
 }
@@ -0,0 +1,114 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { parseXlsxBytes, writeAnswersToXlsx } from "@/lib/xlsx";
+
+const RESPONSE_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFFFF2CC" }
+};
+
+async function buildVendorWorkbook(): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet("Instructions").addRow(["Fill in the Security tab."]);
+
+  const sheet = workbook.addWorksheet("Security");
+  sheet.addRow(["Vendor Security Assessment"]);
+  sheet.mergeCells("A1:E1");
+  sheet.addRow(["Section 1: Data Protection"]);
+  sheet.mergeCells("A2:E2");
+  sheet.addRow(["ID", "Question", "Response", "Comments", "Yes/No"]);
+  sheet.addRow(["DP-1", "Is customer data encrypted at rest?", "", "", ""]);
+  sheet.addRow([]);
+  sheet.addRow(["DP-2", "Do you support SCIM provisioning?", "", "", ""]);
+
+  for (const rowNumber of [4, 6]) {
+    sheet.getCell(`C${rowNumber}`).fill = RESPONSE_FILL;
+    sheet.getCell(`E${rowNumber}`).dataValidation = {
+      type: "list",
+      allowBlank: true,
+      formulae: ['"Yes,No,N/A"']
+    };
+  }
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
+
+async function loadWorkbook(bytes: ArrayBuffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(bytes);
+  return workbook;
+}
+
+describe("parseXlsxBytes", () => {
+  it("detects the header row below merged title rows and records worksheet row numbers", async () => {
+    const parsed = await parseXlsxBytes(await buildVendorWorkbook(), { sheetName: "Security" });
+
+    expect(parsed.sheetNames).toEqual(["Instructions", "Security"]);
+    expect(parsed.headerRowNumber).toBe(3);
+    expect(parsed.headers).toEqual(["ID", "Question", "Response", "Comments", "Yes/No"]);
+    expect(parsed.rows.map((row) => row.Question)).toEqual([
+      "Is customer data encrypted at rest?",
+      "Do you support SCIM provisioning?"
+    ]);
+    expect(parsed.rowNumbers).toEqual([4, 6]);
+    expect(parsed.dropdownOptions).toEqual([{ "Yes/No": ["Yes", "No", "N/A"] }, { "Yes/No": ["Yes", "No", "N/A"] }]);
+  });
+
+  it("defaults to the first sheet and honors an explicit header row", async () => {
+    const parsed = await parseXlsxBytes(await buildVendorWorkbook(), { headerRowNumber: 1 });
+
+    expect(parsed.sheetName).toBe("Instructions");
+    expect(parsed.headers).toEqual(["Fill in the Security tab."]);
+    expect(parsed.rows).toEqual([]);
+  });
+
+  it("rejects unknown sheets", async () => {
+    await expect(parseXlsxBytes(await buildVendorWorkbook(), { sheetName: "Privacy" })).rejects.toThrow(
+      'Worksheet "Privacy" was not found'
+    );
+  });
+});
+
+describe("writeAnswersToXlsx", () => {
+  it("fills mapped columns in place and keeps the template formatting", async () => {
+    const output = await writeAnswersToXlsx({
+      workbookBytes: await buildVendorWorkbook(),
+      sheetName: "Security",
+      headerRowNumber: 3,
+      answerColumn: "Response",
+      yesNoColumn: "Yes/No",
+      citationsColumn: "Comments",
+      appendHeaders: { answer: "Answer", citations: "Citations" },
+      rows: [
+        { rowNumber: 4, answer: "Yes, AES-256.", yesNo: "Yes", citations: "Security Policy#chunk-1" },
+        { rowNumber: 6, answer: "Not found in provided documents.", yesNo: "", citations: "" }
+      ]
+    });
+
+    const sheet = (await loadWorkbook(output)).getWorksheet("Security") as ExcelJS.Worksheet;
+    expect(sheet.getCell("C4").value).toBe("Yes, AES-256.");
+    expect(sheet.getCell("D4").value).toBe("Security Policy#chunk-1");
+    expect(sheet.getCell("E4").value).toBe("Yes");
+    expect(sheet.getCell("C6").value).toBe("Not found in provided documents.");
+    expect(sheet.getCell("C4").fill).toEqual(RESPONSE_FILL);
+    expect(sheet.getCell("B1").isMerged).toBe(true);
+    expect(sheet.getCell("F3").value).toBeNull();
+  });
+
+  it("appends answer and citation columns when none are mapped", async () => {
+    const output = await writeAnswersToXlsx({
+      workbookBytes: await buildVendorWorkbook(),
+      sheetName: "Security",
+      headerRowNumber: 3,
+      appendHeaders: { answer: "Answer", citations: "Citations" },
+      rows: [{ rowNumber: 4, answer: "Yes", yesNo: "Yes", citations: "" }]
+    });
+
+    const sheet = (await loadWorkbook(output)).getWorksheet("Security") as ExcelJS.Worksheet;
+    expect(sheet.getCell("F3").value).toBe("Answer");
+    expect(sheet.getCell("G3").value).toBe("Citations");
+    expect(sheet.getCell("F4").value).toBe("Yes");
+    expect(sheet.getCell("E4").value).toBe("");
+  });
+});
@@ -0,0 +1,377 @@
+import ExcelJS from "exceljs";
+import { dedupeHeaders, scoreQuestionHeader, type ParsedCsv } from "@/lib/csv";
+
+export const MAX_XLSX_BYTES = 8 * 1024 * 1024;
+const HEADER_SCAN_ROWS = 25;
+const MAX_HEADER_CELL_CHARS = 80;
+const MAX_DROPDOWN_OPTIONS = 50;
+const RANGE_REFERENCE_PATTERN = /^(?:'?([^'!]+)'?!)?\$?([A-Z]{1,3})\$?(\d+)(?::\$?([A-Z]{1,3})\$?(\d+))?$/i;
+
+const XLSX_EXTENSIONS = [".xlsx"];
+const XLSX_MIME_TYPES = ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"];
+
+export type ParsedXlsx = ParsedCsv & {
+  sheetNames: string[];
+  sheetName: string;
+  /** 1-based worksheet row holding the headers. */
+  headerRowNumber: number;
+  /** 1-based worksheet row of each entry in `rows`. */
+  rowNumbers: number[];
+  /** Dropdown (list data validation) values per header for each entry in `rows`; headers without one are omitted. */
+  dropdownOptions: Array<Record<string, string[]>>;
+};
+
+export type XlsxParseOptions = {
+  sheetName?: string;
+  headerRowNumber?: number;
+};
+
+export type XlsxAnswerRow = {
+  rowNumber: number;
+  answer: string;
+  yesNo: string;
+  citations: string;
+};
+
+type HeaderColumn = {
+  header: string;
+  columnNumber: number;
+};
+
+export function isXlsxFile(file: Pick<File, "name" | "type">): boolean {
+  const lowerName = file.name.toLowerCase();
+  if (XLSX_EXTENSIONS.some((extension) => lowerName.endsWith(extension))) {
+    return true;
+  }
+
+  return XLSX_MIME_TYPES.includes(file.type);
+}
+
+/** Reads the optional sheet and header-row overrides sent alongside an uploaded workbook. */
+export function readXlsxParseOptions(formData: FormData): XlsxParseOptions {
+  const sheetName = String(formData.get("sheetName") ?? "").trim();
+  const headerRow = String(formData.get("headerRow") ?? "").trim();
+
+  return {
+    sheetName: sheetName || undefined,
+    headerRowNumber: headerRow ? Number(headerRow) : undefined
+  };
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+async function loadWorkbook(bytes: Uint8Array): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+
+  try {
+    await workbook.xlsx.load(toArrayBuffer(bytes));
+  } catch {
+    throw new Error("XLSX file could not be read. Save it as an .xlsx workbook and try again.");
+  }
+
+  if (workbook.worksheets.length === 0) {
+    throw new Error("XLSX file does not contain any worksheets");
+  }
+
+  return workbook;
+}
+
+function selectWorksheet(workbook: ExcelJS.Workbook, sheetName?: string): ExcelJS.Worksheet {
+  if (!sheetName) {
+    return workbook.worksheets[0];
+  }
+
+  const worksheet = workbook.getWorksheet(sheetName);
+  if (!worksheet) {
+    throw new Error(`Worksheet "${sheetName}" was not found`);
+  }
+
+  return worksheet;
+}
+
+/** Slave cells of a merged range repeat the master's value; only the master should count. */
+function isMergedSlave(cell: ExcelJS.Cell): boolean {
+  return cell.isMerged && cell.master.address !== cell.address;
+}
+
+function getCellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+
+  try {
+    return cell.text.trim();
+  } catch {
+    return "";
+  }
+}
+
+function columnLettersToNumber(letters: string): number {
+  return letters
+    .toUpperCase()
+    .split("")
+    .reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0);
+}
+
+/**
+ * Resolves the values of a list validation, either an inline `"Yes,No,N/A"` list or a cell range such
+ * as `Lists!$A$1:$A$3`. Named ranges and formulas are not evaluated.
+ */
+function readDropdownOptions(workbook: ExcelJS.Workbook, worksheet: ExcelJS.Worksheet, cell: ExcelJS.Cell): string[] {
+  const validation = cell.dataValidation;
+  if (!validation || validation.type !== "list" || !validation.formulae?.length) {
+    return [];
+  }
+
+  const formula = String(validation.formulae[0]).trim();
+  if (formula.startsWith('"') && formula.endsWith('"')) {
+    return formula
+      .slice(1, -1)
+      .split(",")
+      .map((option) => option.trim())
+      .filter(Boolean)
+      .slice(0, MAX_DROPDOWN_OPTIONS);
+  }
+
+  const match = formula.match(RANGE_REFERENCE_PATTERN);
+  const sourceSheet = match?.[1] ? workbook.getWorksheet(match[1]) : worksheet;
+  if (!match || !sourceSheet) {
+    return [];
+  }
+
+  const startColumn = columnLettersToNumber(match[2]);
+  const startRow = Number(match[3]);
+  const endColumn = match[4] ? columnLettersToNumber(match[4]) : startColumn;
+  const endRow = match[5] ? Number(match[5]) : startRow;
+  const options: string[] = [];
+
+  for (let rowNumber = startRow; rowNumber <= endRow && options.length < MAX_DROPDOWN_OPTIONS; rowNumber += 1) {
+    for (let columnNumber = startColumn; columnNumber <= endColumn; columnNumber += 1) {
+      const text = getCellText(sourceSheet.getRow(rowNumber).getCell(columnNumber));
+      if (text) {
+        options.push(text);
+      }
+    }
+  }
+
+  return options.slice(0, MAX_DROPDOWN_OPTIONS);
+}
+
+/**
+ * Picks the row within the first few rows that looks most like a header: the most short, non-empty,
+ * non-merged-slave cells, with a bonus for question-like labels. Title rows merged across the sheet
+ * only contribute one cell, so they lose to the real header row underneath.
+ */
+export function detectHeaderRow(worksheet: ExcelJS.Worksheet): number {
+  const lastRow = Math.min(worksheet.rowCount, HEADER_SCAN_ROWS);
+  let bestRowNumber = 1;
+  let bestScore = 0;
+
+  for (let rowNumber = 1; rowNumber <= lastRow; rowNumber += 1) {
+    const row = worksheet.getRow(rowNumber);
+    const labels: string[] = [];
+
+    for (let columnNumber = 1; columnNumber <= worksheet.columnCount; columnNumber += 1) {
+      const cell = row.getCell(columnNumber);
+      const text = isMergedSlave(cell) ? "" : getCellText(cell);
+      if (text && text.length <= MAX_HEADER_CELL_CHARS) {
+        labels.push(text);
+      }
+    }
+
+    const hasQuestionLabel = labels.some((label) => scoreQuestionHeader(label) > 0);
+    const score = labels.length + (hasQuestionLabel ? 2 : 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestRowNumber = rowNumber;
+    }
+  }
+
+  return bestRowNumber;
+}
+
+function readHeaderColumns(worksheet: ExcelJS.Worksheet, headerRowNumber: number): HeaderColumn[] {
+  const row = worksheet.getRow(headerRowNumber);
+  const rawHeaders: string[] = [];
+
+  for (let columnNumber = 1; columnNumber <= worksheet.columnCount; columnNumber += 1) {
+    rawHeaders.push(getCellText(row.getCell(columnNumber)));
+  }
+
+  let lastNamedIndex = rawHeaders.length - 1;
+  while (lastNamedIndex >= 0 && !rawHeaders[lastNamedIndex]) {
+    lastNamedIndex -= 1;
+  }
+
+  const headers = dedupeHeaders(rawHeaders.slice(0, lastNamedIndex + 1));
+  return headers.map((header, index) => ({ header, columnNumber: index + 1 }));
+}
+
+export async function parseXlsxFile(file: File, options: XlsxParseOptions = {}): Promise<ParsedXlsx> {
+  if (file.size > MAX_XLSX_BYTES) {
+    throw new Error(`XLSX file exceeds size limit of ${Math.floor(MAX_XLSX_BYTES / (1024 * 1024))}MB`);
+  }
+
+  return parseXlsxBytes(new Uint8Array(await file.arrayBuffer()), options);
+}
+
+export async function parseXlsxBytes(bytes: Uint8Array, options: XlsxParseOptions = {}): Promise<ParsedXlsx> {
+  const workbook = await loadWorkbook(bytes);
+  const worksheet = selectWorksheet(workbook, options.sheetName);
+
+  if (options.headerRowNumber !== undefined) {
+    if (!Number.isInteger(options.headerRowNumber) || options.headerRowNumber < 1) {
+      throw new Error("Header row must be a positive row number");
+    }
+
+    if (options.headerRowNumber > worksheet.rowCount) {
+      throw new Error(`Header row ${options.headerRowNumber} is past the end of "${worksheet.name}"`);
+    }
+  }
+
+  const headerRowNumber = options.headerRowNumber ?? detectHeaderRow(worksheet);
+  const columns = readHeaderColumns(worksheet, headerRowNumber);
+  if (columns.length === 0) {
+    throw new Error(`Row ${headerRowNumber} of "${worksheet.name}" does not contain any headers`);
+  }
+
+  const rows: Array<Record<string, string>> = [];
+  const rowNumbers: number[] = [];
+  const dropdownOptions: Array<Record<string, string[]>> = [];
+
+  for (let rowNumber = headerRowNumber + 1; rowNumber <= worksheet.rowCount; rowNumber += 1) {
+    const row = worksheet.getRow(rowNumber);
+    const values: Record<string, string> = {};
+    const options: Record<string, string[]> = {};
+    let hasValue = false;
+
+    for (const column of columns) {
+      const cell = row.getCell(column.columnNumber);
+      const text = getCellText(cell);
+      values[column.header] = text;
+      hasValue = hasValue || text.length > 0;
+
+      const cellOptions = readDropdownOptions(workbook, worksheet, cell);
+      if (cellOptions.length > 0) {
+        options[column.header] = cellOptions;
+      }
+    }
+
+    if (hasValue) {
+      rows.push(values);
+      rowNumbers.push(rowNumber);
+      dropdownOptions.push(options);
+    }
+  }
+
+  return {
+    headers: columns.map((column) => column.header),
+    rows,
+    sheetNames: workbook.worksheets.map((sheet) => sheet.name),
+    sheetName: worksheet.name,
+    headerRowNumber,
+    rowNumbers,
+    dropdownOptions
+  };
+}
+
+function resolveTargetColumn(params: {
+  worksheet: ExcelJS.Worksheet;
+  columns: HeaderColumn[];
+  headerRowNumber: number;
+  header: string | undefined;
+  appendHeader: string;
+  nextAppendColumn: () => number;
+}): number {
+  if (params.header) {
+    const column = params.columns.find((candidate) => candidate.header === params.header);
+    if (!column) {
+      throw new Error(`Column "${params.header}" was not found in the source workbook`);
+    }
+
+    return column.columnNumber;
+  }
+
+  const columnNumber = params.nextAppendColumn();
+  const headerCell = params.worksheet.getRow(params.headerRowNumber).getCell(columnNumber);
+  const templateCell = params.worksheet.getRow(params.headerRowNumber).getCell(params.columns.length);
+  headerCell.value = params.appendHeader;
+  headerCell.style = { ...templateCell.style };
+  return columnNumber;
+}
+
+/**
+ * Writes answers into the original workbook in place. Only the target cells' values change, so
+ * styles, merges, column widths and data validation from the customer's template are kept. Columns
+ * that are not mapped to an existing header are appended after the last header.
+ */
+export async function writeAnswersToXlsx(params: {
+  workbookBytes: Uint8Array;
+  sheetName: string;
+  headerRowNumber: number;
+  answerColumn?: string;
+  /** Written only when mapped; there is no appended Yes/No column. */
+  yesNoColumn?: string;
+  citationsColumn?: string;
+  appendHeaders: { answer: string; citations: string };
+  rows: XlsxAnswerRow[];
+}): Promise<ArrayBuffer> {
+  const workbook = await loadWorkbook(params.workbookBytes);
+  const worksheet = selectWorksheet(workbook, params.sheetName);
+  const columns = readHeaderColumns(worksheet, params.headerRowNumber);
+
+  let appendedCount = 0;
+  const nextAppendColumn = () => {
+    appendedCount += 1;
+    return columns.length + appendedCount;
+  };
+
+  const answerColumnNumber = resolveTargetColumn({
+    worksheet,
+    columns,
+    headerRowNumber: params.headerRowNumber,
+    header: params.answerColumn,
+    appendHeader: params.appendHeaders.answer,
+    nextAppendColumn
+  });
+  const citationsColumnNumber = resolveTargetColumn({
+    worksheet,
+    columns,
+    headerRowNumber: params.headerRowNumber,
+    header: params.citationsColumn,
+    appendHeader: params.appendHeaders.citations,
+    nextAppendColumn
+  });
+
+  const yesNoColumnNumber = params.yesNoColumn
+    ? resolveTargetColumn({
+        worksheet,
+        columns,
+        headerRowNumber: params.headerRowNumber,
+        header: params.yesNoColumn,
+        appendHeader: "",
+        nextAppendColumn
+      })
+    : null;
+
+  const targetColumns = [answerColumnNumber, citationsColumnNumber, yesNoColumnNumber].filter(
+    (columnNumber): columnNumber is number => columnNumber !== null
+  );
+  if (new Set(targetColumns).size !== targetColumns.length) {
+    throw new Error("Answer, Yes/No and citations must be written to different columns");
+  }
+
+  for (const row of params.rows) {
+    const worksheetRow = worksheet.getRow(row.rowNumber);
+    worksheetRow.getCell(answerColumnNumber).value = row.answer;
+    worksheetRow.getCell(citationsColumnNumber).value = row.citations;
+    if (yesNoColumnNumber !== null) {
+      worksheetRow.getCell(yesNoColumnNumber).value = row.yesNo;
+    }
+  }
+
+  return workbook.xlsx.writeBuffer();
+}
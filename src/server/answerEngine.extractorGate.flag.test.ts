@@ -28,6 +28,16 @@ vi.mock("@/lib/retrieval", () => ({
   retrieveTopChunks: retrieveTopChunksMock
 }));
 
+vi.mock("@/lib/aiProvider", () => ({
+  getAiProviderForOrganization: vi.fn(async () => ({
+    kind: "OPENAI",
+    chatModel: "test-chat-model",
+    embeddingModel: "openai:text-embedding-3-small",
+    createEmbedding: vi.fn(),
+    completeJson: vi.fn()
+  }))
+}));
+
 import { answerQuestion } from "./answerEngine";
 
 const NOT_FOUND_TEXT = "Not found in provided documents.";
@@ -7,6 +7,7 @@ const {
   generateGroundedAnswerMock,
   generateEvidenceSufficiencyMock,
   generateLegacyEvidenceSufficiencyMock,
+  generateShortAnswerMock,
   countEmbeddedChunksForOrganizationMock,
   retrieveTopChunksMock
 } = vi.hoisted(() => ({
@@ -14,6 +15,7 @@ const {
   generateGroundedAnswerMock: vi.fn(),
   generateEvidenceSufficiencyMock: vi.fn(),
   generateLegacyEvidenceSufficiencyMock: vi.fn(),
+  generateShortAnswerMock: vi.fn(),
   countEmbeddedChunksForOrganizationMock: vi.fn(),
   retrieveTopChunksMock: vi.fn()
 }));
@@ -22,7 +24,8 @@ vi.mock("@/lib/openai", () => ({
   createEmbedding: createEmbeddingMock,
   generateGroundedAnswer: generateGroundedAnswerMock,
   generateEvidenceSufficiency: generateEvidenceSufficiencyMock,
-  generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock
+  generateLegacyEvidenceSufficiency: generateLegacyEvidenceSufficiencyMock,
+  generateShortAnswer: generateShortAnswerMock
 }));
 
 vi.mock("@/lib/retrieval", () => ({
@@ -30,6 +33,16 @@ vi.mock("@/lib/retrieval", () => ({
   retrieveTopChunks: retrieveTopChunksMock
 }));
 
+vi.mock("@/lib/aiProvider", () => ({
+  getAiProviderForOrganization: vi.fn(async () => ({
+    kind: "OPENAI",
+    chatModel: "test-chat-model",
+    embeddingModel: "openai:text-embedding-3-small",
+    createEmbedding: vi.fn(),
+    completeJson: vi.fn()
+  }))
+}));
+
 import { answerQuestion } from "./answerEngine";
 
 function fixture(name: string): string {
@@ -44,6 +57,7 @@ describe("MVP answer engine contract", () => {
     generateGroundedAnswerMock.mockReset();
     generateEvidenceSufficiencyMock.mockReset();
     generateLegacyEvidenceSufficiencyMock.mockReset();
+    generateShortAnswerMock.mockReset();
     countEmbeddedChunksForOrganizationMock.mockReset();
     retrieveTopChunksMock.mockReset();
 
@@ -323,4 +337,85 @@ describe("MVP answer engine contract", () => {
     expect(result.answer).toBe("Not found in provided documents.");
     expect(result.citations).toEqual([]);
   });
+
+  it("leads closed-question answers with the model's short answer and keeps the evidence as explanation", async () => {
+    retrieveTopChunksMock.mockResolvedValue([
+      {
+        chunkId: "chunk-enc-1",
+        docName: "Security Policy",
+        quotedSnippet: "Customer data at rest is encrypted with AES-256.",
+        fullContent: "Customer data at rest is encrypted with AES-256.",
+        similarity: 0.91
+      }
+    ]);
+    generateEvidenceSufficiencyMock.mockResolvedValue({
+      requirements: ["Encryption at rest"],
+      extracted: [
+        {
+          requirement: "Encryption at rest",
+          value: "Customer data at rest is encrypted with AES-256.",
+          supportingChunkIds: ["chunk-enc-1"]
+        }
+      ],
+      overall: "FOUND"
+    });
+    generateShortAnswerMock.mockResolvedValue("Yes");
+
+    const result = await answerQuestion({
+      orgId: "org-1",
+      questionText: "Do you encrypt customer data at rest?",
+      answerType: { type: "BOOLEAN", options: [] }
+    });
+
+    expect(generateShortAnswerMock).toHaveBeenCalledTimes(1);
+    expect(result.shortAnswer).toBe("Yes");
+    expect(result.explanation).toBe("Encryption at rest: Customer data at rest is encrypted with AES-256.");
+    expect(result.answer).toBe("Yes — Encryption at rest: Customer data at rest is encrypted with AES-256.");
+  });
+
+  it("sends closed questions without a valid short answer to review", async () => {
+    retrieveTopChunksMock.mockResolvedValue([
+      {
+        chunkId: "chunk-host-1",
+        docName: "Architecture",
+        quotedSnippet: "The platform runs in AWS us-east-1.",
+        fullContent: "The platform runs in AWS us-east-1.",
+        similarity: 0.88
+      }
+    ]);
+    generateEvidenceSufficiencyMock.mockResolvedValue({
+      requirements: ["Hosting model"],
+      extracted: [
+        {
+          requirement: "Hosting model",
+          value: "The platform runs in AWS us-east-1.",
+          supportingChunkIds: ["chunk-host-1"]
+        }
+      ],
+      overall: "FOUND"
+    });
+    generateShortAnswerMock.mockResolvedValue(null);
+
+    const result = await answerQuestion({
+      orgId: "org-1",
+      questionText: "Which hosting model does the platform use?",
+      answerType: { type: "ENUM", options: ["SaaS", "On-premises"] }
+    });
+
+    expect(result.shortAnswer).toBeNull();
+    expect(result.answer).toBe("Hosting model: The platform runs in AWS us-east-1.");
+    expect(result.needsReview).toBe(true);
+    expect(result.confidence).toBe("low");
+  });
+
+  it("does not request a short answer for free-text questions", async () => {
+    retrieveTopChunksMock.mockResolvedValue([]);
+
+    await answerQuestion({
+      orgId: "org-1",
+      questionText: "Do you encrypt customer data at rest?"
+    });
+
+    expect(generateShortAnswerMock).not.toHaveBeenCalled();
+  });
 });
@@ -1,24 +1,34 @@
+import { getAiProviderForOrganization, type AiProvider } from "@/lib/aiProvider";
 import { applyClaimCheckGuardrails } from "@/lib/claimCheck";
 import {
   createEmbedding,
   generateEvidenceSufficiency,
   generateGroundedAnswer,
   generateLegacyEvidenceSufficiency,
+  generateShortAnswer,
   type LegacyEvidenceSufficiencyModelOutput,
   type EvidenceSufficiencyModelOutput
 } from "@/lib/openai";
+import { DEFAULT_RANK_FUSION, type RankFusionConfig } from "@/lib/rankFusion";
 import {
   countEmbeddedChunksForOrganization,
   retrieveTopChunks,
   type RetrievedChunk
 } from "@/lib/retrieval";
 import { canonicalizeAnswerOutput, NOT_FOUND_TEXT, PARTIAL_TEXT } from "@/shared/answerTemplates";
+import {
+  FREE_TEXT_ANSWER_TYPE,
+  formatShapedAnswer,
+  readLeadingShortAnswer,
+  type AnswerTypeSpec
+} from "@/shared/answerTypes";
 import { sanitizeExtractedText } from "@/lib/textNormalization";
 
 export type Citation = {
   docName: string;
   chunkId: string;
   quotedSnippet: string;
+  location?: string;
 };
 
 export type EvidenceAnswer = {
@@ -29,6 +39,9 @@ export type EvidenceAnswer = {
   reusedFromApprovedAnswerId?: string;
   reusedFromApprovedMatchType?: "exact" | "near_exact" | "semantic";
   notFoundReason?: NotFoundReason;
+  /** Set for closed questions: the normalized value and the evidence text behind it. */
+  shortAnswer?: string | null;
+  explanation?: string | null;
   debug?: EvidenceDebugInfo;
 };
 
@@ -50,10 +63,15 @@ export type EvidenceDebugChunk = {
   lexicalOverlapCount: number;
   lexicalScore: number;
   finalScore: number;
+  vectorRank: number | null;
+  textSearchRank: number | null;
+  textSearchScore: number | null;
+  fusedScore: number | null;
 };
 
 export type EvidenceDebugInfo = {
   threshold: number;
+  fusion: RankFusionConfig & { method: "reciprocal_rank" };
   retrievedTopK: EvidenceDebugChunk[];
   rerankedTopN: EvidenceDebugChunk[];
   chosenChunks: Array<{ chunkId: string; docName: string }>;
@@ -67,6 +85,7 @@ const RERANK_TOP_N = 5;
 const MAX_ANSWER_CHUNKS = 5;
 const VECTOR_WEIGHT = 0.7;
 const LEXICAL_WEIGHT = 0.3;
+const RETRIEVAL_FUSION: RankFusionConfig = DEFAULT_RANK_FUSION;
 const MIN_TOP_SIMILARITY = 0.2;
 const MIN_TOKEN_LENGTH = 4;
 const NORMALIZED_NOT_FOUND_TEXT = normalizeTemplateMatcherText(NOT_FOUND_TEXT);
@@ -220,6 +239,19 @@ function isExtractorGateEnabled(): boolean {
   return process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
 }
 
+/** Retrieval and gating knobs in effect, recorded by evaluation runs so score changes can be traced to them. */
+export function getAnswerEngineSettings() {
+  return {
+    topK: TOP_K,
+    rerankTopN: RERANK_TOP_N,
+    maxAnswerChunks: MAX_ANSWER_CHUNKS,
+    vectorWeight: VECTOR_WEIGHT,
+    lexicalWeight: LEXICAL_WEIGHT,
+    minTopSimilarity: MIN_TOP_SIMILARITY,
+    extractorGate: isExtractorGateEnabled()
+  };
+}
+
 function tokenizeForLexical(value: string): string[] {
   const normalized = normalizeForMatch(value);
   const tokens = normalized.match(/[a-z0-9./-]+/g) ?? [];
@@ -288,7 +320,8 @@ function buildCitationFromChunk(chunk: RetrievedChunk): Citation {
   return {
     docName: chunk.docName,
     chunkId: chunk.chunkId,
-    quotedSnippet: normalizeWhitespace(chunk.quotedSnippet)
+    quotedSnippet: normalizeWhitespace(chunk.quotedSnippet),
+    ...(chunk.location ? { location: chunk.location } : {})
   };
 }
 
@@ -303,7 +336,11 @@ function toDebugChunks(chunks: ScoredChunk[]): EvidenceDebugChunk[] {
     similarity: chunk.similarity,
     lexicalOverlapCount: chunk.lexicalOverlapCount,
     lexicalScore: chunk.lexicalScore,
-    finalScore: chunk.finalScore
+    finalScore: chunk.finalScore,
+    vectorRank: chunk.retrieval?.vectorRank ?? null,
+    textSearchRank: chunk.retrieval?.textSearchRank ?? null,
+    textSearchScore: chunk.retrieval?.textSearchScore ?? null,
+    fusedScore: chunk.retrieval?.fusedScore ?? null
   }));
 }
 
@@ -643,7 +680,8 @@ function mapModelCitationsToChosenChunks(params: {
         return {
           docName: chunk.docName,
           chunkId: chunk.chunkId,
-          quotedSnippet: normalizeWhitespace(citation.quotedSnippet || chunk.quotedSnippet)
+          quotedSnippet: normalizeWhitespace(citation.quotedSnippet || chunk.quotedSnippet),
+          ...(chunk.location ? { location: chunk.location } : {})
         };
       })
       .filter((citation): citation is Citation => citation !== null)
@@ -652,6 +690,7 @@ function mapModelCitationsToChosenChunks(params: {
 
 async function generateGroundedFallbackFromReranked(params: {
   question: string;
+  aiProvider: AiProvider;
   rerankedTopN: ScoredChunk[];
   debugEnabled: boolean;
   debugInfo: EvidenceDebugInfo;
@@ -667,7 +706,8 @@ async function generateGroundedFallbackFromReranked(params: {
       chunkId: chunk.chunkId,
       docName: chunk.docName,
       quotedSnippet: chunk.quotedSnippet
-    }))
+    })),
+    provider: params.aiProvider
   });
   const chosenById = new Map(params.rerankedTopN.map((chunk) => [chunk.chunkId, chunk]));
   const citations = mapModelCitationsToChosenChunks({
@@ -750,13 +790,79 @@ export type AnswerQuestionParams = {
   debug?: boolean;
   questionnaireId?: string;
   questionId?: string;
+  /** Callers answering many questions resolve the organization's provider once and pass it in. */
+  aiProvider?: AiProvider;
+  /** Expected answer shape; closed types get a normalized short answer. Defaults to free text. */
+  answerType?: AnswerTypeSpec;
+  /** Evidence collection to retrieve from; null or omitted searches the whole organization. */
+  evidenceCollectionId?: string | null;
 };
 
+/**
+ * Leads a grounded answer with the short value its type expects ("Yes — <evidence>"). A closed
+ * question whose evidence does not pin down a valid value keeps its free text and goes to review.
+ */
+async function shapeAnswerForType(params: {
+  answer: EvidenceAnswer;
+  question: string;
+  answerType: AnswerTypeSpec;
+  aiProvider: AiProvider;
+}): Promise<EvidenceAnswer> {
+  const { answer } = params;
+  if (answer.answer === NOT_FOUND_TEXT || answer.answer === PARTIAL_TEXT || answer.citations.length === 0) {
+    return { ...answer, shortAnswer: null, explanation: null };
+  }
+
+  const leading = readLeadingShortAnswer(params.answerType, answer.answer);
+  const shortAnswer =
+    leading?.shortAnswer ??
+    (await generateShortAnswer({
+      question: params.question,
+      answerType: params.answerType,
+      draftAnswer: answer.answer,
+      snippets: answer.citations.map((citation) => ({
+        chunkId: citation.chunkId,
+        docName: citation.docName,
+        quotedSnippet: citation.quotedSnippet
+      })),
+      provider: params.aiProvider
+    }));
+
+  if (!shortAnswer) {
+    return { ...answer, shortAnswer: null, explanation: null, confidence: "low", needsReview: true };
+  }
+
+  const explanation = leading ? leading.explanation : answer.answer;
+  return {
+    ...answer,
+    answer: formatShapedAnswer({ shortAnswer, explanation }),
+    shortAnswer,
+    explanation
+  };
+}
+
 export async function answerQuestion(params: AnswerQuestionParams): Promise<EvidenceAnswer> {
+  const answerType = params.answerType ?? FREE_TEXT_ANSWER_TYPE;
+  if (answerType.type === "FREE_TEXT") {
+    return answerFromEvidence(params);
+  }
+
+  const aiProvider = params.aiProvider ?? (await getAiProviderForOrganization(params.orgId));
+  const answer = await answerFromEvidence({ ...params, aiProvider });
+  return shapeAnswerForType({
+    answer,
+    question: params.questionText.trim(),
+    answerType,
+    aiProvider
+  });
+}
+
+async function answerFromEvidence(params: AnswerQuestionParams): Promise<EvidenceAnswer> {
   const question = params.questionText.trim();
   const debugEnabled = params.debug === true;
   const debugInfo: EvidenceDebugInfo = {
     threshold: MIN_TOP_SIMILARITY,
+    fusion: { method: "reciprocal_rank", ...RETRIEVAL_FUSION },
     retrievedTopK: [],
     rerankedTopN: [],
     chosenChunks: [],
@@ -773,17 +879,27 @@ export async function answerQuestion(params: AnswerQuestionParams): Promise<Evid
     return returnNotFound("NO_RELEVANT_EVIDENCE");
   }
 
-  const embeddedChunkCount = await countEmbeddedChunksForOrganization(params.orgId);
+  const aiProvider = params.aiProvider ?? (await getAiProviderForOrganization(params.orgId));
+  const evidenceCollectionId = params.evidenceCollectionId ?? null;
+  const embeddedChunkCount = await countEmbeddedChunksForOrganization(
+    params.orgId,
+    aiProvider.embeddingModel,
+    undefined,
+    evidenceCollectionId
+  );
   if (embeddedChunkCount === 0) {
     return returnNotFound("NO_RELEVANT_EVIDENCE");
   }
 
-  const questionEmbedding = await createEmbedding(question);
+  const questionEmbedding = await createEmbedding(question, aiProvider);
   const retrieved = await retrieveTopChunks({
     organizationId: params.orgId,
+    embeddingModel: aiProvider.embeddingModel,
     questionEmbedding,
     questionText: question,
-    topK: TOP_K
+    topK: TOP_K,
+    fusion: RETRIEVAL_FUSION,
+    evidenceCollectionId
   });
 
   if (retrieved.length === 0) {
@@ -823,7 +939,8 @@ export async function answerQuestion(params: AnswerQuestionParams): Promise<Evid
   const resolveLegacyDecision = async (): Promise<GateDecision> => {
     const legacyGate = await generateLegacyEvidenceSufficiency({
       question,
-      snippets
+      snippets,
+      provider: aiProvider
     });
     const legacyDecision = evaluateLegacyGate({
       question,
@@ -844,7 +961,8 @@ export async function answerQuestion(params: AnswerQuestionParams): Promise<Evid
   if (isExtractorGateEnabled()) {
     const extractorGate = await generateEvidenceSufficiency({
       question,
-      snippets
+      snippets,
+      provider: aiProvider
     });
     const extractorDecision = evaluateExtractorGate({
       gate: extractorGate,
@@ -865,6 +983,7 @@ export async function answerQuestion(params: AnswerQuestionParams): Promise<Evid
     if (shouldFallbackToGroundedDraft) {
       return generateGroundedFallbackFromReranked({
         question,
+        aiProvider,
         rerankedTopN,
         debugEnabled,
         debugInfo,
@@ -965,7 +1084,8 @@ export async function answerQuestion(params: AnswerQuestionParams): Promise<Evid
       chunkId: chunk.chunkId,
       docName: chunk.docName,
       quotedSnippet: chunk.quotedSnippet
-    }))
+    })),
+    provider: aiProvider
   });
   const modelCitations = mapModelCitationsToChosenChunks({
     groundedCitations: grounded.citations,
@@ -0,0 +1,257 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { ApiToken, ApiTokenKind, MembershipRole } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { RequestContextError, type RequestContext } from "@/lib/requestContext";
+import { can, capRole, isRoleAtLeast, RbacAction } from "@/server/rbac";
+
+export const API_TOKEN_PREFIX = "sqat_";
+export const MAX_API_TOKEN_EXPIRY_DAYS = 365;
+export const DEFAULT_API_TOKEN_EXPIRY_DAYS = 90;
+
+const TOKEN_DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+const MAX_TOKEN_NAME_LENGTH = 80;
+// Skip the lastUsedAt write when it was refreshed this recently, so busy scripts do not write per call.
+const LAST_USED_RESOLUTION_MS = 60_000;
+const MEMBERSHIP_ROLES: MembershipRole[] = ["OWNER", "ADMIN", "REVIEWER", "VIEWER"];
+
+export type ApiTokenRow = {
+  id: string;
+  kind: ApiTokenKind;
+  name: string;
+  tokenPrefix: string;
+  maxRole: MembershipRole;
+  ownerUserId: string;
+  ownerEmail: string | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type ApiTokenResolution = {
+  userId: string;
+  orgId: string;
+  role: MembershipRole;
+  apiTokenId: string;
+};
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+/** Returns the bearer credential from an Authorization header, or null when there is none. */
+export function readBearerToken(request?: Request | null): string | null {
+  const header = request?.headers.get("authorization")?.trim() ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+function toApiTokenRow(token: ApiToken & { user: { email: string | null } }): ApiTokenRow {
+  return {
+    id: token.id,
+    kind: token.kind,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    maxRole: token.maxRole,
+    ownerUserId: token.userId,
+    ownerEmail: token.user.email,
+    expiresAt: token.expiresAt.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString()
+  };
+}
+
+/**
+ * Maps a bearer token to the context it acts with, or null when the token is unknown, revoked,
+ * expired, or belongs to someone who is no longer a member.
+ */
+export async function resolveApiToken(rawToken: string, now = new Date()): Promise<ApiTokenResolution | null> {
+  const token = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(rawToken) },
+    select: {
+      id: true,
+      organizationId: true,
+      userId: true,
+      kind: true,
+      maxRole: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      revokedAt: true
+    }
+  });
+
+  if (!token || token.revokedAt || token.expiresAt <= now) {
+    return null;
+  }
+
+  let role = token.maxRole;
+  if (token.kind === "PERSONAL") {
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_organizationId: {
+          userId: token.userId,
+          organizationId: token.organizationId
+        }
+      },
+      select: { role: true }
+    });
+
+    if (!membership) {
+      return null;
+    }
+
+    role = capRole(membership.role, token.maxRole);
+  }
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: now }
+    });
+  }
+
+  return {
+    userId: token.userId,
+    orgId: token.organizationId,
+    role,
+    apiTokenId: token.id
+  };
+}
+
+/** Token management needs a browser session so a leaked token cannot mint or revoke others. */
+export function assertSessionAuthenticated(ctx: RequestContext): void {
+  if (ctx.apiTokenId) {
+    throw new RequestContextError("API tokens cannot be used to manage API tokens.", {
+      code: "FORBIDDEN",
+      status: 403
+    });
+  }
+}
+
+/** Admins see every token in the organization; everyone else sees the tokens they own. */
+export async function listApiTokens(ctx: RequestContext): Promise<ApiTokenRow[]> {
+  const tokens = await prisma.apiToken.findMany({
+    where: {
+      organizationId: ctx.orgId,
+      ...(can(ctx.role, RbacAction.MANAGE_API_TOKENS) ? {} : { userId: ctx.userId })
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    include: { user: { select: { email: true } } }
+  });
+
+  return tokens.map(toApiTokenRow);
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+export function parseCreateApiTokenInput(
+  body: Record<string, unknown>,
+  ctx: RequestContext
+): { name: string; kind: ApiTokenKind; maxRole: MembershipRole; expiresInDays: number } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+    throw validationError(`name is required and must be at most ${MAX_TOKEN_NAME_LENGTH} characters.`);
+  }
+
+  const kind = body.kind ?? "PERSONAL";
+  if (kind !== "PERSONAL" && kind !== "SERVICE") {
+    throw validationError("kind must be PERSONAL or SERVICE.");
+  }
+
+  const maxRole = body.maxRole ?? ctx.role;
+  if (typeof maxRole !== "string" || !MEMBERSHIP_ROLES.includes(maxRole as MembershipRole)) {
+    throw validationError("maxRole must be OWNER, ADMIN, REVIEWER, or VIEWER.");
+  }
+
+  if (!isRoleAtLeast(ctx.role, maxRole as MembershipRole)) {
+    throw validationError("maxRole cannot exceed your own role.");
+  }
+
+  if (kind === "SERVICE" && !can(ctx.role, RbacAction.MANAGE_API_TOKENS)) {
+    throw new RequestContextError("Only admins can create service tokens.", {
+      code: "FORBIDDEN",
+      status: 403
+    });
+  }
+
+  const expiresInDays = body.expiresInDays ?? DEFAULT_API_TOKEN_EXPIRY_DAYS;
+  if (
+    typeof expiresInDays !== "number" ||
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > MAX_API_TOKEN_EXPIRY_DAYS
+  ) {
+    throw validationError(`expiresInDays must be a whole number from 1 to ${MAX_API_TOKEN_EXPIRY_DAYS}.`);
+  }
+
+  return { name, kind, maxRole: maxRole as MembershipRole, expiresInDays };
+}
+
+/** Returns the plaintext token alongside the row; it is never retrievable again. */
+export async function createApiToken(params: {
+  ctx: RequestContext;
+  name: string;
+  kind: ApiTokenKind;
+  maxRole: MembershipRole;
+  expiresInDays: number;
+}): Promise<{ apiToken: ApiTokenRow; token: string }> {
+  const token = generateApiToken();
+  const created = await prisma.apiToken.create({
+    data: {
+      organizationId: params.ctx.orgId,
+      userId: params.ctx.userId,
+      kind: params.kind,
+      name: params.name,
+      tokenPrefix: token.slice(0, TOKEN_DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashApiToken(token),
+      maxRole: params.maxRole,
+      expiresAt: new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000)
+    },
+    include: { user: { select: { email: true } } }
+  });
+
+  return { apiToken: toApiTokenRow(created), token };
+}
+
+export async function revokeApiToken(params: { ctx: RequestContext; tokenId: string }): Promise<ApiTokenRow> {
+  const existing = await prisma.apiToken.findFirst({
+    where: {
+      id: params.tokenId,
+      organizationId: params.ctx.orgId,
+      ...(can(params.ctx.role, RbacAction.MANAGE_API_TOKENS) ? {} : { userId: params.ctx.userId })
+    }
+  });
+
+  if (!existing) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "API token not found."
+    });
+  }
+
+  const revoked = await prisma.apiToken.update({
+    where: { id: existing.id },
+    data: existing.revokedAt
+      ? {}
+      : {
+          revokedAt: new Date(),
+          revokedByUserId: params.ctx.userId
+        },
+    include: { user: { select: { email: true } } }
+  });
+
+  return toApiTokenRow(revoked);
+}
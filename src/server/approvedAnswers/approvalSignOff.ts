@@ -0,0 +1,343 @@
+import type { ApprovedAnswerSource, Prisma } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import type { RequestContext } from "@/lib/requestContext";
+import { recordAuditEvent, truncateAuditText } from "@/server/audit/recordAuditEvent";
+import { recordQuestionHistoryEvent } from "@/server/questionHistory/recordQuestionHistoryEvent";
+import { RbacAction } from "@/server/rbac";
+
+export type ApprovalSigner = {
+  userId: string | null;
+  email: string | null;
+  signedAt: string;
+};
+
+export type ApprovalSignOffContent = {
+  answerText: string;
+  citationChunkIds: string[];
+  source: ApprovedAnswerSource;
+  note: string | null;
+};
+
+export type LibraryApprovalSignOffContent = {
+  questionText: string;
+  questionTextHash: string;
+  aliases: string[];
+  answerText: string;
+  citationChunkIds: string[];
+  note: string | null;
+  evidenceCollectionId: string | null;
+};
+
+export type ApprovalSignOffOutcome =
+  | { status: "PENDING"; pendingSignOff: ApprovalSigner }
+  | {
+      status: "APPROVED";
+      /** Columns to write on the approved answer; the final signer is the session user. */
+      signerData: Pick<
+        Prisma.ApprovedAnswerUncheckedCreateInput,
+        | "approvedBy"
+        | "approvedByUserId"
+        | "approvedAt"
+        | "secondApprovedBy"
+        | "secondApprovedByUserId"
+        | "secondApprovedAt"
+      >;
+      actor: { userId: string; email: string | null };
+    };
+
+export const TWO_PERSON_APPROVAL_REQUIRED_MESSAGE =
+  "This organization requires two-person approval; approve rows individually so a second reviewer can sign off.";
+
+export async function getApprovalPolicy(orgId: string): Promise<{ requireTwoPersonApproval: boolean }> {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: orgId },
+    select: { requireTwoPersonApproval: true }
+  });
+
+  return organization;
+}
+
+function sameStringSet(left: string[], right: string[]): boolean {
+  const leftSet = new Set(left);
+  const rightSet = new Set(right);
+  return leftSet.size === rightSet.size && Array.from(leftSet).every((value) => rightSet.has(value));
+}
+
+type SignOffActor = { userId: string; email: string | null };
+
+async function loadSignOffContext(ctx: Pick<RequestContext, "orgId" | "userId">) {
+  const [policy, user] = await Promise.all([
+    getApprovalPolicy(ctx.orgId),
+    prisma.user.findUnique({
+      where: { id: ctx.userId },
+      select: { email: true }
+    })
+  ]);
+
+  return { policy, actor: { userId: ctx.userId, email: user?.email ?? null } };
+}
+
+function singleSignerOutcome(actor: SignOffActor, now: Date): ApprovalSignOffOutcome {
+  return {
+    status: "APPROVED",
+    signerData: {
+      approvedBy: actor.email,
+      approvedByUserId: actor.userId,
+      approvedAt: now,
+      secondApprovedBy: null,
+      secondApprovedByUserId: null,
+      secondApprovedAt: null
+    },
+    actor
+  };
+}
+
+function secondSignerOutcome(
+  pending: { signedByUserId: string; signedByEmail: string | null; createdAt: Date },
+  actor: SignOffActor,
+  now: Date
+): ApprovalSignOffOutcome {
+  if (pending.signedByUserId === actor.userId) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: "You already signed off on this answer. A different reviewer must give the second approval."
+    });
+  }
+
+  return {
+    status: "APPROVED",
+    signerData: {
+      approvedBy: pending.signedByEmail,
+      approvedByUserId: pending.signedByUserId,
+      approvedAt: pending.createdAt,
+      secondApprovedBy: actor.email,
+      secondApprovedByUserId: actor.userId,
+      secondApprovedAt: now
+    },
+    actor
+  };
+}
+
+function pendingOutcome(actor: SignOffActor, now: Date): ApprovalSignOffOutcome {
+  return {
+    status: "PENDING",
+    pendingSignOff: {
+      userId: actor.userId,
+      email: actor.email,
+      signedAt: now.toISOString()
+    }
+  };
+}
+
+/**
+ * Decides whether the session user's approval of a questionnaire row completes it. Without the
+ * two-person policy it always does. With it, the first sign-off is parked as a PendingApproval and
+ * only a different member approving the same answer and citations completes the approval.
+ */
+export async function resolveApprovalSignOff(params: {
+  ctx: Pick<RequestContext, "orgId" | "userId">;
+  request?: Request | null;
+  question: { id: string; questionnaireId: string; text: string };
+  content: ApprovalSignOffContent;
+}): Promise<ApprovalSignOffOutcome> {
+  const { policy, actor } = await loadSignOffContext(params.ctx);
+  const now = new Date();
+
+  if (!policy.requireTwoPersonApproval) {
+    return singleSignerOutcome(actor, now);
+  }
+
+  const pending = await prisma.pendingApproval.findUnique({
+    where: { questionId: params.question.id }
+  });
+  const matchesPending =
+    pending !== null &&
+    pending.answerText === params.content.answerText &&
+    sameStringSet(pending.citationChunkIds, params.content.citationChunkIds);
+
+  if (pending && matchesPending) {
+    return secondSignerOutcome(pending, actor, now);
+  }
+
+  const data = {
+    organizationId: params.ctx.orgId,
+    answerText: params.content.answerText,
+    citationChunkIds: params.content.citationChunkIds,
+    source: params.content.source,
+    note: params.content.note,
+    signedByUserId: actor.userId,
+    signedByEmail: actor.email,
+    createdAt: now
+  };
+  await prisma.$transaction(async (tx) => {
+    await tx.pendingApproval.upsert({
+      where: { questionId: params.question.id },
+      create: { questionId: params.question.id, ...data },
+      update: data
+    });
+
+    await recordQuestionHistoryEvent({
+      db: tx,
+      organizationId: params.ctx.orgId,
+      questionnaireId: params.question.questionnaireId,
+      questionId: params.question.id,
+      type: "SIGNED_OFF",
+      actor
+    });
+
+    await recordAuditEvent({
+      db: tx,
+      ctx: params.ctx,
+      request: params.request,
+      action: RbacAction.APPROVE_ANSWERS,
+      targetType: "QUESTION",
+      targetId: params.question.id,
+      targetLabel: truncateAuditText(params.question.text),
+      summary: pending
+        ? "Replaced the pending sign-off; waiting for a second reviewer."
+        : "Signed off on answer; waiting for a second reviewer.",
+      after: {
+        answerText: truncateAuditText(params.content.answerText),
+        citationChunkIds: params.content.citationChunkIds
+      }
+    });
+  });
+
+  return pendingOutcome(actor, now);
+}
+
+/**
+ * Library counterpart of `resolveApprovalSignOff` for answers added or edited outside a
+ * questionnaire. Under the two-person policy the first sign-off is parked as a
+ * PendingLibraryApproval, keyed by the approved answer for edits and by question wording for new
+ * entries, until a different member approves the same wording, aliases, answer, citations, note and scope.
+ */
+export async function resolveLibraryApprovalSignOff(params: {
+  ctx: Pick<RequestContext, "orgId" | "userId">;
+  request?: Request | null;
+  /** Null when the answer is being added to the library. */
+  approvedAnswerId: string | null;
+  content: LibraryApprovalSignOffContent;
+}): Promise<ApprovalSignOffOutcome> {
+  const { policy, actor } = await loadSignOffContext(params.ctx);
+  const now = new Date();
+
+  if (!policy.requireTwoPersonApproval) {
+    return singleSignerOutcome(actor, now);
+  }
+
+  const pending = await prisma.pendingLibraryApproval.findFirst({
+    where: params.approvedAnswerId
+      ? { approvedAnswerId: params.approvedAnswerId }
+      : {
+          organizationId: params.ctx.orgId,
+          approvedAnswerId: null,
+          questionTextHash: params.content.questionTextHash
+        }
+  });
+  const matchesPending =
+    pending !== null &&
+    pending.questionTextHash === params.content.questionTextHash &&
+    pending.answerText === params.content.answerText &&
+    pending.evidenceCollectionId === params.content.evidenceCollectionId &&
+    pending.note === params.content.note &&
+    sameStringSet(pending.aliases, params.content.aliases) &&
+    sameStringSet(pending.citationChunkIds, params.content.citationChunkIds);
+
+  if (pending && matchesPending) {
+    return secondSignerOutcome(pending, actor, now);
+  }
+
+  const data = {
+    organizationId: params.ctx.orgId,
+    approvedAnswerId: params.approvedAnswerId,
+    questionText: params.content.questionText,
+    questionTextHash: params.content.questionTextHash,
+    aliases: params.content.aliases,
+    answerText: params.content.answerText,
+    citationChunkIds: params.content.citationChunkIds,
+    note: params.content.note,
+    evidenceCollectionId: params.content.evidenceCollectionId,
+    signedByUserId: actor.userId,
+    signedByEmail: actor.email,
+    createdAt: now
+  };
+  await prisma.$transaction(async (tx) => {
+    if (pending) {
+      await tx.pendingLibraryApproval.update({ where: { id: pending.id }, data });
+    } else {
+      await tx.pendingLibraryApproval.create({ data });
+    }
+
+    await recordAuditEvent({
+      db: tx,
+      ctx: params.ctx,
+      request: params.request,
+      action: params.approvedAnswerId ? RbacAction.EDIT_APPROVED_ANSWERS : RbacAction.APPROVE_ANSWERS,
+      targetType: "APPROVED_ANSWER",
+      targetId: params.approvedAnswerId,
+      targetLabel: truncateAuditText(params.content.questionText),
+      summary: pending
+        ? "Replaced the pending library sign-off; waiting for a second reviewer."
+        : "Signed off on library answer; waiting for a second reviewer.",
+      after: {
+        answerText: truncateAuditText(params.content.answerText),
+        citationChunkIds: params.content.citationChunkIds,
+        evidenceCollectionId: params.content.evidenceCollectionId
+      }
+    });
+  });
+
+  return pendingOutcome(actor, now);
+}
+
+/** Removes the first sign-off a library approval just completed. */
+export async function clearPendingLibraryApproval(params: {
+  db: Prisma.TransactionClient;
+  organizationId: string;
+  approvedAnswerId: string | null;
+  questionTextHash: string;
+}) {
+  await params.db.pendingLibraryApproval.deleteMany({
+    where: params.approvedAnswerId
+      ? { approvedAnswerId: params.approvedAnswerId }
+      : { organizationId: params.organizationId, approvedAnswerId: null, questionTextHash: params.questionTextHash }
+  });
+}
+
+export type PendingLibraryApprovalRow = {
+  id: string;
+  approvedAnswerId: string | null;
+  questionText: string;
+  aliases: string[];
+  answerText: string;
+  citationChunkIds: string[];
+  note: string | null;
+  evidenceCollectionId: string | null;
+  signedBy: ApprovalSigner;
+};
+
+export async function listPendingLibraryApprovals(orgId: string): Promise<PendingLibraryApprovalRow[]> {
+  const pending = await prisma.pendingLibraryApproval.findMany({
+    where: { organizationId: orgId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+  });
+
+  return pending.map((entry) => ({
+    id: entry.id,
+    approvedAnswerId: entry.approvedAnswerId,
+    questionText: entry.questionText,
+    aliases: entry.aliases,
+    answerText: entry.answerText,
+    citationChunkIds: entry.citationChunkIds,
+    note: entry.note,
+    evidenceCollectionId: entry.evidenceCollectionId,
+    signedBy: {
+      userId: entry.signedByUserId,
+      email: entry.signedByEmail,
+      signedAt: entry.createdAt.toISOString()
+    }
+  }));
+}
@@ -1,14 +1,19 @@
 import { prisma } from "@/lib/prisma";
+import type { ApprovalSigner } from "@/server/approvedAnswers/approvalSignOff";
 import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
 
 export type ApprovalTraceResult = {
   hasApprovedAnswer: boolean;
+  /** First sign-off still waiting for a second reviewer under the two-person policy. */
+  pendingSignOff: ApprovalSigner | null;
   trace: null | {
     approvedAt: string;
     freshness: "FRESH" | "STALE";
     snapshottedCitationsCount: number;
     reusedFromApprovedAnswer: boolean;
     suggestionAssisted: boolean;
+    /** One entry per sign-off, first signer first; empty for approvals recorded before signers were tracked. */
+    signers: ApprovalSigner[];
   };
 };
 
@@ -33,6 +38,19 @@ export async function getApprovalTraceForItem(
       approvedAnswer: {
         select: {
           id: true,
+          createdAt: true,
+          approvedBy: true,
+          approvedByUserId: true,
+          approvedAt: true,
+          secondApprovedBy: true,
+          secondApprovedByUserId: true,
+          secondApprovedAt: true
+        }
+      },
+      pendingApproval: {
+        select: {
+          signedByUserId: true,
+          signedByEmail: true,
           createdAt: true
         }
       }
@@ -43,13 +61,39 @@ export async function getApprovalTraceForItem(
     return null;
   }
 
+  const pendingSignOff: ApprovalSigner | null = question.pendingApproval
+    ? {
+        userId: question.pendingApproval.signedByUserId,
+        email: question.pendingApproval.signedByEmail,
+        signedAt: question.pendingApproval.createdAt.toISOString()
+      }
+    : null;
+
   if (!question.approvedAnswer) {
     return {
       hasApprovedAnswer: false,
+      pendingSignOff,
       trace: null
     };
   }
 
+  const approvedAnswer = question.approvedAnswer;
+  const signers: ApprovalSigner[] = [];
+  if (approvedAnswer.approvedByUserId) {
+    signers.push({
+      userId: approvedAnswer.approvedByUserId,
+      email: approvedAnswer.approvedBy,
+      signedAt: (approvedAnswer.approvedAt ?? approvedAnswer.createdAt).toISOString()
+    });
+  }
+  if (approvedAnswer.secondApprovedByUserId) {
+    signers.push({
+      userId: approvedAnswer.secondApprovedByUserId,
+      email: approvedAnswer.secondApprovedBy,
+      signedAt: (approvedAnswer.secondApprovedAt ?? approvedAnswer.createdAt).toISOString()
+    });
+  }
+
   const [isStale, snapshottedCitationsCount] = await Promise.all([
     isApprovedAnswerStale(question.approvedAnswer.id, {
       orgId: ctx.orgId
@@ -63,12 +107,14 @@ export async function getApprovalTraceForItem(
 
   return {
     hasApprovedAnswer: true,
+    pendingSignOff,
     trace: {
       approvedAt: question.approvedAnswer.createdAt.toISOString(),
       freshness: isStale ? "STALE" : "FRESH",
       snapshottedCitationsCount,
       reusedFromApprovedAnswer: Boolean(question.reusedFromApprovedAnswerId),
-      suggestionAssisted: question.draftSuggestionApplied
+      suggestionAssisted: question.draftSuggestionApplied,
+      signers
     }
   };
 }
@@ -1,8 +1,24 @@
 import { prisma } from "@/lib/prisma";
 import { getApprovedAnswerStalenessDetails } from "@/server/approvedAnswers/staleness";
+import type { EvidenceScopeRef } from "@/server/evidenceCollections/evidenceCollections";
+
+export type ApprovedAnswerAliasRow = {
+  id: string;
+  questionText: string;
+};
+
+export type ApprovedAnswerLinkedQuestion = {
+  questionId: string;
+  questionText: string;
+  questionnaireId: string;
+  questionnaireName: string;
+  matchType: "EXACT" | "SEMANTIC";
+  linkedAt: string;
+};
 
 export type ApprovedAnswerLibraryDetail = {
   approvedAnswerId: string;
+  questionText: string;
   answerText: string;
   approvedAt: string;
   freshness: "FRESH" | "STALE";
@@ -13,9 +29,16 @@ export type ApprovedAnswerLibraryDetail = {
     affectedCitationsCount: number;
     changedCount: number;
     missingCount: number;
+    expiredCount: number;
   };
   sourceQuestionnaireId: string | null;
   sourceItemId: string | null;
+  /** Evidence scope the answer was approved under; null when approved org-wide. */
+  evidenceCollection: EvidenceScopeRef | null;
+  /** Phrasings beyond the primary question that reuse this answer. */
+  aliases: ApprovedAnswerAliasRow[];
+  /** Questionnaire rows that were filled from this answer, newest first. */
+  linkedQuestions: ApprovedAnswerLinkedQuestion[];
 };
 
 export async function getApprovedAnswerLibraryDetail(
@@ -31,15 +54,47 @@ export async function getApprovedAnswerLibraryDetail(
     },
     select: {
       id: true,
+      questionText: true,
       answerText: true,
       createdAt: true,
+      evidenceCollection: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
       question: {
         select: {
           id: true,
+          text: true,
           questionnaireId: true,
           draftSuggestionApplied: true,
           reusedFromApprovedAnswerId: true
         }
+      },
+      aliases: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          questionText: true
+        }
+      },
+      reuses: {
+        orderBy: { createdAt: "desc" },
+        select: {
+          matchType: true,
+          createdAt: true,
+          question: {
+            select: {
+              id: true,
+              text: true,
+              questionnaireId: true,
+              questionnaire: {
+                select: { name: true }
+              }
+            }
+          }
+        }
       }
     }
   });
@@ -59,20 +114,32 @@ export async function getApprovedAnswerLibraryDetail(
 
   return {
     approvedAnswerId: approvedAnswer.id,
+    questionText: approvedAnswer.questionText || approvedAnswer.question?.text || "",
     answerText: approvedAnswer.answerText,
     approvedAt: approvedAnswer.createdAt.toISOString(),
     freshness: staleness.isStale ? "STALE" : "FRESH",
     snapshottedCitationsCount,
-    reused: Boolean(approvedAnswer.question.reusedFromApprovedAnswerId),
-    suggestionAssisted: approvedAnswer.question.draftSuggestionApplied,
+    reused: Boolean(approvedAnswer.question?.reusedFromApprovedAnswerId),
+    suggestionAssisted: approvedAnswer.question?.draftSuggestionApplied ?? false,
     staleReasonSummary: staleness.details
       ? {
           affectedCitationsCount: staleness.details.affectedCitationsCount,
           changedCount: staleness.details.changedCount,
-          missingCount: staleness.details.missingCount
+          missingCount: staleness.details.missingCount,
+          expiredCount: staleness.details.expiredCount
         }
       : null,
-    sourceQuestionnaireId: approvedAnswer.question.questionnaireId,
-    sourceItemId: approvedAnswer.question.id
+    sourceQuestionnaireId: approvedAnswer.question?.questionnaireId ?? null,
+    sourceItemId: approvedAnswer.question?.id ?? null,
+    evidenceCollection: approvedAnswer.evidenceCollection,
+    aliases: approvedAnswer.aliases,
+    linkedQuestions: approvedAnswer.reuses.map((reuse) => ({
+      questionId: reuse.question.id,
+      questionText: reuse.question.text,
+      questionnaireId: reuse.question.questionnaireId,
+      questionnaireName: reuse.question.questionnaire.name,
+      matchType: reuse.matchType,
+      linkedAt: reuse.createdAt.toISOString()
+    }))
   };
 }
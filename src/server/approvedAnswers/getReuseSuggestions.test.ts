@@ -148,11 +148,12 @@ async function attachQuestionEmbedding(approvedAnswerId: string, embedding: numb
   await prisma.$executeRawUnsafe(
     `
       UPDATE "ApprovedAnswer"
-      SET "questionEmbedding" = $1::vector(1536)
+      SET "questionEmbedding" = $1::vector, "questionEmbeddingModel" = $3
       WHERE "id" = $2
     `,
     embeddingToVectorLiteral(embedding),
-    approvedAnswerId
+    approvedAnswerId,
+    "openai:text-embedding-3-small"
   );
 }
 
@@ -164,6 +165,7 @@ async function seedApprovedAnswer(params: {
   answerText: string;
   embedding: number[];
   chunkText?: string;
+  evidenceCollectionId?: string;
 }) {
   const metadata = buildQuestionTextMetadata(params.questionText);
   const suffix = randomUUID();
@@ -227,6 +229,7 @@ async function seedApprovedAnswer(params: {
       questionTextHash: metadata.questionTextHash,
       answerText: params.answerText,
       citationChunkIds,
+      evidenceCollectionId: params.evidenceCollectionId ?? null,
       source: "GENERATED"
     }
   });
@@ -364,4 +367,55 @@ describe.sequential("getReuseSuggestionsForQuestion", () => {
 
     expect(suggestions.map((suggestion) => suggestion.approvedAnswerId)).toEqual([found.approvedAnswerId]);
   });
+
+  it("ranks only answers in the requested scope so other scopes cannot fill the limit", async () => {
+    const organization = await prisma.organization.create({
+      data: {
+        name: `${TEST_ORG_PREFIX}${randomUUID()}`
+      }
+    });
+    const collection = await prisma.evidenceCollection.create({
+      data: { organizationId: organization.id, name: "Product A" }
+    });
+    const questionnaire = await prisma.questionnaire.create({
+      data: {
+        organizationId: organization.id,
+        name: `reuse-q-${randomUUID()}`,
+        totalCount: 13
+      }
+    });
+
+    for (let rowIndex = 0; rowIndex < 12; rowIndex += 1) {
+      await seedApprovedAnswer({
+        organizationId: organization.id,
+        questionnaireId: questionnaire.id,
+        rowIndex,
+        questionText: `Is data encrypted at rest in region ${rowIndex}?`,
+        answerText: "Data is encrypted at rest.",
+        embedding: sparseEmbedding(20)
+      });
+    }
+
+    const scoped = await seedApprovedAnswer({
+      organizationId: organization.id,
+      questionnaireId: questionnaire.id,
+      rowIndex: 12,
+      questionText: "Is Product A data encrypted at rest?",
+      answerText: "Product A encrypts data at rest with AES-256.",
+      embedding: sparseEmbedding(20, 21, 0.5),
+      chunkText: "Product A encrypts customer data at rest using AES-256.",
+      evidenceCollectionId: collection.id
+    });
+
+    createEmbeddingMock.mockResolvedValue(sparseEmbedding(20));
+
+    const suggestions = await getReuseSuggestionsForQuestion({
+      orgId: organization.id,
+      questionText: "Is data encrypted at rest?",
+      evidenceCollectionId: collection.id,
+      limit: 3
+    });
+
+    expect(suggestions.map((suggestion) => suggestion.approvedAnswerId)).toEqual([scoped.approvedAnswerId]);
+  });
 });
@@ -1,7 +1,9 @@
 import { NOT_FOUND_TEXT, normalizeTemplateText } from "@/shared/answerTemplates";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
 import { createEmbedding } from "@/lib/openai";
-import { embeddingToVectorLiteral } from "@/lib/retrieval";
 import { prisma } from "@/lib/prisma";
+import { createEmbeddingsWithCache } from "@/server/embeddingCache";
+import { findSemanticPhrasingMatches } from "./libraryAnswers";
 import { isApprovedAnswerStale } from "./staleness";
 
 export type ReuseSuggestion = {
@@ -12,11 +14,6 @@ export type ReuseSuggestion = {
   isStale: false;
 };
 
-type SimilarityCandidate = {
-  id: string;
-  similarity: number;
-};
-
 type ApprovedAnswerCandidate = {
   id: string;
   answerText: string;
@@ -31,6 +28,8 @@ export async function getReuseSuggestionsForQuestion(params: {
   orgId: string;
   questionText: string;
   excludeApprovedAnswerId?: string | null;
+  /** Only answers approved under this evidence scope are suggested; null means unscoped answers. */
+  evidenceCollectionId?: string | null;
   limit?: number;
 }): Promise<ReuseSuggestion[]> {
   const questionText = params.questionText.trim();
@@ -45,22 +44,24 @@ export async function getReuseSuggestionsForQuestion(params: {
   const normalizedLimit = Math.max(1, Math.min(params.limit ?? 3, 10));
   const fallbackLimit = Math.max(normalizedLimit * 4, 12);
 
-  const questionEmbedding = await createEmbedding(questionText);
-  const rows = await prisma.$queryRawUnsafe<SimilarityCandidate[]>(
-    `
-      SELECT
-        aa."id" AS "id",
-        (1 - (aa."questionEmbedding" <=> $1::vector(1536)))::float AS "similarity"
-      FROM "ApprovedAnswer" aa
-      WHERE aa."organizationId" = $2
-        AND aa."questionEmbedding" IS NOT NULL
-      ORDER BY "similarity" DESC, aa."updatedAt" DESC
-      LIMIT $3
-    `,
-    embeddingToVectorLiteral(questionEmbedding),
-    params.orgId,
-    fallbackLimit
-  );
+  const aiProvider = await getAiProviderForOrganization(params.orgId);
+  // Suggestions are requested again for the same question as reviewers revisit it; the cache spares
+  // a provider request each time.
+  const {
+    embeddings: [questionEmbedding]
+  } = await createEmbeddingsWithCache({
+    organizationId: params.orgId,
+    embeddingModel: aiProvider.embeddingModel,
+    inputs: [questionText],
+    embed: (inputs) => Promise.all(inputs.map((input) => createEmbedding(input, aiProvider)))
+  });
+  const rows = await findSemanticPhrasingMatches({
+    organizationId: params.orgId,
+    evidenceCollectionId: params.evidenceCollectionId ?? null,
+    embedding: questionEmbedding,
+    embeddingModel: aiProvider.embeddingModel,
+    limit: fallbackLimit
+  });
 
   if (rows.length === 0) {
     return [];
@@ -72,7 +73,8 @@ export async function getReuseSuggestionsForQuestion(params: {
       id: {
         in: orderedCandidateIds
       },
-      organizationId: params.orgId
+      organizationId: params.orgId,
+      evidenceCollectionId: params.evidenceCollectionId ?? null
     },
     select: {
       id: true,
@@ -0,0 +1,197 @@
+import type { Prisma, ReuseMatchType } from "@prisma/client";
+import { getAiProviderForOrganization } from "@/lib/aiProvider";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { createEmbedding } from "@/lib/openai";
+import { prisma } from "@/lib/prisma";
+import { buildQuestionTextMetadata } from "@/lib/questionText";
+import { embeddingToVectorLiteral } from "@/lib/retrieval";
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const MAX_ALIASES_PER_ANSWER = 25;
+
+export type QuestionPhrasing = {
+  questionText: string;
+  normalizedQuestionText: string;
+  questionTextHash: string;
+  embedding: number[];
+  embeddingModel: string;
+};
+
+export type SemanticPhrasingMatch = {
+  id: string;
+  similarity: number;
+};
+
+/** Normalizes and embeds one question phrasing; call before opening a transaction. */
+export async function embedQuestionPhrasing(organizationId: string, questionText: string): Promise<QuestionPhrasing> {
+  const trimmed = questionText.trim();
+  const metadata = buildQuestionTextMetadata(trimmed);
+  if (!metadata.normalizedQuestionText) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "questionText must be non-empty."
+    });
+  }
+
+  const aiProvider = await getAiProviderForOrganization(organizationId);
+  const embedding = await createEmbedding(trimmed, aiProvider);
+
+  return {
+    questionText: trimmed,
+    ...metadata,
+    embedding,
+    embeddingModel: aiProvider.embeddingModel
+  };
+}
+
+export function parseAliasTexts(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "aliases must be an array of strings."
+    });
+  }
+
+  const aliases = Array.from(new Set((value as string[]).map((entry) => entry.trim()).filter(Boolean)));
+  if (aliases.length > MAX_ALIASES_PER_ANSWER) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: `An approved answer can have at most ${MAX_ALIASES_PER_ANSWER} aliases.`
+    });
+  }
+
+  return aliases;
+}
+
+/** Adds a phrasing to an approved answer; re-adding an existing phrasing refreshes its embedding. */
+export async function writeApprovedAnswerAlias(params: {
+  db: DbClient;
+  approvedAnswerId: string;
+  phrasing: QuestionPhrasing;
+}) {
+  const alias = await params.db.approvedAnswerAlias.upsert({
+    where: {
+      approvedAnswerId_questionTextHash: {
+        approvedAnswerId: params.approvedAnswerId,
+        questionTextHash: params.phrasing.questionTextHash
+      }
+    },
+    create: {
+      approvedAnswerId: params.approvedAnswerId,
+      questionText: params.phrasing.questionText,
+      normalizedQuestionText: params.phrasing.normalizedQuestionText,
+      questionTextHash: params.phrasing.questionTextHash,
+      questionEmbeddingModel: params.phrasing.embeddingModel
+    },
+    update: {
+      questionText: params.phrasing.questionText,
+      questionEmbeddingModel: params.phrasing.embeddingModel
+    },
+    select: {
+      id: true,
+      questionText: true
+    }
+  });
+
+  await params.db.$executeRawUnsafe(
+    `
+      UPDATE "ApprovedAnswerAlias"
+      SET "questionEmbedding" = $1::vector
+      WHERE "id" = $2
+    `,
+    embeddingToVectorLiteral(params.phrasing.embedding),
+    alias.id
+  );
+
+  return alias;
+}
+
+/**
+ * Records that a questionnaire row was filled from an approved answer. A row keeps one link per
+ * answer it has drawn from, so the library can show every question an answer served.
+ */
+export async function linkApprovedAnswerReuse(params: {
+  db?: DbClient;
+  approvedAnswerId: string;
+  questionId: string;
+  matchType: ReuseMatchType;
+}) {
+  const db = params.db ?? prisma;
+  await db.approvedAnswerReuse.upsert({
+    where: {
+      approvedAnswerId_questionId: {
+        approvedAnswerId: params.approvedAnswerId,
+        questionId: params.questionId
+      }
+    },
+    create: {
+      approvedAnswerId: params.approvedAnswerId,
+      questionId: params.questionId,
+      matchType: params.matchType
+    },
+    update: {
+      matchType: params.matchType
+    }
+  });
+}
+
+/**
+ * Nearest approved answers by question embedding, comparing against the primary phrasing and every
+ * alias and keeping each answer's best similarity. Only answers approved under `evidenceCollectionId`
+ * (null for unscoped answers) are ranked, so other scopes cannot crowd them out of the limit.
+ */
+export async function findSemanticPhrasingMatches(params: {
+  organizationId: string;
+  evidenceCollectionId: string | null;
+  embedding: number[];
+  embeddingModel: string;
+  limit: number;
+}): Promise<SemanticPhrasingMatch[]> {
+  const rows = await prisma.$queryRawUnsafe<SemanticPhrasingMatch[]>(
+    `
+      SELECT
+        phrasing."approvedAnswerId" AS "id",
+        MAX(phrasing."similarity")::float AS "similarity"
+      FROM (
+        SELECT
+          aa."id" AS "approvedAnswerId",
+          aa."updatedAt" AS "updatedAt",
+          1 - (aa."questionEmbedding" <=> $1::vector) AS "similarity"
+        FROM "ApprovedAnswer" aa
+        WHERE aa."organizationId" = $2
+          AND aa."evidenceCollectionId" IS NOT DISTINCT FROM $5
+          AND aa."questionEmbedding" IS NOT NULL
+          AND aa."questionEmbeddingModel" = $4
+        UNION ALL
+        SELECT
+          aa."id" AS "approvedAnswerId",
+          aa."updatedAt" AS "updatedAt",
+          1 - (alias."questionEmbedding" <=> $1::vector) AS "similarity"
+        FROM "ApprovedAnswerAlias" alias
+        JOIN "ApprovedAnswer" aa ON aa."id" = alias."approvedAnswerId"
+        WHERE aa."organizationId" = $2
+          AND aa."evidenceCollectionId" IS NOT DISTINCT FROM $5
+          AND alias."questionEmbedding" IS NOT NULL
+          AND alias."questionEmbeddingModel" = $4
+      ) phrasing
+      GROUP BY phrasing."approvedAnswerId", phrasing."updatedAt"
+      ORDER BY "similarity" DESC, phrasing."updatedAt" DESC
+      LIMIT $3
+    `,
+    embeddingToVectorLiteral(params.embedding),
+    params.organizationId,
+    params.limit,
+    params.embeddingModel,
+    params.evidenceCollectionId
+  );
+
+  return rows.map((row) => ({ id: row.id, similarity: Number(row.similarity) }));
+}
@@ -6,12 +6,15 @@ export type ApprovedAnswersListMode = "LIBRARY" | "PICKER";
 
 export type ApprovedAnswersLibraryRow = {
   approvedAnswerId: string;
+  questionText: string;
   answerPreview: string;
   approvedAt: string;
   freshness: "FRESH" | "STALE";
   snapshottedCitationsCount: number;
   reused: boolean;
   suggestionAssisted: boolean;
+  aliasCount: number;
+  reuseCount: number;
   sourceQuestionnaireId: string | null;
   sourceItemId: string | null;
 };
@@ -76,6 +79,12 @@ export async function listApprovedAnswersForOrg(
                   mode: "insensitive"
                 }
               },
+              {
+                questionText: {
+                  contains: query,
+                  mode: "insensitive"
+                }
+              },
               {
                 question: {
                   text: {
@@ -83,6 +92,16 @@ export async function listApprovedAnswersForOrg(
                     mode: "insensitive"
                   }
                 }
+              },
+              {
+                aliases: {
+                  some: {
+                    questionText: {
+                      contains: query,
+                      mode: "insensitive"
+                    }
+                  }
+                }
               }
             ]
           }
@@ -101,13 +120,21 @@ export async function listApprovedAnswersForOrg(
       answerText: true,
       createdAt: true,
       citationChunkIds: true,
+      questionText: true,
       question: {
         select: {
           id: true,
+          text: true,
           questionnaireId: true,
           reusedFromApprovedAnswerId: true,
           draftSuggestionApplied: true
         }
+      },
+      _count: {
+        select: {
+          aliases: true,
+          reuses: true
+        }
       }
     }
   });
@@ -154,14 +181,17 @@ export async function listApprovedAnswersForOrg(
 
     return {
       approvedAnswerId: approvedAnswer.id,
+      questionText: approvedAnswer.questionText || approvedAnswer.question?.text || "",
       answerPreview: buildAnswerPreview(approvedAnswer.answerText),
       approvedAt: approvedAnswer.createdAt.toISOString(),
       freshness: isStale ? "STALE" : "FRESH",
       snapshottedCitationsCount: snapshotCountByApprovedAnswerId.get(approvedAnswer.id) ?? 0,
-      reused: Boolean(approvedAnswer.question.reusedFromApprovedAnswerId),
-      suggestionAssisted: approvedAnswer.question.draftSuggestionApplied,
-      sourceQuestionnaireId: approvedAnswer.question.questionnaireId,
-      sourceItemId: approvedAnswer.question.id
+      reused: Boolean(approvedAnswer.question?.reusedFromApprovedAnswerId),
+      suggestionAssisted: approvedAnswer.question?.draftSuggestionApplied ?? false,
+      aliasCount: approvedAnswer._count.aliases,
+      reuseCount: approvedAnswer._count.reuses,
+      sourceQuestionnaireId: approvedAnswer.question?.questionnaireId ?? null,
+      sourceItemId: approvedAnswer.question?.id ?? null
     };
   });
 
@@ -5,7 +5,11 @@ import { createApprovedAnswerReuseMatcher } from "@/lib/approvedAnswerReuse";
 import { buildQuestionTextMetadata } from "@/lib/questionText";
 import { syncApprovedAnswerEvidenceSnapshots } from "@/server/approvedAnswers/evidenceSnapshots";
 import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
-import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
+import {
+  findApprovedAnswerStaleReasons,
+  getApprovedAnswerStalenessDetails,
+  isApprovedAnswerStale
+} from "@/server/approvedAnswers/staleness";
 
 const TEST_ORG_PREFIX = "vitest-approved-staleness-";
 
@@ -266,6 +270,86 @@ describe.sequential("approved answer evidence snapshot + staleness", () => {
     await expect(isApprovedAnswerStale(seeded.approvedAnswerId, { orgId: organization.id })).resolves.toBe(true);
   });
 
+  it("flags approvals citing an expired document with EXPIRED_DOCUMENT", async () => {
+    const organization = await prisma.organization.create({
+      data: {
+        name: `${TEST_ORG_PREFIX}${randomUUID()}`
+      }
+    });
+
+    const questionnaire = await prisma.questionnaire.create({
+      data: {
+        organizationId: organization.id,
+        name: `q-${randomUUID()}`,
+        totalCount: 1
+      }
+    });
+
+    const seeded = await seedApprovedAnswer({
+      organizationId: organization.id,
+      questionnaireId: questionnaire.id,
+      rowIndex: 0,
+      questionText: "Is your penetration test report current?",
+      answerText: "Yes, an annual third-party penetration test is performed.",
+      chunkText: "An independent firm performs an annual penetration test."
+    });
+
+    await prisma.document.updateMany({
+      where: {
+        chunks: {
+          some: {
+            id: seeded.chunkId
+          }
+        }
+      },
+      data: {
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }
+    });
+    await expect(isApprovedAnswerStale(seeded.approvedAnswerId, { orgId: organization.id })).resolves.toBe(false);
+
+    await prisma.document.updateMany({
+      where: {
+        chunks: {
+          some: {
+            id: seeded.chunkId
+          }
+        }
+      },
+      data: {
+        expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }
+    });
+
+    const staleness = await getApprovedAnswerStalenessDetails(seeded.approvedAnswerId, { orgId: organization.id });
+    expect(staleness).toEqual({
+      isStale: true,
+      details: {
+        affectedCitationsCount: 1,
+        changedCount: 0,
+        missingCount: 0,
+        expiredCount: 1,
+        reasons: [
+          {
+            chunkId: seeded.chunkId,
+            reason: "EXPIRED_DOCUMENT"
+          }
+        ]
+      }
+    });
+
+    const staleReasons = await findApprovedAnswerStaleReasons({
+      orgId: organization.id,
+      approvedAnswers: [
+        {
+          approvedAnswerId: seeded.approvedAnswerId,
+          citationChunkIds: [seeded.chunkId]
+        }
+      ]
+    });
+    expect(staleReasons.get(seeded.approvedAnswerId)).toEqual(["EXPIRED_DOCUMENT"]);
+  });
+
   it("excludes stale approvals from exact reuse candidates", async () => {
     const organization = await prisma.organization.create({
       data: {
@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/prisma";
+import { isDocumentExpired } from "@/server/documents/documentMetadata";
 
 function normalizeChunkIds(chunkIds: string[]): string[] {
   return Array.from(new Set(chunkIds.map((chunkId) => chunkId.trim()).filter((chunkId) => chunkId.length > 0)));
@@ -14,7 +15,8 @@ export type StaleQuestionnaireItem = {
   rowIndex: number | null;
 };
 
-export type ApprovedAnswerStalenessReasonCode = "FINGERPRINT_MISMATCH" | "MISSING_CHUNK";
+/** EXPIRED_DOCUMENT: the cited passage is unchanged but its document is past `expiresAt`. */
+export type ApprovedAnswerStalenessReasonCode = "FINGERPRINT_MISMATCH" | "MISSING_CHUNK" | "EXPIRED_DOCUMENT";
 
 export type ApprovedAnswerStalenessReason = {
   chunkId: string;
@@ -27,6 +29,7 @@ export type ApprovedAnswerStalenessDetails = {
     affectedCitationsCount: number;
     changedCount: number;
     missingCount: number;
+    expiredCount: number;
     reasons: ApprovedAnswerStalenessReason[];
   };
 };
@@ -41,6 +44,7 @@ function summarizeStalenessReasons(reasons: ApprovedAnswerStalenessReason[]): Ap
 
   const changedCount = reasons.filter((reason) => reason.reason === "FINGERPRINT_MISMATCH").length;
   const missingCount = reasons.filter((reason) => reason.reason === "MISSING_CHUNK").length;
+  const expiredCount = reasons.filter((reason) => reason.reason === "EXPIRED_DOCUMENT").length;
 
   return {
     isStale: true,
@@ -48,6 +52,7 @@ function summarizeStalenessReasons(reasons: ApprovedAnswerStalenessReason[]): Ap
       affectedCitationsCount: reasons.length,
       changedCount,
       missingCount,
+      expiredCount,
       reasons
     }
   };
@@ -123,18 +128,25 @@ export async function getApprovedAnswerStalenessDetails(
     },
     select: {
       id: true,
-      evidenceFingerprint: true
+      evidenceFingerprint: true,
+      document: {
+        select: {
+          expiresAt: true
+        }
+      }
     }
   });
-  const currentChunkById = new Map(currentChunks.map((chunk) => [chunk.id, chunk.evidenceFingerprint]));
+  const currentChunkById = new Map(currentChunks.map((chunk) => [chunk.id, chunk]));
+  const now = new Date();
 
   for (const chunkId of citationChunkIds) {
     if (reasonsByChunkId.has(chunkId)) {
       continue;
     }
 
-    const currentFingerprint = currentChunkById.get(chunkId);
-    if (!currentFingerprint) {
+    const currentChunk = currentChunkById.get(chunkId);
+    const currentFingerprint = currentChunk?.evidenceFingerprint;
+    if (!currentChunk || !currentFingerprint) {
       reasonsByChunkId.set(chunkId, {
         chunkId,
         reason: "MISSING_CHUNK"
@@ -148,6 +160,14 @@ export async function getApprovedAnswerStalenessDetails(
         chunkId,
         reason: "FINGERPRINT_MISMATCH"
       });
+      continue;
+    }
+
+    if (isDocumentExpired(currentChunk.document, now)) {
+      reasonsByChunkId.set(chunkId, {
+        chunkId,
+        reason: "EXPIRED_DOCUMENT"
+      });
     }
   }
 
@@ -178,12 +198,17 @@ export async function isApprovedAnswerStale(
   return staleness.isStale;
 }
 
-export async function findStaleApprovedAnswerIds(params: {
+/**
+ * Batch staleness check returning the distinct reason codes of every stale approved answer.
+ * Answers that are still fresh are absent from the map.
+ */
+export async function findApprovedAnswerStaleReasons(params: {
   orgId: string;
   approvedAnswers: ApprovedAnswerStalenessCandidate[];
-}): Promise<Set<string>> {
+  now?: Date;
+}): Promise<Map<string, ApprovedAnswerStalenessReasonCode[]>> {
   if (params.approvedAnswers.length === 0) {
-    return new Set();
+    return new Map();
   }
 
   const approvedAnswers = params.approvedAnswers.map((entry) => ({
@@ -229,13 +254,19 @@ export async function findStaleApprovedAnswerIds(params: {
           },
           select: {
             id: true,
-            evidenceFingerprint: true
+            evidenceFingerprint: true,
+            document: {
+              select: {
+                expiresAt: true
+              }
+            }
           }
         })
       : [];
-  const currentChunkById = new Map(currentChunks.map((chunk) => [chunk.id, chunk.evidenceFingerprint]));
+  const currentChunkById = new Map(currentChunks.map((chunk) => [chunk.id, chunk]));
+  const now = params.now ?? new Date();
 
-  const staleApprovedAnswerIds = new Set<string>();
+  const staleReasonsByApprovedAnswerId = new Map<string, ApprovedAnswerStalenessReasonCode[]>();
 
   for (const approvedAnswer of approvedAnswers) {
     const citationChunkIds = approvedAnswer.citationChunkIds;
@@ -245,7 +276,7 @@ export async function findStaleApprovedAnswerIds(params: {
 
     const snapshotsForAnswer = snapshotsByApprovedAnswerId.get(approvedAnswer.approvedAnswerId) ?? [];
     if (snapshotsForAnswer.length !== citationChunkIds.length) {
-      staleApprovedAnswerIds.add(approvedAnswer.approvedAnswerId);
+      staleReasonsByApprovedAnswerId.set(approvedAnswer.approvedAnswerId, ["MISSING_CHUNK"]);
       continue;
     }
 
@@ -256,25 +287,36 @@ export async function findStaleApprovedAnswerIds(params: {
       (chunkId) => !snapshotFingerprintByChunkId.has(chunkId)
     );
     if (hasMissingSnapshotChunk) {
-      staleApprovedAnswerIds.add(approvedAnswer.approvedAnswerId);
+      staleReasonsByApprovedAnswerId.set(approvedAnswer.approvedAnswerId, ["MISSING_CHUNK"]);
       continue;
     }
 
-    let isStale = false;
+    const reasons = new Set<ApprovedAnswerStalenessReasonCode>();
     for (const snapshot of snapshotsForAnswer) {
-      const currentFingerprint = currentChunkById.get(snapshot.chunkId);
-      if (!currentFingerprint || currentFingerprint !== snapshot.fingerprintAtApproval) {
-        isStale = true;
-        break;
+      const currentChunk = currentChunkById.get(snapshot.chunkId);
+      if (!currentChunk || !currentChunk.evidenceFingerprint) {
+        reasons.add("MISSING_CHUNK");
+      } else if (currentChunk.evidenceFingerprint !== snapshot.fingerprintAtApproval) {
+        reasons.add("FINGERPRINT_MISMATCH");
+      } else if (isDocumentExpired(currentChunk.document, now)) {
+        reasons.add("EXPIRED_DOCUMENT");
       }
     }
 
-    if (isStale) {
-      staleApprovedAnswerIds.add(approvedAnswer.approvedAnswerId);
+    if (reasons.size > 0) {
+      staleReasonsByApprovedAnswerId.set(approvedAnswer.approvedAnswerId, Array.from(reasons));
     }
   }
 
-  return staleApprovedAnswerIds;
+  return staleReasonsByApprovedAnswerId;
+}
+
+export async function findStaleApprovedAnswerIds(params: {
+  orgId: string;
+  approvedAnswers: ApprovedAnswerStalenessCandidate[];
+}): Promise<Set<string>> {
+  const staleReasons = await findApprovedAnswerStaleReasons(params);
+  return new Set(staleReasons.keys());
 }
 
 export async function findStaleApprovedItemsForQuestionnaire(params: {
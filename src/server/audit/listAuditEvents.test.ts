@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildAuditEventsCsv, parseAuditEventFilters } from "@/server/audit/listAuditEvents";
+import { readRequestMetadata, truncateAuditText } from "@/server/audit/recordAuditEvent";
+
+describe("audit log helpers", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("parses filters and makes date-only upper bounds inclusive", () => {
+    const filters = parseAuditEventFilters(
+      new URLSearchParams("action=delete_documents&actor=user-1&targetType=document&from=2026-03-01&to=2026-03-02")
+    );
+
+    expect(filters).toEqual({
+      action: "DELETE_DOCUMENTS",
+      actorUserId: "user-1",
+      targetType: "DOCUMENT",
+      from: new Date("2026-03-01T00:00:00.000Z"),
+      to: new Date("2026-03-02T23:59:59.999Z")
+    });
+    expect(parseAuditEventFilters(new URLSearchParams())).toEqual({
+      action: null,
+      actorUserId: null,
+      targetType: null,
+      from: null,
+      to: null
+    });
+  });
+
+  it("rejects unknown actions, target types and dates", () => {
+    expect(() => parseAuditEventFilters(new URLSearchParams("action=DROP_TABLES"))).toThrow(/Unknown audit action/);
+    expect(() => parseAuditEventFilters(new URLSearchParams("targetType=PLANET"))).toThrow(/Unknown audit target type/);
+    expect(() => parseAuditEventFilters(new URLSearchParams("from=yesterday"))).toThrow(/from must be a date/);
+  });
+
+  it("exports events as CSV with JSON snapshots", () => {
+    const csv = buildAuditEventsCsv([
+      {
+        id: "evt-1",
+        createdAt: "2026-03-01T10:00:00.000Z",
+        actorUserId: "user-1",
+        actorEmail: "owner@example.com",
+        action: "UPDATE_MEMBER_ROLE",
+        targetType: "MEMBER",
+        targetId: "user-2",
+        targetLabel: "viewer@example.com",
+        summary: 'Changed "viewer" role.',
+        before: { role: "VIEWER" },
+        after: { role: "REVIEWER" },
+        ipAddress: null,
+        userAgent: null
+      }
+    ]);
+
+    const [header, row] = csv.split("\n");
+    expect(header).toContain('"Timestamp","Actor","Actor ID","Action"');
+    expect(row).toContain('"Changed ""viewer"" role."');
+    expect(row).toContain('"{""role"":""VIEWER""}","{""role"":""REVIEWER""}"');
+  });
+
+  it("reads request metadata and truncates long snapshot text", () => {
+    const request = new Request("http://localhost", {
+      headers: { "x-forwarded-for": "198.51.100.4, 10.0.0.2", "user-agent": "curl/8.0" }
+    });
+
+    expect(readRequestMetadata(request)).toEqual({ ipAddress: null, userAgent: "curl/8.0" });
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1");
+    expect(readRequestMetadata(request)).toEqual({ ipAddress: "10.0.0.2", userAgent: "curl/8.0" });
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(readRequestMetadata(request)).toEqual({ ipAddress: "198.51.100.4", userAgent: "curl/8.0" });
+    expect(readRequestMetadata(null)).toEqual({ ipAddress: null, userAgent: null });
+    expect(truncateAuditText("  spaced   out  ")).toBe("spaced out");
+    expect(truncateAuditText("x".repeat(400))).toHaveLength(280);
+    expect(truncateAuditText("")).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { AuditTargetType, type AuditEvent, type Prisma } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { escapeCsvValue } from "@/lib/export";
+import { prisma } from "@/lib/prisma";
+import { RbacAction } from "@/server/rbac";
+
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+export type AuditEventFilters = {
+  action: RbacAction | null;
+  actorUserId: string | null;
+  targetType: AuditTargetType | null;
+  from: Date | null;
+  to: Date | null;
+};
+
+export type AuditEventRow = {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  targetLabel: string | null;
+  summary: string;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+export type AuditEventsPage = {
+  events: AuditEventRow[];
+  nextCursor: string | null;
+};
+
+const AUDIT_CSV_HEADERS = [
+  "Timestamp",
+  "Actor",
+  "Actor ID",
+  "Action",
+  "Target type",
+  "Target ID",
+  "Target",
+  "Summary",
+  "Before",
+  "After",
+  "IP address",
+  "User agent"
+];
+
+function parseDateParam(value: string | null, label: string, endOfDay: boolean): Date | null {
+  const normalized = value?.trim();
+  if (!normalized) {
+    return null;
+  }
+
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(normalized)
+    ? new Date(`${normalized}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`)
+    : new Date(normalized);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: `${label} must be a date (YYYY-MM-DD) or ISO timestamp.`
+    });
+  }
+
+  return parsed;
+}
+
+/** Reads `action`, `actor`, `targetType`, `from` and `to` query parameters; date-only `to` values are inclusive. */
+export function parseAuditEventFilters(searchParams: URLSearchParams): AuditEventFilters {
+  const action = searchParams.get("action")?.trim().toUpperCase() ?? "";
+  const targetType = searchParams.get("targetType")?.trim().toUpperCase() ?? "";
+  const actions = Object.values(RbacAction) as string[];
+  const targetTypes = Object.values(AuditTargetType) as string[];
+
+  if (action && !actions.includes(action)) {
+    throw new ApiRouteError({ status: 400, code: "VALIDATION_ERROR", message: `Unknown audit action "${action}".` });
+  }
+
+  if (targetType && !targetTypes.includes(targetType)) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: `Unknown audit target type "${targetType}".`
+    });
+  }
+
+  return {
+    action: action ? (action as RbacAction) : null,
+    actorUserId: searchParams.get("actor")?.trim() || null,
+    targetType: targetType ? (targetType as AuditTargetType) : null,
+    from: parseDateParam(searchParams.get("from"), "from", false),
+    to: parseDateParam(searchParams.get("to"), "to", true)
+  };
+}
+
+function toWhere(orgId: string, filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+  return {
+    organizationId: orgId,
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.actorUserId ? { actorUserId: filters.actorUserId } : {}),
+    ...(filters.targetType ? { targetType: filters.targetType } : {}),
+    ...(filters.from || filters.to
+      ? {
+          createdAt: {
+            ...(filters.from ? { gte: filters.from } : {}),
+            ...(filters.to ? { lte: filters.to } : {})
+          }
+        }
+      : {})
+  };
+}
+
+function toAuditEventRow(event: AuditEvent): AuditEventRow {
+  return {
+    id: event.id,
+    createdAt: event.createdAt.toISOString(),
+    actorUserId: event.actorUserId,
+    actorEmail: event.actorEmail,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    targetLabel: event.targetLabel,
+    summary: event.summary,
+    before: event.before,
+    after: event.after,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent
+  };
+}
+
+/** Newest first, paged by event id cursor. */
+export async function listAuditEventsForOrg(
+  ctx: { orgId: string },
+  params: { filters: AuditEventFilters; cursor?: string | null; limit?: number }
+): Promise<AuditEventsPage> {
+  const limit = Math.max(1, Math.min(params.limit ?? 50, MAX_AUDIT_EXPORT_ROWS));
+  const events = await prisma.auditEvent.findMany({
+    where: toWhere(ctx.orgId, params.filters),
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(params.cursor ? { cursor: { id: params.cursor }, skip: 1 } : {})
+  });
+
+  const page = events.slice(0, limit);
+  return {
+    events: page.map(toAuditEventRow),
+    nextCursor: events.length > limit ? (page[page.length - 1]?.id ?? null) : null
+  };
+}
+
+export async function listAuditActorsForOrg(ctx: { orgId: string }): Promise<Array<{ userId: string; email: string | null }>> {
+  const actors = await prisma.auditEvent.findMany({
+    where: {
+      organizationId: ctx.orgId,
+      actorUserId: { not: null }
+    },
+    distinct: ["actorUserId"],
+    orderBy: [{ actorUserId: "asc" }, { createdAt: "desc" }],
+    select: {
+      actorUserId: true,
+      actorEmail: true
+    }
+  });
+
+  return actors
+    .filter((actor): actor is { actorUserId: string; actorEmail: string | null } => Boolean(actor.actorUserId))
+    .map((actor) => ({ userId: actor.actorUserId, email: actor.actorEmail }));
+}
+
+function formatSnapshot(value: Prisma.JsonValue): string {
+  return value === null ? "" : JSON.stringify(value);
+}
+
+export function buildAuditEventsCsv(events: AuditEventRow[]): string {
+  const lines = [AUDIT_CSV_HEADERS.map((header) => escapeCsvValue(header)).join(",")];
+
+  for (const event of events) {
+    lines.push(
+      [
+        event.createdAt,
+        event.actorEmail ?? "",
+        event.actorUserId ?? "",
+        event.action,
+        event.targetType,
+        event.targetId ?? "",
+        event.targetLabel ?? "",
+        event.summary,
+        formatSnapshot(event.before),
+        formatSnapshot(event.after),
+        event.ipAddress ?? "",
+        event.userAgent ?? ""
+      ]
+        .map((value) => escapeCsvValue(value))
+        .join(",")
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,102 @@
+import type { AuditTargetType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { RequestContext } from "@/lib/requestContext";
+import type { RbacAction } from "@/server/rbac";
+
+type AuditDb = Prisma.TransactionClient | typeof prisma;
+
+export type AuditSnapshot = Record<string, string | number | boolean | null | string[]>;
+
+const MAX_USER_AGENT_LENGTH = 512;
+const MAX_SNAPSHOT_TEXT_LENGTH = 280;
+
+/** Keeps long free text (answers, notes) readable in before/after snapshots without copying it wholesale. */
+export function truncateAuditText(value: string | null | undefined): string | null {
+  const normalized = (value ?? "").trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    return null;
+  }
+
+  return normalized.length <= MAX_SNAPSHOT_TEXT_LENGTH
+    ? normalized
+    : `${normalized.slice(0, MAX_SNAPSHOT_TEXT_LENGTH - 3).trimEnd()}...`;
+}
+
+function readTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Forwarding headers are set by whoever sends the request, so the client address is only read when
+ * TRUSTED_PROXY_HOPS says how many proxies in front of the app append to X-Forwarded-For. The
+ * address is the entry the outermost trusted proxy appended; anything left of it is client-supplied.
+ */
+function readClientAddress(headers: Headers): string | null {
+  const hops = readTrustedProxyHops();
+  if (hops === 0) {
+    return null;
+  }
+
+  const forwardedFor = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - hops)];
+  }
+
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+export function readRequestMetadata(request?: Request | null): { ipAddress: string | null; userAgent: string | null } {
+  if (!request) {
+    return { ipAddress: null, userAgent: null };
+  }
+
+  const ipAddress = readClientAddress(request.headers);
+  const userAgent = request.headers.get("user-agent")?.trim().slice(0, MAX_USER_AGENT_LENGTH) || null;
+
+  return { ipAddress, userAgent };
+}
+
+/**
+ * Appends one entry to the organization audit log. Pass the transaction client when the change
+ * itself runs in a transaction so the entry commits (or rolls back) with it.
+ */
+export async function recordAuditEvent(params: {
+  db?: AuditDb;
+  ctx: Pick<RequestContext, "userId" | "orgId">;
+  request?: Request | null;
+  action: RbacAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  summary: string;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}) {
+  const db = params.db ?? prisma;
+  const actor = await db.user.findUnique({
+    where: { id: params.ctx.userId },
+    select: { email: true }
+  });
+  const metadata = readRequestMetadata(params.request);
+
+  await db.auditEvent.create({
+    data: {
+      organizationId: params.ctx.orgId,
+      actorUserId: params.ctx.userId,
+      actorEmail: actor?.email ?? null,
+      action: params.action,
+      targetType: params.targetType,
+      targetId: params.targetId ?? null,
+      targetLabel: params.targetLabel ?? null,
+      summary: params.summary,
+      before: params.before ?? undefined,
+      after: params.after ?? undefined,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    }
+  });
+}
@@ -0,0 +1,53 @@
+import type { AutofillJob } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { findLatestAutofillJob } from "@/server/autofillJobs/getAutofillJob";
+
+/**
+ * Queued jobs are canceled immediately. Running jobs are flagged and stop before their next
+ * question, so the question in flight still finishes and keeps its answer.
+ */
+export async function cancelAutofillJob(params: { orgId: string; questionnaireId: string }): Promise<AutofillJob> {
+  const job = await findLatestAutofillJob(params);
+
+  if (!job) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "No autofill job found for this questionnaire."
+    });
+  }
+
+  if (job.status === "QUEUED") {
+    const canceled = await prisma.autofillJob.updateMany({
+      where: { id: job.id, status: "QUEUED" },
+      data: {
+        status: "CANCELED",
+        cancelRequestedAt: new Date(),
+        finishedAt: new Date()
+      }
+    });
+
+    if (canceled.count > 0) {
+      return prisma.autofillJob.findUniqueOrThrow({ where: { id: job.id } });
+    }
+  }
+
+  const flagged = await prisma.autofillJob.updateMany({
+    where: { id: job.id, status: "RUNNING" },
+    data: {
+      cancelRequestedAt: new Date()
+    }
+  });
+
+  if (flagged.count === 0) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: "Only queued or running autofill jobs can be canceled.",
+      details: { jobId: job.id }
+    });
+  }
+
+  return prisma.autofillJob.findUniqueOrThrow({ where: { id: job.id } });
+}
@@ -0,0 +1,82 @@
+import { Prisma, type AutofillJob } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { ACTIVE_AUTOFILL_JOB_STATUSES } from "@/server/autofillJobs/getAutofillJob";
+
+function findActiveAutofillJob(questionnaireId: string) {
+  return prisma.autofillJob.findFirst({
+    where: {
+      questionnaireId,
+      status: { in: ACTIVE_AUTOFILL_JOB_STATUSES }
+    },
+    select: { id: true }
+  });
+}
+
+export function activeJobConflict(jobId: string | null): ApiRouteError {
+  return new ApiRouteError({
+    status: 409,
+    code: "CONFLICT",
+    message: "An autofill job is already queued or running for this questionnaire.",
+    details: { jobId }
+  });
+}
+
+export async function enqueueAutofillJob(params: {
+  orgId: string;
+  questionnaireId: string;
+  createdByUserId?: string | null;
+  debug?: boolean;
+}): Promise<AutofillJob> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      questions: {
+        orderBy: { rowIndex: "asc" },
+        select: { id: true, rowIndex: true }
+      }
+    }
+  });
+
+  if (!questionnaire) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Questionnaire not found."
+    });
+  }
+
+  const activeJob = await findActiveAutofillJob(questionnaire.id);
+  if (activeJob) {
+    throw activeJobConflict(activeJob.id);
+  }
+
+  try {
+    return await prisma.autofillJob.create({
+      data: {
+        organizationId: params.orgId,
+        questionnaireId: questionnaire.id,
+        createdByUserId: params.createdByUserId ?? null,
+        debug: params.debug ?? false,
+        totalCount: questionnaire.questions.length,
+        items: {
+          create: questionnaire.questions.map((question) => ({
+            questionId: question.id,
+            rowIndex: question.rowIndex
+          }))
+        }
+      }
+    });
+  } catch (error) {
+    // A concurrent request queued a job between the check and the insert; the partial unique index
+    // on active jobs rejects the second one.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw activeJobConflict((await findActiveAutofillJob(questionnaire.id))?.id ?? null);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import type { AutofillJob, AutofillJobStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const ACTIVE_AUTOFILL_JOB_STATUSES: AutofillJobStatus[] = ["QUEUED", "RUNNING"];
+export const RESUMABLE_AUTOFILL_JOB_STATUSES: AutofillJobStatus[] = ["FAILED", "CANCELED"];
+
+export type AutofillJobPayload = {
+  id: string;
+  questionnaireId: string;
+  status: AutofillJobStatus;
+  totalCount: number;
+  processedCount: number;
+  failedCount: number;
+  retryCount: number;
+  lastError: string | null;
+  cancelRequested: boolean;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  updatedAt: Date;
+};
+
+export function toAutofillJobPayload(job: AutofillJob): AutofillJobPayload {
+  return {
+    id: job.id,
+    questionnaireId: job.questionnaireId,
+    status: job.status,
+    totalCount: job.totalCount,
+    processedCount: job.processedCount,
+    failedCount: job.failedCount,
+    retryCount: job.retryCount,
+    lastError: job.lastError,
+    cancelRequested: job.cancelRequestedAt !== null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    updatedAt: job.updatedAt
+  };
+}
+
+export async function findLatestAutofillJob(params: {
+  orgId: string;
+  questionnaireId: string;
+}): Promise<AutofillJob | null> {
+  return prisma.autofillJob.findFirst({
+    where: {
+      organizationId: params.orgId,
+      questionnaireId: params.questionnaireId
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }]
+  });
+}
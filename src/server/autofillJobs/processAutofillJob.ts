@@ -0,0 +1,330 @@
+import { randomUUID } from "node:crypto";
+import type { AutofillJobItem, AutofillJobStatus, Prisma, Question } from "@prisma/client";
+import { getAiProviderForOrganization, type AiProvider } from "@/lib/aiProvider";
+import { createApprovedAnswerReuseMatcher, type ApprovedAnswerReuseMatcher } from "@/lib/approvedAnswerReuse";
+import { prisma } from "@/lib/prisma";
+import {
+  autofillQuestion,
+  buildAutofillResult,
+  type AutofillDebugEntry,
+  type AutofillResult,
+  type AutofillReusedEntry
+} from "@/lib/questionnaireService";
+import { startWebhookDeliveriesInBackground } from "@/server/webhooks/deliverWebhooks";
+import { enqueueWebhookEvent, questionnaireWebhookRef, WebhookEventType } from "@/server/webhooks/webhookEvents";
+
+export const AUTOFILL_JOB_LEASE_MS = 2 * 60 * 1000;
+export const MAX_AUTOFILL_ITEM_ATTEMPTS = 3;
+
+type ReuseMatchType = AutofillReusedEntry["matchType"];
+
+function toErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message.trim().slice(0, 500);
+  }
+
+  return fallback;
+}
+
+function toReuseMatchType(value: string | null): ReuseMatchType {
+  return value === "near_exact" || value === "semantic" ? value : "exact";
+}
+
+function nextLeaseExpiry(): Date {
+  return new Date(Date.now() + AUTOFILL_JOB_LEASE_MS);
+}
+
+type AutofillJobLease = { jobId: string; leaseToken: string };
+
+/** Returns the lease for this run, or null when another worker holds the job. */
+async function claimAutofillJob(jobId: string): Promise<AutofillJobLease | null> {
+  const now = new Date();
+  const leaseToken = randomUUID();
+  // A RUNNING job whose lease lapsed belongs to a worker that died or stalled; the next claimant
+  // resumes it under a new token, which shuts the previous worker out of further writes.
+  const claimed = await prisma.autofillJob.updateMany({
+    where: {
+      id: jobId,
+      OR: [{ status: "QUEUED" }, { status: "RUNNING", leaseExpiresAt: { lt: now } }]
+    },
+    data: {
+      status: "RUNNING",
+      leaseToken,
+      leaseExpiresAt: nextLeaseExpiry()
+    }
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  await prisma.autofillJob.updateMany({
+    where: { id: jobId, startedAt: null },
+    data: { startedAt: now }
+  });
+
+  return { jobId, leaseToken };
+}
+
+/**
+ * Writes an item result and renews the lease in one transaction, provided this worker still holds
+ * the lease. Returns false when the job was re-claimed, in which case nothing is written.
+ */
+async function recordItemProgress(params: {
+  lease: AutofillJobLease;
+  itemId: string;
+  item: Prisma.AutofillJobItemUpdateInput;
+  job?: Prisma.AutofillJobUpdateManyMutationInput;
+}): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const renewed = await tx.autofillJob.updateMany({
+      where: { id: params.lease.jobId, leaseToken: params.lease.leaseToken },
+      data: { ...params.job, leaseExpiresAt: nextLeaseExpiry() }
+    });
+
+    if (renewed.count === 0) {
+      return false;
+    }
+
+    await tx.autofillJobItem.update({ where: { id: params.itemId }, data: params.item });
+    return true;
+  });
+}
+
+async function finishAutofillJob(lease: AutofillJobLease, status: AutofillJobStatus, lastError: string | null) {
+  const finished = await prisma.autofillJob.updateMany({
+    where: { id: lease.jobId, leaseToken: lease.leaseToken },
+    data: {
+      status,
+      lastError,
+      leaseToken: null,
+      leaseExpiresAt: null,
+      finishedAt: new Date()
+    }
+  });
+
+  // The job was re-claimed by another worker, which now owns finishing it.
+  if (finished.count === 0) {
+    return;
+  }
+
+  const job = await prisma.autofillJob.findUniqueOrThrow({
+    where: { id: lease.jobId },
+    include: {
+      questionnaire: { select: { id: true, name: true } }
+    }
+  });
+
+  // Canceled jobs were stopped by a person, so only finished runs notify.
+  if (status !== "SUCCEEDED" && status !== "FAILED") {
+    return;
+  }
+
+  await enqueueWebhookEvent({
+    organizationId: job.organizationId,
+    type: WebhookEventType.AUTOFILL_COMPLETED,
+    data: {
+      questionnaire: questionnaireWebhookRef(job.questionnaire),
+      job: {
+        id: job.id,
+        status,
+        totalCount: job.totalCount,
+        processedCount: job.processedCount,
+        failedCount: job.failedCount,
+        lastError
+      }
+    }
+  });
+  startWebhookDeliveriesInBackground(job.organizationId);
+}
+
+/** Marks an item whose worker lost the job's lease mid-run; the new lease holder redoes it. */
+const LEASE_LOST = Symbol("LEASE_LOST");
+
+async function processAutofillJobItem(params: {
+  lease: AutofillJobLease;
+  organizationId: string;
+  questionnaireId: string;
+  evidenceCollectionId: string | null;
+  item: AutofillJobItem & { question: Question };
+  reuseMatcher: ApprovedAnswerReuseMatcher;
+  aiProvider: AiProvider;
+  debug: boolean;
+}): Promise<AutofillDebugEntry | null | typeof LEASE_LOST> {
+  let attempts = params.item.attempts;
+
+  while (true) {
+    attempts += 1;
+
+    try {
+      const outcome = await autofillQuestion({
+        organizationId: params.organizationId,
+        questionnaireId: params.questionnaireId,
+        evidenceCollectionId: params.evidenceCollectionId,
+        question: params.item.question,
+        reuseMatcher: params.reuseMatcher,
+        aiProvider: params.aiProvider,
+        debug: params.debug
+      });
+
+      const recorded = await recordItemProgress({
+        lease: params.lease,
+        itemId: params.item.id,
+        item: {
+          status: "SUCCEEDED",
+          attempts,
+          lastError: null,
+          reusedFromApprovedAnswerId: outcome.reusedEntry?.reusedFromApprovedAnswerId ?? null,
+          reuseMatchType: outcome.reusedEntry?.matchType ?? null,
+          completedAt: new Date()
+        },
+        job: { processedCount: { increment: 1 } }
+      });
+
+      return recorded ? outcome.debugEntry : LEASE_LOST;
+    } catch (error) {
+      const lastError = toErrorMessage(error, "Autofill failed for this question.");
+      if (attempts < MAX_AUTOFILL_ITEM_ATTEMPTS) {
+        if (!(await recordItemProgress({ lease: params.lease, itemId: params.item.id, item: { attempts, lastError } }))) {
+          return LEASE_LOST;
+        }
+        continue;
+      }
+
+      console.error("Autofill job item failed", {
+        jobId: params.lease.jobId,
+        questionId: params.item.questionId,
+        error
+      });
+      const recorded = await recordItemProgress({
+        lease: params.lease,
+        itemId: params.item.id,
+        item: {
+          status: "FAILED",
+          attempts,
+          lastError,
+          completedAt: new Date()
+        },
+        job: {
+          processedCount: { increment: 1 },
+          failedCount: { increment: 1 },
+          lastError
+        }
+      });
+
+      return recorded ? null : LEASE_LOST;
+    }
+  }
+}
+
+/**
+ * Claims and runs a queued autofill job until every pending question is processed or a cancel is
+ * requested. Returns null when another worker holds the job, re-claims it mid-run after the lease
+ * lapsed, or the job was canceled.
+ */
+export async function processAutofillJob(params: { jobId: string }): Promise<AutofillResult | null> {
+  const lease = await claimAutofillJob(params.jobId);
+  if (!lease) {
+    return null;
+  }
+
+  const job = await prisma.autofillJob.findUniqueOrThrow({
+    where: { id: params.jobId },
+    select: {
+      id: true,
+      organizationId: true,
+      questionnaireId: true,
+      debug: true,
+      questionnaire: { select: { evidenceCollectionId: true } }
+    }
+  });
+  const evidenceCollectionId = job.questionnaire.evidenceCollectionId;
+  const debugEnabled = process.env.DEV_MODE === "true" && job.debug;
+  const debugEntries: AutofillDebugEntry[] = [];
+
+  try {
+    const aiProvider = await getAiProviderForOrganization(job.organizationId);
+    const reuseMatcher = await createApprovedAnswerReuseMatcher({
+      organizationId: job.organizationId,
+      aiProvider,
+      evidenceCollectionId
+    });
+    const pendingItems = await prisma.autofillJobItem.findMany({
+      where: { jobId: job.id, status: "PENDING" },
+      orderBy: { rowIndex: "asc" },
+      include: { question: true }
+    });
+
+    for (const item of pendingItems) {
+      const control = await prisma.autofillJob.findUnique({
+        where: { id: job.id },
+        select: { cancelRequestedAt: true }
+      });
+
+      if (!control || control.cancelRequestedAt) {
+        if (control) {
+          await finishAutofillJob(lease, "CANCELED", null);
+        }
+
+        return null;
+      }
+
+      const debugEntry = await processAutofillJobItem({
+        lease,
+        organizationId: job.organizationId,
+        questionnaireId: job.questionnaireId,
+        evidenceCollectionId,
+        item,
+        reuseMatcher,
+        aiProvider,
+        debug: debugEnabled
+      });
+
+      if (debugEntry === LEASE_LOST) {
+        return null;
+      }
+      if (debugEntry) {
+        debugEntries.push(debugEntry);
+      }
+    }
+
+    const [failedCount, reusedItems] = await Promise.all([
+      prisma.autofillJobItem.count({ where: { jobId: job.id, status: "FAILED" } }),
+      prisma.autofillJobItem.findMany({
+        where: { jobId: job.id, status: "SUCCEEDED", reusedFromApprovedAnswerId: { not: null } },
+        orderBy: { rowIndex: "asc" },
+        select: { questionId: true, rowIndex: true, reusedFromApprovedAnswerId: true, reuseMatchType: true }
+      })
+    ]);
+
+    await finishAutofillJob(
+      lease,
+      failedCount > 0 ? "FAILED" : "SUCCEEDED",
+      failedCount > 0
+        ? `${failedCount} question${failedCount === 1 ? "" : "s"} failed after ${MAX_AUTOFILL_ITEM_ATTEMPTS} attempts.`
+        : null
+    );
+
+    return buildAutofillResult({
+      questionnaireId: job.questionnaireId,
+      reusedEntries: reusedItems.map((item) => ({
+        questionId: item.questionId,
+        rowIndex: item.rowIndex,
+        reusedFromApprovedAnswerId: item.reusedFromApprovedAnswerId as string,
+        matchType: toReuseMatchType(item.reuseMatchType)
+      })),
+      debugEntries: debugEnabled ? debugEntries : undefined
+    });
+  } catch (error) {
+    await finishAutofillJob(lease, "FAILED", toErrorMessage(error, "Autofill job failed.")).catch(() => {
+      // Keep the original processing error as the source of truth.
+    });
+    throw error;
+  }
+}
+
+export function startAutofillJobInBackground(jobId: string) {
+  void processAutofillJob({ jobId }).catch((error) => {
+    console.error("Autofill job failed", { jobId, error });
+  });
+}
@@ -0,0 +1,69 @@
+import { Prisma, type AutofillJob } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { activeJobConflict } from "@/server/autofillJobs/enqueueAutofillJob";
+import { findLatestAutofillJob, RESUMABLE_AUTOFILL_JOB_STATUSES } from "@/server/autofillJobs/getAutofillJob";
+
+/**
+ * Re-queues a failed or canceled job. Questions that already succeeded are kept; failed ones are
+ * reset to pending so the worker retries them alongside any questions never reached.
+ */
+export async function resumeAutofillJob(params: { orgId: string; questionnaireId: string }): Promise<AutofillJob> {
+  const job = await findLatestAutofillJob(params);
+
+  if (!job) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "No autofill job found for this questionnaire."
+    });
+  }
+
+  if (!RESUMABLE_AUTOFILL_JOB_STATUSES.includes(job.status)) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: "Only failed or canceled autofill jobs can be resumed.",
+      details: { jobId: job.id }
+    });
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.autofillJobItem.updateMany({
+        where: { jobId: job.id, status: "FAILED" },
+        data: {
+          status: "PENDING",
+          attempts: 0,
+          lastError: null,
+          completedAt: null
+        }
+      });
+
+      const processedCount = await tx.autofillJobItem.count({
+        where: { jobId: job.id, status: "SUCCEEDED" }
+      });
+
+      return tx.autofillJob.update({
+        where: { id: job.id },
+        data: {
+          status: "QUEUED",
+          processedCount,
+          failedCount: 0,
+          retryCount: { increment: 1 },
+          lastError: null,
+          cancelRequestedAt: null,
+          leaseToken: null,
+          leaseExpiresAt: null,
+          finishedAt: null
+        }
+      });
+    });
+  } catch (error) {
+    // A new job was queued for the questionnaire while this one was being resumed.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw activeJobConflict(null);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { prisma } from "@/lib/prisma";
+import { processAutofillJob } from "@/server/autofillJobs/processAutofillJob";
+
+/**
+ * Drains queued jobs and picks up running jobs whose worker lease expired. Jobs are processed one
+ * at a time in creation order; a job claimed concurrently by another worker is skipped.
+ */
+export async function runPendingAutofillJobs(params: { limit?: number } = {}): Promise<{ processedJobIds: string[] }> {
+  const now = new Date();
+  const jobs = await prisma.autofillJob.findMany({
+    where: {
+      OR: [{ status: "QUEUED" }, { status: "RUNNING", leaseExpiresAt: { lt: now } }]
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: params.limit ?? 5,
+    select: { id: true }
+  });
+
+  const processedJobIds: string[] = [];
+  for (const job of jobs) {
+    try {
+      await processAutofillJob({ jobId: job.id });
+      processedJobIds.push(job.id);
+    } catch (error) {
+      console.error("Autofill job failed", { jobId: job.id, error });
+    }
+  }
+
+  return { processedJobIds };
+}
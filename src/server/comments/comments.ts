@@ -0,0 +1,451 @@
+import type { AuditTargetType, Comment, QuestionHistoryEventType } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { getAppUrl } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+import { extractMentionedMembers, type MentionableMember } from "@/server/comments/mentions";
+import { sendMentionEmail } from "@/server/email";
+import { recordQuestionHistoryEvent } from "@/server/questionHistory/recordQuestionHistoryEvent";
+
+export type CommentTarget =
+  | { kind: "QUESTION"; questionnaireId: string; questionId: string }
+  | { kind: "APPROVED_ANSWER"; approvedAnswerId: string };
+
+export type CommentRow = {
+  id: string;
+  parentId: string | null;
+  authorUserId: string | null;
+  authorEmail: string | null;
+  body: string;
+  mentions: MentionableMember[];
+  createdAt: string;
+};
+
+export type CommentThread = CommentRow & {
+  resolvedAt: string | null;
+  resolvedByEmail: string | null;
+  replies: CommentRow[];
+};
+
+export type CommentThreadList = {
+  threads: CommentThread[];
+  unresolvedCount: number;
+  /** Everyone in the organization, for the mention picker. */
+  members: MentionableMember[];
+};
+
+/** What the route needs to audit a comment change and link back to it. */
+export type CommentTargetSummary = {
+  auditTargetType: AuditTargetType;
+  auditTargetId: string;
+  label: string;
+};
+
+export const MAX_COMMENT_LENGTH = 4000;
+
+type ResolvedTarget = CommentTargetSummary & {
+  where: { questionId: string } | { approvedAnswerId: string };
+  /** Row whose approval history should show the comment, if any. */
+  historyQuestion: { id: string; questionnaireId: string } | null;
+  approvedAnswerId: string | null;
+  url: string;
+};
+
+async function resolveCommentTarget(orgId: string, target: CommentTarget): Promise<ResolvedTarget | null> {
+  if (target.kind === "QUESTION") {
+    const question = await prisma.question.findFirst({
+      where: {
+        id: target.questionId,
+        questionnaireId: target.questionnaireId,
+        questionnaire: {
+          organizationId: orgId
+        }
+      },
+      select: {
+        id: true,
+        questionnaireId: true,
+        text: true
+      }
+    });
+
+    if (!question) {
+      return null;
+    }
+
+    return {
+      auditTargetType: "QUESTION",
+      auditTargetId: question.id,
+      label: question.text,
+      where: { questionId: question.id },
+      historyQuestion: { id: question.id, questionnaireId: question.questionnaireId },
+      approvedAnswerId: null,
+      url: `${getAppUrl()}/questionnaires/${question.questionnaireId}?itemId=${encodeURIComponent(question.id)}`
+    };
+  }
+
+  const approvedAnswer = await prisma.approvedAnswer.findFirst({
+    where: {
+      id: target.approvedAnswerId,
+      organizationId: orgId
+    },
+    select: {
+      id: true,
+      questionText: true,
+      question: {
+        select: {
+          id: true,
+          questionnaireId: true,
+          text: true
+        }
+      }
+    }
+  });
+
+  if (!approvedAnswer) {
+    return null;
+  }
+
+  const label = approvedAnswer.questionText || approvedAnswer.question?.text || "Approved answer";
+  return {
+    auditTargetType: "APPROVED_ANSWER",
+    auditTargetId: approvedAnswer.id,
+    label,
+    where: { approvedAnswerId: approvedAnswer.id },
+    historyQuestion: approvedAnswer.question
+      ? { id: approvedAnswer.question.id, questionnaireId: approvedAnswer.question.questionnaireId }
+      : null,
+    approvedAnswerId: approvedAnswer.id,
+    url: `${getAppUrl()}/review/library?q=${encodeURIComponent(label.slice(0, 120))}`
+  };
+}
+
+async function listOrganizationMembers(orgId: string): Promise<MentionableMember[]> {
+  const memberships = await prisma.membership.findMany({
+    where: {
+      organizationId: orgId
+    },
+    orderBy: [{ createdAt: "asc" }],
+    select: {
+      userId: true,
+      user: {
+        select: {
+          email: true
+        }
+      }
+    }
+  });
+
+  return memberships.map((membership) => ({
+    userId: membership.userId,
+    email: membership.user.email ?? ""
+  }));
+}
+
+function toCommentRow(comment: Comment, membersById: Map<string, MentionableMember>): CommentRow {
+  return {
+    id: comment.id,
+    parentId: comment.parentId,
+    authorUserId: comment.authorUserId,
+    authorEmail: comment.authorEmail,
+    body: comment.body,
+    mentions: comment.mentionedUserIds
+      .map((userId) => membersById.get(userId))
+      .filter((member): member is MentionableMember => Boolean(member)),
+    createdAt: comment.createdAt.toISOString()
+  };
+}
+
+function toCommentThread(
+  comment: Comment & { replies: Comment[] },
+  membersById: Map<string, MentionableMember>
+): CommentThread {
+  return {
+    ...toCommentRow(comment, membersById),
+    resolvedAt: comment.resolvedAt?.toISOString() ?? null,
+    resolvedByEmail: comment.resolvedByEmail,
+    replies: comment.replies.map((reply) => toCommentRow(reply, membersById))
+  };
+}
+
+/** Returns null when the question or approved answer is not in the organization. */
+export async function listCommentThreads(params: {
+  orgId: string;
+  target: CommentTarget;
+}): Promise<CommentThreadList | null> {
+  const target = await resolveCommentTarget(params.orgId, params.target);
+  if (!target) {
+    return null;
+  }
+
+  const [comments, members] = await Promise.all([
+    prisma.comment.findMany({
+      where: {
+        ...target.where,
+        parentId: null
+      },
+      orderBy: { createdAt: "asc" },
+      include: {
+        replies: {
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    }),
+    listOrganizationMembers(params.orgId)
+  ]);
+
+  const membersById = new Map(members.map((member) => [member.userId, member]));
+  const threads = comments.map((comment) => toCommentThread(comment, membersById));
+  return {
+    threads,
+    unresolvedCount: threads.filter((thread) => !thread.resolvedAt).length,
+    members
+  };
+}
+
+async function notifyMentionedMembers(params: {
+  mentioned: MentionableMember[];
+  authorEmail: string;
+  target: ResolvedTarget;
+  body: string;
+}) {
+  const results = await Promise.allSettled(
+    params.mentioned.map((member) =>
+      sendMentionEmail(member.email, {
+        url: params.target.url,
+        authorEmail: params.authorEmail,
+        itemLabel: params.target.label.slice(0, 120),
+        excerpt: params.body.slice(0, 500)
+      })
+    )
+  );
+
+  // A failed notification must not undo the comment, which is already saved.
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error("Failed to send mention email", result.reason);
+    }
+  }
+}
+
+/**
+ * Starts a thread, or replies to one when `parentId` is given. Mentioned members are emailed after
+ * the comment is saved; the author is never notified of their own mention.
+ */
+export async function createComment(params: {
+  ctx: { orgId: string; userId: string };
+  target: CommentTarget;
+  body: string;
+  parentId?: string | null;
+}): Promise<{ comment: CommentRow; target: CommentTargetSummary }> {
+  const body = params.body.trim();
+  if (!body) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Comment body is required."
+    });
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: `Comments can be at most ${MAX_COMMENT_LENGTH} characters.`
+    });
+  }
+
+  const target = await resolveCommentTarget(params.ctx.orgId, params.target);
+  if (!target) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: params.target.kind === "QUESTION" ? "Questionnaire item not found." : "Approved answer not found."
+    });
+  }
+
+  if (params.parentId) {
+    const parent = await prisma.comment.findFirst({
+      where: {
+        id: params.parentId,
+        organizationId: params.ctx.orgId,
+        ...target.where
+      },
+      select: {
+        parentId: true
+      }
+    });
+
+    if (!parent) {
+      throw new ApiRouteError({
+        status: 404,
+        code: "NOT_FOUND",
+        message: "Comment thread not found."
+      });
+    }
+
+    if (parent.parentId) {
+      throw new ApiRouteError({
+        status: 400,
+        code: "VALIDATION_ERROR",
+        message: "Reply to the thread's first comment."
+      });
+    }
+  }
+
+  const [members, author] = await Promise.all([
+    listOrganizationMembers(params.ctx.orgId),
+    prisma.user.findUnique({
+      where: { id: params.ctx.userId },
+      select: { email: true }
+    })
+  ]);
+  const mentioned = extractMentionedMembers(body, members).filter((member) => member.userId !== params.ctx.userId);
+
+  const comment = await prisma.$transaction(async (tx) => {
+    const created = await tx.comment.create({
+      data: {
+        organizationId: params.ctx.orgId,
+        ...target.where,
+        parentId: params.parentId || null,
+        authorUserId: params.ctx.userId,
+        authorEmail: author?.email ?? null,
+        body,
+        mentionedUserIds: mentioned.map((member) => member.userId)
+      }
+    });
+
+    if (target.historyQuestion) {
+      await recordQuestionHistoryEvent({
+        db: tx,
+        organizationId: params.ctx.orgId,
+        questionnaireId: target.historyQuestion.questionnaireId,
+        questionId: target.historyQuestion.id,
+        type: "COMMENTED",
+        approvedAnswerId: target.approvedAnswerId,
+        commentId: created.id,
+        actor: { userId: params.ctx.userId, email: author?.email ?? null }
+      });
+    }
+
+    return created;
+  });
+
+  await notifyMentionedMembers({
+    mentioned: mentioned.filter((member) => member.email),
+    authorEmail: author?.email ?? "A teammate",
+    target,
+    body
+  });
+
+  const membersById = new Map(members.map((member) => [member.userId, member]));
+  return {
+    comment: toCommentRow(comment, membersById),
+    target
+  };
+}
+
+/** Resolves or reopens a thread. Setting the state it already has is a no-op without history. */
+export async function setCommentThreadResolved(params: {
+  ctx: { orgId: string; userId: string };
+  commentId: string;
+  resolved: boolean;
+}): Promise<{ thread: CommentThread; target: CommentTargetSummary; changed: boolean }> {
+  const existing = await prisma.comment.findFirst({
+    where: {
+      id: params.commentId,
+      organizationId: params.ctx.orgId
+    },
+    select: {
+      id: true,
+      parentId: true,
+      questionId: true,
+      approvedAnswerId: true,
+      resolvedAt: true,
+      question: {
+        select: {
+          questionnaireId: true
+        }
+      }
+    }
+  });
+
+  if (!existing) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Comment not found."
+    });
+  }
+
+  if (existing.parentId) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Only a thread's first comment can be resolved."
+    });
+  }
+
+  const commentTarget: CommentTarget | null =
+    existing.questionId && existing.question
+      ? { kind: "QUESTION", questionnaireId: existing.question.questionnaireId, questionId: existing.questionId }
+      : existing.approvedAnswerId
+        ? { kind: "APPROVED_ANSWER", approvedAnswerId: existing.approvedAnswerId }
+        : null;
+  const target = commentTarget ? await resolveCommentTarget(params.ctx.orgId, commentTarget) : null;
+  if (!target) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Comment not found."
+    });
+  }
+
+  const changed = Boolean(existing.resolvedAt) !== params.resolved;
+  if (changed) {
+    const actor = await prisma.user.findUnique({
+      where: { id: params.ctx.userId },
+      select: { email: true }
+    });
+    const historyType: QuestionHistoryEventType = params.resolved ? "COMMENT_RESOLVED" : "COMMENT_REOPENED";
+
+    await prisma.$transaction(async (tx) => {
+      await tx.comment.update({
+        where: { id: existing.id },
+        data: {
+          resolvedAt: params.resolved ? new Date() : null,
+          resolvedByEmail: params.resolved ? (actor?.email ?? null) : null
+        }
+      });
+
+      if (target.historyQuestion) {
+        await recordQuestionHistoryEvent({
+          db: tx,
+          organizationId: params.ctx.orgId,
+          questionnaireId: target.historyQuestion.questionnaireId,
+          questionId: target.historyQuestion.id,
+          type: historyType,
+          approvedAnswerId: target.approvedAnswerId,
+          commentId: existing.id,
+          actor: { userId: params.ctx.userId, email: actor?.email ?? null }
+        });
+      }
+    });
+  }
+
+  const [thread, members] = await Promise.all([
+    prisma.comment.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: {
+        replies: {
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    }),
+    listOrganizationMembers(params.ctx.orgId)
+  ]);
+
+  return {
+    thread: toCommentThread(thread, new Map(members.map((member) => [member.userId, member]))),
+    target,
+    changed
+  };
+}
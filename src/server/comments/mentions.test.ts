@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { extractMentionedMembers } from "@/server/comments/mentions";
+
+const members = [
+  { userId: "user-1", email: "Alice@example.com" },
+  { userId: "user-2", email: "bob@example.com" },
+  { userId: "user-3", email: "" }
+];
+
+describe("extractMentionedMembers", () => {
+  it("matches @email tokens case-insensitively and ignores trailing punctuation", () => {
+    const mentioned = extractMentionedMembers("@alice@example.com can you check this? cc (@BOB@example.com).", members);
+
+    expect(mentioned.map((member) => member.userId)).toEqual(["user-1", "user-2"]);
+  });
+
+  it("mentions each member once and skips unknown addresses", () => {
+    const mentioned = extractMentionedMembers(
+      "@bob@example.com @bob@example.com @carol@example.com",
+      members
+    );
+
+    expect(mentioned.map((member) => member.userId)).toEqual(["user-2"]);
+  });
+
+  it("does not treat a bare email address as a mention", () => {
+    expect(extractMentionedMembers("Send it to alice@example.com", members)).toEqual([]);
+    expect(extractMentionedMembers("support@alice@example.com", members)).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+export type MentionableMember = {
+  userId: string;
+  email: string;
+};
+
+// "@" followed by an email address; the leading boundary keeps plain addresses from matching.
+const MENTION_PATTERN = /(^|[\s(])@([^\s@]+@[^\s@]+\.[^\s@]+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+/**
+ * Returns the members an `@email` token in the comment refers to, in first-mention order.
+ * Tokens that do not match a member are left as plain text.
+ */
+export function extractMentionedMembers<TMember extends MentionableMember>(
+  body: string,
+  members: TMember[]
+): TMember[] {
+  const membersByEmail = new Map(
+    members.filter((member) => member.email).map((member) => [member.email.toLowerCase(), member])
+  );
+  const mentioned = new Map<string, TMember>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const email = match[2].replace(TRAILING_PUNCTUATION, "").toLowerCase();
+    const member = membersByEmail.get(email);
+    if (member && !mentioned.has(member.userId)) {
+      mentioned.set(member.userId, member);
+    }
+  }
+
+  return Array.from(mentioned.values());
+}
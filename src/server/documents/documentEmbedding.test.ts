@@ -0,0 +1,137 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { AiProviderRequestError, type AiProvider } from "@/lib/aiProvider";
+import { prisma } from "@/lib/prisma";
+import {
+  embedBatchWithBackoff,
+  embedPendingChunks,
+  markEmbeddedDocumentsReady,
+  queuedForEmbedding
+} from "@/server/documents/documentEmbedding";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+const TEST_ORG_PREFIX = "vitest-document-embedding-";
+const EMBEDDING_MODEL = "openai:text-embedding-3-small";
+
+function createFakeProvider(createEmbeddings: AiProvider["createEmbeddings"]): AiProvider {
+  return {
+    kind: "OPENAI",
+    chatModel: "gpt-test",
+    embeddingModel: EMBEDDING_MODEL,
+    createEmbedding: async () => new Array(1536).fill(0.01),
+    createEmbeddings,
+    completeJson: async () => ({})
+  };
+}
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.documentChunk.deleteMany({ where: { document: { organizationId: { in: organizationIds } } } });
+  await prisma.document.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+}
+
+describe("embedBatchWithBackoff", () => {
+  it("waits out rate limits, honoring Retry-After, before retrying the batch", async () => {
+    const createEmbeddings = vi
+      .fn(async (inputs: string[]) => inputs.map(() => [1, 0]))
+      .mockRejectedValueOnce(new AiProviderRequestError({ message: "rate limited", status: 429, retryAfterMs: 7_000 }))
+      .mockRejectedValueOnce(new AiProviderRequestError({ message: "unavailable", status: 503 }));
+    const sleep = vi.fn(async () => undefined);
+
+    const embeddings = await embedBatchWithBackoff({
+      inputs: ["a", "b"],
+      aiProvider: createFakeProvider(createEmbeddings),
+      sleep
+    });
+
+    expect(embeddings).toEqual([
+      [1, 0],
+      [1, 0]
+    ]);
+    expect(sleep.mock.calls).toEqual([[7_000], [4_000]]);
+  });
+
+  it("does not retry client errors", async () => {
+    const createEmbeddings = vi
+      .fn(async (inputs: string[]) => inputs.map(() => [1, 0]))
+      .mockRejectedValue(new AiProviderRequestError({ message: "bad input", status: 400 }));
+    const sleep = vi.fn(async () => undefined);
+
+    await expect(
+      embedBatchWithBackoff({ inputs: ["a"], aiProvider: createFakeProvider(createEmbeddings), sleep })
+    ).rejects.toThrow("bad input");
+    expect(createEmbeddings).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
+
+describe.sequential("embedPendingChunks", () => {
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await cleanupTestOrganizations();
+    await prisma.$disconnect();
+  });
+
+  it("embeds in batches, resumes after a failed batch and marks the document ready when complete", async () => {
+    vi.stubEnv("EMBEDDING_BATCH_SIZE", "2");
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const document = await prisma.document.create({
+      data: {
+        organizationId: organization.id,
+        name: "policy",
+        originalName: "policy.txt",
+        mimeType: "text/plain",
+        ...queuedForEmbedding()
+      }
+    });
+    await prisma.documentChunk.createMany({
+      data: ["one", "two", "three"].map((content, chunkIndex) => ({
+        documentId: document.id,
+        chunkIndex,
+        content,
+        evidenceFingerprint: computeEvidenceFingerprint(content)
+      }))
+    });
+
+    const batches: string[][] = [];
+    const createEmbeddings = vi.fn(async (inputs: string[]) => {
+      batches.push(inputs);
+      if (batches.length === 2) {
+        throw new AiProviderRequestError({ message: "invalid input", status: 400 });
+      }
+      return inputs.map(() => new Array(1536).fill(0.01));
+    });
+    const aiProvider = createFakeProvider(createEmbeddings);
+
+    await expect(
+      embedPendingChunks({ organizationId: organization.id, documentId: document.id, aiProvider })
+    ).rejects.toThrow("invalid input");
+    await expect(
+      markEmbeddedDocumentsReady({ organizationId: organization.id, embeddingModel: EMBEDDING_MODEL })
+    ).resolves.toEqual([]);
+
+    await expect(
+      embedPendingChunks({ organizationId: organization.id, documentId: document.id, aiProvider })
+    ).resolves.toEqual({ embeddedCount: 1, cacheHitCount: 0 });
+    expect(batches.map((batch) => batch.length)).toEqual([2, 1, 1]);
+    expect(batches[2]).toEqual(batches[1]);
+    await expect(
+      markEmbeddedDocumentsReady({ organizationId: organization.id, embeddingModel: EMBEDDING_MODEL })
+    ).resolves.toEqual([document.id]);
+
+    const reloaded = await prisma.document.findUniqueOrThrow({ where: { id: document.id } });
+    expect(reloaded).toMatchObject({ status: "READY", embeddingNextAttemptAt: null, embeddingError: null });
+  });
+});
@@ -0,0 +1,303 @@
+import { AiProviderRequestError, getAiProviderForOrganization, type AiProvider } from "@/lib/aiProvider";
+import { createEmbeddings } from "@/lib/openai";
+import { prisma } from "@/lib/prisma";
+import { embeddingToVectorLiteral } from "@/lib/retrieval";
+import { createEmbeddingsWithCache } from "@/server/embeddingCache";
+
+/** Wait before pipeline retry N (1-based). The pipeline stops scheduling a document once these are used up. */
+export const EMBEDDING_RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000];
+
+/** In-request backoff for rate-limited or failing provider calls before the run gives up. */
+export const EMBEDDING_REQUEST_BACKOFF_MS = [1_000, 4_000, 15_000];
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+const EMBEDDING_CLAIM_MS = 5 * 60_000;
+const MAX_ERROR_LENGTH = 500;
+
+type Sleep = (ms: number) => Promise<void>;
+
+type PendingChunkRow = {
+  id: string;
+  content: string;
+};
+
+export type EmbedPendingChunksResult = {
+  embeddedCount: number;
+  /** Chunks whose vector came from the embedding cache instead of a provider request. */
+  cacheHitCount: number;
+};
+
+export type DocumentEmbeddingResult = EmbedPendingChunksResult & {
+  documentId: string;
+  ready: boolean;
+  error: string | null;
+};
+
+const defaultSleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Shared by every run in this process so concurrent documents stay under one request budget.
+let nextRequestSlotAt = 0;
+
+function readPositiveIntEnv(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function getEmbeddingBatchSize(): number {
+  return readPositiveIntEnv("EMBEDDING_BATCH_SIZE") ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message.trim().slice(0, MAX_ERROR_LENGTH);
+  }
+
+  return "Embedding request failed.";
+}
+
+/** Spaces provider requests when EMBEDDING_REQUESTS_PER_MINUTE is set. */
+async function waitForRequestSlot(sleep: Sleep) {
+  const requestsPerMinute = readPositiveIntEnv("EMBEDDING_REQUESTS_PER_MINUTE");
+  if (!requestsPerMinute) {
+    return;
+  }
+
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestSlotAt);
+  nextRequestSlotAt = slot + Math.ceil(60_000 / requestsPerMinute);
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+}
+
+export async function embedBatchWithBackoff(params: {
+  inputs: string[];
+  aiProvider: AiProvider;
+  sleep?: Sleep;
+}): Promise<number[][]> {
+  const sleep = params.sleep ?? defaultSleep;
+
+  for (let attempt = 0; ; attempt += 1) {
+    await waitForRequestSlot(sleep);
+    try {
+      return await createEmbeddings(params.inputs, params.aiProvider);
+    } catch (error) {
+      const delay = EMBEDDING_REQUEST_BACKOFF_MS[attempt];
+      if (!(error instanceof AiProviderRequestError) || !error.isRetryable || delay === undefined) {
+        throw error;
+      }
+
+      await sleep(Math.max(delay, error.retryAfterMs ?? 0));
+    }
+  }
+}
+
+/**
+ * Embeds chunks that have no vector for the provider's current model, one batch per provider
+ * request; chunks whose content is already in the embedding cache skip the request. Each batch is
+ * written before the next is requested, so an interrupted run resumes with only the chunks still
+ * missing.
+ */
+export async function embedPendingChunks(params: {
+  organizationId: string;
+  aiProvider: AiProvider;
+  documentId?: string;
+  sleep?: Sleep;
+}): Promise<EmbedPendingChunksResult> {
+  const batchSize = getEmbeddingBatchSize();
+  const embeddingModel = params.aiProvider.embeddingModel;
+  let embeddedCount = 0;
+  let cacheHitCount = 0;
+
+  for (;;) {
+    const chunks = await prisma.$queryRawUnsafe<PendingChunkRow[]>(
+      `
+        SELECT dc."id", dc."content"
+        FROM "DocumentChunk" dc
+        JOIN "Document" d ON d."id" = dc."documentId"
+        WHERE d."organizationId" = $1
+          AND ($2::text IS NULL OR d."id" = $2::text)
+          AND (dc."embedding" IS NULL OR dc."embeddingModel" IS DISTINCT FROM $3)
+        ORDER BY dc."createdAt" ASC, dc."id" ASC
+        LIMIT $4
+      `,
+      params.organizationId,
+      params.documentId ?? null,
+      embeddingModel,
+      batchSize
+    );
+
+    if (chunks.length === 0) {
+      return { embeddedCount, cacheHitCount };
+    }
+
+    const { embeddings, cacheHitCount: batchCacheHitCount } = await createEmbeddingsWithCache({
+      organizationId: params.organizationId,
+      embeddingModel,
+      inputs: chunks.map((chunk) => chunk.content),
+      embed: (inputs) => embedBatchWithBackoff({ inputs, aiProvider: params.aiProvider, sleep: params.sleep })
+    });
+
+    await prisma.$transaction(
+      chunks.map((chunk, index) =>
+        prisma.$executeRawUnsafe(
+          `
+            UPDATE "DocumentChunk"
+            SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3
+            WHERE "id" = $4
+          `,
+          embeddingToVectorLiteral(embeddings[index]),
+          embeddingModel,
+          embeddings[index].length,
+          chunk.id
+        )
+      )
+    );
+
+    embeddedCount += chunks.length;
+    cacheHitCount += batchCacheHitCount;
+  }
+}
+
+/** Marks CHUNKED documents READY once none of their chunks is missing a vector for `embeddingModel`. */
+export async function markEmbeddedDocumentsReady(params: {
+  organizationId: string;
+  embeddingModel: string;
+  documentId?: string;
+}): Promise<string[]> {
+  const rows = await prisma.$queryRawUnsafe<Array<{ id: string }>>(
+    `
+      UPDATE "Document" d
+      SET "status" = 'READY', "embeddingError" = NULL, "embeddingNextAttemptAt" = NULL
+      WHERE d."organizationId" = $1
+        AND ($2::text IS NULL OR d."id" = $2::text)
+        AND d."status" = 'CHUNKED'
+        AND NOT EXISTS (
+          SELECT 1
+          FROM "DocumentChunk" dc
+          WHERE dc."documentId" = d."id"
+            AND (dc."embedding" IS NULL OR dc."embeddingModel" IS DISTINCT FROM $3)
+        )
+      RETURNING d."id"
+    `,
+    params.organizationId,
+    params.documentId ?? null,
+    params.embeddingModel
+  );
+
+  return rows.map((row) => row.id);
+}
+
+/** Document fields that hand a freshly (re)chunked document to the embedding pipeline. */
+export function queuedForEmbedding() {
+  return {
+    status: "CHUNKED" as const,
+    embeddingAttempts: 0,
+    embeddingNextAttemptAt: new Date(),
+    embeddingError: null
+  };
+}
+
+async function claimDocument(documentId: string, now: Date): Promise<boolean> {
+  // Pushing embeddingNextAttemptAt forward acts as a lease so a concurrent drain skips this document.
+  const claimed = await prisma.document.updateMany({
+    where: {
+      id: documentId,
+      status: "CHUNKED",
+      embeddingNextAttemptAt: { lte: now }
+    },
+    data: {
+      embeddingNextAttemptAt: new Date(now.getTime() + EMBEDDING_CLAIM_MS)
+    }
+  });
+
+  return claimed.count > 0;
+}
+
+/**
+ * Runs the pipeline for one due document. A failure keeps the embedded chunks, records the error and
+ * schedules the next attempt, or stops scheduling after the last one.
+ */
+export async function embedDocument(
+  documentId: string,
+  options: { sleep?: Sleep } = {}
+): Promise<DocumentEmbeddingResult | null> {
+  if (!(await claimDocument(documentId, new Date()))) {
+    return null;
+  }
+
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { id: true, organizationId: true, embeddingAttempts: true }
+  });
+  let embedded: EmbedPendingChunksResult = { embeddedCount: 0, cacheHitCount: 0 };
+
+  try {
+    const aiProvider = await getAiProviderForOrganization(document.organizationId);
+    embedded = await embedPendingChunks({
+      organizationId: document.organizationId,
+      documentId: document.id,
+      aiProvider,
+      sleep: options.sleep
+    });
+    const readyIds = await markEmbeddedDocumentsReady({
+      organizationId: document.organizationId,
+      embeddingModel: aiProvider.embeddingModel,
+      documentId: document.id
+    });
+
+    return { documentId: document.id, ...embedded, ready: readyIds.length > 0, error: null };
+  } catch (error) {
+    const attempts = document.embeddingAttempts + 1;
+    const retryDelay = EMBEDDING_RETRY_DELAYS_MS[attempts - 1];
+    const message = toErrorMessage(error);
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: {
+        embeddingAttempts: attempts,
+        embeddingError: message,
+        embeddingNextAttemptAt: retryDelay === undefined ? null : new Date(Date.now() + retryDelay)
+      }
+    });
+
+    return { documentId: document.id, ...embedded, ready: false, error: message };
+  }
+}
+
+/** Embeds due documents oldest first; documents waiting out a retry delay stay queued. */
+export async function runPendingDocumentEmbeddings(
+  params: { organizationId?: string; limit?: number } = {}
+): Promise<{ results: DocumentEmbeddingResult[] }> {
+  const documents = await prisma.document.findMany({
+    where: {
+      status: "CHUNKED",
+      embeddingNextAttemptAt: { lte: new Date() },
+      ...(params.organizationId ? { organizationId: params.organizationId } : {})
+    },
+    orderBy: [{ embeddingNextAttemptAt: "asc" }, { id: "asc" }],
+    take: params.limit ?? 10,
+    select: { id: true }
+  });
+
+  const results: DocumentEmbeddingResult[] = [];
+  for (const document of documents) {
+    try {
+      const result = await embedDocument(document.id);
+      if (result) {
+        results.push(result);
+      }
+    } catch (error) {
+      console.error("Document embedding failed", { documentId: document.id, error });
+    }
+  }
+
+  return { results };
+}
+
+/** Fire-and-forget drain for requests that just chunked documents. */
+export function startDocumentEmbeddingInBackground(organizationId: string) {
+  void runPendingDocumentEmbeddings({ organizationId }).catch((error) => {
+    console.error("Document embedding failed", { organizationId, error });
+  });
+}
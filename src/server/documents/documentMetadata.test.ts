@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import {
+  isDocumentExpired,
+  isDocumentReviewDue,
+  parseDocumentMetadataInput
+} from "@/server/documents/documentMetadata";
+
+const EMPTY_METADATA = {
+  ownerUserId: null,
+  effectiveDate: null,
+  reviewByDate: null,
+  expiresAt: null,
+  classification: null,
+  shareability: "NDA" as const,
+  tags: []
+};
+
+describe("document metadata", () => {
+  it("keeps omitted fields and normalizes tags", () => {
+    const existing = {
+      ...EMPTY_METADATA,
+      ownerUserId: "user-1",
+      classification: "INTERNAL" as const
+    };
+
+    const input = parseDocumentMetadataInput(
+      {
+        expiresAt: "2027-01-31",
+        tags: [" SOC2 ", "soc2", "", "Encryption"]
+      },
+      existing
+    );
+
+    expect(input).toEqual({
+      ownerUserId: "user-1",
+      effectiveDate: null,
+      reviewByDate: null,
+      expiresAt: new Date("2027-01-31"),
+      classification: "INTERNAL",
+      shareability: "NDA",
+      tags: ["soc2", "encryption"]
+    });
+    expect(parseDocumentMetadataInput({ ownerUserId: null, classification: null }, existing)).toMatchObject({
+      ownerUserId: null,
+      classification: null
+    });
+  });
+
+  it("rejects invalid dates, classifications, shareability and expiry before the effective date", () => {
+    expect(() => parseDocumentMetadataInput({ reviewByDate: "not a date" }, EMPTY_METADATA)).toThrow(ApiRouteError);
+    expect(() => parseDocumentMetadataInput({ classification: "SECRET" }, EMPTY_METADATA)).toThrow(
+      /classification must be one of/
+    );
+    expect(() => parseDocumentMetadataInput({ shareability: "PRIVATE" }, EMPTY_METADATA)).toThrow(
+      /shareability must be one of/
+    );
+    expect(() =>
+      parseDocumentMetadataInput({ effectiveDate: "2026-06-01", expiresAt: "2026-05-01" }, EMPTY_METADATA)
+    ).toThrow("expiresAt must be after effectiveDate.");
+  });
+
+  it("treats expiry and review-by dates at or before now as reached", () => {
+    const now = new Date("2026-03-28T12:00:00.000Z");
+
+    expect(isDocumentExpired({ expiresAt: null }, now)).toBe(false);
+    expect(isDocumentExpired({ expiresAt: new Date("2026-03-28T12:00:00.000Z") }, now)).toBe(true);
+    expect(isDocumentExpired({ expiresAt: new Date("2026-03-29T00:00:00.000Z") }, now)).toBe(false);
+    expect(isDocumentReviewDue({ reviewByDate: new Date("2026-03-01T00:00:00.000Z") }, now)).toBe(true);
+  });
+});
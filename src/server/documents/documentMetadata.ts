@@ -0,0 +1,249 @@
+import type { DocumentClassification, DocumentShareability } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { isDocumentShareability } from "@/shared/evidenceShareability";
+
+const CLASSIFICATIONS: DocumentClassification[] = ["PUBLIC", "INTERNAL", "CONFIDENTIAL", "RESTRICTED"];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+export type DocumentMetadataInput = {
+  ownerUserId: string | null;
+  effectiveDate: Date | null;
+  reviewByDate: Date | null;
+  expiresAt: Date | null;
+  classification: DocumentClassification | null;
+  shareability: DocumentShareability;
+  tags: string[];
+};
+
+export type DocumentMetadataRow = {
+  ownerUserId: string | null;
+  ownerEmail: string | null;
+  effectiveDate: string | null;
+  reviewByDate: string | null;
+  expiresAt: string | null;
+  classification: DocumentClassification | null;
+  shareability: DocumentShareability;
+  tags: string[];
+  isExpired: boolean;
+  isReviewDue: boolean;
+};
+
+type DocumentMetadataSource = {
+  ownerUserId: string | null;
+  owner?: { email: string | null } | null;
+  effectiveDate: Date | null;
+  reviewByDate: Date | null;
+  expiresAt: Date | null;
+  classification: DocumentClassification | null;
+  shareability: DocumentShareability;
+  tags: string[];
+};
+
+export const documentMetadataSelect = {
+  ownerUserId: true,
+  owner: { select: { email: true } },
+  effectiveDate: true,
+  reviewByDate: true,
+  expiresAt: true,
+  classification: true,
+  shareability: true,
+  tags: true
+} as const;
+
+export function isDocumentExpired(document: { expiresAt: Date | null }, now = new Date()): boolean {
+  return document.expiresAt !== null && document.expiresAt.getTime() <= now.getTime();
+}
+
+export function isDocumentReviewDue(document: { reviewByDate: Date | null }, now = new Date()): boolean {
+  return document.reviewByDate !== null && document.reviewByDate.getTime() <= now.getTime();
+}
+
+export function toDocumentMetadataRow(document: DocumentMetadataSource, now = new Date()): DocumentMetadataRow {
+  return {
+    ownerUserId: document.ownerUserId,
+    ownerEmail: document.owner?.email ?? null,
+    effectiveDate: document.effectiveDate?.toISOString() ?? null,
+    reviewByDate: document.reviewByDate?.toISOString() ?? null,
+    expiresAt: document.expiresAt?.toISOString() ?? null,
+    classification: document.classification,
+    shareability: document.shareability,
+    tags: document.tags,
+    isExpired: isDocumentExpired(document, now),
+    isReviewDue: isDocumentReviewDue(document, now)
+  };
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+function readOptionalDate(value: unknown, field: string, fallback: Date | null): Date | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw validationError(`${field} must be an ISO date string or null.`);
+  }
+
+  return new Date(value);
+}
+
+function readTags(value: unknown, fallback: string[]): string[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+    throw validationError("tags must be an array of strings.");
+  }
+
+  const tags = Array.from(
+    new Set((value as string[]).map((entry) => entry.trim().toLowerCase()).filter((entry) => entry.length > 0))
+  );
+  if (tags.length > MAX_TAGS || tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw validationError(`tags must contain at most ${MAX_TAGS} entries of at most ${MAX_TAG_LENGTH} characters.`);
+  }
+
+  return tags;
+}
+
+/** Applies a partial metadata body over the stored values; omitted fields keep their current value. */
+export function parseDocumentMetadataInput(
+  body: Record<string, unknown>,
+  existing: Omit<DocumentMetadataSource, "owner">
+): DocumentMetadataInput {
+  let ownerUserId = existing.ownerUserId;
+  if (body.ownerUserId !== undefined) {
+    if (body.ownerUserId !== null && typeof body.ownerUserId !== "string") {
+      throw validationError("ownerUserId must be a string or null.");
+    }
+    ownerUserId = (body.ownerUserId as string | null)?.trim() || null;
+  }
+
+  let classification = existing.classification;
+  if (body.classification !== undefined) {
+    if (
+      body.classification !== null &&
+      (typeof body.classification !== "string" ||
+        !CLASSIFICATIONS.includes(body.classification as DocumentClassification))
+    ) {
+      throw validationError(`classification must be one of ${CLASSIFICATIONS.join(", ")} or null.`);
+    }
+    classification = body.classification as DocumentClassification | null;
+  }
+
+  let shareability = existing.shareability;
+  if (body.shareability !== undefined) {
+    if (!isDocumentShareability(body.shareability)) {
+      throw validationError("shareability must be one of PUBLIC, NDA, INTERNAL_ONLY.");
+    }
+    shareability = body.shareability;
+  }
+
+  const effectiveDate = readOptionalDate(body.effectiveDate, "effectiveDate", existing.effectiveDate);
+  const reviewByDate = readOptionalDate(body.reviewByDate, "reviewByDate", existing.reviewByDate);
+  const expiresAt = readOptionalDate(body.expiresAt, "expiresAt", existing.expiresAt);
+  if (effectiveDate && expiresAt && expiresAt.getTime() <= effectiveDate.getTime()) {
+    throw validationError("expiresAt must be after effectiveDate.");
+  }
+
+  return {
+    ownerUserId,
+    effectiveDate,
+    reviewByDate,
+    expiresAt,
+    classification,
+    shareability,
+    tags: readTags(body.tags, existing.tags)
+  };
+}
+
+export async function updateDocumentMetadata(params: {
+  orgId: string;
+  documentId: string;
+  body: Record<string, unknown>;
+  now?: Date;
+}): Promise<{ name: string; before: DocumentMetadataRow; after: DocumentMetadataRow }> {
+  const document = await prisma.document.findFirst({
+    where: {
+      id: params.documentId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      name: true,
+      ...documentMetadataSelect
+    }
+  });
+
+  if (!document) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Document not found."
+    });
+  }
+
+  const input = parseDocumentMetadataInput(params.body, document);
+  if (input.ownerUserId && input.ownerUserId !== document.ownerUserId) {
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_organizationId: {
+          userId: input.ownerUserId,
+          organizationId: params.orgId
+        }
+      },
+      select: { id: true }
+    });
+    if (!membership) {
+      throw validationError("ownerUserId must reference a member of this organization.");
+    }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Internal-only documents can never be on the trust portal, so relabelling unpublishes them.
+    if (input.shareability === "INTERNAL_ONLY") {
+      await tx.trustPortalDocument.deleteMany({ where: { documentId: document.id } });
+    }
+
+    return tx.document.update({
+      where: { id: document.id },
+      data: input,
+      select: documentMetadataSelect
+    });
+  });
+
+  return {
+    name: document.name,
+    before: toDocumentMetadataRow(document, params.now),
+    after: toDocumentMetadataRow(updated, params.now)
+  };
+}
+
+/** Chunk ids among `chunkIds` whose document is labelled internal-only. */
+export async function findInternalOnlyChunkIds(params: { orgId: string; chunkIds: string[] }): Promise<Set<string>> {
+  if (params.chunkIds.length === 0) {
+    return new Set();
+  }
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: {
+      id: { in: params.chunkIds },
+      document: {
+        organizationId: params.orgId,
+        shareability: "INTERNAL_ONLY"
+      }
+    },
+    select: { id: true }
+  });
+
+  return new Set(chunks.map((chunk) => chunk.id));
+}
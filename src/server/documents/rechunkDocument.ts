@@ -0,0 +1,225 @@
+import type { ChunkingStrategy, Prisma } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { chunkSegments, type LocatedChunk } from "@/lib/chunker";
+import type { ExtractedSegment } from "@/lib/extractText";
+import { prisma } from "@/lib/prisma";
+import { queuedForEmbedding } from "@/server/documents/documentEmbedding";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+import { enqueueApprovedAnswerStaleEvents } from "@/server/webhooks/webhookEvents";
+
+const MOVED_CHUNK_BATCH_SIZE = 500;
+
+type MovedChunk = Pick<LocatedChunk, "chunkIndex" | "pageNumber" | "sectionNumber" | "headingPath"> & { id: string };
+
+export type RechunkDocumentResult = {
+  documentId: string;
+  chunkingStrategy: ChunkingStrategy;
+  chunkCount: number;
+  reusedChunkCount: number;
+  removedChunkCount: number;
+};
+
+export type ReplacedDocumentChunks = {
+  reusedChunkCount: number;
+  removedChunkCount: number;
+  reusedChunkIds: string[];
+  removedChunkIds: string[];
+};
+
+export function parseSourceSegments(value: unknown): ExtractedSegment[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const segments: ExtractedSegment[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return null;
+    }
+
+    const typed = entry as Record<string, unknown>;
+    if (typeof typed.text !== "string") {
+      return null;
+    }
+
+    segments.push({
+      text: typed.text,
+      pageNumber: typeof typed.pageNumber === "number" ? typed.pageNumber : null,
+      sectionNumber: typeof typed.sectionNumber === "number" ? typed.sectionNumber : null
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Replaces a document's chunks while keeping the row (and embedding) of every chunk whose
+ * fingerprint is unchanged. Approvals citing those chunks stay fresh; approvals citing removed
+ * chunks lose their evidence snapshots and surface as MISSING_CHUNK in staleness checks.
+ */
+export async function replaceDocumentChunks(params: {
+  db: Prisma.TransactionClient;
+  documentId: string;
+  chunks: LocatedChunk[];
+}): Promise<ReplacedDocumentChunks> {
+  const existingChunks = await params.db.documentChunk.findMany({
+    where: { documentId: params.documentId },
+    orderBy: { chunkIndex: "asc" },
+    select: { id: true, evidenceFingerprint: true }
+  });
+
+  const reusableIdsByFingerprint = new Map<string, string[]>();
+  for (const chunk of existingChunks) {
+    const ids = reusableIdsByFingerprint.get(chunk.evidenceFingerprint) ?? [];
+    ids.push(chunk.id);
+    reusableIdsByFingerprint.set(chunk.evidenceFingerprint, ids);
+  }
+
+  // Move existing rows out of the way so reused chunks can take new indexes without
+  // tripping the (documentId, chunkIndex) unique constraint.
+  await params.db.$executeRaw`
+    UPDATE "DocumentChunk"
+    SET "chunkIndex" = -1 - "chunkIndex"
+    WHERE "documentId" = ${params.documentId}
+  `;
+
+  const reusedIds = new Set<string>();
+  const movedChunks: MovedChunk[] = [];
+  const createdChunks: Prisma.DocumentChunkCreateManyInput[] = [];
+
+  for (const chunk of params.chunks) {
+    const evidenceFingerprint = computeEvidenceFingerprint(chunk.content);
+    const location = {
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber,
+      sectionNumber: chunk.sectionNumber,
+      headingPath: chunk.headingPath
+    };
+    const reusableId = reusableIdsByFingerprint.get(evidenceFingerprint)?.shift();
+
+    if (reusableId) {
+      reusedIds.add(reusableId);
+      movedChunks.push({ id: reusableId, ...location });
+      continue;
+    }
+
+    createdChunks.push({
+      documentId: params.documentId,
+      content: chunk.content,
+      evidenceFingerprint,
+      ...location
+    });
+  }
+
+  // One statement per batch instead of one per chunk keeps large documents well inside the
+  // interactive transaction's time limit.
+  for (let start = 0; start < movedChunks.length; start += MOVED_CHUNK_BATCH_SIZE) {
+    const batch = movedChunks.slice(start, start + MOVED_CHUNK_BATCH_SIZE);
+    await params.db.$executeRaw`
+      UPDATE "DocumentChunk" dc
+      SET "chunkIndex" = moved."chunkIndex",
+          "pageNumber" = moved."pageNumber",
+          "sectionNumber" = moved."sectionNumber",
+          "headingPath" = moved."headingPath"
+      FROM jsonb_to_recordset(${JSON.stringify(batch)}::jsonb)
+        AS moved("id" text, "chunkIndex" int, "pageNumber" int, "sectionNumber" int, "headingPath" text[])
+      WHERE dc."id" = moved."id"
+    `;
+  }
+
+  const removedIds = existingChunks.map((chunk) => chunk.id).filter((id) => !reusedIds.has(id));
+  if (removedIds.length > 0) {
+    await params.db.documentChunk.deleteMany({
+      where: { id: { in: removedIds } }
+    });
+  }
+
+  if (createdChunks.length > 0) {
+    await params.db.documentChunk.createMany({ data: createdChunks });
+  }
+
+  return {
+    reusedChunkCount: reusedIds.size,
+    removedChunkCount: removedIds.length,
+    reusedChunkIds: Array.from(reusedIds),
+    removedChunkIds: removedIds
+  };
+}
+
+export async function rechunkDocument(params: {
+  orgId: string;
+  documentId: string;
+  chunkingStrategy: ChunkingStrategy;
+}): Promise<RechunkDocumentResult> {
+  const document = await prisma.document.findFirst({
+    where: {
+      id: params.documentId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      name: true,
+      sourceSegments: true
+    }
+  });
+
+  if (!document) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Document not found."
+    });
+  }
+
+  const segments = parseSourceSegments(document.sourceSegments);
+  if (!segments) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: "This document was uploaded before source text was retained. Re-upload it to change chunking."
+    });
+  }
+
+  const chunks = chunkSegments(segments, { strategy: params.chunkingStrategy });
+  if (chunks.length === 0) {
+    throw new ApiRouteError({
+      status: 422,
+      code: "VALIDATION_ERROR",
+      message: "No chunks generated from the document source text."
+    });
+  }
+
+  const replaced = await prisma.$transaction(async (tx) => {
+    const result = await replaceDocumentChunks({
+      db: tx,
+      documentId: document.id,
+      chunks
+    });
+    await enqueueApprovedAnswerStaleEvents({
+      db: tx,
+      organizationId: params.orgId,
+      document: { id: document.id, name: document.name },
+      chunkIds: result.removedChunkIds,
+      cause: "RECHUNKED"
+    });
+
+    await tx.document.update({
+      where: { id: document.id },
+      data: {
+        chunkingStrategy: params.chunkingStrategy,
+        ...queuedForEmbedding(),
+        errorMessage: null
+      }
+    });
+
+    return result;
+  });
+
+  return {
+    documentId: document.id,
+    chunkingStrategy: params.chunkingStrategy,
+    chunkCount: chunks.length,
+    reusedChunkCount: replaced.reusedChunkCount,
+    removedChunkCount: replaced.removedChunkCount
+  };
+}
@@ -0,0 +1,221 @@
+import type { ChunkingStrategy, DocumentVersion } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { chunkSegments } from "@/lib/chunker";
+import type { ExtractedSegment } from "@/lib/extractText";
+import { prisma } from "@/lib/prisma";
+import { queuedForEmbedding } from "@/server/documents/documentEmbedding";
+import { replaceDocumentChunks } from "@/server/documents/rechunkDocument";
+import { enqueueApprovedAnswerStaleEvents } from "@/server/webhooks/webhookEvents";
+
+export type VersionApprovedAnswerImpact = {
+  approvedAnswerId: string;
+  questionText: string;
+  /** Cited chunks of this document that the new version changed or removed. */
+  changedChunkIds: string[];
+};
+
+export type UploadDocumentVersionResult = {
+  documentId: string;
+  versionNumber: number;
+  chunkingStrategy: ChunkingStrategy;
+  chunkCount: number;
+  reusedChunkCount: number;
+  addedChunkCount: number;
+  removedChunkCount: number;
+  affectedApprovedAnswers: VersionApprovedAnswerImpact[];
+  unaffectedApprovedAnswers: VersionApprovedAnswerImpact[];
+};
+
+export type DocumentVersionRow = {
+  id: string;
+  versionNumber: number;
+  originalName: string;
+  mimeType: string;
+  chunkingStrategy: ChunkingStrategy;
+  chunkCount: number;
+  reusedChunkCount: number;
+  addedChunkCount: number;
+  removedChunkCount: number;
+  affectedApprovedAnswerIds: string[];
+  unaffectedApprovedAnswerIds: string[];
+  createdByUserId: string | null;
+  createdAt: string;
+};
+
+function toDocumentVersionRow(version: DocumentVersion): DocumentVersionRow {
+  return {
+    id: version.id,
+    versionNumber: version.versionNumber,
+    originalName: version.originalName,
+    mimeType: version.mimeType,
+    chunkingStrategy: version.chunkingStrategy,
+    chunkCount: version.chunkCount,
+    reusedChunkCount: version.reusedChunkCount,
+    addedChunkCount: version.addedChunkCount,
+    removedChunkCount: version.removedChunkCount,
+    affectedApprovedAnswerIds: version.affectedApprovedAnswerIds,
+    unaffectedApprovedAnswerIds: version.unaffectedApprovedAnswerIds,
+    createdByUserId: version.createdByUserId,
+    createdAt: version.createdAt.toISOString()
+  };
+}
+
+/**
+ * Supersedes a document with newly extracted text. The document keeps its id and lineage; chunks
+ * whose fingerprint is unchanged keep their rows, so only approvals citing a changed or removed
+ * passage are reported as affected.
+ */
+export async function uploadDocumentVersion(params: {
+  orgId: string;
+  userId: string;
+  documentId: string;
+  originalName: string;
+  mimeType: string;
+  segments: ExtractedSegment[];
+  chunkingStrategy?: ChunkingStrategy;
+}): Promise<UploadDocumentVersionResult> {
+  const document = await prisma.document.findFirst({
+    where: {
+      id: params.documentId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      name: true,
+      chunkingStrategy: true
+    }
+  });
+
+  if (!document) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Document not found."
+    });
+  }
+
+  const chunkingStrategy = params.chunkingStrategy ?? document.chunkingStrategy;
+  const chunks = chunkSegments(params.segments, { strategy: chunkingStrategy });
+  if (chunks.length === 0) {
+    throw new ApiRouteError({
+      status: 422,
+      code: "VALIDATION_ERROR",
+      message: "No chunks generated from the new version's text."
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Bumping the version first locks the document row, so concurrent uploads apply one at a time.
+    const { currentVersion: versionNumber } = await tx.document.update({
+      where: { id: document.id },
+      data: {
+        originalName: params.originalName,
+        mimeType: params.mimeType,
+        chunkingStrategy,
+        sourceSegments: params.segments,
+        currentVersion: { increment: 1 },
+        ...queuedForEmbedding(),
+        errorMessage: null
+      },
+      select: { currentVersion: true }
+    });
+
+    const replaced = await replaceDocumentChunks({
+      db: tx,
+      documentId: document.id,
+      chunks
+    });
+
+    const previousChunkIds = [...replaced.reusedChunkIds, ...replaced.removedChunkIds];
+    const citingApprovals =
+      previousChunkIds.length === 0
+        ? []
+        : await tx.approvedAnswer.findMany({
+            where: {
+              organizationId: params.orgId,
+              citationChunkIds: { hasSome: previousChunkIds }
+            },
+            orderBy: { createdAt: "asc" },
+            select: {
+              id: true,
+              citationChunkIds: true,
+              questionText: true,
+              question: { select: { text: true } }
+            }
+          });
+
+    const removedIds = new Set(replaced.removedChunkIds);
+    const affectedApprovedAnswers: VersionApprovedAnswerImpact[] = [];
+    const unaffectedApprovedAnswers: VersionApprovedAnswerImpact[] = [];
+    for (const approval of citingApprovals) {
+      const impact = {
+        approvedAnswerId: approval.id,
+        questionText: approval.questionText || approval.question?.text || "",
+        changedChunkIds: approval.citationChunkIds.filter((chunkId) => removedIds.has(chunkId))
+      };
+      (impact.changedChunkIds.length > 0 ? affectedApprovedAnswers : unaffectedApprovedAnswers).push(impact);
+    }
+
+    await enqueueApprovedAnswerStaleEvents({
+      db: tx,
+      organizationId: params.orgId,
+      document: { id: document.id, name: document.name },
+      chunkIds: replaced.removedChunkIds,
+      cause: "DOCUMENT_VERSION"
+    });
+
+    const addedChunkCount = chunks.length - replaced.reusedChunkCount;
+    await tx.documentVersion.create({
+      data: {
+        documentId: document.id,
+        versionNumber,
+        originalName: params.originalName,
+        mimeType: params.mimeType,
+        chunkingStrategy,
+        chunkCount: chunks.length,
+        reusedChunkCount: replaced.reusedChunkCount,
+        addedChunkCount,
+        removedChunkCount: replaced.removedChunkCount,
+        affectedApprovedAnswerIds: affectedApprovedAnswers.map((impact) => impact.approvedAnswerId),
+        unaffectedApprovedAnswerIds: unaffectedApprovedAnswers.map((impact) => impact.approvedAnswerId),
+        createdByUserId: params.userId
+      }
+    });
+
+    return {
+      documentId: document.id,
+      versionNumber,
+      chunkingStrategy,
+      chunkCount: chunks.length,
+      reusedChunkCount: replaced.reusedChunkCount,
+      addedChunkCount,
+      removedChunkCount: replaced.removedChunkCount,
+      affectedApprovedAnswers,
+      unaffectedApprovedAnswers
+    };
+  });
+}
+
+export async function listDocumentVersions(params: { orgId: string; documentId: string }): Promise<DocumentVersionRow[]> {
+  const document = await prisma.document.findFirst({
+    where: {
+      id: params.documentId,
+      organizationId: params.orgId
+    },
+    select: {
+      versions: {
+        orderBy: { versionNumber: "desc" }
+      }
+    }
+  });
+
+  if (!document) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Document not found."
+    });
+  }
+
+  return document.versions.map(toDocumentVersionRow);
+}
@@ -106,3 +106,46 @@ export async function sendInviteEmail(
     html: `<p>You were invited to join <strong>${organizationName}</strong> as <strong>${normalizedRole}</strong>.</p><p><a href="${url}">Accept invite</a></p>`
   });
 }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendMentionEmail(
+  to: string,
+  params: { url: string; authorEmail: string; itemLabel: string; excerpt: string }
+): Promise<void> {
+  if (!isProduction()) {
+    console.log(`MENTION (dev): ${to} -> ${params.url}`);
+    return;
+  }
+
+  await sendEmailMessage({
+    to,
+    subject: `${params.authorEmail} mentioned you on "${params.itemLabel}"`,
+    text: `${params.authorEmail} mentioned you on "${params.itemLabel}":\n\n${params.excerpt}\n\nOpen: ${params.url}\n`,
+    html: `<p><strong>${escapeHtml(params.authorEmail)}</strong> mentioned you on <em>${escapeHtml(params.itemLabel)}</em>:</p><blockquote>${escapeHtml(params.excerpt)}</blockquote><p><a href="${escapeHtml(params.url)}">Open the thread</a></p>`
+  });
+}
+
+export async function sendTrustPortalAccessEmail(
+  to: string,
+  params: { url: string; portalTitle: string; expiresAt: Date }
+): Promise<void> {
+  if (!isProduction()) {
+    console.log(`TRUST PORTAL ACCESS LINK (dev): ${to} -> ${params.url}`);
+    return;
+  }
+
+  const expiresOn = params.expiresAt.toISOString().slice(0, 10);
+  await sendEmailMessage({
+    to,
+    subject: `Access approved: ${params.portalTitle}`,
+    text: `Your request to view ${params.portalTitle} was approved.\n\nOpen: ${params.url}\n\nThis link expires on ${expiresOn}.\n`,
+    html: `<p>Your request to view <strong>${escapeHtml(params.portalTitle)}</strong> was approved.</p><p><a href="${escapeHtml(params.url)}">Open the trust center</a></p><p>This link expires on ${expiresOn}.</p>`
+  });
+}
@@ -0,0 +1,81 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { createEmbeddingsWithCache, embeddingCacheHitRate } from "@/server/embeddingCache";
+
+const TEST_ORG_PREFIX = "vitest-embedding-cache-";
+const EMBEDDING_MODEL = "openai:text-embedding-3-small";
+
+function sparseEmbedding(primaryIndex: number): number[] {
+  const vector = new Array(1536).fill(0);
+  vector[primaryIndex] = 1;
+  return vector;
+}
+
+async function cleanupTestOrganizations() {
+  await prisma.organization.deleteMany({ where: { name: { startsWith: TEST_ORG_PREFIX } } });
+}
+
+describe("embeddingCacheHitRate", () => {
+  it("reports the hit share and null when nothing was embedded", () => {
+    expect(embeddingCacheHitRate(3, 4)).toBe(0.75);
+    expect(embeddingCacheHitRate(0, 0)).toBeNull();
+  });
+});
+
+describe.sequential("createEmbeddingsWithCache", () => {
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await cleanupTestOrganizations();
+    await prisma.$disconnect();
+  });
+
+  it("embeds each distinct text once per organization and model", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const otherOrganization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const embed = vi.fn(async (inputs: string[]) => inputs.map((_, index) => sparseEmbedding(index)));
+
+    const first = await createEmbeddingsWithCache({
+      organizationId: organization.id,
+      embeddingModel: EMBEDDING_MODEL,
+      inputs: ["Data is encrypted at rest.", "Data is  encrypted at rest. ", "MFA is required."],
+      embed
+    });
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledWith(["Data is encrypted at rest.", "MFA is required."]);
+    expect(first).toEqual({
+      embeddings: [sparseEmbedding(0), sparseEmbedding(0), sparseEmbedding(1)],
+      cacheHitCount: 0
+    });
+
+    const reupload = await createEmbeddingsWithCache({
+      organizationId: organization.id,
+      embeddingModel: EMBEDDING_MODEL,
+      inputs: ["MFA is required.", "Backups run nightly."],
+      embed
+    });
+    expect(embed).toHaveBeenLastCalledWith(["Backups run nightly."]);
+    expect(reupload).toEqual({ embeddings: [sparseEmbedding(1), sparseEmbedding(0)], cacheHitCount: 1 });
+
+    await createEmbeddingsWithCache({
+      organizationId: otherOrganization.id,
+      embeddingModel: EMBEDDING_MODEL,
+      inputs: ["MFA is required."],
+      embed
+    });
+    await createEmbeddingsWithCache({
+      organizationId: organization.id,
+      embeddingModel: "local:hash-256",
+      inputs: ["MFA is required."],
+      embed
+    });
+    expect(embed).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,118 @@
+import { randomUUID } from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import { embeddingToVectorLiteral } from "@/lib/retrieval";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+type CachedEmbeddingRow = {
+  fingerprint: string;
+  embedding: string;
+};
+
+export type CachedEmbeddingsResult = {
+  embeddings: number[][];
+  /** Inputs served from the cache without a provider request. */
+  cacheHitCount: number;
+};
+
+/** Share of inputs served from the cache, or null when nothing was embedded. */
+export function embeddingCacheHitRate(cacheHitCount: number, totalCount: number): number | null {
+  return totalCount > 0 ? cacheHitCount / totalCount : null;
+}
+
+async function readCachedEmbeddings(params: {
+  organizationId: string;
+  embeddingModel: string;
+  fingerprints: string[];
+}): Promise<Map<string, number[]>> {
+  const rows = await prisma.$queryRawUnsafe<CachedEmbeddingRow[]>(
+    `
+      UPDATE "EmbeddingCacheEntry"
+      SET "lastUsedAt" = NOW()
+      WHERE "organizationId" = $1
+        AND "embeddingModel" = $2
+        AND "fingerprint" = ANY($3::text[])
+      RETURNING "fingerprint", "embedding"::text AS "embedding"
+    `,
+    params.organizationId,
+    params.embeddingModel,
+    params.fingerprints
+  );
+
+  return new Map(rows.map((row) => [row.fingerprint, JSON.parse(row.embedding) as number[]]));
+}
+
+async function writeCachedEmbeddings(params: {
+  organizationId: string;
+  embeddingModel: string;
+  entries: Array<{ fingerprint: string; embedding: number[] }>;
+}) {
+  await prisma.$transaction(
+    params.entries.map((entry) =>
+      prisma.$executeRawUnsafe(
+        `
+          INSERT INTO "EmbeddingCacheEntry"
+            ("id", "organizationId", "fingerprint", "embeddingModel", "embedding", "embeddingDimensions")
+          VALUES ($1, $2, $3, $4, $5::vector, $6)
+          ON CONFLICT ("organizationId", "embeddingModel", "fingerprint") DO NOTHING
+        `,
+        randomUUID(),
+        params.organizationId,
+        entry.fingerprint,
+        params.embeddingModel,
+        embeddingToVectorLiteral(entry.embedding),
+        entry.embedding.length
+      )
+    )
+  );
+}
+
+/**
+ * Returns embeddings for `inputs` in order, reusing vectors cached for the same content fingerprint
+ * and model. Only distinct uncached inputs are passed to `embed`, and its results are cached.
+ */
+export async function createEmbeddingsWithCache(params: {
+  organizationId: string;
+  embeddingModel: string;
+  inputs: string[];
+  embed: (inputs: string[]) => Promise<number[][]>;
+}): Promise<CachedEmbeddingsResult> {
+  if (params.inputs.length === 0) {
+    return { embeddings: [], cacheHitCount: 0 };
+  }
+
+  const fingerprints = params.inputs.map((input) => computeEvidenceFingerprint(input));
+  const cached = await readCachedEmbeddings({
+    organizationId: params.organizationId,
+    embeddingModel: params.embeddingModel,
+    fingerprints: Array.from(new Set(fingerprints))
+  });
+  const cacheHitCount = fingerprints.filter((fingerprint) => cached.has(fingerprint)).length;
+
+  const missing = new Map<string, string>();
+  fingerprints.forEach((fingerprint, index) => {
+    if (!cached.has(fingerprint) && !missing.has(fingerprint)) {
+      missing.set(fingerprint, params.inputs[index]);
+    }
+  });
+
+  if (missing.size > 0) {
+    const embedded = await params.embed(Array.from(missing.values()));
+    const entries = Array.from(missing.keys()).map((fingerprint, index) => ({
+      fingerprint,
+      embedding: embedded[index]
+    }));
+    await writeCachedEmbeddings({
+      organizationId: params.organizationId,
+      embeddingModel: params.embeddingModel,
+      entries
+    });
+    for (const entry of entries) {
+      cached.set(entry.fingerprint, entry.embedding);
+    }
+  }
+
+  return {
+    embeddings: fingerprints.map((fingerprint) => cached.get(fingerprint) as number[]),
+    cacheHitCount
+  };
+}
@@ -0,0 +1,113 @@
+import path from "node:path";
+
+/**
+ * Golden sets pair questions with what a correct answer must contain. Corpus paths are resolved
+ * relative to the golden set file so a set and its evidence can live side by side.
+ */
+export type GoldenCase = {
+  id: string;
+  category: string | null;
+  question: string;
+  /** Phrases a correct answer must state; matched case-insensitively against the answer text. */
+  expectedFacts: string[];
+  /** Corpus file names (without directories) the answer should cite. */
+  expectedCitationDocs: string[];
+  /** True when the corpus does not answer the question and the engine should say so. */
+  expectNotFound: boolean;
+};
+
+export type GoldenSet = {
+  name: string;
+  corpus: string[];
+  cases: GoldenCase[];
+};
+
+export class GoldenSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoldenSetError";
+  }
+}
+
+function readString(value: unknown, field: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new GoldenSetError(`${field} must be a non-empty string.`);
+  }
+
+  return value.trim();
+}
+
+function readStringList(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new GoldenSetError(`${field} must be an array of strings.`);
+  }
+
+  return value.map((entry, index) => readString(entry, `${field}[${index}]`));
+}
+
+function parseGoldenCase(value: unknown, index: number, corpus: Set<string>): GoldenCase {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new GoldenSetError(`cases[${index}] must be an object.`);
+  }
+
+  const entry = value as Record<string, unknown>;
+  const id = readString(entry.id, `cases[${index}].id`);
+  const expectNotFound = entry.expectNotFound === true;
+  const expectedFacts = readStringList(entry.expectedFacts, `${id}.expectedFacts`);
+  const expectedCitationDocs = readStringList(entry.expectedCitationDocs, `${id}.expectedCitationDocs`);
+
+  if (expectNotFound && (expectedFacts.length > 0 || expectedCitationDocs.length > 0)) {
+    throw new GoldenSetError(`${id} expects NOT_FOUND and cannot list expected facts or citations.`);
+  }
+  if (!expectNotFound && expectedFacts.length === 0) {
+    throw new GoldenSetError(`${id} must list at least one expected fact, or set expectNotFound.`);
+  }
+
+  const unknownDoc = expectedCitationDocs.find((docName) => !corpus.has(docName));
+  if (unknownDoc) {
+    throw new GoldenSetError(`${id} cites "${unknownDoc}", which is not in the corpus.`);
+  }
+
+  return {
+    id,
+    category: typeof entry.category === "string" && entry.category.trim() ? entry.category.trim() : null,
+    question: readString(entry.question, `${id}.question`),
+    expectedFacts,
+    expectedCitationDocs,
+    expectNotFound
+  };
+}
+
+export function parseGoldenSet(value: unknown): GoldenSet {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new GoldenSetError("Golden set must be a JSON object.");
+  }
+
+  const payload = value as Record<string, unknown>;
+  const corpus = readStringList(payload.corpus, "corpus");
+  if (corpus.length === 0) {
+    throw new GoldenSetError("corpus must list at least one evidence file.");
+  }
+  if (!Array.isArray(payload.cases) || payload.cases.length === 0) {
+    throw new GoldenSetError("cases must be a non-empty array.");
+  }
+
+  const corpusNames = new Set(corpus.map((filePath) => path.basename(filePath)));
+  const cases = payload.cases.map((entry, index) => parseGoldenCase(entry, index, corpusNames));
+  const seenIds = new Set<string>();
+  for (const goldenCase of cases) {
+    if (seenIds.has(goldenCase.id)) {
+      throw new GoldenSetError(`Duplicate case id: ${goldenCase.id}`);
+    }
+    seenIds.add(goldenCase.id);
+  }
+
+  return {
+    name: readString(payload.name, "name"),
+    corpus,
+    cases
+  };
+}
@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { GoldenSetError, parseGoldenSet, type GoldenCase } from "@/server/evaluation/goldenSet";
+import {
+  diffEvaluationRuns,
+  formatEvaluationDiff,
+  scoreCase,
+  summarizeCases,
+  type EvaluationRun
+} from "@/server/evaluation/metrics";
+import { NOT_FOUND_TEXT } from "@/shared/answerTemplates";
+
+const atRestCase: GoldenCase = {
+  id: "encryption-at-rest",
+  category: "Encryption",
+  question: "Is data encrypted at rest?",
+  expectedFacts: ["AES-256", "KMS"],
+  expectedCitationDocs: ["policy.txt"],
+  expectNotFound: false
+};
+
+const isoCase: GoldenCase = {
+  id: "compliance-iso27001",
+  category: "Compliance",
+  question: "Are you ISO 27001 certified?",
+  expectedFacts: [],
+  expectedCitationDocs: [],
+  expectNotFound: true
+};
+
+function citation(docName: string) {
+  return { docName, chunkId: `${docName}-chunk`, quotedSnippet: "snippet" };
+}
+
+function buildRun(settings: EvaluationRun["settings"], answers: Array<{ answer: string; docs: string[] }>): EvaluationRun {
+  const goldenCases = [atRestCase, isoCase];
+  const cases = goldenCases.map((goldenCase, index) =>
+    scoreCase(goldenCase, { answer: answers[index].answer, citations: answers[index].docs.map(citation) })
+  );
+
+  return {
+    goldenSet: "unit",
+    createdAt: "2026-03-28T00:00:00.000Z",
+    settings,
+    cases,
+    summary: summarizeCases(goldenCases, cases)
+  };
+}
+
+describe("evaluation metrics", () => {
+  it("scores facts and citations per case and micro-averages them across the run", () => {
+    const run = buildRun({ topK: 12 }, [
+      { answer: "Data is encrypted at rest using aes-256.", docs: ["policy.txt", "other.txt"] },
+      { answer: "We are ISO 27001 certified.", docs: ["other.txt"] }
+    ]);
+
+    expect(run.cases[0]).toMatchObject({
+      status: "FOUND",
+      matchedFacts: ["AES-256"],
+      missingFacts: ["KMS"],
+      citedDocs: ["other.txt", "policy.txt"],
+      correctCitationCount: 1,
+      correct: false
+    });
+    expect(run.cases[1].correct).toBe(false);
+    expect(run.summary).toMatchObject({
+      cases: 2,
+      correct: 0,
+      citationPrecision: 1 / 3,
+      citationRecall: 1,
+      factRecall: 0.5,
+      falseNotFound: 0,
+      unsupportedAnswers: 1
+    });
+  });
+
+  it("reports regressions, improvements and setting changes between two runs", () => {
+    const baseline = buildRun({ topK: 12, minTopSimilarity: 0.2 }, [
+      { answer: "AES-256 with KMS-managed keys.", docs: ["policy.txt"] },
+      { answer: "We are ISO 27001 certified.", docs: ["policy.txt"] }
+    ]);
+    const candidate = buildRun({ topK: 12, minTopSimilarity: 0.35 }, [
+      { answer: NOT_FOUND_TEXT, docs: [] },
+      { answer: NOT_FOUND_TEXT, docs: [] }
+    ]);
+
+    const diff = diffEvaluationRuns(baseline, candidate);
+
+    expect(diff.settingChanges).toEqual([{ key: "minTopSimilarity", before: 0.2, after: 0.35 }]);
+    expect(diff.regressions.map((change) => change.id)).toEqual(["encryption-at-rest"]);
+    expect(diff.improvements.map((change) => change.id)).toEqual(["compliance-iso27001"]);
+    expect(candidate.summary.falseNotFound).toBe(1);
+    expect(formatEvaluationDiff(diff)).toContain("- encryption-at-rest: FOUND -> NOT_FOUND missing [AES-256, KMS]");
+  });
+
+  it("parses the bundled golden set and rejects cases that cite files outside the corpus", () => {
+    const goldenSet = parseGoldenSet(
+      JSON.parse(readFileSync(join(process.cwd(), "test/fixtures/eval/template-evidence-pack.golden.json"), "utf8"))
+    );
+    expect(goldenSet.cases.length).toBeGreaterThan(10);
+    expect(goldenSet.cases.filter((goldenCase) => goldenCase.expectNotFound)).toHaveLength(2);
+
+    expect(() =>
+      parseGoldenSet({
+        name: "broken",
+        corpus: ["policy.txt"],
+        cases: [{ id: "a", question: "Q?", expectedFacts: ["x"], expectedCitationDocs: ["missing.txt"] }]
+      })
+    ).toThrow(GoldenSetError);
+  });
+});
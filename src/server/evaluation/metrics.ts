@@ -0,0 +1,264 @@
+import type { EvidenceAnswer } from "@/server/answerEngine";
+import type { GoldenCase } from "@/server/evaluation/goldenSet";
+import { NOT_FOUND_TEXT, PARTIAL_TEXT, type AnswerKind } from "@/shared/answerTemplates";
+
+export type EvaluationStatus = AnswerKind;
+
+export type EvaluatedCase = {
+  id: string;
+  category: string | null;
+  question: string;
+  answer: string;
+  status: EvaluationStatus;
+  citedDocs: string[];
+  matchedFacts: string[];
+  missingFacts: string[];
+  /** Cited documents that are in the expected set. */
+  correctCitationCount: number;
+  expectedCitationCount: number;
+  correct: boolean;
+};
+
+export type EvaluationSummary = {
+  cases: number;
+  correct: number;
+  accuracy: number;
+  /** Micro-averaged over every cited document in the run. */
+  citationPrecision: number;
+  citationRecall: number;
+  factRecall: number;
+  /** Answerable questions the engine reported as not found. */
+  falseNotFound: number;
+  /** Unanswerable questions the engine answered anyway. */
+  unsupportedAnswers: number;
+  statusCounts: Record<EvaluationStatus, number>;
+};
+
+export type EvaluationRun = {
+  goldenSet: string;
+  createdAt: string;
+  settings: Record<string, string | number | boolean>;
+  cases: EvaluatedCase[];
+  summary: EvaluationSummary;
+};
+
+export type EvaluationCaseChange = {
+  id: string;
+  question: string;
+  before: EvaluatedCase | null;
+  after: EvaluatedCase | null;
+};
+
+export type EvaluationDiff = {
+  baseline: Pick<EvaluationRun, "goldenSet" | "createdAt" | "summary">;
+  candidate: Pick<EvaluationRun, "goldenSet" | "createdAt" | "summary">;
+  settingChanges: Array<{ key: string; before: string | number | boolean | null; after: string | number | boolean | null }>;
+  regressions: EvaluationCaseChange[];
+  improvements: EvaluationCaseChange[];
+  /** Still correct or still wrong, but the answer text or cited documents moved. */
+  changedAnswers: EvaluationCaseChange[];
+};
+
+function normalizeFactText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function classifyAnswer(answer: string): EvaluationStatus {
+  const trimmed = answer.trim();
+  if (!trimmed || trimmed === NOT_FOUND_TEXT) {
+    return "NOT_FOUND";
+  }
+
+  return trimmed === PARTIAL_TEXT ? "PARTIAL" : "FOUND";
+}
+
+export function scoreCase(goldenCase: GoldenCase, result: Pick<EvidenceAnswer, "answer" | "citations">): EvaluatedCase {
+  const status = classifyAnswer(result.answer);
+  const citedDocs = Array.from(new Set(result.citations.map((citation) => citation.docName))).sort();
+  const expectedDocs = new Set(goldenCase.expectedCitationDocs);
+  const normalizedAnswer = normalizeFactText(result.answer);
+  const matchedFacts = goldenCase.expectedFacts.filter((fact) => normalizedAnswer.includes(normalizeFactText(fact)));
+  const missingFacts = goldenCase.expectedFacts.filter((fact) => !matchedFacts.includes(fact));
+
+  return {
+    id: goldenCase.id,
+    category: goldenCase.category,
+    question: goldenCase.question,
+    answer: result.answer,
+    status,
+    citedDocs,
+    matchedFacts,
+    missingFacts,
+    correctCitationCount: citedDocs.filter((docName) => expectedDocs.has(docName)).length,
+    expectedCitationCount: expectedDocs.size,
+    correct: goldenCase.expectNotFound
+      ? status === "NOT_FOUND"
+      : status === "FOUND" && missingFacts.length === 0
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+export function summarizeCases(goldenCases: GoldenCase[], evaluated: EvaluatedCase[]): EvaluationSummary {
+  const expectNotFoundById = new Map(goldenCases.map((goldenCase) => [goldenCase.id, goldenCase.expectNotFound]));
+  const statusCounts: Record<EvaluationStatus, number> = { FOUND: 0, PARTIAL: 0, NOT_FOUND: 0 };
+  let cited = 0;
+  let correctCitations = 0;
+  let expectedCitations = 0;
+  let expectedFacts = 0;
+  let matchedFacts = 0;
+  let falseNotFound = 0;
+  let unsupportedAnswers = 0;
+
+  for (const entry of evaluated) {
+    statusCounts[entry.status] += 1;
+    cited += entry.citedDocs.length;
+    correctCitations += entry.correctCitationCount;
+    expectedCitations += entry.expectedCitationCount;
+    expectedFacts += entry.matchedFacts.length + entry.missingFacts.length;
+    matchedFacts += entry.matchedFacts.length;
+
+    const expectNotFound = expectNotFoundById.get(entry.id) ?? false;
+    if (!expectNotFound && entry.status === "NOT_FOUND") {
+      falseNotFound += 1;
+    }
+    if (expectNotFound && entry.status !== "NOT_FOUND") {
+      unsupportedAnswers += 1;
+    }
+  }
+
+  const correct = evaluated.filter((entry) => entry.correct).length;
+  return {
+    cases: evaluated.length,
+    correct,
+    accuracy: ratio(correct, evaluated.length),
+    citationPrecision: ratio(correctCitations, cited),
+    citationRecall: ratio(correctCitations, expectedCitations),
+    factRecall: ratio(matchedFacts, expectedFacts),
+    falseNotFound,
+    unsupportedAnswers,
+    statusCounts
+  };
+}
+
+function hasAnswerChanged(before: EvaluatedCase, after: EvaluatedCase): boolean {
+  return before.answer !== after.answer || before.citedDocs.join("\n") !== after.citedDocs.join("\n");
+}
+
+export function diffEvaluationRuns(baseline: EvaluationRun, candidate: EvaluationRun): EvaluationDiff {
+  const baselineById = new Map(baseline.cases.map((entry) => [entry.id, entry]));
+  const candidateById = new Map(candidate.cases.map((entry) => [entry.id, entry]));
+  const caseIds = Array.from(new Set([...baselineById.keys(), ...candidateById.keys()]));
+  const regressions: EvaluationCaseChange[] = [];
+  const improvements: EvaluationCaseChange[] = [];
+  const changedAnswers: EvaluationCaseChange[] = [];
+
+  for (const id of caseIds) {
+    const before = baselineById.get(id) ?? null;
+    const after = candidateById.get(id) ?? null;
+    const change = { id, question: (after ?? before)?.question ?? "", before, after };
+
+    if (before?.correct && !after?.correct) {
+      regressions.push(change);
+    } else if (!before?.correct && after?.correct) {
+      improvements.push(change);
+    } else if (before && after && hasAnswerChanged(before, after)) {
+      changedAnswers.push(change);
+    }
+  }
+
+  const settingKeys = Array.from(new Set([...Object.keys(baseline.settings), ...Object.keys(candidate.settings)])).sort();
+  const settingChanges = settingKeys
+    .map((key) => ({ key, before: baseline.settings[key] ?? null, after: candidate.settings[key] ?? null }))
+    .filter((change) => change.before !== change.after);
+
+  return {
+    baseline: { goldenSet: baseline.goldenSet, createdAt: baseline.createdAt, summary: baseline.summary },
+    candidate: { goldenSet: candidate.goldenSet, createdAt: candidate.createdAt, summary: candidate.summary },
+    settingChanges,
+    regressions,
+    improvements,
+    changedAnswers
+  };
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = (after - before) * 100;
+  return `${formatPercent(before)} -> ${formatPercent(after)} (${delta >= 0 ? "+" : ""}${delta.toFixed(1)} pts)`;
+}
+
+function formatSummaryLines(summary: EvaluationSummary): string[] {
+  return [
+    `Cases: ${summary.cases}`,
+    `Correct: ${summary.correct} (${formatPercent(summary.accuracy)})`,
+    `Citation precision: ${formatPercent(summary.citationPrecision)}`,
+    `Citation recall: ${formatPercent(summary.citationRecall)}`,
+    `Fact recall: ${formatPercent(summary.factRecall)}`,
+    `FOUND: ${summary.statusCounts.FOUND}, PARTIAL: ${summary.statusCounts.PARTIAL}, NOT_FOUND: ${summary.statusCounts.NOT_FOUND}`,
+    `False NOT_FOUND: ${summary.falseNotFound}`,
+    `Answered without support: ${summary.unsupportedAnswers}`
+  ];
+}
+
+export function formatEvaluationReport(run: EvaluationRun): string {
+  const failures = run.cases
+    .filter((entry) => !entry.correct)
+    .map((entry) => {
+      const detail = entry.missingFacts.length > 0 ? `missing: ${entry.missingFacts.join(", ")}` : entry.status;
+      return `- ${entry.id}: ${detail}`;
+    });
+
+  return [
+    "Answer Engine Evaluation",
+    `Golden set: ${run.goldenSet}`,
+    `Run at: ${run.createdAt}`,
+    ...formatSummaryLines(run.summary),
+    "",
+    "Settings",
+    ...Object.entries(run.settings).map(([key, value]) => `- ${key}: ${value}`),
+    "",
+    "Incorrect Cases",
+    ...(failures.length > 0 ? failures : ["- none"])
+  ].join("\n");
+}
+
+function formatCaseChange(change: EvaluationCaseChange): string {
+  const describe = (entry: EvaluatedCase | null) =>
+    entry ? `${entry.status}${entry.missingFacts.length > 0 ? ` missing [${entry.missingFacts.join(", ")}]` : ""}` : "absent";
+  return `- ${change.id}: ${describe(change.before)} -> ${describe(change.after)}`;
+}
+
+export function formatEvaluationDiff(diff: EvaluationDiff): string {
+  const before = diff.baseline.summary;
+  const after = diff.candidate.summary;
+
+  return [
+    "Answer Engine Evaluation Diff",
+    `Baseline: ${diff.baseline.goldenSet} @ ${diff.baseline.createdAt}`,
+    `Candidate: ${diff.candidate.goldenSet} @ ${diff.candidate.createdAt}`,
+    `Accuracy: ${formatDelta(before.accuracy, after.accuracy)}`,
+    `Citation precision: ${formatDelta(before.citationPrecision, after.citationPrecision)}`,
+    `Citation recall: ${formatDelta(before.citationRecall, after.citationRecall)}`,
+    `Fact recall: ${formatDelta(before.factRecall, after.factRecall)}`,
+    "",
+    "Setting Changes",
+    ...(diff.settingChanges.length > 0
+      ? diff.settingChanges.map((change) => `- ${change.key}: ${change.before} -> ${change.after}`)
+      : ["- none"]),
+    "",
+    `Regressions (${diff.regressions.length})`,
+    ...(diff.regressions.length > 0 ? diff.regressions.map(formatCaseChange) : ["- none"]),
+    "",
+    `Improvements (${diff.improvements.length})`,
+    ...(diff.improvements.length > 0 ? diff.improvements.map(formatCaseChange) : ["- none"]),
+    "",
+    `Changed Answers (${diff.changedAnswers.length})`,
+    ...(diff.changedAnswers.length > 0 ? diff.changedAnswers.map(formatCaseChange) : ["- none"])
+  ].join("\n");
+}
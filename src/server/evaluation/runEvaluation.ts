@@ -0,0 +1,122 @@
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { AiProvider } from "@/lib/aiProvider";
+import { chunkSegments } from "@/lib/chunker";
+import { extractSegments, inferMimeType } from "@/lib/extractText";
+import { createLocalAiProvider } from "@/lib/localAiProvider";
+import { prisma } from "@/lib/prisma";
+import { embeddingToVectorLiteral } from "@/lib/retrieval";
+import { answerQuestion, getAnswerEngineSettings } from "@/server/answerEngine";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+import type { GoldenSet } from "@/server/evaluation/goldenSet";
+import { scoreCase, summarizeCases, type EvaluatedCase, type EvaluationRun } from "@/server/evaluation/metrics";
+
+export const EVALUATION_ORG_PREFIX = "eval-harness-";
+
+async function ingestCorpusFile(params: {
+  organizationId: string;
+  filePath: string;
+  aiProvider: AiProvider;
+}) {
+  const fileName = path.basename(params.filePath);
+  const bytes = await readFile(params.filePath);
+  const mimeType = inferMimeType({ name: fileName, type: "" });
+  const segments = await extractSegments(new File([bytes], fileName, { type: mimeType }));
+  const chunks = chunkSegments(segments, { strategy: "FIXED_WINDOW" });
+  if (chunks.length === 0) {
+    throw new Error(`Corpus file produced no chunks: ${params.filePath}`);
+  }
+
+  const document = await prisma.document.create({
+    data: {
+      organizationId: params.organizationId,
+      name: fileName,
+      originalName: fileName,
+      mimeType,
+      status: "CHUNKED",
+      chunks: {
+        create: chunks.map((chunk) => ({
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          pageNumber: chunk.pageNumber,
+          sectionNumber: chunk.sectionNumber,
+          headingPath: chunk.headingPath,
+          evidenceFingerprint: computeEvidenceFingerprint(chunk.content)
+        }))
+      }
+    },
+    include: { chunks: { select: { id: true, content: true } } }
+  });
+
+  for (const chunk of document.chunks) {
+    const embedding = await params.aiProvider.createEmbedding(chunk.content);
+    await prisma.$executeRawUnsafe(
+      `
+        UPDATE "DocumentChunk"
+        SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3
+        WHERE "id" = $4
+      `,
+      embeddingToVectorLiteral(embedding),
+      params.aiProvider.embeddingModel,
+      embedding.length,
+      chunk.id
+    );
+  }
+}
+
+async function deleteEvaluationOrganization(organizationId: string) {
+  await prisma.documentChunk.deleteMany({ where: { document: { organizationId } } });
+  await prisma.document.deleteMany({ where: { organizationId } });
+  await prisma.organization.delete({ where: { id: organizationId } });
+}
+
+/**
+ * Loads the golden set's corpus into a throwaway organization, answers every case with the real
+ * engine and scores the results. The LOCAL provider is the default so runs are deterministic and
+ * comparable; pass another provider to measure a hosted model.
+ */
+export async function runEvaluation(params: {
+  goldenSet: GoldenSet;
+  corpusDir: string;
+  aiProvider?: AiProvider;
+}): Promise<EvaluationRun> {
+  const aiProvider = params.aiProvider ?? createLocalAiProvider();
+  const organization = await prisma.organization.create({
+    data: { name: `${EVALUATION_ORG_PREFIX}${randomUUID()}`, aiProvider: aiProvider.kind }
+  });
+
+  try {
+    for (const corpusPath of params.goldenSet.corpus) {
+      await ingestCorpusFile({
+        organizationId: organization.id,
+        filePath: path.resolve(params.corpusDir, corpusPath),
+        aiProvider
+      });
+    }
+
+    const evaluated: EvaluatedCase[] = [];
+    for (const goldenCase of params.goldenSet.cases) {
+      const answer = await answerQuestion({
+        orgId: organization.id,
+        questionText: goldenCase.question,
+        aiProvider
+      });
+      evaluated.push(scoreCase(goldenCase, answer));
+    }
+
+    return {
+      goldenSet: params.goldenSet.name,
+      createdAt: new Date().toISOString(),
+      settings: {
+        ...getAnswerEngineSettings(),
+        chatModel: aiProvider.chatModel,
+        embeddingModel: aiProvider.embeddingModel
+      },
+      cases: evaluated,
+      summary: summarizeCases(params.goldenSet.cases, evaluated)
+    };
+  } finally {
+    await deleteEvaluationOrganization(organization.id);
+  }
+}
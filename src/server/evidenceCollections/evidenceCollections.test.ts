@@ -0,0 +1,205 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { createApprovedAnswerReuseMatcher } from "@/lib/approvedAnswerReuse";
+import { prisma } from "@/lib/prisma";
+import { buildQuestionTextMetadata } from "@/lib/questionText";
+import {
+  countEmbeddedChunksForOrganization,
+  embeddingToVectorLiteral,
+  retrieveTopChunks
+} from "@/lib/retrieval";
+import { syncApprovedAnswerEvidenceSnapshots } from "@/server/approvedAnswers/evidenceSnapshots";
+import {
+  deleteEvidenceCollection,
+  parseEvidenceCollectionInput,
+  saveEvidenceCollection
+} from "@/server/evidenceCollections/evidenceCollections";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+
+const TEST_ORG_PREFIX = "vitest-evidence-collections-";
+const EMBEDDING_MODEL = "openai:text-embedding-3-small";
+
+function sparseEmbedding(primaryIndex: number): number[] {
+  const vector = new Array(1536).fill(0);
+  vector[primaryIndex] = 1;
+  return vector;
+}
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.approvedAnswerEvidence.deleteMany({
+    where: { approvedAnswer: { organizationId: { in: organizationIds } } }
+  });
+  await prisma.approvedAnswer.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.questionnaire.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.evidenceCollection.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.documentChunk.deleteMany({ where: { document: { organizationId: { in: organizationIds } } } });
+  await prisma.document.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+}
+
+async function seedEmbeddedDocument(organizationId: string, content: string, embeddingIndex: number) {
+  const name = `collection-doc-${randomUUID()}`;
+  const document = await prisma.document.create({
+    data: {
+      organizationId,
+      name,
+      originalName: `${name}.txt`,
+      mimeType: "text/plain",
+      status: "CHUNKED"
+    }
+  });
+  const chunk = await prisma.documentChunk.create({
+    data: {
+      documentId: document.id,
+      chunkIndex: 0,
+      content,
+      evidenceFingerprint: computeEvidenceFingerprint(content)
+    }
+  });
+  await prisma.$executeRawUnsafe(
+    `UPDATE "DocumentChunk" SET "embedding" = $1::vector, "embeddingModel" = $3 WHERE "id" = $2`,
+    embeddingToVectorLiteral(sparseEmbedding(embeddingIndex)),
+    chunk.id,
+    EMBEDDING_MODEL
+  );
+
+  return { documentId: document.id, chunkId: chunk.id };
+}
+
+async function seedApprovedAnswer(params: {
+  organizationId: string;
+  questionText: string;
+  answerText: string;
+  chunkId: string;
+  evidenceCollectionId: string | null;
+}) {
+  const metadata = buildQuestionTextMetadata(params.questionText);
+  const approvedAnswer = await prisma.approvedAnswer.create({
+    data: {
+      organizationId: params.organizationId,
+      questionText: params.questionText,
+      normalizedQuestionText: metadata.normalizedQuestionText,
+      questionTextHash: metadata.questionTextHash,
+      answerText: params.answerText,
+      citationChunkIds: [params.chunkId],
+      source: "GENERATED",
+      evidenceCollectionId: params.evidenceCollectionId
+    }
+  });
+  await syncApprovedAnswerEvidenceSnapshots({
+    db: prisma,
+    organizationId: params.organizationId,
+    approvedAnswerId: approvedAnswer.id,
+    citationChunkIds: [params.chunkId]
+  });
+}
+
+describe.sequential("evidence collections", () => {
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await cleanupTestOrganizations();
+    await prisma.$disconnect();
+  });
+
+  it("validates membership and names and refuses to delete a collection in use", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const otherOrganization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const ownDocument = await seedEmbeddedDocument(organization.id, "Own evidence", 1);
+    const foreignDocument = await seedEmbeddedDocument(otherOrganization.id, "Foreign evidence", 2);
+
+    await expect(
+      saveEvidenceCollection({
+        orgId: organization.id,
+        input: parseEvidenceCollectionInput({ name: "Product A", documentIds: [foreignDocument.documentId] }, null)
+      })
+    ).rejects.toMatchObject({ status: 400 });
+
+    const collection = await saveEvidenceCollection({
+      orgId: organization.id,
+      input: parseEvidenceCollectionInput({ name: "Product A", documentIds: [ownDocument.documentId] }, null)
+    });
+    expect(collection).toMatchObject({ name: "Product A", documentIds: [ownDocument.documentId] });
+
+    await expect(
+      saveEvidenceCollection({
+        orgId: organization.id,
+        input: parseEvidenceCollectionInput({ name: "Product A" }, null)
+      })
+    ).rejects.toMatchObject({ status: 409 });
+
+    await prisma.questionnaire.create({
+      data: { organizationId: organization.id, name: "Scoped questionnaire", evidenceCollectionId: collection.id }
+    });
+    await expect(
+      deleteEvidenceCollection({ orgId: organization.id, collectionId: collection.id })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("limits retrieval and approved answer reuse to the questionnaire scope", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const productA = await seedEmbeddedDocument(organization.id, "Product A encrypts data with AES-256.", 3);
+    const productB = await seedEmbeddedDocument(organization.id, "Product B encrypts data with AES-128.", 3);
+    const collection = await saveEvidenceCollection({
+      orgId: organization.id,
+      input: parseEvidenceCollectionInput({ name: "Product A", documentIds: [productA.documentId] }, null)
+    });
+
+    await expect(countEmbeddedChunksForOrganization(organization.id, EMBEDDING_MODEL)).resolves.toBe(2);
+    await expect(
+      countEmbeddedChunksForOrganization(organization.id, EMBEDDING_MODEL, prisma, collection.id)
+    ).resolves.toBe(1);
+
+    const scopedChunks = await retrieveTopChunks({
+      organizationId: organization.id,
+      embeddingModel: EMBEDDING_MODEL,
+      questionEmbedding: sparseEmbedding(3),
+      questionText: "How is data encrypted?",
+      evidenceCollectionId: collection.id
+    });
+    expect(scopedChunks.map((chunk) => chunk.chunkId)).toEqual([productA.chunkId]);
+
+    const questionText = "Is customer data encrypted at rest?";
+    await seedApprovedAnswer({
+      organizationId: organization.id,
+      questionText,
+      answerText: "Yes, with AES-128.",
+      chunkId: productB.chunkId,
+      evidenceCollectionId: null
+    });
+    await seedApprovedAnswer({
+      organizationId: organization.id,
+      questionText,
+      answerText: "Yes, with AES-256.",
+      chunkId: productA.chunkId,
+      evidenceCollectionId: collection.id
+    });
+
+    const scopedMatcher = await createApprovedAnswerReuseMatcher({
+      organizationId: organization.id,
+      evidenceCollectionId: collection.id
+    });
+    const unscopedMatcher = await createApprovedAnswerReuseMatcher({ organizationId: organization.id });
+
+    await expect(scopedMatcher.findForQuestion(questionText)).resolves.toMatchObject({
+      answerText: "Yes, with AES-256."
+    });
+    await expect(unscopedMatcher.findForQuestion(questionText)).resolves.toMatchObject({
+      answerText: "Yes, with AES-128."
+    });
+  });
+});
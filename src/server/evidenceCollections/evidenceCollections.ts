@@ -0,0 +1,231 @@
+import { Prisma, type EvidenceCollection } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export type EvidenceCollectionRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  documentIds: string[];
+  questionnaireCount: number;
+  updatedAt: string;
+};
+
+export type EvidenceCollectionInput = {
+  name: string;
+  description: string | null;
+  documentIds?: string[];
+};
+
+/** Scope reference returned alongside questionnaires and approved answers. */
+export type EvidenceScopeRef = {
+  id: string;
+  name: string;
+};
+
+type EvidenceCollectionWithRelations = EvidenceCollection & {
+  documents: Array<{ documentId: string }>;
+  _count: { questionnaires: number };
+};
+
+const collectionInclude = {
+  documents: { select: { documentId: true }, orderBy: { createdAt: "asc" } },
+  _count: { select: { questionnaires: true } }
+} as const;
+
+function toEvidenceCollectionRow(collection: EvidenceCollectionWithRelations): EvidenceCollectionRow {
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    documentIds: collection.documents.map((entry) => entry.documentId),
+    questionnaireCount: collection._count.questionnaires,
+    updatedAt: collection.updatedAt.toISOString()
+  };
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+function notFoundError(): ApiRouteError {
+  return new ApiRouteError({
+    status: 404,
+    code: "NOT_FOUND",
+    message: "Evidence collection not found."
+  });
+}
+
+export function parseEvidenceCollectionInput(
+  body: Record<string, unknown>,
+  existing: EvidenceCollection | null
+): EvidenceCollectionInput {
+  const name = typeof body.name === "string" ? body.name.trim() : existing?.name ?? "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw validationError(`name is required and must be at most ${MAX_NAME_LENGTH} characters.`);
+  }
+
+  let description = existing?.description ?? null;
+  if (body.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== "string" || body.description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw validationError(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters.`);
+    }
+    description = (body.description as string | null)?.trim() || null;
+  }
+
+  let documentIds: string[] | undefined;
+  if (body.documentIds !== undefined) {
+    if (!Array.isArray(body.documentIds) || body.documentIds.some((entry) => typeof entry !== "string")) {
+      throw validationError("documentIds must be an array of ids.");
+    }
+    documentIds = Array.from(new Set((body.documentIds as string[]).map((entry) => entry.trim()).filter(Boolean)));
+  }
+
+  return { name, description, documentIds };
+}
+
+export async function listEvidenceCollections(orgId: string): Promise<EvidenceCollectionRow[]> {
+  const collections = await prisma.evidenceCollection.findMany({
+    where: { organizationId: orgId },
+    orderBy: [{ name: "asc" }],
+    include: collectionInclude
+  });
+
+  return collections.map(toEvidenceCollectionRow);
+}
+
+export async function getEvidenceCollectionOrThrow(params: {
+  orgId: string;
+  collectionId: string;
+}): Promise<EvidenceCollection> {
+  const collection = await prisma.evidenceCollection.findFirst({
+    where: { id: params.collectionId, organizationId: params.orgId }
+  });
+  if (!collection) {
+    throw notFoundError();
+  }
+
+  return collection;
+}
+
+/**
+ * Reads an optional `evidenceCollectionId` from a request body or form field. Undefined means "not
+ * provided"; null or an empty string clears the scope.
+ */
+export async function resolveEvidenceCollectionId(params: {
+  orgId: string;
+  value: unknown;
+}): Promise<string | null | undefined> {
+  if (params.value === undefined) {
+    return undefined;
+  }
+  if (params.value === null || params.value === "") {
+    return null;
+  }
+  if (typeof params.value !== "string") {
+    throw validationError("evidenceCollectionId must be a string or null.");
+  }
+
+  const collection = await prisma.evidenceCollection.findFirst({
+    where: { id: params.value.trim(), organizationId: params.orgId },
+    select: { id: true }
+  });
+  if (!collection) {
+    throw validationError("evidenceCollectionId must reference an evidence collection in this organization.");
+  }
+
+  return collection.id;
+}
+
+async function assertDocumentsBelongToOrg(orgId: string, documentIds: string[] | undefined) {
+  if (!documentIds?.length) {
+    return;
+  }
+
+  const count = await prisma.document.count({
+    where: { organizationId: orgId, id: { in: documentIds } }
+  });
+  if (count !== documentIds.length) {
+    throw validationError("documentIds must reference documents in this organization.");
+  }
+}
+
+function conflictOnDuplicateName(error: unknown, name: string): never {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: `An evidence collection named "${name}" already exists.`
+    });
+  }
+  throw error;
+}
+
+/** Creates or updates a collection; membership is replaced only when `documentIds` is provided. */
+export async function saveEvidenceCollection(params: {
+  orgId: string;
+  collectionId?: string;
+  input: EvidenceCollectionInput;
+}): Promise<EvidenceCollectionRow> {
+  const { input } = params;
+  await assertDocumentsBelongToOrg(params.orgId, input.documentIds);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const saved = params.collectionId
+        ? await tx.evidenceCollection.update({
+            where: { id: params.collectionId },
+            data: { name: input.name, description: input.description }
+          })
+        : await tx.evidenceCollection.create({
+            data: { organizationId: params.orgId, name: input.name, description: input.description }
+          });
+
+      if (input.documentIds) {
+        await tx.evidenceCollectionDocument.deleteMany({
+          where: { collectionId: saved.id, documentId: { notIn: input.documentIds } }
+        });
+        await tx.evidenceCollectionDocument.createMany({
+          data: input.documentIds.map((documentId) => ({ collectionId: saved.id, documentId })),
+          skipDuplicates: true
+        });
+      }
+
+      const reloaded = await tx.evidenceCollection.findUniqueOrThrow({
+        where: { id: saved.id },
+        include: collectionInclude
+      });
+      return toEvidenceCollectionRow(reloaded);
+    });
+  } catch (error) {
+    return conflictOnDuplicateName(error, input.name);
+  }
+}
+
+/**
+ * Deletes a collection. Questionnaires and approved answers scoped to it fall back to the whole
+ * organization, so deletion is refused while a questionnaire still uses it.
+ */
+export async function deleteEvidenceCollection(params: { orgId: string; collectionId: string }): Promise<EvidenceCollection> {
+  const collection = await getEvidenceCollectionOrThrow(params);
+  const questionnaireCount = await prisma.questionnaire.count({
+    where: { evidenceCollectionId: collection.id }
+  });
+  if (questionnaireCount > 0) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: `"${collection.name}" is the evidence scope of ${questionnaireCount} questionnaire${questionnaireCount === 1 ? "" : "s"}.`
+    });
+  }
+
+  await prisma.evidenceCollection.delete({ where: { id: collection.id } });
+  return collection;
+}
@@ -0,0 +1,360 @@
+import { MembershipRole, type InviteRole, type Prisma } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { createInviteToken, getInviteExpiryDate } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+import { RequestContextError, type RequestContext } from "@/lib/requestContext";
+import { recordAuditEvent } from "@/server/audit/recordAuditEvent";
+import { isRoleAtLeast, RbacAction } from "@/server/rbac";
+
+export type PendingInviteRow = {
+  id: string;
+  email: string;
+  role: InviteRole;
+  expiresAt: string;
+  expired: boolean;
+  lastSentAt: string;
+  createdAt: string;
+  createdByEmail: string | null;
+};
+
+export type RemovedMember = {
+  userId: string;
+  email: string;
+  role: MembershipRole;
+  unassignedQuestionCount: number;
+  revokedApiTokenCount: number;
+  withdrawnSignOffCount: number;
+};
+
+function memberNotFound(): ApiRouteError {
+  return new ApiRouteError({
+    status: 404,
+    code: "NOT_FOUND",
+    message: "Member not found."
+  });
+}
+
+async function findMembershipOrThrow(tx: Prisma.TransactionClient, orgId: string, userId: string) {
+  const membership = await tx.membership.findUnique({
+    where: {
+      userId_organizationId: {
+        userId,
+        organizationId: orgId
+      }
+    },
+    include: {
+      user: {
+        select: {
+          email: true
+        }
+      }
+    }
+  });
+
+  if (!membership) {
+    throw memberNotFound();
+  }
+
+  return membership;
+}
+
+async function countOwners(tx: Prisma.TransactionClient, orgId: string): Promise<number> {
+  return tx.membership.count({
+    where: {
+      organizationId: orgId,
+      role: MembershipRole.OWNER
+    }
+  });
+}
+
+/**
+ * Offboards a member: drops the membership, hands their open question assignments back to the
+ * pool, revokes every API token they minted in this organization and withdraws their pending
+ * two-person sign-offs so nobody can complete one on a departed member's behalf. Admins cannot remove
+ * members who outrank them, and the last OWNER can never be removed.
+ */
+export async function removeOrganizationMember(params: {
+  ctx: RequestContext;
+  request?: Request | null;
+  targetUserId: string;
+}): Promise<RemovedMember> {
+  const { ctx } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const membership = await findMembershipOrThrow(tx, ctx.orgId, params.targetUserId);
+
+    if (!isRoleAtLeast(ctx.role, membership.role)) {
+      throw new RequestContextError(`Only owners can remove a member with the ${membership.role} role.`, {
+        code: "FORBIDDEN",
+        status: 403
+      });
+    }
+
+    if (membership.role === MembershipRole.OWNER && (await countOwners(tx, ctx.orgId)) <= 1) {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: "Cannot remove the last OWNER in the organization. Transfer ownership first."
+      });
+    }
+
+    await tx.membership.delete({
+      where: { id: membership.id }
+    });
+
+    const unassigned = await tx.question.updateMany({
+      where: {
+        assigneeUserId: membership.userId,
+        questionnaire: { organizationId: ctx.orgId }
+      },
+      data: { assigneeUserId: null }
+    });
+
+    const revokedTokens = await tx.apiToken.updateMany({
+      where: {
+        organizationId: ctx.orgId,
+        userId: membership.userId,
+        revokedAt: null
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedByUserId: ctx.userId
+      }
+    });
+
+    const signOffWhere = { organizationId: ctx.orgId, signedByUserId: membership.userId };
+    const withdrawnSignOffs = await tx.pendingApproval.deleteMany({ where: signOffWhere });
+    const withdrawnLibrarySignOffs = await tx.pendingLibraryApproval.deleteMany({ where: signOffWhere });
+    const withdrawnSignOffCount = withdrawnSignOffs.count + withdrawnLibrarySignOffs.count;
+
+    await recordAuditEvent({
+      db: tx,
+      ctx,
+      request: params.request,
+      action: RbacAction.REMOVE_MEMBERS,
+      targetType: "MEMBER",
+      targetId: membership.userId,
+      targetLabel: membership.user.email,
+      summary: `Removed ${membership.user.email ?? "member"} (${membership.role}) from the organization.`,
+      before: { role: membership.role },
+      after: {
+        unassignedQuestionCount: unassigned.count,
+        revokedApiTokenCount: revokedTokens.count,
+        withdrawnSignOffCount
+      }
+    });
+
+    return {
+      userId: membership.userId,
+      email: membership.user.email ?? "",
+      role: membership.role,
+      unassignedQuestionCount: unassigned.count,
+      revokedApiTokenCount: revokedTokens.count,
+      withdrawnSignOffCount
+    };
+  });
+}
+
+/**
+ * Promotes another member to OWNER and steps the current owner down to ADMIN in one transaction,
+ * so the organization is never left without an owner.
+ */
+export async function transferOrganizationOwnership(params: {
+  ctx: RequestContext;
+  request?: Request | null;
+  targetUserId: string;
+}): Promise<{ newOwner: { userId: string; email: string }; previousOwnerRole: MembershipRole }> {
+  const { ctx } = params;
+  if (params.targetUserId === ctx.userId) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Choose another member to transfer ownership to."
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const [actorMembership, targetMembership] = await Promise.all([
+      findMembershipOrThrow(tx, ctx.orgId, ctx.userId),
+      findMembershipOrThrow(tx, ctx.orgId, params.targetUserId)
+    ]);
+
+    if (actorMembership.role !== MembershipRole.OWNER) {
+      throw new RequestContextError("Only an OWNER can transfer ownership.", {
+        code: "FORBIDDEN",
+        status: 403
+      });
+    }
+
+    await tx.membership.update({
+      where: { id: targetMembership.id },
+      data: { role: MembershipRole.OWNER }
+    });
+    await tx.membership.update({
+      where: { id: actorMembership.id },
+      data: { role: MembershipRole.ADMIN }
+    });
+
+    await recordAuditEvent({
+      db: tx,
+      ctx,
+      request: params.request,
+      action: RbacAction.TRANSFER_OWNERSHIP,
+      targetType: "MEMBER",
+      targetId: targetMembership.userId,
+      targetLabel: targetMembership.user.email,
+      summary: `Transferred ownership to ${targetMembership.user.email ?? "member"}; ${
+        actorMembership.user.email ?? "previous owner"
+      } is now ADMIN.`,
+      before: { role: targetMembership.role, previousOwnerRole: MembershipRole.OWNER },
+      after: { role: MembershipRole.OWNER, previousOwnerRole: MembershipRole.ADMIN }
+    });
+
+    return {
+      newOwner: {
+        userId: targetMembership.userId,
+        email: targetMembership.user.email ?? ""
+      },
+      previousOwnerRole: MembershipRole.ADMIN
+    };
+  });
+}
+
+/** Outstanding invites, including expired ones that can still be re-sent. */
+export async function listPendingInvites(orgId: string, now = new Date()): Promise<PendingInviteRow[]> {
+  const invites = await prisma.organizationInvite.findMany({
+    where: {
+      organizationId: orgId,
+      usedAt: null,
+      revokedAt: null
+    },
+    orderBy: [{ createdAt: "desc" }],
+    include: {
+      createdByUser: {
+        select: {
+          email: true
+        }
+      }
+    }
+  });
+
+  return invites.map((invite) => ({
+    id: invite.id,
+    email: invite.email,
+    role: invite.role,
+    expiresAt: invite.expiresAt.toISOString(),
+    expired: invite.expiresAt <= now,
+    lastSentAt: invite.lastSentAt.toISOString(),
+    createdAt: invite.createdAt.toISOString(),
+    createdByEmail: invite.createdByUser.email
+  }));
+}
+
+async function getOpenInviteOrThrow(orgId: string, inviteId: string) {
+  const invite = await prisma.organizationInvite.findFirst({
+    where: {
+      id: inviteId,
+      organizationId: orgId
+    }
+  });
+
+  if (!invite) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Invite not found."
+    });
+  }
+
+  if (invite.usedAt || invite.revokedAt) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: invite.usedAt ? "Invite was already accepted." : "Invite was already revoked."
+    });
+  }
+
+  return invite;
+}
+
+export async function revokeInvite(params: {
+  ctx: RequestContext;
+  request?: Request | null;
+  inviteId: string;
+}): Promise<{ id: string; email: string }> {
+  const invite = await getOpenInviteOrThrow(params.ctx.orgId, params.inviteId);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.organizationInvite.update({
+      where: { id: invite.id },
+      data: {
+        revokedAt: new Date(),
+        revokedByUserId: params.ctx.userId
+      }
+    });
+
+    await recordAuditEvent({
+      db: tx,
+      ctx: params.ctx,
+      request: params.request,
+      action: RbacAction.INVITE_MEMBERS,
+      targetType: "INVITE",
+      targetId: invite.id,
+      targetLabel: invite.email,
+      summary: `Revoked the invite for ${invite.email}.`,
+      before: {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt.toISOString()
+      }
+    });
+  });
+
+  return { id: invite.id, email: invite.email };
+}
+
+/**
+ * Issues a fresh token and expiry for an open invite, which also invalidates the previously sent
+ * link. The caller is responsible for emailing the new link.
+ */
+export async function reissueInvite(params: {
+  ctx: RequestContext;
+  request?: Request | null;
+  inviteId: string;
+}): Promise<{ id: string; email: string; role: InviteRole; token: string; expiresAt: Date }> {
+  const invite = await getOpenInviteOrThrow(params.ctx.orgId, params.inviteId);
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.organizationInvite.update({
+      where: { id: invite.id },
+      data: {
+        token: createInviteToken(),
+        expiresAt: getInviteExpiryDate(now),
+        lastSentAt: now
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        token: true,
+        expiresAt: true
+      }
+    });
+
+    await recordAuditEvent({
+      db: tx,
+      ctx: params.ctx,
+      request: params.request,
+      action: RbacAction.INVITE_MEMBERS,
+      targetType: "INVITE",
+      targetId: updated.id,
+      targetLabel: updated.email,
+      summary: `Re-sent the invite for ${updated.email}.`,
+      before: { expiresAt: invite.expiresAt.toISOString() },
+      after: { expiresAt: updated.expiresAt.toISOString() }
+    });
+
+    return updated;
+  });
+}
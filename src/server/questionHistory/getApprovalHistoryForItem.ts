@@ -2,8 +2,21 @@ import { prisma } from "@/lib/prisma";
 import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
 
 export type ApprovalHistoryEntry = {
-  type: "DRAFT_UPDATED" | "SUGGESTION_APPLIED" | "APPROVED" | "BECAME_STALE" | "REAPPROVED";
+  type:
+    | "DRAFT_UPDATED"
+    | "SUGGESTION_APPLIED"
+    | "SIGNED_OFF"
+    | "APPROVED"
+    | "BECAME_STALE"
+    | "REAPPROVED"
+    | "COMMENTED"
+    | "COMMENT_RESOLVED"
+    | "COMMENT_REOPENED";
   occurredAt: string;
+  /** Member who acted; with two-person approval, SIGNED_OFF names the first signer and APPROVED the second. */
+  actorEmail?: string;
+  /** Set on comment events, which include comments on the row's approved answer. */
+  commentId?: string;
 };
 
 export type ApprovalHistoryResult = {
@@ -39,6 +52,8 @@ export async function getApprovalHistoryForItem(
         },
         select: {
           type: true,
+          commentId: true,
+          actorEmail: true,
           createdAt: true
         }
       }
@@ -61,14 +76,17 @@ export async function getApprovalHistoryForItem(
       latestApprovalTimestamp = occurredAt;
       history.push({
         type: nextType,
-        occurredAt
+        occurredAt,
+        ...(event.actorEmail ? { actorEmail: event.actorEmail } : {})
       });
       continue;
     }
 
     history.push({
       type: event.type,
-      occurredAt: event.createdAt.toISOString()
+      occurredAt: event.createdAt.toISOString(),
+      ...(event.actorEmail ? { actorEmail: event.actorEmail } : {}),
+      ...(event.commentId ? { commentId: event.commentId } : {})
     });
   }
 
@@ -1,8 +1,13 @@
 import type { Prisma, QuestionHistoryEventType } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { enqueueWebhookEvent, questionnaireWebhookRef, WebhookEventType } from "@/server/webhooks/webhookEvents";
 
 type HistoryDb = Prisma.TransactionClient | typeof prisma;
 
+/**
+ * Appends a row to a question's history. Approval events also queue the `question.approved`
+ * webhook in the same client, so callers drain deliveries once their transaction commits.
+ */
 export async function recordQuestionHistoryEvent(params: {
   db: HistoryDb;
   organizationId: string;
@@ -10,6 +15,8 @@ export async function recordQuestionHistoryEvent(params: {
   questionId: string;
   type: QuestionHistoryEventType;
   approvedAnswerId?: string | null;
+  commentId?: string | null;
+  actor?: { userId: string; email: string | null } | null;
 }) {
   await params.db.questionHistoryEvent.create({
     data: {
@@ -17,7 +24,39 @@ export async function recordQuestionHistoryEvent(params: {
       questionnaireId: params.questionnaireId,
       questionId: params.questionId,
       type: params.type,
-      approvedAnswerId: params.approvedAnswerId ?? null
+      approvedAnswerId: params.approvedAnswerId ?? null,
+      commentId: params.commentId ?? null,
+      actorUserId: params.actor?.userId ?? null,
+      actorEmail: params.actor?.email ?? null
     }
   });
+
+  if (params.type === "APPROVED") {
+    const [question, approvalCount] = await Promise.all([
+      params.db.question.findUniqueOrThrow({
+        where: { id: params.questionId },
+        select: {
+          text: true,
+          rowIndex: true,
+          questionnaire: { select: { id: true, name: true } }
+        }
+      }),
+      params.db.questionHistoryEvent.count({
+        where: { questionId: params.questionId, type: "APPROVED" }
+      })
+    ]);
+
+    await enqueueWebhookEvent({
+      db: params.db,
+      organizationId: params.organizationId,
+      type: WebhookEventType.QUESTION_APPROVED,
+      data: {
+        questionnaire: questionnaireWebhookRef(question.questionnaire),
+        question: { id: params.questionId, text: question.text, rowIndex: question.rowIndex },
+        approvedAnswerId: params.approvedAnswerId ?? null,
+        reapproved: approvalCount > 1,
+        approvedBy: params.actor?.email ?? null
+      }
+    });
+  }
 }
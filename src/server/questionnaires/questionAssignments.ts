@@ -0,0 +1,288 @@
+import type { MembershipRole } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { can, RbacAction } from "@/server/rbac";
+
+export type AssignableMember = {
+  userId: string;
+  email: string;
+  role: MembershipRole;
+};
+
+/** A source column whose values group questions, such as a "Category" or "Domain" column. */
+export type QuestionnaireSection = {
+  column: string;
+  values: string[];
+};
+
+export type QuestionnaireAssignmentOverview = {
+  dueAt: string | null;
+  members: AssignableMember[];
+  sections: QuestionnaireSection[];
+};
+
+export type QuestionSectionSelector = {
+  column: string;
+  value: string;
+};
+
+const MAX_SECTION_VALUES = 50;
+
+function readSourceCell(sourceRow: unknown, column: string): string {
+  if (!sourceRow || typeof sourceRow !== "object" || Array.isArray(sourceRow)) {
+    return "";
+  }
+
+  const value = (sourceRow as Record<string, unknown>)[column];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function toHeaderList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((header): header is string => typeof header === "string") : [];
+}
+
+/** Members who can act on an assignment; viewers cannot approve, so they are never offered. */
+export async function listAssignableMembers(orgId: string): Promise<AssignableMember[]> {
+  const memberships = await prisma.membership.findMany({
+    where: {
+      organizationId: orgId
+    },
+    orderBy: [{ createdAt: "asc" }],
+    select: {
+      userId: true,
+      role: true,
+      user: {
+        select: {
+          email: true
+        }
+      }
+    }
+  });
+
+  return memberships
+    .filter((membership) => can(membership.role, RbacAction.APPROVE_ANSWERS))
+    .map((membership) => ({
+      userId: membership.userId,
+      email: membership.user.email ?? "",
+      role: membership.role
+    }));
+}
+
+async function requireAssignableMember(orgId: string, userId: string): Promise<AssignableMember> {
+  const member = (await listAssignableMembers(orgId)).find((candidate) => candidate.userId === userId);
+  if (!member) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Assignee must be a workspace member who can review answers."
+    });
+  }
+
+  return member;
+}
+
+export async function getQuestionnaireAssignmentOverview(params: {
+  orgId: string;
+  questionnaireId: string;
+}): Promise<QuestionnaireAssignmentOverview | null> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.orgId
+    },
+    select: {
+      dueAt: true,
+      sourceHeaders: true,
+      questionColumn: true,
+      answerColumn: true,
+      yesNoColumn: true,
+      citationsColumn: true,
+      questions: {
+        select: {
+          sourceRow: true
+        }
+      }
+    }
+  });
+
+  if (!questionnaire) {
+    return null;
+  }
+
+  const excludedColumns = new Set(
+    [
+      questionnaire.questionColumn,
+      questionnaire.answerColumn,
+      questionnaire.yesNoColumn,
+      questionnaire.citationsColumn
+    ].filter((column): column is string => Boolean(column))
+  );
+  const sections: QuestionnaireSection[] = [];
+  for (const column of toHeaderList(questionnaire.sourceHeaders)) {
+    if (excludedColumns.has(column)) {
+      continue;
+    }
+
+    const values = new Set<string>();
+    for (const question of questionnaire.questions) {
+      const value = readSourceCell(question.sourceRow, column);
+      if (value) {
+        values.add(value);
+      }
+    }
+
+    // Free-text columns have a value per row; only short lists of repeated values read as sections.
+    if (values.size > 0 && values.size <= MAX_SECTION_VALUES && values.size < questionnaire.questions.length) {
+      sections.push({ column, values: Array.from(values).sort((left, right) => left.localeCompare(right)) });
+    }
+  }
+
+  return {
+    dueAt: questionnaire.dueAt?.toISOString() ?? null,
+    members: await listAssignableMembers(params.orgId),
+    sections
+  };
+}
+
+/**
+ * Assigns explicit rows, or every row of one section, to a reviewer. A null assignee clears the
+ * assignment. Returns null when the questionnaire is not in the organization.
+ */
+export async function assignQuestions(params: {
+  orgId: string;
+  questionnaireId: string;
+  assigneeUserId: string | null;
+  questionIds?: string[];
+  section?: QuestionSectionSelector;
+}): Promise<{ questionnaireName: string; assigneeEmail: string | null; questionIds: string[] } | null> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      name: true,
+      questions: {
+        orderBy: { rowIndex: "asc" },
+        select: {
+          id: true,
+          sourceRow: true
+        }
+      }
+    }
+  });
+
+  if (!questionnaire) {
+    return null;
+  }
+
+  const assignee = params.assigneeUserId ? await requireAssignableMember(params.orgId, params.assigneeUserId) : null;
+  const section = params.section;
+  const requestedIds = new Set(params.questionIds ?? []);
+  const targetIds = questionnaire.questions
+    .filter((question) =>
+      section ? readSourceCell(question.sourceRow, section.column) === section.value : requestedIds.has(question.id)
+    )
+    .map((question) => question.id);
+
+  if (!section && targetIds.length !== requestedIds.size) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "One or more questions were not found in this questionnaire."
+    });
+  }
+
+  if (targetIds.length > 0) {
+    await prisma.question.updateMany({
+      where: {
+        id: {
+          in: targetIds
+        }
+      },
+      data: {
+        assigneeUserId: assignee?.userId ?? null
+      }
+    });
+  }
+
+  return {
+    questionnaireName: questionnaire.name,
+    assigneeEmail: assignee?.email ?? null,
+    questionIds: targetIds
+  };
+}
+
+/** Moves every unapproved row owned by one member to another, e.g. while a reviewer is out. */
+export async function reassignOpenQuestions(params: {
+  orgId: string;
+  fromUserId: string;
+  toUserId: string | null;
+  questionnaireId?: string | null;
+}): Promise<{ reassignedCount: number; toEmail: string | null }> {
+  if (params.fromUserId === params.toUserId) {
+    throw new ApiRouteError({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Choose a different member to reassign to."
+    });
+  }
+
+  const target = params.toUserId ? await requireAssignableMember(params.orgId, params.toUserId) : null;
+  const result = await prisma.question.updateMany({
+    where: {
+      assigneeUserId: params.fromUserId,
+      reviewStatus: {
+        not: "APPROVED"
+      },
+      questionnaire: {
+        organizationId: params.orgId,
+        ...(params.questionnaireId ? { id: params.questionnaireId } : {})
+      }
+    },
+    data: {
+      assigneeUserId: target?.userId ?? null
+    }
+  });
+
+  return {
+    reassignedCount: result.count,
+    toEmail: target?.email ?? null
+  };
+}
+
+/** Sets or clears the review deadline; returns null when the questionnaire is not in the organization. */
+export async function updateQuestionnaireDueAt(params: {
+  orgId: string;
+  questionnaireId: string;
+  dueAt: Date | null;
+}): Promise<{ name: string; previous: string | null; dueAt: string | null } | null> {
+  const questionnaire = await prisma.questionnaire.findFirst({
+    where: {
+      id: params.questionnaireId,
+      organizationId: params.orgId
+    },
+    select: {
+      id: true,
+      name: true,
+      dueAt: true
+    }
+  });
+
+  if (!questionnaire) {
+    return null;
+  }
+
+  const updated = await prisma.questionnaire.update({
+    where: { id: questionnaire.id },
+    data: { dueAt: params.dueAt },
+    select: { dueAt: true }
+  });
+
+  return {
+    name: questionnaire.name,
+    previous: questionnaire.dueAt?.toISOString() ?? null,
+    dueAt: updated.dueAt?.toISOString() ?? null
+  };
+}
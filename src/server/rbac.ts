@@ -8,6 +8,11 @@ export const RbacAction = {
   VIEW_MEMBERS: "VIEW_MEMBERS",
   INVITE_MEMBERS: "INVITE_MEMBERS",
   UPDATE_MEMBER_ROLE: "UPDATE_MEMBER_ROLE",
+  REMOVE_MEMBERS: "REMOVE_MEMBERS",
+  TRANSFER_OWNERSHIP: "TRANSFER_OWNERSHIP",
+  VIEW_AUDIT_LOG: "VIEW_AUDIT_LOG",
+  VIEW_AI_PROVIDER: "VIEW_AI_PROVIDER",
+  UPDATE_AI_PROVIDER: "UPDATE_AI_PROVIDER",
   VIEW_QUESTIONNAIRES: "VIEW_QUESTIONNAIRES",
   IMPORT_QUESTIONNAIRES: "IMPORT_QUESTIONNAIRES",
   DELETE_QUESTIONNAIRES: "DELETE_QUESTIONNAIRES",
@@ -15,7 +20,16 @@ export const RbacAction = {
   EXPORT: "EXPORT",
   APPROVE_ANSWERS: "APPROVE_ANSWERS",
   EDIT_APPROVED_ANSWERS: "EDIT_APPROVED_ANSWERS",
-  MARK_NEEDS_REVIEW: "MARK_NEEDS_REVIEW"
+  MARK_NEEDS_REVIEW: "MARK_NEEDS_REVIEW",
+  ASSIGN_REVIEWERS: "ASSIGN_REVIEWERS",
+  COMMENT: "COMMENT",
+  UPDATE_APPROVAL_POLICY: "UPDATE_APPROVAL_POLICY",
+  MANAGE_WEBHOOKS: "MANAGE_WEBHOOKS",
+  CREATE_API_TOKENS: "CREATE_API_TOKENS",
+  MANAGE_API_TOKENS: "MANAGE_API_TOKENS",
+  MANAGE_SSO: "MANAGE_SSO",
+  MANAGE_TRUST_PORTAL: "MANAGE_TRUST_PORTAL",
+  MANAGE_EVIDENCE_COLLECTIONS: "MANAGE_EVIDENCE_COLLECTIONS"
 } as const;
 
 export type RbacAction = (typeof RbacAction)[keyof typeof RbacAction];
@@ -35,6 +49,11 @@ const ACTION_MIN_ROLE: Record<RbacAction, Role> = {
   [RbacAction.VIEW_MEMBERS]: "VIEWER",
   [RbacAction.INVITE_MEMBERS]: "ADMIN",
   [RbacAction.UPDATE_MEMBER_ROLE]: "OWNER",
+  [RbacAction.REMOVE_MEMBERS]: "ADMIN",
+  [RbacAction.TRANSFER_OWNERSHIP]: "OWNER",
+  [RbacAction.VIEW_AUDIT_LOG]: "ADMIN",
+  [RbacAction.VIEW_AI_PROVIDER]: "VIEWER",
+  [RbacAction.UPDATE_AI_PROVIDER]: "OWNER",
   [RbacAction.VIEW_QUESTIONNAIRES]: "VIEWER",
   [RbacAction.IMPORT_QUESTIONNAIRES]: "ADMIN",
   [RbacAction.DELETE_QUESTIONNAIRES]: "ADMIN",
@@ -42,13 +61,31 @@ const ACTION_MIN_ROLE: Record<RbacAction, Role> = {
   [RbacAction.EXPORT]: "VIEWER",
   [RbacAction.APPROVE_ANSWERS]: "REVIEWER",
   [RbacAction.EDIT_APPROVED_ANSWERS]: "REVIEWER",
-  [RbacAction.MARK_NEEDS_REVIEW]: "REVIEWER"
+  [RbacAction.MARK_NEEDS_REVIEW]: "REVIEWER",
+  [RbacAction.ASSIGN_REVIEWERS]: "ADMIN",
+  [RbacAction.COMMENT]: "REVIEWER",
+  [RbacAction.UPDATE_APPROVAL_POLICY]: "OWNER",
+  [RbacAction.MANAGE_WEBHOOKS]: "ADMIN",
+  [RbacAction.CREATE_API_TOKENS]: "VIEWER",
+  [RbacAction.MANAGE_API_TOKENS]: "ADMIN",
+  [RbacAction.MANAGE_SSO]: "OWNER",
+  [RbacAction.MANAGE_TRUST_PORTAL]: "ADMIN",
+  [RbacAction.MANAGE_EVIDENCE_COLLECTIONS]: "ADMIN"
 };
 
 export function getRequiredRole(action: RbacAction): Role {
   return ACTION_MIN_ROLE[action];
 }
 
+export function isRoleAtLeast(role: Role, minimum: Role): boolean {
+  return ROLE_WEIGHT[role] >= ROLE_WEIGHT[minimum];
+}
+
+/** The lower of two roles, e.g. a member's role limited by an API token's ceiling. */
+export function capRole(role: Role, ceiling: Role): Role {
+  return isRoleAtLeast(role, ceiling) ? ceiling : role;
+}
+
 export function can(role: Role, action: RbacAction): boolean {
   return ROLE_WEIGHT[role] >= ROLE_WEIGHT[getRequiredRole(action)];
 }
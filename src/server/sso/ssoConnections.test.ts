@@ -0,0 +1,143 @@
+import { randomUUID } from "node:crypto";
+import { MembershipRole } from "@prisma/client";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { ensureUserOrganizationMembership } from "@/lib/organizationMembership";
+import { prisma } from "@/lib/prisma";
+import {
+  addOrganizationDomain,
+  findSsoLoginRoute,
+  listEnabledSsoConnections,
+  parseSsoConnectionInput,
+  resolveSsoAutoJoin,
+  saveSsoConnection,
+  verifyOrganizationDomain
+} from "@/server/sso/ssoConnections";
+
+vi.mock("node:dns/promises", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:dns/promises")>()),
+  lookup: async () => [{ address: "93.184.216.34", family: 4 }]
+}));
+
+const TEST_ORG_PREFIX = "vitest-sso-connections-";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+
+  await prisma.membership.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.user.deleteMany({ where: { lastUsedOrganizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+}
+
+async function seedSsoOrganization(domain: string) {
+  const organization = await prisma.organization.create({
+    data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+  });
+  const claim = await addOrganizationDomain({ orgId: organization.id, domain });
+
+  await expect(
+    saveSsoConnection({
+      orgId: organization.id,
+      input: parseSsoConnectionInput(
+        { issuer: "https://idp.example.com/", clientId: "client", clientSecret: "secret", enabled: true },
+        null
+      )
+    })
+  ).rejects.toMatchObject({ status: 409 });
+
+  await expect(
+    verifyOrganizationDomain({ orgId: organization.id, domainId: claim.id, resolveRecords: async () => [] })
+  ).rejects.toMatchObject({ status: 400 });
+  await verifyOrganizationDomain({
+    orgId: organization.id,
+    domainId: claim.id,
+    resolveRecords: async (name) => (name === claim.txtRecordName ? [claim.txtRecordValue] : [])
+  });
+
+  const saved = await saveSsoConnection({
+    orgId: organization.id,
+    input: parseSsoConnectionInput(
+      {
+        issuer: "https://idp.example.com/",
+        clientId: "client",
+        clientSecret: "secret",
+        enabled: true,
+        defaultRole: "REVIEWER",
+        disableMagicLink: true
+      },
+      null
+    )
+  });
+
+  return { organization, providerId: saved.connection.providerId };
+}
+
+describe.sequential("SSO connections", () => {
+  afterEach(async () => {
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("routes verified-domain emails to the org's provider and auto-joins them with the default role", async () => {
+    const domain = `${randomUUID().slice(0, 8)}.sso.vitest.local`;
+    await listEnabledSsoConnections();
+    const seeded = await seedSsoOrganization(domain);
+    expect((await listEnabledSsoConnections()).map((connection) => connection.organizationId)).toContain(
+      seeded.organization.id
+    );
+
+    const route = await findSsoLoginRoute(`Person@${domain.toUpperCase()}`);
+    expect(route).toEqual({
+      providerId: seeded.providerId,
+      organizationId: seeded.organization.id,
+      disableMagicLink: true
+    });
+    expect(await findSsoLoginRoute("person@unclaimed.vitest.local")).toBeNull();
+
+    expect(
+      await resolveSsoAutoJoin({ providerId: "sso-another-connection", email: `person@${domain}` })
+    ).toBeNull();
+    expect(
+      await resolveSsoAutoJoin({ providerId: seeded.providerId, email: `person@${domain}`, profile: { email_verified: false } })
+    ).toBeNull();
+
+    const autoJoin = await resolveSsoAutoJoin({ providerId: seeded.providerId, email: `person@${domain}` });
+    expect(autoJoin).toEqual({ organizationId: seeded.organization.id, role: MembershipRole.REVIEWER });
+
+    const user = await prisma.user.create({ data: { email: `person@${domain}` } });
+    const active = await ensureUserOrganizationMembership({
+      userId: user.id,
+      email: user.email,
+      autoJoin: autoJoin ?? undefined
+    });
+
+    expect(active).toMatchObject({
+      orgId: seeded.organization.id,
+      role: MembershipRole.REVIEWER,
+      membershipCount: 1
+    });
+  });
+
+  it("rejects issuers that point at private or internal addresses", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+
+    await expect(
+      saveSsoConnection({
+        orgId: organization.id,
+        input: parseSsoConnectionInput(
+          { issuer: "https://169.254.169.254/latest", clientId: "client", clientSecret: "secret" },
+          null
+        )
+      })
+    ).rejects.toMatchObject({ status: 400, message: "issuer must not point at a private or internal address." });
+    expect(await prisma.ssoConnection.count({ where: { organizationId: organization.id } })).toBe(0);
+  });
+});
@@ -0,0 +1,493 @@
+import { randomBytes } from "node:crypto";
+import { resolveTxt } from "node:dns/promises";
+import { MembershipRole, type InviteRole, type SsoConnection, type SsoProtocol } from "@prisma/client";
+import type { OAuthConfig } from "next-auth/providers/oauth";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { getAppUrl, parseInviteRole } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+import { findWebhookTargetProblem } from "@/server/webhooks/webhookTarget";
+
+const SSO_PROVIDER_PREFIX = "sso-";
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const VERIFICATION_RECORD_PREFIX = "_securityq-verification";
+const VERIFICATION_VALUE_PREFIX = "securityq-verification=";
+const SSO_PROTOCOLS: SsoProtocol[] = ["OIDC", "SAML"];
+const ENABLED_CONNECTIONS_TTL_MS = 30_000;
+
+// NextAuth builds its provider list on every auth request, including session polling, so the
+// enabled connections are cached briefly. Saves in this process clear it at once; other
+// instances pick changes up within the TTL.
+let enabledConnectionsCache: { connections: SsoConnection[]; expiresAt: number } | null = null;
+
+type SsoProfile = {
+  sub: string;
+  email?: string | null;
+  email_verified?: boolean | string | null;
+  name?: string | null;
+};
+
+export type SsoConnectionRow = {
+  providerId: string;
+  protocol: SsoProtocol;
+  issuer: string;
+  clientId: string;
+  maskedClientSecret: string;
+  enabled: boolean;
+  defaultRole: InviteRole;
+  disableMagicLink: boolean;
+  callbackUrl: string;
+  updatedAt: string;
+};
+
+export type OrganizationDomainRow = {
+  id: string;
+  domain: string;
+  verifiedAt: string | null;
+  txtRecordName: string;
+  txtRecordValue: string;
+};
+
+export type SsoConnectionInput = {
+  protocol: SsoProtocol;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  enabled: boolean;
+  defaultRole: InviteRole;
+  disableMagicLink: boolean;
+};
+
+export type SsoLoginRoute = {
+  providerId: string;
+  organizationId: string;
+  disableMagicLink: boolean;
+};
+
+export function ssoProviderId(connectionId: string): string {
+  return `${SSO_PROVIDER_PREFIX}${connectionId}`;
+}
+
+export function isSsoProviderId(providerId: string | null | undefined): providerId is string {
+  return typeof providerId === "string" && providerId.startsWith(SSO_PROVIDER_PREFIX);
+}
+
+export function getEmailDomain(email: string | null | undefined): string | null {
+  const domain = email?.trim().toLowerCase().split("@")[1] ?? "";
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+function maskSecret(secret: string): string {
+  return secret.length > 4 ? `…${secret.slice(-4)}` : "…";
+}
+
+function toSsoConnectionRow(connection: SsoConnection): SsoConnectionRow {
+  const providerId = ssoProviderId(connection.id);
+  return {
+    providerId,
+    protocol: connection.protocol,
+    issuer: connection.issuer,
+    clientId: connection.clientId,
+    maskedClientSecret: maskSecret(connection.clientSecret),
+    enabled: connection.enabled,
+    defaultRole: connection.defaultRole,
+    disableMagicLink: connection.disableMagicLink,
+    callbackUrl: `${getAppUrl()}/api/auth/callback/${providerId}`,
+    updatedAt: connection.updatedAt.toISOString()
+  };
+}
+
+function toOrganizationDomainRow(domain: {
+  id: string;
+  domain: string;
+  verificationToken: string;
+  verifiedAt: Date | null;
+}): OrganizationDomainRow {
+  return {
+    id: domain.id,
+    domain: domain.domain,
+    verifiedAt: domain.verifiedAt?.toISOString() ?? null,
+    txtRecordName: `${VERIFICATION_RECORD_PREFIX}.${domain.domain}`,
+    txtRecordValue: `${VERIFICATION_VALUE_PREFIX}${domain.verificationToken}`
+  };
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+/**
+ * Builds the NextAuth provider for a connection. SAML connections point at a SAML-to-OIDC bridge,
+ * so both protocols use OIDC discovery. Accounts are linked by email because the organization has
+ * proven ownership of the email domain before the connection can be enabled.
+ */
+export function buildSsoProvider(connection: SsoConnection): OAuthConfig<SsoProfile> {
+  return {
+    id: ssoProviderId(connection.id),
+    name: connection.protocol === "SAML" ? "SAML single sign-on" : "Single sign-on",
+    type: "oauth",
+    wellKnown: `${connection.issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`,
+    clientId: connection.clientId,
+    clientSecret: connection.clientSecret,
+    authorization: { params: { scope: "openid email profile" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+    allowDangerousEmailAccountLinking: true,
+    profile(profile) {
+      return {
+        id: profile.sub,
+        email: profile.email?.trim().toLowerCase() ?? null,
+        name: profile.name ?? null
+      };
+    }
+  };
+}
+
+export async function listEnabledSsoConnections(): Promise<SsoConnection[]> {
+  const now = Date.now();
+  if (enabledConnectionsCache && enabledConnectionsCache.expiresAt > now) {
+    return enabledConnectionsCache.connections;
+  }
+
+  const connections = await prisma.ssoConnection.findMany({
+    where: { enabled: true },
+    orderBy: [{ createdAt: "asc" }]
+  });
+  enabledConnectionsCache = { connections, expiresAt: now + ENABLED_CONNECTIONS_TTL_MS };
+  return connections;
+}
+
+/** Drops the cached provider list after a connection is created, changed or removed. */
+export function invalidateEnabledSsoConnections() {
+  enabledConnectionsCache = null;
+}
+
+/** Finds the enabled SSO connection that owns the verified domain of this email, if any. */
+export async function findSsoLoginRoute(email: string | null | undefined): Promise<SsoLoginRoute | null> {
+  const domain = getEmailDomain(email);
+  if (!domain) {
+    return null;
+  }
+
+  const claim = await prisma.organizationDomain.findFirst({
+    where: {
+      domain,
+      verifiedAt: { not: null },
+      organization: { ssoConnection: { enabled: true } }
+    },
+    select: {
+      organizationId: true,
+      organization: {
+        select: {
+          ssoConnection: {
+            select: { id: true, disableMagicLink: true }
+          }
+        }
+      }
+    }
+  });
+  const connection = claim?.organization.ssoConnection;
+  if (!claim || !connection) {
+    return null;
+  }
+
+  return {
+    providerId: ssoProviderId(connection.id),
+    organizationId: claim.organizationId,
+    disableMagicLink: connection.disableMagicLink
+  };
+}
+
+export async function isMagicLinkBlocked(email: string | null | undefined): Promise<boolean> {
+  return (await findSsoLoginRoute(email))?.disableMagicLink ?? false;
+}
+
+function isEmailVerifiedClaim(value: SsoProfile["email_verified"]): boolean {
+  // Many IdPs omit the claim for directory-managed accounts; only an explicit false is rejected.
+  return value !== false && value !== "false";
+}
+
+/**
+ * Decides whether an SSO login may join an organization. The email must come from the connection
+ * that owns the verified domain it belongs to, so one org's IdP cannot mint users for another's domain.
+ */
+export async function resolveSsoAutoJoin(params: {
+  providerId: string;
+  email: string | null | undefined;
+  profile?: unknown;
+}): Promise<{ organizationId: string; role: MembershipRole } | null> {
+  const profile = (params.profile ?? {}) as SsoProfile;
+  if (!isEmailVerifiedClaim(profile.email_verified)) {
+    return null;
+  }
+
+  const route = await findSsoLoginRoute(params.email);
+  if (!route || route.providerId !== params.providerId) {
+    return null;
+  }
+
+  const connection = await prisma.ssoConnection.findUniqueOrThrow({
+    where: { organizationId: route.organizationId },
+    select: { defaultRole: true }
+  });
+
+  return {
+    organizationId: route.organizationId,
+    role: connection.defaultRole as MembershipRole
+  };
+}
+
+export async function getSsoSettings(
+  orgId: string
+): Promise<{ connection: SsoConnectionRow | null; domains: OrganizationDomainRow[] }> {
+  const [connection, domains] = await Promise.all([
+    prisma.ssoConnection.findUnique({ where: { organizationId: orgId } }),
+    prisma.organizationDomain.findMany({
+      where: { organizationId: orgId },
+      orderBy: [{ createdAt: "asc" }]
+    })
+  ]);
+
+  return {
+    connection: connection ? toSsoConnectionRow(connection) : null,
+    domains: domains.map(toOrganizationDomainRow)
+  };
+}
+
+export function parseSsoConnectionInput(
+  body: Record<string, unknown>,
+  existing: SsoConnection | null
+): SsoConnectionInput {
+  const protocol = body.protocol ?? existing?.protocol ?? "OIDC";
+  if (typeof protocol !== "string" || !SSO_PROTOCOLS.includes(protocol as SsoProtocol)) {
+    throw validationError("protocol must be OIDC or SAML.");
+  }
+
+  const issuer = typeof body.issuer === "string" ? body.issuer.trim() : existing?.issuer ?? "";
+  let issuerUrl: URL;
+  try {
+    issuerUrl = new URL(issuer);
+  } catch {
+    throw validationError("issuer must be the https URL of the OIDC issuer or SAML bridge.");
+  }
+  if (issuerUrl.protocol !== "https:" && process.env.DEV_MODE !== "true") {
+    throw validationError("issuer must use https.");
+  }
+
+  const clientId = typeof body.clientId === "string" ? body.clientId.trim() : existing?.clientId ?? "";
+  if (!clientId) {
+    throw validationError("clientId is required.");
+  }
+
+  const clientSecret = typeof body.clientSecret === "string" && body.clientSecret.trim() ? body.clientSecret.trim() : null;
+  if (!clientSecret && !existing) {
+    throw validationError("clientSecret is required.");
+  }
+
+  const defaultRole = body.defaultRole === undefined ? existing?.defaultRole ?? "VIEWER" : parseInviteRole(body.defaultRole);
+  if (!defaultRole) {
+    throw validationError("defaultRole must be one of ADMIN, REVIEWER, VIEWER.");
+  }
+
+  for (const key of ["enabled", "disableMagicLink"] as const) {
+    if (body[key] !== undefined && typeof body[key] !== "boolean") {
+      throw validationError(`${key} must be a boolean.`);
+    }
+  }
+
+  return {
+    protocol: protocol as SsoProtocol,
+    issuer: issuerUrl.toString().replace(/\/+$/, ""),
+    clientId,
+    clientSecret,
+    enabled: (body.enabled as boolean | undefined) ?? existing?.enabled ?? false,
+    defaultRole,
+    disableMagicLink: (body.disableMagicLink as boolean | undefined) ?? existing?.disableMagicLink ?? false
+  };
+}
+
+export async function saveSsoConnection(params: {
+  orgId: string;
+  input: SsoConnectionInput;
+}): Promise<{ before: SsoConnectionRow | null; connection: SsoConnectionRow }> {
+  const { input } = params;
+  // The server fetches the issuer's discovery document on sign-in, so it must not reach internal hosts.
+  const issuerProblem = await findWebhookTargetProblem(input.issuer, "issuer");
+  if (issuerProblem) {
+    throw validationError(issuerProblem);
+  }
+
+  const existing = await prisma.ssoConnection.findUnique({ where: { organizationId: params.orgId } });
+
+  if (input.enabled) {
+    const verifiedDomains = await prisma.organizationDomain.count({
+      where: { organizationId: params.orgId, verifiedAt: { not: null } }
+    });
+    if (verifiedDomains === 0) {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: "Verify at least one email domain before enabling SSO."
+      });
+    }
+  }
+
+  const data = {
+    protocol: input.protocol,
+    issuer: input.issuer,
+    clientId: input.clientId,
+    enabled: input.enabled,
+    defaultRole: input.defaultRole,
+    disableMagicLink: input.disableMagicLink,
+    ...(input.clientSecret ? { clientSecret: input.clientSecret } : {})
+  };
+  const connection = await prisma.ssoConnection.upsert({
+    where: { organizationId: params.orgId },
+    create: {
+      organizationId: params.orgId,
+      ...data,
+      clientSecret: input.clientSecret ?? ""
+    },
+    update: data
+  });
+  invalidateEnabledSsoConnections();
+
+  return {
+    before: existing ? toSsoConnectionRow(existing) : null,
+    connection: toSsoConnectionRow(connection)
+  };
+}
+
+export function parseDomain(value: unknown): string {
+  const domain = typeof value === "string" ? value.trim().toLowerCase().replace(/^@/, "").replace(/\.$/, "") : "";
+  if (!DOMAIN_PATTERN.test(domain)) {
+    throw validationError("domain must be a valid email domain such as example.com.");
+  }
+
+  return domain;
+}
+
+export async function addOrganizationDomain(params: { orgId: string; domain: string }): Promise<OrganizationDomainRow> {
+  const existing = await prisma.organizationDomain.findUnique({
+    where: {
+      organizationId_domain: {
+        organizationId: params.orgId,
+        domain: params.domain
+      }
+    }
+  });
+  if (existing) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: `${params.domain} is already claimed by this organization.`
+    });
+  }
+
+  const created = await prisma.organizationDomain.create({
+    data: {
+      organizationId: params.orgId,
+      domain: params.domain,
+      verificationToken: randomBytes(16).toString("hex")
+    }
+  });
+
+  return toOrganizationDomainRow(created);
+}
+
+export async function getOrganizationDomainOrThrow(params: { orgId: string; domainId: string }) {
+  const domain = await prisma.organizationDomain.findFirst({
+    where: {
+      id: params.domainId,
+      organizationId: params.orgId
+    }
+  });
+
+  if (!domain) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Domain not found."
+    });
+  }
+
+  return domain;
+}
+
+async function lookupTxtRecords(name: string): Promise<string[]> {
+  try {
+    return (await resolveTxt(name)).map((chunks) => chunks.join(""));
+  } catch {
+    return [];
+  }
+}
+
+/** Marks the domain verified once its TXT record carries the token. */
+export async function verifyOrganizationDomain(params: {
+  orgId: string;
+  domainId: string;
+  resolveRecords?: (name: string) => Promise<string[]>;
+}): Promise<OrganizationDomainRow> {
+  const domain = await getOrganizationDomainOrThrow(params);
+  if (domain.verifiedAt) {
+    return toOrganizationDomainRow(domain);
+  }
+
+  const row = toOrganizationDomainRow(domain);
+  const records = await (params.resolveRecords ?? lookupTxtRecords)(row.txtRecordName);
+  if (!records.some((record) => record.trim() === row.txtRecordValue)) {
+    throw validationError(`TXT record ${row.txtRecordName} does not contain ${row.txtRecordValue} yet.`);
+  }
+
+  const claimedElsewhere = await prisma.organizationDomain.findFirst({
+    where: {
+      domain: domain.domain,
+      verifiedAt: { not: null },
+      organizationId: { not: params.orgId }
+    },
+    select: { id: true }
+  });
+  if (claimedElsewhere) {
+    throw new ApiRouteError({
+      status: 409,
+      code: "CONFLICT",
+      message: `${domain.domain} is already verified by another organization.`
+    });
+  }
+
+  const verified = await prisma.organizationDomain.update({
+    where: { id: domain.id },
+    data: { verifiedAt: new Date() }
+  });
+
+  return toOrganizationDomainRow(verified);
+}
+
+export async function removeOrganizationDomain(params: { orgId: string; domainId: string }) {
+  const domain = await getOrganizationDomainOrThrow(params);
+
+  if (domain.verifiedAt) {
+    const [connection, otherVerified] = await Promise.all([
+      prisma.ssoConnection.findUnique({
+        where: { organizationId: params.orgId },
+        select: { enabled: true }
+      }),
+      prisma.organizationDomain.count({
+        where: { organizationId: params.orgId, verifiedAt: { not: null }, id: { not: domain.id } }
+      })
+    ]);
+    if (connection?.enabled && otherVerified === 0) {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: "Disable SSO before removing the last verified domain."
+      });
+    }
+  }
+
+  await prisma.organizationDomain.delete({ where: { id: domain.id } });
+  return toOrganizationDomainRow(domain);
+}
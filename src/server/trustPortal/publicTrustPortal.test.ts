@@ -0,0 +1,292 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { syncApprovedAnswerEvidenceSnapshots } from "@/server/approvedAnswers/evidenceSnapshots";
+import { updateDocumentMetadata } from "@/server/documents/documentMetadata";
+import { computeEvidenceFingerprint } from "@/server/evidenceFingerprint";
+import {
+  createTrustAccessRequest,
+  downloadTrustDocument,
+  loadPublicTrustPortal
+} from "@/server/trustPortal/publicTrustPortal";
+import { parseTrustPortalInput, reviewTrustAccessRequest, saveTrustPortal } from "@/server/trustPortal/trustPortal";
+
+const TEST_ORG_PREFIX = "vitest-trust-portal-";
+
+async function cleanupTestOrganizations() {
+  const organizations = await prisma.organization.findMany({
+    where: { name: { startsWith: TEST_ORG_PREFIX } },
+    select: { id: true }
+  });
+  const organizationIds = organizations.map((organization) => organization.id);
+  await prisma.user.deleteMany({ where: { email: { startsWith: TEST_ORG_PREFIX } } });
+  if (organizationIds.length === 0) {
+    return;
+  }
+
+  await prisma.trustPortal.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.approvedAnswerEvidence.deleteMany({
+    where: { approvedAnswer: { organizationId: { in: organizationIds } } }
+  });
+  await prisma.approvedAnswer.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.documentChunk.deleteMany({ where: { document: { organizationId: { in: organizationIds } } } });
+  await prisma.document.deleteMany({ where: { organizationId: { in: organizationIds } } });
+  await prisma.organization.deleteMany({ where: { id: { in: organizationIds } } });
+}
+
+async function seedLibraryAnswer(params: { organizationId: string; documentId: string; chunkIndex: number; text: string }) {
+  const chunk = await prisma.documentChunk.create({
+    data: {
+      documentId: params.documentId,
+      chunkIndex: params.chunkIndex,
+      content: params.text,
+      evidenceFingerprint: computeEvidenceFingerprint(params.text)
+    }
+  });
+  const approvedAnswer = await prisma.approvedAnswer.create({
+    data: {
+      organizationId: params.organizationId,
+      questionText: `Question about ${params.text}`,
+      answerText: `Yes: ${params.text}`,
+      citationChunkIds: [chunk.id],
+      source: "MANUAL_EDIT",
+      approvedAt: new Date()
+    }
+  });
+  await syncApprovedAnswerEvidenceSnapshots({
+    db: prisma,
+    organizationId: params.organizationId,
+    approvedAnswerId: approvedAnswer.id,
+    citationChunkIds: [chunk.id]
+  });
+
+  return { approvedAnswerId: approvedAnswer.id, chunkId: chunk.id };
+}
+
+function portalRequest(slug: string, accessToken?: string) {
+  const query = accessToken ? `?access=${encodeURIComponent(accessToken)}` : "";
+  return new Request(`http://localhost/api/trust/${slug}${query}`, {
+    headers: { "x-forwarded-for": "203.0.113.7", "user-agent": "vitest" }
+  });
+}
+
+describe.sequential("trust portal", () => {
+  beforeEach(() => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await cleanupTestOrganizations();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("gates content behind approved access, hides stale answers and logs views and downloads", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const reviewer = await prisma.user.create({ data: { email: `${TEST_ORG_PREFIX}${randomUUID()}@example.com` } });
+    const document = await prisma.document.create({
+      data: {
+        organizationId: organization.id,
+        name: "SOC 2 Report.pdf",
+        originalName: "soc2.pdf",
+        mimeType: "application/pdf",
+        status: "CHUNKED"
+      }
+    });
+    const fresh = await seedLibraryAnswer({
+      organizationId: organization.id,
+      documentId: document.id,
+      chunkIndex: 0,
+      text: "data is encrypted at rest"
+    });
+    const stale = await seedLibraryAnswer({
+      organizationId: organization.id,
+      documentId: document.id,
+      chunkIndex: 1,
+      text: "backups run nightly"
+    });
+    await prisma.documentChunk.update({
+      where: { id: stale.chunkId },
+      data: { evidenceFingerprint: computeEvidenceFingerprint("backups run weekly") }
+    });
+
+    const slug = `acme-${randomUUID().slice(0, 8)}`;
+    await saveTrustPortal({
+      orgId: organization.id,
+      input: parseTrustPortalInput(
+        {
+          slug,
+          title: "Acme Trust Center",
+          published: true,
+          ndaText: "Keep it confidential.",
+          approvedAnswerIds: [fresh.approvedAnswerId, stale.approvedAnswerId],
+          documentIds: [document.id]
+        },
+        null
+      )
+    });
+
+    const anonymous = await loadPublicTrustPortal({ slug, request: portalRequest(slug) });
+    expect(anonymous).toMatchObject({ accessMode: "NDA_GATED", hasAccess: false, answers: [], documents: [] });
+    await expect(
+      downloadTrustDocument({ slug, documentId: document.id, request: portalRequest(slug) })
+    ).rejects.toMatchObject({ status: 404 });
+
+    await expect(
+      createTrustAccessRequest({ slug, body: { email: "buyer@customer.com", name: "Buyer" } })
+    ).rejects.toMatchObject({ status: 400 });
+    const accessRequest = await createTrustAccessRequest({
+      slug,
+      body: { email: "Buyer@Customer.com", name: "Buyer", company: "Customer", acceptNda: true }
+    });
+    expect(accessRequest.status).toBe("PENDING");
+
+    const portal = await prisma.trustPortal.findUniqueOrThrow({ where: { slug } });
+    const review = await reviewTrustAccessRequest({
+      portalId: portal.id,
+      requestId: accessRequest.id,
+      reviewerUserId: reviewer.id,
+      decision: "APPROVED"
+    });
+    const accessToken = new URL(review.accessUrl ?? "").searchParams.get("access") ?? "";
+    expect(accessToken).not.toBe("");
+    await expect(
+      reviewTrustAccessRequest({
+        portalId: portal.id,
+        requestId: accessRequest.id,
+        reviewerUserId: reviewer.id,
+        decision: "REJECTED"
+      })
+    ).rejects.toMatchObject({ status: 409 });
+
+    const contested = await createTrustAccessRequest({
+      slug,
+      body: { email: "second@customer.com", name: "Second", acceptNda: true }
+    });
+    const decisions = await Promise.allSettled(
+      (["APPROVED", "REJECTED"] as const).map((decision) =>
+        reviewTrustAccessRequest({ portalId: portal.id, requestId: contested.id, reviewerUserId: reviewer.id, decision })
+      )
+    );
+    expect(decisions.map((decision) => decision.status).sort()).toEqual(["fulfilled", "rejected"]);
+
+    const granted = await loadPublicTrustPortal({ slug, request: portalRequest(slug, accessToken) });
+    expect(granted.hasAccess).toBe(true);
+    expect(granted.answers.map((answer) => answer.id)).toEqual([fresh.approvedAnswerId]);
+    expect(granted.documents).toEqual([{ id: document.id, name: "SOC 2 Report.pdf" }]);
+
+    const file = await downloadTrustDocument({
+      slug,
+      documentId: document.id,
+      request: portalRequest(slug, accessToken)
+    });
+    expect(file).toEqual({
+      fileName: "SOC_2_Report.txt",
+      content: "data is encrypted at rest\n\nbackups run nightly"
+    });
+
+    const events = await prisma.trustPortalEvent.findMany({
+      where: { portalId: portal.id },
+      orderBy: [{ createdAt: "asc" }]
+    });
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: "VIEWED_PORTAL",
+        viewerEmail: "buyer@customer.com",
+        accessRequestId: accessRequest.id,
+        ipAddress: "203.0.113.7"
+      }),
+      expect.objectContaining({
+        type: "DOWNLOADED_DOCUMENT",
+        documentId: document.id,
+        viewerEmail: "buyer@customer.com"
+      })
+    ]);
+  });
+
+  it("serves only documents whose current label the portal's access mode allows", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const createDocument = (name: string, shareability: "PUBLIC" | "NDA") =>
+      prisma.document.create({
+        data: {
+          organizationId: organization.id,
+          name,
+          originalName: name,
+          mimeType: "text/plain",
+          status: "CHUNKED",
+          shareability
+        }
+      });
+    const publicDocument = await createDocument("Security Overview.txt", "PUBLIC");
+    const ndaDocument = await createDocument("Pen Test Summary.txt", "NDA");
+    const slug = `acme-${randomUUID().slice(0, 8)}`;
+    const portalInput = (documentIds: string[]) =>
+      parseTrustPortalInput({ slug, title: "Acme Trust Center", published: true, accessMode: "PUBLIC", documentIds }, null);
+
+    await expect(
+      saveTrustPortal({ orgId: organization.id, input: portalInput([publicDocument.id, ndaDocument.id]) })
+    ).rejects.toMatchObject({ status: 400 });
+    await saveTrustPortal({ orgId: organization.id, input: portalInput([publicDocument.id]) });
+    await expect(loadPublicTrustPortal({ slug, request: portalRequest(slug) })).resolves.toMatchObject({
+      documents: [{ id: publicDocument.id, name: "Security Overview.txt" }]
+    });
+
+    await prisma.document.update({ where: { id: publicDocument.id }, data: { shareability: "NDA" } });
+    await expect(loadPublicTrustPortal({ slug, request: portalRequest(slug) })).resolves.toMatchObject({
+      documents: []
+    });
+    await expect(
+      downloadTrustDocument({ slug, documentId: publicDocument.id, request: portalRequest(slug) })
+    ).rejects.toMatchObject({ status: 404 });
+
+    await updateDocumentMetadata({
+      orgId: organization.id,
+      documentId: publicDocument.id,
+      body: { shareability: "INTERNAL_ONLY" }
+    });
+    await expect(prisma.trustPortalDocument.count({ where: { documentId: publicDocument.id } })).resolves.toBe(0);
+  });
+
+  it("withholds documents once they are past their expiry date", async () => {
+    const organization = await prisma.organization.create({
+      data: { name: `${TEST_ORG_PREFIX}${randomUUID()}` }
+    });
+    const document = await prisma.document.create({
+      data: {
+        organizationId: organization.id,
+        name: "SOC 2 Report.txt",
+        originalName: "SOC 2 Report.txt",
+        mimeType: "text/plain",
+        status: "CHUNKED",
+        shareability: "PUBLIC",
+        expiresAt: new Date(Date.now() + 60_000)
+      }
+    });
+    const slug = `acme-${randomUUID().slice(0, 8)}`;
+    await saveTrustPortal({
+      orgId: organization.id,
+      input: parseTrustPortalInput(
+        { slug, title: "Acme Trust Center", published: true, accessMode: "PUBLIC", documentIds: [document.id] },
+        null
+      )
+    });
+    await expect(loadPublicTrustPortal({ slug, request: portalRequest(slug) })).resolves.toMatchObject({
+      documents: [{ id: document.id }]
+    });
+
+    await prisma.document.update({ where: { id: document.id }, data: { expiresAt: new Date(Date.now() - 60_000) } });
+    await expect(loadPublicTrustPortal({ slug, request: portalRequest(slug) })).resolves.toMatchObject({
+      documents: []
+    });
+    await expect(
+      downloadTrustDocument({ slug, documentId: document.id, request: portalRequest(slug) })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+});
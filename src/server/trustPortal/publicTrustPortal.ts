@@ -0,0 +1,284 @@
+import type {
+  Prisma,
+  TrustAccessRequest,
+  TrustPortal,
+  TrustPortalAccessMode,
+  TrustPortalEventType
+} from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
+import { readRequestMetadata } from "@/server/audit/recordAuditEvent";
+import { hashTrustAccessToken } from "@/server/trustPortal/trustPortal";
+import { trustPortalShareabilities } from "@/shared/evidenceShareability";
+
+const MAX_NAME_LENGTH = 200;
+const MAX_REASON_LENGTH = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type PublicTrustPortalView = {
+  slug: string;
+  title: string;
+  description: string | null;
+  accessMode: TrustPortalAccessMode;
+  ndaText: string | null;
+  /** False when the portal is NDA-gated and the visitor has no valid grant; content lists are then empty. */
+  hasAccess: boolean;
+  answers: Array<{ id: string; questionText: string; answerText: string; approvedAt: string | null }>;
+  documents: Array<{ id: string; name: string }>;
+};
+
+type TrustPortalVisitor = {
+  accessRequestId: string | null;
+  viewerEmail: string | null;
+};
+
+function notFound(message = "Trust portal not found."): ApiRouteError {
+  return new ApiRouteError({
+    status: 404,
+    code: "NOT_FOUND",
+    message
+  });
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+export function readTrustAccessToken(request: Request): string | null {
+  const token = new URL(request.url).searchParams.get("access")?.trim();
+  return token || null;
+}
+
+async function getPublishedTrustPortal(slug: string): Promise<TrustPortal> {
+  const portal = await prisma.trustPortal.findUnique({ where: { slug } });
+  if (!portal || !portal.published) {
+    throw notFound();
+  }
+
+  return portal;
+}
+
+/** Returns the visitor identity, or null when an NDA-gated portal has no approved, unexpired grant. */
+async function resolveTrustPortalVisitor(
+  portal: TrustPortal,
+  accessToken: string | null,
+  now = new Date()
+): Promise<TrustPortalVisitor | null> {
+  let grant: TrustAccessRequest | null = null;
+  if (accessToken) {
+    grant = await prisma.trustAccessRequest.findFirst({
+      where: {
+        portalId: portal.id,
+        accessTokenHash: hashTrustAccessToken(accessToken),
+        status: "APPROVED",
+        accessExpiresAt: { gt: now }
+      }
+    });
+  }
+
+  if (grant) {
+    return { accessRequestId: grant.id, viewerEmail: grant.email };
+  }
+
+  return portal.accessMode === "PUBLIC" ? { accessRequestId: null, viewerEmail: null } : null;
+}
+
+/**
+ * Documents the portal may serve right now. Labels and expiry are checked when serving, so a
+ * document relabelled or past its `expiresAt` after publishing drops out at once.
+ */
+function servableDocumentWhere(portal: TrustPortal, now = new Date()): Prisma.DocumentWhereInput {
+  return {
+    shareability: { in: trustPortalShareabilities(portal.accessMode) },
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+  };
+}
+
+async function recordTrustPortalEvent(params: {
+  portal: TrustPortal;
+  visitor: TrustPortalVisitor;
+  request: Request;
+  type: TrustPortalEventType;
+  documentId?: string;
+}) {
+  const { ipAddress, userAgent } = readRequestMetadata(params.request);
+  await prisma.trustPortalEvent.create({
+    data: {
+      portalId: params.portal.id,
+      type: params.type,
+      documentId: params.documentId ?? null,
+      accessRequestId: params.visitor.accessRequestId,
+      viewerEmail: params.visitor.viewerEmail,
+      ipAddress,
+      userAgent
+    }
+  });
+}
+
+export async function loadPublicTrustPortal(params: { slug: string; request: Request }): Promise<PublicTrustPortalView> {
+  const portal = await getPublishedTrustPortal(params.slug);
+  const visitor = await resolveTrustPortalVisitor(portal, readTrustAccessToken(params.request));
+  const view: PublicTrustPortalView = {
+    slug: portal.slug,
+    title: portal.title,
+    description: portal.description,
+    accessMode: portal.accessMode,
+    ndaText: portal.ndaText,
+    hasAccess: Boolean(visitor),
+    answers: [],
+    documents: []
+  };
+
+  if (!visitor) {
+    return view;
+  }
+
+  const [answerEntries, documentEntries] = await Promise.all([
+    prisma.trustPortalAnswer.findMany({
+      where: { portalId: portal.id },
+      orderBy: [{ createdAt: "asc" }],
+      include: {
+        approvedAnswer: {
+          select: { id: true, questionText: true, answerText: true, approvedAt: true }
+        }
+      }
+    }),
+    prisma.trustPortalDocument.findMany({
+      where: {
+        portalId: portal.id,
+        document: servableDocumentWhere(portal)
+      },
+      orderBy: [{ createdAt: "asc" }],
+      include: { document: { select: { id: true, name: true } } }
+    })
+  ]);
+
+  // Stale answers stay selected but are withheld until they are re-approved against current evidence.
+  for (const entry of answerEntries) {
+    if (await isApprovedAnswerStale(entry.approvedAnswer.id, { orgId: portal.organizationId })) {
+      continue;
+    }
+
+    view.answers.push({
+      id: entry.approvedAnswer.id,
+      questionText: entry.approvedAnswer.questionText,
+      answerText: entry.approvedAnswer.answerText,
+      approvedAt: entry.approvedAnswer.approvedAt?.toISOString() ?? null
+    });
+  }
+  view.documents = documentEntries.map((entry) => ({ id: entry.document.id, name: entry.document.name }));
+
+  await recordTrustPortalEvent({ portal, visitor, request: params.request, type: "VIEWED_PORTAL" });
+  return view;
+}
+
+/** Documents keep only their extracted chunks, so downloads serve the reassembled text. */
+export async function downloadTrustDocument(params: {
+  slug: string;
+  documentId: string;
+  request: Request;
+}): Promise<{ fileName: string; content: string }> {
+  const portal = await getPublishedTrustPortal(params.slug);
+  const visitor = await resolveTrustPortalVisitor(portal, readTrustAccessToken(params.request));
+  if (!visitor) {
+    throw notFound("Document not found.");
+  }
+
+  const entry = await prisma.trustPortalDocument.findFirst({
+    where: {
+      portalId: portal.id,
+      documentId: params.documentId,
+      document: servableDocumentWhere(portal)
+    },
+    include: {
+      document: {
+        select: {
+          id: true,
+          name: true,
+          chunks: {
+            orderBy: [{ chunkIndex: "asc" }],
+            select: { content: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!entry) {
+    throw notFound("Document not found.");
+  }
+
+  await recordTrustPortalEvent({
+    portal,
+    visitor,
+    request: params.request,
+    type: "DOWNLOADED_DOCUMENT",
+    documentId: entry.document.id
+  });
+
+  const baseName = entry.document.name.replace(/\.[^./]+$/, "").replace(/[^A-Za-z0-9._-]+/g, "_") || "document";
+  return {
+    fileName: `${baseName}.txt`,
+    content: entry.document.chunks.map((chunk) => chunk.content).join("\n\n")
+  };
+}
+
+function readRequiredText(value: unknown, field: string, maxLength: number): string {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text || text.length > maxLength) {
+    throw validationError(`${field} is required and must be at most ${maxLength} characters.`);
+  }
+
+  return text;
+}
+
+function readOptionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string" || value.length > maxLength) {
+    throw validationError(`${field} must be a string of at most ${maxLength} characters.`);
+  }
+
+  return value.trim() || null;
+}
+
+export async function createTrustAccessRequest(params: {
+  slug: string;
+  body: Record<string, unknown>;
+}): Promise<{ id: string; status: TrustAccessRequest["status"] }> {
+  const portal = await getPublishedTrustPortal(params.slug);
+  if (portal.accessMode !== "NDA_GATED") {
+    throw validationError("This trust portal is public and does not take access requests.");
+  }
+
+  const email = readRequiredText(params.body.email, "email", MAX_NAME_LENGTH).toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw validationError("email must be a valid email address.");
+  }
+
+  const name = readRequiredText(params.body.name, "name", MAX_NAME_LENGTH);
+  const company = readOptionalText(params.body.company, "company", MAX_NAME_LENGTH);
+  const reason = readOptionalText(params.body.reason, "reason", MAX_REASON_LENGTH);
+  if (portal.ndaText && params.body.acceptNda !== true) {
+    throw validationError("You must accept the NDA to request access.");
+  }
+
+  const created = await prisma.trustAccessRequest.create({
+    data: {
+      portalId: portal.id,
+      email,
+      name,
+      company,
+      reason,
+      ndaAcceptedAt: portal.ndaText ? new Date() : null
+    }
+  });
+
+  return { id: created.id, status: created.status };
+}
@@ -0,0 +1,430 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  Prisma,
+  type TrustAccessRequest,
+  type TrustAccessRequestStatus,
+  type TrustPortal,
+  type TrustPortalAccessMode,
+  type TrustPortalEventType
+} from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { getAppUrl } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+import { isApprovedAnswerStale } from "@/server/approvedAnswers/staleness";
+import { trustPortalShareabilities } from "@/shared/evidenceShareability";
+
+export const TRUST_ACCESS_DAYS = 30;
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,58}[a-z0-9])$/;
+const MAX_TITLE_LENGTH = 120;
+const MAX_TEXT_LENGTH = 5000;
+const ACCESS_MODES: TrustPortalAccessMode[] = ["PUBLIC", "NDA_GATED"];
+const EVENT_PAGE_SIZE = 100;
+
+export type TrustPortalRow = {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  published: boolean;
+  accessMode: TrustPortalAccessMode;
+  ndaText: string | null;
+  publicUrl: string;
+  updatedAt: string;
+};
+
+export type TrustPortalSettings = {
+  portal: TrustPortalRow | null;
+  answers: Array<{ approvedAnswerId: string; questionText: string; stale: boolean }>;
+  documents: Array<{ documentId: string; name: string }>;
+};
+
+export type TrustPortalInput = {
+  slug: string;
+  title: string;
+  description: string | null;
+  published: boolean;
+  accessMode: TrustPortalAccessMode;
+  ndaText: string | null;
+  approvedAnswerIds?: string[];
+  documentIds?: string[];
+};
+
+export type TrustAccessRequestRow = {
+  id: string;
+  email: string;
+  name: string;
+  company: string | null;
+  reason: string | null;
+  ndaAcceptedAt: string | null;
+  status: TrustAccessRequestStatus;
+  accessExpiresAt: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+};
+
+export type TrustPortalEventRow = {
+  id: string;
+  type: TrustPortalEventType;
+  documentId: string | null;
+  documentName: string | null;
+  viewerEmail: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+};
+
+export function hashTrustAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function buildTrustPortalUrl(slug: string, accessToken?: string): string {
+  const url = `${getAppUrl()}/trust/${encodeURIComponent(slug)}`;
+  return accessToken ? `${url}?access=${encodeURIComponent(accessToken)}` : url;
+}
+
+function toTrustPortalRow(portal: TrustPortal): TrustPortalRow {
+  return {
+    id: portal.id,
+    slug: portal.slug,
+    title: portal.title,
+    description: portal.description,
+    published: portal.published,
+    accessMode: portal.accessMode,
+    ndaText: portal.ndaText,
+    publicUrl: buildTrustPortalUrl(portal.slug),
+    updatedAt: portal.updatedAt.toISOString()
+  };
+}
+
+export function toTrustAccessRequestRow(request: TrustAccessRequest): TrustAccessRequestRow {
+  return {
+    id: request.id,
+    email: request.email,
+    name: request.name,
+    company: request.company,
+    reason: request.reason,
+    ndaAcceptedAt: request.ndaAcceptedAt?.toISOString() ?? null,
+    status: request.status,
+    accessExpiresAt: request.accessExpiresAt?.toISOString() ?? null,
+    reviewedAt: request.reviewedAt?.toISOString() ?? null,
+    createdAt: request.createdAt.toISOString()
+  };
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+function readOptionalText(value: unknown, field: string, fallback: string | null): string | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== "string" || value.length > MAX_TEXT_LENGTH) {
+    throw validationError(`${field} must be a string of at most ${MAX_TEXT_LENGTH} characters.`);
+  }
+
+  return value.trim() || null;
+}
+
+function readIdList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+    throw validationError(`${field} must be an array of ids.`);
+  }
+
+  return Array.from(new Set((value as string[]).map((entry) => entry.trim()).filter(Boolean)));
+}
+
+export function parseTrustPortalInput(body: Record<string, unknown>, existing: TrustPortal | null): TrustPortalInput {
+  const slug = typeof body.slug === "string" ? body.slug.trim().toLowerCase() : existing?.slug ?? "";
+  if (!SLUG_PATTERN.test(slug)) {
+    throw validationError("slug must be 3-60 lowercase letters, digits, or dashes.");
+  }
+
+  const title = typeof body.title === "string" ? body.title.trim() : existing?.title ?? "";
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    throw validationError(`title is required and must be at most ${MAX_TITLE_LENGTH} characters.`);
+  }
+
+  const accessMode = body.accessMode ?? existing?.accessMode ?? "NDA_GATED";
+  if (typeof accessMode !== "string" || !ACCESS_MODES.includes(accessMode as TrustPortalAccessMode)) {
+    throw validationError("accessMode must be PUBLIC or NDA_GATED.");
+  }
+
+  if (body.published !== undefined && typeof body.published !== "boolean") {
+    throw validationError("published must be a boolean.");
+  }
+
+  return {
+    slug,
+    title,
+    description: readOptionalText(body.description, "description", existing?.description ?? null),
+    published: (body.published as boolean | undefined) ?? existing?.published ?? false,
+    accessMode: accessMode as TrustPortalAccessMode,
+    ndaText: readOptionalText(body.ndaText, "ndaText", existing?.ndaText ?? null),
+    approvedAnswerIds: readIdList(body.approvedAnswerIds, "approvedAnswerIds"),
+    documentIds: readIdList(body.documentIds, "documentIds")
+  };
+}
+
+export async function getTrustPortalForOrg(orgId: string): Promise<TrustPortal | null> {
+  return prisma.trustPortal.findUnique({ where: { organizationId: orgId } });
+}
+
+export async function getTrustPortalOrThrow(orgId: string): Promise<TrustPortal> {
+  const portal = await getTrustPortalForOrg(orgId);
+  if (!portal) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Trust portal is not configured."
+    });
+  }
+
+  return portal;
+}
+
+export async function getTrustPortalSettings(orgId: string): Promise<TrustPortalSettings> {
+  const portal = await prisma.trustPortal.findUnique({
+    where: { organizationId: orgId },
+    include: {
+      answers: {
+        orderBy: [{ createdAt: "asc" }],
+        include: { approvedAnswer: { select: { id: true, questionText: true } } }
+      },
+      documents: {
+        orderBy: [{ createdAt: "asc" }],
+        include: { document: { select: { id: true, name: true } } }
+      }
+    }
+  });
+
+  if (!portal) {
+    return { portal: null, answers: [], documents: [] };
+  }
+
+  const answers = await Promise.all(
+    portal.answers.map(async (entry) => ({
+      approvedAnswerId: entry.approvedAnswer.id,
+      questionText: entry.approvedAnswer.questionText,
+      stale: await isApprovedAnswerStale(entry.approvedAnswer.id, { orgId })
+    }))
+  );
+
+  return {
+    portal: toTrustPortalRow(portal),
+    answers,
+    documents: portal.documents.map((entry) => ({ documentId: entry.document.id, name: entry.document.name }))
+  };
+}
+
+async function assertSelectionsBelongToOrg(orgId: string, input: TrustPortalInput) {
+  const documentIds =
+    input.documentIds ??
+    (
+      await prisma.trustPortalDocument.findMany({
+        where: { portal: { organizationId: orgId } },
+        select: { documentId: true }
+      })
+    ).map((entry) => entry.documentId);
+
+  if (input.approvedAnswerIds?.length) {
+    const count = await prisma.approvedAnswer.count({
+      where: { organizationId: orgId, id: { in: input.approvedAnswerIds } }
+    });
+    if (count !== input.approvedAnswerIds.length) {
+      throw validationError("approvedAnswerIds must reference approved answers in this organization.");
+    }
+  }
+
+  if (input.documentIds?.length) {
+    const count = await prisma.document.count({
+      where: { organizationId: orgId, id: { in: input.documentIds } }
+    });
+    if (count !== input.documentIds.length) {
+      throw validationError("documentIds must reference documents in this organization.");
+    }
+  }
+
+  // Checked against the kept selection too, so switching a portal to public cannot expose NDA documents.
+  const disallowed = await prisma.document.findMany({
+    where: {
+      organizationId: orgId,
+      id: { in: documentIds },
+      shareability: { notIn: trustPortalShareabilities(input.accessMode) }
+    },
+    select: { shareability: true }
+  });
+  if (disallowed.some((document) => document.shareability === "INTERNAL_ONLY")) {
+    throw validationError("Internal-only documents cannot be published on the trust portal.");
+  }
+  if (disallowed.length > 0) {
+    throw validationError("NDA documents can only be published on an NDA-gated trust portal.");
+  }
+}
+
+/** Upserts the portal; selections are replaced only when their id lists are provided. */
+export async function saveTrustPortal(params: { orgId: string; input: TrustPortalInput }): Promise<TrustPortalRow> {
+  const { input } = params;
+  await assertSelectionsBelongToOrg(params.orgId, input);
+
+  const data = {
+    slug: input.slug,
+    title: input.title,
+    description: input.description,
+    published: input.published,
+    accessMode: input.accessMode,
+    ndaText: input.ndaText
+  };
+
+  try {
+    const portal = await prisma.$transaction(async (tx) => {
+      const saved = await tx.trustPortal.upsert({
+        where: { organizationId: params.orgId },
+        create: { organizationId: params.orgId, ...data },
+        update: data
+      });
+
+      if (input.approvedAnswerIds) {
+        await tx.trustPortalAnswer.deleteMany({
+          where: { portalId: saved.id, approvedAnswerId: { notIn: input.approvedAnswerIds } }
+        });
+        await tx.trustPortalAnswer.createMany({
+          data: input.approvedAnswerIds.map((approvedAnswerId) => ({ portalId: saved.id, approvedAnswerId })),
+          skipDuplicates: true
+        });
+      }
+
+      if (input.documentIds) {
+        await tx.trustPortalDocument.deleteMany({
+          where: { portalId: saved.id, documentId: { notIn: input.documentIds } }
+        });
+        await tx.trustPortalDocument.createMany({
+          data: input.documentIds.map((documentId) => ({ portalId: saved.id, documentId })),
+          skipDuplicates: true
+        });
+      }
+
+      return saved;
+    });
+
+    return toTrustPortalRow(portal);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ApiRouteError({
+        status: 409,
+        code: "CONFLICT",
+        message: `The slug "${input.slug}" is already taken.`
+      });
+    }
+    throw error;
+  }
+}
+
+export async function listTrustAccessRequests(portalId: string): Promise<TrustAccessRequestRow[]> {
+  const requests = await prisma.trustAccessRequest.findMany({
+    where: { portalId },
+    orderBy: [{ createdAt: "desc" }],
+    take: EVENT_PAGE_SIZE
+  });
+
+  return requests.map(toTrustAccessRequestRow);
+}
+
+function alreadyReviewed(status: TrustAccessRequestStatus): ApiRouteError {
+  return new ApiRouteError({
+    status: 409,
+    code: "CONFLICT",
+    message: `Access request was already ${status.toLowerCase()}.`
+  });
+}
+
+/**
+ * Approves or rejects a pending request. Approval returns the one-time access link; only its hash is
+ * stored, so the caller must deliver it now.
+ */
+export async function reviewTrustAccessRequest(params: {
+  portalId: string;
+  requestId: string;
+  reviewerUserId: string;
+  decision: "APPROVED" | "REJECTED";
+}): Promise<{ accessRequest: TrustAccessRequestRow; accessUrl: string | null }> {
+  const existing = await prisma.trustAccessRequest.findFirst({
+    where: { id: params.requestId, portalId: params.portalId },
+    include: { portal: { select: { slug: true } } }
+  });
+
+  if (!existing) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Access request not found."
+    });
+  }
+
+  if (existing.status !== "PENDING") {
+    throw alreadyReviewed(existing.status);
+  }
+
+  const accessToken = params.decision === "APPROVED" ? randomBytes(32).toString("base64url") : null;
+  const reviewedAt = new Date();
+  // Guarded on PENDING so two reviewers deciding at once cannot both issue a grant.
+  const reviewed = await prisma.trustAccessRequest.updateMany({
+    where: { id: existing.id, status: "PENDING" },
+    data: {
+      status: params.decision,
+      reviewedByUserId: params.reviewerUserId,
+      reviewedAt,
+      ...(accessToken
+        ? {
+            accessTokenHash: hashTrustAccessToken(accessToken),
+            accessExpiresAt: new Date(reviewedAt.getTime() + TRUST_ACCESS_DAYS * 24 * 60 * 60 * 1000)
+          }
+        : {})
+    }
+  });
+
+  const updated = await prisma.trustAccessRequest.findUniqueOrThrow({ where: { id: existing.id } });
+  if (reviewed.count === 0) {
+    throw alreadyReviewed(updated.status);
+  }
+
+  return {
+    accessRequest: toTrustAccessRequestRow(updated),
+    accessUrl: accessToken ? buildTrustPortalUrl(existing.portal.slug, accessToken) : null
+  };
+}
+
+export async function listTrustPortalEvents(portalId: string): Promise<TrustPortalEventRow[]> {
+  const events = await prisma.trustPortalEvent.findMany({
+    where: { portalId },
+    orderBy: [{ createdAt: "desc" }],
+    take: EVENT_PAGE_SIZE
+  });
+  const documentIds = Array.from(
+    new Set(events.map((event) => event.documentId).filter((documentId): documentId is string => Boolean(documentId)))
+  );
+  const documents = documentIds.length
+    ? await prisma.document.findMany({ where: { id: { in: documentIds } }, select: { id: true, name: true } })
+    : [];
+  const documentNameById = new Map(documents.map((document) => [document.id, document.name]));
+
+  return events.map((event) => ({
+    id: event.id,
+    type: event.type,
+    documentId: event.documentId,
+    documentName: event.documentId ? documentNameById.get(event.documentId) ?? null : null,
+    viewerEmail: event.viewerEmail,
+    ipAddress: event.ipAddress,
+    createdAt: event.createdAt.toISOString()
+  }));
+}
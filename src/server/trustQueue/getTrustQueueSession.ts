@@ -39,16 +39,19 @@ function toSessionItem(row: Awaited<ReturnType<typeof listTrustQueueItemsForOrg>
 export async function getTrustQueueSessionForOrg(
   ctx: {
     orgId: string;
+    userId?: string;
   },
   params?: {
     query?: string | null;
     filter?: TrustQueueSessionFilterParam | TrustQueueFilter | string | null;
+    assignedToMe?: boolean;
     currentItemId?: string | null;
   }
 ): Promise<TrustQueueSession> {
   const queue = await listTrustQueueItemsForOrg(ctx, {
     query: params?.query,
     filter: normalizeSessionFilter(params?.filter),
+    assignedToMe: params?.assignedToMe,
     limit: 100
   });
 
@@ -757,4 +757,69 @@ describe.sequential("listTrustQueueItemsForOrg", () => {
       }
     ]);
   });
+
+  it("narrows to the caller's assignments and flags rows past the questionnaire due date", async () => {
+    const organization = await createOrganization("assignments");
+    const [reviewer, otherReviewer] = await Promise.all([
+      prisma.user.create({ data: { email: `trust-queue-${randomUUID()}@example.com` } }),
+      prisma.user.create({ data: { email: `trust-queue-${randomUUID()}@example.com` } })
+    ]);
+
+    try {
+      const overdueQuestionnaire = await prisma.questionnaire.create({
+        data: {
+          organizationId: organization.id,
+          name: "Overdue questionnaire",
+          totalCount: 2,
+          dueAt: new Date("2026-01-10T00:00:00.000Z")
+        }
+      });
+      const openQuestionnaire = await createQuestionnaire(organization.id, "Open questionnaire");
+
+      const mine = await createNeedsReviewQuestion({
+        questionnaireId: overdueQuestionnaire.id,
+        rowIndex: 0,
+        questionText: "Is MFA enforced?"
+      });
+      const theirs = await createNeedsReviewQuestion({
+        questionnaireId: overdueQuestionnaire.id,
+        rowIndex: 1,
+        questionText: "Is SSO enforced?"
+      });
+      const unassigned = await createNeedsReviewQuestion({
+        questionnaireId: openQuestionnaire.id,
+        rowIndex: 0,
+        questionText: "Are backups encrypted?"
+      });
+      await prisma.question.update({ where: { id: mine.id }, data: { assigneeUserId: reviewer.id } });
+      await prisma.question.update({ where: { id: theirs.id }, data: { assigneeUserId: otherReviewer.id } });
+      await setQuestionUpdatedAt(unassigned.id, new Date("2026-02-01T00:00:00.000Z"));
+
+      const now = new Date("2026-02-15T00:00:00.000Z");
+      const everyone = await listTrustQueueItemsForOrg({ orgId: organization.id, userId: reviewer.id }, { now });
+      expect(everyone.rows.map((row) => row.isOverdue)).toEqual([true, true, false]);
+      expect(everyone.workload).toEqual({
+        overdueCount: 2,
+        assignedToMeCount: 1
+      });
+
+      const queue = await listTrustQueueItemsForOrg(
+        { orgId: organization.id, userId: reviewer.id },
+        { assignedToMe: true, now }
+      );
+      expect(queue.rows).toHaveLength(1);
+      expect(queue.rows[0]).toMatchObject({
+        itemId: mine.id,
+        assigneeUserId: reviewer.id,
+        assigneeEmail: reviewer.email,
+        dueAt: "2026-01-10T00:00:00.000Z",
+        isOverdue: true
+      });
+      expect(queue.summary.needsReviewCount).toBe(3);
+      expect(queue.questionnaireGroups.map((group) => group.questionnaireId)).toEqual([overdueQuestionnaire.id]);
+    } finally {
+      await cleanupTrustQueueData();
+      await prisma.user.deleteMany({ where: { id: { in: [reviewer.id, otherReviewer.id] } } });
+    }
+  });
 });
@@ -1,5 +1,8 @@
 import { prisma } from "@/lib/prisma";
-import { findStaleApprovedAnswerIds } from "@/server/approvedAnswers/staleness";
+import {
+  findApprovedAnswerStaleReasons,
+  type ApprovedAnswerStalenessReasonCode
+} from "@/server/approvedAnswers/staleness";
 
 export type TrustQueueFilter = "ALL" | "STALE" | "NEEDS_REVIEW";
 export type TrustQueuePriority = "P1" | "P2" | "P3";
@@ -11,9 +14,15 @@ export type TrustQueueRow = {
   questionPreview: string;
   reviewStatus: "NEEDS_REVIEW" | "APPROVED" | "OTHER";
   freshness: "FRESH" | "STALE" | null;
+  /** Why a STALE row's approval drifted; empty for fresh rows and rows without an approval. */
+  staleReasons: ApprovedAnswerStalenessReasonCode[];
   approvedAt: string | null;
   isBlockedForApprovedOnlyExport: boolean;
   priority: TrustQueuePriority;
+  assigneeUserId: string | null;
+  assigneeEmail: string | null;
+  dueAt: string | null;
+  isOverdue: boolean;
 };
 
 export type TrustQueueQuestionnaireGroup = {
@@ -34,6 +43,10 @@ export type TrustQueueResult = {
     blockedQuestionnairesCount: number;
   };
   questionnaireGroups: TrustQueueQuestionnaireGroup[];
+  workload: {
+    overdueCount: number;
+    assignedToMeCount: number;
+  };
 };
 
 function normalizeQuery(value?: string | null): string {
@@ -155,19 +168,27 @@ function priorityRank(priority: TrustQueuePriority): number {
   return 2;
 }
 
+/**
+ * Lists stale approvals and needs-review rows for the organization. With `assignedToMe`, rows and
+ * questionnaire groups narrow to the caller's assignments while summary counts stay org-wide.
+ */
 export async function listTrustQueueItemsForOrg(
   ctx: {
     orgId: string;
+    userId?: string;
   },
   params?: {
     query?: string | null;
     filter?: TrustQueueFilter | string | null;
+    assignedToMe?: boolean;
     limit?: number;
+    now?: Date;
   }
 ): Promise<TrustQueueResult> {
   const query = normalizeQuery(params?.query);
   const filter = normalizeFilter(params?.filter);
   const limit = Math.max(1, Math.min(params?.limit ?? 100, 100));
+  const now = (params?.now ?? new Date()).getTime();
 
   const questions = await prisma.question.findMany({
     where: {
@@ -200,9 +221,16 @@ export async function listTrustQueueItemsForOrg(
       reviewStatus: true,
       updatedAt: true,
       questionnaireId: true,
+      assigneeUserId: true,
+      assignee: {
+        select: {
+          email: true
+        }
+      },
       questionnaire: {
         select: {
-          name: true
+          name: true,
+          dueAt: true
         }
       },
       approvedAnswer: {
@@ -223,12 +251,17 @@ export async function listTrustQueueItemsForOrg(
         needsReviewCount: 0,
         blockedQuestionnairesCount: 0
       },
-      questionnaireGroups: []
+      questionnaireGroups: [],
+      workload: {
+        overdueCount: 0,
+        assignedToMeCount: 0
+      }
     };
   }
 
-  const staleApprovedAnswerIds = await findStaleApprovedAnswerIds({
+  const staleReasonsByApprovedAnswerId = await findApprovedAnswerStaleReasons({
     orgId: ctx.orgId,
+    now: params?.now,
     approvedAnswers: questions.flatMap((question) =>
       question.approvedAnswer
         ? [
@@ -244,7 +277,8 @@ export async function listTrustQueueItemsForOrg(
   const actionableRows = questions
     .map((question) => {
       const approvedAnswer = question.approvedAnswer;
-      const isStale = approvedAnswer ? staleApprovedAnswerIds.has(approvedAnswer.id) : false;
+      const staleReasons = approvedAnswer ? staleReasonsByApprovedAnswerId.get(approvedAnswer.id) ?? [] : [];
+      const isStale = staleReasons.length > 0;
       const isNeedsReview = question.reviewStatus === "NEEDS_REVIEW";
 
       if (!isStale && !isNeedsReview) {
@@ -258,8 +292,13 @@ export async function listTrustQueueItemsForOrg(
         questionPreview: buildQuestionPreview(question.text),
         reviewStatus: normalizeReviewStatus(question.reviewStatus),
         freshness: approvedAnswer ? (isStale ? "STALE" : "FRESH") : null,
+        staleReasons,
         approvedAt: approvedAnswer ? approvedAnswer.createdAt.toISOString() : null,
         isBlockedForApprovedOnlyExport: isStale,
+        assigneeUserId: question.assigneeUserId,
+        assigneeEmail: question.assignee?.email ?? null,
+        dueAt: question.questionnaire.dueAt?.toISOString() ?? null,
+        isOverdue: question.questionnaire.dueAt ? question.questionnaire.dueAt.getTime() < now : false,
         rowIndex: question.rowIndex,
         sortTimestamp: (approvedAnswer?.createdAt ?? question.updatedAt).getTime()
       };
@@ -305,6 +344,10 @@ export async function listTrustQueueItemsForOrg(
       return left.isBlockedForApprovedOnlyExport ? -1 : 1;
     }
 
+    if (left.isOverdue !== right.isOverdue) {
+      return left.isOverdue ? -1 : 1;
+    }
+
     if (left.sortTimestamp !== right.sortTimestamp) {
       return right.sortTimestamp - left.sortTimestamp;
     }
@@ -321,16 +364,18 @@ export async function listTrustQueueItemsForOrg(
     return left.rowIndex - right.rowIndex;
   });
 
+  const isMine = (row: { assigneeUserId: string | null }) => Boolean(ctx.userId) && row.assigneeUserId === ctx.userId;
+  const scopedRows = params?.assignedToMe ? sortedRows.filter(isMine) : sortedRows;
   const rows =
     filter === "STALE"
-      ? sortedRows.filter((row) => row.freshness === "STALE")
+      ? scopedRows.filter((row) => row.freshness === "STALE")
       : filter === "NEEDS_REVIEW"
-        ? sortedRows.filter((row) => row.reviewStatus === "NEEDS_REVIEW")
-        : sortedRows;
+        ? scopedRows.filter((row) => row.reviewStatus === "NEEDS_REVIEW")
+        : scopedRows;
 
   const staleRows = prioritizedRows.filter((row) => row.freshness === "STALE");
   const needsReviewRows = prioritizedRows.filter((row) => row.reviewStatus === "NEEDS_REVIEW");
-  const questionnaireGroups = buildQuestionnaireGroups(sortedRows);
+  const questionnaireGroups = buildQuestionnaireGroups(scopedRows);
 
   return {
     rows: rows.slice(0, limit).map(({ rowIndex: _rowIndex, sortTimestamp: _sortTimestamp, ...row }) => row),
@@ -339,6 +384,10 @@ export async function listTrustQueueItemsForOrg(
       needsReviewCount: needsReviewRows.length,
       blockedQuestionnairesCount: new Set(staleRows.map((row) => row.questionnaireId)).size
     },
-    questionnaireGroups
+    questionnaireGroups,
+    workload: {
+      overdueCount: prioritizedRows.filter((row) => row.isOverdue).length,
+      assignedToMeCount: prioritizedRows.filter(isMine).length
+    }
   };
 }
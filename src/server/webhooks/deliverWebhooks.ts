@@ -0,0 +1,153 @@
+import type { WebhookDelivery } from "@prisma/client";
+import type { Dispatcher } from "undici";
+import { prisma } from "@/lib/prisma";
+import { buildWebhookHeaders } from "@/server/webhooks/webhookSignature";
+import { resolveWebhookTarget } from "@/server/webhooks/webhookTarget";
+
+/** Wait before retry N (1-based). A delivery is marked FAILED once these are used up. */
+export const WEBHOOK_RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 6 * 60 * 60_000];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const WEBHOOK_CLAIM_MS = 60_000;
+const MAX_ERROR_LENGTH = 500;
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message.trim().slice(0, MAX_ERROR_LENGTH);
+  }
+
+  return "Webhook request failed.";
+}
+
+async function claimDelivery(deliveryId: string, now: Date): Promise<boolean> {
+  // Pushing nextAttemptAt forward acts as a short lease so a concurrent drain skips this row.
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: "PENDING",
+      nextAttemptAt: { lte: now }
+    },
+    data: {
+      nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_MS)
+    }
+  });
+
+  return claimed.count > 0;
+}
+
+/**
+ * Sends one pending delivery if it is due. Any 2xx response counts as delivered; anything else
+ * schedules the next retry, or marks the delivery FAILED after the last attempt.
+ */
+export async function deliverWebhook(deliveryId: string): Promise<WebhookDelivery | null> {
+  const now = new Date();
+  if (!(await claimDelivery(deliveryId, now))) {
+    return null;
+  }
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: {
+      endpoint: {
+        select: { url: true, secret: true, enabled: true }
+      }
+    }
+  });
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let dispatcher: Dispatcher | undefined;
+
+  try {
+    // Re-checked on every send because DNS can change after the endpoint was saved, and the request
+    // is pinned to the addresses that passed the check.
+    const target = await resolveWebhookTarget(delivery.endpoint.url);
+    if (target.problem !== null) {
+      throw new Error(target.problem);
+    }
+    dispatcher = target.dispatcher;
+
+    const body = JSON.stringify(delivery.payload);
+    const init: RequestInit & { dispatcher?: Dispatcher } = {
+      method: "POST",
+      headers: buildWebhookHeaders({
+        secret: delivery.endpoint.secret,
+        id: delivery.eventId,
+        eventType: delivery.eventType,
+        body
+      }),
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      dispatcher
+    };
+    const response = await fetch(delivery.endpoint.url, init);
+    statusCode = response.status;
+
+    // Only the status is kept; response bodies from the receiver are never stored or shown.
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}.`;
+    }
+  } catch (requestError) {
+    error = toErrorMessage(requestError);
+  } finally {
+    // Response bodies are never read, so the connection is torn down rather than drained.
+    await dispatcher?.destroy().catch(() => undefined);
+  }
+
+  const finishedAt = new Date();
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  const giveUp = error !== null && (retryDelay === undefined || !delivery.endpoint.enabled);
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: finishedAt,
+      lastStatusCode: statusCode,
+      lastError: error,
+      ...(error === null
+        ? { status: "SUCCEEDED", deliveredAt: finishedAt, nextAttemptAt: null }
+        : giveUp
+          ? { status: "FAILED", nextAttemptAt: null }
+          : { nextAttemptAt: new Date(finishedAt.getTime() + retryDelay) })
+    }
+  });
+}
+
+/** Sends due deliveries oldest first; retries that are not yet due stay queued. */
+export async function runPendingWebhookDeliveries(
+  params: { organizationId?: string; limit?: number } = {}
+): Promise<{ attemptedDeliveryIds: string[] }> {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+      ...(params.organizationId ? { organizationId: params.organizationId } : {})
+    },
+    orderBy: [{ nextAttemptAt: "asc" }, { id: "asc" }],
+    take: params.limit ?? 25,
+    select: { id: true }
+  });
+
+  const attemptedDeliveryIds: string[] = [];
+  for (const delivery of deliveries) {
+    try {
+      if (await deliverWebhook(delivery.id)) {
+        attemptedDeliveryIds.push(delivery.id);
+      }
+    } catch (error) {
+      console.error("Webhook delivery failed", { deliveryId: delivery.id, error });
+    }
+  }
+
+  return { attemptedDeliveryIds };
+}
+
+/** Fire-and-forget drain for requests that just committed new deliveries. */
+export function startWebhookDeliveriesInBackground(organizationId: string) {
+  void runPendingWebhookDeliveries({ organizationId }).catch((error) => {
+    console.error("Webhook deliveries failed", { organizationId, error });
+  });
+}
@@ -0,0 +1,306 @@
+import type { WebhookDelivery, WebhookEndpoint } from "@prisma/client";
+import { ApiRouteError } from "@/lib/approvalValidation";
+import { prisma } from "@/lib/prisma";
+import { deliverWebhook } from "@/server/webhooks/deliverWebhooks";
+import {
+  buildWebhookPayload,
+  isWebhookEventType,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TEST_EVENT_TYPE,
+  type WebhookEventType
+} from "@/server/webhooks/webhookEvents";
+import { generateWebhookSecret, maskWebhookSecret } from "@/server/webhooks/webhookSignature";
+import { findWebhookTargetProblem } from "@/server/webhooks/webhookTarget";
+
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 200;
+const DELIVERY_PAGE_SIZE = 50;
+
+export type WebhookEndpointRow = {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  maskedSecret: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryRow = {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookDelivery["status"];
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  redeliveryOfId: string | null;
+  createdAt: string;
+};
+
+export type WebhookEndpointInput = {
+  url: string;
+  description: string | null;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+};
+
+function toWebhookEndpointRow(endpoint: WebhookEndpoint): WebhookEndpointRow {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    eventTypes: endpoint.eventTypes.filter(isWebhookEventType),
+    enabled: endpoint.enabled,
+    maskedSecret: maskWebhookSecret(endpoint.secret),
+    createdAt: endpoint.createdAt.toISOString(),
+    updatedAt: endpoint.updatedAt.toISOString()
+  };
+}
+
+export function toWebhookDeliveryRow(delivery: WebhookDelivery): WebhookDeliveryRow {
+  return {
+    id: delivery.id,
+    endpointId: delivery.endpointId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    redeliveryOfId: delivery.redeliveryOfId,
+    createdAt: delivery.createdAt.toISOString()
+  };
+}
+
+function validationError(message: string): ApiRouteError {
+  return new ApiRouteError({
+    status: 400,
+    code: "VALIDATION_ERROR",
+    message
+  });
+}
+
+function parseWebhookUrl(value: unknown): string {
+  const raw = typeof value === "string" ? value.trim() : "";
+  if (!raw || raw.length > MAX_URL_LENGTH) {
+    throw validationError("url is required.");
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw validationError("url must be an absolute URL.");
+  }
+
+  // Plain http is only for local receivers while developing.
+  const allowHttp = process.env.DEV_MODE === "true";
+  if (parsed.protocol !== "https:" && !(allowHttp && parsed.protocol === "http:")) {
+    throw validationError("url must use https.");
+  }
+
+  if (parsed.username || parsed.password) {
+    throw validationError("url must not include credentials.");
+  }
+
+  return parsed.toString();
+}
+
+function parseEventTypes(value: unknown): WebhookEventType[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw validationError("Choose at least one event type.");
+  }
+
+  const invalid = value.filter((item) => !isWebhookEventType(item));
+  if (invalid.length > 0) {
+    throw validationError(`eventTypes must be any of: ${WEBHOOK_EVENT_TYPES.join(", ")}.`);
+  }
+
+  return Array.from(new Set(value as WebhookEventType[]));
+}
+
+function parseDescription(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value !== "string") {
+    throw validationError("description must be a string.");
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_DESCRIPTION_LENGTH) {
+    throw validationError(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+
+  return trimmed || null;
+}
+
+/** Validates a create body, or a PATCH body merged over the stored endpoint. */
+export function parseWebhookEndpointInput(
+  body: Record<string, unknown>,
+  current?: WebhookEndpointInput
+): WebhookEndpointInput {
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    throw validationError("enabled must be a boolean.");
+  }
+
+  return {
+    url: body.url === undefined && current ? current.url : parseWebhookUrl(body.url),
+    description: body.description === undefined && current ? current.description : parseDescription(body.description),
+    eventTypes: body.eventTypes === undefined && current ? current.eventTypes : parseEventTypes(body.eventTypes),
+    enabled: typeof body.enabled === "boolean" ? body.enabled : (current?.enabled ?? true)
+  };
+}
+
+/** Rejects urls whose host resolves to a private, loopback or metadata address. */
+async function assertPublicWebhookTarget(url: string) {
+  const problem = await findWebhookTargetProblem(url);
+  if (problem) {
+    throw validationError(problem);
+  }
+}
+
+export async function getWebhookEndpointOrThrow(params: { orgId: string; endpointId: string }): Promise<WebhookEndpoint> {
+  const endpoint = await prisma.webhookEndpoint.findFirst({
+    where: {
+      id: params.endpointId,
+      organizationId: params.orgId
+    }
+  });
+
+  if (!endpoint) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Webhook endpoint not found."
+    });
+  }
+
+  return endpoint;
+}
+
+export async function listWebhookEndpoints(orgId: string): Promise<WebhookEndpointRow[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { organizationId: orgId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+  });
+
+  return endpoints.map(toWebhookEndpointRow);
+}
+
+/** Returns the full secret alongside the row; this is the only time it is shown. */
+export async function createWebhookEndpoint(params: {
+  orgId: string;
+  userId: string;
+  input: WebhookEndpointInput;
+}): Promise<{ endpoint: WebhookEndpointRow; secret: string }> {
+  await assertPublicWebhookTarget(params.input.url);
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      organizationId: params.orgId,
+      ...params.input,
+      secret,
+      createdByUserId: params.userId
+    }
+  });
+
+  return { endpoint: toWebhookEndpointRow(endpoint), secret };
+}
+
+export async function updateWebhookEndpoint(params: {
+  endpointId: string;
+  input: WebhookEndpointInput;
+  rotateSecret: boolean;
+}): Promise<{ endpoint: WebhookEndpointRow; secret: string | null }> {
+  await assertPublicWebhookTarget(params.input.url);
+  const secret = params.rotateSecret ? generateWebhookSecret() : null;
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: params.endpointId },
+    data: {
+      ...params.input,
+      ...(secret ? { secret } : {})
+    }
+  });
+
+  return { endpoint: toWebhookEndpointRow(endpoint), secret };
+}
+
+export async function listWebhookDeliveries(params: {
+  orgId: string;
+  endpointId: string;
+}): Promise<WebhookDeliveryRow[]> {
+  await getWebhookEndpointOrThrow(params);
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { endpointId: params.endpointId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: DELIVERY_PAGE_SIZE
+  });
+
+  return deliveries.map(toWebhookDeliveryRow);
+}
+
+/** Sends a `webhook.test` event right away, regardless of the endpoint's filters or enabled flag. */
+export async function sendTestWebhook(params: { orgId: string; endpointId: string }): Promise<WebhookDeliveryRow> {
+  const endpoint = await getWebhookEndpointOrThrow(params);
+  const payload = buildWebhookPayload({
+    organizationId: params.orgId,
+    type: WEBHOOK_TEST_EVENT_TYPE,
+    data: { endpointId: endpoint.id, message: "Test delivery from Settings > Webhooks." }
+  });
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      organizationId: params.orgId,
+      endpointId: endpoint.id,
+      eventId: payload.id,
+      eventType: payload.type,
+      payload
+    }
+  });
+
+  return toWebhookDeliveryRow((await deliverWebhook(delivery.id)) ?? delivery);
+}
+
+/**
+ * Re-sends a past delivery as a new delivery row with the same event id and payload, so receivers
+ * that dedupe on `Webhook-Id` treat it as the same event.
+ */
+export async function redeliverWebhook(params: { orgId: string; deliveryId: string }): Promise<WebhookDeliveryRow> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: {
+      id: params.deliveryId,
+      organizationId: params.orgId
+    }
+  });
+
+  if (!original) {
+    throw new ApiRouteError({
+      status: 404,
+      code: "NOT_FOUND",
+      message: "Webhook delivery not found."
+    });
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      organizationId: params.orgId,
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload ?? {},
+      redeliveryOfId: original.id
+    }
+  });
+
+  return toWebhookDeliveryRow((await deliverWebhook(delivery.id)) ?? delivery);
+}
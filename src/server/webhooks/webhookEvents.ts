@@ -0,0 +1,148 @@
+import { randomUUID } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { getAppUrl } from "@/lib/orgInvites";
+import { prisma } from "@/lib/prisma";
+
+type WebhookDb = Prisma.TransactionClient | typeof prisma;
+
+export const WebhookEventType = {
+  AUTOFILL_COMPLETED: "autofill.completed",
+  QUESTION_APPROVED: "question.approved",
+  APPROVED_ANSWER_STALE: "approved_answer.stale",
+  EXPORT_BLOCKED: "export.blocked"
+} as const;
+
+export type WebhookEventType = (typeof WebhookEventType)[keyof typeof WebhookEventType];
+
+/** Sent only by the test button; endpoints cannot subscribe to it. */
+export const WEBHOOK_TEST_EVENT_TYPE = "webhook.test";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = Object.values(WebhookEventType);
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && (WEBHOOK_EVENT_TYPES as string[]).includes(value);
+}
+
+export type WebhookPayload = {
+  id: string;
+  type: string;
+  createdAt: string;
+  organizationId: string;
+  data: Prisma.InputJsonObject;
+};
+
+export function buildWebhookPayload(params: {
+  organizationId: string;
+  type: string;
+  data: Prisma.InputJsonObject;
+}): WebhookPayload {
+  return {
+    id: `evt_${randomUUID()}`,
+    type: params.type,
+    createdAt: new Date().toISOString(),
+    organizationId: params.organizationId,
+    data: params.data
+  };
+}
+
+export function questionnaireWebhookRef(questionnaire: { id: string; name: string }) {
+  return {
+    id: questionnaire.id,
+    name: questionnaire.name,
+    url: `${getAppUrl()}/questionnaires/${questionnaire.id}`
+  };
+}
+
+/**
+ * Queues one delivery per enabled endpoint subscribed to `type`. Pass the transaction client when
+ * the change that raised the event runs in a transaction, so the deliveries only exist if it
+ * commits. Nothing is sent here: call `startWebhookDeliveriesInBackground` once committed.
+ */
+export async function enqueueWebhookEvent(params: {
+  db?: WebhookDb;
+  organizationId: string;
+  type: WebhookEventType;
+  data: Prisma.InputJsonObject;
+}): Promise<number> {
+  const db = params.db ?? prisma;
+  const endpoints = await db.webhookEndpoint.findMany({
+    where: {
+      organizationId: params.organizationId,
+      enabled: true,
+      eventTypes: { has: params.type }
+    },
+    select: { id: true }
+  });
+
+  if (endpoints.length === 0) {
+    return 0;
+  }
+
+  const payload = buildWebhookPayload(params);
+  const created = await db.webhookDelivery.createMany({
+    data: endpoints.map((endpoint) => ({
+      organizationId: params.organizationId,
+      endpointId: endpoint.id,
+      eventId: payload.id,
+      eventType: payload.type,
+      payload
+    }))
+  });
+
+  return created.count;
+}
+
+/**
+ * Raises `approved_answer.stale` for every approved answer that cites one of `chunkIds`, which the
+ * caller is about to change or delete.
+ */
+export async function enqueueApprovedAnswerStaleEvents(params: {
+  db?: WebhookDb;
+  organizationId: string;
+  document: { id: string; name: string };
+  chunkIds: string[];
+  cause: "DOCUMENT_VERSION" | "RECHUNKED" | "DOCUMENT_DELETED";
+}): Promise<void> {
+  if (params.chunkIds.length === 0) {
+    return;
+  }
+
+  const db = params.db ?? prisma;
+  const changedChunkIds = new Set(params.chunkIds);
+  const approvals = await db.approvedAnswer.findMany({
+    where: {
+      organizationId: params.organizationId,
+      citationChunkIds: { hasSome: params.chunkIds }
+    },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      questionId: true,
+      questionText: true,
+      citationChunkIds: true,
+      question: {
+        select: {
+          text: true,
+          questionnaire: { select: { id: true, name: true } }
+        }
+      }
+    }
+  });
+
+  for (const approval of approvals) {
+    await enqueueWebhookEvent({
+      db,
+      organizationId: params.organizationId,
+      type: WebhookEventType.APPROVED_ANSWER_STALE,
+      data: {
+        approvedAnswerId: approval.id,
+        questionId: approval.questionId,
+        questionText: approval.questionText || approval.question?.text || "",
+        questionnaire: approval.question ? questionnaireWebhookRef(approval.question.questionnaire) : null,
+        document: params.document,
+        changedChunkIds: approval.citationChunkIds.filter((chunkId) => changedChunkIds.has(chunkId)),
+        cause: params.cause
+      }
+    });
+  }
+}
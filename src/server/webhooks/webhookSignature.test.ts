@@ -0,0 +1,52 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  buildWebhookHeaders,
+  generateWebhookSecret,
+  maskWebhookSecret,
+  verifyWebhookSignature
+} from "@/server/webhooks/webhookSignature";
+
+describe("webhook signatures", () => {
+  it("signs id, timestamp and body with the decoded secret", () => {
+    const secret = generateWebhookSecret();
+    const body = JSON.stringify({ type: "question.approved" });
+    const headers = buildWebhookHeaders({
+      secret,
+      id: "evt_1",
+      eventType: "question.approved",
+      body,
+      now: new Date("2026-03-23T09:00:00.000Z")
+    });
+
+    const expected = createHmac("sha256", Buffer.from(secret.slice("whsec_".length), "base64"))
+      .update(`evt_1.${headers["Webhook-Timestamp"]}.${body}`)
+      .digest("base64");
+
+    expect(headers["Webhook-Timestamp"]).toBe("1774256400");
+    expect(headers["Webhook-Signature"]).toBe(`v1,${expected}`);
+  });
+
+  it("verifies matching signatures and rejects tampered bodies", () => {
+    const secret = generateWebhookSecret();
+    const headers = buildWebhookHeaders({ secret, id: "evt_2", eventType: "webhook.test", body: "{}" });
+    const timestamp = Number(headers["Webhook-Timestamp"]);
+
+    expect(
+      verifyWebhookSignature({ secret, id: "evt_2", timestamp, body: "{}", signatureHeader: headers["Webhook-Signature"] })
+    ).toBe(true);
+    expect(
+      verifyWebhookSignature({
+        secret,
+        id: "evt_2",
+        timestamp,
+        body: '{"tampered":true}',
+        signatureHeader: headers["Webhook-Signature"]
+      })
+    ).toBe(false);
+  });
+
+  it("masks all but the last characters of a secret", () => {
+    expect(maskWebhookSecret("whsec_abcdefgh1234")).toBe("whsec_…1234");
+  });
+});
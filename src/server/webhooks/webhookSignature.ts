@@ -0,0 +1,62 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+const SECRET_PREFIX = "whsec_";
+
+/**
+ * Signing follows the Standard Webhooks scheme so receivers can use an off-the-shelf verifier:
+ * base64 HMAC-SHA256 over `${id}.${timestamp}.${body}`, keyed with the secret after its prefix.
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64")}`;
+}
+
+function secretKey(secret: string): Buffer {
+  return Buffer.from(secret.startsWith(SECRET_PREFIX) ? secret.slice(SECRET_PREFIX.length) : secret, "base64");
+}
+
+export function signWebhookPayload(params: { secret: string; id: string; timestamp: number; body: string }): string {
+  const digest = createHmac("sha256", secretKey(params.secret))
+    .update(`${params.id}.${params.timestamp}.${params.body}`)
+    .digest("base64");
+  return `v1,${digest}`;
+}
+
+export function buildWebhookHeaders(params: {
+  secret: string;
+  id: string;
+  eventType: string;
+  body: string;
+  now?: Date;
+}): Record<string, string> {
+  const timestamp = Math.floor((params.now ?? new Date()).getTime() / 1000);
+
+  return {
+    "Content-Type": "application/json",
+    "User-Agent": "securityq-autofill-webhooks",
+    "Webhook-Id": params.id,
+    "Webhook-Timestamp": String(timestamp),
+    "Webhook-Signature": signWebhookPayload({ secret: params.secret, id: params.id, timestamp, body: params.body }),
+    "Webhook-Event": params.eventType
+  };
+}
+
+/** Receiver-side check, exported for tests and for teams verifying deliveries in Node. */
+export function verifyWebhookSignature(params: {
+  secret: string;
+  id: string;
+  timestamp: number;
+  body: string;
+  signatureHeader: string;
+}): boolean {
+  const expected = Buffer.from(signWebhookPayload(params));
+
+  return params.signatureHeader.split(" ").some((candidate) => {
+    const actual = Buffer.from(candidate);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+/** Shows only the tail of a secret once it has been handed out. */
+export function maskWebhookSecret(secret: string): string {
+  return `${SECRET_PREFIX}…${secret.slice(-4)}`;
+}
@@ -0,0 +1,65 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPinnedDispatcher, findWebhookTargetProblem, isPrivateAddress } from "@/server/webhooks/webhookTarget";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "not-an-ip"
+  ])("treats %s as private", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"])("treats %s as public", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("findWebhookTargetProblem", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects literal private hosts and localhost without a lookup", async () => {
+    await expect(findWebhookTargetProblem("https://[::1]/hook")).resolves.toMatch(/private/);
+    await expect(findWebhookTargetProblem("https://localhost/hook")).resolves.toMatch(/private/);
+    await expect(findWebhookTargetProblem("https://[::ffff:127.0.0.1]/hook")).resolves.toMatch(/private/);
+    await expect(findWebhookTargetProblem("https://8.8.8.8/hook")).resolves.toBeNull();
+  });
+
+  it("allows local receivers in DEV_MODE", async () => {
+    vi.stubEnv("DEV_MODE", "true");
+    await expect(findWebhookTargetProblem("http://127.0.0.1:4000/hook")).resolves.toBeNull();
+  });
+});
+
+describe("createPinnedDispatcher", () => {
+  it("connects to the pinned address instead of resolving the host again", async () => {
+    const server = createServer((request, response) => response.end(request.headers.host));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const dispatcher = createPinnedDispatcher([{ address: "127.0.0.1", family: 4 }]);
+
+    try {
+      const init: RequestInit & { dispatcher: typeof dispatcher } = { dispatcher };
+      const response = await fetch(`http://hooks.invalid:${port}/hook`, init);
+      expect(await response.text()).toBe(`hooks.invalid:${port}`);
+    } finally {
+      await dispatcher.destroy();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+function parseIpv4(address: string): number[] {
+  return address.split(".").map((part) => Number(part));
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b, c] = parseIpv4(address);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateIpv4(mapped[1]);
+  }
+
+  // The URL parser rewrites mapped IPv4 hosts into hex groups, e.g. [::ffff:7f00:1].
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = Number.parseInt(mappedHex[1], 16);
+    const low = Number.parseInt(mappedHex[2], 16);
+    return isPrivateIpv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  if (normalized === "::" || normalized === "::1") {
+    return true;
+  }
+
+  const firstGroup = Number.parseInt(normalized.split(":")[0] || "0", 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (firstGroup & 0xffc0) === 0xfe80 || // fe80::/10 link local
+    (firstGroup & 0xff00) === 0xff00 // ff00::/8 multicast
+  );
+}
+
+/** True for loopback, private, link-local (including cloud metadata), shared, reserved and multicast addresses. */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address.replace(/^\[|\]$/g, ""));
+  if (version === 4) {
+    return isPrivateIpv4(address);
+  }
+  if (version === 6) {
+    return isPrivateIpv6(address);
+  }
+
+  return true;
+}
+
+type WebhookTargetCheck = { problem: string; addresses: [] } | { problem: null; addresses: LookupAddress[] };
+
+async function checkWebhookTarget(url: string, field: string): Promise<WebhookTargetCheck> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return { problem: `${field} must not point at a private or internal address.`, addresses: [] };
+  }
+
+  let addresses: LookupAddress[];
+  const literalFamily = isIP(hostname);
+  if (literalFamily) {
+    addresses = [{ address: hostname, family: literalFamily }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      return { problem: `${field} host could not be resolved.`, addresses: [] };
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    return { problem: `${field} must not point at a private or internal address.`, addresses: [] };
+  }
+
+  return { problem: null, addresses };
+}
+
+/**
+ * Resolves the URL's host and returns a reason when any address it points at is not publicly
+ * routable, or null when the target may be called. DEV_MODE allows local receivers. `field` names
+ * the setting in the message, for callers validating something other than a webhook url.
+ */
+export async function findWebhookTargetProblem(url: string, field = "url"): Promise<string | null> {
+  if (process.env.DEV_MODE === "true") {
+    return null;
+  }
+
+  return (await checkWebhookTarget(url, field)).problem;
+}
+
+/** A connection dispatcher whose lookups only ever answer with `addresses`. */
+export function createPinnedDispatcher(addresses: LookupAddress[]): Agent {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    const family = options.family === 4 || options.family === 6 ? options.family : 0;
+    const candidates = family ? addresses.filter((entry) => entry.family === family) : addresses;
+    if (candidates.length === 0) {
+      callback(Object.assign(new Error("No validated address for this family."), { code: "ENOTFOUND" }), "", 0);
+    } else if (options.all) {
+      callback(null, candidates);
+    } else {
+      callback(null, candidates[0].address, candidates[0].family);
+    }
+  };
+
+  return new Agent({ connect: { lookup: pinnedLookup } });
+}
+
+/**
+ * Checks the target like `findWebhookTargetProblem` and, when it passes, returns a dispatcher that
+ * connects only to the addresses just checked. Without it `fetch` would resolve the host again,
+ * and a DNS answer that changes in between (rebinding) could still reach an internal address.
+ * The dispatcher is undefined in DEV_MODE; callers close it once the request is done.
+ */
+export async function resolveWebhookTarget(
+  url: string
+): Promise<{ problem: string } | { problem: null; dispatcher: Agent | undefined }> {
+  if (process.env.DEV_MODE === "true") {
+    return { problem: null, dispatcher: undefined };
+  }
+
+  const check = await checkWebhookTarget(url, "url");
+  return check.problem === null
+    ? { problem: null, dispatcher: createPinnedDispatcher(check.addresses) }
+    : { problem: check.problem };
+}
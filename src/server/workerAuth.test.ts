@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { authorizeWorkerRequest } from "@/server/workerAuth";
+
+function workerRequest(authorization?: string) {
+  return new Request("http://localhost/api/jobs/autofill/run", {
+    method: "POST",
+    headers: authorization ? { authorization } : {}
+  });
+}
+
+describe("authorizeWorkerRequest", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("disables the worker when its secret is not configured", async () => {
+    vi.stubEnv("AUTOFILL_WORKER_SECRET", " ");
+
+    const response = authorizeWorkerRequest(workerRequest("Bearer anything"), "AUTOFILL_WORKER_SECRET");
+    expect(response?.status).toBe(503);
+    await expect(response?.json()).resolves.toMatchObject({
+      error: { code: "WORKER_DISABLED", message: "AUTOFILL_WORKER_SECRET is not configured." }
+    });
+  });
+
+  it("accepts only the configured bearer secret", () => {
+    vi.stubEnv("AUTOFILL_WORKER_SECRET", "s3cret");
+
+    expect(authorizeWorkerRequest(workerRequest("Bearer s3cret"), "AUTOFILL_WORKER_SECRET")).toBeNull();
+    expect(authorizeWorkerRequest(workerRequest("Bearer s3cre"), "AUTOFILL_WORKER_SECRET")?.status).toBe(401);
+    expect(authorizeWorkerRequest(workerRequest(), "AUTOFILL_WORKER_SECRET")?.status).toBe(401);
+  });
+});
@@ -0,0 +1,36 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { jsonError } from "@/lib/apiResponse";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Checks a scheduler call against the bearer secret in `secretEnvName`. Returns the error response
+ * to send, or null when the caller may run the job. Both sides are hashed first so the comparison
+ * takes the same time whatever the token's length or content.
+ *
+ * Worker runs are not written to the organization audit log: they have no acting member and only
+ * carry out work that an audited member action (upload, autofill start, approval) already queued.
+ */
+export function authorizeWorkerRequest(request: Request, secretEnvName: string): Response | null {
+  const secret = process.env[secretEnvName]?.trim();
+  if (!secret) {
+    return jsonError({
+      status: 503,
+      code: "WORKER_DISABLED",
+      message: `${secretEnvName} is not configured.`
+    });
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  if (!timingSafeEqual(digest(authorization), digest(`Bearer ${secret}`))) {
+    return jsonError({
+      status: 401,
+      code: "UNAUTHORIZED",
+      message: "Invalid worker credentials."
+    });
+  }
+
+  return null;
+}
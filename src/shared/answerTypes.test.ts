@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyAnswerType,
+  formatShapedAnswer,
+  inferShortAnswer,
+  normalizeShortAnswer,
+  readLeadingShortAnswer
+} from "@/shared/answerTypes";
+
+describe("answerTypes", () => {
+  it("classifies questions by wording and dropdown options", () => {
+    expect(classifyAnswerType({ questionText: "Do you encrypt data at rest?" })).toEqual({
+      type: "BOOLEAN",
+      options: []
+    });
+    expect(classifyAnswerType({ questionText: "DP-1. Is MFA enforced for administrators?" }).type).toBe("BOOLEAN");
+    expect(classifyAnswerType({ questionText: "When was your last penetration test performed?" }).type).toBe("DATE");
+    expect(classifyAnswerType({ questionText: "How many employees have production access?" }).type).toBe("NUMBER");
+    expect(classifyAnswerType({ questionText: "Describe your incident response process." }).type).toBe("FREE_TEXT");
+    expect(
+      classifyAnswerType({ questionText: "Hosting model", options: ["SaaS", "On-premises", "Hybrid"] })
+    ).toEqual({ type: "ENUM", options: ["SaaS", "On-premises", "Hybrid"] });
+    expect(classifyAnswerType({ questionText: "Encryption at rest", options: ["Y", "N"] })).toEqual({
+      type: "BOOLEAN",
+      options: ["Y", "N"]
+    });
+  });
+
+  it("normalizes short answers into the template's allowed values", () => {
+    expect(normalizeShortAnswer({ type: "BOOLEAN", options: [] }, "yes")).toBe("Yes");
+    expect(normalizeShortAnswer({ type: "BOOLEAN", options: [] }, "Not applicable")).toBe("N/A");
+    expect(normalizeShortAnswer({ type: "BOOLEAN", options: ["Y", "N"] }, "No")).toBe("N");
+    expect(normalizeShortAnswer({ type: "BOOLEAN", options: ["Y", "N"] }, "N/A")).toBeNull();
+    expect(normalizeShortAnswer({ type: "ENUM", options: ["SaaS", "Hybrid"] }, "saas")).toBe("SaaS");
+    expect(normalizeShortAnswer({ type: "ENUM", options: ["SaaS", "Hybrid"] }, "Cloud")).toBeNull();
+    expect(normalizeShortAnswer({ type: "DATE", options: [] }, "March 4, 2025")).toBe("2025-03-04");
+    expect(normalizeShortAnswer({ type: "DATE", options: [] }, "2025-02-30")).toBeNull();
+    expect(normalizeShortAnswer({ type: "NUMBER", options: [] }, "1,250")).toBe("1250");
+    expect(normalizeShortAnswer({ type: "NUMBER", options: [] }, "about 12 people")).toBeNull();
+  });
+
+  it("splits a leading short answer from its explanation", () => {
+    expect(
+      readLeadingShortAnswer({ type: "BOOLEAN", options: [] }, "Yes. Customer data is encrypted with AES-256.")
+    ).toEqual({ shortAnswer: "Yes", explanation: "Customer data is encrypted with AES-256." });
+    expect(readLeadingShortAnswer({ type: "BOOLEAN", options: [] }, "Not applicable — no card data.")).toEqual({
+      shortAnswer: "N/A",
+      explanation: "no card data."
+    });
+    expect(readLeadingShortAnswer({ type: "BOOLEAN", options: [] }, "Nothing in scope is stored.")).toBeNull();
+    expect(readLeadingShortAnswer({ type: "DATE", options: [] }, "2025-01-15: annual external test.")).toEqual({
+      shortAnswer: "2025-01-15",
+      explanation: "annual external test."
+    });
+    expect(readLeadingShortAnswer({ type: "FREE_TEXT", options: [] }, "Yes, always.")).toBeNull();
+  });
+
+  it("infers a best-effort short answer from evidence text", () => {
+    expect(inferShortAnswer({ type: "BOOLEAN", options: [] }, "All laptops use full-disk encryption.")).toBe("Yes");
+    expect(inferShortAnswer({ type: "BOOLEAN", options: [] }, "SCIM provisioning is not supported.")).toBe("No");
+    expect(inferShortAnswer({ type: "ENUM", options: ["SaaS", "Hybrid"] }, "Delivered as multi-tenant SaaS.")).toBe(
+      "SaaS"
+    );
+    expect(inferShortAnswer({ type: "NUMBER", options: [] }, "Logs are kept for 365 days.")).toBe("365");
+  });
+
+  it("formats the Yes — evidence shape", () => {
+    expect(formatShapedAnswer({ shortAnswer: "Yes", explanation: "AES-256 at rest." })).toBe("Yes — AES-256 at rest.");
+    expect(formatShapedAnswer({ shortAnswer: "No", explanation: "" })).toBe("No");
+  });
+});
@@ -0,0 +1,274 @@
+export type AnswerType = "BOOLEAN" | "ENUM" | "DATE" | "NUMBER" | "FREE_TEXT";
+
+export type AnswerTypeSpec = {
+  type: AnswerType;
+  /** Allowed values from the template's dropdown, in the template's own spelling. */
+  options: string[];
+};
+
+export type ShapedAnswer = {
+  shortAnswer: string;
+  explanation: string;
+};
+
+export const FREE_TEXT_ANSWER_TYPE: AnswerTypeSpec = { type: "FREE_TEXT", options: [] };
+export const SHORT_ANSWER_SEPARATOR = " — ";
+
+const BOOLEAN_VALUES = ["Yes", "No", "N/A"] as const;
+const BOOLEAN_ALIASES: Record<string, (typeof BOOLEAN_VALUES)[number]> = {
+  yes: "Yes",
+  y: "Yes",
+  true: "Yes",
+  no: "No",
+  n: "No",
+  false: "No",
+  "n/a": "N/A",
+  na: "N/A",
+  "not applicable": "N/A"
+};
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december"
+];
+
+const QUESTION_NUMBER_PREFIX = /^\s*\(?[A-Za-z]{0,4}[-.]?\d+(?:\.\d+)*[.)]?:?\s+/;
+const BOOLEAN_QUESTION_PATTERN =
+  /^(do|does|did|is|are|was|were|has|have|had|can|could|will|would|should|shall|must|may)\b/i;
+const DATE_QUESTION_PATTERN =
+  /\b(what|which)\s+(is\s+the\s+)?date\b|\bdate\s+of\b|\bwhen\s+(was|were|did|is|will)\b|\bas\s+of\s+what\s+date\b/i;
+const NUMBER_QUESTION_PATTERN = /\bhow\s+many\b|\bnumber\s+of\b|\bwhat\s+percent(age)?\b|\bhow\s+much\b/i;
+const NEGATION_PATTERN = /\b(not|no|never|none|cannot|can't|doesn't|don't|isn't|aren't|won't|lacks?)\b/i;
+const NUMBER_PATTERN = /-?\d[\d,]*(?:\.\d+)?/;
+const LEADING_SEPARATOR_PATTERN = /^\s*(?:[—–:;,.-]\s*)*/;
+
+function normalizeToken(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.!]+$/, "");
+}
+
+function toBooleanValue(value: string): (typeof BOOLEAN_VALUES)[number] | null {
+  return BOOLEAN_ALIASES[normalizeToken(value)] ?? null;
+}
+
+function isBooleanOptionList(options: string[]): boolean {
+  return options.length > 0 && options.every((option) => toBooleanValue(option) !== null);
+}
+
+/**
+ * Picks the expected answer shape for a questionnaire row. Dropdown options from the template win;
+ * otherwise the question wording decides, and anything ambiguous stays free text.
+ */
+export function classifyAnswerType(params: { questionText: string; options?: string[] }): AnswerTypeSpec {
+  const options = Array.from(new Set((params.options ?? []).map((option) => option.trim()).filter(Boolean)));
+  if (options.length > 0) {
+    return { type: isBooleanOptionList(options) ? "BOOLEAN" : "ENUM", options };
+  }
+
+  const question = params.questionText.replace(QUESTION_NUMBER_PREFIX, "").trim();
+  if (DATE_QUESTION_PATTERN.test(question)) {
+    return { type: "DATE", options: [] };
+  }
+
+  if (NUMBER_QUESTION_PATTERN.test(question)) {
+    return { type: "NUMBER", options: [] };
+  }
+
+  if (BOOLEAN_QUESTION_PATTERN.test(question)) {
+    return { type: "BOOLEAN", options: [] };
+  }
+
+  return FREE_TEXT_ANSWER_TYPE;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function findDate(text: string): { value: string; index: number; length: number } | null {
+  const monthNames = MONTHS.join("|");
+  const candidates: Array<{ match: RegExpMatchArray | null; toDate: (match: RegExpMatchArray) => string | null }> = [
+    {
+      match: text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/),
+      toDate: (match) => toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+    },
+    {
+      match: text.match(new RegExp(`\\b(${monthNames})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "i")),
+      toDate: (match) => toIsoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]))
+    },
+    {
+      match: text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${monthNames}),?\\s+(\\d{4})\\b`, "i")),
+      toDate: (match) => toIsoDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]))
+    },
+    {
+      match: text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/),
+      toDate: (match) => toIsoDate(Number(match[3]), Number(match[1]), Number(match[2]))
+    }
+  ];
+
+  const found = candidates
+    .filter((candidate): candidate is { match: RegExpMatchArray; toDate: (match: RegExpMatchArray) => string | null } =>
+      Boolean(candidate.match)
+    )
+    .map((candidate) => ({
+      value: candidate.toDate(candidate.match),
+      index: candidate.match.index ?? 0,
+      length: candidate.match[0].length
+    }))
+    .filter((candidate): candidate is { value: string; index: number; length: number } => candidate.value !== null)
+    .sort((left, right) => left.index - right.index);
+
+  return found[0] ?? null;
+}
+
+function findNumber(text: string): { value: string; index: number; length: number } | null {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return { value: match[0].replace(/,/g, ""), index: match.index ?? 0, length: match[0].length };
+}
+
+function matchOption(options: string[], value: string): string | null {
+  const normalized = normalizeToken(value);
+  return options.find((option) => normalizeToken(option) === normalized) ?? null;
+}
+
+/**
+ * Validates a candidate short answer against the expected type and returns it in canonical form
+ * (Yes/No/N/A, the dropdown's spelling, YYYY-MM-DD, or a plain number), or null when it does not fit.
+ */
+export function normalizeShortAnswer(spec: AnswerTypeSpec, value: string | null | undefined): string | null {
+  const raw = (value ?? "").trim();
+  if (!raw) {
+    return null;
+  }
+
+  switch (spec.type) {
+    case "BOOLEAN": {
+      const booleanValue = toBooleanValue(raw);
+      if (!booleanValue) {
+        return null;
+      }
+
+      if (spec.options.length === 0) {
+        return booleanValue;
+      }
+
+      return spec.options.find((option) => toBooleanValue(option) === booleanValue) ?? null;
+    }
+    case "ENUM":
+      return matchOption(spec.options, raw);
+    case "DATE": {
+      const date = findDate(raw);
+      return date && date.length === raw.replace(/[.]$/, "").length ? date.value : null;
+    }
+    case "NUMBER": {
+      const number = findNumber(raw);
+      return number && number.length === raw.replace(/[.%]$/, "").length ? number.value : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a short answer the draft already leads with, e.g. "Yes. All data is encrypted" or
+ * "2024-03-01 — annual test". The remainder becomes the explanation.
+ */
+export function readLeadingShortAnswer(spec: AnswerTypeSpec, answer: string): ShapedAnswer | null {
+  const text = answer.trim();
+  if (!text || spec.type === "FREE_TEXT") {
+    return null;
+  }
+
+  let lead: string | null = null;
+  if (spec.type === "BOOLEAN" || spec.type === "ENUM") {
+    const candidates = spec.type === "BOOLEAN" ? [...spec.options, ...Object.keys(BOOLEAN_ALIASES)] : spec.options;
+    lead =
+      candidates
+        .filter((candidate) => candidate.trim().length > 0)
+        .sort((left, right) => right.length - left.length)
+        .find((candidate) => {
+          const prefix = text.slice(0, candidate.length);
+          const boundary = text.charAt(candidate.length);
+          return normalizeToken(prefix) === normalizeToken(candidate) && !/[a-z0-9/]/i.test(boundary);
+        }) ?? null;
+    lead = lead === null ? null : text.slice(0, lead.length);
+  } else {
+    const found = spec.type === "DATE" ? findDate(text) : findNumber(text);
+    lead = found && found.index === 0 ? text.slice(0, found.length) : null;
+  }
+
+  const shortAnswer = lead === null ? null : normalizeShortAnswer(spec, lead);
+  if (lead === null || shortAnswer === null) {
+    return null;
+  }
+
+  const explanation = text.slice(lead.length).replace(LEADING_SEPARATOR_PATTERN, "").trim();
+  return { shortAnswer, explanation };
+}
+
+/**
+ * Best-effort short answer from free text, used when no model is available to pick one. Boolean
+ * answers read as "No" when the evidence is negated and "Yes" otherwise.
+ */
+export function inferShortAnswer(spec: AnswerTypeSpec, answer: string): string | null {
+  const text = answer.trim();
+  if (!text) {
+    return null;
+  }
+
+  switch (spec.type) {
+    case "BOOLEAN":
+      return normalizeShortAnswer(spec, NEGATION_PATTERN.test(text) ? "No" : "Yes");
+    case "ENUM": {
+      const lowerText = text.toLowerCase();
+      return (
+        [...spec.options]
+          .sort((left, right) => right.length - left.length)
+          .find((option) => lowerText.includes(option.toLowerCase())) ?? null
+      );
+    }
+    case "DATE":
+      return findDate(text)?.value ?? null;
+    case "NUMBER":
+      return findNumber(text)?.value ?? null;
+    default:
+      return null;
+  }
+}
+
+export function formatShapedAnswer(shaped: ShapedAnswer): string {
+  return shaped.explanation ? `${shaped.shortAnswer}${SHORT_ANSWER_SEPARATOR}${shaped.explanation}` : shaped.shortAnswer;
+}
+
+export function describeAnswerType(spec: AnswerTypeSpec): string {
+  switch (spec.type) {
+    case "BOOLEAN":
+      return `one of ${(spec.options.length > 0 ? spec.options : [...BOOLEAN_VALUES]).join(", ")}`;
+    case "ENUM":
+      return `exactly one of ${spec.options.join(", ")}`;
+    case "DATE":
+      return "a date in YYYY-MM-DD format";
+    case "NUMBER":
+      return "a single number without units";
+    default:
+      return "free text";
+  }
+}
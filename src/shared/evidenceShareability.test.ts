@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyInternalSnippetPolicy,
+  INTERNAL_ONLY_SNIPPET_PLACEHOLDER,
+  parseInternalSnippetPolicy,
+  reliesSolelyOnInternalOnlyEvidence
+} from "@/shared/evidenceShareability";
+
+const CITATIONS = [
+  { docName: "policy.md", chunkId: "chunk-public", quotedSnippet: "We encrypt data at rest." },
+  { docName: "incident-2026.md", chunkId: "chunk-internal", quotedSnippet: "Root cause: leaked key." }
+];
+
+describe("evidenceShareability", () => {
+  it("redacts internal-only snippets but keeps the document reference", () => {
+    const result = applyInternalSnippetPolicy(CITATIONS, new Set(["chunk-internal"]), "redact");
+
+    expect(result.withheldCount).toBe(1);
+    expect(result.citations).toEqual([
+      CITATIONS[0],
+      { docName: "incident-2026.md", chunkId: "chunk-internal", quotedSnippet: INTERNAL_ONLY_SNIPPET_PLACEHOLDER }
+    ]);
+  });
+
+  it("omits internal-only citations and defaults unknown policies to redact", () => {
+    const result = applyInternalSnippetPolicy(CITATIONS, new Set(["chunk-internal"]), "omit");
+
+    expect(result).toEqual({ citations: [CITATIONS[0]], withheldCount: 1 });
+    expect(parseInternalSnippetPolicy("omit")).toBe("omit");
+    expect(parseInternalSnippetPolicy("include")).toBe("redact");
+    expect(parseInternalSnippetPolicy(null)).toBe("redact");
+  });
+
+  it("flags answers only when every cited chunk is internal-only", () => {
+    const internalOnly = new Set(["chunk-internal"]);
+
+    expect(reliesSolelyOnInternalOnlyEvidence(["chunk-internal"], internalOnly)).toBe(true);
+    expect(reliesSolelyOnInternalOnlyEvidence(["chunk-internal", "chunk-public"], internalOnly)).toBe(false);
+    expect(reliesSolelyOnInternalOnlyEvidence([], internalOnly)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+export type DocumentShareability = "PUBLIC" | "NDA" | "INTERNAL_ONLY";
+
+/** How exports treat citations whose source document is internal-only. */
+export type InternalSnippetPolicy = "redact" | "omit";
+
+export const DOCUMENT_SHAREABILITY_OPTIONS: Array<{ value: DocumentShareability; label: string }> = [
+  { value: "PUBLIC", label: "Public" },
+  { value: "NDA", label: "Customer-shareable (NDA)" },
+  { value: "INTERNAL_ONLY", label: "Internal only" }
+];
+
+export const INTERNAL_ONLY_SNIPPET_PLACEHOLDER = "[internal-only evidence withheld]";
+
+export function isDocumentShareability(value: unknown): value is DocumentShareability {
+  return value === "PUBLIC" || value === "NDA" || value === "INTERNAL_ONLY";
+}
+
+/**
+ * Labels a trust portal may serve: public portals only public documents, NDA-gated portals also
+ * customer-shareable ones. Internal-only documents are never served.
+ */
+export function trustPortalShareabilities(accessMode: "PUBLIC" | "NDA_GATED"): DocumentShareability[] {
+  return accessMode === "NDA_GATED" ? ["PUBLIC", "NDA"] : ["PUBLIC"];
+}
+
+export function parseInternalSnippetPolicy(value: string | null): InternalSnippetPolicy {
+  return value === "omit" ? "omit" : "redact";
+}
+
+/**
+ * Redacts the quoted text of internal-only citations (keeping the document reference) or drops them
+ * entirely, depending on the policy.
+ */
+export function applyInternalSnippetPolicy<T extends { chunkId: string; quotedSnippet: string }>(
+  citations: T[],
+  internalOnlyChunkIds: ReadonlySet<string>,
+  policy: InternalSnippetPolicy
+): { citations: T[]; withheldCount: number } {
+  let withheldCount = 0;
+  const result: T[] = [];
+
+  for (const citation of citations) {
+    if (!internalOnlyChunkIds.has(citation.chunkId)) {
+      result.push(citation);
+      continue;
+    }
+
+    withheldCount += 1;
+    if (policy === "redact") {
+      result.push({ ...citation, quotedSnippet: INTERNAL_ONLY_SNIPPET_PLACEHOLDER });
+    }
+  }
+
+  return { citations: result, withheldCount };
+}
+
+/** True when an answer cites evidence and every cited chunk comes from an internal-only document. */
+export function reliesSolelyOnInternalOnlyEvidence(
+  chunkIds: string[],
+  internalOnlyChunkIds: ReadonlySet<string>
+): boolean {
+  return chunkIds.length > 0 && chunkIds.every((chunkId) => internalOnlyChunkIds.has(chunkId));
+}
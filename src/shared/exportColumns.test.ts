@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  deriveYesNoValue,
+  readExportColumnMapping,
+  suggestExportColumnMapping,
+  validateExportColumnMapping
+} from "@/shared/exportColumns";
+
+describe("exportColumns", () => {
+  it("derives Yes/No/N/A only from explicit leading verdicts", () => {
+    expect(deriveYesNoValue("Yes, all data is encrypted with AES-256.")).toBe("Yes");
+    expect(deriveYesNoValue("No. SCIM is not supported.")).toBe("No");
+    expect(deriveYesNoValue("N/A - no cardholder data is processed.")).toBe("N/A");
+    expect(deriveYesNoValue("Not applicable to this service.")).toBe("N/A");
+    expect(deriveYesNoValue("None of the listed subprocessors are used.")).toBe("");
+    expect(deriveYesNoValue("TLS 1.2+ is enabled for external traffic.")).toBe("");
+    expect(deriveYesNoValue("Not found in provided documents.")).toBe("");
+    expect(deriveYesNoValue("Not specified in provided documents.")).toBe("");
+  });
+
+  it("suggests existing template columns by header name", () => {
+    expect(suggestExportColumnMapping(["ID", "Question", "Response", "Yes/No", "Comments"], "Question")).toEqual({
+      answerColumn: "Response",
+      yesNoColumn: "Yes/No",
+      citationsColumn: "Comments"
+    });
+    expect(suggestExportColumnMapping(["Question", "Owner"], "Question")).toEqual({
+      answerColumn: null,
+      yesNoColumn: null,
+      citationsColumn: null
+    });
+  });
+
+  it("rejects unknown, question and shared columns", () => {
+    const headers = ["Question", "Response", "Comments"];
+
+    expect(
+      validateExportColumnMapping({
+        mapping: { answerColumn: "Response", yesNoColumn: null, citationsColumn: "Comments" },
+        headers,
+        questionColumn: "Question"
+      })
+    ).toBeNull();
+    expect(
+      validateExportColumnMapping({
+        mapping: { answerColumn: "Missing", yesNoColumn: null, citationsColumn: null },
+        headers,
+        questionColumn: "Question"
+      })
+    ).toContain('"Missing"');
+    expect(
+      validateExportColumnMapping({
+        mapping: { answerColumn: "Question", yesNoColumn: null, citationsColumn: null },
+        headers,
+        questionColumn: "Question"
+      })
+    ).toBe("Answer cannot be written to the question column.");
+    expect(
+      validateExportColumnMapping({
+        mapping: { answerColumn: "Response", yesNoColumn: "Response", citationsColumn: null },
+        headers,
+        questionColumn: "Question"
+      })
+    ).toBe("Answer and Yes/No must use different columns.");
+  });
+
+  it("reads a mapping from untrusted input", () => {
+    expect(readExportColumnMapping({ answerColumn: " Response ", yesNoColumn: "", citationsColumn: 3 })).toEqual({
+      answerColumn: "Response",
+      yesNoColumn: null,
+      citationsColumn: null
+    });
+    expect(readExportColumnMapping(null)).toEqual({ answerColumn: null, yesNoColumn: null, citationsColumn: null });
+  });
+});
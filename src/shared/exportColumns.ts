@@ -0,0 +1,120 @@
+import { NOT_FOUND_TEXT, PARTIAL_TEXT, normalizeTemplateText } from "@/shared/answerTemplates";
+
+export type ExportColumnMapping = {
+  answerColumn: string | null;
+  yesNoColumn: string | null;
+  citationsColumn: string | null;
+};
+
+export type YesNoValue = "Yes" | "No" | "N/A" | "";
+
+export const EMPTY_EXPORT_COLUMN_MAPPING: ExportColumnMapping = {
+  answerColumn: null,
+  yesNoColumn: null,
+  citationsColumn: null
+};
+
+const EXPORT_COLUMN_LABELS: Record<keyof ExportColumnMapping, string> = {
+  answerColumn: "Answer",
+  yesNoColumn: "Yes/No",
+  citationsColumn: "Citations"
+};
+
+const YES_NO_HEADER_PATTERN = /^(yes\s*\/\s*no|y\s*\/\s*n|yes\s*\/\s*no\s*\/\s*n\/?a|compliant|compliance)$/i;
+const ANSWER_HEADER_PATTERN = /\b(response|answer|vendor response|reply)\b/i;
+const CITATIONS_HEADER_PATTERN = /\b(comments?|citations?|evidence|references?|notes?)\b/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toColumnName(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function readExportColumnMapping(value: unknown): ExportColumnMapping {
+  if (!isRecord(value)) {
+    return { ...EMPTY_EXPORT_COLUMN_MAPPING };
+  }
+
+  return {
+    answerColumn: toColumnName(value.answerColumn),
+    yesNoColumn: toColumnName(value.yesNoColumn),
+    citationsColumn: toColumnName(value.citationsColumn)
+  };
+}
+
+/**
+ * Returns a user-facing reason the mapping cannot be used with these headers, or null when it is valid.
+ * Mapped columns must exist, must not overwrite the question column, and must not share a column.
+ */
+export function validateExportColumnMapping(params: {
+  mapping: ExportColumnMapping;
+  headers: string[];
+  questionColumn: string | null;
+}): string | null {
+  const seen = new Map<string, keyof ExportColumnMapping>();
+
+  for (const key of Object.keys(EXPORT_COLUMN_LABELS) as Array<keyof ExportColumnMapping>) {
+    const column = params.mapping[key];
+    if (!column) {
+      continue;
+    }
+
+    if (!params.headers.includes(column)) {
+      return `Column "${column}" is not one of the questionnaire's source columns.`;
+    }
+
+    if (column === params.questionColumn) {
+      return `${EXPORT_COLUMN_LABELS[key]} cannot be written to the question column.`;
+    }
+
+    const previous = seen.get(column);
+    if (previous) {
+      return `${EXPORT_COLUMN_LABELS[previous]} and ${EXPORT_COLUMN_LABELS[key]} must use different columns.`;
+    }
+
+    seen.set(column, key);
+  }
+
+  return null;
+}
+
+/** Pre-selects existing template columns by header name; anything unrecognized stays unmapped. */
+export function suggestExportColumnMapping(headers: string[], questionColumn: string | null): ExportColumnMapping {
+  const candidates = headers.filter((header) => header !== questionColumn);
+  const yesNoColumn = candidates.find((header) => YES_NO_HEADER_PATTERN.test(header.trim())) ?? null;
+  const answerColumn =
+    candidates.find((header) => header !== yesNoColumn && ANSWER_HEADER_PATTERN.test(header)) ?? null;
+  const citationsColumn =
+    candidates.find(
+      (header) => header !== yesNoColumn && header !== answerColumn && CITATIONS_HEADER_PATTERN.test(header)
+    ) ?? null;
+
+  return { answerColumn, yesNoColumn, citationsColumn };
+}
+
+/**
+ * Derives the short Yes/No/N/A value for templates with a dedicated column. Only explicit leading
+ * verdicts count; everything else is left blank for a reviewer rather than guessed.
+ */
+export function deriveYesNoValue(answer: string): YesNoValue {
+  const text = normalizeTemplateText(answer);
+  if (!text || text === NOT_FOUND_TEXT || text === PARTIAL_TEXT) {
+    return "";
+  }
+
+  if (/^(n\/a|not applicable)\b/i.test(text)) {
+    return "N/A";
+  }
+
+  if (/^yes\b/i.test(text)) {
+    return "Yes";
+  }
+
+  if (/^no\b/i.test(text)) {
+    return "No";
+  }
+
+  return "";
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
   buildTrustQueueSessionHref,
+  isAssignedToMeParam,
   normalizeTrustQueueSessionFilterParam,
   toTrustQueueFilter
 } from "@/shared/trustQueueSessionLinks";
@@ -46,6 +47,26 @@ describe("buildTrustQueueSessionHref", () => {
       "/questionnaires/questionnaire-1?itemId=question-9&filter=needs-review&source=review&queueFilter=needs-review"
     );
   });
+
+  it("keeps the assigned-to-me scope", () => {
+    expect(
+      buildTrustQueueSessionHref({
+        questionnaireId: "questionnaire-1",
+        itemId: "question-9",
+        rowFilter: "needs-review",
+        queueFilter: "all",
+        queueAssignedToMe: true
+      })
+    ).toBe("/questionnaires/questionnaire-1?itemId=question-9&filter=needs-review&source=review&queueFilter=all&queueAssignee=me");
+  });
+});
+
+describe("isAssignedToMeParam", () => {
+  it("only accepts me", () => {
+    expect(isAssignedToMeParam(" ME ")).toBe(true);
+    expect(isAssignedToMeParam("someone-else")).toBe(false);
+    expect(isAssignedToMeParam(undefined)).toBe(false);
+  });
 });
 
 describe("toTrustQueueFilter", () => {
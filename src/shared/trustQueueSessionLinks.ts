@@ -1,6 +1,11 @@
 export type TrustQueueSessionFilterParam = "all" | "stale" | "needs-review";
 export type TrustQueueSessionRowFilter = "stale" | "needs-review";
 
+/** Reads the "assigned to me" toggle shared by the inbox (`assignee`) and session links (`queueAssignee`). */
+export function isAssignedToMeParam(value: string | null | undefined): boolean {
+  return (value ?? "").trim().toLowerCase() === "me";
+}
+
 export function normalizeTrustQueueSessionFilterParam(
   value: string | null | undefined
 ): TrustQueueSessionFilterParam {
@@ -31,6 +36,7 @@ export function buildTrustQueueSessionHref(params: {
   rowFilter: TrustQueueSessionRowFilter;
   queueFilter: TrustQueueSessionFilterParam;
   queueQuery?: string | null;
+  queueAssignedToMe?: boolean;
 }): string {
   const searchParams = new URLSearchParams({
     itemId: params.itemId,
@@ -44,5 +50,9 @@ export function buildTrustQueueSessionHref(params: {
     searchParams.set("queueQuery", queueQuery);
   }
 
+  if (params.queueAssignedToMe) {
+    searchParams.set("queueAssignee", "me");
+  }
+
   return `/questionnaires/${params.questionnaireId}?${searchParams.toString()}`;
 }
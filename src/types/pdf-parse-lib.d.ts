@@ -2,10 +2,12 @@ declare module "pdf-parse/lib/pdf-parse.js" {
   type TextContentItem = {
     str?: string;
     transform?: number[];
+    width?: number;
     hasEOL?: boolean;
   };
 
   type PdfPageData = {
+    pageNumber?: number;
     getTextContent: (params: {
       normalizeWhitespace: boolean;
       disableCombineTextItems: boolean;